@@ -0,0 +1,53 @@
+import { getDatabase } from 'firebase-admin/database';
+import { DocumentData, DocumentSnapshot } from 'firebase-admin/firestore';
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+
+// Keep in step with ACCESS_ROLE_PERMISSIONS in src/services/permissions.ts.
+export const ACCESS_ROLE_PERMISSIONS: Record<string, string[]> = {
+  department_head: ['manage_schedules', 'edit_attendance', 'view_reports', 'view_energy'],
+  facilities_staff: ['manage_rooms', 'view_energy', 'view_security_logs', 'resolve_tamper_alerts'],
+  registrar: ['approve_registrations', 'manage_roster', 'manage_rfid_cards', 'view_reports'],
+};
+
+// Permissions from these roles only reach the holder's own department.
+export const DEPARTMENT_SCOPED_ROLES = ['department_head'];
+
+// For a users or teachers profile; department-scoped roles do not count.
+export const holdsGlobalPermission = (profile: DocumentData, permission: string): boolean => {
+  if (profile.role === 'admin') return true;
+  const fromRole = DEPARTMENT_SCOPED_ROLES.includes(profile.accessRole)
+    ? []
+    : ACCESS_ROLE_PERMISSIONS[profile.accessRole] || [];
+  return [...fromRole, ...(profile.permissions || [])].includes(permission);
+};
+
+const asFlags = (permissions: string[]) => Object.fromEntries(permissions.map((permission) => [permission, true]));
+
+const accessOf = (profile: DocumentSnapshot | undefined) => {
+  const data = profile?.exists ? profile.data() : undefined;
+  if (!data) return null;
+  const fromRole = ACCESS_ROLE_PERMISSIONS[data.accessRole] || [];
+  const scoped = DEPARTMENT_SCOPED_ROLES.includes(data.accessRole);
+  return {
+    role: data.role || 'instructor',
+    permissions: asFlags([...(scoped ? [] : fromRole), ...(data.permissions || [])]),
+    ...(scoped ? { department: data.department || '', departmentPermissions: asFlags(fromRole) } : {}),
+  };
+};
+
+/**
+ * The Realtime Database rules cannot read Firestore, so each staff profile's
+ * role and effective permissions are mirrored to /UserAccess/{authUid}.
+ * Department-scoped permissions are kept apart so the rules never treat
+ * them as global.
+ */
+const mirrorAccess = (collectionName: string) =>
+  onDocumentWritten({ document: `${collectionName}/{profileId}`, region: 'asia-southeast1' }, async (event) => {
+    const after = event.data?.after;
+    const before = event.data?.before;
+    const uid = after?.data()?.uid || before?.data()?.uid || event.params.profileId;
+    await getDatabase().ref(`UserAccess/${uid}`).set(accessOf(after));
+  });
+
+export const mirrorAdminAccess = mirrorAccess('users');
+export const mirrorInstructorAccess = mirrorAccess('teachers');
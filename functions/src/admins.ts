@@ -0,0 +1,56 @@
+import { getFirestore } from 'firebase-admin/firestore';
+import { HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import { ACCESS_ROLE_PERMISSIONS, DEPARTMENT_SCOPED_ROLES } from './access';
+
+/**
+ * True once this sign-in has passed two-step verification (see mfa.ts). The
+ * claim holds the `auth_time` of the sign-in that passed, so a new sign-in
+ * must pass again.
+ */
+export const secondFactorVerified = (token: NonNullable<CallableRequest['auth']>['token']): boolean =>
+  token.mfaEnrolled === true && token.mfaAuthTime === token.auth_time;
+
+// The role claim decides, and the sign-in must have passed the second step.
+// Admin profiles, read for the name, live in `users` keyed by auth uid since
+// admin registration moved server-side; older ones are found by email.
+export const assertAdmin = async (auth: CallableRequest['auth']): Promise<{ uid: string; fullName: string }> => {
+  if (!auth) {
+    throw new HttpsError('unauthenticated', 'Sign in first');
+  }
+  if (auth.token.role !== 'admin') {
+    throw new HttpsError('permission-denied', 'Only admins can do this');
+  }
+  if (!secondFactorVerified(auth.token)) {
+    throw new HttpsError('permission-denied', 'Complete two-step sign-in first');
+  }
+  const users = getFirestore().collection('users');
+  const byUid = await users.doc(auth.uid).get();
+  const profile = byUid.exists
+    ? byUid.data()
+    : (await users.where('email', '==', auth.token.email || '').limit(1).get()).docs[0]?.data();
+  return { uid: auth.uid, fullName: profile?.fullName || auth.token.name || '' };
+};
+
+/**
+ * Lets in admins and staff holding the permission globally, through their
+ * access role or granted directly; department-scoped roles do not count.
+ */
+export const assertPermission = async (
+  auth: CallableRequest['auth'],
+  permission: string
+): Promise<{ uid: string; fullName: string }> => {
+  if (auth?.token.role === 'admin') return assertAdmin(auth);
+  if (!auth) {
+    throw new HttpsError('unauthenticated', 'Sign in first');
+  }
+  if (auth.token.mfaEnrolled === true && !secondFactorVerified(auth.token)) {
+    throw new HttpsError('permission-denied', 'Complete two-step sign-in first');
+  }
+  const accessRole = String(auth.token.accessRole || '');
+  const fromRole = DEPARTMENT_SCOPED_ROLES.includes(accessRole) ? [] : ACCESS_ROLE_PERMISSIONS[accessRole] || [];
+  const permissions: string[] = [...fromRole, ...(auth.token.permissions || [])];
+  if (!permissions.includes(permission)) {
+    throw new HttpsError('permission-denied', 'You do not have access to this');
+  }
+  return { uid: auth.uid, fullName: auth.token.name || auth.token.email || '' };
+};
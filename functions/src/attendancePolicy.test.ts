@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AttendancePolicy, DEFAULT_POLICY, attendedPercent, classifyTap, isEarlyLeave, resolvePolicy } from './attendancePolicy';
+
+const MINUTE = 60 * 1000;
+// 2025-03-14 08:00 Philippine time.
+const START = Date.UTC(2025, 2, 14, 0, 0, 0);
+const END = START + 90 * MINUTE;
+
+const policy: AttendancePolicy = {
+  graceMinutes: 15,
+  lateCutoffMinutes: 10,
+  absentAfterMinutes: 30,
+  earlyLeaveMinutes: 5,
+  minimumAttendedPercent: 50,
+};
+
+describe('classifyTap', () => {
+  it('counts taps up to the late cutoff as present', () => {
+    assert.equal(classifyTap(START - 20 * MINUTE, START, policy), 'present');
+    assert.equal(classifyTap(START + 10 * MINUTE, START, policy), 'present');
+  });
+
+  it('counts taps past the late cutoff and up to the absent cutoff as late', () => {
+    assert.equal(classifyTap(START + 10 * MINUTE + 1000, START, policy), 'late');
+    assert.equal(classifyTap(START + 30 * MINUTE, START, policy), 'late');
+  });
+
+  it('counts taps past the absent cutoff as absent', () => {
+    assert.equal(classifyTap(START + 30 * MINUTE + 1000, START, policy), 'absent');
+  });
+});
+
+describe('isEarlyLeave', () => {
+  it('flags a time-out before the allowance', () => {
+    assert.equal(isEarlyLeave(END - 6 * MINUTE, END, policy), true);
+  });
+
+  it('allows leaving within the allowance', () => {
+    assert.equal(isEarlyLeave(END - 5 * MINUTE, END, policy), false);
+    assert.equal(isEarlyLeave(END + MINUTE, END, policy), false);
+  });
+});
+
+describe('attendedPercent', () => {
+  it('counts only the scheduled part of the stay', () => {
+    assert.equal(attendedPercent(START - 10 * MINUTE, END + 10 * MINUTE, START, END), 100);
+    assert.equal(attendedPercent(START + 45 * MINUTE, END, START, END), 50);
+  });
+
+  it('never goes below zero', () => {
+    assert.equal(attendedPercent(END + MINUTE, END + 2 * MINUTE, START, END), 0);
+  });
+
+  it('treats an empty schedule as fully attended', () => {
+    assert.equal(attendedPercent(START, START, START, START), 100);
+  });
+});
+
+describe('resolvePolicy', () => {
+  it('lets later layers override earlier ones and ignores anything but numbers', () => {
+    const resolved = resolvePolicy({ lateCutoffMinutes: 5 }, null, { lateCutoffMinutes: 7, graceMinutes: '0', unknown: 3 });
+    assert.deepEqual(resolved, { ...DEFAULT_POLICY, lateCutoffMinutes: 7 });
+  });
+});
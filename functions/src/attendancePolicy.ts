@@ -0,0 +1,57 @@
+/**
+ * How the finalizer in attendanceSessions.ts judges a student's record
+ * against the session's policy. The web app edits policies (see
+ * src/services/attendancePolicy.ts) but leaves judging them to the server.
+ */
+
+const MINUTE = 60 * 1000;
+
+// Same fields as `AttendancePolicy` in src/types/index.ts.
+export interface AttendancePolicy {
+  graceMinutes: number;
+  lateCutoffMinutes: number;
+  absentAfterMinutes: number;
+  earlyLeaveMinutes: number;
+  minimumAttendedPercent: number;
+}
+
+export type FinalStatus = 'present' | 'late' | 'absent';
+
+export const DEFAULT_POLICY: AttendancePolicy = {
+  graceMinutes: 15,
+  lateCutoffMinutes: 15,
+  absentAfterMinutes: 45,
+  earlyLeaveMinutes: 10,
+  minimumAttendedPercent: 0,
+};
+
+// Later layers win; missing or non-numeric fields fall through to the layer below.
+export const resolvePolicy = (...overrides: unknown[]): AttendancePolicy =>
+  overrides.reduce<AttendancePolicy>((policy, override) => {
+    const next = { ...policy };
+    Object.entries((override as Record<string, unknown>) || {}).forEach(([key, value]) => {
+      if (key in DEFAULT_POLICY && typeof value === 'number' && !Number.isNaN(value)) {
+        next[key as keyof AttendancePolicy] = value;
+      }
+    });
+    return next;
+  }, DEFAULT_POLICY);
+
+// Classifies a tap-in against the class start.
+export const classifyTap = (tapTime: number, scheduledStart: number, policy: AttendancePolicy): FinalStatus => {
+  const minutesLate = (tapTime - scheduledStart) / MINUTE;
+  if (minutesLate > policy.absentAfterMinutes) return 'absent';
+  if (minutesLate > policy.lateCutoffMinutes) return 'late';
+  return 'present';
+};
+
+export const isEarlyLeave = (timeOut: number, scheduledEnd: number, policy: AttendancePolicy): boolean =>
+  timeOut < scheduledEnd - policy.earlyLeaveMinutes * MINUTE;
+
+// Share of the scheduled class, in percent, between time-in and time-out.
+export const attendedPercent = (timeIn: number, timeOut: number, scheduledStart: number, scheduledEnd: number) => {
+  const scheduled = scheduledEnd - scheduledStart;
+  if (scheduled <= 0) return 100;
+  const attended = Math.min(timeOut, scheduledEnd) - Math.max(timeIn, scheduledStart);
+  return Math.max(0, Math.min(100, (attended / scheduled) * 100));
+};
@@ -0,0 +1,360 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import adminDatabase = require('firebase-admin/database');
+import adminFirestore = require('firebase-admin/firestore');
+import {
+  AttendanceSession,
+  closeAttendanceSession,
+  dateKeyAt,
+  finalizeAttendanceSessions,
+  firmwareKey,
+  openAttendanceSessions,
+  sessionIndexEntry,
+  tapOwner,
+} from './attendanceSessions';
+import { deviceTimestampAt } from './deviceTime';
+import { FakeDatabase } from './testing/fakeDatabase';
+
+const MINUTE = 60 * 1000;
+// 2025-03-14, a Friday, 08:00 to 09:30 Philippine time.
+const START = Date.UTC(2025, 2, 14, 0, 0, 0);
+const END = START + 90 * MINUTE;
+
+const makeSession = (overrides: Partial<AttendanceSession> = {}): AttendanceSession => ({
+  id: 'session-1',
+  state: 'open',
+  schedule: {
+    subjectId: 'subject-1',
+    subjectCode: 'IT101',
+    subjectName: 'Programming',
+    sectionId: 'section-1',
+    sectionName: 'BSIT-1A',
+    day: 'Friday',
+    startTime: '08:00',
+    endTime: '09:30',
+  },
+  roomId: 'GLE-201',
+  instructor: { uid: 'instructor-1', fullName: 'Ana Cruz' },
+  roster: {},
+  policy: {
+    graceMinutes: 15,
+    lateCutoffMinutes: 10,
+    absentAfterMinutes: 30,
+    earlyLeaveMinutes: 10,
+    minimumAttendedPercent: 0,
+  },
+  scheduledStart: START,
+  scheduledEnd: END,
+  openedAt: START,
+  ...overrides,
+});
+
+// Where the firmware files the session's door taps.
+const doorKey = (session: AttendanceSession, at = session.scheduledStart) =>
+  firmwareKey(dateKeyAt(at), session.schedule.subjectCode, session.schedule.sectionName, session.roomId);
+
+// A door tap as the firmware writes it.
+const doorTap = (timeIn: number, timeOut?: number) => ({
+  Action: 'Confirmed',
+  Status: 'Present',
+  'Time In': deviceTimestampAt(timeIn),
+  ...(timeOut ? { 'Time Out': deviceTimestampAt(timeOut) } : {}),
+  timestamp: deviceTimestampAt(timeIn),
+  fullName: 'Student',
+});
+
+// A tap-in confirmed on the Take Attendance page, already classified.
+const webRecord = (status: string, timeIn: number) => ({
+  allSchedules: [],
+  attendanceInfo: {
+    action: 'Confirmed RFID',
+    assignedSensorId: '',
+    date: dateKeyAt(START),
+    sensor: '',
+    sensorConfirmed: true,
+    sessionId: '',
+    status,
+    timeIn: deviceTimestampAt(timeIn),
+    timeOut: '',
+    timestamp: deviceTimestampAt(timeIn),
+    weight: 0,
+    weightUnit: 'kg',
+  },
+  personalInfo: { department: 'CCS', email: '', fullName: 'Student', idNumber: '', mobileNumber: '', role: 'student' },
+});
+
+let database: FakeDatabase;
+
+const install = (session: AttendanceSession, attendance: Record<string, Record<string, unknown>> = {}, others: AttendanceSession[] = []) => {
+  const all = [session, ...others];
+  const index: Record<string, Record<string, unknown>> = {};
+  all.forEach((listed) =>
+    [doorKey(listed), doorKey(listed, listed.scheduledEnd)].forEach((key) => {
+      index[key] = { ...index[key], [listed.id]: sessionIndexEntry(listed) };
+    })
+  );
+  database = new FakeDatabase({
+    AttendanceSessions: Object.fromEntries(all.map((listed) => [listed.id, listed])),
+    AttendanceSessionIndex: index,
+    Students: Object.fromEntries(Object.entries(attendance).map(([rfidUid, records]) => [rfidUid, { Attendance: records }])),
+  });
+};
+
+const runFinalizer = (now: number) => {
+  mock.method(Date, 'now', () => now);
+  return finalizeAttendanceSessions.run({} as never);
+};
+
+const closeAs = (session: AttendanceSession, uid: string, token: Record<string, unknown> = {}) =>
+  closeAttendanceSession.run({ data: { sessionId: session.id }, auth: { uid, token } } as never);
+
+const stored = (session: AttendanceSession): AttendanceSession => database.val(`AttendanceSessions/${session.id}`);
+const recordOf = (rfidUid: string, session: AttendanceSession) =>
+  database.val(`Students/${rfidUid}/Attendance/${session.id}`).attendanceInfo;
+
+beforeEach(() => {
+  mock.method(adminDatabase, 'getDatabase', () => database);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('finalizing a session', () => {
+  const roster = {
+    early: { studentName: 'Early', idNumber: '1' },
+    late: { studentName: 'Late', idNumber: '2' },
+    marked: { studentName: 'Marked', idNumber: '3' },
+    missing: { studentName: 'Missing', idNumber: '4' },
+  };
+
+  it('classifies door taps by the policy, marks the rest absent and locks the session', async () => {
+    const session = makeSession({ roster });
+    install(session, {
+      early: { [doorKey(session)]: doorTap(START - 5 * MINUTE) },
+      late: { [doorKey(session)]: doorTap(START + 20 * MINUTE) },
+      marked: { [session.id]: webRecord('Present', START + 20 * MINUTE) },
+    });
+
+    await runFinalizer(END + 20 * MINUTE);
+
+    const finalized = stored(session);
+    assert.equal(finalized.state, 'finalized');
+    assert.deepEqual(finalized.summary, {
+      present: 2,
+      late: 1,
+      absent: 1,
+      earlyLeave: 0,
+      total: 4,
+      statuses: { early: 'present', late: 'late', marked: 'present', missing: 'absent' },
+    });
+    assert.equal(recordOf('late', session).status, 'Late');
+    assert.equal(recordOf('marked', session).status, 'Present');
+    assert.equal(recordOf('missing', session).status, 'Absent');
+    assert.equal(recordOf('missing', session).action, 'Auto Finalized');
+    assert.equal(recordOf('missing', session).sessionId, session.id);
+    // Students who never tapped out leave at the scheduled end.
+    assert.equal(recordOf('early', session).timeOut, deviceTimestampAt(END));
+  });
+
+  it('moves a session to grace at the end of class and to closed when grace runs out, then finalizes it', async () => {
+    const session = makeSession({ roster });
+    install(session);
+
+    await runFinalizer(END - MINUTE);
+    assert.equal(stored(session).state, 'open');
+
+    await runFinalizer(END + 10 * MINUTE);
+    assert.equal(stored(session).state, 'grace');
+    assert.equal(database.val('Students'), null);
+
+    await runFinalizer(END + 15 * MINUTE);
+    assert.equal(stored(session).state, 'finalized');
+    assert.equal(stored(session).closedAt, END + 15 * MINUTE);
+    assert.equal(stored(session).finalizedAt, END + 15 * MINUTE);
+  });
+
+  it('finalizes a session its instructor closed early without waiting for the end', async () => {
+    const session = makeSession({ roster, state: 'closed', closedAt: START + 30 * MINUTE });
+    install(session);
+
+    await runFinalizer(START + 31 * MINUTE);
+
+    assert.equal(stored(session).state, 'finalized');
+    assert.equal(stored(session).closedAt, START + 30 * MINUTE);
+  });
+
+  it('links a door tap filed under the next day for a class crossing midnight', async () => {
+    // 23:55 to 01:00 Philippine time, tapped in at 00:02.
+    const scheduledStart = Date.UTC(2025, 2, 14, 15, 55, 0);
+    const session = makeSession({
+      roster: { night: { studentName: 'Night', idNumber: '5' } },
+      schedule: { ...makeSession().schedule, startTime: '23:55', endTime: '01:00' },
+      scheduledStart,
+      scheduledEnd: scheduledStart + 65 * MINUTE,
+    });
+    install(session, { night: { [doorKey(session, session.scheduledEnd)]: doorTap(scheduledStart + 7 * MINUTE) } });
+
+    await runFinalizer(session.scheduledEnd + 20 * MINUTE);
+
+    assert.deepEqual(stored(session).summary?.statuses, { night: 'present' });
+    assert.equal(recordOf('night', session).sessionId, session.id);
+  });
+
+  it("leaves a later meeting's door tap under the shared key to that meeting", async () => {
+    const session = makeSession({ roster });
+    const afternoon = makeSession({ id: 'session-2', roster, scheduledStart: START + 5 * 60 * MINUTE, scheduledEnd: END + 5 * 60 * MINUTE });
+    install(session, { early: { [doorKey(session)]: doorTap(afternoon.scheduledStart + 2 * MINUTE) } }, [afternoon]);
+
+    await runFinalizer(END + 20 * MINUTE);
+
+    assert.equal(stored(session).summary?.statuses.early, 'absent');
+    assert.equal(stored(afternoon).state, 'open');
+  });
+
+  it('marks attendance below the minimum absent', async () => {
+    const session = makeSession({
+      roster: { brief: { studentName: 'Brief', idNumber: '6' } },
+      policy: { ...makeSession().policy, minimumAttendedPercent: 50 },
+    });
+    install(session, { brief: { [doorKey(session)]: doorTap(START, START + 20 * MINUTE) } });
+
+    await runFinalizer(END + 20 * MINUTE);
+
+    assert.equal(stored(session).summary?.absent, 1);
+    assert.equal(stored(session).summary?.earlyLeave, 1);
+    assert.equal(recordOf('brief', session).status, 'Absent');
+    assert.equal(recordOf('brief', session).action, 'Left Early');
+  });
+});
+
+describe('closeAttendanceSession', () => {
+  const roster = { early: { studentName: 'Early', idNumber: '1' } };
+
+  it("finalizes the instructor's class straight away and returns the summary", async () => {
+    const session = makeSession({ roster });
+    install(session, { early: { [doorKey(session)]: doorTap(START) } });
+    mock.method(Date, 'now', () => START + 60 * MINUTE);
+
+    const result = await closeAs(session, 'instructor-1');
+
+    assert.equal(result.state, 'finalized');
+    assert.deepEqual(result.summary?.statuses, { early: 'present' });
+    assert.equal(stored(session).closedAt, START + 60 * MINUTE);
+    // Closed before the end, so the time-out is when it closed.
+    assert.equal(recordOf('early', session).timeOut, deviceTimestampAt(START + 60 * MINUTE));
+  });
+
+  it("lets staff who may edit attendance close another instructor's class", async () => {
+    const session = makeSession({ roster });
+    install(session);
+
+    const result = await closeAs(session, 'registrar-1', { permissions: ['edit_attendance'] });
+
+    assert.equal(result.state, 'finalized');
+  });
+
+  it("refuses anyone else another instructor's class", async () => {
+    const session = makeSession({ roster });
+    install(session);
+
+    await assert.rejects(closeAs(session, 'instructor-2'), { code: 'permission-denied' });
+    assert.equal(stored(session).state, 'open');
+  });
+
+  it('returns a finalized session as it is', async () => {
+    const summary = { present: 1, late: 0, absent: 0, earlyLeave: 0, total: 1, statuses: { early: 'present' as const } };
+    const session = makeSession({ roster, state: 'finalized', summary });
+    install(session);
+
+    assert.deepEqual(await closeAs(session, 'instructor-1'), { state: 'finalized', summary });
+    assert.equal(database.val('Students'), null);
+  });
+});
+
+describe('tapOwner', () => {
+  const morning = { sectionId: 'section-1', scheduledStart: START, scheduledEnd: END };
+  const afternoon = { sectionId: 'section-1', scheduledStart: START + 5 * 60 * MINUTE, scheduledEnd: END + 5 * 60 * MINUTE };
+  const entries = { morning, afternoon };
+
+  it('gives a tap to the meeting running, else the next to start, else the last', () => {
+    assert.equal(tapOwner(entries, START + MINUTE), 'morning');
+    assert.equal(tapOwner(entries, START - 10 * MINUTE), 'morning');
+    assert.equal(tapOwner(entries, END + MINUTE), 'afternoon');
+    assert.equal(tapOwner(entries, afternoon.scheduledEnd + MINUTE), 'afternoon');
+  });
+
+  it('gives a record without a time only to a sole session', () => {
+    assert.equal(tapOwner({ morning }, null), 'morning');
+    assert.equal(tapOwner(entries, null), null);
+  });
+});
+
+describe('openAttendanceSessions', () => {
+  // Two meetings of BSIT-1A and another section of the same name, all in GLE-201.
+  const schedules = [
+    { id: 'section-1', startTime: '08:00', endTime: '09:30' },
+    { id: 'section-1', startTime: '13:00', endTime: '14:00' },
+    { id: 'section-2', startTime: '10:00', endTime: '11:30' },
+  ];
+  const collections: Record<string, Record<string, any>> = {
+    teachers: {
+      'instructor-1': {
+        fullName: 'Ana Cruz',
+        assignedSubjects: [
+          {
+            id: 'subject-1',
+            code: 'IT101',
+            name: 'Programming',
+            sections: schedules.map(({ id, startTime, endTime }) => ({
+              id,
+              name: 'BSIT-1A',
+              schedules: [{ day: 'Friday', startTime, endTime, roomName: 'GLE-201' }],
+            })),
+          },
+        ],
+      },
+    },
+    sections: { 'section-1': { students: ['Ana'] }, 'section-2': { students: ['Ben'] } },
+    students: { a: { fullName: 'Ana', rfidUid: 'card-a' }, b: { fullName: 'Ben', rfidUid: 'card-b' } },
+    subjects: {},
+  };
+  const docs = (name: string) =>
+    Object.entries(collections[name] || {}).map(([id, data]) => ({ id, exists: true, data: () => data }));
+  const firestore = {
+    collection: (name: string) => ({
+      get: async () => ({ docs: docs(name) }),
+      doc: (id: string) => ({ get: async () => ({ exists: Boolean(collections[name]?.[id]), data: () => collections[name]?.[id] }) }),
+      where: (field: string, _op: string, values: unknown[]) => ({
+        get: async () => ({ docs: docs(name).filter((doc) => values.includes(doc.data()[field])) }),
+      }),
+    }),
+  };
+
+  const runOpener = (now: number) => {
+    mock.method(Date, 'now', () => now);
+    return openAttendanceSessions.run({} as never);
+  };
+
+  it('opens each meeting once, under its own id, and lists it under the shared firmware key', async () => {
+    database = new FakeDatabase();
+    mock.method(adminFirestore, 'getFirestore', () => firestore);
+
+    await runOpener(START + 10 * MINUTE);
+    await runOpener(START + 11 * MINUTE);
+    await runOpener(START + 130 * MINUTE);
+    await runOpener(START + 310 * MINUTE);
+
+    const opened = Object.values(database.val('AttendanceSessions') as Record<string, AttendanceSession>);
+    assert.deepEqual(
+      opened.map((session) => [session.schedule.sectionId, session.schedule.startTime, Object.keys(session.roster || {})]),
+      [
+        ['section-1', '08:00', ['card-a']],
+        ['section-2', '10:00', ['card-b']],
+        ['section-1', '13:00', ['card-a']],
+      ]
+    );
+    const listed = database.val(`AttendanceSessionIndex/${doorKey(makeSession())}`);
+    assert.deepEqual(Object.keys(listed).sort(), opened.map((session) => session.id).sort());
+  });
+});
@@ -0,0 +1,697 @@
+import { getDatabase } from 'firebase-admin/database';
+import { getFirestore } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { assertPermission } from './admins';
+import {
+  AttendancePolicy,
+  FinalStatus,
+  attendedPercent,
+  classifyTap,
+  isEarlyLeave,
+  resolvePolicy,
+} from './attendancePolicy';
+import { deviceTimestampAt, parseDeviceTime } from './deviceTime';
+
+/**
+ * Attendance sessions are opened, moved through their states and finalized
+ * here rather than by whichever dashboard happens to be open. Every minute:
+ *
+ *   - each class in the instructors' schedules that is running gets its
+ *     session at /AttendanceSessions/{sessionId}, with the section's roster
+ *     from Firestore and the subject's effective policy;
+ *   - each open session whose class has ended moves to grace, and each one
+ *     whose grace period has run out moves to closed;
+ *   - each closed session is finalized: door taps are linked and classified
+ *     by the session's policy, students who never tapped are marked Absent
+ *     and the session is locked with a summary.
+ *
+ * Every move goes through SESSION_TRANSITIONS, and clients cannot change a
+ * session's state (see database.rules.json). This is the only finalizer. An
+ * instructor submitting a class calls closeAttendanceSession, which closes it
+ * and finalizes it straight away.
+ *
+ * Sessions get push ids. The firmware files door taps under
+ * YYYY_MM_DD_subjectCode_section_room, which two meetings of a class on one
+ * day share, as do sections with the same name, so
+ * /AttendanceSessionIndex/{firmwareKey}/{sessionId} lists the sessions each
+ * key may belong to and the time decides which one a tap is for.
+ */
+
+const OPTIONS = { region: 'asia-southeast1' };
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const LOCAL_UTC_OFFSET_MS = 8 * 60 * 60 * 1000;
+const SCHEDULE_TTL_MS = 10 * 60 * 1000;
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+// Firestore `in` filters take at most 30 values.
+const IN_QUERY_LIMIT = 30;
+
+// Same shapes as in src/types/rtdb.ts.
+type SessionState = 'open' | 'grace' | 'closed' | 'finalized';
+
+interface SessionSchedule {
+  subjectId: string;
+  subjectCode: string;
+  subjectName: string;
+  sectionId: string;
+  sectionName: string;
+  day: string;
+  startTime: string;
+  endTime: string;
+}
+
+interface RosterEntry {
+  studentName: string;
+  idNumber: string;
+}
+
+export interface AttendanceSession {
+  id: string;
+  state: SessionState;
+  schedule: SessionSchedule;
+  roomId: string;
+  instructor: { uid: string; fullName: string };
+  roster?: Record<string, RosterEntry>;
+  policy: AttendancePolicy;
+  scheduledStart: number;
+  scheduledEnd: number;
+  openedAt: number;
+  closedAt?: number;
+  finalizedAt?: number;
+  summary?: {
+    present: number;
+    late: number;
+    absent: number;
+    earlyLeave: number;
+    total: number;
+    statuses: Record<string, FinalStatus>;
+  };
+}
+
+export interface AttendanceRecord {
+  allSchedules: unknown[];
+  attendanceInfo: {
+    action: string;
+    assignedSensorId: string | number;
+    date: string;
+    sensor: string;
+    sensorConfirmed: boolean;
+    sessionId: string;
+    status: string;
+    timeIn: string;
+    timeOut: string;
+    timestamp: string;
+    weight: number;
+    weightUnit: string;
+  };
+  personalInfo: {
+    department: string;
+    email: string;
+    fullName: string;
+    idNumber: string;
+    mobileNumber: string;
+    role: string;
+  };
+}
+
+interface ClassSlot {
+  schedule: SessionSchedule;
+  roomName: string;
+  instructor: { uid: string; fullName: string };
+}
+
+// A session can be closed early by its instructor, but never reopened, and
+// only a closed session is finalized.
+const SESSION_TRANSITIONS: Record<SessionState, SessionState[]> = {
+  open: ['grace', 'closed'],
+  grace: ['closed'],
+  closed: ['finalized'],
+  finalized: [],
+};
+
+// Where a session is listed under each firmware key it may own taps under.
+export interface SessionIndexEntry {
+  sectionId: string;
+  scheduledStart: number;
+  scheduledEnd: number;
+}
+
+const sessions = () => getDatabase().ref('AttendanceSessions');
+const sessionIndex = () => getDatabase().ref('AttendanceSessionIndex');
+
+// Applies `change` atomically; returning undefined leaves the session as it
+// is and resolves to null. The first pass may run against an empty local
+// cache, so null goes back unchanged and the server retries with the node.
+const updateSession = async (
+  sessionId: string,
+  change: (session: AttendanceSession) => AttendanceSession | undefined
+): Promise<AttendanceSession | null> => {
+  const result = await sessions()
+    .child(sessionId)
+    .transaction((current: AttendanceSession | null) => (current === null ? current : change(current)));
+  return result.committed && result.snapshot.exists() ? (result.snapshot.val() as AttendanceSession) : null;
+};
+
+/**
+ * Moves the session to `to`, with `changes`, stamping when it closed or was
+ * finalized. A move SESSION_TRANSITIONS does not allow leaves the session as
+ * it is, is logged and resolves to null.
+ */
+const transitionSession = async (
+  sessionId: string,
+  to: SessionState,
+  now: number,
+  changes: Partial<AttendanceSession> = {}
+): Promise<AttendanceSession | null> => {
+  let refusedFrom: SessionState | null = null;
+  const moved = await updateSession(sessionId, (current) => {
+    refusedFrom = null;
+    if (!SESSION_TRANSITIONS[current.state].includes(to)) {
+      refusedFrom = current.state;
+      return undefined;
+    }
+    return {
+      ...current,
+      ...changes,
+      state: to,
+      ...(to === 'closed' ? { closedAt: now } : {}),
+      ...(to === 'finalized' ? { finalizedAt: now } : {}),
+    };
+  });
+  // Another run getting there first is not worth a warning.
+  if (refusedFrom && refusedFrom !== to) {
+    logger.warn(`Refused to move attendance session ${sessionId} from ${refusedFrom} to ${to}`);
+  }
+  return moved;
+};
+
+// Policy
+
+const sectionPolicy = async (subjectId: string, sectionId: string): Promise<AttendancePolicy> => {
+  const firestore = getFirestore();
+  const [subject, section] = await Promise.all([
+    subjectId ? firestore.collection('subjects').doc(subjectId).get() : null,
+    sectionId ? firestore.collection('sections').doc(sectionId).get() : null,
+  ]);
+  return resolvePolicy(subject?.data()?.attendancePolicy, section?.data()?.attendancePolicy);
+};
+
+// Sections list their students by full name. Students without a paired card
+// cannot tap in and are left off the roster.
+const sectionRoster = async (sectionId: string): Promise<Record<string, RosterEntry>> => {
+  const firestore = getFirestore();
+  const section = sectionId ? (await firestore.collection('sections').doc(sectionId).get()).data() : undefined;
+  const names: string[] = Array.from(new Set<string>((section?.students || []).filter(Boolean)));
+  const roster: Record<string, RosterEntry> = {};
+  for (let start = 0; start < names.length; start += IN_QUERY_LIMIT) {
+    const students = await firestore
+      .collection('students')
+      .where('fullName', 'in', names.slice(start, start + IN_QUERY_LIMIT))
+      .get();
+    students.docs.forEach((student) => {
+      const { rfidUid, fullName, idNumber } = student.data();
+      if (rfidUid) roster[rfidUid] = { studentName: fullName || '', idNumber: idNumber || '' };
+    });
+  }
+  return roster;
+};
+
+// Schedules
+
+// Schedules change rarely; warm instances reuse them for a while rather than
+// reading every instructor each minute.
+let cachedSlots: { loadedAt: number; slots: ClassSlot[] } | null = null;
+
+const loadSlots = async (): Promise<ClassSlot[]> => {
+  if (cachedSlots && Date.now() - cachedSlots.loadedAt < SCHEDULE_TTL_MS) return cachedSlots.slots;
+  const teachers = await getFirestore().collection('teachers').get();
+  const slots: ClassSlot[] = [];
+  teachers.docs.forEach((teacher) => {
+    const data = teacher.data();
+    (data.assignedSubjects || []).forEach((subject: any) =>
+      (subject.sections || []).forEach((section: any) =>
+        (section.schedules || []).forEach((schedule: any) => {
+          if (!schedule?.day || !schedule.startTime || !schedule.endTime || !section.id) return;
+          slots.push({
+            schedule: {
+              subjectId: subject.id || '',
+              subjectCode: schedule.subjectCode || subject.code || '',
+              subjectName: subject.name || '',
+              sectionId: section.id,
+              sectionName: section.name || '',
+              day: schedule.day,
+              startTime: schedule.startTime,
+              endTime: schedule.endTime,
+            },
+            roomName: (typeof schedule.roomName === 'string' ? schedule.roomName : schedule.roomName?.name) || '',
+            instructor: { uid: data.uid || teacher.id, fullName: data.fullName || '' },
+          });
+        })
+      )
+    );
+  });
+  cachedSlots = { loadedAt: Date.now(), slots };
+  return slots;
+};
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+// Midnight, local time, of the day `millis` falls on.
+const localDayStart = (millis: number): number => {
+  const local = new Date(millis + LOCAL_UTC_OFFSET_MS);
+  return Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate()) - LOCAL_UTC_OFFSET_MS;
+};
+
+// The class's window on the local clock: a class whose end is not after its
+// start runs past midnight.
+const classWindow = (dayStart: number, startTime: string, endTime: string) => {
+  const scheduledStart = dayStart + toMinutes(startTime) * MINUTE;
+  let scheduledEnd = dayStart + toMinutes(endTime) * MINUTE;
+  if (scheduledEnd <= scheduledStart) scheduledEnd += DAY;
+  return { scheduledStart, scheduledEnd };
+};
+
+// The window of the slot's class running at `now`, which may have started
+// yesterday evening, or null when it is not running.
+const runningWindow = (slot: ClassSlot, now: number) => {
+  const today = localDayStart(now);
+  for (const dayStart of [today, today - DAY]) {
+    if (DAYS[new Date(dayStart + LOCAL_UTC_OFFSET_MS).getUTCDay()] !== slot.schedule.day) continue;
+    const window = classWindow(dayStart, slot.schedule.startTime, slot.schedule.endTime);
+    if (window.scheduledStart <= now && now < window.scheduledEnd) return window;
+  }
+  return null;
+};
+
+// Sessions
+
+// YYYY_MM_DD on the device's clock.
+export const dateKeyAt = (millis: number) => deviceTimestampAt(millis).slice(0, 10);
+
+// The firmware builds its record key from the tap's date and the names of the
+// running class's subject code, section and room.
+export const firmwareKey = (dateKey: string, subjectCode: string, sectionName: string, roomName: string) =>
+  `${dateKey}_${subjectCode}_${sectionName}_${roomName}`.replace(/[.#$[\]/]/g, '_');
+
+// Keys the firmware files the session's door taps under: the class's start
+// date, and its end date for a class that crosses midnight.
+export const sessionFirmwareKeys = (
+  session: Pick<AttendanceSession, 'schedule' | 'roomId' | 'scheduledStart' | 'scheduledEnd'>
+): string[] => {
+  const { subjectCode, sectionName } = session.schedule;
+  return Array.from(
+    new Set(
+      [session.scheduledStart, session.scheduledEnd].map((millis) =>
+        firmwareKey(dateKeyAt(millis), subjectCode, sectionName, session.roomId)
+      )
+    )
+  );
+};
+
+export const sessionIndexEntry = (session: AttendanceSession): SessionIndexEntry => ({
+  sectionId: session.schedule.sectionId,
+  scheduledStart: session.scheduledStart,
+  scheduledEnd: session.scheduledEnd,
+});
+
+/**
+ * The session a tap filed under a shared firmware key is for: the one running
+ * when it was made, else the next one to start, else the last one to end. A
+ * record without a time only goes to a key's sole session.
+ */
+export const tapOwner = (entries: Record<string, SessionIndexEntry>, tappedAt: number | null): string | null => {
+  const windows = Object.entries(entries).sort(([, a], [, b]) => a.scheduledStart - b.scheduledStart);
+  if (tappedAt === null) return windows.length === 1 ? windows[0][0] : null;
+  const running = windows
+    .filter(([, entry]) => entry.scheduledStart <= tappedAt && tappedAt < entry.scheduledEnd)
+    .pop();
+  const next = windows.find(([, entry]) => entry.scheduledStart > tappedAt);
+  return (running || next || windows[windows.length - 1])?.[0] ?? null;
+};
+
+const openSession = async (slot: ClassSlot, window: { scheduledStart: number; scheduledEnd: number }, now: number) => {
+  const { schedule, roomName } = slot;
+  const isThisClass = (entry: SessionIndexEntry) =>
+    entry.sectionId === schedule.sectionId && entry.scheduledStart === window.scheduledStart;
+  const [startKey, endKey] = sessionFirmwareKeys({ schedule, roomId: roomName, ...window });
+  const listed = sessionIndex().child(startKey);
+  if (Object.values<SessionIndexEntry>((await listed.get()).val() || {}).some(isThisClass)) return;
+
+  const [roster, policy] = await Promise.all([
+    sectionRoster(schedule.sectionId),
+    sectionPolicy(schedule.subjectId, schedule.sectionId),
+  ]);
+  const id = sessions().push().key as string;
+  const session: AttendanceSession = {
+    id,
+    state: 'open',
+    schedule,
+    roomId: roomName,
+    instructor: slot.instructor,
+    roster,
+    policy,
+    ...window,
+    openedAt: now,
+  };
+  // Listing the session under its start key claims the class, in case
+  // another run opened it since the read above.
+  const claim = await listed.transaction((current: Record<string, SessionIndexEntry> | null) =>
+    Object.values(current || {}).some(isThisClass) ? undefined : { ...current, [id]: sessionIndexEntry(session) }
+  );
+  if (!claim.committed) return;
+  try {
+    await getDatabase()
+      .ref()
+      .update({
+        [`AttendanceSessions/${id}`]: session,
+        ...(endKey ? { [`AttendanceSessionIndex/${endKey}/${id}`]: sessionIndexEntry(session) } : {}),
+      });
+  } catch (error) {
+    await listed.child(id).remove();
+    throw error;
+  }
+  logger.info(`Opened attendance session ${id} for ${startKey}`);
+};
+
+// The firmware writes its records flat, the web app nests them.
+export const normalizeRecord = (raw: any): AttendanceRecord | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  if (raw.attendanceInfo) return raw as AttendanceRecord;
+  return {
+    allSchedules: Array.isArray(raw.schedules) ? raw.schedules : [],
+    attendanceInfo: {
+      action: raw.Action || '',
+      assignedSensorId: raw.assignedSensorId ?? '',
+      date: raw.date || '',
+      sensor: raw.Sensor || '',
+      sensorConfirmed: Boolean(raw.sensorConfirmed),
+      sessionId: raw.sessionId || '',
+      status: raw.Status || '',
+      timeIn: raw['Time In'] || '',
+      timeOut: raw['Time Out'] || '',
+      timestamp: raw.timestamp || '',
+      weight: Number(raw.weight) || 0,
+      weightUnit: raw.weightUnit || 'kg',
+    },
+    personalInfo: {
+      department: raw.department || '',
+      email: raw.email || '',
+      fullName: raw.fullName || '',
+      idNumber: raw.idNumber || '',
+      mobileNumber: raw.mobileNumber || '',
+      role: raw.role || 'student',
+    },
+  };
+};
+
+const recordTime = (record: AttendanceRecord) =>
+  deviceMillis(record.attendanceInfo.timeIn || record.attendanceInfo.timestamp);
+
+// The sessions listed under each of the session's firmware keys. The session
+// itself always is, so ones opened before the index existed still find their taps.
+export const listedSessions = async (session: AttendanceSession) => {
+  const listed: Record<string, Record<string, SessionIndexEntry>> = {};
+  for (const key of sessionFirmwareKeys(session)) {
+    const entries = (await sessionIndex().child(key).get()).val() || {};
+    listed[key] = { ...entries, [session.id]: sessionIndexEntry(session) };
+  }
+  return listed;
+};
+
+// The student's record for the session: the one on the session's id, or a
+// door tap the firmware filed under one of its firmware keys, if the tap was
+// made for this session rather than another sharing the key.
+export const findRecord = async (
+  rfidUid: string,
+  session: AttendanceSession,
+  listed: Record<string, Record<string, SessionIndexEntry>>
+): Promise<AttendanceRecord | null> => {
+  const attendance = getDatabase().ref(`Students/${rfidUid}/Attendance`);
+  const own = normalizeRecord((await attendance.child(session.id).get()).val());
+  if (own) return own;
+  for (const [key, entries] of Object.entries(listed)) {
+    const record = key === session.id ? null : normalizeRecord((await attendance.child(key).get()).val());
+    if (record && tapOwner(entries, recordTime(record)) === session.id) return record;
+  }
+  return null;
+};
+
+export const deviceMillis = (timestamp: string): number | null => {
+  const millis = parseDeviceTime(timestamp, NaN);
+  return Number.isNaN(millis) ? null : millis;
+};
+
+const toFinalStatus = (status: string | undefined): FinalStatus | null => {
+  const normalized = (status || '').toLowerCase();
+  return normalized === 'present' || normalized === 'late' ? normalized : null;
+};
+
+// The door controller marks every confirmed tap Present, with this action, and
+// knows nothing of the policy; the web app's own records are already classified.
+const DOOR_TAP_ACTION = 'Confirmed';
+// Same labels as STATUS_LABELS in src/services/attendanceCorrections.ts.
+const STATUS_LABELS: Record<FinalStatus, string> = { present: 'Present', late: 'Late', absent: 'Absent' };
+
+/**
+ * Settles every rostered student's record for a closed session in one
+ * update: students without a confirmed tap are marked Absent, students who
+ * tapped in but never out get the scheduled end as their time-out, and the
+ * session's policy decides how late door taps were, early leaves and
+ * too-short attendance. The session is then locked with a summary.
+ */
+const finalizeSession = async (session: AttendanceSession, now: number): Promise<AttendanceSession | null> => {
+  if (session.state !== 'closed') return null;
+  const { scheduledStart, scheduledEnd } = session;
+  const policy = resolvePolicy(session.policy);
+  const endTimestamp = deviceTimestampAt(Math.min(now, scheduledEnd));
+  const statuses: Record<string, FinalStatus> = {};
+  const updates: Record<string, unknown> = {};
+  const listed = await listedSessions(session);
+  let earlyLeave = 0;
+
+  for (const [rfidUid, entry] of Object.entries(session.roster || {})) {
+    const record = await findRecord(rfidUid, session, listed);
+    const tapped = toFinalStatus(record?.attendanceInfo.status);
+    const path = `Students/${rfidUid}/Attendance/${session.id}`;
+
+    if (record && tapped) {
+      const info = record.attendanceInfo;
+      const timeOut = info.timeOut || (info.timeIn ? endTimestamp : '');
+      const timeInMs = deviceMillis(info.timeIn);
+      const timeOutMs = deviceMillis(timeOut);
+      const leftEarly = timeOutMs !== null && isEarlyLeave(timeOutMs, scheduledEnd, policy);
+      const tooShort =
+        timeInMs !== null &&
+        timeOutMs !== null &&
+        attendedPercent(timeInMs, timeOutMs, scheduledStart, scheduledEnd) < policy.minimumAttendedPercent;
+
+      // The firmware marks every confirmed door tap Present; the policy decides how late it was.
+      const classified =
+        info.action === DOOR_TAP_ACTION && timeInMs !== null ? classifyTap(timeInMs, scheduledStart, policy) : tapped;
+      const final = tooShort ? 'absent' : classified;
+      const status = final === tapped ? info.status : STATUS_LABELS[final];
+
+      statuses[rfidUid] = final;
+      if (leftEarly) earlyLeave += 1;
+      if (timeOut === info.timeOut && status === info.status && !leftEarly && info.sessionId === session.id) continue;
+      updates[path] = {
+        ...record,
+        attendanceInfo: {
+          ...info,
+          action: leftEarly ? 'Left Early' : info.action,
+          sessionId: session.id,
+          status,
+          timeOut,
+        },
+      };
+      updates[`Students/${rfidUid}/lastSession`] = session.id;
+      continue;
+    }
+
+    statuses[rfidUid] = 'absent';
+    const profile = record ? null : (await getDatabase().ref(`Students/${rfidUid}/Profile`).get()).val();
+    updates[path] = {
+      allSchedules: record?.allSchedules || [],
+      attendanceInfo: {
+        action: 'Auto Finalized',
+        assignedSensorId: record?.attendanceInfo.assignedSensorId ?? '',
+        date: dateKeyAt(scheduledStart),
+        sensor: record?.attendanceInfo.sensor || '',
+        sensorConfirmed: false,
+        sessionId: session.id,
+        status: 'Absent',
+        timeIn: '',
+        timeOut: '',
+        timestamp: endTimestamp,
+        weight: record?.attendanceInfo.weight || 0,
+        weightUnit: record?.attendanceInfo.weightUnit || 'kg',
+      },
+      personalInfo: record?.personalInfo || {
+        department: profile?.department || '',
+        email: profile?.email || '',
+        fullName: profile?.fullName || entry.studentName,
+        idNumber: profile?.idNumber || entry.idNumber,
+        mobileNumber: profile?.mobileNumber || '',
+        role: profile?.role || 'student',
+      },
+    };
+    updates[`Students/${rfidUid}/lastSession`] = session.id;
+  }
+
+  if (Object.keys(updates).length > 0) await getDatabase().ref().update(updates);
+
+  const values = Object.values(statuses);
+  const summary = {
+    present: values.filter((status) => status === 'present').length,
+    late: values.filter((status) => status === 'late').length,
+    absent: values.filter((status) => status === 'absent').length,
+    earlyLeave,
+    total: values.length,
+    statuses,
+  };
+  // An instructor submitting the class may have finalized it meanwhile.
+  const finalized = await transitionSession(session.id, 'finalized', now, { summary });
+  if (finalized) logger.info(`Finalized attendance session ${session.id}`);
+  return finalized;
+};
+
+// Takes the session as far as the clock allows: to grace once the class has
+// ended, to closed once the grace period has run out, and closed sessions on
+// to finalized.
+const advanceSession = async (session: AttendanceSession, now: number) => {
+  const graceEnd = session.scheduledEnd + resolvePolicy(session.policy).graceMinutes * MINUTE;
+  let current = session;
+  if (current.state === 'open' && now >= current.scheduledEnd) {
+    current = (await transitionSession(current.id, 'grace', now)) || current;
+  }
+  if (current.state === 'grace' && now >= graceEnd) {
+    current = (await transitionSession(current.id, 'closed', now)) || current;
+  }
+  if (current.state === 'closed') await finalizeSession(current, now);
+};
+
+export const openAttendanceSessions = onSchedule(
+  { schedule: 'every 1 minutes', timeZone: 'Asia/Manila', ...OPTIONS },
+  async () => {
+    const now = Date.now();
+    for (const slot of await loadSlots()) {
+      const window = runningWindow(slot, now);
+      if (!window) continue;
+      try {
+        await openSession(slot, window, now);
+      } catch (error) {
+        logger.error(`Failed to open the session for ${slot.schedule.subjectCode} ${slot.schedule.sectionName}`, error);
+      }
+    }
+  }
+);
+
+export const finalizeAttendanceSessions = onSchedule(
+  { schedule: 'every 1 minutes', timeZone: 'Asia/Manila', ...OPTIONS },
+  async () => {
+    const now = Date.now();
+    for (const state of ['open', 'grace', 'closed'] as SessionState[]) {
+      const pending = (await sessions().orderByChild('state').equalTo(state).get()).val() || {};
+      for (const session of Object.values(pending) as AttendanceSession[]) {
+        try {
+          await advanceSession(session, now);
+        } catch (error) {
+          logger.error(`Failed to advance attendance session ${session.id}`, error);
+        }
+      }
+    }
+  }
+);
+
+/**
+ * Closes the class an instructor is submitting and finalizes it straight
+ * away, so the page shows the summary the server wrote. Staff who may edit
+ * attendance can close any class.
+ */
+export const closeAttendanceSession = onCall(OPTIONS, async (request) => {
+  const { sessionId } = (request.data || {}) as { sessionId?: string };
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'Sign in first');
+  }
+  if (!sessionId) {
+    throw new HttpsError('invalid-argument', 'A session id is required');
+  }
+  const session = (await sessions().child(sessionId).get()).val() as AttendanceSession | null;
+  if (!session) {
+    throw new HttpsError('not-found', 'No attendance session found');
+  }
+  if (session.instructor.uid !== request.auth.uid) {
+    await assertPermission(request.auth, 'edit_attendance');
+  }
+
+  const now = Date.now();
+  const latest = async () => ((await sessions().child(sessionId).get()).val() as AttendanceSession) || session;
+  let current = session;
+  // The schedule may move it along meanwhile; either way it ends up closed.
+  if (current.state === 'open' || current.state === 'grace') {
+    current = (await transitionSession(sessionId, 'closed', now)) || (await latest());
+  }
+  if (current.state === 'closed') {
+    current = (await finalizeSession(current, now)) || (await latest());
+  }
+  return { state: current.state, summary: current.summary || null };
+});
+
+// Mirrors `StudentSessionStatus` in src/services/attendanceSessions.ts.
+interface StudentSessionStatus {
+  sessionId: string;
+  sectionId: string;
+  subjectCode: string;
+  scheduledStart: number;
+  status: FinalStatus;
+}
+
+/**
+ * The signed-in student's settled status in each finalized session of their
+ * sections. Sessions carry every classmate's status, so students do not read
+ * them directly.
+ */
+export const getMyAttendanceHistory = onCall(OPTIONS, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'Sign in first');
+  }
+  const firestore = getFirestore();
+  const student = (await firestore.collection('students').where('uid', '==', request.auth.uid).limit(1).get())
+    .docs[0]?.data();
+  if (!student?.rfidUid) {
+    return { sessions: [] };
+  }
+
+  // Rosters come from the sections' enrolment, which lists students by name.
+  const enrolled = await firestore
+    .collection('sections')
+    .where('students', 'array-contains', student.fullName || '')
+    .get();
+  const sectionIds = new Set<string>([
+    ...(student.enrolledSubjects || []).map((subject: { sectionId?: string }) => subject.sectionId),
+    ...enrolled.docs.map((section) => section.id),
+  ]);
+  const history: StudentSessionStatus[] = [];
+  for (const sectionId of Array.from(sectionIds).filter(Boolean)) {
+    const found = (await sessions().orderByChild('schedule/sectionId').equalTo(sectionId).get()).val() || {};
+    (Object.values(found) as AttendanceSession[]).forEach((session) => {
+      const status = session.state === 'finalized' ? session.summary?.statuses[student.rfidUid] : undefined;
+      if (status) {
+        history.push({
+          sessionId: session.id,
+          sectionId,
+          subjectCode: session.schedule.subjectCode,
+          scheduledStart: session.scheduledStart,
+          status,
+        });
+      }
+    });
+  }
+  return { sessions: history.sort((a, b) => b.scheduledStart - a.scheduledStart) };
+});
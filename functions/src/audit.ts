@@ -0,0 +1,149 @@
+import { getFirestore } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { onCall } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { assertPermission } from './admins';
+import { ChainBreak, ChainHead, chainWalker, entryId, linkEntries } from './auditChain';
+
+// Mirrors `AuditEntry` in src/types/index.ts.
+export type AuditCategory = 'door_access' | 'rfid_denied' | 'tamper' | 'admin_action' | 'auth' | 'system';
+export type AuditOutcome = 'success' | 'warning' | 'failure';
+
+export interface AuditActor {
+  type: 'user' | 'card' | 'device' | 'system';
+  id: string;
+  name?: string;
+  role?: string;
+}
+
+export interface AuditEvent {
+  category: AuditCategory;
+  action: string;
+  outcome: AuditOutcome;
+  // When it happened, by the device's clock for firmware events.
+  occurredAt: number;
+  actor: AuditActor;
+  target?: { type: string; id: string; name?: string };
+  room?: string;
+  summary: string;
+  // Where the event came from, e.g. the RTDB path the firmware wrote.
+  source: string;
+  details?: Record<string, unknown>;
+}
+
+export interface AuditEntry extends AuditEvent {
+  seq: number;
+  recordedAt: number;
+  prevHash: string;
+  hash: string;
+}
+
+// Each sealed event is a create and a delete; a transaction takes 500 writes.
+const SEAL_BATCH_SIZE = 200;
+const QUEUE_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 500;
+
+const entries = () => getFirestore().collection('auditLog');
+const head = () => getFirestore().collection('auditChain').doc('head');
+const queue = () => getFirestore().collection('auditQueue');
+
+/**
+ * Queues one event for the audit chain. Door taps and sensor logs arrive far
+ * faster than one chain head can take transactions, so events wait in
+ * auditQueue and sealAuditLog appends them in batches. A failed write is
+ * retried under the same id, so it is never queued twice.
+ */
+export const appendAuditEvent = async (event: AuditEvent): Promise<void> => {
+  // Firestore rejects undefined fields; dropping them also keeps hashing stable.
+  const queued = { ...(JSON.parse(JSON.stringify(event)) as AuditEvent), recordedAt: Date.now() };
+  const ref = queue().doc();
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await ref.set(queued);
+      return;
+    } catch (error) {
+      if (attempt >= QUEUE_ATTEMPTS) throw error;
+      await new Promise((resolve) => setTimeout(resolve, attempt * RETRY_DELAY_MS));
+    }
+  }
+};
+
+/**
+ * Appends the oldest queued events to the chain in one transaction. Each
+ * entry carries the hash of the one before it and a hash over all of its own
+ * fields, and auditChain/head holds the latest, so editing, deleting or
+ * truncating entries breaks the chain where verifyAuditLog will find it.
+ * Only functions write here. Returns how many events were sealed.
+ */
+const sealQueuedEvents = (): Promise<number> =>
+  getFirestore().runTransaction(async (transaction) => {
+    const [current, pending] = await Promise.all([
+      transaction.get(head()),
+      transaction.get(queue().orderBy('recordedAt').limit(SEAL_BATCH_SIZE)),
+    ]);
+    if (pending.empty) return 0;
+
+    const linked = linkEntries(
+      pending.docs.map((queued) => queued.data() as AuditEvent & { recordedAt: number }),
+      current.data() as ChainHead | undefined
+    );
+    linked.forEach((entry, index) => {
+      transaction.create(entries().doc(entryId(entry.seq)), entry);
+      transaction.delete(pending.docs[index].ref);
+    });
+    const { seq, hash } = linked[linked.length - 1];
+    transaction.set(head(), { seq, hash, updatedAt: Date.now() });
+    return pending.size;
+  });
+
+// Drains the queue; a batch that fails stays queued for the next run.
+export const sealAuditLog = onSchedule(
+  { schedule: 'every 1 minutes', timeZone: 'Asia/Manila', region: 'asia-southeast1', timeoutSeconds: 300 },
+  async () => {
+    let sealed: number;
+    do {
+      sealed = await sealQueuedEvents();
+    } while (sealed === SEAL_BATCH_SIZE);
+  }
+);
+
+// For callables, whose action has already happened by the time it is
+// recorded: a failure is logged instead of failing the call.
+export const recordAuditEvent = async (event: AuditEvent): Promise<void> => {
+  try {
+    await appendAuditEvent(event);
+  } catch (error) {
+    logger.error(`Failed to record audit event ${event.action}`, error);
+  }
+};
+
+const PAGE_SIZE = 500;
+
+/**
+ * Walks the whole chain from the first entry. Reports the first entry that
+ * is missing, whose content no longer matches its hash, that does not point
+ * at the entry before it, or a head that is ahead of the last entry found.
+ */
+export const verifyAuditChain = async (): Promise<{ checked: number; headSeq: number; firstBreak: ChainBreak | null }> => {
+  const current = (await head().get()).data() as ChainHead | undefined;
+  const headSeq = current?.seq || 0;
+  const walker = chainWalker();
+
+  for (;;) {
+    const page = await entries()
+      .orderBy('seq')
+      .startAfter(walker.progress().nextSeq - 1)
+      .limit(PAGE_SIZE)
+      .get();
+    const firstBreak = walker.check(page.docs.map((doc) => ({ id: doc.id, entry: doc.data() as AuditEntry })));
+    if (firstBreak) return { checked: walker.progress().checked, headSeq, firstBreak };
+    if (page.size < PAGE_SIZE) break;
+  }
+
+  return { checked: walker.progress().checked, headSeq, firstBreak: walker.end(current) };
+};
+
+export const verifyAuditLog = onCall({ region: 'asia-southeast1', timeoutSeconds: 300 }, async (request) => {
+  await assertPermission(request.auth, 'view_security_logs');
+  return verifyAuditChain();
+});
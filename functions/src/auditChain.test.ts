@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { AuditEntry, AuditEvent } from './audit';
+import { GENESIS_HASH, chainWalker, entryId, linkEntries } from './auditChain';
+
+const event = (action: string, recordedAt: number): AuditEvent & { recordedAt: number } => ({
+  category: 'door_access',
+  action,
+  outcome: 'success',
+  occurredAt: recordedAt - 1000,
+  actor: { type: 'card', id: 'card-1', name: 'Ana Cruz' },
+  room: 'GLE-201',
+  summary: `${action} in GLE-201`,
+  source: 'AccessLogs/card-1',
+  details: { weight: 55, sensors: ['1', '2'] },
+  recordedAt,
+});
+
+const chain = (length: number): AuditEntry[] =>
+  linkEntries(Array.from({ length }, (_, index) => event(`tap_${index + 1}`, 1741910400000 + index)));
+
+const stored = (entries: AuditEntry[]) => entries.map((entry) => ({ id: entryId(entry.seq), entry }));
+
+const verify = (entries: AuditEntry[], head = entries[entries.length - 1]) => {
+  const walker = chainWalker();
+  return walker.check(stored(entries)) || walker.end(head && { seq: head.seq, hash: head.hash });
+};
+
+describe('linkEntries', () => {
+  it('starts from the genesis hash and links each entry to the one before', () => {
+    const [first, second] = chain(2);
+    assert.equal(first.seq, 1);
+    assert.equal(first.prevHash, GENESIS_HASH);
+    assert.equal(second.prevHash, first.hash);
+  });
+
+  it('continues after the head', () => {
+    const [first, second] = chain(2);
+    const [continued] = linkEntries([event('tap_2', second.recordedAt)], { seq: first.seq, hash: first.hash });
+    assert.deepEqual(continued, second);
+  });
+});
+
+describe('chainWalker', () => {
+  it('accepts an intact chain, checked a page at a time', () => {
+    const entries = chain(5);
+    const walker = chainWalker();
+    assert.equal(walker.check(stored(entries.slice(0, 2))), null);
+    assert.equal(walker.check(stored(entries.slice(2))), null);
+    assert.equal(walker.end({ seq: 5, hash: entries[4].hash }), null);
+    assert.deepEqual(walker.progress(), { checked: 5, nextSeq: 6 });
+  });
+
+  it('accepts an empty chain', () => {
+    assert.equal(verify([]), null);
+  });
+
+  it('finds an edited entry', () => {
+    const entries = chain(3);
+    entries[1] = { ...entries[1], outcome: 'failure' };
+    assert.deepEqual(verify(entries), { seq: 2, reason: 'altered' });
+  });
+
+  it('finds an edit nested in the details', () => {
+    const entries = chain(3);
+    entries[2] = { ...entries[2], details: { weight: 55, sensors: ['1'] } };
+    assert.deepEqual(verify(entries), { seq: 3, reason: 'altered' });
+  });
+
+  it('finds an entry moved to another document', () => {
+    const entries = stored(chain(2));
+    entries[1] = { ...entries[1], id: entryId(7) };
+    const walker = chainWalker();
+    assert.deepEqual(walker.check(entries), { seq: 2, reason: 'altered' });
+  });
+
+  it('finds a deleted entry', () => {
+    const entries = chain(3);
+    assert.deepEqual(verify([entries[0], entries[2]]), { seq: 2, reason: 'missing' });
+  });
+
+  it('finds a forged entry swapped in with a valid hash of its own', () => {
+    const entries = chain(3);
+    const [forged] = linkEntries([event('forged', entries[1].recordedAt)], {
+      seq: entries[0].seq,
+      hash: entries[0].hash,
+    });
+    assert.deepEqual(verify([entries[0], forged, entries[2]]), { seq: 3, reason: 'relinked' });
+  });
+
+  it('finds entries cut from the end', () => {
+    const entries = chain(3);
+    assert.deepEqual(verify(entries.slice(0, 2), entries[2]), { seq: 3, reason: 'truncated' });
+  });
+
+  it('finds a head that no longer matches the last entry', () => {
+    const entries = chain(2);
+    assert.deepEqual(verify(entries, { ...entries[1], hash: GENESIS_HASH }), { seq: 3, reason: 'truncated' });
+  });
+});
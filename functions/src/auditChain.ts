@@ -0,0 +1,82 @@
+import { createHash } from 'crypto';
+import type { AuditEntry, AuditEvent } from './audit';
+
+/**
+ * The hash chain behind the audit log, kept apart from Firestore so sealing
+ * and verification can be checked on plain entries. Each entry carries the
+ * hash of the one before it and a hash over all of its own fields.
+ */
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+export interface ChainHead {
+  seq: number;
+  hash: string;
+}
+
+export interface ChainBreak {
+  seq: number;
+  reason: 'missing' | 'altered' | 'relinked' | 'truncated';
+}
+
+// Zero-padded so document ids sort in chain order.
+export const entryId = (seq: number) => String(seq).padStart(12, '0');
+
+// Keys sorted at every level, so the same entry always hashes the same.
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const hashEntry = (entry: Omit<AuditEntry, 'hash'>) => createHash('sha256').update(canonicalJson(entry)).digest('hex');
+
+// Links queued events, oldest first, onto the chain after `latest`.
+export const linkEntries = (events: (AuditEvent & { recordedAt: number })[], latest?: ChainHead): AuditEntry[] => {
+  let seq = latest?.seq || 0;
+  let prevHash = latest?.hash || GENESIS_HASH;
+  return events.map((event) => {
+    seq += 1;
+    const entry = { ...event, seq, prevHash };
+    prevHash = hashEntry(entry);
+    return { ...entry, hash: prevHash };
+  });
+};
+
+/**
+ * Walks stored entries in sequence order, one page at a time. `check`
+ * returns the first entry that is missing, whose content no longer matches
+ * its hash or id, or that does not point at the entry before it; `end`
+ * reports a head that is ahead of, or disagrees with, the last entry found.
+ */
+export const chainWalker = () => {
+  let expectedSeq = 1;
+  let prevHash = GENESIS_HASH;
+  let checked = 0;
+
+  return {
+    progress: () => ({ checked, nextSeq: expectedSeq }),
+    check: (stored: { id: string; entry: AuditEntry }[]): ChainBreak | null => {
+      for (const { id, entry: { hash, ...entry } } of stored) {
+        if (entry.seq !== expectedSeq) return { seq: expectedSeq, reason: 'missing' };
+        if (id !== entryId(entry.seq) || hashEntry(entry) !== hash) return { seq: entry.seq, reason: 'altered' };
+        if (entry.prevHash !== prevHash) return { seq: entry.seq, reason: 'relinked' };
+        prevHash = hash;
+        expectedSeq += 1;
+        checked += 1;
+      }
+      return null;
+    },
+    end: (head?: ChainHead): ChainBreak | null => {
+      const headSeq = head?.seq || 0;
+      return checked !== headSeq || (headSeq > 0 && prevHash !== head?.hash)
+        ? { seq: checked + 1, reason: 'truncated' }
+        : null;
+    },
+  };
+};
@@ -0,0 +1,325 @@
+import { getAuth } from 'firebase-admin/auth';
+import { getDatabase } from 'firebase-admin/database';
+import { DocumentData } from 'firebase-admin/firestore';
+import { onValueCreated, onValueWritten } from 'firebase-functions/v2/database';
+import {
+  onDocumentCreatedWithAuthContext,
+  onDocumentUpdated,
+  onDocumentWrittenWithAuthContext,
+  AuthType,
+} from 'firebase-functions/v2/firestore';
+import { appendAuditEvent, AuditActor, AuditOutcome } from './audit';
+import { eventTime, parseDeviceTime } from './deviceTime';
+
+/**
+ * Feeds the audit chain from everywhere events already land: the firmware's
+ * RTDB paths (door access, card denials, tamper alerts, offline syncs and
+ * system logs), session records for sign-ins, and Firestore writes to
+ * accounts, rooms, settings and registrations for admin actions.
+ */
+
+const OPTIONS = { region: 'asia-southeast1' };
+
+// "TamperDetected" or "Denied_NotAdmin" -> "tamper_detected", "denied_not_admin"
+const actionKey = (action: string) =>
+  action
+    .replace(/([a-z])([A-Z])/g, '$1_$2')
+    .replace(/\W+|_+/g, '_')
+    .replace(/^_|_$/g, '')
+    .toLowerCase() || 'unknown';
+
+const userActor = async (uid: string): Promise<AuditActor> => {
+  try {
+    const user = await getAuth().getUser(uid);
+    const role = user.customClaims?.role;
+    return { type: 'user', id: uid, name: user.displayName || user.email || undefined, role };
+  } catch {
+    return { type: 'user', id: uid };
+  }
+};
+
+// Firestore names the signed-in user in authId; writes by service accounts
+// (these functions, admin scripts) and by Firestore itself are the system's.
+const writerActor = async (authType: AuthType, authId?: string): Promise<AuditActor> =>
+  authId && authType !== 'service_account' && authType !== 'system'
+    ? userActor(authId)
+    : { type: 'system', id: authType === 'service_account' ? 'server' : authType };
+
+// Door access
+
+export const auditAccessLog = onValueCreated({ ref: '/AccessLogs/{cardUid}/{logId}', ...OPTIONS }, async (event) => {
+  const { cardUid, logId } = event.params;
+  const log = event.data.val() || {};
+  const action = String(log.action || 'Access');
+  const denied = /denied/i.test(action);
+  await appendAuditEvent({
+    category: denied ? 'rfid_denied' : 'door_access',
+    action: actionKey(action),
+    outcome: denied ? 'failure' : 'success',
+    occurredAt: parseDeviceTime(log.timestamp, eventTime(event)),
+    actor: { type: 'card', id: cardUid, name: log.fullName, role: log.role },
+    room: log.roomDetails?.name,
+    summary: `${log.fullName || `Card ${cardUid}`}: ${action}`,
+    source: `/AccessLogs/${cardUid}/${logId}`,
+    details: { deviceTime: log.timestamp },
+  });
+});
+
+export const auditInstructorAccessLog = onValueCreated(
+  { ref: '/Instructors/{cardUid}/AccessLogs/{logId}', ...OPTIONS },
+  async (event) => {
+    const { cardUid, logId } = event.params;
+    const log = event.data.val() || {};
+    const instructor = (await getDatabase().ref(`Instructors/${cardUid}/Profile`).get()).val() || {};
+    const roomName = (await getDatabase().ref(`Instructors/${cardUid}/ClassStatus/schedule/roomName`).get()).val();
+    const denied = log.status === 'denied';
+    const name = instructor.fullName || `Card ${cardUid}`;
+    await appendAuditEvent({
+      category: denied ? 'rfid_denied' : 'door_access',
+      action: denied ? 'outside_schedule' : actionKey(String(log.action || 'Access')),
+      outcome: denied ? 'failure' : 'success',
+      occurredAt: parseDeviceTime(log.timestamp, eventTime(event)),
+      actor: { type: 'card', id: cardUid, name: instructor.fullName, role: 'instructor' },
+      room: (typeof roomName === 'string' ? roomName : roomName?.name) || undefined,
+      summary: denied ? `${name} was refused entry outside their schedule` : `${name}: ${log.action || 'Access'}`,
+      source: `/Instructors/${cardUid}/AccessLogs/${logId}`,
+      details: { deviceTime: log.timestamp, status: log.status },
+    });
+  }
+);
+
+// The firmware records the last tap of each unknown card under /Unregistered.
+export const auditUnregisteredCard = onValueWritten({ ref: '/Unregistered/{cardUid}', ...OPTIONS }, async (event) => {
+  const { cardUid } = event.params;
+  const after = event.data.after.val();
+  if (!after) return;
+  await appendAuditEvent({
+    category: 'rfid_denied',
+    action: 'unregistered_card',
+    outcome: 'failure',
+    occurredAt: parseDeviceTime(after.Time, eventTime(event)),
+    actor: { type: 'card', id: cardUid },
+    summary: `Unregistered card ${cardUid} was refused`,
+    source: `/Unregistered/${cardUid}`,
+    details: { deviceTime: after.Time },
+  });
+});
+
+// Tamper alerts
+
+export const auditTamperAlert = onValueWritten({ ref: '/Alerts/Tamper/{alertId}', ...OPTIONS }, async (event) => {
+  const { alertId } = event.params;
+  const before = event.data.before.val();
+  const after = event.data.after.val();
+  const source = `/Alerts/Tamper/${alertId}`;
+  if (!after) return;
+
+  if (!before) {
+    await appendAuditEvent({
+      category: 'tamper',
+      action: 'tamper_detected',
+      outcome: 'failure',
+      occurredAt: parseDeviceTime(after.startTime || after.detectedAt, eventTime(event)),
+      actor: { type: 'device', id: after.deviceId || 'door-controller' },
+      summary: `Tamper detected${after.deviceId ? ` on ${after.deviceId}` : ''}`,
+      source,
+      details: { startTime: after.startTime, status: after.status },
+    });
+  }
+  if (after.status !== before?.status && after.status === 'resolved') {
+    const byWeb = Boolean(after.resolvedByUID);
+    await appendAuditEvent({
+      category: 'tamper',
+      action: 'tamper_resolved',
+      outcome: 'success',
+      occurredAt: byWeb ? eventTime(event) : parseDeviceTime(after.resolutionTime || after.endTime, eventTime(event)),
+      actor: byWeb
+        ? await userActor(after.resolvedByUID)
+        : { type: 'card', id: after.resolvedBy || 'unknown', name: after.resolverName, role: after.resolverRole },
+      summary: `Tamper alert resolved by ${after.resolvedByFullName || after.resolverName || 'unknown'}`,
+      source,
+      details: { endTime: after.endTime },
+    });
+  }
+});
+
+// Logs kept on the SD card while offline, synced when the device reconnects.
+export const auditOfflineLog = onValueCreated({ ref: '/OfflineDataLogging/{logId}', ...OPTIONS }, async (event) => {
+  const { logId } = event.params;
+  const log = event.data.val() || {};
+  const action = String(log.action || 'Unknown');
+  const tamper = /^tamper/i.test(action);
+  await appendAuditEvent({
+    category: tamper ? 'tamper' : /denied/i.test(action) ? 'rfid_denied' : 'door_access',
+    action: actionKey(action),
+    outcome: tamper || /denied/i.test(action) ? 'failure' : 'success',
+    occurredAt: parseDeviceTime(log.timestamp, eventTime(event)),
+    actor: tamper
+      ? { type: 'device', id: 'door-controller' }
+      : { type: 'card', id: logId.split('_')[0], name: log.name, role: log.role },
+    summary: `${log.name ? `${log.name}: ` : ''}${action} (synced from offline log)`,
+    source: `/OfflineDataLogging/${logId}`,
+    details: { deviceTime: log.timestamp, status: log.status, offline: true },
+  });
+});
+
+// Entries look like "System:WiFiLost Time:2025_03_14_101500".
+export const auditSystemLog = onValueCreated({ ref: '/SystemLogs/{logId}', ...OPTIONS }, async (event) => {
+  const { logId } = event.params;
+  const entry = String(event.data.val() || '');
+  const name = entry.match(/System:(\S+)/)?.[1] || entry;
+  const outcome: AuditOutcome = /lost|fail|error|low|invalid/i.test(name) ? 'warning' : 'success';
+  await appendAuditEvent({
+    category: 'system',
+    action: actionKey(name),
+    outcome,
+    occurredAt: parseDeviceTime(entry.match(/Time:(\S+)/)?.[1], eventTime(event)),
+    actor: { type: 'device', id: 'door-controller' },
+    summary: name,
+    source: `/SystemLogs/${logId}`,
+    details: { entry },
+  });
+});
+
+// Sign-ins and sign-outs. Database events carry no auth context, and the owner
+// can write their own session records, so times come from the event and only
+// `revokedBy`, which the rules leave to admins, is trusted to name someone else.
+
+export const auditUserSession = onValueWritten({ ref: '/UserSessions/{uid}/{sessionId}', ...OPTIONS }, async (event) => {
+  const { uid, sessionId } = event.params;
+  const before = event.data.before.val();
+  const after = event.data.after.val();
+  const source = `/UserSessions/${uid}/${sessionId}`;
+  const user = await userActor(uid);
+  const who = user.name || uid;
+
+  if (!before && after) {
+    await appendAuditEvent({
+      category: 'auth',
+      action: 'sign_in',
+      outcome: 'success',
+      occurredAt: eventTime(event),
+      actor: user,
+      summary: `${who} signed in on ${after.device || 'a browser'}`,
+      source,
+      details: { device: after.device },
+    });
+  } else if (after?.revokedAt && !before?.revokedAt) {
+    const actor: AuditActor = after.revokedBy?.uid
+      ? { type: 'user', id: after.revokedBy.uid, name: after.revokedBy.fullName, role: after.revokedBy.role }
+      : user;
+    await appendAuditEvent({
+      category: 'auth',
+      action: 'session_revoked',
+      outcome: 'warning',
+      occurredAt: eventTime(event),
+      actor,
+      target: { type: 'user', id: uid, name: user.name },
+      summary: `${actor.name || 'Someone'} signed ${actor.id === uid ? 'out another session of theirs' : `out ${who}`}`,
+      source,
+      details: { device: after.device },
+    });
+  } else if (before && !after) {
+    await appendAuditEvent({
+      category: 'auth',
+      action: 'sign_out',
+      outcome: 'success',
+      occurredAt: eventTime(event),
+      actor: user,
+      summary: `${who} signed out`,
+      source,
+      details: { device: before.device },
+    });
+  }
+});
+
+// Admin actions
+
+// Fields whose changes decide what an account may do; old and new values are
+// kept for these, only the names of other changed fields.
+const ACCESS_FIELDS = ['role', 'accessRole', 'permissions', 'department', 'rfidUid'];
+const IGNORED_FIELDS = ['updatedAt', 'lastLogin', 'lastActive'];
+
+const changedFields = (before: DocumentData, after: DocumentData) =>
+  Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter((field) => !IGNORED_FIELDS.includes(field))
+    .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .sort();
+
+const auditDocumentWrites = (collectionName: string, label: string) =>
+  onDocumentWrittenWithAuthContext({ document: `${collectionName}/{docId}`, ...OPTIONS }, async (event) => {
+    const { docId } = event.params;
+    const before = event.data?.before?.data();
+    const after = event.data?.after?.data();
+    const fields = before && after ? changedFields(before, after) : [];
+    if (before && after && fields.length === 0) return;
+
+    const verb = !before ? 'created' : !after ? 'deleted' : 'updated';
+    const accessChanged = fields.filter((field) => ACCESS_FIELDS.includes(field));
+    const name = (after || before)?.fullName || (after || before)?.name || docId;
+    await appendAuditEvent({
+      category: 'admin_action',
+      action: `${collectionName}_${verb}`,
+      outcome: verb === 'deleted' || accessChanged.length > 0 ? 'warning' : 'success',
+      occurredAt: eventTime(event),
+      actor: await writerActor(event.authType, event.authId),
+      target: { type: collectionName, id: docId, name },
+      summary: `${label} ${name} ${verb}${fields.length > 0 ? ` (${fields.join(', ')})` : ''}`,
+      source: `${collectionName}/${docId}`,
+      details: {
+        fields,
+        ...(accessChanged.length > 0
+          ? {
+              access: accessChanged.map((field) => ({ field, before: before?.[field] ?? null, after: after?.[field] ?? null })),
+            }
+          : {}),
+      },
+    });
+  });
+
+export const auditAdminAccounts = auditDocumentWrites('users', 'Admin account');
+export const auditInstructorProfiles = auditDocumentWrites('teachers', 'Instructor');
+export const auditStudentProfiles = auditDocumentWrites('students', 'Student');
+export const auditRooms = auditDocumentWrites('rooms', 'Room');
+export const auditSettings = auditDocumentWrites('settings', 'Setting');
+
+// Reviews run in reviewRegistration, which records the reviewer on the document.
+export const auditRegistrations = onDocumentUpdated({ document: 'registrations/{uid}', ...OPTIONS }, async (event) => {
+  const before = event.data?.before.data();
+  const after = event.data?.after.data();
+  if (!before || !after || before.status === after.status || after.status === 'pending') return;
+  const reviewer = after.reviewedBy || {};
+  await appendAuditEvent({
+    category: 'admin_action',
+    action: `registration_${after.status}`,
+    outcome: 'success',
+    occurredAt: Date.parse(after.reviewedAt) || eventTime(event),
+    actor: { type: 'user', id: reviewer.uid || 'unknown', name: reviewer.fullName },
+    target: { type: 'registration', id: event.params.uid, name: after.fullName },
+    summary: `${reviewer.fullName || 'A reviewer'} ${after.status} the ${after.role} registration of ${after.fullName}`,
+    source: `registrations/${event.params.uid}`,
+    details: after.rejectionReason ? { reason: after.rejectionReason } : undefined,
+  });
+});
+
+// Anything still written to the old securityLogs collection joins the chain.
+// Clients can no longer create entries, and the writer recorded by Firestore,
+// not the entry's own `user` field, is the actor.
+export const auditLegacySecurityLog = onDocumentCreatedWithAuthContext(
+  { document: 'securityLogs/{logId}', ...OPTIONS },
+  async (event) => {
+    const log = event.data?.data() || {};
+    const outcomes: Record<string, AuditOutcome> = { success: 'success', warning: 'warning', error: 'failure' };
+    await appendAuditEvent({
+      category: 'system',
+      action: actionKey(String(log.event || 'security_log')),
+      outcome: outcomes[log.status] || 'warning',
+      occurredAt: log.timestamp?.toMillis?.() || eventTime(event),
+      actor: await writerActor(event.authType, event.authId),
+      room: log.location,
+      summary: log.description || log.event || 'Security log entry',
+      source: `securityLogs/${event.params.logId}`,
+      details: log.deviceId ? { deviceId: log.deviceId } : undefined,
+    });
+  }
+);
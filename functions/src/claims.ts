@@ -0,0 +1,194 @@
+import { getAuth } from 'firebase-admin/auth';
+import { getDatabase, ServerValue } from 'firebase-admin/database';
+import { DocumentData, getFirestore } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { assertAdmin } from './admins';
+import { recordAuditEvent } from './audit';
+
+export type UserRole = 'admin' | 'instructor' | 'student';
+
+// Mirrors `RoleClaims` in src/services/claims.ts. Custom claims ride in every
+// ID token, so they hold only what access checks need.
+export interface RoleClaims {
+  role: UserRole;
+  accessRole?: string;
+  permissions?: string[];
+  department?: string;
+}
+
+const PROFILE_ROLES: Record<string, UserRole> = {
+  users: 'admin',
+  teachers: 'instructor',
+  students: 'student',
+};
+
+const CLAIM_FIELDS = ['role', 'accessRole', 'permissions', 'department'];
+
+export const USER_ROLES = Object.values(PROFILE_ROLES);
+
+const accessClaims = (collectionName: string, profile: DocumentData): Omit<RoleClaims, 'role'> => ({
+  ...(collectionName !== 'students' && profile.accessRole ? { accessRole: profile.accessRole } : {}),
+  ...(collectionName !== 'students' && profile.permissions?.length ? { permissions: profile.permissions } : {}),
+  ...(profile.department ? { department: profile.department } : {}),
+});
+
+// Profiles are keyed by auth uid, except older ones that carry it in `uid` or
+// can only be matched by email.
+const authUidOf = async (profileId: string, profile: DocumentData): Promise<string | null> => {
+  const auth = getAuth();
+  for (const uid of [profile.uid, profileId].filter(Boolean)) {
+    try {
+      return (await auth.getUser(uid)).uid;
+    } catch {
+      // Not an auth uid; try the next candidate.
+    }
+  }
+  if (!profile.email) return null;
+  try {
+    return (await auth.getUserByEmail(profile.email)).uid;
+  } catch {
+    return null;
+  }
+};
+
+// Two-step sign-in state, set by mfa.ts, which role changes leave alone.
+const SECOND_FACTOR_CLAIMS = ['mfaEnrolled', 'mfaAuthTime'];
+
+// Signed-in clients watch /ClaimsRefresh/{uid} to fetch a fresh ID token
+// instead of waiting up to an hour for the old one to expire.
+const signalClaimsChanged = (uid: string) => getDatabase().ref(`ClaimsRefresh/${uid}`).set(ServerValue.TIMESTAMP);
+
+/**
+ * Sets the role claims, keeping any second-factor claims, and tells the
+ * user's browsers to pick them up.
+ */
+export const applyClaims = async (uid: string, claims: RoleClaims | null): Promise<void> => {
+  const auth = getAuth();
+  const current = claims ? (await auth.getUser(uid)).customClaims || {} : {};
+  const kept = SECOND_FACTOR_CLAIMS.filter((field) => field in current).reduce(
+    (all, field) => ({ ...all, [field]: current[field] }),
+    {}
+  );
+  await auth.setCustomUserClaims(uid, claims && { ...kept, ...claims });
+  await signalClaimsChanged(uid);
+};
+
+// Changes only the given claims; undefined removes one.
+export const mergeClaims = async (uid: string, changes: Record<string, unknown>): Promise<void> => {
+  const auth = getAuth();
+  const merged: Record<string, unknown> = { ...(await auth.getUser(uid)).customClaims, ...changes };
+  Object.keys(merged).forEach((field) => merged[field] === undefined && delete merged[field]);
+  await auth.setCustomUserClaims(uid, merged);
+  await signalClaimsChanged(uid);
+};
+
+const findProfile = async (uid: string, email?: string): Promise<{ collectionName: string; data: DocumentData } | null> => {
+  const firestore = getFirestore();
+  for (const collectionName of Object.keys(PROFILE_ROLES)) {
+    const byId = await firestore.collection(collectionName).doc(uid).get();
+    if (byId.exists) return { collectionName, data: byId.data() as DocumentData };
+    const byUid = await firestore.collection(collectionName).where('uid', '==', uid).limit(1).get();
+    if (!byUid.empty) return { collectionName, data: byUid.docs[0].data() };
+  }
+  if (email) {
+    const byEmail = await firestore.collection('users').where('email', '==', email).limit(1).get();
+    if (!byEmail.empty) return { collectionName: 'users', data: byEmail.docs[0].data() };
+  }
+  return null;
+};
+
+/**
+ * Keeps the access claims in step with the profile. The role claim is only
+ * set here for an account that has none yet, e.g. one just approved;
+ * changing it afterwards takes setUserRole.
+ */
+const syncClaims = (collectionName: string) =>
+  onDocumentWritten({ document: `${collectionName}/{profileId}`, region: 'asia-southeast1' }, async (event) => {
+    const before = event.data?.before?.data();
+    const after = event.data?.after?.data();
+    if (before && after && CLAIM_FIELDS.every((field) => JSON.stringify(before[field]) === JSON.stringify(after[field]))) {
+      return;
+    }
+    const uid = await authUidOf(event.params.profileId, (after || before) as DocumentData);
+    if (!uid) {
+      logger.warn(`No auth account for ${collectionName}/${event.params.profileId}; claims not set`);
+      return;
+    }
+    if (!after) {
+      await applyClaims(uid, null);
+      return;
+    }
+    const current = (await getAuth().getUser(uid)).customClaims as RoleClaims | undefined;
+    await applyClaims(uid, { role: current?.role || PROFILE_ROLES[collectionName], ...accessClaims(collectionName, after) });
+  });
+
+export const syncAdminClaims = syncClaims('users');
+export const syncInstructorClaims = syncClaims('teachers');
+export const syncStudentClaims = syncClaims('students');
+
+const claimsFromProfile = async (uid: string, email?: string): Promise<RoleClaims | null> => {
+  const profile = await findProfile(uid, email);
+  return profile
+    ? { role: PROFILE_ROLES[profile.collectionName], ...accessClaims(profile.collectionName, profile.data) }
+    : null;
+};
+
+/**
+ * Issues claims for an account whose profile predates them. The client calls
+ * this when its token carries no role; the role still comes from the server's
+ * reading of the profile, never from the caller.
+ */
+export const refreshClaims = onCall({ region: 'asia-southeast1' }, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'Sign in first');
+  }
+  if (request.auth.token.role) {
+    return { claims: null };
+  }
+  const claims = await claimsFromProfile(request.auth.uid, request.auth.token.email);
+  if (claims) await applyClaims(request.auth.uid, claims);
+  return { claims };
+});
+
+// Shared by the setUserRole function and scripts/setRole.ts, which
+// bootstraps the first admin against the emulator.
+export const setRole = async (uid: string, role: UserRole): Promise<RoleClaims> => {
+  if (!USER_ROLES.includes(role)) {
+    throw new HttpsError('invalid-argument', `Role must be one of ${USER_ROLES.join(', ')}`);
+  }
+  const user = await getAuth().getUser(uid);
+  const claims = { ...(await claimsFromProfile(uid, user.email)), role };
+  await applyClaims(uid, claims);
+  return claims;
+};
+
+export const setUserRole = onCall({ region: 'asia-southeast1' }, async (request) => {
+  const admin = await assertAdmin(request.auth);
+  const { uid, role } = (request.data || {}) as { uid?: string; role?: UserRole };
+  if (!uid || !role) {
+    throw new HttpsError('invalid-argument', 'A uid and a role are required');
+  }
+  if (uid === request.auth?.uid && role !== 'admin') {
+    throw new HttpsError('failed-precondition', 'Admins cannot remove their own admin role');
+  }
+  let claims: RoleClaims;
+  try {
+    claims = await setRole(uid, role);
+  } catch (error) {
+    if (error instanceof HttpsError) throw error;
+    throw new HttpsError('not-found', 'No account with that uid');
+  }
+  await recordAuditEvent({
+    category: 'admin_action',
+    action: 'role_changed',
+    outcome: 'warning',
+    occurredAt: Date.now(),
+    actor: { type: 'user', id: admin.uid, name: admin.fullName, role: 'admin' },
+    target: { type: 'user', id: uid },
+    summary: `${admin.fullName || 'An admin'} set the role of ${uid} to ${role}`,
+    source: `claims/${uid}`,
+  });
+  return { claims };
+});
@@ -0,0 +1,142 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it, mock } from 'node:test';
+import adminDatabase = require('firebase-admin/database');
+import adminFirestore = require('firebase-admin/firestore');
+import { AttendanceSession, firmwareKey } from './attendanceSessions';
+import { buildDepartmentOverview } from './department';
+import { FakeDatabase } from './testing/fakeDatabase';
+
+const MINUTE = 60 * 1000;
+// 2025-03-14, 08:00 Philippine time.
+const START = Date.UTC(2025, 2, 14, 0, 0, 0);
+
+const session = (id: string, uid: string, subjectCode: string, start: number, end: number) =>
+  ({
+    id,
+    state: 'open',
+    schedule: {
+      subjectId: subjectCode,
+      subjectCode,
+      subjectName: subjectCode,
+      sectionId: 'section-1',
+      sectionName: 'BSIT-1A',
+      day: 'Friday',
+      startTime: '',
+      endTime: '',
+    },
+    roomId: 'GLE-201',
+    instructor: { uid, fullName: '' },
+    roster: {},
+    policy: {
+      graceMinutes: 15,
+      lateCutoffMinutes: 10,
+      absentAfterMinutes: 30,
+      earlyLeaveMinutes: 5,
+      minimumAttendedPercent: 0,
+    },
+    scheduledStart: start,
+    scheduledEnd: end,
+    openedAt: start,
+  } as AttendanceSession);
+
+const collections: Record<string, Record<string, any>> = {
+  teachers: {
+    'teacher-1': { uid: 'uid-1', fullName: 'Ana Cruz', department: 'CCS' },
+    'teacher-2': { uid: 'uid-2', fullName: 'Ben Reyes', department: 'CBA' },
+  },
+  rooms: { 'room-1': { name: 'GLE-201', building: 'GLE', floor: '2', status: 'available' } },
+};
+const docs = (name: string) => Object.entries(collections[name] || {}).map(([id, data]) => ({ id, data: () => data }));
+const firestore = {
+  collection: (name: string) => ({
+    get: async () => ({ docs: docs(name) }),
+    where: (field: string, _op: string, value: unknown) => ({
+      get: async () => ({ docs: docs(name).filter((doc) => doc.data()[field] === value) }),
+    }),
+  }),
+};
+
+describe('buildDepartmentOverview', () => {
+  afterEach(() => mock.restoreAll());
+
+  it("counts the department's sessions from both record shapes, with the meter's energy", async () => {
+    // 06:00 Philippine time is still the day before in UTC.
+    const early = {
+      ...session('early', 'uid-1', 'IT101', START - 2 * 60 * MINUTE, START - 60 * MINUTE),
+      state: 'finalized' as const,
+      summary: {
+        present: 1,
+        late: 0,
+        absent: 1,
+        earlyLeave: 0,
+        total: 2,
+        statuses: { 'card-a': 'present' as const, 'card-b': 'absent' as const },
+      },
+    };
+    const running = {
+      ...session('running', 'uid-1', 'IT102', START, START + 90 * MINUTE),
+      roster: { 'card-a': { studentName: 'Ana', idNumber: '1' }, 'card-c': { studentName: 'Cy', idNumber: '3' } },
+    };
+    const yesterday = session('yesterday', 'uid-1', 'IT101', START - 24 * 60 * MINUTE, START - 23 * 60 * MINUTE);
+    const otherDepartment = session('other', 'uid-2', 'BA101', START, START + 60 * MINUTE);
+
+    const database = new FakeDatabase({
+      AttendanceSessions: { early, running, yesterday, other: otherDepartment },
+      Students: {
+        // The door controller's flat record, under the firmware key.
+        'card-a': {
+          Attendance: {
+            [firmwareKey('2025_03_14', 'IT102', 'BSIT-1A', 'GLE-201')]: {
+              Status: 'Late',
+              Action: 'Confirmed',
+              'Time In': '2025_03_14_081500',
+            },
+          },
+        },
+        // The dashboard's nested record, under the session id.
+        'card-c': { Attendance: { running: { attendanceInfo: { status: 'Present', timeIn: '2025_03_14_080200' } } } },
+      },
+      EnergySeries: {
+        'GLE-201': {
+          samples: {
+            '20250314': {
+              '060000': { energy: 10 },
+              '063000': { energy: 10.5 },
+              // The meter was reset, which only starts a new baseline.
+              '064500': { energy: 0.2 },
+              '070000': { energy: 0.4 },
+              '080000': { energy: 1 },
+              '083000': { energy: 1.3 },
+            },
+          },
+        },
+      },
+    });
+    mock.method(adminDatabase, 'getDatabase', () => database);
+    mock.method(adminFirestore, 'getFirestore', () => firestore);
+    mock.method(Date, 'now', () => START + 60 * MINUTE);
+
+    const overview = await buildDepartmentOverview('CCS', 1);
+
+    assert.equal(overview.since, '2025_03_14');
+    assert.deepEqual(overview.attendance, { present: 2, late: 1, absent: 1 });
+    assert.deepEqual(
+      overview.subjects.map(({ subjectCode, sessions, present, late, absent }) => [
+        subjectCode,
+        sessions,
+        present,
+        late,
+        absent,
+      ]),
+      [
+        ['IT101', 1, 1, 0, 1],
+        ['IT102', 1, 1, 1, 0],
+      ]
+    );
+    const [instructor] = overview.instructors;
+    assert.equal(overview.instructors.length, 1);
+    assert.equal(instructor.sessions, 2);
+    assert.equal(Math.round(instructor.energyKWh * 100) / 100, 1);
+    assert.equal(overview.rooms[0].sessions, 2);
+  });
+});
@@ -0,0 +1,292 @@
+import { getDatabase } from 'firebase-admin/database';
+import { DocumentData, getFirestore } from 'firebase-admin/firestore';
+import { CallableRequest, HttpsError, onCall } from 'firebase-functions/v2/https';
+import { ACCESS_ROLE_PERMISSIONS, DEPARTMENT_SCOPED_ROLES } from './access';
+import { secondFactorVerified } from './admins';
+import { AttendanceSession, dateKeyAt, findRecord, listedSessions } from './attendanceSessions';
+import { deviceTimeKeyAt, parseDeviceTime } from './deviceTime';
+import { counterUsage, energyRoomKey } from './energySeries';
+
+// Mirrors `DepartmentOverview` in src/types/index.ts.
+interface AttendanceCounts {
+  present: number;
+  late: number;
+  absent: number;
+}
+
+interface InstructorSummary extends AttendanceCounts {
+  id: string;
+  fullName: string;
+  email: string;
+  sessions: number;
+  energyKWh: number;
+}
+
+interface DepartmentSchedule {
+  instructorId: string;
+  instructorName: string;
+  subject: string;
+  section: string;
+  day: string;
+  startTime: string;
+  endTime: string;
+  roomName: string;
+}
+
+interface RoomSummary {
+  name: string;
+  building: string;
+  floor: string;
+  status: string;
+  scheduledClasses: number;
+  sessions: number;
+  energyKWh: number;
+}
+
+interface SubjectSummary extends AttendanceCounts {
+  subjectCode: string;
+  sessions: number;
+}
+
+const MAX_DAYS = 90;
+
+const findProfile = async (auth: NonNullable<CallableRequest['auth']>): Promise<DocumentData | undefined> => {
+  const firestore = getFirestore();
+  const [admin, teacher] = await Promise.all([
+    firestore.collection('users').doc(auth.uid).get(),
+    firestore.collection('teachers').doc(auth.uid).get(),
+  ]);
+  if (admin.exists) return admin.data();
+  if (teacher.exists) return teacher.data();
+  // Older admin profiles are keyed by document id rather than auth uid.
+  const byEmail = await firestore.collection('users').where('email', '==', auth.token.email || '').limit(1).get();
+  return byEmail.docs[0]?.data();
+};
+
+/**
+ * Decides which department the caller may see. Department heads are pinned
+ * to their own; admins and holders of a global `view_reports` pick one.
+ */
+const resolveDepartment = async (
+  auth: CallableRequest['auth'],
+  requested: string
+): Promise<{ department: string; scoped: boolean }> => {
+  if (!auth) {
+    throw new HttpsError('unauthenticated', 'Sign in first');
+  }
+  if ((auth.token.role === 'admin' || auth.token.mfaEnrolled === true) && !secondFactorVerified(auth.token)) {
+    throw new HttpsError('permission-denied', 'Complete two-step sign-in first');
+  }
+  const profile = await findProfile(auth);
+  if (!profile) {
+    throw new HttpsError('permission-denied', 'No staff profile found for this account');
+  }
+
+  if (profile.role !== 'admin' && DEPARTMENT_SCOPED_ROLES.includes(profile.accessRole)) {
+    const department = profile.department || '';
+    if (!department) {
+      throw new HttpsError('failed-precondition', 'Your profile has no department');
+    }
+    if (requested && requested !== department) {
+      throw new HttpsError('permission-denied', `You can only view ${department}`);
+    }
+    return { department, scoped: true };
+  }
+
+  const permissions: string[] = [...(ACCESS_ROLE_PERMISSIONS[profile.accessRole] || []), ...(profile.permissions || [])];
+  if (profile.role !== 'admin' && !permissions.includes('view_reports')) {
+    throw new HttpsError('permission-denied', 'You do not have access to department reports');
+  }
+  return { department: requested, scoped: false };
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const number = (value: unknown) => {
+  const parsed = parseFloat(String(value ?? ''));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const roomNameOf = (roomName: unknown): string =>
+  typeof roomName === 'string' ? roomName : (roomName as { name?: string } | undefined)?.name || '';
+
+const countStatus = (counts: AttendanceCounts, status: unknown) => {
+  const key = String(status || '').toLowerCase();
+  if (key === 'present' || key === 'late' || key === 'absent') counts[key] += 1;
+};
+
+/**
+ * Each rostered student's status in a session. Finalized sessions carry the
+ * settled ones, auto-absences included; for a running class the student's
+ * record is looked up as the finalizer would, whether the dashboard wrote it
+ * nested or the door controller flat.
+ */
+const sessionStatuses = async (session: AttendanceSession): Promise<string[]> => {
+  if (session.state === 'finalized') return Object.values(session.summary?.statuses || {});
+  const listed = await listedSessions(session);
+  const statuses: string[] = [];
+  for (const rfidUid of Object.keys(session.roster || {})) {
+    const record = await findRecord(rfidUid, session, listed);
+    if (record) statuses.push(record.attendanceInfo.status);
+  }
+  return statuses;
+};
+
+/**
+ * Attendance, schedules, rooms and energy for one department, read with
+ * admin privileges so department heads never need global read access.
+ * Sessions are attributed to the department of the instructor who ran them,
+ * and their energy is what the room's meter counted during the class.
+ */
+export const buildDepartmentOverview = async (department: string, days: number) => {
+  const firestore = getFirestore();
+  const rtdb = getDatabase();
+  // Whole days on the device's clock, counting today.
+  const since = dateKeyAt(Date.now() - (days - 1) * DAY);
+  const sinceStart = parseDeviceTime(`${since}_000000`, Date.now() - days * DAY);
+
+  const [teachersSnapshot, roomsSnapshot] = await Promise.all([
+    firestore.collection('teachers').where('department', '==', department).get(),
+    firestore.collection('rooms').get(),
+  ]);
+
+  const instructors = new Map<string, InstructorSummary>();
+  const schedules: DepartmentSchedule[] = [];
+  const instructorIds = new Map<string, string>(); // auth uid -> teacher id
+
+  teachersSnapshot.docs.forEach((teacher) => {
+    const data = teacher.data();
+    instructors.set(teacher.id, {
+      id: teacher.id,
+      fullName: data.fullName || 'Unknown',
+      email: data.email || '',
+      sessions: 0,
+      energyKWh: 0,
+      present: 0,
+      late: 0,
+      absent: 0,
+    });
+    // Sessions name their instructor the way the opener does.
+    instructorIds.set(data.uid || teacher.id, teacher.id);
+    (data.assignedSubjects || []).forEach((subject: DocumentData) =>
+      (subject.sections || []).forEach((section: DocumentData) =>
+        (section.schedules || []).forEach((schedule: DocumentData) =>
+          schedules.push({
+            instructorId: teacher.id,
+            instructorName: data.fullName || 'Unknown',
+            subject: subject.name || '',
+            section: section.name || '',
+            day: schedule.day || '',
+            startTime: schedule.startTime || '',
+            endTime: schedule.endTime || '',
+            roomName: roomNameOf(schedule.roomName),
+          })
+        )
+      )
+    );
+  });
+
+  const rooms = new Map<string, RoomSummary>();
+  const roomSummary = (name: string) => {
+    if (!rooms.has(name)) {
+      const room = roomsSnapshot.docs.find((doc) => doc.data().name === name)?.data();
+      rooms.set(name, {
+        name,
+        building: room?.building || '',
+        floor: room?.floor || '',
+        status: room?.status || 'unknown',
+        scheduledClasses: 0,
+        sessions: 0,
+        energyKWh: 0,
+      });
+    }
+    return rooms.get(name) as RoomSummary;
+  };
+  schedules.forEach((schedule) => {
+    if (schedule.roomName) roomSummary(schedule.roomName).scheduledClasses += 1;
+  });
+
+  // A room's samples for a day, read once however many classes it held.
+  const sampleDays = new Map<string, Promise<Record<string, DocumentData>>>();
+  const samplesOn = (roomKey: string, day: string) => {
+    const key = `${roomKey}/samples/${day}`;
+    if (!sampleDays.has(key)) {
+      sampleDays.set(key, rtdb.ref(`EnergySeries/${key}`).get().then((snapshot) => snapshot.val() || {}));
+    }
+    return sampleDays.get(key) as Promise<Record<string, DocumentData>>;
+  };
+  const sessionEnergy = async (session: AttendanceSession) => {
+    const roomKey = energyRoomKey(session.roomId || '');
+    if (!roomKey) return 0;
+    const from = deviceTimeKeyAt(session.scheduledStart);
+    const to = deviceTimeKeyAt(Math.min(session.closedAt ?? session.scheduledEnd, session.scheduledEnd));
+    const readings: [string, number][] = [];
+    for (const day of Array.from(new Set([from.slice(0, 8), to.slice(0, 8)]))) {
+      Object.entries(await samplesOn(roomKey, day)).forEach(([time, sample]) => {
+        const timeKey = `${day}${time}`;
+        if (timeKey >= from && timeKey <= to) readings.push([timeKey, number(sample?.energy)]);
+      });
+    }
+    return counterUsage(readings.sort(([a], [b]) => a.localeCompare(b)).map(([, energy]) => energy));
+  };
+
+  const subjects = new Map<string, SubjectSummary>();
+  const totals: AttendanceCounts = { present: 0, late: 0, absent: 0 };
+  const held =
+    (await rtdb.ref('AttendanceSessions').orderByChild('scheduledStart').startAt(sinceStart).get()).val() || {};
+  for (const session of Object.values(held as Record<string, AttendanceSession>)) {
+    const instructorId = instructorIds.get(session?.instructor?.uid);
+    if (!instructorId) continue;
+    const instructor = instructors.get(instructorId) as InstructorSummary;
+    const energy = await sessionEnergy(session);
+    instructor.sessions += 1;
+    instructor.energyKWh += energy;
+    if (session.roomId) {
+      const room = roomSummary(session.roomId);
+      room.sessions += 1;
+      room.energyKWh += energy;
+    }
+    const subjectCode = session.schedule?.subjectCode || 'Unknown';
+    const subject = subjects.get(subjectCode) || { subjectCode, sessions: 0, present: 0, late: 0, absent: 0 };
+    subject.sessions += 1;
+    subjects.set(subjectCode, subject);
+    (await sessionStatuses(session)).forEach((status) => {
+      countStatus(totals, status);
+      countStatus(instructor, status);
+      countStatus(subject, status);
+    });
+  }
+
+  return {
+    department,
+    since,
+    instructors: Array.from(instructors.values()).sort((a, b) => a.fullName.localeCompare(b.fullName)),
+    schedules,
+    rooms: Array.from(rooms.values()).sort((a, b) => a.name.localeCompare(b.name)),
+    subjects: Array.from(subjects.values()).sort((a, b) => a.subjectCode.localeCompare(b.subjectCode)),
+    attendance: totals,
+    energyKWh: Array.from(instructors.values()).reduce((sum, instructor) => sum + instructor.energyKWh, 0),
+  };
+};
+
+export const getDepartmentOverview = onCall({ region: 'asia-southeast1' }, async (request) => {
+  const data = (request.data || {}) as { department?: string; days?: number };
+  const days = Math.min(Math.max(Math.round(Number(data.days) || 30), 1), MAX_DAYS);
+  const { department, scoped } = await resolveDepartment(request.auth, (data.department || '').trim());
+
+  // Unscoped callers choose among every department that has instructors.
+  const departments = scoped
+    ? [department]
+    : Array.from(
+        new Set(
+          (await getFirestore().collection('teachers').select('department').get()).docs
+            .map((teacher) => teacher.data().department as string)
+            .filter(Boolean)
+        )
+      ).sort();
+  const selected = department || departments[0] || '';
+  if (!selected) {
+    return { departments, overview: null };
+  }
+  return { departments, overview: await buildDepartmentOverview(selected, days) };
+});
@@ -0,0 +1,32 @@
+// The firmware's clock runs on Philippine time (configTime(8 * 3600)) and
+// writes YYYY_MM_DD_HHMMSS; offline syncs swap the underscores for T.
+const DEVICE_UTC_OFFSET_MS = 8 * 60 * 60 * 1000;
+
+const DEVICE_TIME = /^(\d{4})[-_T](\d{2})[-_T](\d{2})[-_T ]?(\d{2}):?(\d{2}):?(\d{2})/;
+
+export const parseDeviceTime = (value: unknown, fallback: number): number => {
+  const match = String(value || '').match(DEVICE_TIME);
+  if (!match) return fallback;
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number);
+  // Devices that never got the time write 1970 placeholders.
+  return year > 2000 ? Date.UTC(year, month - 1, day, hour, minute, second) - DEVICE_UTC_OFFSET_MS : fallback;
+};
+
+// "2025_03_14_101500" and its offline form "2025T03T14T101500" both give
+// "20250314101500", so the two copies of one reading share a key.
+export const deviceTimeKey = (value: unknown): string | null => {
+  const match = String(value || '').match(DEVICE_TIME);
+  return match ? match.slice(1).join('') : null;
+};
+
+export const eventTime = (event: { time: string }) => Date.parse(event.time) || Date.now();
+
+// The deviceTimeKey for a server-side time, read on the device's clock.
+export const deviceTimeKeyAt = (millis: number): string =>
+  new Date(millis + DEVICE_UTC_OFFSET_MS).toISOString().replace(/\D/g, '').slice(0, 14);
+
+// The firmware's YYYY_MM_DD_HHMMSS for a server-side time.
+export const deviceTimestampAt = (millis: number): string => {
+  const key = deviceTimeKeyAt(millis);
+  return `${key.slice(0, 4)}_${key.slice(4, 6)}_${key.slice(6, 8)}_${key.slice(8)}`;
+};
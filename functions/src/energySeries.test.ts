@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it, mock } from 'node:test';
+import adminDatabase = require('firebase-admin/database');
+import { rollupEnergySample } from './energySeries';
+import { FakeDatabase } from './testing/fakeDatabase';
+
+const reading = (energy: number, power = 100) => ({
+  voltage: 230,
+  current: power / 230,
+  power,
+  energy,
+  frequency: 60,
+  powerFactor: 1,
+  room: 'GLE-201',
+  source: 'device',
+});
+
+const rollUp = (database: FakeDatabase, day: string, time: string) =>
+  rollupEnergySample.run({
+    params: { roomKey: 'GLE-201', day, time },
+    data: { val: () => database.val(`EnergySeries/GLE-201/samples/${day}/${time}`) },
+  } as never);
+
+describe('rollupEnergySample', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('folds a sample into its hour and day once, however often the trigger runs', async () => {
+    const database = new FakeDatabase({
+      EnergySeries: { 'GLE-201': { samples: { '20250314': { '080000': reading(10), '080100': reading(10.25, 300) } } } },
+    });
+    mock.method(adminDatabase, 'getDatabase', () => database);
+
+    await rollUp(database, '20250314', '080000');
+    await rollUp(database, '20250314', '080100');
+    // A retry after the rollups were written.
+    await rollUp(database, '20250314', '080100');
+
+    const hourly = database.val('EnergySeries/GLE-201/hourly/2025031408');
+    assert.equal(hourly.count, 2);
+    assert.equal(hourly.energyKWh, 0.25);
+    assert.deepEqual(hourly.power, { min: 100, max: 300, sum: 400 });
+    assert.deepEqual(Object.keys(hourly.folded), ['080000', '080100']);
+    const daily = database.val('EnergySeries/GLE-201/daily/20250314');
+    assert.equal(daily.count, 2);
+    assert.equal(daily.energyKWh, 0.25);
+    assert.deepEqual(daily.power, { min: 100, max: 300, sum: 400 });
+    assert.equal(database.val('EnergyRooms/GLE-201/lastSampleKey'), '20250314080100');
+  });
+
+  it('starts a new baseline when the counter drops after a reset or a swapped meter', async () => {
+    const database = new FakeDatabase({
+      EnergySeries: {
+        'GLE-201': {
+          samples: {
+            '20250314': { '080000': reading(5200), '080100': reading(4100.5), '080200': reading(4100.75) },
+          },
+        },
+      },
+    });
+    mock.method(adminDatabase, 'getDatabase', () => database);
+
+    await rollUp(database, '20250314', '080000');
+    await rollUp(database, '20250314', '080100');
+    await rollUp(database, '20250314', '080200');
+
+    assert.equal(database.val('EnergySeries/GLE-201/hourly/2025031408/energyKWh'), 0.25);
+    assert.equal(database.val('EnergySeries/GLE-201/daily/20250314/energyKWh'), 0.25);
+  });
+});
@@ -0,0 +1,225 @@
+import { getDatabase } from 'firebase-admin/database';
+import { logger } from 'firebase-functions';
+import { onValueCreated, onValueWritten } from 'firebase-functions/v2/database';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { deviceTimeKey, deviceTimeKeyAt, eventTime } from './deviceTime';
+
+/**
+ * PZEM readings are kept per room as a time series:
+ *
+ *   /EnergySeries/{roomKey}/samples/{YYYYMMDD}/{HHMMSS}  raw readings
+ *   /EnergySeries/{roomKey}/hourly/{YYYYMMDDHH}          hourly rollups
+ *   /EnergySeries/{roomKey}/daily/{YYYYMMDD}             daily rollups
+ *   /EnergyRooms/{roomKey}                               rooms with data
+ *
+ * Keys are device (Philippine) time, so a day is a local day. The firmware
+ * pushes a sample every minute while a room is in use, or still drawing power
+ * after its last session (source "idle"); the session-end and admin readings
+ * it already writes elsewhere are copied in. Each new sample is folded into
+ * its hour once, by its key, and the day is summed from its hours, so a
+ * retried trigger changes nothing. Raw samples are pruned after
+ * SAMPLE_RETENTION_DAYS; rollups are kept.
+ */
+
+const OPTIONS = { region: 'asia-southeast1' };
+
+const SAMPLE_RETENTION_DAYS = 90;
+
+// Mirrors the types in src/types/rtdb.ts.
+const METRICS = ['voltage', 'current', 'power', 'frequency', 'powerFactor'] as const;
+type Metric = typeof METRICS[number];
+
+interface EnergySample extends Record<Metric, number> {
+  // The PZEM's cumulative kWh counter; it restarts when the device boots.
+  energy: number;
+  room?: string;
+  source: string;
+}
+
+interface MetricStats {
+  min: number;
+  max: number;
+  sum: number;
+}
+
+interface EnergyRollup extends Record<Metric, MetricStats> {
+  count: number;
+  // Energy used in the bucket, from differences of the cumulative counter.
+  energyKWh: number;
+}
+
+interface HourlyRollup extends EnergyRollup {
+  // HHMMSS keys of the samples already folded in.
+  folded?: Record<string, true>;
+}
+
+// The latest sample's counter reading and the energy credited to it.
+interface Meter {
+  key: string;
+  energy: number;
+  delta?: number;
+}
+
+const series = (roomKey: string) => getDatabase().ref(`EnergySeries/${roomKey}`);
+
+// Room names become keys; these characters are not allowed in one.
+export const energyRoomKey = (roomName: string): string => roomName.replace(/[.#$[\]/]/g, '_').trim();
+
+const reading = (value: unknown): number => {
+  const number = Number(value);
+  return Number.isFinite(number) && number > 0 ? number : 0;
+};
+
+// Session readings use lower-case fields and /AdminPZEM capitalised ones, both
+// as formatted strings; the firmware's own samples are numbers.
+const toSample = (raw: any, source: string): EnergySample => ({
+  voltage: reading(raw?.voltage ?? raw?.Voltage),
+  current: reading(raw?.current ?? raw?.Current),
+  power: reading(raw?.power ?? raw?.Power),
+  energy: reading(raw?.energy ?? raw?.Energy),
+  frequency: reading(raw?.frequency ?? raw?.Frequency),
+  powerFactor: reading(raw?.powerFactor ?? raw?.PowerFactor),
+  ...(raw?.room ? { room: String(raw.room) } : {}),
+  source: String(raw?.source || source),
+});
+
+// Copies a reading into the series unless the room already has one at that
+// second, e.g. the minute sample the firmware pushed alongside it.
+const recordSample = async (roomName: string, timeKey: string, sample: EnergySample): Promise<void> => {
+  const roomKey = energyRoomKey(roomName);
+  if (!roomKey || !/^\d{14}$/.test(timeKey)) return;
+  await series(roomKey)
+    .child(`samples/${timeKey.slice(0, 8)}/${timeKey.slice(8)}`)
+    .transaction((current) => (current === null ? { ...sample, room: roomName } : undefined));
+};
+
+// Energy since the previous sample; a retry for the latest sample gets the
+// same figure again. Samples that arrive out of order, such as a late
+// session-end copy, add nothing rather than double count. A reading below the
+// one before means the PZEM was reset or swapped, so it only starts a new
+// baseline.
+const meterDelta = async (roomKey: string, timeKey: string, energy: number): Promise<number> => {
+  let delta = 0;
+  await series(roomKey)
+    .child('meter')
+    .transaction((meter: Meter | null) => {
+      delta = 0;
+      if (meter?.key === timeKey) {
+        delta = meter.delta || 0;
+        return undefined;
+      }
+      if (meter && meter.key > timeKey) return undefined;
+      if (meter && energy >= meter.energy) delta = energy - meter.energy;
+      return { key: timeKey, energy, delta };
+    });
+  return delta;
+};
+
+// Energy used across cumulative readings in time order. A reading below the
+// one before means the PZEM was reset or swapped and starts a new baseline.
+export const counterUsage = (readings: number[]): number =>
+  readings.reduce(
+    (used, energy, index) => (index > 0 && energy >= readings[index - 1] ? used + energy - readings[index - 1] : used),
+    0
+  );
+
+const foldSample = (rollup: EnergyRollup | null, sample: EnergySample, energyKWh: number): EnergyRollup => {
+  const next = {
+    count: (rollup?.count || 0) + 1,
+    energyKWh: (rollup?.energyKWh || 0) + energyKWh,
+  } as EnergyRollup;
+  METRICS.forEach((metric) => {
+    const value = sample[metric];
+    const stats = rollup?.[metric];
+    next[metric] = stats
+      ? { min: Math.min(stats.min, value), max: Math.max(stats.max, value), sum: stats.sum + value }
+      : { min: value, max: value, sum: value };
+  });
+  return next;
+};
+
+const mergeRollups = (rollups: EnergyRollup[]): EnergyRollup | null =>
+  rollups.reduce<EnergyRollup | null>((merged, rollup) => {
+    const next = {
+      count: (merged?.count || 0) + rollup.count,
+      energyKWh: (merged?.energyKWh || 0) + rollup.energyKWh,
+    } as EnergyRollup;
+    METRICS.forEach((metric) => {
+      const stats = merged?.[metric];
+      const value = rollup[metric];
+      next[metric] = stats
+        ? { min: Math.min(stats.min, value.min), max: Math.max(stats.max, value.max), sum: stats.sum + value.sum }
+        : { ...value };
+    });
+    return next;
+  }, null);
+
+export const rollupEnergySample = onValueCreated(
+  { ref: '/EnergySeries/{roomKey}/samples/{day}/{time}', ...OPTIONS },
+  async (event) => {
+    const { roomKey, day, time } = event.params;
+    if (!/^\d{8}$/.test(day) || !/^\d{6}$/.test(time)) {
+      logger.warn(`Ignoring energy sample with a malformed key: ${roomKey}/${day}/${time}`);
+      return;
+    }
+    const sample = toSample(event.data.val(), 'device');
+    const timeKey = `${day}${time}`;
+    const energyKWh = await meterDelta(roomKey, timeKey, sample.energy);
+
+    await series(roomKey)
+      .child(`hourly/${timeKey.slice(0, 10)}`)
+      .transaction((rollup: HourlyRollup | null) =>
+        rollup?.folded?.[time]
+          ? undefined
+          : { ...foldSample(rollup, sample, energyKWh), folded: { ...rollup?.folded, [time]: true } }
+      );
+
+    const hours = (await series(roomKey).child('hourly').orderByKey().startAt(`${day}00`).endAt(`${day}23`).get()).val();
+    await Promise.all([
+      series(roomKey)
+        .child(`daily/${day}`)
+        .set(mergeRollups(Object.values((hours || {}) as Record<string, EnergyRollup>))),
+      getDatabase()
+        .ref(`EnergyRooms/${roomKey}`)
+        .update({ name: sample.room || roomKey, lastSampleKey: timeKey }),
+    ]);
+  }
+);
+
+// The firmware rewrites /Instructors/{uid}/Rooms/{roomName} at every session end.
+export const captureSessionEnergy = onValueWritten(
+  { ref: '/Instructors/{uid}/Rooms/{roomName}', ...OPTIONS },
+  async (event) => {
+    const after = event.data.after.val();
+    if (!after) return;
+    const timeKey = deviceTimeKey(after.timestamp) || deviceTimeKeyAt(eventTime(event));
+    await recordSample(event.params.roomName, timeKey, toSample(after, 'session_end'));
+  }
+);
+
+export const captureAdminEnergy = onValueCreated({ ref: '/AdminPZEM/{uid}/{readingId}', ...OPTIONS }, async (event) => {
+  const raw = event.data.val() || {};
+  const roomName = raw.roomDetails?.name;
+  if (!roomName || roomName === 'Unknown') return;
+  const timeKey = deviceTimeKey(raw.timestamp || event.params.readingId) || deviceTimeKeyAt(eventTime(event));
+  await recordSample(roomName, timeKey, toSample(raw, 'admin'));
+});
+
+export const pruneEnergySamples = onSchedule(
+  { schedule: 'every day 03:00', timeZone: 'Asia/Manila', ...OPTIONS },
+  async () => {
+    const cutoffDay = deviceTimeKeyAt(Date.now() - SAMPLE_RETENTION_DAYS * 24 * 60 * 60 * 1000).slice(0, 8);
+    const rooms = Object.keys((await getDatabase().ref('EnergyRooms').get()).val() || {});
+    for (const roomKey of rooms) {
+      const stale = await series(roomKey).child('samples').orderByKey().endAt(cutoffDay).get();
+      const removals: Record<string, null> = {};
+      stale.forEach((day) => {
+        if (day.key && day.key < cutoffDay) removals[day.key] = null;
+      });
+      if (Object.keys(removals).length > 0) {
+        await series(roomKey).child('samples').update(removals);
+        logger.info(`Pruned ${Object.keys(removals).length} days of energy samples for ${roomKey}`);
+      }
+    }
+  }
+);
@@ -0,0 +1,355 @@
+import { getDatabase } from 'firebase-admin/database';
+import { QueryDocumentSnapshot, getFirestore } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { onValueCreated } from 'firebase-functions/v2/database';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { holdsGlobalPermission } from './access';
+import { recordAuditEvent } from './audit';
+import { parseDeviceTime } from './deviceTime';
+import { notifyStaff } from './notifications';
+
+/**
+ * Idle-room waste: a room drawing more than the baseline when nobody should
+ * be using it. Each energy sample is checked against the room's schedule and
+ * seat sensors:
+ *
+ *   after_class       the session was ended during the room's class time
+ *   outside_schedule  no class is scheduled in the room
+ *   room_empty        a class is still open but every seat sensor is empty
+ *
+ * Consecutive wasteful samples build the room's open incident at
+ * /IdleEnergy/{roomKey}/open, integrating the kWh and its cost. One that lasts
+ * alertAfterMinutes alerts facilities staff by email; when the room goes
+ * quiet it moves to /IdleEnergy/{roomKey}/history/{startKey}. Shorter ones,
+ * such as lights left on while people file out, are dropped.
+ */
+
+const OPTIONS = { region: 'asia-southeast1' };
+
+const DEFAULT_BASELINE_WATTS = 30;
+const DEFAULT_ALERT_AFTER_MINUTES = 15;
+const DEFAULT_SCALING_FACTOR = 20;
+const DEFAULT_RATE_PER_KWH = 14;
+
+// Matches MAX_SAMPLE_GAP_MS in src/services/energyAccounting.ts: samples
+// further apart are not joined, so an incident whose room stops reporting
+// for this long has ended.
+const MAX_SAMPLE_GAP_MS = 5 * 60 * 1000;
+const SETTINGS_TTL_MS = 10 * 60 * 1000;
+const LOCAL_UTC_OFFSET_MS = 8 * 60 * 60 * 1000;
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Mirrors the types in src/types/rtdb.ts.
+type IdleEnergyReason = 'after_class' | 'outside_schedule' | 'room_empty';
+
+interface IdleEnergyIncident {
+  roomKey: string;
+  roomName: string;
+  reason: IdleEnergyReason;
+  startKey: string;
+  startedAt: number;
+  lastAt: number;
+  lastPowerW: number;
+  peakPowerW: number;
+  // As the prototype's PZEM measured it; the wasted figures are scaled to the room.
+  measuredKWh: number;
+  measuredCost: number;
+  scalingFactor: number;
+  wastedKWh: number;
+  wastedCost: number;
+  alertedAt?: number;
+  endedAt?: number;
+}
+
+interface TariffPeriod {
+  startHour: number;
+  endHour: number;
+  ratePerKWh: number;
+  weekdaysOnly: boolean;
+}
+
+interface ScheduleSlot {
+  roomName: string;
+  day: string;
+  startTime: string;
+  endTime: string;
+}
+
+interface IdleContext {
+  baselineWatts: number;
+  alertAfterMinutes: number;
+  tariff: { kind: string; ratePerKWh: number; periods: TariffPeriod[] };
+  slots: ScheduleSlot[];
+}
+
+const idleRoom = (roomKey: string) => getDatabase().ref(`IdleEnergy/${roomKey}`);
+
+// Settings and schedules change rarely; warm instances reuse them for a while
+// rather than reading them for every sample.
+let cachedContext: { loadedAt: number; context: IdleContext } | null = null;
+
+const loadContext = async (): Promise<IdleContext> => {
+  if (cachedContext && Date.now() - cachedContext.loadedAt < SETTINGS_TTL_MS) return cachedContext.context;
+  const firestore = getFirestore();
+  const [idleSettings, tariff, teachers] = await Promise.all([
+    firestore.collection('settings').doc('idleEnergy').get(),
+    firestore.collection('settings').doc('energyTariff').get(),
+    firestore.collection('teachers').get(),
+  ]);
+  const settings = idleSettings.data();
+  const rates = tariff.data();
+  const periods = rates?.periods;
+  const slots: ScheduleSlot[] = [];
+  teachers.docs.forEach((teacher) =>
+    (teacher.data().assignedSubjects || []).forEach((subject: any) =>
+      (subject.sections || []).forEach((section: any) =>
+        (section.schedules || []).forEach((schedule: any) => {
+          if (schedule?.roomName && schedule.day && schedule.startTime && schedule.endTime) slots.push(schedule);
+        })
+      )
+    )
+  );
+  const context: IdleContext = {
+    baselineWatts: Number(settings?.baselineWatts) >= 0 ? Number(settings?.baselineWatts) : DEFAULT_BASELINE_WATTS,
+    alertAfterMinutes:
+      Number(settings?.alertAfterMinutes) >= 1 ? Number(settings?.alertAfterMinutes) : DEFAULT_ALERT_AFTER_MINUTES,
+    tariff: {
+      kind: rates?.kind || 'flat',
+      ratePerKWh: Number(rates?.ratePerKWh) >= 0 ? Number(rates?.ratePerKWh) : DEFAULT_RATE_PER_KWH,
+      periods: Array.isArray(periods) ? periods : [],
+    },
+    slots,
+  };
+  cachedContext = { loadedAt: Date.now(), context };
+  return context;
+};
+
+// Mirrors rateAt in src/services/energyAccounting.ts.
+const rateAt = (tariff: IdleContext['tariff'], at: number): number => {
+  const local = new Date(at + LOCAL_UTC_OFFSET_MS);
+  const hour = local.getUTCHours();
+  const day = local.getUTCDay();
+  const period =
+    tariff.kind === 'time_of_use'
+      ? tariff.periods.find((candidate) => {
+          if (candidate.weekdaysOnly && (day === 0 || day === 6)) return false;
+          return candidate.startHour <= candidate.endHour
+            ? hour >= candidate.startHour && hour < candidate.endHour
+            : hour >= candidate.startHour || hour < candidate.endHour;
+        })
+      : undefined;
+  return period ? period.ratePerKWh : tariff.ratePerKWh;
+};
+
+// Schedule times are local "HH:MM"; sample keys are local YYYYMMDDHHMMSS.
+const scheduledAt = (slots: ScheduleSlot[], roomName: string, timeKey: string): boolean => {
+  const day = DAYS[new Date(Date.UTC(+timeKey.slice(0, 4), +timeKey.slice(4, 6) - 1, +timeKey.slice(6, 8))).getUTCDay()];
+  const time = `${timeKey.slice(8, 10)}:${timeKey.slice(10, 12)}`;
+  return slots.some(
+    (slot) => slot.roomName === roomName && slot.day === day && time >= slot.startTime && time <= slot.endTime
+  );
+};
+
+const roomDocument = async (roomName: string) =>
+  (await getFirestore().collection('rooms').where('name', '==', roomName).limit(1).get()).docs[0];
+
+// Seat sensors are keyed by the room's document id, or its name for
+// sessions started without one. Rooms without sensors count as occupied.
+const roomIsEmpty = async (roomId: string | undefined, roomName: string): Promise<boolean> => {
+  for (const key of [roomId, roomName]) {
+    if (!key) continue;
+    const sensors = (await getDatabase().ref(`WeightSensors/${key}`).get()).val();
+    if (sensors && typeof sensors === 'object') {
+      return Object.values(sensors).every((sensor: any) => !sensor?.occupied);
+    }
+  }
+  return false;
+};
+
+// Moves the open incident to history, if it lasted long enough to alert on.
+// With `before`, only an incident last seen before then is closed.
+const closeIncident = async (roomKey: string, before?: number): Promise<void> => {
+  let closed = null as IdleEnergyIncident | null;
+  await idleRoom(roomKey)
+    .child('open')
+    .transaction((open: IdleEnergyIncident | null) => {
+      closed = null;
+      if (!open) return null;
+      if (before !== undefined && open.lastAt >= before) return undefined;
+      closed = open;
+      return null;
+    });
+  const incident = closed as IdleEnergyIncident | null;
+  if (incident?.alertedAt) {
+    await idleRoom(roomKey)
+      .child(`history/${incident.startKey}`)
+      .set({ ...incident, endedAt: incident.lastAt });
+  }
+};
+
+const extendIncident = (
+  open: IdleEnergyIncident | null,
+  sample: { roomKey: string; roomName: string; reason: IdleEnergyReason; timeKey: string; at: number; power: number },
+  rate: number,
+  scalingFactor: number
+): IdleEnergyIncident | undefined => {
+  if (!open) {
+    return {
+      roomKey: sample.roomKey,
+      roomName: sample.roomName,
+      reason: sample.reason,
+      startKey: sample.timeKey,
+      startedAt: sample.at,
+      lastAt: sample.at,
+      lastPowerW: sample.power,
+      peakPowerW: sample.power,
+      measuredKWh: 0,
+      measuredCost: 0,
+      scalingFactor,
+      wastedKWh: 0,
+      wastedCost: 0,
+    };
+  }
+  // Late samples were already covered by the trapezoid they fall inside.
+  if (sample.at <= open.lastAt) return undefined;
+  const kWh = ((open.lastPowerW + sample.power) / 2) * ((sample.at - open.lastAt) / 3600000) / 1000;
+  const measuredKWh = open.measuredKWh + kWh;
+  const measuredCost = open.measuredCost + kWh * rate;
+  return {
+    ...open,
+    lastAt: sample.at,
+    lastPowerW: sample.power,
+    peakPowerW: Math.max(open.peakPowerW, sample.power),
+    measuredKWh,
+    measuredCost,
+    scalingFactor,
+    wastedKWh: measuredKWh * scalingFactor,
+    wastedCost: measuredCost * scalingFactor,
+  };
+};
+
+export const trackIdleEnergy = onValueCreated(
+  { ref: '/EnergySeries/{roomKey}/samples/{day}/{time}', ...OPTIONS },
+  async (event) => {
+    const { roomKey, day, time } = event.params;
+    if (!/^\d{8}$/.test(day) || !/^\d{6}$/.test(time)) return;
+    const raw = event.data.val() || {};
+    const source = String(raw.source || '');
+    // Session-end copies say nothing about what followed. An admin in the
+    // room means it is in use.
+    if (!['idle', 'class', 'admin'].includes(source)) return;
+
+    const timeKey = `${day}${time}`;
+    const at = parseDeviceTime(timeKey, Date.now());
+    const power = Number(raw.power) > 0 ? Number(raw.power) : 0;
+    const roomName = String(raw.room || roomKey);
+    const context = await loadContext();
+
+    let reason: IdleEnergyReason | null = null;
+    let room: QueryDocumentSnapshot | undefined;
+    if (power > context.baselineWatts) {
+      if (source === 'idle') {
+        reason = scheduledAt(context.slots, roomName, timeKey) ? 'after_class' : 'outside_schedule';
+      } else if (source === 'class') {
+        room = await roomDocument(roomName);
+        if (await roomIsEmpty(room?.id, roomName)) reason = 'room_empty';
+      }
+    }
+
+    const existing = (await idleRoom(roomKey).child('open').get()).val() as IdleEnergyIncident | null;
+    if (!reason) {
+      if (existing) await closeIncident(roomKey, at);
+      return;
+    }
+    // A room that went quiet in between starts a new incident.
+    if (existing && (at - existing.lastAt > MAX_SAMPLE_GAP_MS || existing.reason !== reason)) {
+      await closeIncident(roomKey, at);
+    }
+
+    room = room || (await roomDocument(roomName));
+    const factor = Number(room?.data().energyCalibration?.scalingFactor);
+    const scalingFactor = Number.isFinite(factor) && factor > 0 ? factor : DEFAULT_SCALING_FACTOR;
+    const rate = rateAt(context.tariff, at);
+    const wasteful = { roomKey, roomName, reason, timeKey, at, power };
+    await idleRoom(roomKey)
+      .child('open')
+      .transaction((open: IdleEnergyIncident | null) => extendIncident(open, wasteful, rate, scalingFactor));
+  }
+);
+
+// Facilities staff: admins and anyone holding manage_rooms across all departments.
+const facilitiesEmails = async (): Promise<string[]> => {
+  const firestore = getFirestore();
+  const [admins, teachers] = await Promise.all([firestore.collection('users').get(), firestore.collection('teachers').get()]);
+  return [...admins.docs, ...teachers.docs]
+    .filter((doc) => holdsGlobalPermission(doc.data(), 'manage_rooms'))
+    .map((doc) => doc.data().email || '');
+};
+
+const REASON_TEXT: Record<IdleEnergyReason, string> = {
+  after_class: 'after the class ended',
+  outside_schedule: 'outside class time',
+  room_empty: 'with every seat empty',
+};
+
+const formatLocal = (millis: number) => new Date(millis).toLocaleString('en-US', { timeZone: 'Asia/Manila' });
+
+// Ends incidents whose room stopped reporting and alerts on the ones that
+// have run for alertAfterMinutes.
+export const alertIdleEnergy = onSchedule(
+  { schedule: 'every 5 minutes', timeZone: 'Asia/Manila', ...OPTIONS },
+  async () => {
+    const { alertAfterMinutes } = await loadContext();
+    const now = Date.now();
+    const rooms = Object.keys((await getDatabase().ref('EnergyRooms').get()).val() || {});
+    const due: IdleEnergyIncident[] = [];
+
+    for (const roomKey of rooms) {
+      const open = (await idleRoom(roomKey).child('open').get()).val() as IdleEnergyIncident | null;
+      if (!open) continue;
+      if (now - open.lastAt > MAX_SAMPLE_GAP_MS) {
+        await closeIncident(roomKey, now - MAX_SAMPLE_GAP_MS);
+        continue;
+      }
+      if (open.alertedAt || open.lastAt - open.startedAt < alertAfterMinutes * 60 * 1000) continue;
+      // Only the first run to claim an incident alerts on it.
+      const claim = await idleRoom(roomKey)
+        .child('open/alertedAt')
+        .transaction((alertedAt) => (alertedAt ? undefined : now));
+      if (!claim.committed) continue;
+      due.push(open);
+      await recordAuditEvent({
+        category: 'system',
+        action: 'idle_energy_detected',
+        outcome: 'warning',
+        occurredAt: open.startedAt,
+        actor: { type: 'system', id: 'idle-energy' },
+        target: { type: 'room', id: roomKey, name: open.roomName },
+        room: open.roomName,
+        summary:
+          `${open.roomName} has drawn up to ${open.peakPowerW.toFixed(0)} W ${REASON_TEXT[open.reason]} ` +
+          `since ${formatLocal(open.startedAt)}`,
+        source: `/IdleEnergy/${roomKey}/open`,
+        details: { reason: open.reason, wastedKWh: open.wastedKWh, wastedCost: open.wastedCost },
+      });
+    }
+    if (due.length === 0) return;
+
+    try {
+      const lines = due.map(
+        (incident) =>
+          `- ${incident.roomName}: drawing ${incident.lastPowerW.toFixed(0)} W ${REASON_TEXT[incident.reason]} ` +
+          `since ${formatLocal(incident.startedAt)}; about ${incident.wastedKWh.toFixed(2)} kWh ` +
+          `(PHP ${incident.wastedCost.toFixed(2)}) wasted so far`
+      );
+      await notifyStaff(
+        await facilitiesEmails(),
+        `SmartEcoLock: ${due.length} room${due.length === 1 ? '' : 's'} using power while idle`,
+        `These rooms have kept drawing power for over ${alertAfterMinutes} minutes with nobody using them:\n\n` +
+          `${lines.join('\n')}\n\nSwitch their loads off, or check the Energy Usage page for details.`
+      );
+    } catch (error) {
+      logger.error('Failed to notify facilities of idle rooms', error);
+    }
+  }
+);
@@ -0,0 +1,54 @@
+import { initializeApp } from 'firebase-admin/app';
+
+initializeApp();
+
+export { getRegistrationStatus, registerAccount, reviewRegistration } from './registration';
+export { mirrorAdminAccess, mirrorInstructorAccess } from './access';
+export { getDepartmentOverview } from './department';
+export { refreshClaims, setUserRole, syncAdminClaims, syncInstructorClaims, syncStudentClaims } from './claims';
+export { revokeUserSessions } from './sessions';
+export {
+  confirmMfaEnrollment,
+  disableMfa,
+  regenerateRecoveryCodes,
+  resetMfa,
+  startMfaEnrollment,
+  verifyMfa,
+} from './mfa';
+export { sealAuditLog, verifyAuditLog } from './audit';
+export {
+  closeAttendanceSession,
+  finalizeAttendanceSessions,
+  getMyAttendanceHistory,
+  openAttendanceSessions,
+} from './attendanceSessions';
+export { scanProxyTaps } from './proxyTaps';
+export { expireTemporaryCards } from './rfidCards';
+export {
+  auditAccessLog,
+  auditAdminAccounts,
+  auditInstructorAccessLog,
+  auditInstructorProfiles,
+  auditLegacySecurityLog,
+  auditOfflineLog,
+  auditRegistrations,
+  auditRooms,
+  auditSettings,
+  auditStudentProfiles,
+  auditSystemLog,
+  auditTamperAlert,
+  auditUnregisteredCard,
+  auditUserSession,
+} from './auditTriggers';
+export {
+  acknowledgeTamperIncident,
+  addTamperIncidentNote,
+  assignTamperIncident,
+  closeTamperIncident,
+  escalateTamperIncidents,
+  setTamperIncidentRoom,
+  trackOfflineTamperLog,
+  trackTamperAlert,
+} from './tamperIncidents';
+export { captureAdminEnergy, captureSessionEnergy, pruneEnergySamples, rollupEnergySample } from './energySeries';
+export { alertIdleEnergy, trackIdleEnergy } from './idleEnergy';
@@ -0,0 +1,295 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { getAuth } from 'firebase-admin/auth';
+import { FieldValue, getFirestore } from 'firebase-admin/firestore';
+import { CallableRequest, HttpsError, onCall } from 'firebase-functions/v2/https';
+import { assertAdmin, secondFactorVerified } from './admins';
+import { AuditEvent, recordAuditEvent } from './audit';
+import { mergeClaims } from './claims';
+
+/**
+ * TOTP second factor (RFC 6238), kept in mfa/{uid}, which no client can read.
+ * Passing it stamps the `mfaAuthTime` claim with the sign-in's `auth_time`,
+ * so the security rules and assertAdmin can tell this sign-in was verified.
+ * Being plain callables and claims, it runs unchanged against the emulators.
+ */
+interface MfaRecord {
+  secret?: string;
+  pendingSecret?: string;
+  enrolledAt?: number;
+  // Last accepted time step; a code is never accepted twice.
+  lastStep?: number;
+  // SHA-256 of each unused recovery code.
+  recoveryCodes?: string[];
+  failedAttempts?: number;
+  lockedUntil?: number;
+  resetAt?: number;
+  resetBy?: { uid: string; fullName: string };
+}
+
+const ISSUER = 'SmartEcoLock';
+const STAFF_ROLES = ['admin', 'instructor'];
+const STEP_MS = 30 * 1000;
+const RECOVERY_CODE_COUNT = 10;
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const BASE32 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// Errors are returned rather than thrown so a failed attempt is still saved.
+type VerifyOutcome =
+  | { error: HttpsError; locked?: boolean }
+  | { error?: undefined; recoveryCodesLeft: number; usedRecoveryCode: boolean };
+
+const records = () => getFirestore().collection('mfa');
+
+const toBase32 = (bytes: Buffer): string => {
+  let bits = '';
+  bytes.forEach((byte) => {
+    bits += byte.toString(2).padStart(8, '0');
+  });
+  return (bits.match(/.{1,5}/g) || []).map((chunk) => BASE32[parseInt(chunk.padEnd(5, '0'), 2)]).join('');
+};
+
+const fromBase32 = (text: string): Buffer => {
+  const bits = text
+    .split('')
+    .map((char) => BASE32.indexOf(char).toString(2).padStart(5, '0'))
+    .join('');
+  return Buffer.from((bits.match(/.{8}/g) || []).map((byte) => parseInt(byte, 2)));
+};
+
+const codeAt = (secret: string, step: number): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(step / 2 ** 32), 0);
+  counter.writeUInt32BE(step % 2 ** 32, 4);
+  const hmac = createHmac('sha1', fromBase32(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 1000000;
+  return String(binary).padStart(6, '0');
+};
+
+// Allows one step of clock drift either way on the user's phone.
+const matchingStep = (secret: string, code: string, now: number = Date.now()): number | null => {
+  if (!/^\d{6}$/.test(code)) return null;
+  const current = Math.floor(now / STEP_MS);
+  for (const step of [current - 1, current, current + 1]) {
+    if (timingSafeEqual(Buffer.from(codeAt(secret, step)), Buffer.from(code))) return step;
+  }
+  return null;
+};
+
+const normalizeCode = (code: unknown) => String(code || '').replace(/[\s-]/g, '').toUpperCase();
+
+const hashRecoveryCode = (code: string) => createHash('sha256').update(normalizeCode(code)).digest('hex');
+
+const newRecoveryCodes = (): { codes: string[]; hashes: string[] } => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = toBase32(randomBytes(7)).slice(0, 10);
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+};
+
+const requireStaff = (auth: CallableRequest['auth']) => {
+  if (!auth) {
+    throw new HttpsError('unauthenticated', 'Sign in first');
+  }
+  if (!STAFF_ROLES.includes(auth.token.role)) {
+    throw new HttpsError('permission-denied', 'Two-step sign-in is for admin and instructor accounts');
+  }
+  return auth;
+};
+
+type StaffAuth = ReturnType<typeof requireStaff>;
+
+const recordMfaEvent = (auth: StaffAuth, event: Pick<AuditEvent, 'action' | 'outcome' | 'summary'>) =>
+  recordAuditEvent({
+    ...event,
+    category: 'auth',
+    occurredAt: Date.now(),
+    actor: { type: 'user', id: auth.uid, name: auth.token.name || auth.token.email, role: auth.token.role },
+    source: `mfa/${auth.uid}`,
+  });
+
+const readRecord = async (uid: string): Promise<MfaRecord | undefined> =>
+  (await records().doc(uid).get()).data() as MfaRecord | undefined;
+
+/**
+ * Removes the second factor. Admins are then sent to set it up again at
+ * their next page load; instructors simply sign in with their password.
+ */
+export const clearSecondFactor = async (uid: string, resetBy?: { uid: string; fullName: string }): Promise<void> => {
+  await records()
+    .doc(uid)
+    .set({ resetAt: Date.now(), ...(resetBy ? { resetBy } : {}) });
+  await mergeClaims(uid, { mfaEnrolled: undefined, mfaAuthTime: undefined });
+};
+
+/**
+ * Begins setup with a fresh secret, which only becomes the account's once a
+ * code from it is confirmed. Replacing an existing authenticator needs this
+ * sign-in to have passed the current one.
+ */
+export const startMfaEnrollment = onCall({ region: 'asia-southeast1' }, async (request) => {
+  const auth = requireStaff(request.auth);
+  const record = await readRecord(auth.uid);
+  if (record?.secret && !secondFactorVerified(auth.token)) {
+    throw new HttpsError('failed-precondition', 'Verify with your current authenticator before replacing it');
+  }
+
+  const secret = toBase32(randomBytes(20));
+  await records().doc(auth.uid).set({ pendingSecret: secret }, { merge: true });
+  const label = encodeURIComponent(`${ISSUER}:${auth.token.email || auth.uid}`);
+  return {
+    secret,
+    otpauthUrl: `otpauth://totp/${label}?secret=${secret}&issuer=${ISSUER}&algorithm=SHA1&digits=6&period=30`,
+  };
+});
+
+export const confirmMfaEnrollment = onCall({ region: 'asia-southeast1' }, async (request) => {
+  const auth = requireStaff(request.auth);
+  const record = await readRecord(auth.uid);
+  if (!record?.pendingSecret) {
+    throw new HttpsError('failed-precondition', 'Start setting up two-step sign-in first');
+  }
+  const step = matchingStep(record.pendingSecret, normalizeCode(request.data?.code));
+  if (step === null) {
+    throw new HttpsError('invalid-argument', 'That code is not right. Check the time on your phone and try again.');
+  }
+
+  const { codes, hashes } = newRecoveryCodes();
+  await records().doc(auth.uid).set({
+    secret: record.pendingSecret,
+    enrolledAt: Date.now(),
+    lastStep: step,
+    recoveryCodes: hashes,
+    failedAttempts: 0,
+  });
+  // Confirming counts as passing the second step for this sign-in.
+  await mergeClaims(auth.uid, { mfaEnrolled: true, mfaAuthTime: auth.token.auth_time });
+  await recordMfaEvent(auth, { action: 'mfa_enrolled', outcome: 'success', summary: 'Turned on two-step sign-in' });
+  return { recoveryCodes: codes };
+});
+
+/**
+ * Checks a 6-digit code from the authenticator or, failing that, one of the
+ * recovery codes, which is used up. Five wrong codes lock the account out of
+ * this step for 15 minutes.
+ */
+export const verifyMfa = onCall({ region: 'asia-southeast1' }, async (request) => {
+  const auth = requireStaff(request.auth);
+  const code = normalizeCode(request.data?.code);
+  const ref = records().doc(auth.uid);
+
+  const outcome = await getFirestore().runTransaction(async (transaction): Promise<VerifyOutcome> => {
+    const record = (await transaction.get(ref)).data() as MfaRecord | undefined;
+    if (!record?.secret) {
+      return { error: new HttpsError('failed-precondition', 'Two-step sign-in is not set up for this account') };
+    }
+    const now = Date.now();
+    if (record.lockedUntil && record.lockedUntil > now) {
+      const minutes = Math.ceil((record.lockedUntil - now) / 60000);
+      return { error: new HttpsError('resource-exhausted', `Too many wrong codes. Try again in ${minutes} minutes.`) };
+    }
+
+    const recoveryCodes = record.recoveryCodes || [];
+    let accepted: Partial<MfaRecord> | null = null;
+    if (/^\d{6}$/.test(code)) {
+      const step = matchingStep(record.secret, code, now);
+      if (step !== null && step > (record.lastStep ?? -1)) accepted = { lastStep: step };
+    } else if (code && recoveryCodes.includes(hashRecoveryCode(code))) {
+      accepted = { recoveryCodes: recoveryCodes.filter((hash) => hash !== hashRecoveryCode(code)) };
+    }
+
+    if (!accepted) {
+      const failedAttempts = (record.failedAttempts || 0) + 1;
+      transaction.update(
+        ref,
+        failedAttempts >= MAX_FAILED_ATTEMPTS
+          ? { failedAttempts: 0, lockedUntil: now + LOCKOUT_MS }
+          : { failedAttempts }
+      );
+      return {
+        error: new HttpsError('invalid-argument', 'That code is not right'),
+        locked: failedAttempts >= MAX_FAILED_ATTEMPTS,
+      };
+    }
+    transaction.update(ref, { ...accepted, failedAttempts: 0, lockedUntil: FieldValue.delete() });
+    return {
+      recoveryCodesLeft: (accepted.recoveryCodes || recoveryCodes).length,
+      usedRecoveryCode: Boolean(accepted.recoveryCodes),
+    };
+  });
+
+  if (outcome.error) {
+    if (outcome.error.code === 'invalid-argument') {
+      await recordMfaEvent(auth, {
+        action: outcome.locked ? 'mfa_locked' : 'mfa_failed',
+        outcome: outcome.locked ? 'failure' : 'warning',
+        summary: outcome.locked ? 'Two-step sign-in locked after repeated wrong codes' : 'Wrong two-step sign-in code',
+      });
+    }
+    throw outcome.error;
+  }
+  await mergeClaims(auth.uid, { mfaEnrolled: true, mfaAuthTime: auth.token.auth_time });
+  await recordMfaEvent(auth, {
+    action: outcome.usedRecoveryCode ? 'mfa_recovery_code_used' : 'mfa_verified',
+    outcome: outcome.usedRecoveryCode ? 'warning' : 'success',
+    summary: outcome.usedRecoveryCode ? 'Passed two-step sign-in with a recovery code' : 'Passed two-step sign-in',
+  });
+  return { recoveryCodesLeft: outcome.recoveryCodesLeft };
+});
+
+export const regenerateRecoveryCodes = onCall({ region: 'asia-southeast1' }, async (request) => {
+  const auth = requireStaff(request.auth);
+  if (!secondFactorVerified(auth.token)) {
+    throw new HttpsError('failed-precondition', 'Complete two-step sign-in first');
+  }
+  const { codes, hashes } = newRecoveryCodes();
+  await records().doc(auth.uid).update({ recoveryCodes: hashes });
+  await recordMfaEvent(auth, { action: 'mfa_recovery_codes_replaced', outcome: 'success', summary: 'Replaced recovery codes' });
+  return { recoveryCodes: codes };
+});
+
+// Instructors may turn it off again; admins always need it.
+export const disableMfa = onCall({ region: 'asia-southeast1' }, async (request) => {
+  const auth = requireStaff(request.auth);
+  if (auth.token.role === 'admin') {
+    throw new HttpsError('failed-precondition', 'Admin accounts must keep two-step sign-in on');
+  }
+  if (!secondFactorVerified(auth.token)) {
+    throw new HttpsError('failed-precondition', 'Complete two-step sign-in first');
+  }
+  await clearSecondFactor(auth.uid);
+  await recordMfaEvent(auth, { action: 'mfa_disabled', outcome: 'warning', summary: 'Turned off two-step sign-in' });
+  return { disabled: true };
+});
+
+// For staff who lost both their phone and their recovery codes.
+export const resetMfa = onCall({ region: 'asia-southeast1' }, async (request) => {
+  const admin = await assertAdmin(request.auth);
+  const { uid } = (request.data || {}) as { uid?: string };
+  if (!uid) {
+    throw new HttpsError('invalid-argument', 'A uid is required');
+  }
+  if (uid === admin.uid) {
+    throw new HttpsError('failed-precondition', 'Another admin has to reset your two-step sign-in');
+  }
+  let user;
+  try {
+    user = await getAuth().getUser(uid);
+  } catch {
+    throw new HttpsError('not-found', 'No account with that uid');
+  }
+  await clearSecondFactor(uid, admin);
+  await recordAuditEvent({
+    category: 'admin_action',
+    action: 'mfa_reset',
+    outcome: 'warning',
+    occurredAt: Date.now(),
+    actor: { type: 'user', id: admin.uid, name: admin.fullName, role: 'admin' },
+    target: { type: 'user', id: uid, name: user.displayName || user.email },
+    summary: `${admin.fullName || 'An admin'} reset two-step sign-in for ${user.displayName || user.email || uid}`,
+    source: `mfa/${uid}`,
+  });
+  return { reset: true };
+});
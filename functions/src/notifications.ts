@@ -0,0 +1,20 @@
+import { getFirestore } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+
+// Queued in `mail` in the shape the Trigger Email extension sends from. A
+// notification that fails to queue is logged; it never undoes the decision.
+const queueMail = async (to: string | string[], subject: string, text: string): Promise<void> => {
+  try {
+    await getFirestore().collection('mail').add({ to, message: { subject, text }, createdAt: new Date().toISOString() });
+  } catch (error) {
+    logger.error(`Failed to queue notification for ${to}`, error);
+  }
+};
+
+export const notifyApplicant = (to: string, subject: string, text: string): Promise<void> => queueMail(to, subject, text);
+
+// One message to every address; staff without an email are skipped.
+export const notifyStaff = async (to: string[], subject: string, text: string): Promise<void> => {
+  const recipients = Array.from(new Set(to.filter(Boolean)));
+  if (recipients.length > 0) await queueMail(recipients, subject, text);
+};
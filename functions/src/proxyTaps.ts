@@ -0,0 +1,245 @@
+import { getDatabase } from 'firebase-admin/database';
+import { logger } from 'firebase-functions';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import {
+  AttendanceSession,
+  SessionIndexEntry,
+  deviceMillis,
+  normalizeRecord,
+  sessionFirmwareKeys,
+  sessionIndexEntry,
+  tapOwner,
+} from './attendanceSessions';
+
+/**
+ * Door taps are scanned for signs of proxy attendance every few minutes:
+ *
+ *   - tap_burst: several cards tapped in one session within seconds of each
+ *     other while fewer seats in the room turned occupied;
+ *   - impossible_travel: one card tapped in two rooms closer together than
+ *     anyone could walk between them.
+ *
+ * Each finding is raised once at /ProxyTapCases/{caseId} for the session's
+ * instructor to review. The detection mirrors src/services/proxyTapDetection.ts.
+ */
+
+const OPTIONS = { region: 'asia-southeast1' };
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const LOCAL_UTC_OFFSET_MS = 8 * 60 * 60 * 1000;
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Mirrors the constants in src/services/proxyTapDetection.ts and
+// src/services/presenceVerification.ts.
+const BURST_GAP_MS = 10 * 1000;
+const MIN_ROOM_TRANSIT_MS = 3 * MINUTE;
+const PROXY_SCAN_LOOKBACK_MS = DAY;
+const PRESENCE_WINDOW_MS = 2 * MINUTE;
+
+// Mirrors the types in src/types/rtdb.ts.
+type ProxyPattern = 'tap_burst' | 'impossible_travel';
+
+interface ScheduleEntry {
+  day: string;
+  startTime: string;
+  endTime: string;
+  roomName: string;
+}
+
+interface WeightSensor {
+  occupied: boolean;
+  updatedAt: number;
+}
+
+interface ProxyTap {
+  rfidUid: string;
+  studentName: string;
+  sessionId: string;
+  roomId: string;
+  tappedAt: number;
+  instructorUid: string;
+}
+
+interface ProxyTapCandidate {
+  id: string;
+  pattern: ProxyPattern;
+  taps: Omit<ProxyTap, 'instructorUid'>[];
+  instructorUids: string[];
+  occupiedSeats?: number;
+}
+
+// Mirrors scheduledRoomAt in src/services/proxyTapDetection.ts on the local clock.
+const scheduledRoomAt = (schedules: unknown[], at: number): string => {
+  const local = new Date(at + LOCAL_UTC_OFFSET_MS);
+  const day = DAYS[local.getUTCDay()];
+  const time = `${local.getUTCHours().toString().padStart(2, '0')}:${local.getUTCMinutes().toString().padStart(2, '0')}`;
+  const schedule = (schedules as ScheduleEntry[]).find(
+    (candidate) => candidate && candidate.day === day && candidate.startTime <= time && time <= candidate.endTime
+  );
+  const roomName: unknown = schedule?.roomName;
+  return typeof roomName === 'string' ? roomName : '';
+};
+
+// Mirrors collectTaps in src/services/proxyTapDetection.ts.
+const collectTaps = (
+  students: Record<string, { Attendance?: Record<string, unknown> }>,
+  sessions: Record<string, AttendanceSession>,
+  since: number
+): ProxyTap[] => {
+  const byFirmwareKey: Record<string, Record<string, SessionIndexEntry>> = {};
+  Object.values(sessions).forEach((session) =>
+    sessionFirmwareKeys(session).forEach((key) => {
+      byFirmwareKey[key] = { ...byFirmwareKey[key], [session.id]: sessionIndexEntry(session) };
+    })
+  );
+
+  const taps: ProxyTap[] = [];
+  Object.entries(students).forEach(([rfidUid, student]) => {
+    Object.entries(student?.Attendance || {}).forEach(([key, raw]) => {
+      const record = normalizeRecord(raw);
+      if (!record || record.attendanceInfo.status.toLowerCase() === 'absent') return;
+      const tappedAt = deviceMillis(record.attendanceInfo.timeIn || record.attendanceInfo.timestamp);
+      if (tappedAt === null || tappedAt < since) return;
+      const owner = byFirmwareKey[key] ? tapOwner(byFirmwareKey[key], tappedAt) : null;
+      const session = sessions[record.attendanceInfo.sessionId] || sessions[key] || (owner ? sessions[owner] : undefined);
+      // A finalized session keeps its own copy of the door tap.
+      if (session && key !== session.id && student.Attendance?.[session.id]) return;
+      const roomId = session ? session.roomId : scheduledRoomAt(record.allSchedules, tappedAt);
+      if (!roomId) return;
+      taps.push({
+        rfidUid,
+        studentName: record.personalInfo.fullName,
+        sessionId: session ? session.id : key,
+        roomId,
+        tappedAt,
+        instructorUid: session ? session.instructor.uid : '',
+      });
+    });
+  });
+  return taps;
+};
+
+// Mirrors findTapBursts in src/services/proxyTapDetection.ts.
+const findTapBursts = (taps: ProxyTap[], now: number): ProxyTap[][] => {
+  const bySession: Record<string, ProxyTap[]> = {};
+  taps.forEach((tap) => {
+    (bySession[tap.sessionId] = bySession[tap.sessionId] || []).push(tap);
+  });
+
+  const bursts: ProxyTap[][] = [];
+  Object.values(bySession).forEach((sessionTaps) => {
+    const sorted = [...sessionTaps].sort((a, b) => a.tappedAt - b.tappedAt);
+    let current: ProxyTap[] = [];
+    sorted.forEach((tap) => {
+      if (current.length > 0 && tap.tappedAt - current[current.length - 1].tappedAt > BURST_GAP_MS) {
+        if (current.length > 1) bursts.push(current);
+        current = [];
+      }
+      current.push(tap);
+    });
+    if (current.length > 1) bursts.push(current);
+  });
+  return bursts.filter((burst) => now - burst[burst.length - 1].tappedAt > PRESENCE_WINDOW_MS);
+};
+
+// Mirrors findImpossibleTravel in src/services/proxyTapDetection.ts.
+const findImpossibleTravel = (taps: ProxyTap[]): ProxyTap[][] => {
+  const byCard: Record<string, ProxyTap[]> = {};
+  taps.forEach((tap) => {
+    (byCard[tap.rfidUid] = byCard[tap.rfidUid] || []).push(tap);
+  });
+
+  const pairs: ProxyTap[][] = [];
+  Object.values(byCard).forEach((cardTaps) => {
+    const sorted = [...cardTaps].sort((a, b) => a.tappedAt - b.tappedAt);
+    for (let i = 1; i < sorted.length; i++) {
+      const [previous, next] = [sorted[i - 1], sorted[i]];
+      if (previous.roomId !== next.roomId && next.tappedAt - previous.tappedAt < MIN_ROOM_TRANSIT_MS) {
+        pairs.push([previous, next]);
+      }
+    }
+  });
+  return pairs;
+};
+
+const toCandidate = (
+  id: string,
+  pattern: ProxyPattern,
+  taps: ProxyTap[],
+  extra: Partial<ProxyTapCandidate> = {}
+): ProxyTapCandidate => ({
+  id,
+  pattern,
+  taps: taps.map(({ instructorUid, ...evidence }) => evidence),
+  instructorUids: Array.from(new Set(taps.map((tap) => tap.instructorUid).filter(Boolean))),
+  ...extra,
+});
+
+const weightSensors = async (roomId: string): Promise<WeightSensor[]> => {
+  const raw = (await getDatabase().ref(`WeightSensors/${roomId}`).get()).val() || {};
+  return (Object.values(raw) as WeightSensor[]).filter(
+    (sensor) => sensor && typeof sensor.occupied === 'boolean' && typeof sensor.updatedAt === 'number'
+  );
+};
+
+// Mirrors detectProxyTaps in src/services/proxyTapDetection.ts, reading each
+// room's seat sensors as its bursts need them.
+const detectProxyTaps = async (taps: ProxyTap[], now: number): Promise<ProxyTapCandidate[]> => {
+  const candidates: ProxyTapCandidate[] = [];
+  const sensorsByRoom: Record<string, WeightSensor[]> = {};
+
+  for (const burst of findTapBursts(taps, now)) {
+    const roomId = burst[0].roomId;
+    const sensors = (sensorsByRoom[roomId] = sensorsByRoom[roomId] || (await weightSensors(roomId)));
+    if (sensors.length === 0) continue;
+    const from = burst[0].tappedAt - PRESENCE_WINDOW_MS;
+    const to = burst[burst.length - 1].tappedAt + PRESENCE_WINDOW_MS;
+    const occupiedSeats = sensors.filter(
+      (sensor) => sensor.occupied && sensor.updatedAt >= from && sensor.updatedAt <= to
+    ).length;
+    if (occupiedSeats < burst.length) {
+      candidates.push(
+        toCandidate(`burst_${burst[0].sessionId}_${burst[0].tappedAt}`, 'tap_burst', burst, { occupiedSeats })
+      );
+    }
+  }
+
+  findImpossibleTravel(taps).forEach((pair) => {
+    candidates.push(toCandidate(`travel_${pair[0].rfidUid}_${pair[0].tappedAt}`, 'impossible_travel', pair));
+  });
+
+  return candidates;
+};
+
+// Raises the case unless an earlier scan already did; a reviewed case is left alone.
+const raiseCase = async (candidate: ProxyTapCandidate, now: number): Promise<void> => {
+  const id = candidate.id.replace(/[.#$[\]/]/g, '_');
+  const result = await getDatabase()
+    .ref(`ProxyTapCases/${id}`)
+    .transaction((current) => (current === null ? { ...candidate, id, detectedAt: now, status: 'open' } : undefined));
+  if (result.committed) logger.info(`Raised proxy tap case ${id}`);
+};
+
+export const scanProxyTaps = onSchedule(
+  { schedule: 'every 5 minutes', timeZone: 'Asia/Manila', ...OPTIONS },
+  async () => {
+    const now = Date.now();
+    const since = now - PROXY_SCAN_LOOKBACK_MS;
+    const db = getDatabase();
+    // Sessions that started up to a day before the lookback can still hold its taps.
+    const [students, sessions] = await Promise.all([
+      db.ref('Students').get(),
+      db.ref('AttendanceSessions').orderByChild('scheduledStart').startAt(since - DAY).get(),
+    ]);
+
+    const taps = collectTaps(students.val() || {}, sessions.val() || {}, since);
+    for (const candidate of await detectProxyTaps(taps, now)) {
+      try {
+        await raiseCase(candidate, now);
+      } catch (error) {
+        logger.error(`Failed to raise proxy tap case ${candidate.id}`, error);
+      }
+    }
+  }
+);
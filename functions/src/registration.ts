@@ -0,0 +1,270 @@
+import { getAuth } from 'firebase-admin/auth';
+import { getDatabase, ServerValue } from 'firebase-admin/database';
+import { getFirestore } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { assertAdmin, assertPermission } from './admins';
+import { notifyApplicant } from './notifications';
+
+export type RegistrationRole = 'admin' | 'instructor' | 'student';
+
+export interface RegistrationRequest {
+  email: string;
+  password: string;
+  fullName: string;
+  idNumber: string;
+  department: string;
+  role: RegistrationRole;
+  mobileNumber: string;
+  rfidUid: string;
+}
+
+const PROFILE_COLLECTIONS: Record<RegistrationRole, string> = {
+  admin: 'users',
+  instructor: 'teachers',
+  student: 'students',
+};
+
+// Admins register without a department, phone or (when none is waiting) card.
+const REQUIRED_FIELDS: Record<RegistrationRole, (keyof RegistrationRequest)[]> = {
+  admin: ['email', 'password', 'fullName', 'idNumber'],
+  instructor: ['email', 'password', 'fullName', 'idNumber', 'department', 'mobileNumber', 'rfidUid'],
+  student: ['email', 'password', 'fullName', 'idNumber', 'department', 'mobileNumber', 'rfidUid'],
+};
+
+const parseRequest = (data: unknown): RegistrationRequest => {
+  const input = (data || {}) as Record<string, unknown>;
+  const role = input.role as RegistrationRole;
+  if (!PROFILE_COLLECTIONS[role]) {
+    throw new HttpsError('invalid-argument', 'Role must be admin, instructor or student');
+  }
+  const missing = REQUIRED_FIELDS[role].filter(
+    (field) => typeof input[field] !== 'string' || !String(input[field]).trim()
+  );
+  if (missing.length > 0) {
+    throw new HttpsError('invalid-argument', `Missing ${missing.join(', ')}`);
+  }
+  const text = (field: keyof RegistrationRequest) => (typeof input[field] === 'string' ? String(input[field]).trim() : '');
+  return {
+    email: text('email').toLowerCase(),
+    password: String(input.password),
+    fullName: text('fullName'),
+    idNumber: text('idNumber'),
+    department: text('department'),
+    role,
+    mobileNumber: text('mobileNumber'),
+    rfidUid: text('rfidUid'),
+  };
+};
+
+// Steps already applied, undone newest first if a later one fails.
+type Undo = { step: string; run: () => Promise<unknown> };
+
+const rollback = async (undo: Undo[]) => {
+  for (const { step, run } of [...undo].reverse()) {
+    try {
+      await run();
+    } catch (error) {
+      // Keep going; the remaining steps are still worth undoing.
+      logger.error(`Failed to roll back ${step}`, error);
+    }
+  }
+};
+
+const toHttpsError = (error: unknown): HttpsError => {
+  if (error instanceof HttpsError) return error;
+  const code = (error as { code?: string })?.code;
+  if (code === 'auth/email-already-exists') {
+    return new HttpsError('already-exists', 'An account with this email already exists');
+  }
+  if (code === 'auth/invalid-password' || code === 'auth/invalid-email') {
+    return new HttpsError('invalid-argument', (error as Error).message);
+  }
+  logger.error('Registration failed', error);
+  return new HttpsError('internal', 'Registration failed; nothing was saved');
+};
+
+/**
+ * Creates a disabled Auth account, holds the card in `rfid/` as pending and
+ * files the application in `registrations/` for an admin to review. Any
+ * failure undoes the steps already taken, so a failed registration leaves
+ * neither an orphan account nor a claimed card.
+ */
+export const register = async (request: RegistrationRequest) => {
+  const auth = getAuth();
+  const rtdb = getDatabase();
+  const firestore = getFirestore();
+  const cardRef = request.rfidUid ? rtdb.ref(`rfid/${request.rfidUid}`) : null;
+
+  if (cardRef && (await cardRef.get()).exists()) {
+    throw new HttpsError('already-exists', `Card ${request.rfidUid} is already registered`);
+  }
+
+  const undo: Undo[] = [];
+  try {
+    const user = await auth.createUser({
+      email: request.email,
+      password: request.password,
+      displayName: request.fullName,
+      disabled: true,
+    });
+    undo.push({ step: 'auth account', run: () => auth.deleteUser(user.uid) });
+
+    if (cardRef) {
+      // The transaction is what stops two registrations racing for one card;
+      // the check above only fails fast.
+      const claim = await cardRef.transaction((current) =>
+        current === null
+          ? {
+              uid: user.uid,
+              role: request.role,
+              timestamp: ServerValue.TIMESTAMP,
+              status: 'pending',
+              kind: 'permanent',
+            }
+          : undefined
+      );
+      if (!claim.committed) {
+        throw new HttpsError('already-exists', `Card ${request.rfidUid} is already registered`);
+      }
+      undo.push({ step: 'card binding', run: () => cardRef.remove() });
+    }
+
+    const { password, ...application } = request;
+    const registrationRef = firestore.collection('registrations').doc(user.uid);
+    await registrationRef.create({
+      ...application,
+      uid: user.uid,
+      status: 'pending',
+      createdAt: new Date().toISOString(),
+    });
+    undo.push({ step: 'application', run: () => registrationRef.delete() });
+
+    if (request.rfidUid) {
+      await rtdb.ref(`Unregistered/${request.rfidUid}`).remove();
+    }
+
+    return { uid: user.uid };
+  } catch (error) {
+    await rollback(undo);
+    throw toHttpsError(error);
+  }
+};
+
+export interface ReviewRequest {
+  uid: string;
+  decision: 'approve' | 'reject';
+  reason?: string;
+}
+
+/**
+ * Approves or rejects a pending application. Approval writes the profile,
+ * activates the card and enables the account, rolling back if any step
+ * fails; rejection releases the card and deletes the account.
+ */
+export const review = async ({ uid, decision, reason }: ReviewRequest, reviewer: { uid: string; fullName: string }) => {
+  const auth = getAuth();
+  const rtdb = getDatabase();
+  const firestore = getFirestore();
+  const registrationRef = firestore.collection('registrations').doc(uid);
+
+  const snapshot = await registrationRef.get();
+  if (!snapshot.exists) {
+    throw new HttpsError('not-found', 'Registration not found');
+  }
+  const application = snapshot.data() as Omit<RegistrationRequest, 'password'> & { status: string };
+  if (application.status !== 'pending') {
+    throw new HttpsError('failed-precondition', `Registration was already ${application.status}`);
+  }
+  const cardRef = application.rfidUid ? rtdb.ref(`rfid/${application.rfidUid}`) : null;
+  const reviewed = { reviewedAt: new Date().toISOString(), reviewedBy: reviewer };
+
+  if (decision === 'reject') {
+    await registrationRef.update({ status: 'rejected', rejectionReason: reason || '', ...reviewed });
+    if (cardRef) {
+      // Only release the hold this application placed.
+      await cardRef.transaction((current) =>
+        current && current.uid === uid && current.status === 'pending' ? null : undefined
+      );
+    }
+    await auth.deleteUser(uid).catch((error) => logger.error(`Failed to delete rejected account ${uid}`, error));
+    await notifyApplicant(
+      application.email,
+      'SmartEcoLock registration rejected',
+      `Hello ${application.fullName},\n\nYour registration was not approved.${reason ? `\n\nReason: ${reason}` : ''}`
+    );
+    return { status: 'rejected' };
+  }
+
+  const undo: Undo[] = [];
+  try {
+    const profileRef = firestore.collection(PROFILE_COLLECTIONS[application.role]).doc(uid);
+    await profileRef.create({
+      uid,
+      fullName: application.fullName,
+      email: application.email,
+      idNumber: application.idNumber,
+      department: application.department,
+      role: application.role,
+      mobileNumber: application.mobileNumber,
+      rfidUid: application.rfidUid,
+      createdAt: new Date().toISOString(),
+    });
+    undo.push({ step: 'profile', run: () => profileRef.delete() });
+
+    if (cardRef) {
+      await cardRef.update({ status: 'active', updatedAt: Date.now() });
+      undo.push({ step: 'card activation', run: () => cardRef.update({ status: 'pending' }) });
+    }
+
+    await auth.updateUser(uid, { disabled: false });
+    undo.push({ step: 'account activation', run: () => auth.updateUser(uid, { disabled: true }) });
+
+    await registrationRef.update({ status: 'approved', ...reviewed });
+  } catch (error) {
+    await rollback(undo);
+    throw toHttpsError(error);
+  }
+
+  await notifyApplicant(
+    application.email,
+    'SmartEcoLock registration approved',
+    `Hello ${application.fullName},\n\nYour registration was approved. You can now sign in and use your RFID card.`
+  );
+  return { status: 'approved' };
+};
+
+export const registerAccount = onCall({ region: 'asia-southeast1' }, (request) =>
+  register(parseRequest(request.data))
+);
+
+// Lets the sign-in page tell applicants their application is still pending or
+// was turned down; applications themselves are only readable by their owner
+// and reviewers.
+export const getRegistrationStatus = onCall({ region: 'asia-southeast1' }, async (request) => {
+  const { idNumber } = (request.data || {}) as { idNumber?: unknown };
+  if (typeof idNumber !== 'string' || !idNumber.trim()) {
+    throw new HttpsError('invalid-argument', 'An ID number is required');
+  }
+  const found = await getFirestore()
+    .collection('registrations')
+    .where('idNumber', '==', idNumber.trim())
+    .limit(1)
+    .get();
+  const status = found.docs[0]?.data().status;
+  return { status: status === 'pending' || status === 'rejected' ? status : null };
+});
+
+export const reviewRegistration = onCall({ region: 'asia-southeast1' }, async (request) => {
+  const reviewer = await assertPermission(request.auth, 'approve_registrations');
+  const data = (request.data || {}) as Partial<ReviewRequest>;
+  if (!data.uid || (data.decision !== 'approve' && data.decision !== 'reject')) {
+    throw new HttpsError('invalid-argument', 'A registration uid and an approve or reject decision are required');
+  }
+  // Reviewers who are not admins cannot let in new admins.
+  const application = (await getFirestore().collection('registrations').doc(data.uid).get()).data();
+  if (application?.role === 'admin') {
+    await assertAdmin(request.auth);
+  }
+  return review({ uid: data.uid, decision: data.decision, reason: data.reason }, reviewer);
+});
@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it, mock } from 'node:test';
+import adminDatabase = require('firebase-admin/database');
+import { expireTemporaryCards } from './rfidCards';
+import { FakeDatabase } from './testing/fakeDatabase';
+
+const NOW = Date.UTC(2025, 2, 14, 2, 0, 0);
+
+describe('expireTemporaryCards', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('expires active temporary cards that have run out and stops the door admitting them', async () => {
+    const database = new FakeDatabase({
+      rfid: {
+        VISITOR: {
+          uid: '',
+          role: 'visitor',
+          status: 'active',
+          kind: 'temporary',
+          holderName: 'Guest',
+          expiresAt: NOW - 1,
+        },
+        LATER: { uid: '', role: 'visitor', status: 'active', kind: 'temporary', expiresAt: NOW + 60 * 1000 },
+        REVOKED: { uid: '', role: 'visitor', status: 'revoked', kind: 'temporary', expiresAt: NOW - 1 },
+        STUDENT: { uid: 'student-1', role: 'student', status: 'active', kind: 'permanent' },
+      },
+      RegisteredUIDs: { VISITOR: '2025_03_14_090000', LATER: '2025_03_14_090000', STUDENT: '2025_03_01_080000' },
+    });
+    mock.method(adminDatabase, 'getDatabase', () => database);
+    mock.method(Date, 'now', () => NOW);
+
+    await expireTemporaryCards.run({} as never);
+
+    assert.equal(database.val('rfid/VISITOR/status'), 'expired');
+    assert.equal(database.val('rfid/VISITOR/updatedAt'), NOW);
+    assert.equal(database.val('rfid/LATER/status'), 'active');
+    assert.equal(database.val('rfid/REVOKED/status'), 'revoked');
+    assert.deepEqual(Object.keys(database.val('RegisteredUIDs')), ['LATER', 'STUDENT']);
+    assert.deepEqual(Object.values(database.val('RFIDCardHistory/VISITOR')), [
+      { type: 'expired', at: NOW, holderUid: '', holderRole: 'visitor', holderName: 'Guest' },
+    ]);
+  });
+});
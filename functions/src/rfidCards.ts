@@ -0,0 +1,59 @@
+import { getDatabase } from 'firebase-admin/database';
+import { logger } from 'firebase-functions';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+
+/**
+ * Temporary cards issued from the RFID console run out at `expiresAt`. Every
+ * minute, each active one that has is marked expired, taken off
+ * /RegisteredUIDs so the door stops admitting it, and given an `expired`
+ * history entry, all in one update.
+ */
+
+const OPTIONS = { region: 'asia-southeast1' };
+
+// Mirrors `RTDBRfidCard` in src/types/rtdb.ts.
+interface RfidCard {
+  uid: string;
+  role: string;
+  status: string;
+  kind: 'permanent' | 'temporary';
+  holderName?: string;
+  expiresAt?: number;
+}
+
+export const findExpiredCards = (cards: Record<string, RfidCard>, now: number): string[] =>
+  Object.entries(cards)
+    .filter(([, card]) => card?.kind === 'temporary' && card.status === 'active' && (card.expiresAt ?? 0) <= now)
+    .map(([cardUid]) => cardUid);
+
+export const expireTemporaryCards = onSchedule(
+  { schedule: 'every 1 minutes', timeZone: 'Asia/Manila', ...OPTIONS },
+  async () => {
+    const now = Date.now();
+    const database = getDatabase();
+    const due = (await database.ref('rfid').orderByChild('expiresAt').startAt(0).endAt(now).get()).val() || {};
+
+    for (const cardUid of findExpiredCards(due, now)) {
+      const card = due[cardUid] as RfidCard;
+      const eventId = database.ref(`RFIDCardHistory/${cardUid}`).push().key as string;
+      const event = {
+        type: 'expired',
+        at: now,
+        holderUid: card.uid || '',
+        holderRole: card.role || '',
+        ...(card.holderName ? { holderName: card.holderName } : {}),
+      };
+      try {
+        await database.ref().update({
+          [`rfid/${cardUid}/status`]: 'expired',
+          [`rfid/${cardUid}/updatedAt`]: now,
+          [`RegisteredUIDs/${cardUid}`]: null,
+          [`RFIDCardHistory/${cardUid}/${eventId}`]: event,
+        });
+        logger.info(`Expired temporary card ${cardUid}`);
+      } catch (error) {
+        logger.error(`Failed to expire temporary card ${cardUid}`, error);
+      }
+    }
+  }
+);
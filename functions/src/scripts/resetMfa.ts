@@ -0,0 +1,31 @@
+/**
+ * Clears an account's two-step sign-in from the command line, for when the
+ * only admin has lost both their authenticator and recovery codes. Takes the
+ * same emulator variables as set-role:
+ *
+ *   GCLOUD_PROJECT=<project-id> npm run reset-mfa -- admin@example.com
+ */
+import { initializeApp } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { clearSecondFactor } from '../mfa';
+
+const main = async () => {
+  const [email] = process.argv.slice(2);
+  if (!email) {
+    console.error('Usage: npm run reset-mfa -- <email>');
+    process.exit(1);
+  }
+  initializeApp({
+    databaseURL:
+      process.env.FIREBASE_DATABASE_URL ||
+      `http://${process.env.FIREBASE_DATABASE_EMULATOR_HOST}?ns=${process.env.GCLOUD_PROJECT}-default-rtdb`,
+  });
+  const user = await getAuth().getUserByEmail(email);
+  await clearSecondFactor(user.uid);
+  console.log(`Two-step sign-in cleared for ${email}; they set it up again at their next sign-in.`);
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
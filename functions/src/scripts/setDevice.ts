@@ -0,0 +1,32 @@
+/**
+ * Marks a door controller's account as a device, the identity the database
+ * rules let register cards and resolve tamper alerts. Create the account with
+ * the email and password flashed into the firmware first, then, with the same
+ * emulator variables as set-role:
+ *
+ *   GCLOUD_PROJECT=<project-id> npm run set-device -- door-controller@smartecolock.local
+ */
+import { initializeApp } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { mergeClaims } from '../claims';
+
+const main = async () => {
+  const [email] = process.argv.slice(2);
+  if (!email) {
+    console.error('Usage: npm run set-device -- <email>');
+    process.exit(1);
+  }
+  initializeApp({
+    databaseURL:
+      process.env.FIREBASE_DATABASE_URL ||
+      `http://${process.env.FIREBASE_DATABASE_EMULATOR_HOST}?ns=${process.env.GCLOUD_PROJECT}-default-rtdb`,
+  });
+  const user = await getAuth().getUserByEmail(email);
+  await mergeClaims(user.uid, { device: true });
+  console.log(`${email} is now a device account; the controller picks it up at its next sign-in.`);
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
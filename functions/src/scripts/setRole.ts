@@ -0,0 +1,33 @@
+/**
+ * Sets an account's role claim from the command line, e.g. to make the first
+ * admin. Against the emulator:
+ *
+ *   FIREBASE_AUTH_EMULATOR_HOST=127.0.0.1:9099 \
+ *   FIREBASE_DATABASE_EMULATOR_HOST=127.0.0.1:9000 \
+ *   FIRESTORE_EMULATOR_HOST=127.0.0.1:8080 \
+ *   GCLOUD_PROJECT=<project-id> npm run set-role -- admin@example.com admin
+ */
+import { initializeApp } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { setRole, UserRole, USER_ROLES } from '../claims';
+
+const main = async () => {
+  const [email, role] = process.argv.slice(2);
+  if (!email || !USER_ROLES.includes(role as UserRole)) {
+    console.error(`Usage: npm run set-role -- <email> <${USER_ROLES.join('|')}>`);
+    process.exit(1);
+  }
+  initializeApp({
+    databaseURL:
+      process.env.FIREBASE_DATABASE_URL ||
+      `http://${process.env.FIREBASE_DATABASE_EMULATOR_HOST}?ns=${process.env.GCLOUD_PROJECT}-default-rtdb`,
+  });
+  const user = await getAuth().getUserByEmail(email);
+  const claims = await setRole(user.uid, role as UserRole);
+  console.log(`${email} now has`, claims);
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,57 @@
+import { getAuth } from 'firebase-admin/auth';
+import { getDatabase } from 'firebase-admin/database';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { assertAdmin } from './admins';
+import { recordAuditEvent } from './audit';
+
+/**
+ * Signs a user out everywhere, e.g. after a lost card or a leaked password.
+ * Revoking the refresh tokens stops new ID tokens being issued; marking each
+ * /UserSessions record revoked makes open browsers sign out straight away
+ * instead of when their current token expires.
+ */
+export const revokeUserSessions = onCall({ region: 'asia-southeast1' }, async (request) => {
+  const admin = await assertAdmin(request.auth);
+  const { uid, email } = (request.data || {}) as { uid?: string; email?: string };
+  if (!uid && !email) {
+    throw new HttpsError('invalid-argument', 'A uid or email is required');
+  }
+
+  const auth = getAuth();
+  const user =
+    (uid && (await auth.getUser(uid).catch(() => null))) ||
+    (email && (await auth.getUserByEmail(email).catch(() => null))) ||
+    null;
+  if (!user) {
+    throw new HttpsError('not-found', 'No account found for this user');
+  }
+  if (user.uid === admin.uid) {
+    throw new HttpsError('failed-precondition', 'Use Sign out on your own sessions instead');
+  }
+
+  await auth.revokeRefreshTokens(user.uid);
+
+  const sessionsRef = getDatabase().ref(`UserSessions/${user.uid}`);
+  const sessions = (await sessionsRef.get()).val() || {};
+  const now = Date.now();
+  const revokedBy = { uid: admin.uid, fullName: admin.fullName, role: 'admin' };
+  const updates: Record<string, unknown> = {};
+  Object.keys(sessions).forEach((sessionId) => {
+    updates[`${sessionId}/revokedAt`] = now;
+    updates[`${sessionId}/revokedBy`] = revokedBy;
+  });
+  if (Object.keys(updates).length > 0) {
+    await sessionsRef.update(updates);
+  }
+  await recordAuditEvent({
+    category: 'admin_action',
+    action: 'sessions_revoked',
+    outcome: 'warning',
+    occurredAt: now,
+    actor: { type: 'user', id: admin.uid, name: admin.fullName, role: 'admin' },
+    target: { type: 'user', id: user.uid, name: user.displayName || user.email },
+    summary: `${admin.fullName || 'An admin'} signed ${user.displayName || user.email || user.uid} out everywhere`,
+    source: `UserSessions/${user.uid}`,
+  });
+  return { revoked: Object.keys(sessions).length };
+});
@@ -0,0 +1,450 @@
+import { getDatabase } from 'firebase-admin/database';
+import { getFirestore } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { onValueCreated, onValueWritten } from 'firebase-functions/v2/database';
+import { CallableRequest, HttpsError, onCall } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { holdsGlobalPermission } from './access';
+import { assertPermission } from './admins';
+import { AuditActor, AuditOutcome, recordAuditEvent } from './audit';
+import { deviceTimeKey, eventTime, parseDeviceTime } from './deviceTime';
+import { notifyStaff } from './notifications';
+
+/**
+ * Tamper incidents wrap the firmware's tamper alerts (/Alerts/Tamper) and
+ * offline tamper logs (/OfflineDataLogging) in a record staff work through:
+ * acknowledge, assign, add notes and photos, and close with a root cause.
+ * Both copies of one event share the device's start time, which keys the
+ * incident. One nobody acknowledges in time is escalated by email to every
+ * responder. Only these functions write /TamperIncidents.
+ */
+
+const OPTIONS = { region: 'asia-southeast1' };
+
+// Mirrors the types in src/types/rtdb.ts.
+export type TamperRootCause =
+  | 'forced_entry'
+  | 'vandalism'
+  | 'accidental'
+  | 'maintenance'
+  | 'hardware_fault'
+  | 'false_alarm'
+  | 'other';
+
+const ROOT_CAUSES: TamperRootCause[] = [
+  'forced_entry',
+  'vandalism',
+  'accidental',
+  'maintenance',
+  'hardware_fault',
+  'false_alarm',
+  'other',
+];
+
+interface Actor {
+  uid: string;
+  fullName: string;
+  role: string;
+}
+
+interface IncidentActivity {
+  type: 'detected' | 'acknowledged' | 'assigned' | 'room_set' | 'note' | 'escalated' | 'alarm_cleared' | 'closed';
+  at: number;
+  by?: Actor;
+  text?: string;
+  photoUrls?: string[];
+}
+
+interface TamperIncident {
+  id: string;
+  sources: string[];
+  detectedAt: number;
+  // When the incident reached the server; offline syncs can be hours late.
+  openedAt: number;
+  deviceId?: string;
+  roomId?: string;
+  roomName?: string;
+  status: 'open' | 'acknowledged' | 'closed';
+  acknowledgedBy?: Actor;
+  acknowledgedAt?: number;
+  assignee?: Actor;
+  escalatedAt?: number;
+  alarmClearedAt?: number;
+  closedBy?: Actor;
+  closedAt?: number;
+  rootCause?: TamperRootCause;
+  resolution?: string;
+  activity?: Record<string, IncidentActivity>;
+}
+
+interface Responder extends Actor {
+  email: string;
+}
+
+const DEFAULT_ESCALATE_AFTER_MINUTES = 15;
+const MAX_NOTE_LENGTH = 2000;
+const MAX_PHOTOS_PER_NOTE = 6;
+
+const incidents = () => getDatabase().ref('TamperIncidents');
+const incidentRef = (incidentId: string) => getDatabase().ref(`TamperIncidents/${incidentId}`);
+
+const addActivity = (incidentId: string, activity: IncidentActivity) =>
+  incidentRef(incidentId).child('activity').push(activity);
+
+// Admins, and staff holding resolve_tamper_alerts across all departments.
+const tamperResponders = async (): Promise<Responder[]> => {
+  const firestore = getFirestore();
+  const [admins, teachers] = await Promise.all([firestore.collection('users').get(), firestore.collection('teachers').get()]);
+  return [...admins.docs, ...teachers.docs]
+    .filter((doc) => holdsGlobalPermission(doc.data(), 'resolve_tamper_alerts'))
+    .map((doc) => {
+      const profile = doc.data();
+      return {
+        uid: profile.uid || doc.id,
+        fullName: profile.fullName || '',
+        role: profile.role || 'instructor',
+        email: profile.email || '',
+      };
+    });
+};
+
+const escalateAfterMinutes = async (): Promise<number> => {
+  const settings = (await getFirestore().collection('settings').doc('tamperIncidents').get()).data();
+  const minutes = Number(settings?.escalateAfterMinutes);
+  return minutes >= 1 ? minutes : DEFAULT_ESCALATE_AFTER_MINUTES;
+};
+
+// Rooms record the MAC address of the door controller guarding them.
+const roomForDevice = async (deviceId?: string): Promise<{ roomId?: string; roomName?: string }> => {
+  if (!deviceId) return {};
+  const snapshot = await getFirestore().collection('rooms').where('doorControllerId', '==', deviceId).limit(1).get();
+  const room = snapshot.docs[0];
+  return room ? { roomId: room.id, roomName: room.data().name || '' } : {};
+};
+
+const incidentIdFor = (startTime: unknown, fallback: string) => deviceTimeKey(startTime) || fallback;
+
+const recordIncidentEvent = (
+  incident: TamperIncident,
+  actor: AuditActor,
+  action: string,
+  summary: string,
+  outcome: AuditOutcome = 'success',
+  details?: Record<string, unknown>
+) =>
+  recordAuditEvent({
+    category: 'tamper',
+    action,
+    outcome,
+    occurredAt: Date.now(),
+    actor,
+    target: { type: 'tamper_incident', id: incident.id },
+    room: incident.roomName,
+    summary,
+    source: `/TamperIncidents/${incident.id}`,
+    details,
+  });
+
+const userActor = (actor: Actor): AuditActor => ({ type: 'user', id: actor.uid, name: actor.fullName, role: actor.role });
+
+const openIncident = async (
+  source: string,
+  startTime: unknown,
+  fallbackId: string,
+  detectedFallback: number,
+  deviceId?: string
+) => {
+  const id = incidentIdFor(startTime, fallbackId);
+  const room = await roomForDevice(deviceId);
+  const now = Date.now();
+  let created = false;
+  await incidentRef(id).transaction((current: TamperIncident | null) => {
+    created = !current;
+    if (!current) {
+      return {
+        id,
+        sources: [source],
+        detectedAt: parseDeviceTime(startTime, detectedFallback),
+        openedAt: now,
+        status: 'open',
+        ...(deviceId ? { deviceId } : {}),
+        ...room,
+      };
+    }
+    if ((current.sources || []).includes(source)) return undefined;
+    return {
+      ...current,
+      sources: [...(current.sources || []), source],
+      ...(deviceId && !current.deviceId ? { deviceId } : {}),
+      ...(current.roomId ? {} : room),
+    };
+  });
+  if (created) {
+    await addActivity(id, { type: 'detected', at: parseDeviceTime(startTime, detectedFallback), text: source });
+  }
+};
+
+// Tamper alerts: a new one opens an incident; the firmware marking it
+// resolved (an admin card at the door) clears the alarm but leaves the
+// incident for staff to close with a root cause.
+export const trackTamperAlert = onValueWritten({ ref: '/Alerts/Tamper/{alertId}', ...OPTIONS }, async (event) => {
+  const { alertId } = event.params;
+  const before = event.data.before.val();
+  const after = event.data.after.val();
+  if (!after) return;
+  const startTime = after.startTime || after.detectedAt || alertId;
+
+  if (!before) {
+    await openIncident(`/Alerts/Tamper/${alertId}`, startTime, alertId, eventTime(event), after.deviceId);
+  }
+  if (after.status === 'resolved' && before?.status !== 'resolved') {
+    const incidentId = incidentIdFor(startTime, alertId);
+    const incident = (await incidentRef(incidentId).get()).val() as TamperIncident | null;
+    if (!incident || incident.alarmClearedAt) return;
+    const clearedAt = parseDeviceTime(after.resolutionTime || after.endTime, eventTime(event));
+    const resolver = after.resolvedByFullName || after.resolverName;
+    await incidentRef(incidentId).update({ alarmClearedAt: clearedAt });
+    await addActivity(incidentId, {
+      type: 'alarm_cleared',
+      at: clearedAt,
+      text: resolver ? `Alarm cleared at the door by ${resolver}` : 'Alarm cleared at the door',
+    });
+  }
+});
+
+export const trackOfflineTamperLog = onValueCreated(
+  { ref: '/OfflineDataLogging/{logId}', ...OPTIONS },
+  async (event) => {
+    const { logId } = event.params;
+    const log = event.data.val() || {};
+    if (log.action !== 'TamperDetected') return;
+    await openIncident(`/OfflineDataLogging/${logId}`, log.timestamp, logId, eventTime(event));
+  }
+);
+
+export const escalateTamperIncidents = onSchedule(
+  { schedule: 'every 5 minutes', timeZone: 'Asia/Manila', ...OPTIONS },
+  async () => {
+    const minutes = await escalateAfterMinutes();
+    const now = Date.now();
+    const cutoff = now - minutes * 60 * 1000;
+    const open = (await incidents().orderByChild('status').equalTo('open').get()).val() || {};
+    const due = (Object.values(open) as TamperIncident[]).filter(
+      (incident) => !incident.escalatedAt && (incident.openedAt || incident.detectedAt) <= cutoff
+    );
+    if (due.length === 0) return;
+
+    for (const incident of due) {
+      await incidentRef(incident.id).update({ escalatedAt: now });
+      await addActivity(incident.id, { type: 'escalated', at: now, text: `Not acknowledged within ${minutes} minutes` });
+      await recordIncidentEvent(
+        incident,
+        { type: 'system', id: 'tamper-escalation' },
+        'tamper_incident_escalated',
+        `Tamper incident ${incident.id}${incident.roomName ? ` in ${incident.roomName}` : ''} not acknowledged within ${minutes} minutes`,
+        'failure'
+      );
+    }
+
+    try {
+      const responders = await tamperResponders();
+      const lines = due.map(
+        (incident) =>
+          `- ${new Date(incident.detectedAt).toLocaleString('en-US', { timeZone: 'Asia/Manila' })}` +
+          `${incident.roomName ? ` in ${incident.roomName}` : ''} (incident ${incident.id})`
+      );
+      await notifyStaff(
+        responders.map((responder) => responder.email),
+        `SmartEcoLock: ${due.length} unacknowledged tamper incident${due.length === 1 ? '' : 's'}`,
+        `These tamper incidents have not been acknowledged within ${minutes} minutes:\n\n${lines.join('\n')}\n\n` +
+          'Open Tamper Incidents in the admin console to acknowledge them.'
+      );
+    } catch (error) {
+      logger.error('Failed to notify responders of escalated tamper incidents', error);
+    }
+  }
+);
+
+// Callables, for admins and staff holding resolve_tamper_alerts.
+
+const responderFor = async (request: CallableRequest): Promise<Actor> => {
+  const { uid, fullName } = await assertPermission(request.auth, 'resolve_tamper_alerts');
+  return { uid, fullName, role: String(request.auth?.token.role || '') };
+};
+
+const loadIncident = async (incidentId: unknown): Promise<TamperIncident> => {
+  if (typeof incidentId !== 'string' || !incidentId || /[.#$[\]/]/.test(incidentId)) {
+    throw new HttpsError('invalid-argument', 'An incident id is required');
+  }
+  const incident = (await incidentRef(incidentId).get()).val() as TamperIncident | null;
+  if (!incident) {
+    throw new HttpsError('not-found', 'No such incident');
+  }
+  return incident;
+};
+
+const assertNotClosed = (incident: TamperIncident) => {
+  if (incident.status === 'closed') {
+    throw new HttpsError('failed-precondition', 'This incident is closed');
+  }
+};
+
+// Only the first acknowledgement counts, even when two arrive together. The
+// first pass may see null before the server value arrives, so only a known
+// later status aborts.
+const acknowledge = async (incident: TamperIncident, actor: Actor, now: number): Promise<boolean> => {
+  const result = await incidentRef(incident.id)
+    .child('status')
+    .transaction((status) => (status === 'acknowledged' || status === 'closed' ? undefined : 'acknowledged'));
+  if (!result.committed) return false;
+  await incidentRef(incident.id).update({ acknowledgedBy: actor, acknowledgedAt: now });
+  await addActivity(incident.id, { type: 'acknowledged', at: now, by: actor });
+  await recordIncidentEvent(
+    incident,
+    userActor(actor),
+    'tamper_incident_acknowledged',
+    `${actor.fullName || 'Staff'} acknowledged tamper incident ${incident.id}`
+  );
+  return true;
+};
+
+export const acknowledgeTamperIncident = onCall(OPTIONS, async (request) => {
+  const actor = await responderFor(request);
+  const incident = await loadIncident(request.data?.incidentId);
+  if (!(await acknowledge(incident, actor, Date.now()))) {
+    throw new HttpsError('failed-precondition', 'This incident has already been acknowledged');
+  }
+  return { status: 'acknowledged' };
+});
+
+// Assigning an open incident also acknowledges it.
+export const assignTamperIncident = onCall(OPTIONS, async (request) => {
+  const actor = await responderFor(request);
+  const incident = await loadIncident(request.data?.incidentId);
+  assertNotClosed(incident);
+  const { assigneeUid } = (request.data || {}) as { assigneeUid?: string };
+  const assignee = (await tamperResponders()).find((responder) => responder.uid === assigneeUid);
+  if (!assignee) {
+    throw new HttpsError('invalid-argument', 'Incidents can only be assigned to staff who can resolve tamper alerts');
+  }
+
+  const now = Date.now();
+  const { email, ...assigneeActor } = assignee;
+  if (incident.status === 'open') await acknowledge(incident, actor, now);
+  await incidentRef(incident.id).update({ assignee: assigneeActor });
+  await addActivity(incident.id, { type: 'assigned', at: now, by: actor, text: assignee.fullName });
+  await recordIncidentEvent(
+    incident,
+    userActor(actor),
+    'tamper_incident_assigned',
+    `${actor.fullName || 'Staff'} assigned tamper incident ${incident.id} to ${assignee.fullName}`,
+    'success',
+    { assigneeUid: assignee.uid }
+  );
+  if (assignee.uid !== actor.uid) {
+    await notifyStaff(
+      [email],
+      'SmartEcoLock: tamper incident assigned to you',
+      `Hello ${assignee.fullName},\n\n${actor.fullName || 'A colleague'} assigned you the tamper incident detected ` +
+        `${new Date(incident.detectedAt).toLocaleString('en-US', { timeZone: 'Asia/Manila' })}` +
+        `${incident.roomName ? ` in ${incident.roomName}` : ''}.`
+    );
+  }
+  return { assignee: assigneeActor };
+});
+
+// Photos are uploaded to Storage by the console first; notes carry their URLs.
+export const addTamperIncidentNote = onCall(OPTIONS, async (request) => {
+  const actor = await responderFor(request);
+  const incident = await loadIncident(request.data?.incidentId);
+  assertNotClosed(incident);
+  const { text, photoUrls } = (request.data || {}) as { text?: string; photoUrls?: string[] };
+  const note = String(text || '').trim();
+  const photos = Array.isArray(photoUrls) ? photoUrls : [];
+  if (!note && photos.length === 0) {
+    throw new HttpsError('invalid-argument', 'Add some text or a photo');
+  }
+  if (note.length > MAX_NOTE_LENGTH) {
+    throw new HttpsError('invalid-argument', `Notes are limited to ${MAX_NOTE_LENGTH} characters`);
+  }
+  if (photos.length > MAX_PHOTOS_PER_NOTE || photos.some((url) => typeof url !== 'string' || !url.startsWith('https://'))) {
+    throw new HttpsError('invalid-argument', `Attach up to ${MAX_PHOTOS_PER_NOTE} uploaded photos`);
+  }
+
+  await addActivity(incident.id, {
+    type: 'note',
+    at: Date.now(),
+    by: actor,
+    ...(note ? { text: note } : {}),
+    ...(photos.length > 0 ? { photoUrls: photos } : {}),
+  });
+  await recordIncidentEvent(
+    incident,
+    userActor(actor),
+    'tamper_incident_note_added',
+    `${actor.fullName || 'Staff'} added a note${photos.length > 0 ? ` with ${photos.length} photo(s)` : ''} to tamper incident ${incident.id}`
+  );
+  return { added: true };
+});
+
+// For offline alerts, which carry no device id, and controllers not yet
+// recorded on their room.
+export const setTamperIncidentRoom = onCall(OPTIONS, async (request) => {
+  const actor = await responderFor(request);
+  const incident = await loadIncident(request.data?.incidentId);
+  const { roomId } = (request.data || {}) as { roomId?: string };
+  if (!roomId) {
+    throw new HttpsError('invalid-argument', 'A room is required');
+  }
+  const room = await getFirestore().collection('rooms').doc(roomId).get();
+  if (!room.exists) {
+    throw new HttpsError('not-found', 'No such room');
+  }
+  const roomName = room.data()?.name || '';
+  await incidentRef(incident.id).update({ roomId, roomName });
+  await addActivity(incident.id, { type: 'room_set', at: Date.now(), by: actor, text: roomName });
+  await recordIncidentEvent(
+    { ...incident, roomName },
+    userActor(actor),
+    'tamper_incident_room_set',
+    `${actor.fullName || 'Staff'} placed tamper incident ${incident.id} in ${roomName}`
+  );
+  return { roomId, roomName };
+});
+
+export const closeTamperIncident = onCall(OPTIONS, async (request) => {
+  const actor = await responderFor(request);
+  const incident = await loadIncident(request.data?.incidentId);
+  assertNotClosed(incident);
+  const { rootCause, resolution } = (request.data || {}) as { rootCause?: TamperRootCause; resolution?: string };
+  const note = String(resolution || '').trim();
+  if (!rootCause || !ROOT_CAUSES.includes(rootCause)) {
+    throw new HttpsError('invalid-argument', 'Pick a root cause');
+  }
+  if (rootCause === 'other' && !note) {
+    throw new HttpsError('invalid-argument', 'Describe the root cause');
+  }
+  if (note.length > MAX_NOTE_LENGTH) {
+    throw new HttpsError('invalid-argument', `Notes are limited to ${MAX_NOTE_LENGTH} characters`);
+  }
+
+  const now = Date.now();
+  if (incident.status === 'open') await acknowledge(incident, actor, now);
+  await incidentRef(incident.id).update({
+    status: 'closed',
+    closedBy: actor,
+    closedAt: now,
+    rootCause,
+    ...(note ? { resolution: note } : {}),
+  });
+  await addActivity(incident.id, { type: 'closed', at: now, by: actor, text: note || rootCause });
+  await recordIncidentEvent(
+    incident,
+    userActor(actor),
+    'tamper_incident_closed',
+    `${actor.fullName || 'Staff'} closed tamper incident ${incident.id}: ${rootCause.replace(/_/g, ' ')}`,
+    'success',
+    { rootCause }
+  );
+  return { status: 'closed' };
+});
@@ -0,0 +1,161 @@
+/**
+ * An in-memory stand-in for the Admin SDK's Realtime Database, covering the
+ * calls the functions make, so tests can run a function's handler against
+ * plain data. Tests install it in place of getDatabase with node:test's
+ * mock.method.
+ */
+
+type Tree = Record<string, unknown>;
+
+const segments = (path: string) => path.split('/').filter(Boolean);
+
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+// Drops nulls and empty objects, which the real database does not store.
+const prune = (value: unknown): unknown => {
+  if (!value || typeof value !== 'object') return value ?? undefined;
+  const kept = Object.entries(value as Tree)
+    .map(([key, item]) => [key, prune(item)] as const)
+    .filter(([, item]) => item !== undefined);
+  return kept.length ? Object.fromEntries(kept) : undefined;
+};
+
+class FakeSnapshot {
+  constructor(readonly key: string | null, private readonly value: unknown) {}
+
+  val() {
+    return this.value === undefined ? null : clone(this.value);
+  }
+
+  exists() {
+    return this.value !== undefined && this.value !== null;
+  }
+}
+
+class FakeQuery {
+  constructor(
+    protected readonly database: FakeDatabase,
+    protected readonly path: string[],
+    private readonly filter: { child?: string; byKey?: boolean; equalTo?: unknown; startAt?: unknown; endAt?: unknown } = {}
+  ) {}
+
+  orderByChild(child: string) {
+    return new FakeQuery(this.database, this.path, { ...this.filter, child });
+  }
+
+  orderByKey() {
+    return new FakeQuery(this.database, this.path, { ...this.filter, byKey: true });
+  }
+
+  equalTo(value: unknown) {
+    return new FakeQuery(this.database, this.path, { ...this.filter, equalTo: value });
+  }
+
+  startAt(value: unknown) {
+    return new FakeQuery(this.database, this.path, { ...this.filter, startAt: value });
+  }
+
+  endAt(value: unknown) {
+    return new FakeQuery(this.database, this.path, { ...this.filter, endAt: value });
+  }
+
+  async get() {
+    const value = this.database.read(this.path);
+    const { child, byKey, equalTo, startAt, endAt } = this.filter;
+    if ((!child && !byKey) || !value || typeof value !== 'object') {
+      return new FakeSnapshot(this.path[this.path.length - 1] || null, value);
+    }
+    const matched = Object.entries(value as Tree).filter(([itemKey, item]) => {
+      const field = byKey ? itemKey : segments(child as string).reduce<unknown>((node, key) => (node as Tree)?.[key], item);
+      if (equalTo !== undefined && field !== equalTo) return false;
+      if (startAt !== undefined && (field === undefined || (field as number) < (startAt as number))) return false;
+      if (endAt !== undefined && (field === undefined || (field as number) > (endAt as number))) return false;
+      return true;
+    });
+    return new FakeSnapshot(this.path[this.path.length - 1] || null, matched.length ? Object.fromEntries(matched) : null);
+  }
+}
+
+class FakeReference extends FakeQuery {
+  get key() {
+    return this.path[this.path.length - 1] || null;
+  }
+
+  child(path: string) {
+    return new FakeReference(this.database, [...this.path, ...segments(path)]);
+  }
+
+  push(value?: unknown) {
+    const ref = this.child(this.database.nextPushId());
+    if (value !== undefined) this.database.write(ref.path, value);
+    return ref;
+  }
+
+  async set(value: unknown) {
+    this.database.write(this.path, value);
+  }
+
+  async update(values: Tree) {
+    Object.entries(values).forEach(([path, value]) => this.database.write([...this.path, ...segments(path)], value));
+  }
+
+  async remove() {
+    this.database.write(this.path, null);
+  }
+
+  async transaction(change: (current: any) => unknown) {
+    const next = change(clone(this.database.read(this.path) ?? null));
+    if (next === undefined) return { committed: false, snapshot: new FakeSnapshot(this.key, this.database.read(this.path)) };
+    this.database.write(this.path, next);
+    return { committed: true, snapshot: new FakeSnapshot(this.key, this.database.read(this.path)) };
+  }
+}
+
+export class FakeDatabase {
+  private root: Tree = {};
+  private pushCount = 0;
+
+  constructor(data: Tree = {}) {
+    this.write([], data);
+  }
+
+  ref(path = '') {
+    return new FakeReference(this, segments(path));
+  }
+
+  // The whole tree at `path`, for assertions.
+  val(path = ''): any {
+    return clone(this.read(segments(path))) ?? null;
+  }
+
+  nextPushId() {
+    this.pushCount += 1;
+    return `-push${String(this.pushCount).padStart(6, '0')}`;
+  }
+
+  read(path: string[]): unknown {
+    return path.reduce<unknown>((node, key) => (node && typeof node === 'object' ? (node as Tree)[key] : undefined), this.root);
+  }
+
+  // Like the real database, null removes a node and empty parents go with it.
+  write(path: string[], value: unknown) {
+    const stored = prune(clone(value));
+    if (path.length === 0) {
+      this.root = stored && typeof stored === 'object' ? (stored as Tree) : {};
+      return;
+    }
+    const parents: Tree[] = [this.root];
+    let node = this.root;
+    for (const key of path.slice(0, -1)) {
+      if (!node[key] || typeof node[key] !== 'object') node[key] = {};
+      node = node[key] as Tree;
+      parents.push(node);
+    }
+    const last = path[path.length - 1];
+    if (stored === undefined) delete node[last];
+    else node[last] = stored;
+    for (let i = parents.length - 1; i > 0; i--) {
+      if (Object.keys(parents[i]).length === 0) delete parents[i - 1][path[i - 1]];
+    }
+  }
+}
@@ -1,12 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { createUserWithEmailAndPassword } from 'firebase/auth';
-import { doc, setDoc } from 'firebase/firestore';
-import { ref, onValue, off, set } from 'firebase/database';
-import { auth, db, rtdb } from '../firebase';
+import { ref, onValue, off } from 'firebase/database';
+import { rtdb } from '../firebase';
 import { motion, AnimatePresence } from 'framer-motion';
 import { LockClosedIcon, CheckIcon, UserIcon, IdentificationIcon, EnvelopeIcon, KeyIcon, RssIcon, BellIcon } from '@heroicons/react/24/solid';
 import Swal from 'sweetalert2';
 import { useNavigate, Link } from 'react-router-dom';
+import { registerAccount } from '../services/registration';
 
 // Particle Background Component
 const ParticleBackground: React.FC = () => {
@@ -96,33 +95,22 @@ const AdminRegister: React.FC = () => {
         throw new Error('Please select an RFID UID');
       }
 
-      const userCredential = await createUserWithEmailAndPassword(
-        auth,
-        formData.email,
-        formData.password
-      );
-
-      await setDoc(doc(db, 'users', userCredential.user.uid), {
-        uid: userCredential.user.uid,
+      await registerAccount({
+        email: formData.email,
+        password: formData.password,
         fullName: formData.fullName,
         idNumber: formData.idNumber,
-        email: formData.email,
+        department: '',
         role: 'admin',
+        mobileNumber: '',
         rfidUid: formData.rfidUid,
-        createdAt: new Date().toISOString(),
       });
 
-      if (formData.rfidUid) {
-        const uidRef = ref(rtdb, `/Unregistered/${formData.rfidUid}`);
-        await set(uidRef, null);
-      }
-
-      Swal.fire({
+      await Swal.fire({
         icon: 'success',
-        title: 'Admin Registration Successful!',
-        text: 'Welcome to SmartEcoLock System',
-        showConfirmButton: false,
-        timer: 2000,
+        title: 'Admin Registration Submitted',
+        text: 'An existing admin must approve your account before you can sign in.',
+        confirmButtonColor: '#22d3ee',
         background: '#1e293b',
         iconColor: '#22d3ee',
       });
@@ -22,12 +22,17 @@ import {
   PencilIcon,
   AcademicCapIcon,
   ArrowsUpDownIcon,
-  ClockIcon
+  ClockIcon,
+  AdjustmentsHorizontalIcon,
 } from '@heroicons/react/24/outline';
 import Swal from 'sweetalert2';
 import AdminSidebar from '../components/AdminSidebar';
 import AddSectionModal from '../components/AddSectionModal';
 import AssignStudentsModal from '../components/AssignStudentsModal';
+import Modal from '../components/Modal';
+import AttendancePolicyFields from '../components/AttendancePolicyFields';
+import { resolveAttendancePolicy, validateAttendancePolicy } from '../services/attendancePolicy';
+import { AttendancePolicy } from '../types';
 
 interface Schedule {
   day: string;
@@ -51,6 +56,7 @@ interface Section {
   subjectId: string;
   schedules: Schedule[];
   createdAt: string;
+  attendancePolicy?: Partial<AttendancePolicy>;
 }
 
 interface Instructor {
@@ -89,6 +95,7 @@ interface Subject {
   prerequisites?: string[];
   learningObjectives?: string[];
   status?: 'active' | 'inactive';
+  attendancePolicy?: AttendancePolicy;
 }
 
 interface AddSectionData {
@@ -122,6 +129,8 @@ const AdminSectionPage = () => {
   const [isAssignModalOpen, setIsAssignModalOpen] = useState(false);
   const [selectedSection, setSelectedSection] = useState<Section | null>(null);
   const [expandedSection, setExpandedSection] = useState<string | null>(null);
+  const [policySection, setPolicySection] = useState<Section | null>(null);
+  const [policyOverride, setPolicyOverride] = useState<Partial<AttendancePolicy>>({});
 
   useEffect(() => {
     const unsubscribeFromSections = onSnapshot(
@@ -181,6 +190,7 @@ const AdminSectionPage = () => {
           prerequisites: doc.data().prerequisites || [],
           learningObjectives: doc.data().learningObjectives || [],
           status: doc.data().status || 'active',
+          attendancePolicy: doc.data().attendancePolicy,
         })) as Subject[];
         setSubjects(subjectsData);
       },
@@ -715,6 +725,39 @@ const AdminSectionPage = () => {
     }
   };
 
+  // Only the fields set here are stored; the rest keep following the subject.
+  const handleSavePolicy = async () => {
+    if (!policySection) return;
+    const subject = subjects.find((s) => s.id === policySection.subjectId);
+    const policyError = validateAttendancePolicy(resolveAttendancePolicy(subject?.attendancePolicy, policyOverride));
+    if (policyError) {
+      Swal.fire({
+        icon: 'error',
+        title: 'Invalid Attendance Policy',
+        text: policyError,
+      });
+      return;
+    }
+
+    try {
+      await updateDoc(doc(db, 'sections', policySection.id), { attendancePolicy: policyOverride });
+      setPolicySection(null);
+      Swal.fire({
+        icon: 'success',
+        title: 'Attendance Policy Saved',
+        showConfirmButton: false,
+        timer: 1500,
+      });
+    } catch (error) {
+      console.error('Error saving attendance policy:', error);
+      Swal.fire({
+        icon: 'error',
+        title: 'Error',
+        text: 'Failed to save attendance policy. Please try again.',
+      });
+    }
+  };
+
   const SkeletonCard = () => (
     <div className="bg-white p-6 rounded-xl shadow-md border border-gray-200 animate-pulse">
       <div className="h-6 w-32 bg-gray-200 rounded mb-2"></div>
@@ -958,6 +1001,16 @@ const AdminSectionPage = () => {
                         <PencilIcon className="w-4 h-4" />
                         <span className="hidden sm:inline">Edit</span>
                       </button>
+                      <button
+                        onClick={() => {
+                          setPolicySection(section);
+                          setPolicyOverride(section.attendancePolicy || {});
+                        }}
+                        className="flex-1 px-3 py-2 bg-indigo-500 text-white rounded-lg shadow hover:bg-indigo-600 active:bg-indigo-700 transition-colors duration-200 flex items-center justify-center gap-1 text-sm"
+                      >
+                        <AdjustmentsHorizontalIcon className="w-4 h-4" />
+                        <span className="hidden sm:inline">Policy</span>
+                      </button>
                       {!isExpanded && (
                         <button
                           onClick={() => {
@@ -1015,6 +1068,38 @@ const AdminSectionPage = () => {
         subjects={subjects}
         initialData={selectedSection ? { ...selectedSection, id: selectedSection.id } : undefined}
       />
+      <Modal
+        isOpen={!!policySection}
+        onClose={() => setPolicySection(null)}
+        title={`Attendance Policy: ${policySection?.name || ''}`}
+      >
+        <p className="text-xs text-gray-500 mb-4">
+          Leave a field blank to use the subject's value.
+        </p>
+        <AttendancePolicyFields
+          value={policyOverride}
+          onChange={setPolicyOverride}
+          inherited={resolveAttendancePolicy(
+            subjects.find((s) => s.id === policySection?.subjectId)?.attendancePolicy
+          )}
+        />
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            type="button"
+            onClick={() => setPolicySection(null)}
+            className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSavePolicy}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700"
+          >
+            Save Policy
+          </button>
+        </div>
+      </Modal>
       <AssignStudentsModal
         isOpen={isAssignModalOpen}
         onClose={() => setIsAssignModalOpen(false)}
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { collection, query, where, getDocs, orderBy, doc, updateDoc, deleteDoc, onSnapshot } from 'firebase/firestore';
+import { collection, query, where, getDocs, orderBy, onSnapshot } from 'firebase/firestore';
 import { ref, onValue, off } from 'firebase/database';
 import { db, rtdb } from '../firebase';
 import { useAuth } from './AuthContext';
@@ -14,11 +14,33 @@ import {
   ChartBarIcon,
   PencilIcon,
   TrashIcon,
+  ClipboardDocumentListIcon,
 } from '@heroicons/react/24/solid';
 import { motion } from 'framer-motion';
 import { toast } from 'react-hot-toast';
 import SeatPlanLayout from '../components/SeatPlanLayout';
+import ProxyTapReviewQueue from '../components/ProxyTapReviewQueue';
 import Swal from 'sweetalert2';
+import { escapeHtml } from '../utils/htmlUtils';
+import {
+  subscribeToAttendanceAppeals,
+  subscribeToAttendanceCorrections,
+  subscribeToAttendanceSessions,
+  subscribeToClassStatus,
+} from '../services/rtdbRepository';
+import {
+  correctAttendanceStatus,
+  deleteAttendanceRecordWithAudit,
+  reviewAttendanceAppeal,
+  STATUS_LABELS,
+} from '../services/attendanceCorrections';
+import {
+  FinalizedAttendanceStatus,
+  RTDBActor,
+  RTDBAttendanceAppeal,
+  RTDBAttendanceCorrection,
+  RTDBAttendanceSession,
+} from '../types/rtdb';
 
 interface Student {
   id: string;
@@ -162,6 +184,11 @@ const AttendanceManagement: React.FC = () => {
   const [rtdbRecords, setRtdbRecords] = useState<{ [key: string]: AttendanceRecordRTDB }>({});
   const [studentData, setStudentData] = useState<{ [key: string]: any }>({});
   const [attendanceFilter, setAttendanceFilter] = useState<'weekly' | 'monthly'>('weekly');
+  const [attendanceSessions, setAttendanceSessions] = useState<Record<string, RTDBAttendanceSession>>({});
+  const [corrections, setCorrections] = useState<
+    Record<string, Record<string, Record<string, RTDBAttendanceCorrection>>>
+  >({});
+  const [appeals, setAppeals] = useState<Record<string, RTDBAttendanceAppeal>>({});
 
   // Fetch instructor details from RTDB
   useEffect(() => {
@@ -204,7 +231,7 @@ const AttendanceManagement: React.FC = () => {
           name: doc.data().name || '',
           students: doc.data().students || [],
           instructorId: doc.data().instructorId || '',
-          room: doc.data().room || '',
+          room: doc.data().room || doc.data().schedules?.[0]?.roomName || '',
           subjectId: doc.data().subjectId || '',
         }));
         setSections(fetchedSections);
@@ -401,20 +428,19 @@ const AttendanceManagement: React.FC = () => {
   useEffect(() => {
     if (!currentUser?.uid) return;
 
-    const scheduleRef = ref(rtdb, `Instructors/${currentUser.uid}/ClassStatus/schedule`);
-    const unsubscribe = onValue(
-      scheduleRef,
-      (snapshot) => {
-        const data = snapshot.val();
+    const unsubscribe = subscribeToClassStatus(
+      currentUser.uid,
+      (classStatus) => {
+        const data = classStatus?.schedule;
         if (data) {
           setSchedules([
             {
-              day: data.day || '',
-              startTime: data.startTime || '',
-              endTime: data.endTime || '',
-              roomName: typeof data.roomName === 'string' ? data.roomName : data.roomName?.name || '',
+              day: data.day,
+              startTime: data.startTime,
+              endTime: data.endTime,
+              roomName: data.roomName.name,
               sectionId: sections.find((s) => s.name === data.section)?.id || '',
-              subjectCode: data.subjectCode || '',
+              subjectCode: data.subjectCode,
             },
           ]);
         } else {
@@ -427,11 +453,39 @@ const AttendanceManagement: React.FC = () => {
       }
     );
 
-    return () => off(scheduleRef, 'value', unsubscribe);
+    return () => unsubscribe();
   }, [currentUser, sections]);
 
+  // Sessions give each record an unambiguous class window
+  useEffect(() => {
+    const unsubscribe = subscribeToAttendanceSessions(setAttendanceSessions, (error) => {
+      console.error('Error fetching attendance sessions:', error);
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  // Correction history and student appeals
+  useEffect(() => {
+    const unsubscribeCorrections = subscribeToAttendanceCorrections(setCorrections, (error) => {
+      console.error('Error fetching attendance corrections:', error);
+    });
+    const unsubscribeAppeals = subscribeToAttendanceAppeals(setAppeals, (error) => {
+      console.error('Error fetching attendance appeals:', error);
+      toast.error('Failed to load attendance appeals');
+    });
+
+    return () => {
+      unsubscribeCorrections();
+      unsubscribeAppeals();
+    };
+  }, []);
+
   // Check if class has ended
   const hasClassEnded = (record: AttendanceRecordRTDB): boolean => {
+    const session = attendanceSessions[record.attendanceInfo.sessionId];
+    if (session) return Date.now() >= session.scheduledEnd;
+
     if (!record.attendanceInfo.date) return false;
 
     const recordDate = new Date(record.attendanceInfo.date.replace(/_/g, '-'));
@@ -487,6 +541,16 @@ const AttendanceManagement: React.FC = () => {
     }
   };
 
+  // When a record belongs to a session, date it by the session's start so a
+  // class crossing midnight is counted once, on the day it began.
+  const getRecordDate = (record: AttendanceRecordRTDB): Date => {
+    const session = attendanceSessions[record.attendanceInfo.sessionId];
+    if (session) return new Date(session.scheduledStart);
+    return record.attendanceInfo.timestamp && record.attendanceInfo.timestamp !== 'N/A'
+      ? parseRTDBTimestamp(record.attendanceInfo.timestamp)
+      : new Date(0);
+  };
+
   // Update the getAttendanceSummary function to use real-time data
   const getAttendanceSummary = (student: Student): AttendanceSummary => {
     console.log('Getting summary for student:', student); // Debug log
@@ -542,14 +606,14 @@ const AttendanceManagement: React.FC = () => {
     console.log('Processed records:', records); // Debug log
     
     const sortedRecords = records.sort((a, b) => {
-      const dateA = new Date(a[1].attendanceInfo?.timestamp || '');
-      const dateB = new Date(b[1].attendanceInfo?.timestamp || '');
+      const dateA = getRecordDate(a[1]);
+      const dateB = getRecordDate(b[1]);
       return dateB.getTime() - dateA.getTime();
     });
 
     // Weekly summary calculation
     const weeklyRecords = sortedRecords.filter(([_, record]) => {
-      const recordDate = new Date(record.attendanceInfo?.timestamp || '');
+      const recordDate = getRecordDate(record);
       const weekAgo = new Date();
       weekAgo.setDate(weekAgo.getDate() - 7);
       return recordDate >= weekAgo;
@@ -557,7 +621,7 @@ const AttendanceManagement: React.FC = () => {
 
     // Monthly summary calculation
     const monthlyRecords = sortedRecords.filter(([_, record]) => {
-      const recordDate = new Date(record.attendanceInfo?.timestamp || '');
+      const recordDate = getRecordDate(record);
       const monthAgo = new Date();
       monthAgo.setMonth(monthAgo.getMonth() - 1);
       return recordDate >= monthAgo;
@@ -581,56 +645,137 @@ const AttendanceManagement: React.FC = () => {
     return summary;
   };
 
-  // Edit attendance record (unchanged, but included for completeness)
-  const handleEditAttendance = async (recordId: string, currentStatus: string) => {
+  const getActor = (): RTDBActor => ({
+    uid: currentUser?.uid || '',
+    fullName: instructorDetails.fullName,
+    role: instructorDetails.role,
+  });
+
+  const askForReason = async (title: string): Promise<string | undefined> => {
+    const { value } = await Swal.fire({
+      title,
+      input: 'textarea',
+      inputPlaceholder: 'Reason for this change',
+      showCancelButton: true,
+      confirmButtonText: 'Save',
+      inputValidator: (value) => (!value?.trim() ? 'A reason is required' : null),
+    });
+    return value;
+  };
+
+  // Edit attendance record; the previous value is kept in the record's history
+  const handleEditAttendance = async (rfidUid: string, sessionId: string, currentStatus: string) => {
     const { value: newStatus } = await Swal.fire({
       title: 'Edit Attendance Status',
       input: 'select',
-      inputOptions: {
-        present: 'Present',
-        late: 'Late',
-        absent: 'Absent',
-      },
+      inputOptions: STATUS_LABELS,
       inputValue: currentStatus,
       showCancelButton: true,
-      confirmButtonText: 'Save',
+      confirmButtonText: 'Next',
     });
 
-    if (newStatus && newStatus !== currentStatus) {
-      try {
-        const recordRef = doc(db, 'attendanceRecords', recordId);
-        await updateDoc(recordRef, { status: newStatus });
-        toast.success('Attendance status updated');
-      } catch (error) {
-        console.error('Error updating attendance:', error);
-        toast.error('Failed to update attendance');
-      }
+    if (!newStatus || newStatus === currentStatus) return;
+    const reason = await askForReason('Why is this record being changed?');
+    if (!reason) return;
+
+    try {
+      await correctAttendanceStatus({
+        rfidUid,
+        sessionId,
+        status: newStatus as FinalizedAttendanceStatus,
+        reason,
+        actor: getActor(),
+      });
+      toast.success('Attendance status updated');
+    } catch (error) {
+      console.error('Error updating attendance:', error);
+      toast.error('Failed to update attendance');
     }
   };
 
-  // Delete attendance record (unchanged, but included for completeness)
-  const handleDeleteAttendance = async (recordId: string) => {
+  // Delete attendance record; the removed value is kept in the record's history
+  const handleDeleteAttendance = async (rfidUid: string, sessionId: string) => {
     const result = await Swal.fire({
       title: 'Delete Attendance Record',
-      text: 'This action cannot be undone.',
+      text: 'The record will be removed. Its last value stays in the correction history.',
       icon: 'warning',
       showCancelButton: true,
       confirmButtonColor: '#ef4444',
       confirmButtonText: 'Delete',
     });
+    if (!result.isConfirmed) return;
 
-    if (result.isConfirmed) {
-      try {
-        const recordRef = doc(db, 'attendanceRecords', recordId);
-        await deleteDoc(recordRef);
-        toast.success('Attendance record deleted');
-      } catch (error) {
-        console.error('Error deleting attendance:', error);
-        toast.error('Failed to delete attendance');
-      }
+    const reason = await askForReason('Why is this record being deleted?');
+    if (!reason) return;
+
+    try {
+      await deleteAttendanceRecordWithAudit({ rfidUid, sessionId, reason, actor: getActor() });
+      toast.success('Attendance record deleted');
+    } catch (error) {
+      console.error('Error deleting attendance:', error);
+      toast.error('Failed to delete attendance');
+    }
+  };
+
+  const handleShowHistory = (rfidUid: string, sessionId: string) => {
+    const history = Object.values(corrections[rfidUid]?.[sessionId] || {}).sort(
+      (a, b) => b.changedAt - a.changedAt
+    );
+    const rows = history
+      .map(
+        (entry) => `
+          <tr class="border-b">
+            <td class="p-2">${new Date(entry.changedAt).toLocaleString()}</td>
+            <td class="p-2">${escapeHtml(entry.changedBy.fullName || entry.changedBy.uid)}</td>
+            <td class="p-2">${escapeHtml(entry.previous?.attendanceInfo.status || '-')} &rarr; ${
+              entry.action === 'delete' ? 'Deleted' : escapeHtml(entry.next?.attendanceInfo.status || '-')
+            }</td>
+            <td class="p-2">${escapeHtml(entry.reason)}</td>
+          </tr>`
+      )
+      .join('');
+
+    Swal.fire({
+      title: 'Correction History',
+      width: 720,
+      html: history.length
+        ? `<table class="w-full text-sm text-left"><thead><tr class="bg-gray-50">
+             <th class="p-2">When</th><th class="p-2">By</th><th class="p-2">Change</th><th class="p-2">Reason</th>
+           </tr></thead><tbody>${rows}</tbody></table>`
+        : '<p class="text-gray-500">This record has not been changed.</p>',
+    });
+  };
+
+  const handleReviewAppeal = async (appeal: RTDBAttendanceAppeal, decision: 'approved' | 'rejected') => {
+    const { value: note, isConfirmed } = await Swal.fire({
+      title: decision === 'approved' ? 'Approve Appeal' : 'Reject Appeal',
+      input: 'textarea',
+      inputPlaceholder: decision === 'approved' ? 'Optional note for the student' : 'Tell the student why',
+      showCancelButton: true,
+      confirmButtonText: decision === 'approved' ? 'Approve' : 'Reject',
+      inputValidator: (value) =>
+        decision === 'rejected' && !value?.trim() ? 'A reason is required to reject an appeal' : null,
+    });
+    if (!isConfirmed) return;
+
+    try {
+      await reviewAttendanceAppeal(appeal.id, decision, note || '', getActor());
+      toast.success(decision === 'approved' ? 'Appeal approved' : 'Appeal rejected');
+    } catch (error) {
+      console.error('Error reviewing appeal:', error);
+      toast.error('Failed to review appeal');
     }
   };
 
+  const pendingAppeals = useMemo(
+    () =>
+      Object.values(appeals)
+        .filter((appeal) => appeal.status === 'pending' && studentData[appeal.rfidUid])
+        .filter((appeal) => !selectedSection || !appeal.sectionId || appeal.sectionId === selectedSection)
+        .sort((a, b) => a.createdAt - b.createdAt),
+    [appeals, studentData, selectedSection]
+  );
+
   // Update the filtered students logic
   const filteredStudents = useMemo(() => {
     const section = sections.find((s) => s.id === selectedSection);
@@ -871,6 +1016,55 @@ const AttendanceManagement: React.FC = () => {
                 </button>
               </div>
 
+              {pendingAppeals.length > 0 && (
+                <div className="bg-white rounded-xl shadow-sm p-6">
+                  <h2 className="text-lg font-semibold text-gray-800 mb-4">
+                    Pending Attendance Appeals ({pendingAppeals.length})
+                  </h2>
+                  <div className="space-y-3">
+                    {pendingAppeals.map((appeal) => (
+                      <div
+                        key={appeal.id}
+                        className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 border border-amber-200 bg-amber-50 rounded-lg"
+                      >
+                        <div>
+                          <p className="font-medium text-gray-800">
+                            {appeal.studentName || studentData[appeal.rfidUid]?.fullName} &middot; {appeal.subjectCode}
+                          </p>
+                          <p className="text-sm text-gray-600">
+                            {appeal.currentStatus || 'Unknown'} &rarr; {STATUS_LABELS[appeal.requestedStatus]} &middot;{' '}
+                            {new Date(appeal.createdAt).toLocaleString()}
+                          </p>
+                          <p className="text-sm text-gray-700 mt-1">"{appeal.reason}"</p>
+                        </div>
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => handleShowHistory(appeal.rfidUid, appeal.sessionId)}
+                            className="px-3 py-1.5 text-sm bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                          >
+                            History
+                          </button>
+                          <button
+                            onClick={() => handleReviewAppeal(appeal, 'approved')}
+                            className="px-3 py-1.5 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700"
+                          >
+                            Approve
+                          </button>
+                          <button
+                            onClick={() => handleReviewAppeal(appeal, 'rejected')}
+                            className="px-3 py-1.5 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700"
+                          >
+                            Reject
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <ProxyTapReviewQueue instructorUid={currentUser?.uid} />
+
               <div className="bg-white rounded-xl shadow-sm p-6">
                 <h2 className="text-lg font-semibold text-gray-800 mb-4">Student Attendance Summaries</h2>
                 {filteredStudents.length === 0 ? (
@@ -1129,6 +1323,7 @@ const AttendanceManagement: React.FC = () => {
                                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time In</th>
                                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time Out</th>
                                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sensor</th>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
                                   </tr>
                                 </thead>
                                 <tbody className="bg-white divide-y divide-gray-200">
@@ -1182,11 +1377,43 @@ const AttendanceManagement: React.FC = () => {
                                           <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
                                             {record.attendanceInfo?.sensor || 'N/A'}
                                           </td>
+                                          <td className="px-4 py-3 whitespace-nowrap text-sm">
+                                            <div className="flex items-center gap-2">
+                                              <button
+                                                onClick={() =>
+                                                  handleEditAttendance(student.id, sessionId, record.attendanceInfo.status)
+                                                }
+                                                className="text-indigo-600 hover:text-indigo-800"
+                                                title="Edit status"
+                                              >
+                                                <PencilIcon className="w-4 h-4" />
+                                              </button>
+                                              <button
+                                                onClick={() => handleDeleteAttendance(student.id, sessionId)}
+                                                className="text-red-600 hover:text-red-800"
+                                                title="Delete record"
+                                              >
+                                                <TrashIcon className="w-4 h-4" />
+                                              </button>
+                                              <button
+                                                onClick={() => handleShowHistory(student.id, sessionId)}
+                                                className="flex items-center text-gray-500 hover:text-gray-700"
+                                                title="Correction history"
+                                              >
+                                                <ClipboardDocumentListIcon className="w-4 h-4" />
+                                                {Object.keys(corrections[student.id]?.[sessionId] || {}).length > 0 && (
+                                                  <span className="ml-1 text-xs">
+                                                    {Object.keys(corrections[student.id]?.[sessionId] || {}).length}
+                                                  </span>
+                                                )}
+                                              </button>
+                                            </div>
+                                          </td>
                                         </tr>
                                       ))
                                   ) : (
                                     <tr>
-                                      <td colSpan={8} className="px-4 py-3 text-center text-sm text-gray-500">
+                                      <td colSpan={9} className="px-4 py-3 text-center text-sm text-gray-500">
                                         No attendance records found
                                       </td>
                                     </tr>
@@ -1,4 +1,4 @@
-import React, { createContext, useState, useContext, useEffect } from 'react';
+import React, { createContext, useState, useContext, useEffect, useCallback } from 'react';
 import {
   signInWithEmailAndPassword,
   createUserWithEmailAndPassword,
@@ -9,23 +9,28 @@ import {
 import { auth, db } from '../firebase';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { doc, getDoc, setDoc, collection, query, where, getDocs } from 'firebase/firestore';
+import { AccessRole, Permission } from '../types';
+import { canAccessPath, staffLandingPath } from '../services/permissions';
+import { getRoleClaims, RoleClaims } from '../services/claims';
+import { subscribeToClaimsRefresh } from '../services/rtdbRepository';
+import { endUserSession, recordActivity } from '../services/userSessions';
+import { secondFactorPending, secondFactorStatus, SecondFactorStatus } from '../services/mfa';
+
+const PROFILE_COLLECTIONS: Record<RoleClaims['role'], string> = {
+  admin: 'users',
+  instructor: 'teachers',
+  student: 'students',
+};
 
 // Enhanced user type with role and other properties
 interface EnrichedUser extends FirebaseUser {
   role?: 'admin' | 'instructor' | 'student';
   fullName?: string;
   department?: string;
-  adminPermissions?: boolean;
+  accessRole?: AccessRole | null;
+  permissions?: Permission[];
   idNumber?: string;
-}
-
-// Admin data structure
-interface AdminData {
-  id: string;
-  email: string;
-  idNumber: string;
-  role: string;
-  fullName: string;
+  secondFactor?: SecondFactorStatus;
 }
 
 // Auth context type definition
@@ -34,8 +39,9 @@ interface AuthContextType {
   login: (email: string, password: string) => Promise<void>;
   register: (email: string, password: string, userData: any) => Promise<void>;
   logout: () => Promise<void>;
+  // Re-reads role, access and two-step state from a fresh ID token.
+  refreshUser: () => Promise<void>;
   loading: boolean;
-  setUser: (user: { uid: string } & AdminData) => Promise<void>;
 }
 
 // Create context with default values
@@ -57,114 +63,43 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const navigate = useNavigate();
   const location = useLocation();
 
-  // Function to get user data from Firestore
-  const getUserData = async (user: FirebaseUser): Promise<EnrichedUser> => {
+  // Role and access come from the ID token's custom claims; the profile only
+  // supplies display details.
+  const getUserData = useCallback(async (user: FirebaseUser, forceRefresh: boolean = false): Promise<EnrichedUser> => {
     try {
-      // Check localStorage for cached data
-      const cachedUserData = localStorage.getItem('userData');
-      const cachedUserRole = localStorage.getItem('userRole');
-
-      if (cachedUserData && cachedUserRole) {
-        const userData = JSON.parse(cachedUserData);
-        return {
-          ...user,
-          role: cachedUserRole as 'admin' | 'instructor' | 'student',
-          fullName: userData.fullName,
-          department: userData.department,
-          idNumber: userData.idNumber,
-        };
-      }
-
-      // Check admin collection
-      const adminQuery = query(
-        collection(db, 'users'),
-        where('idNumber', '==', user.email?.split('@')[0]),
-        where('role', '==', 'admin')
-      );
-      const adminSnapshot = await getDocs(adminQuery);
-
-      if (!adminSnapshot.empty) {
-        const adminData = adminSnapshot.docs[0].data();
-        const enrichedUser = {
-          ...user,
-          role: 'admin' as 'admin',
-          fullName: adminData.fullName,
-          department: adminData.department,
-          idNumber: adminData.idNumber,
-        };
-
-        // Cache the user data
-        localStorage.setItem('userRole', 'admin');
-        localStorage.setItem(
-          'userData',
-          JSON.stringify({
-            fullName: adminData.fullName,
-            department: adminData.department,
-            idNumber: adminData.idNumber,
-          })
+      const claims = await getRoleClaims(user, forceRefresh);
+      if (!claims) return user;
+
+      const collectionName = PROFILE_COLLECTIONS[claims.role];
+      const profileDoc = await getDoc(doc(db, collectionName, user.uid));
+      let profile = profileDoc.exists() ? profileDoc.data() : undefined;
+      if (!profile && claims.role === 'admin') {
+        // Older admin profiles are not keyed by auth uid; match on ID number
+        const adminSnapshot = await getDocs(
+          query(collection(db, 'users'), where('idNumber', '==', user.email?.split('@')[0]))
         );
-
-        return enrichedUser;
+        profile = adminSnapshot.docs[0]?.data();
       }
 
-      // Check teachers collection
-      const teacherDoc = await getDoc(doc(db, 'teachers', user.uid));
-      if (teacherDoc.exists()) {
-        const userData = teacherDoc.data();
-        const enrichedUser = {
-          ...user,
-          role: 'instructor' as 'instructor',
-          fullName: userData.fullName,
-          department: userData.department,
-        };
-
-        // Cache the user data
-        localStorage.setItem('userRole', 'instructor');
-        localStorage.setItem(
-          'userData',
-          JSON.stringify({
-            fullName: userData.fullName,
-            department: userData.department,
-          })
-        );
-
-        return enrichedUser;
-      }
-
-      // Check students collection
-      const studentDoc = await getDoc(doc(db, 'students', user.uid));
-      if (studentDoc.exists()) {
-        const userData = studentDoc.data();
-        const enrichedUser = {
-          ...user,
-          role: 'student' as 'student',
-          fullName: userData.fullName,
-          department: userData.department,
-        };
-
-        // Cache the user data
-        localStorage.setItem('userRole', 'student');
-        localStorage.setItem(
-          'userData',
-          JSON.stringify({
-            fullName: userData.fullName,
-            department: userData.department,
-          })
-        );
-
-        return enrichedUser;
-      }
-
-      return user;
+      return {
+        ...user,
+        role: claims.role,
+        fullName: profile?.fullName,
+        department: claims.department ?? profile?.department,
+        idNumber: profile?.idNumber,
+        accessRole: claims.accessRole || null,
+        permissions: claims.permissions || [],
+        secondFactor: claims.role === 'student' ? 'none' : await secondFactorStatus(user, claims.role),
+      };
     } catch (error) {
       console.error('Error fetching user data:', error);
       return user;
     }
-  };
+  }, []);
 
   // Handle navigation based on user role
-  const handleNavigation = (user: EnrichedUser | null) => {
-    const currentPath = location.pathname;
+  const currentPath = location.pathname;
+  const handleNavigation = useCallback((user: EnrichedUser | null) => {
 
     // If no user, redirect to /login for protected routes
     if (!user) {
@@ -179,6 +114,12 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       return;
     }
 
+    // Nothing else opens until two-step sign-in is passed or set up.
+    if (secondFactorPending(user.secondFactor)) {
+      if (currentPath !== '/two-step') navigate('/two-step', { replace: true });
+      return;
+    }
+
     // If user is authenticated, redirect to role-specific dashboard
     const routes: Record<string, string> = {
       admin: '/admin/dashboard',
@@ -186,7 +127,11 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       student: '/student/dashboard',
     };
 
-    const targetRoute = user.role && routes[user.role];
+    // Staff reaching an admin page they may not open go to one they may.
+    const targetRoute =
+      currentPath.includes('/admin/') && user.role !== 'admin'
+        ? staffLandingPath(user) || (user.role && routes[user.role])
+        : user.role && routes[user.role];
 
     // Redirect only if on public path or wrong role path
     if (
@@ -195,13 +140,13 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         currentPath === '/login' ||
         currentPath === '/admin/login' ||
         currentPath === '/register' ||
-        (currentPath.includes('/admin/') && user.role !== 'admin') ||
+        (currentPath.includes('/admin/') && !canAccessPath(user, currentPath)) ||
         (currentPath.includes('/instructor/') && user.role !== 'instructor') ||
         (currentPath.includes('/student/') && user.role !== 'student'))
     ) {
       navigate(targetRoute, { replace: true });
     }
-  };
+  }, [currentPath, navigate]);
 
   // Auth state listener
   useEffect(() => {
@@ -213,8 +158,6 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
           handleNavigation(enrichedUser);
         } else {
           setCurrentUser(null);
-          localStorage.removeItem('userRole');
-          localStorage.removeItem('userData');
           handleNavigation(null);
         }
       } catch (error) {
@@ -225,7 +168,34 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     });
 
     return () => unsubscribe();
-  }, [navigate, location.pathname]);
+  }, [getUserData, handleNavigation]);
+
+  const refreshUser = useCallback(async () => {
+    if (!auth.currentUser) return;
+    const refreshedUser = await getUserData(auth.currentUser, true);
+    setCurrentUser(refreshedUser);
+    handleNavigation(refreshedUser);
+  }, [getUserData, handleNavigation]);
+
+  // An admin changing this account's role or access bumps its refresh marker;
+  // fetch a fresh token then rather than when the old one expires.
+  const currentUid = currentUser?.uid;
+  useEffect(() => {
+    if (!currentUid) return;
+    let first = true;
+    const unsubscribe = subscribeToClaimsRefresh(
+      currentUid,
+      async () => {
+        if (first) {
+          first = false;
+          return;
+        }
+        await refreshUser();
+      },
+      (error) => console.error('Error watching for claim changes:', error)
+    );
+    return () => unsubscribe();
+  }, [currentUid, refreshUser]);
 
   // Login function
   const login = async (email: string, password: string) => {
@@ -235,6 +205,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       const loginEmail = email.includes('@') ? email : `${email}@yourdomain.com`;
 
       // Sign in with Firebase
+      recordActivity();
       const { user } = await signInWithEmailAndPassword(auth, loginEmail, password);
 
       // Get user data and update state
@@ -267,9 +238,13 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   // Logout function
   const logout = async () => {
     try {
+      if (auth.currentUser) {
+        // Best effort; a failure must not keep the user signed in.
+        await endUserSession(auth.currentUser.uid).catch((error) =>
+          console.error('Error ending the session record:', error)
+        );
+      }
       await signOut(auth);
-      localStorage.removeItem('userRole');
-      localStorage.removeItem('userData');
       navigate('/login', { replace: true });
     } catch (error) {
       console.error('Logout error:', error);
@@ -277,43 +252,13 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     }
   };
 
-  // Set user function for admin login
-  const setUser = async (user: { uid: string } & AdminData) => {
-    try {
-      const enrichedUser = {
-        ...auth.currentUser,
-        ...user,
-        role: 'admin',
-      } as EnrichedUser;
-
-      setCurrentUser(enrichedUser);
-
-      // Cache admin data
-      localStorage.setItem('userRole', 'admin');
-      localStorage.setItem(
-        'userData',
-        JSON.stringify({
-          fullName: user.fullName,
-          idNumber: user.idNumber,
-          email: user.email,
-        })
-      );
-
-      // Navigate to admin dashboard
-      navigate('/admin/dashboard', { replace: true });
-    } catch (error) {
-      console.error('Set user error:', error);
-      throw error;
-    }
-  };
-
   const value = {
     currentUser,
     login,
     register,
     logout,
+    refreshUser,
     loading,
-    setUser,
   };
 
   return (
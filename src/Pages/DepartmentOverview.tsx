@@ -0,0 +1,239 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import Swal from 'sweetalert2';
+import { ArrowPathIcon, BuildingLibraryIcon } from '@heroicons/react/24/outline';
+import AdminSidebar from '../components/AdminSidebar';
+import { theme } from '../styles/theme';
+import { DepartmentOverview as Overview } from '../types';
+import { attendanceRate, fetchDepartmentOverview } from '../services/departments';
+
+const RANGES = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+];
+
+const DAY_ORDER = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+const formatRate = (rate: number | null) => (rate === null ? '—' : `${rate}%`);
+const formatKWh = (kWh: number) => `${kWh.toFixed(2)} kWh`;
+
+const Table: React.FC<{ headings: string[]; empty: string; children: React.ReactNode[] }> = ({
+  headings,
+  empty,
+  children,
+}) =>
+  children.length === 0 ? (
+    <p className="text-center text-gray-500 py-6 text-sm">{empty}</p>
+  ) : (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            {headings.map((heading) => (
+              <th key={heading} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {heading}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">{children}</tbody>
+      </table>
+    </div>
+  );
+
+const DepartmentOverview: React.FC = () => {
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [department, setDepartment] = useState('');
+  const [days, setDays] = useState(30);
+  const [overview, setOverview] = useState<Overview | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await fetchDepartmentOverview(department, days);
+      setDepartments(result.departments);
+      setOverview(result.overview);
+    } catch (error) {
+      console.error('Error fetching department overview:', error);
+      Swal.fire('Error', error instanceof Error ? error.message : 'Failed to load the department overview.', 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [department, days]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const schedules = useMemo(
+    () =>
+      [...(overview?.schedules || [])].sort(
+        (a, b) => DAY_ORDER.indexOf(a.day) - DAY_ORDER.indexOf(b.day) || a.startTime.localeCompare(b.startTime)
+      ),
+    [overview]
+  );
+
+  const sessions = overview?.instructors.reduce((sum, instructor) => sum + instructor.sessions, 0) || 0;
+  const stats = overview
+    ? [
+        { label: 'Instructors', value: String(overview.instructors.length) },
+        { label: 'Sessions held', value: String(sessions) },
+        { label: 'Attendance rate', value: formatRate(attendanceRate(overview.attendance)) },
+        { label: 'Energy used', value: formatKWh(overview.energyKWh) },
+      ]
+    : [];
+
+  return (
+    <div className="flex h-screen bg-gradient-to-br from-blue-50 via-purple-50/30 to-rose-50/30">
+      <AdminSidebar />
+
+      <div className="flex-1 transition-all duration-300 ml-[80px] lg:ml-64 p-4 sm:p-8 overflow-y-auto">
+        <div className="mb-6 sm:mb-8 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold text-blue-900 flex items-center">
+              <BuildingLibraryIcon className="w-6 h-6 sm:w-8 sm:h-8 mr-2 sm:mr-3 text-blue-600" />
+              {overview?.department || 'Department'} Overview
+            </h1>
+            <p className="mt-1 text-blue-600/80 text-sm sm:text-base">
+              Attendance, schedules, rooms and energy across the department's instructors
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {departments.length > 1 && (
+              <select
+                value={overview?.department || department}
+                onChange={(e) => setDepartment(e.target.value)}
+                className={theme.components.input}
+              >
+                {departments.map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <select value={days} onChange={(e) => setDays(Number(e.target.value))} className={theme.components.input}>
+              {RANGES.map((range) => (
+                <option key={range.days} value={range.days}>
+                  {range.label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={load}
+              disabled={loading}
+              className={`${theme.components.button.secondary} flex items-center gap-1 disabled:opacity-50`}
+            >
+              <ArrowPathIcon className="w-4 h-4" />
+              Refresh
+            </button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-10 w-10 sm:h-12 sm:w-12 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : !overview ? (
+          <p className="text-center text-gray-500 py-12">No departments have instructors yet.</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              {stats.map((stat) => (
+                <motion.div key={stat.label} initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className={theme.components.card}>
+                  <p className="text-sm text-gray-500">{stat.label}</p>
+                  <p className="text-2xl font-semibold text-blue-900">{stat.value}</p>
+                </motion.div>
+              ))}
+            </div>
+
+            <div className={`${theme.components.card} p-0`}>
+              <h2 className="px-4 pt-4 pb-2 font-semibold text-gray-800">Instructors</h2>
+              <Table
+                headings={['Instructor', 'Sessions', 'Present', 'Late', 'Absent', 'Attendance', 'Energy']}
+                empty="No instructors in this department."
+              >
+                {overview.instructors.map((instructor) => (
+                  <tr key={instructor.id}>
+                    <td className="px-4 py-3">
+                      <div className="font-medium text-gray-900">{instructor.fullName}</div>
+                      <div className="text-xs text-gray-500">{instructor.email}</div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{instructor.sessions}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{instructor.present}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{instructor.late}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{instructor.absent}</td>
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">{formatRate(attendanceRate(instructor))}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{formatKWh(instructor.energyKWh)}</td>
+                  </tr>
+                ))}
+              </Table>
+            </div>
+
+            <div className={`${theme.components.card} p-0`}>
+              <h2 className="px-4 pt-4 pb-2 font-semibold text-gray-800">Attendance by subject</h2>
+              <Table
+                headings={['Subject', 'Sessions', 'Present', 'Late', 'Absent', 'Attendance']}
+                empty="No sessions were held in this period."
+              >
+                {overview.subjects.map((subject) => (
+                  <tr key={subject.subjectCode}>
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">{subject.subjectCode}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{subject.sessions}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{subject.present}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{subject.late}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{subject.absent}</td>
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">{formatRate(attendanceRate(subject))}</td>
+                  </tr>
+                ))}
+              </Table>
+            </div>
+
+            <div className={`${theme.components.card} p-0`}>
+              <h2 className="px-4 pt-4 pb-2 font-semibold text-gray-800">Weekly schedule</h2>
+              <Table headings={['Day', 'Time', 'Subject', 'Section', 'Instructor', 'Room']} empty="No classes are scheduled.">
+                {schedules.map((schedule, index) => (
+                  <tr key={`${schedule.instructorId}-${index}`}>
+                    <td className="px-4 py-3 text-sm text-gray-900">{schedule.day}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">
+                      {schedule.startTime}–{schedule.endTime}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{schedule.subject}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{schedule.section}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{schedule.instructorName}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{schedule.roomName || '—'}</td>
+                  </tr>
+                ))}
+              </Table>
+            </div>
+
+            <div className={`${theme.components.card} p-0`}>
+              <h2 className="px-4 pt-4 pb-2 font-semibold text-gray-800">Rooms</h2>
+              <Table
+                headings={['Room', 'Location', 'Status', 'Weekly classes', 'Sessions', 'Energy']}
+                empty="The department uses no rooms."
+              >
+                {overview.rooms.map((room) => (
+                  <tr key={room.name}>
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">{room.name}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">
+                      {[room.building, room.floor && `Floor ${room.floor}`].filter(Boolean).join(', ') || '—'}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700 capitalize">{room.status}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{room.scheduledClasses}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{room.sessions}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{formatKWh(room.energyKWh)}</td>
+                  </tr>
+                ))}
+              </Table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DepartmentOverview;
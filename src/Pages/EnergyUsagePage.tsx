@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import AdminSidebar from '../components/AdminSidebar';
+import EnergyTariffSettings from '../components/EnergyTariffSettings';
+import EnergyTimeSeries from '../components/EnergyTimeSeries';
+import IdleEnergyAlerts from '../components/IdleEnergyAlerts';
 import {
   BoltIcon,
   ChartBarIcon,
@@ -19,6 +22,24 @@ import { ref, onValue, off } from 'firebase/database';
 import { rtdb } from '../firebase';
 import { useAuth } from './AuthContext';
 import { toast } from 'react-hot-toast';
+import { DeviceCategory, EnergyTariff } from '../types';
+import {
+  DEFAULT_ENERGY_TARIFF,
+  PowerSample,
+  accountSession,
+  attributeToCircuits,
+  billEnergy,
+  counterDeltaKWh,
+  energyByCategory,
+  rateAt,
+  scalingFactorFor,
+  summarizeAccounts,
+} from '../services/energyAccounting';
+import { RoomEnergyRecord, fetchRoomEnergyRecord, loadEnergyTariff } from '../services/energySettings';
+import { energyRoomKey, samplePoints } from '../services/energySeries';
+import { DEVICE_CATEGORY_LABELS } from '../services/roomCircuits';
+import { subscribeToEnergySamples } from '../services/rtdbRepository';
+import { hasPermission } from '../services/permissions';
 
 interface Room {
   id: string;
@@ -38,6 +59,8 @@ interface PZEMData {
   voltage: string;
   calculatedEnergy?: string;
   sessionDuration?: string;
+  startEnergy?: string;
+  startTimestamp?: string;
 }
 
 interface ClassHistoryEntry {
@@ -49,15 +72,10 @@ interface ClassHistoryEntry {
 interface EnergyUsage {
   id: string;
   classroomId: string;
+  startTimestamp: string | null;
   timestamp: Date;
   powerWatts: number;
   consumptionKWh: number;
-  devices: {
-    lighting: number;
-    projection: number;
-    computers: number;
-    hvac: number;
-  };
   instructorName: string;
   subject: string;
   subjectCode: string;
@@ -154,7 +172,22 @@ interface AttendanceRecord {
   };
 }
 
-const SCALING_FACTOR = 20; // Scaling factor set to 20x
+// What the counter advanced over the class, from the reading the firmware took
+// when it started. Readings from before it recorded one report none.
+const classCounterKWh = (pzem: PZEMData): number =>
+  pzem.startEnergy !== undefined ? counterDeltaKWh(parseFloat(pzem.startEnergy), parseFloat(pzem.energy)) : 0;
+
+// When the class began: the firmware's start time, or for older readings the
+// instructor's last access tap before the class ended. Device timestamps
+// (YYYY_MM_DD_HHMMSS) sort as strings.
+const classStartTimestamp = (instructor: InstructorData, pzem: PZEMData): string | null => {
+  if (pzem.startTimestamp) return pzem.startTimestamp;
+  const taps = Object.values(instructor.AccessLogs || {})
+    .filter((log) => log.action === 'Access' && log.status === 'granted' && log.timestamp <= pzem.timestamp)
+    .map((log) => log.timestamp)
+    .sort();
+  return taps.length > 0 ? taps[taps.length - 1] : null;
+};
 
 const EnergyUsagePage: React.FC = () => {
   const { currentUser } = useAuth();
@@ -180,8 +213,12 @@ const EnergyUsagePage: React.FC = () => {
   // State to store energy data for all instructors
   const [instructorsEnergyData, setInstructorsEnergyData] = useState<InstructorEnergyData[]>([]);
 
-  // Add this state for the rate
-  const [vecoRate, setVecoRate] = useState<number>(14);
+  // Costs are priced with the site tariff and scaled by the room's calibration;
+  // the room's circuits split the measured energy by device
+  const [tariff, setTariff] = useState<EnergyTariff>(DEFAULT_ENERGY_TARIFF);
+  const [roomEnergy, setRoomEnergy] = useState<RoomEnergyRecord | null>(null);
+  // Samples from the selected room's time series on the selected day
+  const [roomSamples, setRoomSamples] = useState<PowerSample[]>([]);
 
   // Add this state for students
   const [students, setStudents] = useState<Student[]>([]);
@@ -345,6 +382,51 @@ const EnergyUsagePage: React.FC = () => {
     fetchRoomsAndTimestamps();
   }, [instructorsData, selectedClassroom, selectedTimestamp]);
 
+  useEffect(() => {
+    loadEnergyTariff()
+      .then(setTariff)
+      .catch((error) => {
+        console.error('Error loading energy tariff:', error);
+        toast.error('Failed to load the energy tariff; using the default rate');
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!selectedClassroom) {
+      setRoomEnergy(null);
+      return;
+    }
+    let cancelled = false;
+    fetchRoomEnergyRecord(selectedClassroom)
+      .then((record) => !cancelled && setRoomEnergy(record))
+      .catch((error) => {
+        console.error('Error loading room energy settings:', error);
+        if (!cancelled) setRoomEnergy(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedClassroom]);
+
+  useEffect(() => {
+    // Access timestamps are YYYY_MM_DD_HHMMSS on the device clock, like series keys.
+    const day = selectedTimestamp.replace(/\D/g, '').slice(0, 8);
+    if (!selectedClassroom || day.length !== 8) {
+      setRoomSamples([]);
+      return;
+    }
+    const unsubscribe = subscribeToEnergySamples(
+      energyRoomKey(selectedClassroom),
+      day,
+      (samples) => setRoomSamples(samplePoints(day, samples).map(({ at, power }) => ({ at, power }))),
+      (error) => {
+        console.error('Error fetching energy samples:', error);
+        setRoomSamples([]);
+      }
+    );
+    return () => unsubscribe();
+  }, [selectedClassroom, selectedTimestamp]);
+
   // Process energy data based on selected classroom and timestamp
   useEffect(() => {
     if (!selectedClassroom || !selectedTimestamp) {
@@ -388,20 +470,15 @@ const EnergyUsagePage: React.FC = () => {
                   pzemTimestamp <= timeWindowEnd
                 ) {
                   const powerWatts = parseFloat(pzem.power) || 0;
-                  const consumptionKWh = parseFloat(pzem.calculatedEnergy || pzem.energy) || 0;
+                  const consumptionKWh = classCounterKWh(pzem);
                   
                   energyEntries.push({
                     id: `instructor_${rfidUid}_${historyKey}`,
                     classroomId: selectedClassroom,
+                    startTimestamp: classStartTimestamp(instructor, pzem),
                     timestamp: pzemTimestamp,
                     powerWatts,
                     consumptionKWh,
-                    devices: {
-                      lighting: consumptionKWh * 0.25,
-                      projection: consumptionKWh * 0.25,
-                      computers: consumptionKWh * 0.25,
-                      hvac: consumptionKWh * 0.25,
-                    },
                     instructorName,
                     subject: schedule?.subject || 'Unknown Subject',
                     subjectCode: schedule?.subjectCode || 'N/A',
@@ -443,20 +520,15 @@ const EnergyUsagePage: React.FC = () => {
                 pzemTimestamp <= timeWindowEnd
               ) {
                 const powerWatts = parseFloat(pzem.power) || 0;
-                const consumptionKWh = parseFloat(pzem.calculatedEnergy || pzem.energy) || 0;
+                const consumptionKWh = classCounterKWh(pzem);
                 
                 energyEntries.push({
                   id: `instructor_${rfidUid}_${pzem.timestamp}`,
                   classroomId: selectedClassroom,
+                  startTimestamp: classStartTimestamp(instructor, pzem),
                   timestamp: pzemTimestamp,
                   powerWatts,
                   consumptionKWh,
-                  devices: {
-                    lighting: consumptionKWh * 0.25,
-                    projection: consumptionKWh * 0.25,
-                    computers: consumptionKWh * 0.25,
-                    hvac: consumptionKWh * 0.25,
-                  },
                   instructorName,
                   subject: schedule?.subject || 'Unknown Subject',
                   subjectCode: schedule?.subjectCode || 'N/A',
@@ -742,45 +814,53 @@ const EnergyUsagePage: React.FC = () => {
 
   const duration = calculateDuration();
 
+  const scalingFactor = scalingFactorFor(roomEnergy?.calibration);
+  const accessTime = parseTimestamp(selectedTimestamp);
+
+  // Bills a class from its start to the PZEM reading taken when it ended,
+  // integrating the room's samples in between. Without samples it falls back
+  // to what the kWh counter advanced over the class.
+  const accountClass = (
+    id: string,
+    instructorName: string,
+    start: Date | null,
+    end: Date | null,
+    counterKWh: number,
+    factor: number
+  ) =>
+    accountSession(
+      {
+        id,
+        roomName: selectedClassroom,
+        instructorName,
+        start: start?.getTime() ?? end?.getTime() ?? 0,
+        end: end?.getTime() ?? Date.now(),
+        samples: roomSamples,
+        counterKWh,
+      },
+      tariff,
+      factor
+    );
+
   // Calculate power consumption based on PZEM data
   const calculatePowerConsumption = () => {
-    let prototypeConsumptionKWh = 0;
-    let actualConsumptionKWh = 0;
-
     // Get current data for display in the UI
     const currentData = getCurrentData();
     const pzem = currentData?.pzem;
+    const counterKWh = pzem ? classCounterKWh(pzem) : 0;
+    const end = pzem ? parseTimestamp(pzem.timestamp) : null;
+    const start = (pzem?.startTimestamp && parseTimestamp(pzem.startTimestamp)) || accessTime;
 
-    if (pzem) {
-      prototypeConsumptionKWh = parseFloat(pzem.calculatedEnergy || pzem.energy) || 0;
-
-      // Update the latest entry's consumptionKWh and devices if we have entries
-      if (energyData.length > 0) {
-        const latestEntry = energyData[energyData.length - 1];
-        latestEntry.consumptionKWh = prototypeConsumptionKWh;
-        latestEntry.devices = {
-          lighting: prototypeConsumptionKWh * 0.25,
-          projection: prototypeConsumptionKWh * 0.25,
-          computers: prototypeConsumptionKWh * 0.25,
-          hvac: prototypeConsumptionKWh * 0.25,
-        };
-      }
-    }
-
-    // For display in the Power Consumption Analysis section
-    // This shows the consumption for the current session/classroom
-    actualConsumptionKWh = prototypeConsumptionKWh * SCALING_FACTOR;
-    
-    // Calculate costs based on consumption and duration
-    const prototypeCost = prototypeConsumptionKWh * vecoRate * duration.totalHours;
-    const actualCost = actualConsumptionKWh * vecoRate * duration.totalHours;
+    const prototype = accountClass('current', '', start, end, counterKWh, 1);
+    const actual = accountClass('current', '', start, end, counterKWh, scalingFactor);
 
     return {
-      prototypeConsumptionKWh: prototypeConsumptionKWh.toFixed(2),
-      actualConsumptionKWh: actualConsumptionKWh.toFixed(2),
-      prototypeCost: prototypeCost.toFixed(2),
-      actualCost: actualCost.toFixed(2),
+      prototypeConsumptionKWh: prototype.bill.energyKWh.toFixed(2),
+      actualConsumptionKWh: actual.bill.energyKWh.toFixed(2),
+      prototypeCost: prototype.bill.totalCost.toFixed(2),
+      actualCost: actual.bill.totalCost.toFixed(2),
       durationHours: duration.totalHours.toFixed(2),
+      fromSamples: actual.source === 'samples',
     };
   };
 
@@ -791,35 +871,56 @@ const EnergyUsagePage: React.FC = () => {
     instructor => instructor.roomName === selectedClassroom
   );
 
+  const entryAccounts = energyData.map((entry) =>
+    accountClass(
+      entry.id,
+      entry.instructorName,
+      entry.startTimestamp ? parseTimestamp(entry.startTimestamp) : null,
+      entry.timestamp,
+      entry.consumptionKWh,
+      scalingFactor
+    )
+  );
+  const instructorSummaries = summarizeAccounts(entryAccounts, (account) => account.session.instructorName, tariff);
+
   // Calculate the total consumption
   // If we have energy data entries, use them; otherwise use the current PZEM data
-  const totalConsumption = energyData.length > 0 
-    ? energyData.reduce((total, entry) => total + (entry.consumptionKWh * SCALING_FACTOR), 0)
+  const totalConsumption = entryAccounts.length > 0
+    ? entryAccounts.reduce((total, account) => total + account.bill.energyKWh, 0)
     : parseFloat(powerConsumption.actualConsumptionKWh);
     
   // Calculate average consumption - if no entries, the average is the total
-  const averageConsumption = energyData.length > 0 
-    ? totalConsumption / energyData.length 
+  const averageConsumption = entryAccounts.length > 0 
+    ? totalConsumption / entryAccounts.length 
     : totalConsumption;
     
   // Calculate peak usage - if no entries, the peak is the total
-  const peakUsage = energyData.length > 0 
-    ? Math.max(...energyData.map((e) => e.consumptionKWh * SCALING_FACTOR)) 
+  const peakUsage = entryAccounts.length > 0 
+    ? Math.max(...entryAccounts.map((account) => account.bill.energyKWh)) 
     : totalConsumption;
 
+  // Splits the latest class's room consumption across the room's circuits
+  const circuitEnergy = attributeToCircuits(
+    roomEnergy?.circuits || [],
+    parseFloat(powerConsumption.actualConsumptionKWh),
+    duration.totalHours,
+    tariff,
+    accessTime?.getTime() ?? Date.now()
+  );
+  const categoryEnergy = energyByCategory(circuitEnergy);
+
   const handleCalculate = () => {
     const energyKWh = parseFloat(calcEnergyKWh) || 0;
     const userDurationHours = parseFloat(calcDurationHours) || 1;
-    const prototypeKWh = energyKWh;
-    const actualKWh = prototypeKWh * SCALING_FACTOR;
-    const prototypeCost = prototypeKWh * vecoRate * userDurationHours;
-    const actualCost = actualKWh * vecoRate * userDurationHours;
+    // A bare kWh figure is priced at the rate in force now
+    const prototype = billEnergy(energyKWh, tariff, Date.now());
+    const actual = billEnergy(energyKWh, tariff, Date.now(), scalingFactor);
 
     setCalcResult({
-      prototypeKWh: prototypeKWh.toFixed(2),
-      actualKWh: actualKWh.toFixed(2),
-      prototypeCost: prototypeCost.toFixed(2),
-      actualCost: actualCost.toFixed(2),
+      prototypeKWh: prototype.energyKWh.toFixed(2),
+      actualKWh: actual.energyKWh.toFixed(2),
+      prototypeCost: prototype.totalCost.toFixed(2),
+      actualCost: actual.totalCost.toFixed(2),
       durationHours: userDurationHours.toFixed(2),
     });
   };
@@ -1102,24 +1203,27 @@ const EnergyUsagePage: React.FC = () => {
                 description="Total data points"
               />
             </div>
+            <EnergyTariffSettings
+              tariff={tariff}
+              onTariffSaved={setTariff}
+              canEditTariff={currentUser?.role === 'admin'}
+              roomName={selectedClassroom}
+              room={roomEnergy}
+              onCalibrated={(calibration) =>
+                setRoomEnergy((current) => (current ? { ...current, calibration } : current))
+              }
+              canCalibrate={hasPermission(currentUser, 'manage_rooms')}
+              calibratedBy={currentUser?.fullName || currentUser?.email || ''}
+            />
             <div className="bg-white p-4 sm:p-6 rounded-xl shadow-sm mb-6 sm:mb-8">
               <div className="flex items-center justify-between mb-4 sm:mb-6">
                 <h3 className="text-base sm:text-lg font-semibold flex items-center">
                   <CalculatorIcon className="w-4 h-4 sm:w-5 sm:h-5 mr-1 sm:mr-2 text-indigo-600" />
                   Power Consumption Analysis
                 </h3>
-                <div className="flex items-center">
-                  <label htmlFor="vecoRate" className="text-sm text-gray-600 mr-2">Rate (₱/kWh):</label>
-                  <input
-                    id="vecoRate"
-                    type="number"
-                    value={vecoRate}
-                    onChange={(e) => setVecoRate(Math.max(0, parseFloat(e.target.value) || 0))}
-                    className="w-20 rounded-lg border-gray-300 focus:border-indigo-500 focus:ring-indigo-500 text-sm py-1 px-2"
-                    min="0"
-                    step="0.01"
-                  />
-                </div>
+                <span className="text-xs sm:text-sm text-gray-500">
+                  {powerConsumption.fromSamples ? 'Integrated from room samples' : 'From the end-of-class meter reading'}
+                </span>
               </div>
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6">
                 <div>
@@ -1132,7 +1236,7 @@ const EnergyUsagePage: React.FC = () => {
                   <p className="text-xs sm:text-sm">Cost: ₱{powerConsumption.prototypeCost}</p>
                 </div>
                 <div>
-                  <h4 className="font-medium text-gray-700 mb-2 text-sm sm:text-base">Actual Room Consumption (Scaled x{SCALING_FACTOR})</h4>
+                  <h4 className="font-medium text-gray-700 mb-2 text-sm sm:text-base">Actual Room Consumption (Scaled x{scalingFactor.toFixed(2)})</h4>
                   <p className="text-xs sm:text-sm">
                     Duration: {duration.hours} hours {duration.minutes} minutes
                     {duration.totalHours > 0 && ` (${duration.totalHours.toFixed(2)} hours)`}
@@ -1145,7 +1249,7 @@ const EnergyUsagePage: React.FC = () => {
             <div className="bg-white p-4 sm:p-6 rounded-xl shadow-sm mb-6 sm:mb-8">
               <h3 className="text-base sm:text-lg font-semibold mb-4 sm:mb-6 flex items-center">
                 <CalculatorIcon className="w-4 h-4 sm:w-5 sm:h-5 mr-1 sm:mr-2 text-indigo-600" />
-                Interactive Power Calculator (@ ₱{vecoRate}/kWh)
+                Interactive Power Calculator (@ ₱{rateAt(tariff, Date.now()).toFixed(2)}/kWh now)
               </h3>
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6">
                 <div>
@@ -1191,7 +1295,7 @@ const EnergyUsagePage: React.FC = () => {
                           <p>Cost: ₱{calcResult.prototypeCost}</p>
                         </div>
                         <div>
-                          <h4 className="font-medium text-gray-700 mb-2 text-sm sm:text-base">Actual Room Consumption (Scaled x{SCALING_FACTOR})</h4>
+                          <h4 className="font-medium text-gray-700 mb-2 text-sm sm:text-base">Actual Room Consumption (Scaled x{scalingFactor.toFixed(2)})</h4>
                           <p>Duration: {Math.floor(parseFloat(calcResult.durationHours))} hours {Math.round((parseFloat(calcResult.durationHours) % 1) * 60)} minutes</p>
                           <p>Consumption: {calcResult.actualKWh} kWh</p>
                           <p>Cost: ₱{calcResult.actualCost}</p>
@@ -1204,40 +1308,70 @@ const EnergyUsagePage: React.FC = () => {
             </div>
             {/* Device Energy Breakdown - show regardless of whether we have entries */}
             <div className="bg-white p-4 sm:p-6 rounded-xl shadow-sm mb-6 sm:mb-8">
-              <h3 className="text-base sm:text-lg font-semibold mb-4 sm:mb-6">
-                Device Energy Breakdown (Latest Reading)
-              </h3>
-              {latestPzemData ? (
-                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6">
-                  <DeviceEnergy
-                    label="Lighting"
-                    value={parseFloat(powerConsumption.actualConsumptionKWh) * 0.25}
-                    color="rgb(59, 130, 246)"
-                    icon={LightBulbIcon}
-                  />
-                  <DeviceEnergy
-                    label="Projection"
-                    value={parseFloat(powerConsumption.actualConsumptionKWh) * 0.25}
-                    color="rgb(16, 185, 129)"
-                    icon={ChartBarIcon}
-                  />
-                  <DeviceEnergy
-                    label="Computers"
-                    value={parseFloat(powerConsumption.actualConsumptionKWh) * 0.25}
-                    color="rgb(245, 158, 11)"
-                    icon={PowerIcon}
-                  />
-                  <DeviceEnergy
-                    label="HVAC"
-                    value={parseFloat(powerConsumption.actualConsumptionKWh) * 0.25}
-                    color="rgb(239, 68, 68)"
-                    icon={ArrowsRightLeftIcon}
-                  />
-                </div>
+              <div className="flex items-center justify-between mb-4 sm:mb-6">
+                <h3 className="text-base sm:text-lg font-semibold">Device Energy Breakdown (Latest Reading)</h3>
+                {roomEnergy && !roomEnergy.circuitsDeclared && (
+                  <span className="text-xs sm:text-sm text-yellow-600">
+                    Estimated from the room's facilities; declare its circuits on the Rooms page
+                  </span>
+                )}
+              </div>
+              {latestPzemData && circuitEnergy.length > 0 ? (
+                <>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6">
+                    {(Object.keys(DEVICE_CATEGORY_STYLES) as DeviceCategory[])
+                      .filter((category) => circuitEnergy.some((item) => item.circuit.category === category))
+                      .map((category) => (
+                        <DeviceEnergy
+                          key={category}
+                          label={DEVICE_CATEGORY_LABELS[category]}
+                          value={categoryEnergy[category]}
+                          color={DEVICE_CATEGORY_STYLES[category].color}
+                          icon={DEVICE_CATEGORY_STYLES[category].icon}
+                        />
+                      ))}
+                  </div>
+                  <div className="overflow-x-auto mt-4 sm:mt-6">
+                    <table className="w-full text-xs sm:text-sm text-left text-gray-600">
+                      <thead className="text-xs sm:text-sm text-gray-700 uppercase bg-gray-50">
+                        <tr>
+                          <th scope="col" className="px-4 py-2">Circuit</th>
+                          <th scope="col" className="px-4 py-2">Rated</th>
+                          <th scope="col" className="px-4 py-2">Relay</th>
+                          <th scope="col" className="px-4 py-2">Energy</th>
+                          <th scope="col" className="px-4 py-2">Share</th>
+                          <th scope="col" className="px-4 py-2">Saved if Off (₱)</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {circuitEnergy.map(({ circuit, energyKWh, source, share, savingsCost }) => (
+                          <tr key={circuit.id} className="border-b">
+                            <td className="px-4 py-2">
+                              {circuit.name}
+                              <span className="text-gray-400"> · {DEVICE_CATEGORY_LABELS[circuit.category]}</span>
+                            </td>
+                            <td className="px-4 py-2">{circuit.ratedWatts} W</td>
+                            <td className="px-4 py-2">{circuit.relayChannel ?? 'Manual'}</td>
+                            <td className="px-4 py-2">
+                              {energyKWh.toFixed(2)} kWh
+                              {source === 'rated' && <span className="text-gray-400"> (rated)</span>}
+                            </td>
+                            <td className="px-4 py-2">{(share * 100).toFixed(0)}%</td>
+                            <td className="px-4 py-2">{savingsCost.toFixed(2)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </>
               ) : (
                 <p className="text-center text-gray-500">No device breakdown available</p>
               )}
             </div>
+
+            <EnergyTimeSeries roomName={selectedClassroom} />
+
+            <IdleEnergyAlerts canEditSettings={currentUser?.role === 'admin'} />
             
             {energyData.length > 0 && (
               <div className="bg-white p-4 sm:p-6 rounded-xl shadow-sm mt-6 sm:mt-8">
@@ -1281,28 +1415,35 @@ const EnergyUsagePage: React.FC = () => {
                         <th scope="col" className="px-4 sm:px-6 py-2 sm:py-3">
                           Consumption (kWh)
                         </th>
+                        <th scope="col" className="px-4 sm:px-6 py-2 sm:py-3">
+                          Cost (₱)
+                        </th>
                       </tr> 
                     </thead>
                     <tbody>
                       {filteredEnergyData.length > 0 ? (
-                        filteredEnergyData.map((entry) => (
-                          <tr key={entry.id} className="border-b hover:bg-gray-50">
-                            <td className="px-4 sm:px-6 py-3 sm:py-4">{entry.timestamp.toLocaleString()}</td>
-                            <td className="px-4 sm:px-6 py-3 sm:py-4">{entry.instructorName}</td>
-                            <td className="px-4 sm:px-6 py-3 sm:py-4">
-                              {entry.subject} ({entry.subjectCode})
-                            </td>
-                            <td className="px-4 sm:px-6 py-3 sm:py-4">
-                              {entry.schedule.day} {entry.schedule.startTime}-{entry.schedule.endTime}
-                            </td>
-                            <td className="px-4 sm:px-6 py-3 sm:py-4">{entry.schedule.section}</td>
-                            <td className="px-4 sm:px-6 py-3 sm:py-4">{entry.powerWatts.toFixed(2)}</td>
-                            <td className="px-4 sm:px-6 py-3 sm:py-4">{(entry.consumptionKWh * SCALING_FACTOR).toFixed(2)}</td>
-                          </tr>
-                        ))
+                        filteredEnergyData.map((entry) => {
+                          const account = entryAccounts.find((candidate) => candidate.session.id === entry.id);
+                          return (
+                            <tr key={entry.id} className="border-b hover:bg-gray-50">
+                              <td className="px-4 sm:px-6 py-3 sm:py-4">{entry.timestamp.toLocaleString()}</td>
+                              <td className="px-4 sm:px-6 py-3 sm:py-4">{entry.instructorName}</td>
+                              <td className="px-4 sm:px-6 py-3 sm:py-4">
+                                {entry.subject} ({entry.subjectCode})
+                              </td>
+                              <td className="px-4 sm:px-6 py-3 sm:py-4">
+                                {entry.schedule.day} {entry.schedule.startTime}-{entry.schedule.endTime}
+                              </td>
+                              <td className="px-4 sm:px-6 py-3 sm:py-4">{entry.schedule.section}</td>
+                              <td className="px-4 sm:px-6 py-3 sm:py-4">{entry.powerWatts.toFixed(2)}</td>
+                              <td className="px-4 sm:px-6 py-3 sm:py-4">{(account?.bill.energyKWh ?? 0).toFixed(2)}</td>
+                              <td className="px-4 sm:px-6 py-3 sm:py-4">{(account?.bill.totalCost ?? 0).toFixed(2)}</td>
+                            </tr>
+                          );
+                        })
                       ) : (
                         <tr>
-                          <td colSpan={7} className="px-4 sm:px-6 py-3 sm:py-4 text-center text-gray-500">
+                          <td colSpan={8} className="px-4 sm:px-6 py-3 sm:py-4 text-center text-gray-500">
                             No records match your search
                           </td>
                         </tr>
@@ -1310,6 +1451,25 @@ const EnergyUsagePage: React.FC = () => {
                     </tbody>
                   </table>
                 </div>
+                {instructorSummaries.length > 0 && (
+                  <div className="mt-4 sm:mt-6">
+                    <h4 className="font-medium text-gray-700 mb-2 text-sm sm:text-base">Totals by Instructor</h4>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 text-xs sm:text-sm">
+                      {instructorSummaries.map((summary) => (
+                        <div key={summary.key} className="bg-gray-50 p-3 rounded-lg">
+                          <p className="font-medium text-gray-900">{summary.key}</p>
+                          <p className="text-gray-600">
+                            {summary.sessions} {summary.sessions === 1 ? 'class' : 'classes'}, {summary.energyKWh.toFixed(2)} kWh
+                          </p>
+                          <p className="text-gray-600">
+                            ₱{summary.totalCost.toFixed(2)}
+                            {summary.demandCharge > 0 && ` incl. ₱${summary.demandCharge.toFixed(2)} demand`}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             )}
 
@@ -1383,6 +1543,14 @@ const StatCard = ({ icon: Icon, title, value, description }: any) => (
   </motion.div>
 );
 
+const DEVICE_CATEGORY_STYLES: Record<DeviceCategory, { color: string; icon: typeof BoltIcon }> = {
+  lighting: { color: 'rgb(59, 130, 246)', icon: LightBulbIcon },
+  projection: { color: 'rgb(16, 185, 129)', icon: ChartBarIcon },
+  computers: { color: 'rgb(245, 158, 11)', icon: PowerIcon },
+  hvac: { color: 'rgb(239, 68, 68)', icon: ArrowsRightLeftIcon },
+  other: { color: 'rgb(107, 114, 128)', icon: BoltIcon },
+};
+
 const DeviceEnergy = ({ label, value, color, icon: Icon }: any) => (
   <div className="bg-gray-50 p-3 sm:p-4 rounded-lg">
     <div className="flex items-center gap-1 sm:gap-2 mb-2 sm:mb-3">
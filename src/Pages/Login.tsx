@@ -14,6 +14,8 @@ import {
 } from '@heroicons/react/24/solid';
 import Swal from 'sweetalert2';
 import { useAuth } from '../Pages/AuthContext';
+import { getRegistrationStatus } from '../services/registration';
+import { recordActivity } from '../services/userSessions';
 import { signInWithEmailAndPassword } from 'firebase/auth';
 
 interface UserData {
@@ -66,7 +68,7 @@ const Login: React.FC = () => {
     id: false,
     password: false,
   });
-  const { login, setUser } = useAuth();
+  const { login } = useAuth();
   const navigate = useNavigate();
   let userRole = '';
 
@@ -116,6 +118,14 @@ const Login: React.FC = () => {
       }
 
       if (!userData) {
+        // Applications only reach the profile collections once approved.
+        const status = await getRegistrationStatus(idNumber);
+        if (status === 'pending') {
+          throw new Error('Your registration is awaiting admin approval');
+        }
+        if (status === 'rejected') {
+          throw new Error('Your registration was not approved');
+        }
         throw new Error('No user found with this ID number');
       }
 
@@ -123,21 +133,9 @@ const Login: React.FC = () => {
       userRole = userRole;
 
       // Login with email/password
+      recordActivity();
       await signInWithEmailAndPassword(auth, userEmail, password);
 
-      // Store user role and data
-      localStorage.setItem('userRole', userRole);
-      localStorage.setItem('userData', JSON.stringify(userData));
-
-      if (userRole === 'instructor') {
-        localStorage.setItem('teacherData', JSON.stringify({
-          idNumber: userData.idNumber,
-          fullName: userData.fullName,
-          department: userData.department,
-          email: userData.email,
-        }));
-      }
-
       Swal.fire({
         icon: 'success',
         title: 'Login Successful',
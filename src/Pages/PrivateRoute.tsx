@@ -1,30 +1,50 @@
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from './AuthContext';
+import { Permission } from '../types';
+import { canAccessPath, staffLandingPath } from '../services/permissions';
+import { secondFactorPending } from '../services/mfa';
 
 interface PrivateRouteProps {
   children: JSX.Element;
   roles?: ('admin' | 'instructor' | 'student')[];
+  // Also lets in users of other roles who hold this permission, in the scope
+  // the page allows (see canAccessPath)
+  permission?: Permission;
 }
 
-const PrivateRoute = ({ children, roles }: PrivateRouteProps) => {
+const PrivateRoute = ({ children, roles, permission }: PrivateRouteProps) => {
   const { currentUser } = useAuth();
+  const location = useLocation();
 
   if (!currentUser) {
     return <Navigate to="/login" replace />;
   }
 
+  if (secondFactorPending(currentUser.secondFactor)) {
+    return <Navigate to="/two-step" replace />;
+  }
+
   // If roles are specified, check if user has required role
-  if (roles && !roles.includes(currentUser.role as any)) {
+  if (roles && !roles.includes(currentUser.role as any) && !(permission && canAccessPath(currentUser, location.pathname))) {
     // Redirect to appropriate dashboard based on user's role
     const roleRoutes = {
       admin: '/admin/dashboard',
       instructor: '/instructor/dashboard',
       student: '/students/dashboard'
     };
-    return <Navigate to={roleRoutes[currentUser.role as keyof typeof roleRoutes] || '/login'} replace />;
+    return (
+      <Navigate
+        to={
+          (permission && staffLandingPath(currentUser)) ||
+          roleRoutes[currentUser.role as keyof typeof roleRoutes] ||
+          '/login'
+        }
+        replace
+      />
+    );
   }
 
   return children;
 };
 
-export default PrivateRoute;
\ No newline at end of file
+export default PrivateRoute;
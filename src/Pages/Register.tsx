@@ -1,8 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { createUserWithEmailAndPassword } from 'firebase/auth';
 import {
-  doc,
-  setDoc,
   collection,
   query,
   where,
@@ -10,8 +7,8 @@ import {
   onSnapshot,
   updateDoc,
 } from 'firebase/firestore';
-import { auth, db, rtdb } from '../firebase';
-import { getDatabase, ref, get, set, remove, onValue, off, update } from 'firebase/database';
+import { db, rtdb } from '../firebase';
+import { getDatabase, ref, get, remove, onValue, off, update } from 'firebase/database';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   LockClosedIcon,
@@ -27,8 +24,8 @@ import {
   IdentificationIcon,
 } from '@heroicons/react/24/solid';
 import Swal from 'sweetalert2';
+import { registerAccount, RegistrationRequest } from '../services/registration';
 import { Link, useNavigate } from 'react-router-dom';
-import { serverTimestamp } from 'firebase/firestore';
 
 interface Subject {
   id: string;
@@ -45,36 +42,6 @@ interface Subject {
   }>;
 }
 
-interface UserData {
-  uid: string;
-  fullName: string;
-  idNumber: string;
-  email: string;
-  mobileNumber: string;
-  role: string;
-  createdAt: string;
-  rfidUid?: string;
-  isAdmin?: boolean;
-  section?: string;
-  sectionId?: string;
-  schedules?: Array<{
-    day: string;
-    startTime: string;
-    endTime: string;
-    room?: string;
-    subject?: string;
-    section: string;
-  }>;
-  [key: string]: string | string[] | boolean | undefined | Array<{
-    day: string;
-    startTime: string;
-    endTime: string;
-    room?: string;
-    subject?: string;
-    section: string;
-  }>;
-}
-
 interface RFIDTag {
   uid: string;
   registered?: boolean;
@@ -393,46 +360,22 @@ const Register: React.FC = () => {
     }
 
     try {
-      // Create auth user
-      const { user } = await createUserWithEmailAndPassword(auth, formData.email, formData.password);
-
-      // Prepare user data
-      const userData: UserData = {
-        uid: user.uid,
-        fullName: formData.fullName,
+      await registerAccount({
         email: formData.email,
+        password: formData.password,
+        fullName: formData.fullName,
         idNumber: formData.idNumber,
         department: formData.department,
-        role: formData.role,
+        role: formData.role as RegistrationRequest['role'],
         mobileNumber: formData.mobileNumber,
         rfidUid: formData.rfidUid,
-        createdAt: new Date().toISOString(),
-      };
-
-      // Store in Firestore
-      const collectionRef = collection(db, formData.role === 'instructor' ? 'teachers' : 'students');
-      await setDoc(doc(collectionRef, user.uid), userData);
-
-      if (formData.rfidUid) {
-        // Move UID from UnregisteredUIDs to RegisteredUIDs
-        const uidRef = ref(rtdb, `/Unregistered/${formData.rfidUid}`);
-        await set(uidRef, null);
-
-        // Store RFID data
-        const rfidRef = ref(rtdb, `rfid/${formData.rfidUid}`);
-        await set(rfidRef, {
-          uid: user.uid,
-          role: formData.role,
-          timestamp: serverTimestamp(),
-        });
-      }
+      });
 
-      Swal.fire({
+      await Swal.fire({
         icon: 'success',
-        title: 'Registration Successful',
-        text: `Registered as ${formData.role === 'instructor' ? 'Instructor' : 'Student'}`,
-        showConfirmButton: false,
-        timer: 1500,
+        title: 'Registration Submitted',
+        text: `Your ${formData.role === 'instructor' ? 'instructor' : 'student'} account is awaiting admin approval. You will be notified by email once it is reviewed.`,
+        confirmButtonColor: '#22d3ee',
         background: '#F9FAFB',
         iconColor: '#22d3ee',
       });
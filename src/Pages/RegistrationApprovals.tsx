@@ -0,0 +1,218 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import Swal from 'sweetalert2';
+import { CheckIcon, UserPlusIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import AdminSidebar from '../components/AdminSidebar';
+import { theme } from '../styles/theme';
+import { Registration, RegistrationStatus } from '../types';
+import { approveRegistration, rejectRegistration, subscribeToRegistrations } from '../services/registration';
+import { escapeHtml } from '../utils/htmlUtils';
+
+const STATUS_TABS: { value: RegistrationStatus; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+];
+
+const STATUS_BADGES: Record<RegistrationStatus, string> = {
+  pending: theme.components.badge.warning,
+  approved: theme.components.badge.success,
+  rejected: theme.components.badge.error,
+};
+
+const RegistrationApprovals: React.FC = () => {
+  const [registrations, setRegistrations] = useState<Registration[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<RegistrationStatus>('pending');
+  const [reviewing, setReviewing] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToRegistrations(
+      (data) => {
+        setRegistrations(data);
+        setLoading(false);
+      },
+      (error) => {
+        console.error('Error fetching registrations:', error);
+        setLoading(false);
+      }
+    );
+    return () => unsubscribe();
+  }, []);
+
+  const counts = useMemo(
+    () =>
+      registrations.reduce(
+        (acc, registration) => ({ ...acc, [registration.status]: acc[registration.status] + 1 }),
+        { pending: 0, approved: 0, rejected: 0 } as Record<RegistrationStatus, number>
+      ),
+    [registrations]
+  );
+
+  const visible = registrations.filter((registration) => registration.status === statusFilter);
+
+  const handleApprove = async (registration: Registration) => {
+    const result = await Swal.fire({
+      title: `Approve ${registration.fullName}?`,
+      html: `
+        <p class="text-sm text-gray-600">
+          Activates the ${escapeHtml(registration.role)} account${
+            registration.rfidUid ? ` and card <strong>${escapeHtml(registration.rfidUid)}</strong>` : ''
+          }, then emails ${escapeHtml(registration.email)}.
+        </p>
+      `,
+      icon: 'question',
+      showCancelButton: true,
+      confirmButtonText: 'Approve',
+      confirmButtonColor: '#16a34a',
+    });
+    if (!result.isConfirmed) return;
+
+    setReviewing(registration.uid);
+    try {
+      await approveRegistration(registration.uid);
+      Swal.fire('Approved', `${registration.fullName} can now sign in.`, 'success');
+    } catch (error) {
+      console.error('Error approving registration:', error);
+      Swal.fire('Error', error instanceof Error ? error.message : 'Failed to approve the registration.', 'error');
+    } finally {
+      setReviewing(null);
+    }
+  };
+
+  const handleReject = async (registration: Registration) => {
+    const { value: reason } = await Swal.fire({
+      title: `Reject ${registration.fullName}?`,
+      text: 'The account is deleted and the card released. The reason is sent to the applicant.',
+      input: 'textarea',
+      inputPlaceholder: 'Reason',
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Reject',
+      confirmButtonColor: '#e11d48',
+      inputValidator: (value) => (value.trim() ? null : 'A reason is required'),
+    });
+    if (!reason) return;
+
+    setReviewing(registration.uid);
+    try {
+      await rejectRegistration(registration.uid, reason.trim());
+      Swal.fire('Rejected', `${registration.fullName} has been notified.`, 'success');
+    } catch (error) {
+      console.error('Error rejecting registration:', error);
+      Swal.fire('Error', error instanceof Error ? error.message : 'Failed to reject the registration.', 'error');
+    } finally {
+      setReviewing(null);
+    }
+  };
+
+  return (
+    <div className="flex h-screen bg-gradient-to-br from-blue-50 via-purple-50/30 to-rose-50/30">
+      <AdminSidebar />
+
+      <div className="flex-1 transition-all duration-300 ml-[80px] lg:ml-64 p-4 sm:p-8 overflow-y-auto">
+        <div className="mb-6 sm:mb-8">
+          <h1 className="text-xl sm:text-2xl font-bold text-blue-900 flex items-center">
+            <UserPlusIcon className="w-6 h-6 sm:w-8 sm:h-8 mr-2 sm:mr-3 text-blue-600" />
+            Registration Approvals
+          </h1>
+          <p className="mt-1 text-blue-600/80 text-sm sm:text-base">
+            New accounts and their cards stay inactive until approved here
+          </p>
+        </div>
+
+        <div className="flex gap-2 mb-6">
+          {STATUS_TABS.map((tab) => (
+            <button
+              key={tab.value}
+              onClick={() => setStatusFilter(tab.value)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                statusFilter === tab.value ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {tab.label} ({counts[tab.value]})
+            </button>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-10 w-10 sm:h-12 sm:w-12 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : visible.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">No {statusFilter} registrations.</p>
+        ) : (
+          <div className={`${theme.components.card} overflow-x-auto p-0`}>
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Applicant', 'Role', 'Department', 'RFID Card', 'Submitted', 'Status', ''].map((heading) => (
+                    <th
+                      key={heading}
+                      className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {visible.map((registration) => (
+                  <motion.tr key={registration.uid} initial={{ opacity: 0 }} animate={{ opacity: 1 }}>
+                    <td className="px-4 py-3">
+                      <div className="font-medium text-gray-900">{registration.fullName}</div>
+                      <div className="text-xs text-gray-500">
+                        {registration.idNumber} &middot; {registration.email}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700 capitalize">{registration.role}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{registration.department || '—'}</td>
+                    <td className="px-4 py-3 text-sm font-mono text-gray-700">{registration.rfidUid || '—'}</td>
+                    <td className="px-4 py-3 text-sm text-gray-500">
+                      {new Date(registration.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_BADGES[registration.status]}`}>
+                        {registration.status}
+                      </span>
+                      {registration.rejectionReason && (
+                        <div className="text-xs text-gray-500 mt-1">{registration.rejectionReason}</div>
+                      )}
+                      {registration.reviewedBy && (
+                        <div className="text-xs text-gray-400 mt-1">by {registration.reviewedBy.fullName}</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      {registration.status === 'pending' && (
+                        <div className="flex gap-2 justify-end">
+                          <button
+                            onClick={() => handleApprove(registration)}
+                            disabled={reviewing === registration.uid}
+                            className="flex items-center gap-1 px-3 py-1.5 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                          >
+                            <CheckIcon className="w-4 h-4" />
+                            Approve
+                          </button>
+                          <button
+                            onClick={() => handleReject(registration)}
+                            disabled={reviewing === registration.uid}
+                            className="flex items-center gap-1 px-3 py-1.5 text-sm bg-rose-600 text-white rounded-lg hover:bg-rose-700 disabled:opacity-50"
+                          >
+                            <XMarkIcon className="w-4 h-4" />
+                            Reject
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </motion.tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RegistrationApprovals;
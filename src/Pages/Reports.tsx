@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ref, onValue, off } from 'firebase/database';
+import { Link } from 'react-router-dom';
 import { rtdb, listenForNewRFIDTag } from '../firebase';
 import AdminSidebar from '../components/AdminSidebar';
 import {
@@ -16,8 +17,23 @@ import {
   FingerPrintIcon,
   ChevronDownIcon,
   ChevronUpIcon,
+  CheckBadgeIcon,
 } from '@heroicons/react/24/solid';
 import Swal from 'sweetalert2';
+import {
+  subscribeToAdminPZEM,
+  subscribeToAttendanceSessions,
+  subscribeToTamperAlerts,
+} from '../services/rtdbRepository';
+import { sessionDateKey } from '../services/attendanceSessions';
+import ProxyTapReviewQueue from '../components/ProxyTapReviewQueue';
+import { canAccessPath } from '../services/permissions';
+import { useAuth } from './AuthContext';
+import {
+  RTDBAdminPZEMReading as AdminPZEM,
+  RTDBAttendanceSession,
+  RTDBTamperAlert as Alert,
+} from '../types/rtdb';
 
 // Interfaces reflecting the JSON structure
 interface Schedule {
@@ -92,31 +108,6 @@ interface AccessLog {
   timestamp: string;
 }
 
-interface AdminPZEM {
-  Current: string;
-  Energy: string;
-  Frequency: string;
-  Power: string;
-  PowerFactor: string;
-  Voltage: string;
-  timestamp: string;
-  roomDetails: {
-    building: string;
-    floor: string;
-    name: string;
-    status: string;
-    type: string;
-  };
-}
-
-interface Alert {
-  startTime: string;
-  endTime?: string;
-  status: string;
-  resolvedByFullName?: string;
-  resolvedByUID?: string;
-}
-
 interface OfflineTamper {
   action: string;
   name: string;
@@ -165,12 +156,14 @@ interface RoomPowerConsumption {
 const ITEMS_PER_PAGE = 10;
 
 const Dashboard: React.FC = () => {
+  const { currentUser } = useAuth();
   const [instructors, setInstructors] = useState<Record<string, Instructor>>({});
   const [students, setStudents] = useState<Record<string, Student>>({});
   const [admins, setAdmins] = useState<Record<string, Admin>>({});
   const [accessLogs, setAccessLogs] = useState<Record<string, Record<string, AccessLog>>>({});
   const [adminPZEM, setAdminPZEM] = useState<Record<string, Record<string, AdminPZEM>>>({});
   const [alerts, setAlerts] = useState<Record<string, Alert>>({});
+  const [attendanceSessions, setAttendanceSessions] = useState<Record<string, RTDBAttendanceSession>>({});
   const [offlineDataLogging, setOfflineDataLogging] = useState<Record<string, OfflineTamper>>({});
   const [systemLogs, setSystemLogs] = useState<Record<string, string>>({});
   const [registeredUIDs, setRegisteredUIDs] = useState<Record<string, string>>({});
@@ -213,8 +206,6 @@ const Dashboard: React.FC = () => {
       students: ref(rtdb, 'Students'),
       admins: ref(rtdb, 'Admin'),
       accessLogs: ref(rtdb, 'AccessLogs'),
-      adminPZEM: ref(rtdb, 'AdminPZEM'),
-      alerts: ref(rtdb, 'Alerts/Tamper'),
       offlineDataLogging: ref(rtdb, 'OfflineDataLogging'),
       systemLogs: ref(rtdb, 'SystemLogs'),
       registeredUIDs: ref(rtdb, 'RegisteredUIDs'),
@@ -227,8 +218,6 @@ const Dashboard: React.FC = () => {
       { path: 'students', ref: refs.students },
       { path: 'admins', ref: refs.admins },
       { path: 'accessLogs', ref: refs.accessLogs },
-      { path: 'adminPZEM', ref: refs.adminPZEM },
-      { path: 'alerts', ref: refs.alerts },
       { path: 'offlineDataLogging', ref: refs.offlineDataLogging },
       { path: 'systemLogs', ref: refs.systemLogs },
       { path: 'registeredUIDs', ref: refs.registeredUIDs },
@@ -288,28 +277,6 @@ const Dashboard: React.FC = () => {
                 totalAccessToday: todayLogs.length,
               }));
               break;
-            case 'adminPZEM':
-              setAdminPZEM(data);
-              const roomsMonitored = new Set(
-                Object.values(data)
-                  .flatMap((userPZEM) =>
-                    Object.values(userPZEM as Record<string, any>)
-                      .filter((pzem) => pzem.roomDetails)
-                      .map((pzem) => pzem.roomDetails.name)
-                  )
-              ).size;
-              setStats((prev) => ({
-                ...prev,
-                totalRoomsMonitored: roomsMonitored,
-              }));
-              break;
-            case 'alerts':
-              setAlerts(data);
-              const activeAlerts = Object.values(data as Record<string, Alert>).filter(
-                (alert): alert is Alert => alert !== null && alert !== undefined && alert.status === 'active'
-              ).length;
-              setStats((prev) => ({ ...prev, activeAlerts }));
-              break;
             case 'offlineDataLogging':
               setOfflineDataLogging(data);
               break;
@@ -341,6 +308,25 @@ const Dashboard: React.FC = () => {
       );
     });
 
+    const unsubscribeAdminPZEM = subscribeToAdminPZEM((data) => {
+      setAdminPZEM(data);
+      const roomsMonitored = new Set(
+        Object.values(data).flatMap((userPZEM) => Object.values(userPZEM).map((pzem) => pzem.roomDetails.name))
+      ).size;
+      setStats((prev) => ({
+        ...prev,
+        totalRoomsMonitored: roomsMonitored,
+      }));
+    }, handleError('adminPZEM'));
+
+    const unsubscribeAlerts = subscribeToTamperAlerts((data) => {
+      setAlerts(data);
+      const activeAlerts = Object.values(data).filter((alert) => alert.status === 'active').length;
+      setStats((prev) => ({ ...prev, activeAlerts }));
+    }, handleError('alerts'));
+
+    const unsubscribeSessions = subscribeToAttendanceSessions(setAttendanceSessions, handleError('attendance sessions'));
+
     const unsubscribe = listenForNewRFIDTag((uid: string) => {
       setNewRFIDTag(uid);
       setTimeout(() => setNewRFIDTag(null), 5000);
@@ -350,6 +336,9 @@ const Dashboard: React.FC = () => {
 
     return () => {
       listeners.forEach(({ ref }) => off(ref));
+      unsubscribeAdminPZEM();
+      unsubscribeAlerts();
+      unsubscribeSessions();
       unsubscribe();
     };
   }, []);
@@ -510,6 +499,23 @@ const Dashboard: React.FC = () => {
     [systemLogs, searchQuery]
   );
 
+  const finalizedSessions = useMemo(
+    () =>
+      Object.values(attendanceSessions)
+        .filter((session) => session.state === 'finalized' && session.summary)
+        .filter((session) =>
+          [
+            session.schedule.subjectCode,
+            session.schedule.subjectName,
+            session.schedule.sectionName,
+            session.instructor.fullName,
+            session.roomId,
+          ].some((field) => field?.toLowerCase().includes(searchQuery.toLowerCase()))
+        )
+        .sort((a, b) => (b.finalizedAt || 0) - (a.finalizedAt || 0)),
+    [attendanceSessions, searchQuery]
+  );
+
   const filteredRFIDs = useMemo(
     () => ({
       registered: Object.entries(registeredUIDs).filter(([uid, timestamp]) =>
@@ -851,6 +857,14 @@ const Dashboard: React.FC = () => {
                 <BellIcon className="w-5 h-5 sm:w-6 sm:h-6 mr-2 sm:mr-3 text-red-600" />
                 Alerts
               </h2>
+              {canAccessPath(currentUser, '/admin/tamper-incidents') && (
+                <Link
+                  to="/admin/tamper-incidents"
+                  className="ml-auto mr-3 text-sm text-indigo-600 hover:text-indigo-800 hover:underline"
+                >
+                  Manage incidents
+                </Link>
+              )}
               <select
                 value={alertFilter}
                 onChange={(e) => setAlertFilter(e.target.value as 'all' | 'active' | 'resolved')}
@@ -1200,6 +1214,63 @@ const Dashboard: React.FC = () => {
             </div>
           </motion.div>
 
+          {/* Proxy-Tap Review Queue */}
+          <motion.div initial={{ opacity: 0, y: 30 }} animate={{ opacity: 1, y: 0 }}>
+            <ProxyTapReviewQueue />
+          </motion.div>
+
+          {/* Finalized Attendance Sessions */}
+          <motion.div
+            initial={{ opacity: 0, y: 30 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-white rounded-2xl shadow-lg p-4 sm:p-6 backdrop-blur-sm bg-opacity-90"
+          >
+            <h2 className="text-lg sm:text-xl lg:text-2xl font-semibold mb-4 sm:mb-6 flex items-center text-gray-800">
+              <CheckBadgeIcon className="w-5 h-5 sm:w-6 sm:h-6 mr-2 sm:mr-3 text-indigo-600" />
+              Finalized Attendance Sessions
+            </h2>
+            <div className="max-h-[400px] overflow-y-auto">
+              {finalizedSessions.length > 0 ? (
+                <table className="w-full text-sm sm:text-base">
+                  <thead>
+                    <tr className="bg-indigo-50 text-indigo-800">
+                      <th className="p-2 text-left">Date</th>
+                      <th className="p-2 text-left">Subject</th>
+                      <th className="p-2 text-left">Section</th>
+                      <th className="p-2 text-left">Instructor</th>
+                      <th className="p-2 text-left">Present</th>
+                      <th className="p-2 text-left">Late</th>
+                      <th className="p-2 text-left">Absent</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {finalizedSessions.map((session) => (
+                      <motion.tr
+                        key={session.id}
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        className="border-b border-gray-200 hover:bg-gray-100 transition-all duration-200"
+                      >
+                        <td className="p-2 text-gray-600">
+                          {sessionDateKey(session).replace(/_/g, '-')} {session.schedule.startTime}-
+                          {session.schedule.endTime}
+                        </td>
+                        <td className="p-2 text-gray-800 font-semibold">{session.schedule.subjectCode}</td>
+                        <td className="p-2 text-gray-600">{session.schedule.sectionName}</td>
+                        <td className="p-2 text-gray-600">{session.instructor.fullName || 'N/A'}</td>
+                        <td className="p-2 text-green-600">{session.summary?.present}</td>
+                        <td className="p-2 text-yellow-600">{session.summary?.late}</td>
+                        <td className="p-2 text-red-600">{session.summary?.absent}</td>
+                      </motion.tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-gray-500 text-center text-sm sm:text-base">No finalized sessions yet.</p>
+              )}
+            </div>
+          </motion.div>
+
           {/* System Logs */}
           <motion.div
             initial={{ opacity: 0, y: 30 }}
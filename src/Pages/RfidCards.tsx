@@ -0,0 +1,438 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { collection, getDocs } from 'firebase/firestore';
+import { motion } from 'framer-motion';
+import Swal from 'sweetalert2';
+import {
+  ArrowPathIcon,
+  ClockIcon,
+  IdentificationIcon,
+  NoSymbolIcon,
+  PlusIcon,
+} from '@heroicons/react/24/outline';
+import { db } from '../firebase';
+import AdminSidebar from '../components/AdminSidebar';
+import { useAuth } from './AuthContext';
+import { theme } from '../styles/theme';
+import { RFIDCardStatus, RTDBActor, RTDBRfidCard, RTDBRfidCardEvent } from '../types/rtdb';
+import {
+  subscribeToRfidCardHistory,
+  subscribeToRfidCards,
+  subscribeToUnregisteredUids,
+} from '../services/rtdbRepository';
+import {
+  CARD_EVENT_LABELS,
+  CARD_STATUS_LABELS,
+  issueTemporaryCard,
+  replaceCard,
+  revokeCard,
+} from '../services/rfidCards';
+import { escapeHtml } from '../utils/htmlUtils';
+
+const STATUS_BADGES: Record<RFIDCardStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  active: theme.components.badge.success,
+  lost: theme.components.badge.warning,
+  revoked: theme.components.badge.error,
+  replaced: theme.components.badge.info,
+  expired: 'bg-gray-100 text-gray-700',
+};
+
+// Offers UIDs the readers have logged but nobody holds, with a free-text
+// fallback for cards that have not been tapped yet.
+const uidPickerHtml = (unregistered: string[]) => `
+  <select id="card-uid-select" class="swal2-select">
+    <option value="">Type a UID below</option>
+    ${unregistered.map((uid) => `<option value="${escapeHtml(uid)}">${escapeHtml(uid)}</option>`).join('')}
+  </select>
+  <input id="card-uid-input" class="swal2-input" placeholder="Card UID">
+`;
+
+const readUidPicker = (): string =>
+  (
+    (document.getElementById('card-uid-select') as HTMLSelectElement).value ||
+    (document.getElementById('card-uid-input') as HTMLInputElement).value
+  )
+    .trim()
+    .toUpperCase();
+
+const CardHistory: React.FC<{ cardUid: string }> = ({ cardUid }) => {
+  const [events, setEvents] = useState<RTDBRfidCardEvent[]>([]);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToRfidCardHistory(
+      cardUid,
+      (data) => setEvents(Object.values(data).sort((a, b) => b.at - a.at)),
+      (error) => console.error('Error fetching card history:', error)
+    );
+    return () => unsubscribe();
+  }, [cardUid]);
+
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500">No recorded changes. The card was assigned at registration.</p>;
+  }
+
+  return (
+    <ol className="space-y-2">
+      {events.map((event) => (
+        <li key={`${event.type}-${event.at}`} className="text-sm text-gray-700 flex gap-3">
+          <span className="text-gray-500 whitespace-nowrap">{new Date(event.at).toLocaleString()}</span>
+          <span>
+            <span className="font-medium">{CARD_EVENT_LABELS[event.type]}</span>
+            {event.relatedCard && <> &middot; {event.type === 'replaced' ? 'by' : 'replacing'} {event.relatedCard}</>}
+            {event.holderName && <> &middot; {event.holderName}</>}
+            {event.by && <> &middot; by {event.by.fullName || event.by.uid}</>}
+            {event.note && <span className="block text-gray-500">{event.note}</span>}
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+const RfidCards: React.FC = () => {
+  const { currentUser } = useAuth();
+  const [cards, setCards] = useState<Record<string, RTDBRfidCard>>({});
+  const [unregistered, setUnregistered] = useState<string[]>([]);
+  const [holderNames, setHolderNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<RFIDCardStatus | 'all'>('all');
+  const [expandedCard, setExpandedCard] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribeCards = subscribeToRfidCards(
+      (data) => {
+        setCards(data);
+        setLoading(false);
+      },
+      (error) => {
+        console.error('Error fetching RFID cards:', error);
+        setLoading(false);
+      }
+    );
+    const unsubscribeUnregistered = subscribeToUnregisteredUids(setUnregistered, (error) =>
+      console.error('Error fetching unregistered UIDs:', error)
+    );
+    return () => {
+      unsubscribeCards();
+      unsubscribeUnregistered();
+    };
+  }, []);
+
+  // Cards from registration only carry the holder's auth uid
+  useEffect(() => {
+    const fetchHolders = async () => {
+      try {
+        const snapshots = await Promise.all(
+          ['students', 'teachers', 'users'].map((name) => getDocs(collection(db, name)))
+        );
+        const names: Record<string, string> = {};
+        snapshots.forEach((snapshot) =>
+          snapshot.docs.forEach((holder) => {
+            names[holder.id] = holder.data().fullName || '';
+          })
+        );
+        setHolderNames(names);
+      } catch (error) {
+        console.error('Error fetching card holders:', error);
+      }
+    };
+    fetchHolders();
+  }, []);
+
+  const actor = (): RTDBActor => ({
+    uid: currentUser?.uid || '',
+    fullName: currentUser?.fullName || currentUser?.displayName || '',
+    role: currentUser?.role || 'admin',
+  });
+
+  const holderName = (card: RTDBRfidCard) => card.holderName || holderNames[card.uid] || card.uid || 'Unknown';
+
+  const filteredCards = useMemo(
+    () =>
+      Object.entries(cards)
+        .filter(([cardUid, card]) => {
+          const query = searchQuery.toLowerCase();
+          const matchesSearch =
+            cardUid.toLowerCase().includes(query) ||
+            (card.holderName || holderNames[card.uid] || '').toLowerCase().includes(query);
+          return matchesSearch && (statusFilter === 'all' || card.status === statusFilter);
+        })
+        .sort(([, a], [, b]) => (b.updatedAt ?? b.timestamp ?? 0) - (a.updatedAt ?? a.timestamp ?? 0)),
+    [cards, holderNames, searchQuery, statusFilter]
+  );
+
+  const counts = useMemo(() => {
+    const values = Object.values(cards);
+    return {
+      active: values.filter((card) => card.status === 'active').length,
+      temporary: values.filter((card) => card.kind === 'temporary' && card.status === 'active').length,
+      retired: values.filter((card) => card.status !== 'active').length,
+    };
+  }, [cards]);
+
+  const handleRevoke = async (cardUid: string, card: RTDBRfidCard) => {
+    const { value } = await Swal.fire({
+      title: `Revoke ${cardUid}`,
+      html: `
+        <p class="text-sm text-gray-600 mb-2">Held by ${escapeHtml(holderName(card))}. The readers stop admitting the card immediately.</p>
+        <select id="revoke-reason" class="swal2-select">
+          <option value="lost">Reported lost</option>
+          <option value="revoked">Revoked</option>
+        </select>
+        <textarea id="revoke-note" class="swal2-textarea" placeholder="Note"></textarea>
+      `,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Revoke',
+      confirmButtonColor: '#e11d48',
+      preConfirm: () => {
+        const note = (document.getElementById('revoke-note') as HTMLTextAreaElement).value.trim();
+        if (!note) {
+          Swal.showValidationMessage('A note is required');
+          return false;
+        }
+        return {
+          reason: (document.getElementById('revoke-reason') as HTMLSelectElement).value as 'lost' | 'revoked',
+          note,
+        };
+      },
+    });
+    if (!value) return;
+
+    try {
+      await revokeCard(cardUid, card, value.reason, value.note, actor());
+      Swal.fire('Card Revoked', `${cardUid} can no longer be used.`, 'success');
+    } catch (error) {
+      console.error('Error revoking card:', error);
+      Swal.fire('Error', error instanceof Error ? error.message : 'Failed to revoke the card.', 'error');
+    }
+  };
+
+  const handleReplace = async (cardUid: string, card: RTDBRfidCard) => {
+    const { value } = await Swal.fire({
+      title: `Replace ${cardUid}`,
+      html: `
+        <p class="text-sm text-gray-600 mb-2">
+          The new card is bound to ${escapeHtml(holderName(card))}${card.role === 'student' ? ' and their attendance history moves with it' : ''}.
+        </p>
+        ${uidPickerHtml(unregistered)}
+        <textarea id="replace-note" class="swal2-textarea" placeholder="Note"></textarea>
+      `,
+      showCancelButton: true,
+      confirmButtonText: 'Replace',
+      preConfirm: () => {
+        const newUid = readUidPicker();
+        if (!newUid) {
+          Swal.showValidationMessage('Choose or enter the new card UID');
+          return false;
+        }
+        return { newUid, note: (document.getElementById('replace-note') as HTMLTextAreaElement).value };
+      },
+    });
+    if (!value) return;
+
+    try {
+      await replaceCard(cardUid, card, value.newUid, value.note, actor());
+      Swal.fire('Card Replaced', `${value.newUid} now belongs to ${holderName(card)}.`, 'success');
+    } catch (error) {
+      console.error('Error replacing card:', error);
+      Swal.fire('Error', error instanceof Error ? error.message : 'Failed to replace the card.', 'error');
+    }
+  };
+
+  const handleIssueTemporary = async () => {
+    const { value } = await Swal.fire({
+      title: 'Issue Temporary Card',
+      html: `
+        ${uidPickerHtml(unregistered)}
+        <input id="temp-holder" class="swal2-input" placeholder="Holder name">
+        <input id="temp-purpose" class="swal2-input" placeholder="Purpose (e.g. visitor, forgotten ID)">
+        <label class="block text-sm text-gray-600 mt-3">Valid for (hours)</label>
+        <input id="temp-hours" type="number" min="1" max="720" value="8" class="swal2-input">
+      `,
+      showCancelButton: true,
+      confirmButtonText: 'Issue',
+      preConfirm: () => {
+        const cardUid = readUidPicker();
+        const holder = (document.getElementById('temp-holder') as HTMLInputElement).value.trim();
+        const purpose = (document.getElementById('temp-purpose') as HTMLInputElement).value.trim();
+        const hours = Number((document.getElementById('temp-hours') as HTMLInputElement).value);
+        if (!cardUid || !holder || !purpose) {
+          Swal.showValidationMessage('Card, holder and purpose are required');
+          return false;
+        }
+        if (!(hours > 0)) {
+          Swal.showValidationMessage('Enter how many hours the card is valid for');
+          return false;
+        }
+        return { cardUid, holderName: holder, purpose, expiresAt: Date.now() + hours * 60 * 60 * 1000 };
+      },
+    });
+    if (!value) return;
+
+    try {
+      await issueTemporaryCard(value, actor());
+      Swal.fire(
+        'Card Issued',
+        `${value.cardUid} is valid until ${new Date(value.expiresAt).toLocaleString()}.`,
+        'success'
+      );
+    } catch (error) {
+      console.error('Error issuing temporary card:', error);
+      Swal.fire('Error', error instanceof Error ? error.message : 'Failed to issue the card.', 'error');
+    }
+  };
+
+  return (
+    <div className="flex h-screen bg-gradient-to-br from-blue-50 via-purple-50/30 to-rose-50/30">
+      <AdminSidebar />
+
+      <div className="flex-1 transition-all duration-300 ml-[80px] lg:ml-64 p-4 sm:p-8 overflow-y-auto">
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-6 sm:mb-8">
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold text-blue-900 flex items-center">
+              <IdentificationIcon className="w-6 h-6 sm:w-8 sm:h-8 mr-2 sm:mr-3 text-blue-600" />
+              RFID Cards
+            </h1>
+            <p className="mt-1 text-blue-600/80 text-sm sm:text-base">
+              Revoke lost cards, bind replacements and issue temporary cards
+            </p>
+          </div>
+
+          <div className="mt-4 sm:mt-0">
+            <button
+              onClick={handleIssueTemporary}
+              className={`${theme.components.button.primary} text-sm sm:text-base px-3 sm:px-4 py-1.5 sm:py-2`}
+            >
+              <PlusIcon className="w-4 h-4 sm:w-5 sm:h-5 mr-1 sm:mr-2" />
+              Issue Temporary Card
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+          {[
+            { label: 'Active cards', value: counts.active },
+            { label: 'Temporary cards in use', value: counts.temporary },
+            { label: 'Retired cards', value: counts.retired },
+          ].map((stat) => (
+            <div key={stat.label} className={theme.components.card}>
+              <p className="text-sm text-gray-500">{stat.label}</p>
+              <p className="text-2xl font-bold text-blue-900">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className={`${theme.components.card} p-4 sm:p-6 mb-6`}>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6">
+            <div>
+              <label className="block text-xs sm:text-sm font-medium text-teal-700 mb-1 sm:mb-2">Search Cards</label>
+              <input
+                type="text"
+                placeholder="Search by UID or holder..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className={`${theme.components.input} text-sm sm:text-base py-1.5 sm:py-2`}
+              />
+            </div>
+            <div>
+              <label className="block text-xs sm:text-sm font-medium text-teal-700 mb-1 sm:mb-2">Filter by Status</label>
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as RFIDCardStatus | 'all')}
+                className={`${theme.components.input} text-sm sm:text-base py-1.5 sm:py-2`}
+              >
+                <option value="all">All Status</option>
+                {(Object.keys(CARD_STATUS_LABELS) as RFIDCardStatus[]).map((status) => (
+                  <option key={status} value={status}>
+                    {CARD_STATUS_LABELS[status]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-10 w-10 sm:h-12 sm:w-12 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : filteredCards.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">No cards match the current filters.</p>
+        ) : (
+          <div className="space-y-3">
+            {filteredCards.map(([cardUid, card]) => (
+              <motion.div
+                key={cardUid}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className={theme.components.card}
+              >
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono font-semibold text-gray-800">{cardUid}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_BADGES[card.status]}`}>
+                        {CARD_STATUS_LABELS[card.status]}
+                      </span>
+                      {card.kind === 'temporary' && (
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${theme.components.badge.info}`}>
+                          Temporary
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1">
+                      {holderName(card)} &middot; <span className="capitalize">{card.role}</span>
+                      {card.purpose && <> &middot; {card.purpose}</>}
+                    </p>
+                    {card.expiresAt && (
+                      <p className="text-xs text-gray-500 flex items-center mt-1">
+                        <ClockIcon className="w-3 h-3 mr-1" />
+                        {card.status === 'active' ? 'Expires' : 'Expired'} {new Date(card.expiresAt).toLocaleString()}
+                      </p>
+                    )}
+                    {card.replacedBy && <p className="text-xs text-gray-500 mt-1">Replaced by {card.replacedBy}</p>}
+                  </div>
+                  <div className="flex gap-2">
+                    {card.status === 'active' && (
+                      <button
+                        onClick={() => handleRevoke(cardUid, card)}
+                        className="flex items-center gap-1 px-3 py-1.5 text-sm bg-rose-600 text-white rounded-lg hover:bg-rose-700"
+                      >
+                        <NoSymbolIcon className="w-4 h-4" />
+                        Revoke
+                      </button>
+                    )}
+                    {card.kind === 'permanent' && card.status !== 'replaced' && card.status !== 'pending' && (
+                      <button
+                        onClick={() => handleReplace(cardUid, card)}
+                        className="flex items-center gap-1 px-3 py-1.5 text-sm border border-blue-200 text-blue-700 rounded-lg hover:bg-blue-50"
+                      >
+                        <ArrowPathIcon className="w-4 h-4" />
+                        Replace
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setExpandedCard(expandedCard === cardUid ? null : cardUid)}
+                      className="px-3 py-1.5 text-sm border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50"
+                    >
+                      {expandedCard === cardUid ? 'Hide History' : 'History'}
+                    </button>
+                  </div>
+                </div>
+                {expandedCard === cardUid && (
+                  <div className="mt-4 pt-4 border-t border-gray-100">
+                    <CardHistory cardUid={cardUid} />
+                  </div>
+                )}
+              </motion.div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RfidCards;
@@ -9,11 +9,15 @@ import {
   ClockIcon,
   WrenchIcon,
   CheckCircleIcon,
+  BoltIcon,
 } from '@heroicons/react/24/outline';
 import { motion } from 'framer-motion';
 import Swal from 'sweetalert2';
 import { theme } from '../styles/theme';
 import AddRoomModal from '../components/AddRoomModal';
+import RoomCircuitsModal from '../components/RoomCircuitsModal';
+import { RoomCircuit } from '../types';
+import { defaultCircuitsFor, saveRoomCircuits } from '../services/roomCircuits';
 
 interface Room {
   id: string;
@@ -23,12 +27,14 @@ interface Room {
   capacity: number;
   type: 'classroom' | 'laboratory' | 'lecture_hall' | 'conference_room' | 'faculty_room';
   status: 'available' | 'occupied' | 'maintenance';
+  doorControllerId?: string;
   facilities?: {
     hasProjector: boolean;
     hasAC: boolean;
     hasComputers: boolean;
     hasWifi: boolean;
   };
+  circuits?: RoomCircuit[];
 }
 
 interface Schedule {
@@ -80,6 +86,7 @@ const RoomsPage = () => {
   const [filterStatus, setFilterStatus] = useState<Room['status'] | 'all'>('all');
   const [searchQuery, setSearchQuery] = useState('');
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [circuitsRoom, setCircuitsRoom] = useState<{ id: string; name: string; circuits: RoomCircuit[] } | null>(null);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -111,6 +118,7 @@ const RoomsPage = () => {
             hasWifi: false,
             ...(data.facilities || {}),
           },
+          circuits: data.circuits || [],
         } as Room;
       });
       setRooms(roomsData);
@@ -212,12 +220,15 @@ const RoomsPage = () => {
         capacity: roomData.capacity || 0,
         type: roomData.type || 'classroom',
         status: roomData.status || 'available',
+        doorControllerId: roomData.doorControllerId || '',
         facilities: {
           hasProjector: roomData.facilities?.hasProjector || false,
           hasAC: roomData.facilities?.hasAC || false,
           hasComputers: roomData.facilities?.hasComputers || false,
           hasWifi: roomData.facilities?.hasWifi || false,
         },
+        // Seeded from the facilities; refined with the room's Circuits button.
+        circuits: defaultCircuitsFor(roomData.facilities),
       };
 
       await addDoc(collection(db, 'rooms'), {
@@ -333,6 +344,45 @@ const RoomsPage = () => {
     }
   };
 
+  const handleSaveCircuits = async (circuits: RoomCircuit[]) => {
+    if (!circuitsRoom) return;
+    try {
+      await saveRoomCircuits(circuitsRoom.id, circuits);
+
+      setRooms(prevRooms =>
+        prevRooms.map(r =>
+          r.id === circuitsRoom.id ? { ...r, circuits } : r
+        )
+      );
+      setCircuitsRoom(null);
+
+      Swal.fire({
+        icon: 'success',
+        title: 'Circuits Saved',
+        showConfirmButton: false,
+        timer: 1500,
+        customClass: {
+          popup: 'rounded-lg sm:rounded-xl',
+          title: 'text-blue-900',
+          htmlContainer: 'text-blue-700',
+        },
+      });
+    } catch (error) {
+      console.error('Error saving room circuits:', error);
+      Swal.fire({
+        icon: 'error',
+        title: 'Error',
+        text: error instanceof Error ? error.message : 'Failed to save circuits',
+        customClass: {
+          popup: 'rounded-lg sm:rounded-xl',
+          title: 'text-blue-900',
+          htmlContainer: 'text-blue-700',
+          confirmButton: 'bg-blue-600 hover:bg-blue-700',
+        },
+      });
+    }
+  };
+
   const filteredRooms = rooms
     .map(room => {
       const { instructors, schedules, isOccupied } = getAssignedInstructorAndStatus(room.name);
@@ -457,6 +507,14 @@ const RoomsPage = () => {
                     <span className="text-xs sm:text-sm text-gray-600">Capacity</span>
                     <span className="text-xs sm:text-sm font-medium">{room.capacity} seats</span>
                   </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs sm:text-sm text-gray-600">Circuits</span>
+                    <span className="text-xs sm:text-sm font-medium">
+                      {room.circuits && room.circuits.length > 0
+                        ? `${room.circuits.length} (${room.circuits.reduce((total, c) => total + c.ratedWatts, 0)} W)`
+                        : 'Not declared'}
+                    </span>
+                  </div>
                   <div className="flex flex-col">
                     <span className="text-xs sm:text-sm text-gray-600 flex items-center mb-1">
                       <UserIcon className="w-4 h-4 mr-1" />
@@ -510,6 +568,19 @@ const RoomsPage = () => {
                     <CheckCircleIcon className="w-4 h-4 sm:w-5 sm:h-5 mr-1 sm:mr-2" />
                     Set to Available
                   </button>
+                  <button
+                    onClick={() =>
+                      setCircuitsRoom({
+                        id: room.id,
+                        name: room.name,
+                        circuits: room.circuits?.length ? room.circuits : defaultCircuitsFor(room.facilities),
+                      })
+                    }
+                    className="flex items-center justify-center w-full p-1.5 sm:p-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors text-xs sm:text-sm"
+                  >
+                    <BoltIcon className="w-4 h-4 sm:w-5 sm:h-5 mr-1 sm:mr-2" />
+                    Circuits
+                  </button>
                 </div>
               </motion.div>
             ))}
@@ -527,6 +598,14 @@ const RoomsPage = () => {
             handleAddRoom(mappedRoomData);
           }}
         />
+
+        <RoomCircuitsModal
+          isOpen={circuitsRoom !== null}
+          roomName={circuitsRoom?.name || ''}
+          circuits={circuitsRoom?.circuits || []}
+          onClose={() => setCircuitsRoom(null)}
+          onSubmit={handleSaveCircuits}
+        />
       </div>
     </div>
   );
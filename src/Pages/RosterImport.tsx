@@ -0,0 +1,332 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Swal from 'sweetalert2';
+import {
+  ArrowUpTrayIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  ForwardIcon,
+  IdentificationIcon,
+} from '@heroicons/react/24/outline';
+import AdminSidebar from '../components/AdminSidebar';
+import { useAuth } from './AuthContext';
+import { theme } from '../styles/theme';
+import {
+  applyRosterImport,
+  fetchRosterContext,
+  ImportedStudent,
+  parseRosterFile,
+  planRosterImport,
+  RosterAction,
+  RosterPlanEntry,
+} from '../services/rosterImport';
+import { assignStudentCard } from '../services/rfidCards';
+import { subscribeToUnregisteredUids } from '../services/rtdbRepository';
+
+const ACTION_LABELS: Record<RosterAction, string> = {
+  create: 'Create',
+  update: 'Update',
+  unchanged: 'Unchanged',
+  conflict: 'Conflict',
+};
+
+const ACTION_BADGES: Record<RosterAction, string> = {
+  create: theme.components.badge.success,
+  update: theme.components.badge.info,
+  unchanged: 'bg-gray-100 text-gray-700',
+  conflict: theme.components.badge.error,
+};
+
+interface PairingProps {
+  students: ImportedStudent[];
+  onDone: () => void;
+}
+
+// Binds each card that newly appears in /Unregistered to the next student in
+// file order. Cards already waiting there when pairing starts are ignored, so
+// a stray earlier tap is never bound to the first student.
+const CardPairing: React.FC<PairingProps> = ({ students, onDone }) => {
+  const { currentUser } = useAuth();
+  const [index, setIndex] = useState(0);
+  const [paired, setPaired] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+  const seen = useRef<Set<string> | null>(null);
+  const binding = useRef(false);
+  const indexRef = useRef(0);
+
+  useEffect(() => {
+    indexRef.current = index;
+  }, [index]);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToUnregisteredUids(
+      async (uids) => {
+        if (!seen.current) {
+          seen.current = new Set(uids);
+          return;
+        }
+        const fresh = uids.filter((uid) => !seen.current!.has(uid));
+        fresh.forEach((uid) => seen.current!.add(uid));
+        const student = students[indexRef.current];
+        if (fresh.length === 0 || !student || binding.current) return;
+
+        // One tap per student; extra cards tapped together are left for the next pass.
+        const cardUid = fresh[0];
+        binding.current = true;
+        try {
+          await assignStudentCard(cardUid, student, 'Paired during roster import', {
+            uid: currentUser?.uid || '',
+            fullName: currentUser?.fullName || '',
+            role: currentUser?.role || 'admin',
+          });
+          setPaired((prev) => ({ ...prev, [student.id]: cardUid }));
+          setError('');
+          setIndex((prev) => prev + 1);
+        } catch (err) {
+          console.error('Error pairing card:', err);
+          setError(err instanceof Error ? err.message : `Failed to pair ${cardUid}`);
+        } finally {
+          binding.current = false;
+        }
+      },
+      (err) => console.error('Error watching unregistered cards:', err)
+    );
+    return () => unsubscribe();
+  }, [students, currentUser]);
+
+  const current = students[index];
+
+  return (
+    <div className={`${theme.components.card} p-4 sm:p-6`}>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Tap cards in order</h2>
+          <p className="text-sm text-gray-500">
+            {index} of {students.length} paired
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {current && (
+            <button
+              onClick={() => setIndex((prev) => prev + 1)}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50"
+            >
+              <ForwardIcon className="w-4 h-4" />
+              Skip
+            </button>
+          )}
+          <button onClick={onDone} className={theme.components.button.primary}>
+            {current ? 'Stop Pairing' : 'Done'}
+          </button>
+        </div>
+      </div>
+
+      {current ? (
+        <div className="rounded-xl border-2 border-dashed border-indigo-300 bg-indigo-50 p-6 text-center mb-6">
+          <IdentificationIcon className="w-10 h-10 text-indigo-500 mx-auto mb-2 animate-pulse" />
+          <p className="text-sm text-indigo-700">Tap a new card on the reader for</p>
+          <p className="text-xl font-bold text-indigo-900">{current.fullName}</p>
+          {error && <p className="text-sm text-rose-600 mt-2">{error}</p>}
+        </div>
+      ) : (
+        <p className="text-center text-green-700 font-medium mb-6">Every student in the list has been handled.</p>
+      )}
+
+      <ol className="divide-y divide-gray-100 max-h-96 overflow-y-auto">
+        {students.map((student, position) => (
+          <li
+            key={student.id}
+            className={`flex justify-between py-2 text-sm ${position === index ? 'font-semibold text-indigo-700' : 'text-gray-700'}`}
+          >
+            <span>
+              {position + 1}. {student.fullName}
+            </span>
+            <span className="font-mono text-gray-500">
+              {paired[student.id] || (position < index ? 'skipped' : '')}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+const RosterImport: React.FC = () => {
+  const [fileName, setFileName] = useState('');
+  const [plan, setPlan] = useState<RosterPlanEntry[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [imported, setImported] = useState<ImportedStudent[] | null>(null);
+  const [pairing, setPairing] = useState(false);
+
+  const counts = useMemo(
+    () =>
+      plan.reduce(
+        (acc, entry) => ({ ...acc, [entry.action]: acc[entry.action] + 1 }),
+        { create: 0, update: 0, unchanged: 0, conflict: 0 } as Record<RosterAction, number>
+      ),
+    [plan]
+  );
+
+  const unpaired = useMemo(() => (imported || []).filter((student) => !student.rfidUid), [imported]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setBusy(true);
+    try {
+      const [rows, { students, sections }] = await Promise.all([parseRosterFile(file), fetchRosterContext()]);
+      setPlan(planRosterImport(rows, students, sections));
+      setFileName(file.name);
+      setImported(null);
+    } catch (error) {
+      console.error('Error reading roster:', error);
+      Swal.fire('Error', error instanceof Error ? error.message : 'Failed to read the roster.', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    const result = await Swal.fire({
+      title: 'Import roster?',
+      text: `${counts.create} students will be created and ${counts.update} updated.${
+        counts.conflict ? ` ${counts.conflict} conflicting rows will be skipped.` : ''
+      }`,
+      icon: 'question',
+      showCancelButton: true,
+      confirmButtonText: 'Import',
+    });
+    if (!result.isConfirmed) return;
+
+    setBusy(true);
+    try {
+      const students = await applyRosterImport(plan);
+      setImported(students);
+      setPlan([]);
+      Swal.fire('Imported', `${students.length} students are on the roster.`, 'success');
+    } catch (error) {
+      console.error('Error importing roster:', error);
+      Swal.fire('Error', 'Failed to import the roster. No later batches were written.', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex h-screen bg-gradient-to-br from-blue-50 via-purple-50/30 to-rose-50/30">
+      <AdminSidebar />
+
+      <div className="flex-1 transition-all duration-300 ml-[80px] lg:ml-64 p-4 sm:p-8 overflow-y-auto">
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-6 sm:mb-8">
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold text-blue-900 flex items-center">
+              <ArrowUpTrayIcon className="w-6 h-6 sm:w-8 sm:h-8 mr-2 sm:mr-3 text-blue-600" />
+              Roster Import
+            </h1>
+            <p className="mt-1 text-blue-600/80 text-sm sm:text-base">
+              Import a registrar CSV or XLSX with ID number, name, department, year level and section columns
+            </p>
+          </div>
+
+          <label
+            className={`${theme.components.button.primary} mt-4 sm:mt-0 cursor-pointer text-sm sm:text-base px-3 sm:px-4 py-1.5 sm:py-2 ${
+              busy ? 'opacity-50 pointer-events-none' : ''
+            }`}
+          >
+            <ArrowUpTrayIcon className="w-4 h-4 sm:w-5 sm:h-5 mr-1 sm:mr-2" />
+            Choose File
+            <input type="file" accept=".csv,.xlsx" onChange={handleFile} className="hidden" />
+          </label>
+        </div>
+
+        {pairing ? (
+          <CardPairing students={unpaired} onDone={() => setPairing(false)} />
+        ) : imported ? (
+          <div className={`${theme.components.card} p-6 text-center`}>
+            <CheckCircleIcon className="w-12 h-12 text-green-500 mx-auto mb-2" />
+            <p className="text-gray-700 mb-4">
+              {imported.length} students imported; {unpaired.length} still need a card.
+            </p>
+            {unpaired.length > 0 && (
+              <button onClick={() => setPairing(true)} className={`${theme.components.button.primary} mx-auto`}>
+                <IdentificationIcon className="w-5 h-5 mr-2" />
+                Start Card Pairing
+              </button>
+            )}
+          </div>
+        ) : plan.length > 0 ? (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-6">
+              {(Object.keys(ACTION_LABELS) as RosterAction[]).map((action) => (
+                <div key={action} className={theme.components.card}>
+                  <p className="text-sm text-gray-500">{ACTION_LABELS[action]}</p>
+                  <p className="text-2xl font-bold text-blue-900">{counts[action]}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className={`${theme.components.card} overflow-x-auto p-0 mb-6`}>
+              <div className="flex items-center justify-between p-4 border-b">
+                <span className="text-sm text-gray-600">{fileName}</span>
+                <button
+                  onClick={handleImport}
+                  disabled={busy || counts.create + counts.update === 0}
+                  className={`${theme.components.button.primary} disabled:opacity-50`}
+                >
+                  Import {counts.create + counts.update} Students
+                </button>
+              </div>
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {['Line', 'ID Number', 'Name', 'Department', 'Year', 'Section', 'Result'].map((heading) => (
+                      <th
+                        key={heading}
+                        className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                      >
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {plan.map((entry) => (
+                    <tr key={entry.row.line}>
+                      <td className="px-4 py-2 text-sm text-gray-500">{entry.row.line}</td>
+                      <td className="px-4 py-2 text-sm font-mono text-gray-700">{entry.row.idNumber}</td>
+                      <td className="px-4 py-2 text-sm text-gray-900">{entry.row.fullName}</td>
+                      <td className="px-4 py-2 text-sm text-gray-700">{entry.row.department}</td>
+                      <td className="px-4 py-2 text-sm text-gray-700">{entry.row.yearLevel}</td>
+                      <td className="px-4 py-2 text-sm text-gray-700">{entry.row.section}</td>
+                      <td className="px-4 py-2 text-sm">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ACTION_BADGES[entry.action]}`}>
+                          {ACTION_LABELS[entry.action]}
+                        </span>
+                        {entry.reason && (
+                          <span className="flex items-center text-xs text-rose-600 mt-1">
+                            <ExclamationTriangleIcon className="w-3 h-3 mr-1" />
+                            {entry.reason}
+                          </span>
+                        )}
+                        {entry.changes.length > 0 && (
+                          <span className="block text-xs text-gray-500 mt-1">{entry.changes.join(', ')}</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        ) : (
+          <p className="text-center text-gray-500 py-12">
+            {busy ? 'Reading roster...' : 'Choose a roster file to preview the import.'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RosterImport;
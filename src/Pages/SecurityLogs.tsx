@@ -1,229 +1,240 @@
-import React, { useState, useEffect } from 'react';
-import { collection, query, orderBy, onSnapshot, Timestamp } from 'firebase/firestore';
-import { db } from '../firebase';
-import { motion, AnimatePresence } from 'framer-motion';
-import { 
-  ShieldExclamationIcon, 
-  LockClosedIcon, 
-  UserIcon, 
-  CalendarIcon,
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import Swal from 'sweetalert2';
+import {
   ArrowPathIcon,
-  FunnelIcon,
-  XMarkIcon
-} from '@heroicons/react/24/solid';
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  LinkIcon,
+  ShieldExclamationIcon,
+  XCircleIcon,
+} from '@heroicons/react/24/outline';
 import AdminSidebar from '../components/AdminSidebar';
-import Swal from 'sweetalert2';
+import { theme } from '../styles/theme';
+import { AuditCategory, AuditChainReport, AuditEntry, AuditOutcome } from '../types';
+import { AUDIT_CATEGORY_LABELS, CHAIN_BREAK_REASONS, subscribeToAuditLog, verifyAuditLog } from '../services/auditLog';
+
+const PAGE_SIZE = 100;
+
+const OUTCOME_STYLES: Record<AuditOutcome, string> = {
+  success: 'bg-green-100 text-green-800',
+  warning: 'bg-yellow-100 text-yellow-800',
+  failure: 'bg-red-100 text-red-800',
+};
+
+const CATEGORIES = Object.keys(AUDIT_CATEGORY_LABELS) as AuditCategory[];
 
-// Define interface for security logs
-interface SecurityLog {
-  id: string;
-  timestamp: Timestamp;
-  event: string;
-  description: string;
-  user: string;
-  deviceId?: string;
-  location?: string;
-  status: 'success' | 'warning' | 'error';
-}
+const formatTime = (millis: number) =>
+  new Intl.DateTimeFormat('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).format(new Date(millis));
 
+const matchesSearch = (entry: AuditEntry, search: string) =>
+  [entry.summary, entry.action, entry.actor.name, entry.actor.id, entry.target?.name, entry.room, entry.source]
+    .filter(Boolean)
+    .some((value) => String(value).toLowerCase().includes(search));
+
+// One stream for door access, card denials, tamper alerts, admin actions and
+// sign-ins, read from the hash-chained audit log the functions append to.
 const SecurityLogsPage: React.FC = () => {
-  const [logs, setLogs] = useState<SecurityLog[]>([]);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
   const [loading, setLoading] = useState(true);
-  const [filter, setFilter] = useState<string>('all');
+  const [pageCount, setPageCount] = useState(1);
+  const [category, setCategory] = useState<AuditCategory | 'all'>('all');
+  const [outcome, setOutcome] = useState<AuditOutcome | 'all'>('all');
   const [searchQuery, setSearchQuery] = useState('');
-  const [isFilterMenuOpen, setIsFilterMenuOpen] = useState(false);
-  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+  const [report, setReport] = useState<AuditChainReport | null>(null);
 
   useEffect(() => {
-    // Set up real-time listener for security logs
-    const logsRef = collection(db, 'securityLogs');
-    const q = query(logsRef, orderBy('timestamp', 'desc'));
-
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      const newLogs = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as SecurityLog[];
-      setLogs(newLogs);
-      setLoading(false);
-    }, (error) => {
-      console.error('Error fetching security logs:', error);
-      Swal.fire({
-        icon: 'error',
-        title: 'Error',
-        text: 'Failed to fetch security logs. Please try again later.',
-      });
-      setLoading(false);
-    });
-
+    const unsubscribe = subscribeToAuditLog(
+      pageCount * PAGE_SIZE,
+      (data) => {
+        setEntries(data);
+        setLoading(false);
+      },
+      (error) => {
+        console.error('Error fetching security logs:', error);
+        Swal.fire('Error', 'Failed to fetch security logs. Please try again later.', 'error');
+        setLoading(false);
+      }
+    );
     return () => unsubscribe();
-  }, []);
-
-  const filteredLogs = logs.filter(log => {
-    const matchesFilter = filter === 'all' || log.status === filter;
-    const matchesSearch = 
-      log.event.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      log.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      log.user.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      (log.deviceId && log.deviceId.toLowerCase().includes(searchQuery.toLowerCase()));
-    return matchesFilter && matchesSearch;
-  });
-
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'success':
-        return 'bg-green-100 text-green-800 border-green-300';
-      case 'warning':
-        return 'bg-yellow-100 text-yellow-800 border-yellow-300';
-      case 'error':
-        return 'bg-red-100 text-red-800 border-red-300';
-      default:
-        return 'bg-gray-100 text-gray-800 border-gray-300';
-    }
-  };
+  }, [pageCount]);
 
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'success':
-        return <LockClosedIcon className="h-5 w-5 text-green-600" />;
-      case 'warning':
-        return <ShieldExclamationIcon className="h-5 w-5 text-yellow-600" />;
-      case 'error':
-        return <XMarkIcon className="h-5 w-5 text-red-600" />;
-      default:
-        return <ShieldExclamationIcon className="h-5 w-5 text-gray-600" />;
-    }
-  };
+  const filteredEntries = useMemo(() => {
+    const search = searchQuery.trim().toLowerCase();
+    return entries.filter(
+      (entry) =>
+        (category === 'all' || entry.category === category) &&
+        (outcome === 'all' || entry.outcome === outcome) &&
+        (!search || matchesSearch(entry, search))
+    );
+  }, [entries, category, outcome, searchQuery]);
 
-  const formatDate = (timestamp: Timestamp) => {
-    const date = timestamp.toDate();
-    return new Intl.DateTimeFormat('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit'
-    }).format(date);
+  const handleVerify = async () => {
+    setVerifying(true);
+    try {
+      setReport(await verifyAuditLog());
+    } catch (error) {
+      console.error('Error verifying the audit log:', error);
+      Swal.fire('Error', error instanceof Error ? error.message : 'Failed to verify the audit log.', 'error');
+    } finally {
+      setVerifying(false);
+    }
   };
 
   return (
-    <div className="flex h-screen bg-gray-100">
+    <div className="flex h-screen bg-gradient-to-br from-blue-50 via-purple-50/30 to-rose-50/30">
       <AdminSidebar />
-      <div className="flex-1 overflow-hidden">
-        <div className="p-8 h-full flex flex-col">
-          <div className="flex justify-between items-center mb-6">
-            <h1 className="text-2xl font-bold text-gray-900">Security Logs</h1>
-            <div className="flex space-x-4">
-              <div className="relative">
-                <button
-                  onClick={() => setIsFilterMenuOpen(!isFilterMenuOpen)}
-                  className="flex items-center px-4 py-2 bg-white rounded-lg shadow-sm hover:bg-gray-50 border border-gray-200"
-                >
-                  <FunnelIcon className="h-5 w-5 text-gray-500 mr-2" />
-                  <span className="capitalize">{filter}</span>
-                </button>
-                {isFilterMenuOpen && (
-                  <div className="absolute right-0 mt-2 w-48 bg-white rounded-lg shadow-lg z-10 border border-gray-200">
-                    {['all', 'success', 'warning', 'error'].map((status) => (
-                      <button
-                        key={status}
-                        onClick={() => {
-                          setFilter(status);
-                          setIsFilterMenuOpen(false);
-                        }}
-                        className={`w-full text-left px-4 py-2 hover:bg-gray-50 first:rounded-t-lg last:rounded-b-lg capitalize ${
-                          filter === status ? 'bg-indigo-50 text-indigo-700' : ''
-                        }`}
-                      >
-                        {status}
-                      </button>
-                    ))}
-                  </div>
-                )}
-              </div>
-              <div className="relative">
-                <input
-                  type="text"
-                  placeholder="Search logs..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="w-64 px-4 py-2 rounded-lg border border-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
-                />
-              </div>
-            </div>
+
+      <div className="flex-1 transition-all duration-300 ml-[80px] lg:ml-64 p-4 sm:p-8 overflow-y-auto">
+        <div className="mb-6 sm:mb-8 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold text-blue-900 flex items-center">
+              <ShieldExclamationIcon className="w-6 h-6 sm:w-8 sm:h-8 mr-2 sm:mr-3 text-blue-600" />
+              Security Logs
+            </h1>
+            <p className="mt-1 text-blue-600/80 text-sm sm:text-base">
+              Every entry is chained to the one before it, so edits and deletions show up when verified.
+            </p>
+          </div>
+          <button
+            onClick={handleVerify}
+            disabled={verifying}
+            className={`${theme.components.button.primary} gap-2 disabled:opacity-50`}
+          >
+            {verifying ? <ArrowPathIcon className="w-4 h-4 animate-spin" /> : <LinkIcon className="w-4 h-4" />}
+            Verify Integrity
+          </button>
+        </div>
+
+        {report && (
+          <div
+            className={`mb-6 p-4 rounded-lg flex items-start gap-3 ${
+              report.firstBreak ? 'bg-red-50 text-red-800' : 'bg-green-50 text-green-800'
+            }`}
+          >
+            {report.firstBreak ? (
+              <XCircleIcon className="w-6 h-6 flex-shrink-0" />
+            ) : (
+              <CheckCircleIcon className="w-6 h-6 flex-shrink-0" />
+            )}
+            <p className="text-sm">
+              {report.firstBreak
+                ? `The chain is broken: entry #${report.firstBreak.seq} ${CHAIN_BREAK_REASONS[report.firstBreak.reason]}. ${report.checked} entries before it are intact.`
+                : `All ${report.checked} entries are intact and in order.`}
+            </p>
           </div>
+        )}
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          {(['all', ...CATEGORIES] as const).map((value) => (
+            <button
+              key={value}
+              onClick={() => setCategory(value)}
+              className={`px-3 py-1.5 rounded-full text-sm transition ${
+                category === value ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-blue-50'
+              }`}
+            >
+              {value === 'all' ? 'All' : AUDIT_CATEGORY_LABELS[value]}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-2 mb-4">
+          <input
+            type="text"
+            placeholder="Search logs..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className={`${theme.components.input} sm:w-72`}
+          />
+          <select
+            value={outcome}
+            onChange={(e) => setOutcome(e.target.value as AuditOutcome | 'all')}
+            className={`${theme.components.input} sm:w-48`}
+          >
+            <option value="all">All outcomes</option>
+            <option value="success">Success</option>
+            <option value="warning">Warning</option>
+            <option value="failure">Failure</option>
+          </select>
+        </div>
 
-          <div className="flex-1 bg-white rounded-lg shadow overflow-hidden border border-gray-200">
+        <div className={`${theme.components.card} p-0`}>
+          {loading ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="animate-spin rounded-full h-10 w-10 sm:h-12 sm:w-12 border-b-2 border-indigo-600"></div>
+            </div>
+          ) : filteredEntries.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-64">
+              <ExclamationTriangleIcon className="h-12 w-12 text-gray-400 mb-4" />
+              <p className="text-gray-500">No security logs found</p>
+            </div>
+          ) : (
             <div className="overflow-x-auto">
-              <div className="inline-block min-w-full align-middle">
-                <div className="overflow-y-auto" style={{ maxHeight: 'calc(100vh - 240px)' }}>
-                  {loading ? (
-                    <div className="flex justify-center items-center h-64">
-                      <ArrowPathIcon className="h-8 w-8 text-gray-400 animate-spin" />
-                    </div>
-                  ) : filteredLogs.length === 0 ? (
-                    <div className="flex flex-col items-center justify-center h-64">
-                      <ShieldExclamationIcon className="h-12 w-12 text-gray-400 mb-4" />
-                      <p className="text-gray-500 text-lg">No security logs found</p>
-                    </div>
-                  ) : (
-                    <table className="min-w-full divide-y divide-gray-200">
-                      <thead className="bg-gray-50">
-                        <tr>
-                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
-                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Event</th>
-                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
-                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
-                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
-                        </tr>
-                      </thead>
-                      <tbody className="bg-white divide-y divide-gray-200">
-                        {filteredLogs.map((log) => (
-                          <motion.tr
-                            key={log.id}
-                            initial={{ opacity: 0 }}
-                            animate={{ opacity: 1 }}
-                            exit={{ opacity: 0 }}
-                            className="hover:bg-gray-50 transition-colors"
-                          >
-                            <td className="px-6 py-4 whitespace-nowrap">
-                              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${getStatusColor(log.status)}`}>
-                                {getStatusIcon(log.status)}
-                                <span className="ml-1.5 capitalize">{log.status}</span>
-                              </span>
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap">
-                              <div className="text-sm font-medium text-gray-900">{log.event}</div>
-                            </td>
-                            <td className="px-6 py-4">
-                              <div className="text-sm text-gray-500 max-w-md truncate">{log.description}</div>
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap">
-                              <div className="flex items-center">
-                                <UserIcon className="h-5 w-5 text-gray-400 mr-2" />
-                                <div className="text-sm text-gray-900">{log.user}</div>
-                              </div>
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap">
-                              <div className="flex items-center">
-                                <CalendarIcon className="h-5 w-5 text-gray-400 mr-2" />
-                                <div className="text-sm text-gray-500">{formatDate(log.timestamp)}</div>
-                              </div>
-                            </td>
-                          </motion.tr>
-                        ))}
-                      </tbody>
-                    </table>
-                  )}
-                </div>
-              </div>
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {['#', 'Time', 'Category', 'Event', 'Actor', 'Room', 'Outcome'].map((heading) => (
+                      <th
+                        key={heading}
+                        className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                      >
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {filteredEntries.map((entry) => (
+                    <motion.tr key={entry.seq} initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 text-xs text-gray-500 font-mono whitespace-nowrap" title={entry.hash}>
+                        {entry.seq}
+                        <div className="text-gray-400">{entry.hash.slice(0, 8)}</div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 whitespace-nowrap">{formatTime(entry.occurredAt)}</td>
+                      <td className="px-4 py-3 text-sm text-gray-700 whitespace-nowrap">
+                        {AUDIT_CATEGORY_LABELS[entry.category] || entry.category}
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="text-sm text-gray-900">{entry.summary}</div>
+                        <div className="text-xs text-gray-400">{entry.source}</div>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <div className="text-sm text-gray-900">{entry.actor.name || entry.actor.id}</div>
+                        <div className="text-xs text-gray-500 capitalize">{entry.actor.role || entry.actor.type}</div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 whitespace-nowrap">{entry.room || '—'}</td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${OUTCOME_STYLES[entry.outcome]}`}>
+                          {entry.outcome}
+                        </span>
+                      </td>
+                    </motion.tr>
+                  ))}
+                </tbody>
+              </table>
             </div>
-          </div>
+          )}
         </div>
+
+        {entries.length === pageCount * PAGE_SIZE && (
+          <div className="flex justify-center mt-4">
+            <button onClick={() => setPageCount(pageCount + 1)} className={theme.components.button.secondary}>
+              Load More
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
 };
 
-export default SecurityLogsPage;
\ No newline at end of file
+export default SecurityLogsPage;
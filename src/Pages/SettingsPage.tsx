@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import AdminSidebar from '../components/AdminSidebar';
-import { UserIcon, LockClosedIcon, EyeIcon, EyeSlashIcon, PhotoIcon } from '@heroicons/react/24/solid';
+import { UserIcon, LockClosedIcon, EyeIcon, EyeSlashIcon, PhotoIcon, ComputerDesktopIcon } from '@heroicons/react/24/solid';
 import { useAuth } from './AuthContext';
 import { SettingsSection } from '../types';
 import { doc, getDoc, setDoc } from 'firebase/firestore';
@@ -9,6 +9,9 @@ import { updatePassword, reauthenticateWithCredential, EmailAuthProvider } from
 import { db, storage, auth } from '../firebase';
 import { ToastContainer, toast } from 'react-toastify';
 import 'react-toastify/dist/ReactToastify.css';
+import ActiveSessions from '../components/ActiveSessions';
+import TwoStepSettings from '../components/TwoStepSettings';
+import { DEFAULT_SESSION_POLICY, loadSessionPolicy, saveSessionPolicy, SessionPolicy } from '../services/userSessions';
 
 const SettingsPage: React.FC = () => {
   const { currentUser } = useAuth();
@@ -42,6 +45,32 @@ const SettingsPage: React.FC = () => {
     profilePicture: '',
   });
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [sessionPolicy, setSessionPolicy] = useState<SessionPolicy>(DEFAULT_SESSION_POLICY);
+  const [savingPolicy, setSavingPolicy] = useState(false);
+  const isAdmin = currentUser?.role === 'admin';
+
+  useEffect(() => {
+    if (!isAdmin) return;
+    loadSessionPolicy()
+      .then(setSessionPolicy)
+      .catch((error) => {
+        console.error('Error loading session policy:', error);
+        toast.error('Failed to load the idle sign-out setting');
+      });
+  }, [isAdmin]);
+
+  const handleSavePolicy = async () => {
+    setSavingPolicy(true);
+    try {
+      await saveSessionPolicy(sessionPolicy);
+      toast.success('Idle sign-out updated; it applies from each browser\'s next sign-in');
+    } catch (error) {
+      console.error('Error saving session policy:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save the idle sign-out setting');
+    } finally {
+      setSavingPolicy(false);
+    }
+  };
 
   // Fetch user profile data from Firestore
   useEffect(() => {
@@ -333,11 +362,63 @@ const SettingsPage: React.FC = () => {
               </div>
             </>
           )}
+          <TwoStepSettings />
+        </div>
+      ),
+    },
+    sessions: {
+      icon: ComputerDesktopIcon,
+      title: 'Sessions',
+      description: 'See where you are signed in and sign out other browsers',
+      content: (
+        <div className="space-y-8">
+          <ActiveSessions />
+          {isAdmin && (
+            <div className="pt-6 border-t border-blue-100 space-y-4">
+              <div>
+                <h3 className="font-semibold text-blue-800">Idle sign-out</h3>
+                <p className="text-xs text-blue-400">
+                  Applies to every account. Shared lab and faculty-room PCs sign out after this long without use.
+                </p>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-blue-800 mb-2">Sign out after (minutes)</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={sessionPolicy.idleTimeoutMinutes}
+                    onChange={(e) => setSessionPolicy(prev => ({ ...prev, idleTimeoutMinutes: Number(e.target.value) }))}
+                    className="w-full px-3 py-2 border border-blue-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-blue-800 mb-2">Warn first (seconds)</label>
+                  <input
+                    type="number"
+                    min={10}
+                    value={sessionPolicy.warningSeconds}
+                    onChange={(e) => setSessionPolicy(prev => ({ ...prev, warningSeconds: Number(e.target.value) }))}
+                    className="w-full px-3 py-2 border border-blue-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              <button
+                onClick={handleSavePolicy}
+                disabled={savingPolicy}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                {savingPolicy ? 'Saving...' : 'Save Idle Sign-out'}
+              </button>
+            </div>
+          )}
         </div>
       ),
     },
   };
 
+  const activeKey = Object.keys(settingsSections)[activeSection];
+
   return (
     <div className="flex h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
       <AdminSidebar />
@@ -380,42 +461,44 @@ const SettingsPage: React.FC = () => {
             {/* Settings Content */}
             <div className="col-span-9 bg-white rounded-xl shadow-md p-6">
               <h2 className="text-2xl font-bold text-blue-800 mb-6">
-                {settingsSections[Object.keys(settingsSections)[activeSection]].title}
+                {settingsSections[activeKey].title}
               </h2>
-              {settingsSections[Object.keys(settingsSections)[activeSection]].content}
-              <div className="mt-6 flex justify-end space-x-4">
-                <button
-                  onClick={handleSaveChanges}
-                  disabled={loading}
-                  className={`flex items-center px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition ${
-                    loading ? 'opacity-50 cursor-not-allowed' : ''
-                  }`}
-                >
-                  {loading ? (
-                    <svg
-                      className="animate-spin h-5 w-5 mr-2 text-white"
-                      viewBox="0 0 24 24"
-                    >
-                      <circle
-                        className="opacity-25"
-                        cx="12"
-                        cy="12"
-                        r="10"
-                        stroke="currentColor"
-                        strokeWidth="4"
-                      />
-                      <path
-                        className="opacity-75"
-                        fill="currentColor"
-                        d="M4 12a8 8 0 018-8v8h8a8 8 0 01-8 8v-8H4z"
-                      />
-                    </svg>
-                  ) : (
-                    <UserIcon className="h-5 w-5 mr-2" />
-                  )}
-                  {loading ? 'Saving...' : 'Save Changes'}
-                </button>
-              </div>
+              {settingsSections[activeKey].content}
+              {activeKey !== 'sessions' && (
+                <div className="mt-6 flex justify-end space-x-4">
+                  <button
+                    onClick={handleSaveChanges}
+                    disabled={loading}
+                    className={`flex items-center px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition ${
+                      loading ? 'opacity-50 cursor-not-allowed' : ''
+                    }`}
+                  >
+                    {loading ? (
+                      <svg
+                        className="animate-spin h-5 w-5 mr-2 text-white"
+                        viewBox="0 0 24 24"
+                      >
+                        <circle
+                          className="opacity-25"
+                          cx="12"
+                          cy="12"
+                          r="10"
+                          stroke="currentColor"
+                          strokeWidth="4"
+                        />
+                        <path
+                          className="opacity-75"
+                          fill="currentColor"
+                          d="M4 12a8 8 0 018-8v8h8a8 8 0 01-8 8v-8H4z"
+                        />
+                      </svg>
+                    ) : (
+                      <UserIcon className="h-5 w-5 mr-2" />
+                    )}
+                    {loading ? 'Saving...' : 'Save Changes'}
+                  </button>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -1,4 +1,5 @@
 import { useEffect, useState } from 'react';
+import Swal from 'sweetalert2';
 import { useNavigate, Link } from 'react-router-dom';
 import { useAuth } from './AuthContext';
 import StudentNavbar from '../components/StudentNavbar';
@@ -11,6 +12,7 @@ import {
   ClockIcon,
   UserCircleIcon,
   UserIcon,
+  ExclamationTriangleIcon,
 } from '@heroicons/react/24/solid';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
 import { format, parseISO, isWithinInterval, parse } from 'date-fns';
@@ -24,6 +26,14 @@ import {
   onSnapshot,
 } from 'firebase/firestore';
 import { db } from '../firebase';
+import { escapeHtml } from '../utils/htmlUtils';
+import { getMyAttendanceHistory } from '../services/attendanceSessions';
+import {
+  subscribeToStudentAppeals,
+  subscribeToStudentCorrections,
+} from '../services/rtdbRepository';
+import { STATUS_LABELS, submitAttendanceAppeal } from '../services/attendanceCorrections';
+import { FinalizedAttendanceStatus, RTDBAttendanceAppeal, RTDBAttendanceCorrection } from '../types/rtdb';
 
 interface AttendanceRecord {
   id: string;
@@ -31,6 +41,7 @@ interface AttendanceRecord {
   sectionId: string;
   date: string;
   status: string;
+  subjectCode?: string;
 }
 
 interface Schedule {
@@ -75,12 +86,15 @@ const StudentDashboard = () => {
   const { currentUser } = useAuth();
   const navigate = useNavigate();
   const [attendance, setAttendance] = useState<AttendanceRecord[]>([]);
+  const [sessionAttendance, setSessionAttendance] = useState<AttendanceRecord[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [section, setSection] = useState<Section | null>(null);
   const [instructor, setInstructor] = useState<Instructor | null>(null);
+  const [appeals, setAppeals] = useState<Record<string, RTDBAttendanceAppeal>>({});
+  const [corrections, setCorrections] = useState<Record<string, Record<string, RTDBAttendanceCorrection>>>({});
 
   useEffect(() => {
-    if (!currentUser || localStorage.getItem('userRole') !== 'student') {
+    if (!currentUser || currentUser.role !== 'student') {
       navigate('/login');
       return;
     }
@@ -103,7 +117,6 @@ const StudentDashboard = () => {
               const studentDoc = studentSnapshot.docs[0];
               const studentData = { id: studentDoc.id, ...studentDoc.data() } as EnhancedStudent;
               setStudentData(studentData);
-              localStorage.setItem('userData', JSON.stringify(studentData));
             } else {
               setStudentData(null);
             }
@@ -169,9 +182,118 @@ const StudentDashboard = () => {
     fetchStudentData();
   }, [currentUser, navigate]);
 
+  // Finalized sessions carry each rostered student's settled status; the
+  // server picks out this student's.
+  useEffect(() => {
+    if (!studentData?.rfidUid) {
+      setSessionAttendance([]);
+      return;
+    }
+
+    let cancelled = false;
+    getMyAttendanceHistory()
+      .then((history) => {
+        if (cancelled) return;
+        setSessionAttendance(
+          history.map((entry) => ({
+            id: entry.sessionId,
+            studentId: studentData.id,
+            sectionId: entry.sectionId,
+            date: format(new Date(entry.scheduledStart), 'yyyy-MM-dd'),
+            status: entry.status,
+            subjectCode: entry.subjectCode,
+          }))
+        );
+      })
+      .catch((error) => console.error('Error loading attendance sessions:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [studentData?.id, studentData?.rfidUid]);
+
+  useEffect(() => {
+    const rfidUid = studentData?.rfidUid;
+    if (!rfidUid) {
+      setAppeals({});
+      setCorrections({});
+      return;
+    }
+
+    const unsubscribeAppeals = subscribeToStudentAppeals(rfidUid, setAppeals, (error) =>
+      console.error('Error listening to attendance appeals:', error)
+    );
+    const unsubscribeCorrections = subscribeToStudentCorrections(rfidUid, setCorrections, (error) =>
+      console.error('Error listening to attendance corrections:', error)
+    );
+
+    return () => {
+      unsubscribeAppeals();
+      unsubscribeCorrections();
+    };
+  }, [studentData?.rfidUid]);
+
+  const allAttendance = [...attendance, ...sessionAttendance];
+
+  // Latest appeal per session, so a rejected appeal can be followed by a new one
+  const latestAppeals = Object.values(appeals).reduce<Record<string, RTDBAttendanceAppeal>>((acc, appeal) => {
+    if (!acc[appeal.sessionId] || acc[appeal.sessionId].createdAt < appeal.createdAt) {
+      acc[appeal.sessionId] = appeal;
+    }
+    return acc;
+  }, {});
+
+  const handleDispute = async (record: AttendanceRecord) => {
+    if (!studentData?.rfidUid || !currentUser) return;
+
+    const options = (Object.keys(STATUS_LABELS) as FinalizedAttendanceStatus[])
+      .filter((status) => status !== record.status)
+      .map((status) => `<option value="${status}">${STATUS_LABELS[status]}</option>`)
+      .join('');
+    const { value } = await Swal.fire({
+      title: 'Dispute Attendance',
+      html: `
+        <p class="text-sm mb-3">${escapeHtml(record.subjectCode || 'Class')} on ${record.date} is recorded as
+          <strong>${escapeHtml(STATUS_LABELS[record.status as FinalizedAttendanceStatus] || record.status)}</strong>.</p>
+        <select id="appeal-status" class="swal2-select">${options}</select>
+        <textarea id="appeal-reason" class="swal2-textarea" placeholder="Explain why this record is wrong"></textarea>
+      `,
+      showCancelButton: true,
+      confirmButtonText: 'Submit Appeal',
+      preConfirm: () => {
+        const requestedStatus = (document.getElementById('appeal-status') as HTMLSelectElement).value;
+        const reason = (document.getElementById('appeal-reason') as HTMLTextAreaElement).value.trim();
+        if (!reason) {
+          Swal.showValidationMessage('A reason is required');
+          return false;
+        }
+        return { requestedStatus: requestedStatus as FinalizedAttendanceStatus, reason };
+      },
+    });
+    if (!value) return;
+
+    try {
+      await submitAttendanceAppeal({
+        rfidUid: studentData.rfidUid,
+        sessionId: record.id,
+        studentUid: currentUser.uid,
+        studentName: studentData.fullName,
+        sectionId: record.sectionId,
+        subjectCode: record.subjectCode || '',
+        currentStatus: record.status,
+        requestedStatus: value.requestedStatus,
+        reason: value.reason,
+      });
+      Swal.fire('Submitted', 'Your appeal has been sent for review.', 'success');
+    } catch (error) {
+      console.error('Error submitting attendance appeal:', error);
+      Swal.fire('Error', 'Failed to submit appeal. Please try again.', 'error');
+    }
+  };
+
   const getFilteredAttendance = () => {
     if (!section) return [];
-    const filtered = attendance.filter((a) => a.sectionId === section.id);
+    const filtered = allAttendance.filter((a) => a.sectionId === section.id);
     const now = new Date();
     return filtered.filter((a) => format(parseISO(a.date), 'yyyy-MM') === format(now, 'yyyy-MM'));
   };
@@ -230,8 +352,8 @@ const StudentDashboard = () => {
   }
 
   const overallAttendance =
-    attendance.length > 0
-      ? ((attendance.filter((a) => a.status === 'present').length / attendance.length) * 100).toFixed(1)
+    allAttendance.length > 0
+      ? ((allAttendance.filter((a) => a.status === 'present').length / allAttendance.length) * 100).toFixed(1)
       : '0';
   const enrolledSubjects = studentData.enrolledSubjects || [];
   const totalSubjects = enrolledSubjects.length;
@@ -424,6 +546,89 @@ const StudentDashboard = () => {
               )}
             </motion.div>
 
+            {/* Recent Class Records */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="bg-gray-800 rounded-3xl shadow-2xl p-6 hover:shadow-[0_0_20px_rgba(59,130,246,0.3)] transition-all duration-300 border border-gray-700"
+            >
+              <h2 className="text-2xl font-bold text-white mb-6 flex items-center gap-2">
+                <ClockIcon className="h-7 w-7 text-blue-400" />
+                Recent Class Records
+              </h2>
+              {sessionAttendance.length > 0 ? (
+                <div className="space-y-3">
+                  {[...sessionAttendance]
+                    .sort((a, b) => b.date.localeCompare(a.date))
+                    .slice(0, 10)
+                    .map((record) => {
+                      const appeal = latestAppeals[record.id];
+                      const history = Object.values(corrections[record.id] || {}).sort(
+                        (a, b) => b.changedAt - a.changedAt
+                      );
+                      return (
+                        <div
+                          key={record.id}
+                          className="p-4 bg-gray-700/50 rounded-xl border border-gray-600 flex flex-col md:flex-row md:items-center md:justify-between gap-3"
+                        >
+                          <div>
+                            <p className="font-medium text-white">
+                              {record.subjectCode || 'Class'} • {record.date}
+                            </p>
+                            <p
+                              className={`text-sm font-medium ${
+                                record.status === 'present'
+                                  ? 'text-green-400'
+                                  : record.status === 'late'
+                                  ? 'text-yellow-400'
+                                  : 'text-red-400'
+                              }`}
+                            >
+                              {STATUS_LABELS[record.status as FinalizedAttendanceStatus] || record.status}
+                            </p>
+                            {history.length > 0 && (
+                              <p className="text-xs text-gray-400 mt-1">
+                                Corrected by {history[0].changedBy.fullName || 'staff'} on{' '}
+                                {format(new Date(history[0].changedAt), 'MMM d, yyyy')}: {history[0].reason}
+                              </p>
+                            )}
+                          </div>
+                          {appeal?.status === 'pending' ? (
+                            <span className="px-3 py-1 bg-yellow-500/20 text-yellow-400 rounded-full text-sm border border-yellow-400/30">
+                              Appeal Pending
+                            </span>
+                          ) : (
+                            <div className="flex items-center gap-2">
+                              {appeal && (
+                                <span
+                                  className={`px-3 py-1 rounded-full text-sm border ${
+                                    appeal.status === 'approved'
+                                      ? 'bg-green-500/20 text-green-400 border-green-400/30'
+                                      : 'bg-red-500/20 text-red-400 border-red-400/30'
+                                  }`}
+                                  title={appeal.reviewNote || undefined}
+                                >
+                                  Appeal {appeal.status === 'approved' ? 'Approved' : 'Rejected'}
+                                </span>
+                              )}
+                              <button
+                                onClick={() => handleDispute(record)}
+                                className="flex items-center gap-1 px-3 py-1 bg-gray-600 hover:bg-gray-500 text-white rounded-lg text-sm transition-colors"
+                              >
+                                <ExclamationTriangleIcon className="h-4 w-4" />
+                                Dispute
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                </div>
+              ) : (
+                <p className="text-gray-400 text-center text-lg">No finalized class records yet.</p>
+              )}
+            </motion.div>
+
             {/* Manage Enrollment */}
             <motion.div
               initial={{ opacity: 0, y: 20 }}
@@ -17,9 +17,11 @@ import {
   CakeIcon,
   CalendarIcon,
   LockClosedIcon,
+  ComputerDesktopIcon,
 } from '@heroicons/react/24/outline';
 import Swal from 'sweetalert2';
 import StudentNavbar from '../components/StudentNavbar';
+import ActiveSessions from '../components/ActiveSessions';
 
 // Define interface for student data
 interface StudentData {
@@ -487,6 +489,15 @@ const StudentProfile: React.FC = () => {
                 </motion.form>
               )}
             </div>
+
+            {/* Active Sessions Section */}
+            <div className="mt-6 pt-6 border-t border-gray-700">
+              <h3 className="flex items-center text-sm text-cyan-400 mb-4">
+                <ComputerDesktopIcon className="h-5 w-5 mr-2" />
+                Your Active Sessions
+              </h3>
+              <ActiveSessions tone="dark" />
+            </div>
           </motion.div>
         )}
       </div>
@@ -12,6 +12,13 @@ import {
   arrayRemove,
 } from 'firebase/firestore';
 import { db } from '../firebase';
+import { AttendancePolicy } from '../types';
+import {
+  DEFAULT_ATTENDANCE_POLICY,
+  resolveAttendancePolicy,
+  validateAttendancePolicy,
+} from '../services/attendancePolicy';
+import AttendancePolicyFields from '../components/AttendancePolicyFields';
 import { useAuth } from './AuthContext';
 import AdminSidebar from '../components/AdminSidebar';
 import Modal from '../components/Modal';
@@ -74,6 +81,7 @@ interface Subject {
   prerequisites?: string[];
   learningObjectives?: string[];
   status: 'active' | 'inactive';
+  attendancePolicy?: AttendancePolicy;
 }
 
 // Department color mapping
@@ -105,6 +113,7 @@ const AdminSubjects: React.FC = () => {
     prerequisites: [],
     learningObjectives: [],
     status: 'active',
+    attendancePolicy: DEFAULT_ATTENDANCE_POLICY,
   });
 
   // Fetch subjects, departments, instructors, rooms, and sections
@@ -187,6 +196,15 @@ const AdminSubjects: React.FC = () => {
   // Add or update subject and sync with teachers' assignedSubjects
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const policyError = validateAttendancePolicy(formData.attendancePolicy || {});
+    if (policyError) {
+      Swal.fire({
+        icon: 'error',
+        title: 'Invalid Attendance Policy',
+        text: policyError,
+      });
+      return;
+    }
     try {
       const subjectsCollection = collection(db, 'subjects');
       let subjectId: string;
@@ -276,6 +294,7 @@ const AdminSubjects: React.FC = () => {
         prerequisites: [],
         learningObjectives: [],
         status: 'active',
+        attendancePolicy: DEFAULT_ATTENDANCE_POLICY,
       });
       setIsModalOpen(false);
 
@@ -388,6 +407,7 @@ const AdminSubjects: React.FC = () => {
                     prerequisites: [],
                     learningObjectives: [],
                     status: 'active',
+                    attendancePolicy: DEFAULT_ATTENDANCE_POLICY,
                   });
                   setIsModalOpen(true);
                 }}
@@ -452,7 +472,10 @@ const AdminSubjects: React.FC = () => {
                         <motion.button
                           whileHover={{ scale: 1.1 }}
                           onClick={() => {
-                            setFormData(subject);
+                            setFormData({
+                              ...subject,
+                              attendancePolicy: resolveAttendancePolicy(subject.attendancePolicy),
+                            });
                             setIsModalOpen(true);
                           }}
                           className="text-indigo-600 hover:text-indigo-800"
@@ -628,6 +651,20 @@ const AdminSubjects: React.FC = () => {
                   </select>
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium mb-1">Attendance Policy</label>
+                  <p className="text-xs text-gray-500 mb-3">
+                    Applies to every section of this subject unless the section overrides it.
+                  </p>
+                  <AttendancePolicyFields
+                    value={formData.attendancePolicy || DEFAULT_ATTENDANCE_POLICY}
+                    onChange={(policy) =>
+                      // Blank fields are caught by the inputs' `required` before submit.
+                      setFormData({ ...formData, attendancePolicy: policy as AttendancePolicy })
+                    }
+                  />
+                </div>
+
                 <div className="flex justify-end space-x-3 mt-6">
                   <button
                     type="button"
@@ -162,8 +162,6 @@ const SubjectSelection = () => {
 
         // Update student's enrolledSubjects in Firestore
         await updateDoc(studentDoc.ref, { enrolledSubjects });
-        const updatedStudentData = { ...studentDoc.data(), enrolledSubjects };
-        localStorage.setItem('userData', JSON.stringify(updatedStudentData));
 
         // Update sections with enrolled student
         for (const subject of enrolledSubjects) {
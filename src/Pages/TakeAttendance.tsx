@@ -1,8 +1,7 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { collection, query, where, getDocs, addDoc, Timestamp, deleteDoc } from 'firebase/firestore';
-import { ref, onValue, off, set, get } from 'firebase/database';
-import { db, rtdb } from '../firebase';
+import { db } from '../firebase';
 import { useAuth } from '../Pages/AuthContext';
 import {
   CheckCircleIcon,
@@ -10,11 +9,57 @@ import {
   ClockIcon,
   ArrowDownTrayIcon,
   CalendarIcon,
+  ExclamationTriangleIcon,
+  CloudArrowUpIcon,
+  SignalSlashIcon,
 } from '@heroicons/react/24/solid';
 import NavBar from '../components/NavBar';
+import LiveSeatMap from '../components/LiveSeatMap';
 import { toast } from 'react-toastify';
 import { motion } from 'framer-motion';
 import Swal from 'sweetalert2';
+import {
+  getStudent,
+  subscribeToInstructors,
+  subscribeToPresenceFlags,
+  subscribeToSectionSessions,
+  subscribeToStudents,
+  subscribeToWeightSensors,
+  writeAttendanceRecord,
+} from '../services/rtdbRepository';
+import {
+  closeAttendanceSession,
+  findClassSession,
+  fromRTDBTimestamp,
+  isSessionActive,
+  recordSessionAttendance,
+  SessionLockedError,
+  sessionDateKey,
+  toDateKey,
+} from '../services/attendanceSessions';
+import { classifyTap } from '../services/attendancePolicy';
+import {
+  PRESENCE_ANOMALY_LABELS,
+  PresenceTap,
+  resolvePresenceFlag,
+  syncPresenceVerification,
+} from '../services/presenceVerification';
+import {
+  isLocalSessionId,
+  OfflineSyncStatus,
+  queueChange,
+  queueOpenSession,
+  QueuedReportRow,
+  startOfflineSync,
+  SYNC_CONFLICT_LABELS,
+} from '../services/offlineQueue';
+import {
+  PresenceFlagResolution,
+  RTDBAttendanceRecord,
+  RTDBAttendanceSession,
+  RTDBPresenceFlag,
+  RTDBWeightSensor,
+} from '../types/rtdb';
 
 interface Student {
   rfidUid: string;
@@ -117,7 +162,15 @@ const TakeAttendance: React.FC = () => {
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
   const [currentSchedule, setCurrentSchedule] = useState<Schedule | null>(null);
   const [roomId, setRoomId] = useState<string>('');
+  const [activeSession, setActiveSession] = useState<RTDBAttendanceSession | null>(null);
+  const [weightSensors, setWeightSensors] = useState<Record<string, RTDBWeightSensor>>({});
+  const [presenceFlags, setPresenceFlags] = useState<Record<string, RTDBPresenceFlag>>({});
   const [statusChangeStudent, setStatusChangeStudent] = useState<Student | null>(null);
+  const [syncStatus, setSyncStatus] = useState<OfflineSyncStatus>({
+    online: navigator.onLine,
+    syncing: false,
+    pending: [],
+  });
   const [instructorDetails, setInstructorDetails] = useState<{
     fullName: string;
     department: string;
@@ -145,15 +198,12 @@ const TakeAttendance: React.FC = () => {
   useEffect(() => {
     if (!currentUser) return;
 
-    const instructorRef = ref(rtdb, `/Instructors`);
-    const unsubscribe = onValue(
-      instructorRef,
-      (snapshot) => {
-        const instructorsData = snapshot.val();
+    const unsubscribe = subscribeToInstructors(
+      (instructorsData) => {
         if (instructorsData) {
           const instructor = Object.values(instructorsData).find(
-            (instr: any) => instr.Profile?.email === currentUser.email
-          ) as any;
+            (instr) => instr.Profile?.email === currentUser.email
+          );
           setInstructorDetails({
             fullName: instructor?.Profile?.fullName || currentUser.displayName || 'Instructor',
             department: instructor?.Profile?.department || 'Unknown',
@@ -167,7 +217,7 @@ const TakeAttendance: React.FC = () => {
       }
     );
 
-    return () => off(instructorRef, 'value', unsubscribe);
+    return () => unsubscribe();
   }, [currentUser]);
 
   // Fetch subjects from Firestore
@@ -235,14 +285,11 @@ const TakeAttendance: React.FC = () => {
       return;
     }
 
-    const studentsRef = ref(rtdb, '/Students');
-    const unsubscribe = onValue(
-      studentsRef,
-      (snapshot) => {
+    const unsubscribe = subscribeToStudents(
+      (studentsData) => {
         setLoading(true);
         try {
-          const studentsData = snapshot.val();
-          if (!studentsData) {
+          if (Object.keys(studentsData).length === 0) {
             console.warn('No students data found in RTDB');
             setStudents([]);
             setClassStartTime(new Date(selectedSection.createdAt));
@@ -255,7 +302,7 @@ const TakeAttendance: React.FC = () => {
           console.log('Looking for session key pattern:', sessionKeyPattern);
 
           const fetchedStudents: Student[] = Object.entries(studentsData)
-            .map(([rfidUid, studentData]: [string, any]) => {
+            .map(([rfidUid, studentData]) => {
               console.log(`Processing student: ${rfidUid}`);
 
               // Check profile data exists
@@ -273,10 +320,12 @@ const TakeAttendance: React.FC = () => {
               // Get profile data
               const profile = studentData.Profile;
 
-              // Find the attendance record for the specific session
-              let attendanceKey: string | undefined = Object.keys(studentData.Attendance).find((key) =>
-                key.includes(sessionKeyPattern)
-              );
+              // Prefer the record written for the active session; older records
+              // are keyed by subject and section name instead.
+              let attendanceKey: string | undefined =
+                activeSession && studentData.Attendance[activeSession.id]
+                  ? activeSession.id
+                  : Object.keys(studentData.Attendance).find((key) => key.includes(sessionKeyPattern));
               
               // Use lastSession as fallback if no matching key found
               if (!attendanceKey && studentData.lastSession) {
@@ -297,12 +346,12 @@ const TakeAttendance: React.FC = () => {
               }
               
               // Extract attendance info and personal info
-              const attendanceInfo = sessionData.attendanceInfo || sessionData;
-              const personalInfo = sessionData.personalInfo || profile;
+              const attendanceInfo = sessionData.attendanceInfo;
+              const personalInfo = sessionData.personalInfo;
               
               // Check if the student has the correct schedule
               // Look in allSchedules in attendance data first
-              let schedules = sessionData.allSchedules || [];
+              let schedules = sessionData.allSchedules;
               
               // If not in attendance data, check profile schedules
               if ((!schedules || schedules.length === 0) && profile.schedules) {
@@ -382,7 +431,9 @@ const TakeAttendance: React.FC = () => {
 
           console.log('Fetched students:', JSON.stringify(fetchedStudents, null, 2));
           setStudents(fetchedStudents);
-          setClassStartTime(new Date(selectedSection.createdAt));
+          setClassStartTime(
+            activeSession ? new Date(activeSession.scheduledStart) : new Date(selectedSection.createdAt)
+          );
         } catch (error) {
           console.error('Error processing students:', error);
           toast.error('Failed to load students');
@@ -398,28 +449,115 @@ const TakeAttendance: React.FC = () => {
       }
     );
 
-    return () => off(studentsRef, 'value', unsubscribe);
-  }, [selectedSection, selectedSubject, instructorDetails.fullName]);
+    return () => unsubscribe();
+  }, [selectedSection, selectedSubject, instructorDetails.fullName, activeSession]);
+
+  // Queue changes made while offline and replay them on reconnect
+  useEffect(
+    () =>
+      startOfflineSync(setSyncStatus, ({ applied, conflicts }) => {
+        if (applied.length > 0) {
+          toast.success(`Synced ${applied.length} offline change${applied.length === 1 ? '' : 's'}`);
+        }
+        conflicts.forEach(({ change, reason }) => {
+          const subject = change.action.kind === 'record_attendance' ? change.action.studentName : 'Attendance submission';
+          toast.warning(`${subject}: not synced. ${SYNC_CONFLICT_LABELS[reason]}.`, { autoClose: false });
+        });
+      }),
+    []
+  );
+
+  // Track the section's active attendance session
+  useEffect(() => {
+    if (!selectedSection || !selectedSubject) {
+      setActiveSession(null);
+      return;
+    }
+
+    const unsubscribe = subscribeToSectionSessions(
+      selectedSection.id,
+      (sessions) => {
+        const current = Object.values(sessions)
+          .filter((session) => isSessionActive(session) && session.schedule.subjectCode === selectedSubject.code)
+          .sort((a, b) => b.openedAt - a.openedAt)[0];
+        // A session opened offline stays until the queue replays and the
+        // real one shows up here.
+        setActiveSession((previous) => current || (previous && isLocalSessionId(previous.id) ? previous : null));
+      },
+      (error) => {
+        console.error('Error fetching attendance sessions:', error);
+        setActiveSession(null);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [selectedSection, selectedSubject]);
+
+  // Seat sensors for the session's room
+  useEffect(() => {
+    const sessionRoom = activeSession?.roomId;
+    if (!sessionRoom) {
+      setWeightSensors({});
+      return;
+    }
+
+    const unsubscribe = subscribeToWeightSensors(sessionRoom, setWeightSensors, (error) => {
+      console.error('Error fetching weight sensors:', error);
+      setWeightSensors({});
+    });
+
+    return () => unsubscribe();
+  }, [activeSession?.roomId]);
+
+  useEffect(() => {
+    const sessionId = activeSession?.id;
+    if (!sessionId) {
+      setPresenceFlags({});
+      return;
+    }
+
+    const unsubscribe = subscribeToPresenceFlags(sessionId, setPresenceFlags, (error) => {
+      console.error('Error fetching presence flags:', error);
+      setPresenceFlags({});
+    });
+
+    return () => unsubscribe();
+  }, [activeSession?.id]);
+
+  // RFID taps recorded for the active session, for cross-checking against seat sensors
+  const presenceTaps = useMemo<PresenceTap[]>(() => {
+    if (!activeSession) return [];
+    return students
+      .filter((s) => s.lastSession === activeSession.id && s.attendanceStatus !== 'absent')
+      .map((s) => ({
+        rfidUid: s.rfidUid,
+        studentName: s.studentName,
+        sensorId: s.assignedSensorId,
+        tappedAt: fromRTDBTimestamp(s.timeIn || s.timestamp) ?? 0,
+        sensorConfirmed: s.weightAuthenticated,
+      }))
+      .filter((tap) => tap.tappedAt > 0);
+  }, [students, activeSession]);
+
+  // Re-evaluated on data changes and every 30 seconds, as anomalies only
+  // surface once the verification window has passed.
+  const verificationTick = Math.floor(currentTime.getTime() / 30000);
+  useEffect(() => {
+    if (!activeSession || !isSessionActive(activeSession) || isLocalSessionId(activeSession.id)) return;
+    syncPresenceVerification(activeSession, presenceTaps, weightSensors, presenceFlags).catch((error) =>
+      console.error('Error verifying presence:', error)
+    );
+  }, [activeSession, presenceTaps, weightSensors, presenceFlags, verificationTick]);
 
   // Fetch instructor's current schedule from RTDB
   useEffect(() => {
     if (!currentUser || !selectedSection || !selectedSubject) return;
 
-    const instructorRef = ref(rtdb, `/Instructors`);
-    const unsubscribe = onValue(
-      instructorRef,
-      (snapshot) => {
-        const instructorsData = snapshot.val();
-        if (!instructorsData) {
-          console.warn('No instructors data found');
-          setCurrentSchedule(null);
-          setRoomId('');
-          return;
-        }
-
-        const instructor = Object.entries(instructorsData).find(
-          ([, instr]: [string, any]) => instr.Profile?.email === currentUser.email
-        )?.[1] as any;
+    const unsubscribe = subscribeToInstructors(
+      (instructorsData) => {
+        const instructor = Object.values(instructorsData).find(
+          (instr) => instr.Profile?.email === currentUser.email
+        );
 
         if (!instructor?.ClassStatus?.schedule) {
           console.warn('No ClassStatus or schedule found for instructor');
@@ -468,7 +606,7 @@ const TakeAttendance: React.FC = () => {
       }
     );
 
-    return () => off(instructorRef, 'value', unsubscribe);
+    return () => unsubscribe();
   }, [currentUser, selectedSection, selectedSubject]);
 
   // Reset status change student when students array changes
@@ -482,6 +620,65 @@ const TakeAttendance: React.FC = () => {
     }
   }, [students, statusChangeStudent]);
 
+  // Returns the active session for the selected class. Sessions are opened on
+  // the server as the class starts; offline, a stand-in is queued that finds
+  // the real one when the connection returns.
+  const ensureActiveSession = async (): Promise<RTDBAttendanceSession | null> => {
+    if (activeSession && isSessionActive(activeSession)) return activeSession;
+    if (!selectedSection || !selectedSubject || !currentSchedule || !currentUser) {
+      toast.error('No scheduled class is running for this section');
+      return null;
+    }
+
+    const schedule = {
+      subjectId: selectedSubject.id,
+      subjectCode: selectedSubject.code,
+      subjectName: selectedSubject.name,
+      sectionId: selectedSection.id,
+      sectionName: selectedSection.name,
+      day: currentSchedule.day,
+      startTime: currentSchedule.startTime,
+      endTime: currentSchedule.endTime,
+    };
+    const session = syncStatus.online
+      ? await findClassSession(schedule)
+      : await queueOpenSession({
+          schedule,
+          roomId: roomId || currentSchedule.room,
+          instructor: { uid: currentUser.uid, fullName: instructorDetails.fullName },
+          roster: Object.fromEntries(
+            students.map((s) => [s.rfidUid, { studentName: s.studentName, idNumber: s.idNumber }])
+          ),
+        });
+    if (!session) {
+      toast.error('The session for this class has not opened yet. Try again in a minute.');
+      return null;
+    }
+    setActiveSession(session);
+    return session;
+  };
+
+  // Writes straight through when connected. Offline, or while the session
+  // itself is still queued, the record is queued behind it, along with the
+  // student's record for the session as the page has it. Returns whether it
+  // was queued.
+  const saveSessionRecord = async (
+    sessionId: string,
+    student: Student,
+    record: RTDBAttendanceRecord
+  ): Promise<boolean> => {
+    const { rfidUid, studentName } = student;
+    if (syncStatus.online && !isLocalSessionId(sessionId)) {
+      await recordSessionAttendance(sessionId, rfidUid, record);
+      return false;
+    }
+    const shown = students.find((s) => s.rfidUid === rfidUid) || student;
+    const baseline = shown.lastSession === sessionId ? shown.timestamp || null : null;
+    await queueChange({ kind: 'record_attendance', sessionId, rfidUid, studentName, record, baseline });
+    toast.info(`${studentName}: saved offline, will sync when the connection returns`);
+    return true;
+  };
+
   const handleAttendanceChange = async (rfidUid: string, status: 'present' | 'absent' | 'late') => {
     if (!selectedSection || !selectedSubject) {
       toast.error('Please select a subject and section');
@@ -489,10 +686,13 @@ const TakeAttendance: React.FC = () => {
     }
 
     try {
+      const session = await ensureActiveSession();
+      if (!session) return;
+
       const now = new Date();
-      const dateStr = now.toISOString().split('T')[0].replace(/-/g, '_');
+      const dateStr = sessionDateKey(session);
       const timeStr =
-        dateStr +
+        toDateKey(now) +
         '_' +
         now.getHours().toString().padStart(2, '0') +
         now.getMinutes().toString().padStart(2, '0') +
@@ -507,13 +707,11 @@ const TakeAttendance: React.FC = () => {
 
       const dbStatus = status === 'absent' ? 'Absent' : status === 'late' ? 'Late' : 'Present';
       const isPresentOrLate = status === 'present' || status === 'late';
-      const sessionId = `${dateStr}_${selectedSubject.code}_${selectedSection.name}_${roomId || 'Unknown'}`;
+      const sessionId = session.id;
 
-      // Get student's schedules from RTDB
-      const studentRef = ref(rtdb, `/Students/${rfidUid}`);
-      const snapshot = await get(studentRef);
-      const studentData = snapshot.val();
-      const schedules = studentData?.Profile?.schedules || [];
+      // Get student's schedules from RTDB; offline, the roster on the page stands in
+      const studentData = syncStatus.online ? await getStudent(rfidUid) : null;
+      const schedules = studentData?.Profile?.schedules || student.schedules || [];
 
       // Filter schedules that match the current subject and section
       const relevantSchedules = schedules.filter(
@@ -530,11 +728,11 @@ const TakeAttendance: React.FC = () => {
 
       // Get personal info
       const personalInfo = {
-        department: studentData?.Profile?.department || '',
-        email: studentData?.Profile?.email || '',
-        fullName: studentData?.Profile?.fullName || '',
-        idNumber: studentData?.Profile?.idNumber || '',
-        mobileNumber: studentData?.Profile?.mobileNumber || '',
+        department: studentData?.Profile?.department || student.department || '',
+        email: studentData?.Profile?.email || student.email || '',
+        fullName: studentData?.Profile?.fullName || student.studentName || '',
+        idNumber: studentData?.Profile?.idNumber || student.idNumber || '',
+        mobileNumber: studentData?.Profile?.mobileNumber || student.mobileNumber || '',
         role: studentData?.Profile?.role || 'student'
       };
 
@@ -558,7 +756,7 @@ const TakeAttendance: React.FC = () => {
       );
 
       // Then update the attendance data with the new structure
-      await set(ref(rtdb, `/Students/${rfidUid}/Attendance/${sessionId}`), {
+      await saveSessionRecord(sessionId, student, {
         allSchedules: relevantSchedules,
         attendanceInfo: {
           action: isPresentOrLate ? 'Confirmed RFID' : 'Not Confirmed',
@@ -577,9 +775,6 @@ const TakeAttendance: React.FC = () => {
         personalInfo: personalInfo
       });
 
-      // Update lastSession
-      await set(ref(rtdb, `/Students/${rfidUid}/lastSession`), sessionId);
-
       console.log(`Status updated for ${student.studentName} to ${status}`);
 
       const formattedTime = now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: true });
@@ -618,34 +813,36 @@ const TakeAttendance: React.FC = () => {
       }
     } catch (error) {
       console.error('Error updating attendance in RTDB:', error);
-      toast.error('Failed to update attendance status');
+      toast.error(
+        error instanceof SessionLockedError
+          ? 'This session is finalized; submit a correction instead'
+          : 'Failed to update attendance status'
+      );
     }
   };
 
   const confirmAttendance = async () => {
     if (confirmationStudent && confirmationTapTime && classStartTime && selectedSection && selectedSubject) {
       try {
-        const startTimeMs = classStartTime.getTime();
-        const tapTimeMs = confirmationTapTime.getTime();
-        const gracePeriod = 15 * 60 * 1000;
-        const status = tapTimeMs <= startTimeMs + gracePeriod ? 'present' : 'late';
+        const session = await ensureActiveSession();
+        if (!session) return;
+
+        const status = classifyTap(confirmationTapTime.getTime(), session.scheduledStart, session.policy);
         const now = new Date();
-        const dateStr = now.toISOString().split('T')[0].replace(/-/g, '_');
+        const dateStr = sessionDateKey(session);
         const timeStr =
-          dateStr +
+          toDateKey(now) +
           '_' +
           now.getHours().toString().padStart(2, '0') +
           now.getMinutes().toString().padStart(2, '0') +
           now.getSeconds().toString().padStart(2, '0');
 
-        const sessionId = `${dateStr}_${selectedSubject.code}_${selectedSection.name}_${roomId || 'Unknown'}`;
-        const dbStatus = status === 'present' ? 'Present' : 'Late';
+        const sessionId = session.id;
+        const dbStatus = status === 'absent' ? 'Absent' : status === 'late' ? 'Late' : 'Present';
 
-        // Get student's schedules from RTDB
-        const studentRef = ref(rtdb, `/Students/${confirmationStudent.rfidUid}`);
-        const snapshot = await get(studentRef);
-        const studentData = snapshot.val();
-        const schedules = studentData?.Profile?.schedules || [];
+        // Get student's schedules from RTDB; offline, the roster on the page stands in
+        const studentData = syncStatus.online ? await getStudent(confirmationStudent.rfidUid) : null;
+        const schedules = studentData?.Profile?.schedules || confirmationStudent.schedules || [];
 
         // Filter schedules that match the current subject and section
         const relevantSchedules = schedules.filter(
@@ -662,16 +859,16 @@ const TakeAttendance: React.FC = () => {
 
         // Get personal info
         const personalInfo = {
-          department: studentData?.Profile?.department || '',
-          email: studentData?.Profile?.email || '',
-          fullName: studentData?.Profile?.fullName || '',
-          idNumber: studentData?.Profile?.idNumber || '',
-          mobileNumber: studentData?.Profile?.mobileNumber || '',
+          department: studentData?.Profile?.department || confirmationStudent.department || '',
+          email: studentData?.Profile?.email || confirmationStudent.email || '',
+          fullName: studentData?.Profile?.fullName || confirmationStudent.studentName || '',
+          idNumber: studentData?.Profile?.idNumber || confirmationStudent.idNumber || '',
+          mobileNumber: studentData?.Profile?.mobileNumber || confirmationStudent.mobileNumber || '',
           role: studentData?.Profile?.role || 'student'
         };
 
         // Update the attendance data with the new structure
-        await set(ref(rtdb, `/Students/${confirmationStudent.rfidUid}/Attendance/${sessionId}`), {
+        const queued = await saveSessionRecord(sessionId, confirmationStudent, {
           allSchedules: relevantSchedules,
           attendanceInfo: {
             action: 'Confirmed RFID',
@@ -690,13 +887,34 @@ const TakeAttendance: React.FC = () => {
           personalInfo: personalInfo
         });
 
-        // Update lastSession
-        await set(ref(rtdb, `/Students/${confirmationStudent.rfidUid}/lastSession`), sessionId);
+        // Queued records never reach the students listener, so show them locally
+        if (queued) {
+          setStudents((prevStudents) =>
+            prevStudents.map((s) =>
+              s.rfidUid === confirmationStudent.rfidUid
+                ? {
+                    ...s,
+                    attendanceStatus: status,
+                    classStatus: dbStatus,
+                    timestamp: timeStr,
+                    timeIn: timeStr,
+                    action: 'Confirmed RFID',
+                    rfidAuthenticated: true,
+                    lastSession: sessionId,
+                  }
+                : s
+            )
+          );
+        }
 
         toast.success(`Confirmed ${status} for ${confirmationStudent.studentName}`);
       } catch (error) {
         console.error('Error confirming attendance in RTDB:', error);
-        toast.error('Failed to confirm attendance');
+        toast.error(
+          error instanceof SessionLockedError
+            ? 'This session is finalized; submit a correction instead'
+            : 'Failed to confirm attendance'
+        );
       } finally {
         setConfirmationStudent(null);
         setConfirmationTapTime(null);
@@ -720,9 +938,61 @@ const TakeAttendance: React.FC = () => {
       return;
     }
 
+    const today = new Date().toISOString().split('T')[0];
+    const reportRows: QueuedReportRow[] = students.map((student) => ({
+      studentId: student.rfidUid,
+      studentName: student.studentName,
+      studentEmail: student.email,
+      sectionId: selectedSection.id,
+      sectionName: selectedSection.name,
+      subjectId: selectedSubject.id,
+      subjectName: selectedSubject.name,
+      room: currentSchedule.room,
+      sessionId: activeSession?.id || '',
+      status: student.attendanceStatus || 'absent',
+      confirmed: student.confirmed,
+      rfidAuthenticated: student.rfidAuthenticated,
+      weightAuthenticated: student.weightAuthenticated,
+      weight: student.weight || 0,
+      weightUnit: student.weightUnit || 'kg',
+      timestamp: new Date(student.timestamp || new Date()).getTime(),
+      date: today,
+      submittedBy: {
+        id: currentUser.uid,
+        name: instructorDetails.fullName,
+        role: instructorDetails.role,
+      },
+    }));
+
+    // Offline, the submission is queued and finalizes the session on replay.
+    // Without a session there is nothing to finalize, only records to reset.
+    if (!syncStatus.online) {
+      if (!activeSession) {
+        toast.error('Reconnect to submit attendance for a class without a session');
+        return;
+      }
+      try {
+        await queueChange({
+          kind: 'submit_session',
+          sessionId: activeSession.id,
+          report: {
+            sectionId: selectedSection.id,
+            subjectId: selectedSubject.id,
+            date: today,
+            submittedById: currentUser.uid,
+            rows: reportRows,
+          },
+        });
+        toast.info('You are offline. Attendance will be submitted when the connection returns.');
+      } catch (error) {
+        console.error('Error queuing attendance submission:', error);
+        toast.error('Failed to submit attendance');
+      }
+      return;
+    }
+
     try {
       setLoading(true);
-      const today = new Date().toISOString().split('T')[0];
       const attendanceRef = collection(db, 'attendanceRecords');
       const q = query(
         attendanceRef,
@@ -752,37 +1022,14 @@ const TakeAttendance: React.FC = () => {
         await Promise.all(deletePromises);
       }
 
-      const attendanceRecords = students.map((student) => ({
-        studentId: student.rfidUid,
-        studentName: student.studentName,
-        studentEmail: student.email,
-        sectionId: selectedSection.id,
-        sectionName: selectedSection.name,
-        subjectId: selectedSubject.id,
-        subjectName: selectedSubject.name,
-        room: currentSchedule.room,
-        status: student.attendanceStatus || 'absent',
-        confirmed: student.confirmed,
-        rfidAuthenticated: student.rfidAuthenticated,
-        weightAuthenticated: student.weightAuthenticated,
-        weight: student.weight || 0,
-        weightUnit: student.weightUnit || 'kg',
-        timestamp: Timestamp.fromDate(new Date(student.timestamp || new Date())),
-        date: today,
-        submittedBy: {
-          id: currentUser.uid,
-          name: instructorDetails.fullName,
-          role: instructorDetails.role,
-        },
-      }));
-
-      const writePromises = attendanceRecords.map((record) =>
-        addDoc(collection(db, 'attendanceRecords'), record)
+      const writePromises = reportRows.map((row) =>
+        addDoc(collection(db, 'attendanceRecords'), { ...row, timestamp: Timestamp.fromMillis(row.timestamp) })
       );
       await Promise.all(writePromises);
 
-      // Reset the student's attendance status in RTDB
-      const resetPromises = students.map((student) => {
+      // Submitting ends the session: finalizing settles absentees and locks
+      // the records. Without a session, fall back to resetting the records.
+      const resetPromises = activeSession ? [] : students.map((student) => {
         const personalInfo = {
           department: student.department || '',
           email: student.email || '',
@@ -792,7 +1039,7 @@ const TakeAttendance: React.FC = () => {
           role: student.role || 'student'
         };
         
-        return set(ref(rtdb, `/Students/${student.rfidUid}/Attendance/${student.lastSession}`), {
+        return writeAttendanceRecord(student.rfidUid, student.lastSession, {
           allSchedules: student.schedules,
           attendanceInfo: {
             action: 'Not Confirmed',
@@ -813,6 +1060,10 @@ const TakeAttendance: React.FC = () => {
       });
       await Promise.all(resetPromises);
 
+      if (activeSession) {
+        await closeAttendanceSession(activeSession.id);
+      }
+
       toast.success('Attendance submitted successfully!');
       navigate('/instructor/attendance-management');
     } catch (error) {
@@ -959,6 +1210,42 @@ const TakeAttendance: React.FC = () => {
     }
   };
 
+  const handleSeatClick = (rfidUid: string) => {
+    const student = students.find((s) => s.rfidUid === rfidUid);
+    if (!student) {
+      toast.info('This student has no attendance record for the class yet');
+      return;
+    }
+    setStatusChangeStudent(student);
+  };
+
+  const handleResolvePresenceFlag = async (flag: RTDBPresenceFlag, resolution: PresenceFlagResolution) => {
+    if (!currentUser) return;
+
+    // Marking absent is an audited correction and needs a reason.
+    const { value: note, isConfirmed } = await Swal.fire({
+      title: resolution === 'marked_absent' ? 'Mark Absent' : 'Resolve Flag',
+      input: 'textarea',
+      inputLabel: resolution === 'marked_absent' ? 'Reason' : 'Note (optional)',
+      showCancelButton: true,
+      inputValidator: (value) =>
+        resolution === 'marked_absent' && !value.trim() ? 'A reason is required' : null,
+    });
+    if (!isConfirmed) return;
+
+    try {
+      await resolvePresenceFlag(flag, resolution, note || '', {
+        uid: currentUser.uid,
+        fullName: instructorDetails.fullName,
+        role: instructorDetails.role,
+      });
+      toast.success('Presence flag resolved');
+    } catch (error) {
+      console.error('Error resolving presence flag:', error);
+      toast.error('Failed to resolve presence flag');
+    }
+  };
+
   // Close the status change modal
   const closeStatusChangeModal = () => {
     console.log('Closing status change modal');
@@ -1088,6 +1375,21 @@ const TakeAttendance: React.FC = () => {
               )}
             </div>
             <div className="flex items-center gap-2 sm:gap-3">
+              {!syncStatus.online && (
+                <span className="flex items-center gap-1 px-2 py-1 bg-red-50 text-red-700 rounded-full text-xs font-medium">
+                  <SignalSlashIcon className="w-4 h-4" />
+                  Offline
+                </span>
+              )}
+              {syncStatus.pending.length > 0 && (
+                <span
+                  className="flex items-center gap-1 px-2 py-1 bg-amber-50 text-amber-700 rounded-full text-xs font-medium"
+                  title="Changes saved on this device that have not reached the database yet"
+                >
+                  <CloudArrowUpIcon className={`w-4 h-4 ${syncStatus.syncing ? 'animate-pulse' : ''}`} />
+                  {syncStatus.syncing ? 'Syncing' : 'Unsynced'} {syncStatus.pending.length}
+                </span>
+              )}
               <div className="text-xs sm:text-sm text-gray-600">{formattedTime}</div>
               <button
                 onClick={exportAttendance}
@@ -1126,6 +1428,75 @@ const TakeAttendance: React.FC = () => {
             </div>
           )}
 
+          {Object.values(presenceFlags).some((flag) => flag.status === 'open') && (
+            <div className="mb-4 sm:mb-6 bg-amber-50 border border-amber-200 rounded-lg p-3 sm:p-4">
+              <h3 className="text-sm sm:text-base font-semibold text-amber-800 flex items-center mb-3">
+                <ExclamationTriangleIcon className="w-5 h-5 mr-2" />
+                Presence Verification
+              </h3>
+              <div className="space-y-2">
+                {Object.values(presenceFlags)
+                  .filter((flag) => flag.status === 'open')
+                  .sort((a, b) => a.detectedAt - b.detectedAt)
+                  .map((flag) => (
+                    <div
+                      key={flag.id}
+                      className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 bg-white rounded-md border border-amber-100 p-2 sm:p-3"
+                    >
+                      <div className="text-sm">
+                        <p className="font-medium text-gray-800">{PRESENCE_ANOMALY_LABELS[flag.type]}</p>
+                        <p className="text-xs text-gray-500">
+                          Seat sensor {flag.sensorId}
+                          {flag.studentName ? ` • ${flag.studentName}` : ''} •{' '}
+                          {new Date(flag.detectedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                        </p>
+                      </div>
+                      <div className="flex gap-2">
+                        {flag.rfidUid && (
+                          <button
+                            onClick={() => handleResolvePresenceFlag(flag, 'confirmed_present')}
+                            className="px-2 py-1 bg-green-50 text-green-700 rounded-md hover:bg-green-100 text-xs"
+                          >
+                            Confirm Present
+                          </button>
+                        )}
+                        {flag.type === 'tap_without_occupancy' && flag.rfidUid && (
+                          <button
+                            onClick={() => handleResolvePresenceFlag(flag, 'marked_absent')}
+                            className="px-2 py-1 bg-red-50 text-red-700 rounded-md hover:bg-red-100 text-xs"
+                          >
+                            Mark Absent
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleResolvePresenceFlag(flag, 'dismissed')}
+                          className="px-2 py-1 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 text-xs"
+                        >
+                          Dismiss
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+              </div>
+            </div>
+          )}
+
+          {selectedSection && (activeSession?.roomId || roomId) && (
+            <div className="mb-4 sm:mb-6">
+              <h3 className="text-sm sm:text-base font-semibold text-gray-800 mb-2">
+                Seat Map • Room {activeSession?.roomId || roomId}
+              </h3>
+              <LiveSeatMap
+                roomName={activeSession?.roomId || roomId}
+                sectionId={selectedSection.id}
+                students={students}
+                flags={Object.values(presenceFlags).filter((flag) => flag.status === 'open')}
+                sensors={weightSensors}
+                onSeatClick={handleSeatClick}
+              />
+            </div>
+          )}
+
           {selectedSection ? (
             <>
               <div className="mb-4 sm:mb-6 flex flex-col sm:flex-row gap-3 sm:gap-4 sm:items-center bg-gray-50 p-3 sm:p-4 rounded-lg">
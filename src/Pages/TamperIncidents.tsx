@@ -0,0 +1,507 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { collection, getDocs } from 'firebase/firestore';
+import { motion } from 'framer-motion';
+import Swal from 'sweetalert2';
+import {
+  BellAlertIcon,
+  CameraIcon,
+  CheckCircleIcon,
+  ClockIcon,
+  ExclamationTriangleIcon,
+  MapPinIcon,
+} from '@heroicons/react/24/outline';
+import AdminSidebar from '../components/AdminSidebar';
+import { db } from '../firebase';
+import { theme } from '../styles/theme';
+import { RTDBActor, RTDBTamperIncident, TamperIncidentActivity, TamperRootCause } from '../types/rtdb';
+import { subscribeToTamperIncidents } from '../services/rtdbRepository';
+import {
+  acknowledgeTamperIncident,
+  addTamperIncidentNote,
+  assignTamperIncident,
+  closeTamperIncident,
+  fetchTamperResponders,
+  INCIDENT_STATUS_LABELS,
+  loadTamperIncidentPolicy,
+  REPEAT_INCIDENT_THRESHOLD,
+  ROOT_CAUSE_LABELS,
+  roomTamperTimelines,
+  saveTamperIncidentPolicy,
+  setTamperIncidentRoom,
+} from '../services/tamperIncidents';
+import { useAuth } from './AuthContext';
+
+type StatusFilter = 'active' | 'open' | 'acknowledged' | 'closed' | 'all';
+
+const STATUS_STYLES: Record<RTDBTamperIncident['status'], string> = {
+  open: 'bg-red-100 text-red-800',
+  acknowledged: 'bg-yellow-100 text-yellow-800',
+  closed: 'bg-green-100 text-green-800',
+};
+
+const ACTIVITY_LABELS: Record<TamperIncidentActivity['type'], string> = {
+  detected: 'Detected',
+  acknowledged: 'Acknowledged',
+  assigned: 'Assigned',
+  room_set: 'Room set',
+  note: 'Note',
+  escalated: 'Escalated',
+  alarm_cleared: 'Alarm cleared',
+  closed: 'Closed',
+};
+
+const formatTime = (millis?: number) =>
+  millis
+    ? new Intl.DateTimeFormat('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+      }).format(new Date(millis))
+    : '—';
+
+const errorMessage = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+// Facilities' work queue for tamper alerts: acknowledge, assign, document with
+// notes and photos, and close with a root cause. The room timeline shows doors
+// that keep getting tampered with.
+const TamperIncidentsPage: React.FC = () => {
+  const { currentUser } = useAuth();
+  const isAdmin = currentUser?.role === 'admin';
+  const [incidents, setIncidents] = useState<Record<string, RTDBTamperIncident>>({});
+  const [loading, setLoading] = useState(true);
+  const [rooms, setRooms] = useState<{ id: string; name: string }[]>([]);
+  const [responders, setResponders] = useState<RTDBActor[]>([]);
+  const [view, setView] = useState<'incidents' | 'timeline'>('incidents');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('active');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [noteText, setNoteText] = useState('');
+  const [notePhotos, setNotePhotos] = useState<File[]>([]);
+  const [rootCause, setRootCause] = useState<TamperRootCause | ''>('');
+  const [resolution, setResolution] = useState('');
+  const [escalateAfter, setEscalateAfter] = useState(15);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToTamperIncidents(
+      (data) => {
+        setIncidents(data);
+        setLoading(false);
+      },
+      (error) => {
+        console.error('Error fetching tamper incidents:', error);
+        Swal.fire('Error', 'Failed to load tamper incidents.', 'error');
+        setLoading(false);
+      }
+    );
+    return () => unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    getDocs(collection(db, 'rooms'))
+      .then((snapshot) =>
+        setRooms(
+          snapshot.docs
+            .map((room) => ({ id: room.id, name: room.data().name || room.id }))
+            .sort((a, b) => a.name.localeCompare(b.name))
+        )
+      )
+      .catch((error) => console.error('Error fetching rooms:', error));
+    fetchTamperResponders()
+      .then(setResponders)
+      .catch((error) => console.error('Error fetching responders:', error));
+    loadTamperIncidentPolicy()
+      .then((policy) => setEscalateAfter(policy.escalateAfterMinutes))
+      .catch((error) => console.error('Error loading the escalation policy:', error));
+  }, []);
+
+  const sortedIncidents = useMemo(
+    () => Object.values(incidents).sort((a, b) => b.detectedAt - a.detectedAt),
+    [incidents]
+  );
+
+  const filteredIncidents = sortedIncidents.filter((incident) =>
+    statusFilter === 'all'
+      ? true
+      : statusFilter === 'active'
+      ? incident.status !== 'closed'
+      : incident.status === statusFilter
+  );
+
+  const timelines = useMemo(() => roomTamperTimelines(sortedIncidents), [sortedIncidents]);
+  const selected = selectedId ? incidents[selectedId] : undefined;
+  const activity = Object.values(selected?.activity || {}).sort((a, b) => a.at - b.at);
+
+  const selectIncident = (incidentId: string) => {
+    setSelectedId(incidentId);
+    setNoteText('');
+    setNotePhotos([]);
+    setRootCause('');
+    setResolution('');
+  };
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      Swal.fire('Error', errorMessage(error, `${failure}.`), 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAddNote = (incidentId: string) =>
+    run(async () => {
+      await addTamperIncidentNote(incidentId, noteText.trim(), notePhotos);
+      setNoteText('');
+      setNotePhotos([]);
+    }, 'Failed to add the note');
+
+  const handleClose = (incidentId: string) => {
+    if (!rootCause) return;
+    return run(async () => {
+      await closeTamperIncident(incidentId, rootCause, resolution.trim());
+      Swal.fire({ icon: 'success', title: 'Incident closed', showConfirmButton: false, timer: 1500 });
+    }, 'Failed to close the incident');
+  };
+
+  const handleSavePolicy = () =>
+    run(async () => {
+      await saveTamperIncidentPolicy({ escalateAfterMinutes: escalateAfter });
+      Swal.fire({ icon: 'success', title: 'Escalation time saved', showConfirmButton: false, timer: 1500 });
+    }, 'Failed to save the escalation time');
+
+  return (
+    <div className="flex h-screen bg-gradient-to-br from-blue-50 via-purple-50/30 to-rose-50/30">
+      <AdminSidebar />
+
+      <div className="flex-1 transition-all duration-300 ml-[80px] lg:ml-64 p-4 sm:p-8 overflow-y-auto">
+        <div className="mb-6 sm:mb-8 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold text-blue-900 flex items-center">
+              <BellAlertIcon className="w-6 h-6 sm:w-8 sm:h-8 mr-2 sm:mr-3 text-blue-600" />
+              Tamper Incidents
+            </h1>
+            <p className="mt-1 text-blue-600/80 text-sm sm:text-base">
+              Incidents nobody acknowledges within {escalateAfter} minutes are escalated by email.
+            </p>
+          </div>
+          {isAdmin && (
+            <div className="flex items-end gap-2">
+              <label className="text-sm text-gray-600">
+                Escalate after (minutes)
+                <input
+                  type="number"
+                  min={1}
+                  value={escalateAfter}
+                  onChange={(e) => setEscalateAfter(Number(e.target.value))}
+                  className={`${theme.components.input} w-28 block`}
+                />
+              </label>
+              <button onClick={handleSavePolicy} disabled={busy} className={`${theme.components.button.secondary} disabled:opacity-50`}>
+                Save
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          {(['incidents', 'timeline'] as const).map((value) => (
+            <button
+              key={value}
+              onClick={() => setView(value)}
+              className={`px-3 py-1.5 rounded-full text-sm transition ${
+                view === value ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-blue-50'
+              }`}
+            >
+              {value === 'incidents' ? 'Incidents' : 'Room Timeline'}
+            </button>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-10 w-10 sm:h-12 sm:w-12 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : view === 'timeline' ? (
+          <div className="space-y-4">
+            {timelines.length === 0 && <p className="text-center text-gray-500 py-12">No tamper incidents yet.</p>}
+            {timelines.map((timeline) => (
+              <motion.div
+                key={timeline.roomId || 'unplaced'}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className={`${theme.components.card} ${timeline.repeated ? 'border-red-300' : ''}`}
+              >
+                <div className="flex items-center justify-between mb-3">
+                  <h2 className="font-semibold text-gray-800 flex items-center">
+                    <MapPinIcon className="w-5 h-5 mr-2 text-blue-600" />
+                    {timeline.roomName}
+                  </h2>
+                  <div className="flex items-center gap-2 text-xs">
+                    {timeline.repeated && (
+                      <span className="px-2 py-0.5 rounded-full bg-red-100 text-red-800 font-medium">
+                        Repeated tampering
+                      </span>
+                    )}
+                    <span className="text-gray-500">
+                      {timeline.recentCount} in 30 days · {timeline.incidents.length} total
+                    </span>
+                  </div>
+                </div>
+                <ol className="border-l-2 border-blue-100 pl-4 space-y-2">
+                  {timeline.incidents.map((incident) => (
+                    <li key={incident.id} className="text-sm">
+                      <button
+                        onClick={() => {
+                          selectIncident(incident.id);
+                          setStatusFilter('all');
+                          setView('incidents');
+                        }}
+                        className="text-left hover:text-blue-700"
+                      >
+                        <span className="text-gray-900">{formatTime(incident.detectedAt)}</span>
+                        <span className={`ml-2 px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[incident.status]}`}>
+                          {INCIDENT_STATUS_LABELS[incident.status]}
+                        </span>
+                        {incident.rootCause && (
+                          <span className="ml-2 text-gray-500">{ROOT_CAUSE_LABELS[incident.rootCause]}</span>
+                        )}
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              </motion.div>
+            ))}
+            <p className="text-xs text-gray-500">
+              Rooms with {REPEAT_INCIDENT_THRESHOLD} or more incidents in 30 days are flagged.
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+            <div className="lg:col-span-2 space-y-3">
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+                className={theme.components.input}
+              >
+                <option value="active">Open and acknowledged</option>
+                <option value="open">Open</option>
+                <option value="acknowledged">Acknowledged</option>
+                <option value="closed">Closed</option>
+                <option value="all">All</option>
+              </select>
+              {filteredIncidents.length === 0 ? (
+                <p className="text-center text-gray-500 py-12">No incidents here.</p>
+              ) : (
+                filteredIncidents.map((incident) => (
+                  <button
+                    key={incident.id}
+                    onClick={() => selectIncident(incident.id)}
+                    className={`w-full text-left p-4 rounded-lg border transition ${
+                      incident.id === selectedId ? 'border-blue-400 bg-blue-50' : 'border-gray-200 bg-white hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-gray-900">{incident.roomName || 'Room not set'}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[incident.status]}`}>
+                        {INCIDENT_STATUS_LABELS[incident.status]}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1">{formatTime(incident.detectedAt)}</p>
+                    <div className="flex flex-wrap gap-2 mt-1 text-xs">
+                      {incident.escalatedAt && incident.status === 'open' && (
+                        <span className="text-red-700 flex items-center">
+                          <ExclamationTriangleIcon className="w-4 h-4 mr-1" />
+                          Escalated
+                        </span>
+                      )}
+                      {incident.assignee && <span className="text-gray-500">Assigned to {incident.assignee.fullName}</span>}
+                    </div>
+                  </button>
+                ))
+              )}
+            </div>
+
+            <div className="lg:col-span-3">
+              {!selected ? (
+                <div className={`${theme.components.card} text-center text-gray-500`}>Select an incident.</div>
+              ) : (
+                <div className={`${theme.components.card} space-y-6`}>
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <h2 className="text-lg font-semibold text-gray-900">Incident {selected.id}</h2>
+                      <p className="text-sm text-gray-600">Detected {formatTime(selected.detectedAt)}</p>
+                      {selected.deviceId && <p className="text-xs text-gray-500">Door controller {selected.deviceId}</p>}
+                      {selected.alarmClearedAt && (
+                        <p className="text-xs text-gray-500">Alarm cleared {formatTime(selected.alarmClearedAt)}</p>
+                      )}
+                    </div>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[selected.status]}`}>
+                      {INCIDENT_STATUS_LABELS[selected.status]}
+                    </span>
+                  </div>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <label className="text-sm text-gray-600">
+                      Room
+                      <select
+                        value={selected.roomId || ''}
+                        disabled={busy}
+                        onChange={(e) =>
+                          e.target.value &&
+                          run(() => setTamperIncidentRoom(selected.id, e.target.value), 'Failed to set the room')
+                        }
+                        className={theme.components.input}
+                      >
+                        <option value="">Room not set</option>
+                        {rooms.map((room) => (
+                          <option key={room.id} value={room.id}>
+                            {room.name}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="text-sm text-gray-600">
+                      Assigned to
+                      <select
+                        value={selected.assignee?.uid || ''}
+                        disabled={busy || selected.status === 'closed'}
+                        onChange={(e) =>
+                          e.target.value &&
+                          run(async () => {
+                            await assignTamperIncident(selected.id, e.target.value);
+                          }, 'Failed to assign the incident')
+                        }
+                        className={theme.components.input}
+                      >
+                        <option value="">Nobody</option>
+                        {responders.map((responder) => (
+                          <option key={responder.uid} value={responder.uid}>
+                            {responder.fullName}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  </div>
+
+                  {selected.status === 'open' && (
+                    <button
+                      onClick={() => run(() => acknowledgeTamperIncident(selected.id), 'Failed to acknowledge the incident')}
+                      disabled={busy}
+                      className={`${theme.components.button.primary} gap-2 disabled:opacity-50`}
+                    >
+                      <CheckCircleIcon className="w-4 h-4" />
+                      Acknowledge
+                    </button>
+                  )}
+
+                  <div>
+                    <h3 className="font-semibold text-gray-800 mb-2">Activity</h3>
+                    <ol className="border-l-2 border-blue-100 pl-4 space-y-3">
+                      {activity.map((entry, index) => (
+                        <li key={`${entry.at}-${index}`} className="text-sm">
+                          <div className="flex items-center text-gray-500 text-xs">
+                            <ClockIcon className="w-3 h-3 mr-1" />
+                            {formatTime(entry.at)} · {ACTIVITY_LABELS[entry.type] || entry.type}
+                            {entry.by && ` · ${entry.by.fullName}`}
+                          </div>
+                          {entry.text && <p className="text-gray-800 whitespace-pre-wrap">{entry.text}</p>}
+                          {entry.photoUrls && (
+                            <div className="flex flex-wrap gap-2 mt-1">
+                              {entry.photoUrls.map((url) => (
+                                <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                                  <img src={url} alt="Incident" className="h-20 w-20 object-cover rounded-lg border" />
+                                </a>
+                              ))}
+                            </div>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+                    {selected.status === 'closed' && selected.rootCause && (
+                      <p className="mt-3 text-sm text-gray-700">
+                        Root cause: <span className="font-medium">{ROOT_CAUSE_LABELS[selected.rootCause]}</span>
+                        {selected.closedBy && ` · closed by ${selected.closedBy.fullName}`}
+                      </p>
+                    )}
+                  </div>
+
+                  {selected.status !== 'closed' && (
+                    <>
+                      <div className="space-y-2">
+                        <h3 className="font-semibold text-gray-800">Add a note</h3>
+                        <textarea
+                          value={noteText}
+                          onChange={(e) => setNoteText(e.target.value)}
+                          rows={3}
+                          className={theme.components.input}
+                          placeholder="What was found at the door"
+                        />
+                        <div className="flex items-center justify-between gap-2">
+                          <label className="flex items-center text-sm text-blue-700 cursor-pointer">
+                            <CameraIcon className="w-5 h-5 mr-1" />
+                            {notePhotos.length > 0 ? `${notePhotos.length} photo(s)` : 'Attach photos'}
+                            <input
+                              type="file"
+                              accept="image/*"
+                              multiple
+                              className="hidden"
+                              onChange={(e) => setNotePhotos(Array.from(e.target.files || []))}
+                            />
+                          </label>
+                          <button
+                            onClick={() => handleAddNote(selected.id)}
+                            disabled={busy || (!noteText.trim() && notePhotos.length === 0)}
+                            className={`${theme.components.button.secondary} disabled:opacity-50`}
+                          >
+                            Add Note
+                          </button>
+                        </div>
+                      </div>
+
+                      <div className="space-y-2 pt-4 border-t border-blue-100">
+                        <h3 className="font-semibold text-gray-800">Close incident</h3>
+                        <select
+                          value={rootCause}
+                          onChange={(e) => setRootCause(e.target.value as TamperRootCause | '')}
+                          className={theme.components.input}
+                        >
+                          <option value="">Root cause…</option>
+                          {(Object.keys(ROOT_CAUSE_LABELS) as TamperRootCause[]).map((cause) => (
+                            <option key={cause} value={cause}>
+                              {ROOT_CAUSE_LABELS[cause]}
+                            </option>
+                          ))}
+                        </select>
+                        <textarea
+                          value={resolution}
+                          onChange={(e) => setResolution(e.target.value)}
+                          rows={2}
+                          className={theme.components.input}
+                          placeholder={rootCause === 'other' ? 'Describe the root cause' : 'What was done (optional)'}
+                        />
+                        <button
+                          onClick={() => handleClose(selected.id)}
+                          disabled={busy || !rootCause || (rootCause === 'other' && !resolution.trim())}
+                          className={`${theme.components.button.primary} disabled:opacity-50`}
+                        >
+                          Close Incident
+                        </button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TamperIncidentsPage;
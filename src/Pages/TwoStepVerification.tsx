@@ -0,0 +1,261 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Navigate, useNavigate } from 'react-router-dom';
+import Swal from 'sweetalert2';
+import {
+  ArrowDownTrayIcon,
+  ArrowPathIcon,
+  ClipboardDocumentIcon,
+  ShieldCheckIcon,
+} from '@heroicons/react/24/solid';
+import { useAuth } from './AuthContext';
+import {
+  confirmMfaEnrollment,
+  downloadRecoveryCodes,
+  formatSecret,
+  MfaEnrollment,
+  startMfaEnrollment,
+  verifySecondFactor,
+} from '../services/mfa';
+
+const ROLE_HOME: Record<string, string> = {
+  admin: '/admin/dashboard',
+  instructor: '/instructor/dashboard',
+};
+
+const LOW_RECOVERY_CODES = 2;
+
+const inputClass =
+  'w-full p-3 rounded-lg border border-gray-700 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition-all duration-300 bg-gray-700 text-white placeholder-gray-400 text-center tracking-widest text-lg';
+const primaryButton =
+  'w-full bg-cyan-600 hover:bg-cyan-700 text-white font-semibold p-3 rounded-lg transition-all duration-300 flex items-center justify-center gap-2 disabled:opacity-50 shadow-lg hover:shadow-cyan-500/50 text-sm sm:text-base';
+const linkButton = 'text-cyan-400 hover:text-cyan-300 transition-all duration-300 text-sm';
+
+// Second step after the password: checks the authenticator code, or sets the
+// authenticator up for admins who have none yet and staff who opt in.
+const TwoStepVerification: React.FC = () => {
+  const { currentUser, logout, refreshUser } = useAuth();
+  const navigate = useNavigate();
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const enrollmentRequested = useRef(false);
+  const status = currentUser?.secondFactor;
+  const enrolling = status === 'enroll' || status === 'none';
+
+  useEffect(() => {
+    if (!enrolling || enrollmentRequested.current) return;
+    enrollmentRequested.current = true;
+    startMfaEnrollment()
+      .then(setEnrollment)
+      .catch((error) => {
+        console.error('Error starting two-step setup:', error);
+        Swal.fire('Error', error instanceof Error ? error.message : 'Failed to start two-step setup.', 'error');
+      });
+  }, [enrolling]);
+
+  if (!currentUser) {
+    return <Navigate to="/login" replace />;
+  }
+  const home = ROLE_HOME[currentUser.role || ''];
+  if (!home) {
+    return <Navigate to="/student/dashboard" replace />;
+  }
+  if (status === 'verified' && !recoveryCodes) {
+    return <Navigate to={home} replace />;
+  }
+
+  const account = currentUser.email || currentUser.fullName || '';
+
+  const handleVerify = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      const left = await verifySecondFactor(code);
+      if (useRecoveryCode && left <= LOW_RECOVERY_CODES) {
+        await Swal.fire({
+          icon: 'warning',
+          title: `${left} recovery code${left === 1 ? '' : 's'} left`,
+          text: 'Generate a new set under Settings → Security Settings.',
+        });
+      }
+      await refreshUser();
+    } catch (error) {
+      console.error('Two-step verification error:', error);
+      Swal.fire('Verification Failed', error instanceof Error ? error.message : 'That code is not right', 'error');
+      setCode('');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      setRecoveryCodes(await confirmMfaEnrollment(code));
+      setCode('');
+    } catch (error) {
+      console.error('Two-step setup error:', error);
+      Swal.fire('Setup Failed', error instanceof Error ? error.message : 'That code is not right', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopy = async (codes: string[]) => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      Swal.fire({ toast: true, position: 'top', icon: 'success', title: 'Copied', showConfirmButton: false, timer: 1500 });
+    } catch (error) {
+      console.error('Error copying recovery codes:', error);
+    }
+  };
+
+  const handleContinue = async () => {
+    await refreshUser();
+    navigate(home, { replace: true });
+  };
+
+  const title = recoveryCodes ? 'Save Your Recovery Codes' : enrolling ? 'Set Up Two-Step Sign-in' : 'Two-Step Sign-in';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-blue-900 to-gray-800 text-white font-mono flex items-center justify-center px-4 sm:px-6 lg:px-8">
+      <motion.div
+        className="w-full max-w-md sm:max-w-lg bg-gray-800 rounded-xl shadow-2xl p-6 sm:p-8 border border-cyan-800"
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+      >
+        <div className="flex flex-col items-center mb-6">
+          <ShieldCheckIcon className="w-12 h-12 sm:w-16 sm:h-16 text-cyan-400 mb-4" />
+          <h1 className="text-2xl sm:text-3xl font-bold text-cyan-100 mb-2 text-center">{title}</h1>
+          <p className="text-cyan-300 text-center text-sm sm:text-base">{account}</p>
+        </div>
+
+        {recoveryCodes ? (
+          <div className="space-y-6">
+            <p className="text-sm text-gray-300">
+              Each code signs you in once if you lose your phone. Keep them somewhere safe; they will not be shown
+              again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 bg-gray-900 rounded-lg p-4 text-center text-cyan-100">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <div className="flex justify-center gap-6">
+              <button onClick={() => downloadRecoveryCodes(recoveryCodes, account)} className={`${linkButton} flex items-center gap-1`}>
+                <ArrowDownTrayIcon className="w-4 h-4" />
+                Download
+              </button>
+              <button onClick={() => handleCopy(recoveryCodes)} className={`${linkButton} flex items-center gap-1`}>
+                <ClipboardDocumentIcon className="w-4 h-4" />
+                Copy
+              </button>
+            </div>
+            <button onClick={handleContinue} className={primaryButton}>
+              I Saved My Codes
+            </button>
+          </div>
+        ) : enrolling ? (
+          <form onSubmit={handleConfirm} className="space-y-6">
+            {status === 'enroll' && (
+              <p className="text-sm text-gray-300">Admin accounts need a second step when signing in.</p>
+            )}
+            <div>
+              <p className="text-sm text-cyan-200 mb-2">
+                1. In an authenticator app (Google Authenticator, Microsoft Authenticator, Authy), add an account with
+                this key:
+              </p>
+              {enrollment ? (
+                <>
+                  <p className="bg-gray-900 rounded-lg p-3 text-center text-cyan-100 tracking-wider break-all">
+                    {formatSecret(enrollment.secret)}
+                  </p>
+                  <a href={enrollment.otpauthUrl} className={`${linkButton} block text-center mt-2`}>
+                    On this phone? Open the authenticator app
+                  </a>
+                </>
+              ) : (
+                <div className="flex justify-center p-3">
+                  <ArrowPathIcon className="w-5 h-5 animate-spin text-cyan-400" />
+                </div>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm text-cyan-200 mb-2">2. Enter the 6-digit code it shows</label>
+              <input
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className={inputClass}
+                placeholder="123456"
+                required
+              />
+            </div>
+            <button type="submit" disabled={busy || !enrollment} className={primaryButton}>
+              {busy ? <ArrowPathIcon className="w-5 h-5 animate-spin" /> : 'Turn On Two-Step Sign-in'}
+            </button>
+          </form>
+        ) : (
+          <form onSubmit={handleVerify} className="space-y-6">
+            <div>
+              <label className="block text-sm text-cyan-200 mb-2">
+                {useRecoveryCode
+                  ? 'Enter one of your recovery codes'
+                  : 'Enter the 6-digit code from your authenticator app'}
+              </label>
+              <input
+                type="text"
+                inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className={inputClass}
+                placeholder={useRecoveryCode ? 'XXXXX-XXXXX' : '123456'}
+                autoFocus
+                required
+              />
+            </div>
+            <button type="submit" disabled={busy} className={primaryButton}>
+              {busy ? <ArrowPathIcon className="w-5 h-5 animate-spin" /> : 'Verify'}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setUseRecoveryCode(!useRecoveryCode);
+                setCode('');
+              }}
+              className={`${linkButton} block mx-auto`}
+            >
+              {useRecoveryCode ? 'Use your authenticator app instead' : 'Lost your phone? Use a recovery code'}
+            </button>
+          </form>
+        )}
+
+        {!recoveryCodes && (
+          <div className="mt-6 text-center text-sm text-gray-400">
+            {status === 'none' ? (
+              <button onClick={() => navigate(home)} className={linkButton}>
+                Not now
+              </button>
+            ) : (
+              <p>
+                No access to your phone or codes? Ask an admin to reset your two-step sign-in.{' '}
+                <button onClick={logout} className={linkButton}>
+                  Sign out
+                </button>
+              </p>
+            )}
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+export default TwoStepVerification;
@@ -7,9 +7,26 @@ import {
   TrashIcon,
   AcademicCapIcon,
   ViewColumnsIcon,
+  KeyIcon,
+  ArrowRightOnRectangleIcon,
+  ShieldExclamationIcon,
 } from '@heroicons/react/24/solid';
 import Swal from 'sweetalert2';
 import AdminSidebar from '../components/AdminSidebar';
+import { useAuth } from './AuthContext';
+import { AccessRole, Permission } from '../types';
+import { escapeHtml } from '../utils/htmlUtils';
+import { revokeAllSessions } from '../services/userSessions';
+import { resetSecondFactor } from '../services/mfa';
+import {
+  ACCESS_ROLE_LABELS,
+  ACCESS_ROLE_PERMISSIONS,
+  ALL_PERMISSIONS,
+  DEPARTMENT_SCOPED_ROLES,
+  effectivePermissions,
+  PERMISSION_LABELS,
+  updateUserAccess,
+} from '../services/permissions';
 
 interface User {
   id: string;
@@ -19,6 +36,8 @@ interface User {
   department?: string;
   studentId?: string;
   uid?: string;
+  accessRole?: AccessRole | null;
+  permissions?: Permission[];
 }
 
 interface Schedule {
@@ -80,6 +99,7 @@ const Users = () => {
     assignedSubjects: []
   });
   const [isDetailsModalOpen, setIsDetailsModalOpen] = useState(false);
+  const { currentUser } = useAuth();
 
   // Fetch Users
   useEffect(() => {
@@ -106,7 +126,9 @@ const Users = () => {
           email: doc.data().email,
           role: 'instructor',
           department: doc.data().department,
-          uid: doc.data().uid || doc.id
+          uid: doc.data().uid || doc.id,
+          accessRole: doc.data().accessRole || null,
+          permissions: doc.data().permissions || []
         } as User));
         const studentsData = studentsSnapshot.docs.map(doc => ({
           id: doc.id,
@@ -198,6 +220,127 @@ const Users = () => {
     }
   };
 
+  // Handle Access: an access role grants its preset permissions; extra ones can be ticked individually
+  const handleAccessModal = async (user: User) => {
+    const current = user.permissions || [];
+    const { value } = await Swal.fire({
+      title: `Access for ${user.fullName}`,
+      html: `
+        <select id="access-role" class="swal2-select" style="display:flex;width:auto;margin:0 auto 1rem">
+          <option value="">No access role</option>
+          ${(Object.keys(ACCESS_ROLE_LABELS) as AccessRole[])
+            .map((role) => `<option value="${role}" ${user.accessRole === role ? 'selected' : ''}>${ACCESS_ROLE_LABELS[role]}</option>`)
+            .join('')}
+        </select>
+        <p class="text-xs text-gray-500 mb-2">
+          Permissions granted by the access role are always included. A department head's apply only to
+          ${escapeHtml(user.department || 'their department')}; ticked permissions apply everywhere.
+        </p>
+        <div class="grid grid-cols-1 gap-1 text-left text-sm">
+          ${ALL_PERMISSIONS.map(
+            (permission) => `
+              <label class="flex items-center gap-2">
+                <input type="checkbox" class="access-permission" value="${permission}" ${current.includes(permission) ? 'checked' : ''}>
+                ${PERMISSION_LABELS[permission]}
+              </label>`
+          ).join('')}
+        </div>
+      `,
+      showCancelButton: true,
+      confirmButtonText: 'Save Access',
+      confirmButtonColor: '#3b82f6',
+      preConfirm: () => {
+        const accessRole = ((document.getElementById('access-role') as HTMLSelectElement).value || null) as AccessRole | null;
+        if (accessRole && DEPARTMENT_SCOPED_ROLES.includes(accessRole) && !user.department) {
+          Swal.showValidationMessage('Set a department on this profile before making them a department head');
+          return false;
+        }
+        const ticked = Array.from(document.querySelectorAll<HTMLInputElement>('.access-permission:checked')).map(
+          (input) => input.value as Permission
+        );
+        // Only store what the role does not already grant
+        const granted = accessRole ? ACCESS_ROLE_PERMISSIONS[accessRole] : [];
+        return { accessRole, permissions: ticked.filter((permission) => !granted.includes(permission)) };
+      },
+    });
+    if (!value) return;
+
+    try {
+      await updateUserAccess(user.role === 'instructor' ? 'teachers' : 'users', user.id, value);
+      setUsers((prev) => prev.map((u) => (u.id === user.id ? { ...u, ...value } : u)));
+      Swal.fire({
+        icon: 'success',
+        title: 'Access Updated',
+        text: `${user.fullName} now has ${effectivePermissions({ ...user, ...value }).length} permissions.`,
+        background: '#f8fafc',
+        iconColor: '#3b82f6',
+        confirmButtonColor: '#3b82f6'
+      });
+    } catch (error) {
+      console.error('Error updating access:', error);
+      Swal.fire('Error', 'Failed to update access', 'error');
+    }
+  };
+
+  // Handle Sign Out Everywhere: for a lost card or a leaked password
+  const handleRevokeSessions = async (user: User) => {
+    const result = await Swal.fire({
+      title: `Sign out ${user.fullName} everywhere?`,
+      text: 'Every browser they are signed in on is signed out now, and they must sign in again with their password.',
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Sign Out Everywhere',
+      confirmButtonColor: '#e11d48',
+    });
+    if (!result.isConfirmed) return;
+
+    try {
+      const revoked = await revokeAllSessions({ uid: user.uid || user.id, email: user.email });
+      Swal.fire({
+        icon: 'success',
+        title: 'Sessions Revoked',
+        text: `${user.fullName} was signed out of ${revoked} session${revoked === 1 ? '' : 's'}.`,
+        background: '#f8fafc',
+        iconColor: '#3b82f6',
+        confirmButtonColor: '#3b82f6'
+      });
+    } catch (error) {
+      console.error('Error revoking sessions:', error);
+      Swal.fire('Error', error instanceof Error ? error.message : 'Failed to revoke sessions', 'error');
+    }
+  };
+
+  // Handle Two-Step Reset: for staff who lost their phone and recovery codes
+  const handleResetSecondFactor = async (user: User) => {
+    const result = await Swal.fire({
+      title: `Reset two-step sign-in for ${user.fullName}?`,
+      text:
+        user.role === 'admin'
+          ? 'Their authenticator and recovery codes stop working, and they set up a new authenticator at their next sign-in.'
+          : 'Their authenticator and recovery codes stop working, and their password alone signs them in until they set it up again.',
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Reset',
+      confirmButtonColor: '#e11d48',
+    });
+    if (!result.isConfirmed) return;
+
+    try {
+      await resetSecondFactor(user.uid || user.id);
+      Swal.fire({
+        icon: 'success',
+        title: 'Two-Step Sign-in Reset',
+        text: `${user.fullName} can now set up a new authenticator.`,
+        background: '#f8fafc',
+        iconColor: '#3b82f6',
+        confirmButtonColor: '#3b82f6'
+      });
+    } catch (error) {
+      console.error('Error resetting two-step sign-in:', error);
+      Swal.fire('Error', error instanceof Error ? error.message : 'Failed to reset two-step sign-in', 'error');
+    }
+  };
+
   // Handle Sort
   const handleSort = (field: 'name' | 'role' | 'department') => {
     if (sortBy === field) {
@@ -325,6 +468,33 @@ const Users = () => {
             </div>
           </div>
           <div className="flex items-center space-x-2">
+            {user.role !== 'student' && user.role !== 'admin' && currentUser?.role === 'admin' && (
+              <button
+                onClick={() => handleAccessModal(user)}
+                className="p-2 rounded-lg hover:bg-indigo-50 text-indigo-600 transition-colors duration-200 flex items-center"
+                title="Manage access"
+              >
+                <KeyIcon className="w-5 h-5" />
+              </button>
+            )}
+            {currentUser?.role === 'admin' && (user.uid || user.id) !== currentUser.uid && (
+              <button
+                onClick={() => handleRevokeSessions(user)}
+                className="p-2 rounded-lg hover:bg-rose-50 text-rose-600 transition-colors duration-200 flex items-center"
+                title="Sign out everywhere"
+              >
+                <ArrowRightOnRectangleIcon className="w-5 h-5" />
+              </button>
+            )}
+            {currentUser?.role === 'admin' && user.role !== 'student' && (user.uid || user.id) !== currentUser.uid && (
+              <button
+                onClick={() => handleResetSecondFactor(user)}
+                className="p-2 rounded-lg hover:bg-amber-50 text-amber-600 transition-colors duration-200 flex items-center"
+                title="Reset two-step sign-in"
+              >
+                <ShieldExclamationIcon className="w-5 h-5" />
+              </button>
+            )}
             {user.role === 'instructor' && (
               <button
                 onClick={() => handleDetailsModal(user)}
@@ -340,6 +510,16 @@ const Users = () => {
           <span className={`px-3 py-1 rounded-full text-xs font-medium ${user.role === 'admin' ? 'bg-blue-100 text-blue-800' : user.role === 'instructor' ? 'bg-purple-100 text-purple-800' : 'bg-green-100 text-green-800'}`}>
             {user.role.charAt(0).toUpperCase() + user.role.slice(1)}
           </span>
+          {user.accessRole && (
+            <span className="px-3 py-1 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+              {ACCESS_ROLE_LABELS[user.accessRole]}
+            </span>
+          )}
+          {!user.accessRole && (user.permissions?.length || 0) > 0 && (
+            <span className="px-3 py-1 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+              {user.permissions!.length} permissions
+            </span>
+          )}
           {user.department && (
             <span className="px-3 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
               {user.department}
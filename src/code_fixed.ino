@@ -17,6 +17,10 @@
 #include <String.h>
 #include <RtcDS1302.h>  // DS1302 RTC library
 #include <set>
+#include <algorithm>
+// The controller's own account (DEVICE_EMAIL, DEVICE_PASSWORD); copy
+// device_secrets.example.h to start one.
+#include "device_secrets.h"
 
 // Function Prototypes
 void connectWiFi();
@@ -41,7 +45,10 @@ void logAdminAccess(String uid, String timestamp);
 void logAdminTamperStop(String uid, String timestamp);
 void logSystemEvent(String event);
 bool isRegisteredUID(String uid);
+bool isListedRegisteredUID(String uid);
 void fetchRegisteredUIDs();
+bool isTemporaryCard(String uid);
+void admitTemporaryCard(String uid, String timestamp);
 void fetchFirestoreTeachers();
 void fetchFirestoreStudents();
 void displayMessage(String line1, String line2, unsigned long duration);
@@ -219,6 +226,7 @@ std::vector<String> pendingStudentTaps;
 std::map<String, float> studentWeights;
 String assignedRoomId = "";
 float sessionStartReading = 0.0;
+String sessionStartTimestamp = "";
 float lastVoltage = 0.0;
 float lastCurrent = 0.0;
 float lastPower = 0.0;
@@ -438,23 +446,9 @@ void initFirebase() {
   
   Serial.println("Initializing Firebase...");
   
-  // Check if already signed up or use anonymous sign-up
-  if (Firebase.authenticated()) {
-    Serial.println("Already authenticated with Firebase.");
-  } else {
-    if (!Firebase.signUp(&config, &auth, "", "")) { // Anonymous sign-up
-      Serial.printf("Firebase signup error: %s\n", config.signer.signupError.message.c_str());
-      lcd.clear();
-      lcd.setCursor(0, 0);
-      lcd.print("Firebase Error:");
-      lcd.setCursor(0, 1);
-      lcd.print(config.signer.signupError.message.c_str());
-      nonBlockingDelay(5000);
-      ESP.restart();
-    } else {
-      Serial.println("Firebase anonymous sign-up successful.");
-    }
-  }
+  // Sign in as the device account; Firebase.begin exchanges these for a token.
+  auth.user.email = DEVICE_EMAIL;
+  auth.user.password = DEVICE_PASSWORD;
   
   // Token status callback for monitoring and refreshing token
   config.token_status_callback = [](TokenInfo info) {
@@ -542,6 +536,13 @@ bool isRegisteredUID(String uid) {
     return true;
   }
 
+  // Then the cards registered from the web app's RFID console, which include
+  // temporary cards and replacements the caches above do not know yet
+  if (isListedRegisteredUID(uid)) {
+    Serial.println("UID " + uid + " is listed in /RegisteredUIDs.");
+    return true;
+  }
+
   // If not found in cache, try direct Firestore query
   if (!sdMode && isConnected) {
     // First check teachers collection
@@ -748,6 +749,61 @@ std::map<String, String> fetchUserDetails(String uid) {
   return userData;
 }
 
+// Whether /RegisteredUIDs lists the card. Online, the card's own entry is read
+// so a card that was revoked or has expired is refused straight away; offline,
+// the list from the last fetch is used.
+bool isListedRegisteredUID(String uid) {
+  if (!sdMode && isConnected && Firebase.ready()) {
+    if (Firebase.RTDB.get(&fbdo, "/RegisteredUIDs/" + uid)) {
+      bool listed = fbdo.dataType() != "null";
+      auto cached = std::find(registeredUIDs.begin(), registeredUIDs.end(), uid);
+      if (listed && cached == registeredUIDs.end()) registeredUIDs.push_back(uid);
+      if (!listed && cached != registeredUIDs.end()) registeredUIDs.erase(cached);
+      return listed;
+    }
+  }
+  return std::find(registeredUIDs.begin(), registeredUIDs.end(), uid) != registeredUIDs.end();
+}
+
+// A listed card the web app issued as temporary, rather than one whose holder
+// the caches have not caught up with.
+bool isTemporaryCard(String uid) {
+  if (sdMode || !isConnected || !Firebase.ready() || !isListedRegisteredUID(uid)) return false;
+  return Firebase.RTDB.getString(&fbdo, "/rfid/" + uid + "/kind") && fbdo.stringData() == "temporary";
+}
+
+// Temporary cards belong to no student or instructor account, so they only
+// open the door. The access is logged like any other.
+void admitTemporaryCard(String uid, String timestamp) {
+  storeLogToSD("UID:" + uid + " Timestamp:" + timestamp + " Action:TemporaryCardAccess");
+  if (!sdMode && isConnected && Firebase.ready()) {
+    String holderName = "Temporary card";
+    if (Firebase.RTDB.getString(&fbdo, "/rfid/" + uid + "/holderName") && fbdo.stringData().length() > 0) {
+      holderName = fbdo.stringData();
+    }
+    String sanitizedTimestamp = timestamp;
+    sanitizedTimestamp.replace(" ", "_");
+    sanitizedTimestamp.replace(":", "");
+    sanitizedTimestamp.replace("/", "_");
+    FirebaseJson accessJson;
+    accessJson.set("action", "TemporaryCardAccess");
+    accessJson.set("timestamp", timestamp);
+    accessJson.set("fullName", holderName);
+    accessJson.set("role", "visitor");
+    if (!Firebase.RTDB.setJSON(&fbdo, "/AccessLogs/" + uid + "/" + sanitizedTimestamp, &accessJson)) {
+      Serial.println("Failed to log temporary card access: " + fbdo.errorReason());
+    }
+  }
+  accessFeedback();
+  displayMessage("Temporary Card", "Door Open", 2000);
+  // Leave the lock alone while a class or an admin already holds it open.
+  if (digitalRead(RELAY1) == HIGH) {
+    digitalWrite(RELAY1, LOW);
+    nonBlockingDelay(5000);
+    digitalWrite(RELAY1, HIGH);
+  }
+}
+
 void fetchRegisteredUIDs() {
   if (!sdMode && (WiFi.status() != WL_CONNECTED || pzem.voltage() < voltageThreshold)) {
     return;
@@ -1118,11 +1174,8 @@ bool ensureFirebaseAuthenticated() {
   
   if (!Firebase.authenticated()) {
     Serial.println("Firebase not authenticated. Attempting sign-in...");
-    // Try to sign in again
-    if (!Firebase.signUp(&config, &auth, "", "")) {
-      Serial.printf("Firebase re-auth failed: %s\n", config.signer.signupError.message.c_str());
-      return false;
-    }
+    // Sign in again as the device account
+    Firebase.begin(&config, &auth);
     
     delay(1000); // Give it time to process
     if (!Firebase.authenticated()) {
@@ -1816,6 +1869,9 @@ void logInstructor(String uid, String timestamp, String action) {
         pzemJson.set("powerFactor", String(powerFactor, 2));
         pzemJson.set("timestamp", timestamp);
         pzemJson.set("action", "end");
+        // The counter is cumulative; the dashboard bills the class for the difference.
+        pzemJson.set("startEnergy", String(sessionStartReading, 2));
+        pzemJson.set("startTimestamp", sessionStartTimestamp);
         roomNameJson.set("pzem", pzemJson);
         pzemLoggedForSession = true;
         Serial.println("PZEM logged at session end: Voltage=" + String(voltage, 1) + ", Energy=" + String(energy, 2));
@@ -1957,6 +2013,7 @@ void logInstructor(String uid, String timestamp, String action) {
       studentAssignedSensors.clear();
       studentWeights.clear();
       sessionStartReading = pzem.energy();
+      sessionStartTimestamp = timestamp;
 
       accessFeedback();
       Serial.println("Class session started. Session ID: " + currentSessionId + ", Room: " + roomName);
@@ -4351,6 +4408,65 @@ void updatePZEM() {
   }
 }
 
+// Pushes one reading to the room's energy time series while the room is in
+// use. Keys are YYYYMMDD/HHMMSS; the server folds each new sample into hourly
+// and daily rollups.
+void logEnergySample() {
+  static unsigned long lastEnergySample = 0;
+  if (millis() - lastEnergySample < 60000) return;
+  if (sdMode || !isConnected || !Firebase.ready() || !isVoltageSufficient) return;
+  lastEnergySample = millis();
+
+  String timestamp = getFormattedTime(); // YYYY_MM_DD_HHMMSS
+  if (timestamp.length() < 17 || timestamp.startsWith("1970")) return;
+
+  // The room this controller last served; after a session ends it keeps
+  // reporting any draw there so the server can flag an idle room.
+  static String idleRoomName = "";
+
+  String roomName = "";
+  String source = "";
+  if (classSessionActive && lastInstructorUID != "") {
+    roomName = isWithinSchedule(lastInstructorUID, timestamp).roomName;
+    source = "class";
+  } else if (adminAccessActive && assignedRoomId != "" && firestoreRooms.find(assignedRoomId) != firestoreRooms.end()) {
+    const auto& roomData = firestoreRooms[assignedRoomId];
+    roomName = roomData.count("name") ? roomData.at("name") : "";
+    source = "admin";
+  } else if (idleRoomName.length() > 0 && lastPower >= 1.0) {
+    roomName = idleRoomName;
+    source = "idle";
+  }
+  if (roomName.length() == 0) return;
+  idleRoomName = roomName;
+
+  String day = timestamp.substring(0, 4) + timestamp.substring(5, 7) + timestamp.substring(8, 10);
+  String timeOfDay = timestamp.substring(11, 17);
+
+  // Same characters the server strips from room keys.
+  String roomKey = roomName;
+  const char* reserved = ".#$[]/";
+  for (int i = 0; reserved[i] != '\0'; i++) {
+    roomKey.replace(String(reserved[i]), "_");
+  }
+  roomKey.trim();
+
+  FirebaseJson sampleJson;
+  sampleJson.set("voltage", lastVoltage);
+  sampleJson.set("current", lastCurrent);
+  sampleJson.set("power", lastPower);
+  sampleJson.set("energy", lastEnergy);
+  sampleJson.set("frequency", lastFrequency);
+  sampleJson.set("powerFactor", lastPowerFactor);
+  sampleJson.set("room", roomName);
+  sampleJson.set("source", source);
+
+  String samplePath = "/EnergySeries/" + roomKey + "/samples/" + day + "/" + timeOfDay;
+  if (!Firebase.RTDB.setJSON(&fbdo, samplePath, &sampleJson)) {
+    Serial.println("Energy sample failed: " + fbdo.errorReason());
+  }
+}
+
 void handleOfflineSync() {
   if (!SD.exists("/Offline_Logs_Entry.txt")) {
     Serial.println("No offline logs to sync (/Offline_Logs_Entry.txt not found).");
@@ -4631,6 +4747,7 @@ void loop() {
     updateDisplay();
     lastPeriodicUpdate = millis();
   }
+  logEnergySample();
 
   // Heap monitoring
   static unsigned long lastHeapCheck = 0;
@@ -5492,6 +5609,12 @@ void loop() {
         if (isAdminUID(uidStr) && !tamperActive) {
           logAdminAccess(uidStr, timestamp);
         } else if (isRegisteredUID(uidStr)) {
+          // A replacement card is listed before the caches pick up the holder's new card.
+          if (firestoreTeachers.find(uidStr) == firestoreTeachers.end() &&
+              firestoreStudents.find(uidStr) == firestoreStudents.end() && !sdMode && isConnected) {
+            fetchFirestoreTeachers();
+            fetchFirestoreStudents();
+          }
           if (firestoreTeachers.find(uidStr) != firestoreTeachers.end()) {
             String role = firestoreTeachers[uidStr]["role"];
             if (role.length() == 0) role = "instructor";
@@ -5549,6 +5672,8 @@ void loop() {
                 }
               }
             }
+          } else if (isTemporaryCard(uidStr)) {
+            admitTemporaryCard(uidStr, timestamp);
           } else {
             deniedFeedback();
             displayMessage("Role Unknown", "Access Denied", 3000);
@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import Swal from 'sweetalert2';
+import { ComputerDesktopIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '../Pages/AuthContext';
+import { subscribeToUserSessions } from '../services/rtdbRepository';
+import { currentSessionId, signOutSession } from '../services/userSessions';
+import { RTDBUserSession } from '../types/rtdb';
+
+interface ActiveSessionsProps {
+  // Student pages are dark, staff settings light.
+  tone?: 'light' | 'dark';
+}
+
+const TONES = {
+  light: {
+    row: 'border-gray-200',
+    title: 'text-gray-900',
+    detail: 'text-gray-500',
+    badge: 'bg-green-100 text-green-800',
+    button: 'text-rose-600 hover:text-rose-700',
+  },
+  dark: {
+    row: 'border-gray-700',
+    title: 'text-cyan-100',
+    detail: 'text-gray-400',
+    badge: 'bg-cyan-900 text-cyan-200',
+    button: 'text-rose-400 hover:text-rose-300',
+  },
+};
+
+const formatTime = (at: number) => new Date(at).toLocaleString();
+
+// The signed-in user's browsers, with sign-out for any but this one.
+const ActiveSessions: React.FC<ActiveSessionsProps> = ({ tone = 'light' }) => {
+  const { currentUser } = useAuth();
+  const [sessions, setSessions] = useState<Record<string, RTDBUserSession>>({});
+  const classes = TONES[tone];
+  const uid = currentUser?.uid;
+  const thisSession = uid ? currentSessionId(uid) : null;
+
+  useEffect(() => {
+    if (!uid) return;
+    const unsubscribe = subscribeToUserSessions(uid, setSessions, (error) =>
+      console.error('Error fetching sessions:', error)
+    );
+    return () => unsubscribe();
+  }, [uid]);
+
+  const active = Object.entries(sessions)
+    .filter(([, session]) => !session.revokedAt)
+    .sort(([a], [b]) => (a === thisSession ? -1 : b === thisSession ? 1 : 0) || a.localeCompare(b));
+  const others = active.filter(([sessionId]) => sessionId !== thisSession);
+
+  const handleSignOut = async (sessionIds: string[]) => {
+    if (!uid) return;
+    const result = await Swal.fire({
+      title: sessionIds.length > 1 ? `Sign out ${sessionIds.length} other sessions?` : 'Sign out this session?',
+      text: 'Those browsers will be signed out right away.',
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Sign out',
+      confirmButtonColor: '#e11d48',
+    });
+    if (!result.isConfirmed) return;
+
+    try {
+      await Promise.all(sessionIds.map((sessionId) => signOutSession(uid, sessionId)));
+    } catch (error) {
+      console.error('Error signing out sessions:', error);
+      Swal.fire('Error', 'Failed to sign out the session.', 'error');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {active.map(([sessionId, session]) => (
+        <div key={sessionId} className={`flex items-center justify-between border-b pb-3 ${classes.row}`}>
+          <div className="flex items-center">
+            <ComputerDesktopIcon className={`h-6 w-6 mr-3 ${classes.detail}`} />
+            <div>
+              <p className={`text-sm font-medium ${classes.title}`}>
+                {session.device}
+                {sessionId === thisSession && (
+                  <span className={`ml-2 px-2 py-0.5 rounded-full text-xs ${classes.badge}`}>This device</span>
+                )}
+              </p>
+              <p className={`text-xs ${classes.detail}`}>
+                Signed in {formatTime(session.startedAt)} &middot; last active {formatTime(session.lastActiveAt)}
+              </p>
+            </div>
+          </div>
+          {sessionId !== thisSession && (
+            <button onClick={() => handleSignOut([sessionId])} className={`text-sm font-medium ${classes.button}`}>
+              Sign out
+            </button>
+          )}
+        </div>
+      ))}
+      {active.length === 0 && <p className={`text-sm ${classes.detail}`}>No active sessions.</p>}
+      {others.length > 1 && (
+        <button
+          onClick={() => handleSignOut(others.map(([sessionId]) => sessionId))}
+          className={`text-sm font-medium ${classes.button}`}
+        >
+          Sign out all other sessions
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ActiveSessions;
@@ -11,6 +11,8 @@ interface RoomData {
   capacity: number;
   type: 'classroom' | 'laboratory' | 'lecture_hall' | 'conference_room' | 'faculty_room';
   status: 'available' | 'occupied' | 'maintenance';
+  // MAC address the door controller reports with its tamper alerts.
+  doorControllerId: string;
   facilities: {
     hasProjector: boolean;
     hasAC: boolean;
@@ -38,6 +40,7 @@ const AddRoomModal: React.FC<AddRoomModalProps> = ({ isOpen, onClose, onSubmit }
     capacity: 0,
     type: 'classroom',
     status: 'available',
+    doorControllerId: '',
     facilities: {
       hasProjector: false,
       hasAC: false,
@@ -61,6 +64,7 @@ const AddRoomModal: React.FC<AddRoomModalProps> = ({ isOpen, onClose, onSubmit }
       capacity: 0,
       type: 'classroom',
       status: 'available',
+      doorControllerId: '',
       facilities: {
         hasProjector: false,
         hasAC: false,
@@ -172,6 +176,17 @@ const AddRoomModal: React.FC<AddRoomModalProps> = ({ isOpen, onClose, onSubmit }
             </div>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Door Controller MAC (optional)</label>
+            <input
+              type="text"
+              value={formData.doorControllerId}
+              onChange={(e) => setFormData({ ...formData, doorControllerId: e.target.value.trim().toUpperCase() })}
+              className={theme.components.input}
+              placeholder="e.g., 24:6F:28:AA:BB:CC"
+            />
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">Status</label>
             <select
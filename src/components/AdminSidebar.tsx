@@ -13,15 +13,21 @@ import {
   BookOpenIcon,
   BuildingStorefrontIcon,
   ChartBarSquareIcon,
-  LightBulbIcon
+  LightBulbIcon,
+  IdentificationIcon,
+  UserPlusIcon,
+  ArrowUpTrayIcon,
+  BuildingLibraryIcon,
+  BellAlertIcon
 } from '@heroicons/react/24/solid';
 import { useAuth } from '../Pages/AuthContext';
+import { canAccessPath } from '../services/permissions';
 import { motion } from 'framer-motion';
 
 const AdminSidebar = () => {
   const [isCollapsed, setIsCollapsed] = useState(false);
   const location = useLocation();
-  const { logout } = useAuth();
+  const { currentUser, logout } = useAuth();
 
   const navigationItems = [
     {
@@ -34,6 +40,16 @@ const AdminSidebar = () => {
       icon: UserGroupIcon,
       path: '/admin/users'
     },
+    {
+      name: 'Approvals',
+      icon: UserPlusIcon,
+      path: '/admin/registrations'
+    },
+    {
+      name: 'Roster Import',
+      icon: ArrowUpTrayIcon,
+      path: '/admin/roster-import'
+    },
     {
       name: 'Schedules',
       icon: CalendarDateRangeIcon,
@@ -54,11 +70,26 @@ const AdminSidebar = () => {
       icon: BuildingOfficeIcon,
       path: '/admin/rooms'
     },
+    {
+      name: 'RFID Cards',
+      icon: IdentificationIcon,
+      path: '/admin/rfid-cards'
+    },
+    {
+      name: 'Tamper Incidents',
+      icon: BellAlertIcon,
+      path: '/admin/tamper-incidents'
+    },
     {
       name: 'Insights',
       icon: ChartBarSquareIcon,
       path: '/admin/insights'
     },
+    {
+      name: 'Department',
+      icon: BuildingLibraryIcon,
+      path: '/admin/department'
+    },
     {
       name: 'Energy Usage',
       icon: LightBulbIcon,
@@ -92,7 +123,7 @@ const AdminSidebar = () => {
           {!isCollapsed && (
             <div className="flex items-center gap-2">
               <AcademicCapIcon className="w-8 h-8 text-cyan-400" />
-              <span className="text-xl font-bold text-cyan-100">Admin</span>
+              <span className="text-xl font-bold text-cyan-100">{currentUser?.role === 'admin' ? 'Admin' : 'Staff'}</span>
             </div>
           )}
           {isCollapsed && <AcademicCapIcon className="w-8 h-8 text-cyan-400 mx-auto" />}
@@ -112,7 +143,7 @@ const AdminSidebar = () => {
 
         {/* Navigation */}
         <nav className="flex-1 px-4 py-6 space-y-1 overflow-y-auto relative z-10">
-          {navigationItems.map((item) => {
+          {navigationItems.filter((item) => canAccessPath(currentUser, item.path)).map((item) => {
             const isActive = location.pathname === item.path;
             return (
               <Link
@@ -8,6 +8,7 @@ import PrivateRoute from '../Pages/PrivateRoute';
 import AdminRegistration from '../Pages/AdminRegistration';
 import AttendancePage from '../Pages/AttendancePage';
 import SecurityLogsPage from '../Pages/SecurityLogs';
+import TamperIncidentsPage from '../Pages/TamperIncidents';
 import EnergyUsagePage from '../Pages/EnergyUsagePage';
 import StudentDashboard from '../Pages/StudentDashboard';
 import Reports from '../Pages/Reports';
@@ -20,12 +21,18 @@ import TakeAttendance from '../Pages/TakeAttendance';
 import RFIDRegistrationPage from '../Pages/Register';
 import AdminSections from '../Pages/AdminSectionPage';
 import RoomsPage from '../Pages/RoomsPage';
+import RfidCards from '../Pages/RfidCards';
+import RegistrationApprovals from '../Pages/RegistrationApprovals';
+import RosterImport from '../Pages/RosterImport';
+import DepartmentOverview from '../Pages/DepartmentOverview';
 import AttendanceManagement from '../Pages/AttendanceManagement';
 import SubjectSelection from '../Pages/SubjectSelection';
 import SubjectsManagement from '../Pages/SubjectManagement';
 import StudentSchedules from '../Pages/StudentsSchedules';
 import StudentProfile from '../Pages/StudentProfile';
+import TwoStepVerification from '../Pages/TwoStepVerification';
 import { useParams } from 'react-router-dom';
+import SessionGuard from './SessionGuard';
 
 // Wrapper component to pass instructorName from URL params
 const AttendancePageWrapper: React.FC = () => {
@@ -37,10 +44,12 @@ const App = () => {
   return (
     <Router>
       <AuthProvider>
+        <SessionGuard />
         <Routes>
           {/* Public routes */}
           <Route path="/login" element={<Login />} />
           <Route path="/reset-password" element={<ResetPassword />} />
+          <Route path="/two-step" element={<TwoStepVerification />} />
           <Route path="/adminregistration" element={<AdminRegistration />} />
           <Route path="/rfid-registration" element={<RFIDRegistrationPage />} />
 
@@ -56,7 +65,7 @@ const App = () => {
           <Route
             path="/admin/users"
             element={
-              <PrivateRoute roles={['admin']}>
+              <PrivateRoute roles={['admin']} permission="manage_users">
                 <Users />
               </PrivateRoute>
             }
@@ -64,19 +73,35 @@ const App = () => {
           <Route
             path="/admin/insights"
             element={
-              <PrivateRoute roles={['admin']}>
+              <PrivateRoute roles={['admin']} permission="view_reports">
                 <Reports />
               </PrivateRoute>
             }
           />
+          <Route
+            path="/admin/department"
+            element={
+              <PrivateRoute roles={['admin']} permission="view_reports">
+                <DepartmentOverview />
+              </PrivateRoute>
+            }
+          />
           <Route
             path="/admin/security-logs"
             element={
-              <PrivateRoute roles={['admin']}>
+              <PrivateRoute roles={['admin']} permission="view_security_logs">
                 <SecurityLogsPage />
               </PrivateRoute>
             }
           />
+          <Route
+            path="/admin/tamper-incidents"
+            element={
+              <PrivateRoute roles={['admin']} permission="resolve_tamper_alerts">
+                <TamperIncidentsPage />
+              </PrivateRoute>
+            }
+          />
           <Route
             path="/admin/settings"
             element={
@@ -88,7 +113,7 @@ const App = () => {
           <Route
             path="/admin/energyusage"
             element={
-              <PrivateRoute roles={['admin']}>
+              <PrivateRoute roles={['admin']} permission="view_energy">
                 <EnergyUsagePage />
               </PrivateRoute>
             }
@@ -96,7 +121,7 @@ const App = () => {
           <Route
             path="/admin/schedules"
             element={
-              <PrivateRoute roles={['admin']}>
+              <PrivateRoute roles={['admin']} permission="manage_schedules">
                 <AdminSchedules />
               </PrivateRoute>
             }
@@ -104,7 +129,7 @@ const App = () => {
           <Route
             path="/admin/sections"
             element={
-              <PrivateRoute roles={['admin']}>
+              <PrivateRoute roles={['admin']} permission="manage_schedules">
                 <AdminSections />
               </PrivateRoute>
             }
@@ -112,15 +137,39 @@ const App = () => {
           <Route
             path="/admin/rooms"
             element={
-              <PrivateRoute roles={['admin']}>
+              <PrivateRoute roles={['admin']} permission="manage_rooms">
                 <RoomsPage />
               </PrivateRoute>
             }
           />
+          <Route
+            path="/admin/rfid-cards"
+            element={
+              <PrivateRoute roles={['admin']} permission="manage_rfid_cards">
+                <RfidCards />
+              </PrivateRoute>
+            }
+          />
+          <Route
+            path="/admin/registrations"
+            element={
+              <PrivateRoute roles={['admin']} permission="approve_registrations">
+                <RegistrationApprovals />
+              </PrivateRoute>
+            }
+          />
+          <Route
+            path="/admin/roster-import"
+            element={
+              <PrivateRoute roles={['admin']} permission="manage_roster">
+                <RosterImport />
+              </PrivateRoute>
+            }
+          />
           <Route
             path="/admin/subjects-management"
             element={
-              <PrivateRoute roles={['admin']}>
+              <PrivateRoute roles={['admin']} permission="manage_schedules">
                 <SubjectsManagement />
               </PrivateRoute>
             }
@@ -0,0 +1,43 @@
+import { AttendancePolicy } from '../types';
+import { ATTENDANCE_POLICY_FIELDS } from '../services/attendancePolicy';
+
+interface AttendancePolicyFieldsProps {
+  value: Partial<AttendancePolicy>;
+  onChange: (value: Partial<AttendancePolicy>) => void;
+  // When set, blank fields inherit these values and are shown as placeholders.
+  inherited?: AttendancePolicy;
+}
+
+export default function AttendancePolicyFields({ value, onChange, inherited }: AttendancePolicyFieldsProps) {
+  const handleChange = (key: keyof AttendancePolicy, raw: string) => {
+    const next = { ...value };
+    if (raw === '') {
+      delete next[key];
+    } else {
+      next[key] = Math.max(0, Number(raw));
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {ATTENDANCE_POLICY_FIELDS.map(({ key, label, unit }) => (
+        <div key={key}>
+          <label className="block text-sm font-medium mb-1">
+            {label} <span className="text-xs text-gray-500">({unit})</span>
+          </label>
+          <input
+            type="number"
+            min={0}
+            max={key === 'minimumAttendedPercent' ? 100 : undefined}
+            className="w-full p-2 border rounded-lg"
+            value={value[key] ?? ''}
+            placeholder={inherited ? `${inherited[key]} (inherited)` : undefined}
+            required={!inherited}
+            onChange={(e) => handleChange(key, e.target.value)}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
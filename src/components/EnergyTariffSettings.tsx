@@ -0,0 +1,334 @@
+import { useEffect, useState } from 'react';
+import Swal from 'sweetalert2';
+import { toast } from 'react-hot-toast';
+import { CalculatorIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/solid';
+import { EnergyTariff, RoomEnergyCalibration, TariffKind, TariffPeriod } from '../types';
+import { DEFAULT_SCALING_FACTOR, STANDARD_PERIOD_LABEL, scalingFactorFor } from '../services/energyAccounting';
+import { RoomEnergyRecord, saveEnergyTariff, saveRoomCalibration } from '../services/energySettings';
+
+const TARIFF_KIND_LABELS: Record<TariffKind, string> = {
+  flat: 'Flat rate',
+  time_of_use: 'Time of use',
+};
+
+const NEW_PERIOD: TariffPeriod = { label: 'Peak', startHour: 8, endHour: 18, ratePerKWh: 14, weekdaysOnly: true };
+
+const inputClass =
+  'w-full rounded-lg border-gray-300 focus:border-indigo-500 focus:ring-indigo-500 py-1 px-2 text-sm';
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+interface EnergyTariffSettingsProps {
+  tariff: EnergyTariff;
+  onTariffSaved: (tariff: EnergyTariff) => void;
+  canEditTariff: boolean;
+  roomName: string;
+  // The room's document and calibration; null when no room document has this name.
+  room: RoomEnergyRecord | null;
+  onCalibrated: (calibration: RoomEnergyCalibration) => void;
+  canCalibrate: boolean;
+  calibratedBy: string;
+}
+
+// The tariff every cost on the energy page is priced with, and the selected
+// room's prototype-to-room scaling factor.
+export default function EnergyTariffSettings({
+  tariff,
+  onTariffSaved,
+  canEditTariff,
+  roomName,
+  room,
+  onCalibrated,
+  canCalibrate,
+  calibratedBy,
+}: EnergyTariffSettingsProps) {
+  const [draft, setDraft] = useState<EnergyTariff | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [referenceKWh, setReferenceKWh] = useState('');
+  const [measuredKWh, setMeasuredKWh] = useState('');
+
+  useEffect(() => {
+    setReferenceKWh('');
+    setMeasuredKWh('');
+  }, [roomName]);
+
+  const updatePeriod = (index: number, changes: Partial<TariffPeriod>) =>
+    setDraft((current) =>
+      current
+        ? { ...current, periods: current.periods.map((period, i) => (i === index ? { ...period, ...changes } : period)) }
+        : current
+    );
+
+  const handleSaveTariff = async () => {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      await saveEnergyTariff(draft);
+      onTariffSaved(draft);
+      setDraft(null);
+      toast.success('Tariff saved');
+    } catch (error) {
+      console.error('Error saving energy tariff:', error);
+      Swal.fire('Error', error instanceof Error ? error.message : 'Failed to save the tariff.', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCalibrate = async () => {
+    if (!room) return;
+    setSaving(true);
+    try {
+      const calibration = await saveRoomCalibration(
+        room.roomId,
+        parseFloat(referenceKWh),
+        parseFloat(measuredKWh),
+        calibratedBy
+      );
+      onCalibrated(calibration);
+      setReferenceKWh('');
+      setMeasuredKWh('');
+      toast.success(`${roomName} now scales readings by x${calibration.scalingFactor.toFixed(2)}`);
+    } catch (error) {
+      console.error('Error calibrating room:', error);
+      Swal.fire('Error', error instanceof Error ? error.message : 'Failed to calibrate the room.', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const calibration = room?.calibration;
+
+  return (
+    <div className="bg-white p-4 sm:p-6 rounded-xl shadow-sm mb-6 sm:mb-8">
+      <h3 className="text-base sm:text-lg font-semibold mb-4 flex items-center">
+        <CalculatorIcon className="w-4 h-4 sm:w-5 sm:h-5 mr-1 sm:mr-2 text-indigo-600" />
+        Tariff &amp; Calibration
+      </h3>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 text-xs sm:text-sm">
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="font-medium text-gray-700 text-sm sm:text-base">Tariff</h4>
+            {canEditTariff && !draft && (
+              <button onClick={() => setDraft(tariff)} className="text-indigo-600 hover:text-indigo-800">
+                Edit
+              </button>
+            )}
+          </div>
+
+          {!draft ? (
+            <div className="space-y-1 text-gray-600">
+              <p>
+                {TARIFF_KIND_LABELS[tariff.kind]}: ₱{tariff.ratePerKWh.toFixed(2)}/kWh
+                {tariff.kind === 'time_of_use' && ` (${STANDARD_PERIOD_LABEL.toLowerCase()} hours)`}
+              </p>
+              {tariff.kind === 'time_of_use' &&
+                tariff.periods.map((period) => (
+                  <p key={period.label}>
+                    {period.label}: ₱{period.ratePerKWh.toFixed(2)}/kWh, {formatHour(period.startHour)}–
+                    {formatHour(period.endHour)}
+                    {period.weekdaysOnly && ', weekdays'}
+                  </p>
+                ))}
+              <p>
+                Demand charge:{' '}
+                {tariff.demandChargePerKW > 0
+                  ? `₱${tariff.demandChargePerKW.toFixed(2)}/kW on the highest ${tariff.demandIntervalMinutes}-minute average`
+                  : 'none'}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <label className="block">
+                  <span className="text-gray-600">Type</span>
+                  <select
+                    value={draft.kind}
+                    onChange={(e) => setDraft({ ...draft, kind: e.target.value as TariffKind })}
+                    className={inputClass}
+                  >
+                    {(Object.keys(TARIFF_KIND_LABELS) as TariffKind[]).map((kind) => (
+                      <option key={kind} value={kind}>
+                        {TARIFF_KIND_LABELS[kind]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block">
+                  <span className="text-gray-600">
+                    {draft.kind === 'flat' ? 'Rate (₱/kWh)' : `${STANDARD_PERIOD_LABEL} rate (₱/kWh)`}
+                  </span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={draft.ratePerKWh}
+                    onChange={(e) => setDraft({ ...draft, ratePerKWh: parseFloat(e.target.value) })}
+                    className={inputClass}
+                  />
+                </label>
+              </div>
+
+              {draft.kind === 'time_of_use' && (
+                <div className="space-y-2">
+                  {draft.periods.map((period, index) => (
+                    <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                      <input
+                        value={period.label}
+                        onChange={(e) => updatePeriod(index, { label: e.target.value })}
+                        placeholder="Name"
+                        className={`${inputClass} col-span-3`}
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        max="23"
+                        value={period.startHour}
+                        onChange={(e) => updatePeriod(index, { startHour: parseInt(e.target.value, 10) })}
+                        title="Start hour"
+                        className={`${inputClass} col-span-2`}
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        max="24"
+                        value={period.endHour}
+                        onChange={(e) => updatePeriod(index, { endHour: parseInt(e.target.value, 10) })}
+                        title="End hour"
+                        className={`${inputClass} col-span-2`}
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={period.ratePerKWh}
+                        onChange={(e) => updatePeriod(index, { ratePerKWh: parseFloat(e.target.value) })}
+                        title="Rate (₱/kWh)"
+                        className={`${inputClass} col-span-2`}
+                      />
+                      <label className="col-span-2 flex items-center gap-1 text-gray-600">
+                        <input
+                          type="checkbox"
+                          checked={period.weekdaysOnly}
+                          onChange={(e) => updatePeriod(index, { weekdaysOnly: e.target.checked })}
+                        />
+                        Weekdays
+                      </label>
+                      <button
+                        onClick={() => setDraft({ ...draft, periods: draft.periods.filter((_, i) => i !== index) })}
+                        className="col-span-1 text-red-500 hover:text-red-700"
+                        title="Remove period"
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <p className="text-gray-400">Name, start hour, end hour (exclusive), rate. Hours may wrap past midnight.</p>
+                  <button
+                    onClick={() => setDraft({ ...draft, periods: [...draft.periods, NEW_PERIOD] })}
+                    className="flex items-center gap-1 text-indigo-600 hover:text-indigo-800"
+                  >
+                    <PlusIcon className="w-4 h-4" />
+                    Add period
+                  </button>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-3">
+                <label className="block">
+                  <span className="text-gray-600">Demand charge (₱/kW)</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={draft.demandChargePerKW}
+                    onChange={(e) => setDraft({ ...draft, demandChargePerKW: parseFloat(e.target.value) })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-gray-600">Demand interval (minutes)</span>
+                  <input
+                    type="number"
+                    min="1"
+                    value={draft.demandIntervalMinutes}
+                    onChange={(e) => setDraft({ ...draft, demandIntervalMinutes: parseInt(e.target.value, 10) })}
+                    className={inputClass}
+                  />
+                </label>
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  onClick={handleSaveTariff}
+                  disabled={saving}
+                  className="px-4 py-1.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save Tariff'}
+                </button>
+                <button
+                  onClick={() => setDraft(null)}
+                  className="px-4 py-1.5 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <h4 className="font-medium text-gray-700 text-sm sm:text-base mb-2">Scaling for {roomName || 'this room'}</h4>
+          <p className="text-gray-600">
+            {calibration
+              ? `Readings are scaled x${scalingFactorFor(calibration).toFixed(2)}, calibrated ${new Date(
+                  calibration.calibratedAt
+                ).toLocaleDateString()}${calibration.calibratedBy ? ` by ${calibration.calibratedBy}` : ''}.`
+              : `Not calibrated; readings are scaled by the default x${DEFAULT_SCALING_FACTOR}.`}
+          </p>
+          {canCalibrate &&
+            (room ? (
+              <div className="mt-3 space-y-2">
+                <p className="text-gray-400">
+                  Read the room's sub-meter and the prototype's PZEM over the same period; the factor is their ratio.
+                </p>
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="block">
+                    <span className="text-gray-600">Sub-meter (kWh)</span>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.001"
+                      value={referenceKWh}
+                      onChange={(e) => setReferenceKWh(e.target.value)}
+                      className={inputClass}
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="text-gray-600">Prototype (kWh)</span>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.001"
+                      value={measuredKWh}
+                      onChange={(e) => setMeasuredKWh(e.target.value)}
+                      className={inputClass}
+                    />
+                  </label>
+                </div>
+                <button
+                  onClick={handleCalibrate}
+                  disabled={saving || !referenceKWh || !measuredKWh}
+                  className="px-4 py-1.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                >
+                  Calibrate
+                </button>
+              </div>
+            ) : (
+              <p className="mt-2 text-yellow-600">Add {roomName || 'this room'} on the Rooms page to calibrate it.</p>
+            ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Bar, CartesianGrid, ComposedChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { ChartBarIcon, ExclamationCircleIcon } from '@heroicons/react/24/solid';
+import { EnergyMetric, RTDBEnergyRoom } from '../types/rtdb';
+import {
+  subscribeToEnergyRollups,
+  subscribeToEnergyRooms,
+  subscribeToEnergySamples,
+} from '../services/rtdbRepository';
+import {
+  ENERGY_METRIC_LABELS,
+  EnergyPoint,
+  energyDayKey,
+  energyKeyToMillis,
+  energyRoomKey,
+  energyTotals,
+  rollupPoints,
+  samplePoints,
+} from '../services/energySeries';
+
+type EnergyView = 'day' | 'week' | 'month';
+
+const VIEW_LABELS: Record<EnergyView, string> = {
+  day: 'Day (every sample)',
+  week: 'Week (hourly)',
+  month: 'Month (daily)',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface EnergyTimeSeriesProps {
+  // The room picked elsewhere on the page; the chart follows it when it has data.
+  roomName?: string;
+}
+
+const toInputDate = (dayKey: string) => `${dayKey.slice(0, 4)}-${dayKey.slice(4, 6)}-${dayKey.slice(6, 8)}`;
+const fromInputDate = (value: string) => value.replace(/-/g, '');
+
+const formatTick = (point: EnergyPoint, view: EnergyView) => {
+  const date = new Date(point.at);
+  if (view === 'day') return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+  if (view === 'week') return date.toLocaleString('en-US', { weekday: 'short', hour: 'numeric' });
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+};
+
+// Charts a room's PZEM readings from the energy time series: one day of raw
+// samples (narrowed to a class with the time range), a week of hourly
+// rollups or a month of daily ones.
+export default function EnergyTimeSeries({ roomName }: EnergyTimeSeriesProps) {
+  const [rooms, setRooms] = useState<Record<string, RTDBEnergyRoom>>({});
+  const [roomKey, setRoomKey] = useState('');
+  const [view, setView] = useState<EnergyView>('day');
+  const [metric, setMetric] = useState<EnergyMetric>('power');
+  const [day, setDay] = useState(() => energyDayKey(Date.now()));
+  const [fromTime, setFromTime] = useState('');
+  const [toTime, setToTime] = useState('');
+  const [points, setPoints] = useState<EnergyPoint[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToEnergyRooms(setRooms, (error) => {
+      console.error('Error fetching energy rooms:', error);
+    });
+    return () => unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    const pageRoomKey = roomName ? energyRoomKey(roomName) : '';
+    setRoomKey((current) => {
+      if (pageRoomKey && rooms[pageRoomKey]) return pageRoomKey;
+      return current && rooms[current] ? current : Object.keys(rooms).sort()[0] || '';
+    });
+  }, [roomName, rooms]);
+
+  useEffect(() => {
+    if (!roomKey) {
+      setPoints([]);
+      return;
+    }
+
+    setLoading(true);
+    const onError = (error: Error) => {
+      console.error('Error fetching energy time series:', error);
+      setPoints([]);
+      setLoading(false);
+    };
+    const unsubscribe =
+      view === 'day'
+        ? subscribeToEnergySamples(
+            roomKey,
+            day,
+            (samples) => {
+              setPoints(samplePoints(day, samples));
+              setLoading(false);
+            },
+            onError
+          )
+        : subscribeToEnergyRollups(
+            roomKey,
+            view === 'week' ? 'hourly' : 'daily',
+            view === 'week' ? `${energyDayKey(energyKeyToMillis(day) - 6 * DAY_MS)}00` : `${day.slice(0, 6)}01`,
+            view === 'week' ? `${day}23` : `${day.slice(0, 6)}31`,
+            (rollups) => {
+              setPoints(rollupPoints(rollups));
+              setLoading(false);
+            },
+            onError
+          );
+    return () => unsubscribe();
+  }, [roomKey, view, day]);
+
+  // The time range only applies to a single day, e.g. to isolate one class.
+  const visiblePoints = useMemo(() => {
+    if (view !== 'day' || (!fromTime && !toTime)) return points;
+    const from = fromTime ? fromTime.replace(':', '') + '00' : '000000';
+    const to = toTime ? toTime.replace(':', '') + '59' : '235959';
+    return points.filter((point) => point.key.slice(8) >= from && point.key.slice(8) <= to);
+  }, [points, view, fromTime, toTime]);
+
+  const totals = useMemo(() => energyTotals(visiblePoints), [visiblePoints]);
+  const { label, unit } = ENERGY_METRIC_LABELS[metric];
+
+  return (
+    <div className="bg-white p-4 sm:p-6 rounded-xl shadow-sm mb-6 sm:mb-8">
+      <h3 className="text-base sm:text-lg font-semibold mb-4 flex items-center">
+        <ChartBarIcon className="w-4 h-4 sm:w-5 sm:h-5 mr-1 sm:mr-2 text-indigo-600" />
+        Energy Time Series
+      </h3>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 mb-4">
+        <select
+          value={roomKey}
+          onChange={(e) => setRoomKey(e.target.value)}
+          className="w-full rounded-lg border-gray-300 focus:border-indigo-500 focus:ring-indigo-500 py-1.5 sm:py-2 px-2 sm:px-3 text-sm sm:text-base"
+        >
+          {Object.keys(rooms).length === 0 && <option value="">No rooms with readings yet</option>}
+          {Object.entries(rooms)
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([key, room]) => (
+              <option key={key} value={key}>
+                {room.name}
+              </option>
+            ))}
+        </select>
+        <select
+          value={view}
+          onChange={(e) => setView(e.target.value as EnergyView)}
+          className="w-full rounded-lg border-gray-300 focus:border-indigo-500 focus:ring-indigo-500 py-1.5 sm:py-2 px-2 sm:px-3 text-sm sm:text-base"
+        >
+          {(Object.keys(VIEW_LABELS) as EnergyView[]).map((value) => (
+            <option key={value} value={value}>
+              {VIEW_LABELS[value]}
+            </option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={toInputDate(day)}
+          onChange={(e) => e.target.value && setDay(fromInputDate(e.target.value))}
+          className="w-full rounded-lg border-gray-300 focus:border-indigo-500 focus:ring-indigo-500 py-1.5 sm:py-2 px-2 sm:px-3 text-sm sm:text-base"
+        />
+        <select
+          value={metric}
+          onChange={(e) => setMetric(e.target.value as EnergyMetric)}
+          className="w-full rounded-lg border-gray-300 focus:border-indigo-500 focus:ring-indigo-500 py-1.5 sm:py-2 px-2 sm:px-3 text-sm sm:text-base"
+        >
+          {(Object.keys(ENERGY_METRIC_LABELS) as EnergyMetric[]).map((value) => (
+            <option key={value} value={value}>
+              {ENERGY_METRIC_LABELS[value].label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {view === 'day' && (
+        <div className="flex flex-wrap items-center gap-2 mb-4 text-sm text-gray-600">
+          <span>Class time</span>
+          <input
+            type="time"
+            value={fromTime}
+            onChange={(e) => setFromTime(e.target.value)}
+            className="rounded-lg border-gray-300 focus:border-indigo-500 focus:ring-indigo-500 py-1 px-2 text-sm"
+          />
+          <span>to</span>
+          <input
+            type="time"
+            value={toTime}
+            onChange={(e) => setToTime(e.target.value)}
+            className="rounded-lg border-gray-300 focus:border-indigo-500 focus:ring-indigo-500 py-1 px-2 text-sm"
+          />
+          {(fromTime || toTime) && (
+            <button
+              onClick={() => {
+                setFromTime('');
+                setToTime('');
+              }}
+              className="text-indigo-600 hover:text-indigo-800"
+            >
+              Whole day
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 mb-4 text-xs sm:text-sm">
+        <div className="bg-gray-50 p-3 rounded-lg">
+          <p className="text-gray-500">Energy used</p>
+          <p className="text-lg font-semibold text-gray-900">{totals.energyKWh.toFixed(3)} kWh</p>
+        </div>
+        <div className="bg-gray-50 p-3 rounded-lg">
+          <p className="text-gray-500">Average power</p>
+          <p className="text-lg font-semibold text-gray-900">{totals.averagePowerW.toFixed(1)} W</p>
+        </div>
+        <div className="bg-gray-50 p-3 rounded-lg">
+          <p className="text-gray-500">Peak power</p>
+          <p className="text-lg font-semibold text-gray-900">{totals.peakPowerW.toFixed(1)} W</p>
+        </div>
+        <div className="bg-gray-50 p-3 rounded-lg">
+          <p className="text-gray-500">Samples</p>
+          <p className="text-lg font-semibold text-gray-900">{totals.samples}</p>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+        </div>
+      ) : visiblePoints.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-64 text-gray-500">
+          <ExclamationCircleIcon className="w-10 h-10 text-gray-400 mb-2" />
+          <p>No readings for this period</p>
+        </div>
+      ) : (
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={visiblePoints.map((point) => ({ ...point, tick: formatTick(point, view) }))}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis dataKey="tick" tick={{ fontSize: 11 }} minTickGap={16} />
+              <YAxis yAxisId="metric" tick={{ fontSize: 11 }} unit={unit ? ` ${unit}` : ''} width={70} />
+              <YAxis yAxisId="energy" orientation="right" tick={{ fontSize: 11 }} unit=" kWh" width={80} />
+              <Tooltip
+                formatter={(value: number, name: string) => [
+                  name === 'energyKWh' ? `${value.toFixed(3)} kWh` : `${value.toFixed(2)} ${unit}`,
+                  name === 'energyKWh' ? 'Energy' : label,
+                ]}
+              />
+              <Bar yAxisId="energy" dataKey="energyKWh" fill="#c7d2fe" />
+              <Line yAxisId="metric" type="monotone" dataKey={metric} stroke="#4f46e5" strokeWidth={2} dot={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+}
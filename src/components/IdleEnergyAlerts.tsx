@@ -0,0 +1,198 @@
+import { useEffect, useMemo, useState } from 'react';
+import Swal from 'sweetalert2';
+import { toast } from 'react-hot-toast';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/solid';
+import { IdleEnergySettings } from '../types';
+import { IdleEnergyReason, RTDBIdleEnergyIncident } from '../types/rtdb';
+import { subscribeToIdleEnergy } from '../services/rtdbRepository';
+import {
+  DEFAULT_IDLE_ENERGY_SETTINGS,
+  loadIdleEnergySettings,
+  saveIdleEnergySettings,
+} from '../services/energySettings';
+
+const REASON_LABELS: Record<IdleEnergyReason, string> = {
+  after_class: 'After class ended',
+  outside_schedule: 'Outside class time',
+  room_empty: 'Class open, seats empty',
+};
+
+const RECENT_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const inputClass =
+  'w-full rounded-lg border-gray-300 focus:border-indigo-500 focus:ring-indigo-500 py-1 px-2 text-sm';
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.max(Math.round(ms / 60000), 0);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)} h ${minutes % 60} min` : `${minutes} min`;
+};
+
+interface IdleEnergyAlertsProps {
+  canEditSettings: boolean;
+}
+
+// Rooms that kept drawing power with nobody using them, as the idle-energy
+// functions detect them: the ongoing ones and the last month's.
+export default function IdleEnergyAlerts({ canEditSettings }: IdleEnergyAlertsProps) {
+  const [incidents, setIncidents] = useState<RTDBIdleEnergyIncident[]>([]);
+  const [settings, setSettings] = useState<IdleEnergySettings>(DEFAULT_IDLE_ENERGY_SETTINGS);
+  const [draft, setDraft] = useState<IdleEnergySettings | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToIdleEnergy(setIncidents, (error) => {
+      console.error('Error fetching idle energy incidents:', error);
+      setIncidents([]);
+    });
+    return () => unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    loadIdleEnergySettings()
+      .then(setSettings)
+      .catch((error) => console.error('Error loading idle energy settings:', error));
+  }, []);
+
+  // Open incidents are still growing; short ones have not alerted yet.
+  const recent = useMemo(() => {
+    const since = Date.now() - RECENT_DAYS * DAY_MS;
+    return incidents.filter((incident) => incident.alertedAt && incident.lastAt >= since);
+  }, [incidents]);
+
+  const totals = recent.reduce(
+    (sum, incident) => ({ kWh: sum.kWh + incident.wastedKWh, cost: sum.cost + incident.wastedCost }),
+    { kWh: 0, cost: 0 }
+  );
+  const ongoing = recent.filter((incident) => !incident.endedAt).length;
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      await saveIdleEnergySettings(draft);
+      setSettings(draft);
+      setDraft(null);
+      toast.success('Idle detection settings saved');
+    } catch (error) {
+      console.error('Error saving idle energy settings:', error);
+      Swal.fire('Error', error instanceof Error ? error.message : 'Failed to save the settings.', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-4 sm:p-6 rounded-xl shadow-sm mb-6 sm:mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-base sm:text-lg font-semibold flex items-center">
+          <ExclamationTriangleIcon className="w-4 h-4 sm:w-5 sm:h-5 mr-1 sm:mr-2 text-orange-500" />
+          Idle Room Waste
+        </h3>
+        {canEditSettings && !draft && (
+          <button onClick={() => setDraft(settings)} className="text-xs sm:text-sm text-indigo-600 hover:text-indigo-800">
+            Edit detection
+          </button>
+        )}
+      </div>
+
+      {!draft ? (
+        <p className="text-xs sm:text-sm text-gray-500 mb-4">
+          Rooms drawing over {settings.baselineWatts} W (prototype reading) with nobody using them for{' '}
+          {settings.alertAfterMinutes} minutes alert facilities staff.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4 text-xs sm:text-sm items-end">
+          <label className="block">
+            <span className="text-gray-600">Baseline (W)</span>
+            <input
+              type="number"
+              min="0"
+              value={draft.baselineWatts}
+              onChange={(e) => setDraft({ ...draft, baselineWatts: parseFloat(e.target.value) })}
+              className={inputClass}
+            />
+          </label>
+          <label className="block">
+            <span className="text-gray-600">Alert after (minutes)</span>
+            <input
+              type="number"
+              min="1"
+              value={draft.alertAfterMinutes}
+              onChange={(e) => setDraft({ ...draft, alertAfterMinutes: parseInt(e.target.value, 10) })}
+              className={inputClass}
+            />
+          </label>
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-1.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              onClick={() => setDraft(null)}
+              className="px-4 py-1.5 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-3 mb-4 text-xs sm:text-sm">
+        <div className="bg-gray-50 p-3 rounded-lg">
+          <p className="text-gray-500">Ongoing</p>
+          <p className={`text-lg font-semibold ${ongoing > 0 ? 'text-red-600' : 'text-gray-900'}`}>{ongoing}</p>
+        </div>
+        <div className="bg-gray-50 p-3 rounded-lg">
+          <p className="text-gray-500">Wasted ({RECENT_DAYS} days)</p>
+          <p className="text-lg font-semibold text-gray-900">{totals.kWh.toFixed(2)} kWh</p>
+        </div>
+        <div className="bg-gray-50 p-3 rounded-lg">
+          <p className="text-gray-500">Cost ({RECENT_DAYS} days)</p>
+          <p className="text-lg font-semibold text-gray-900">₱{totals.cost.toFixed(2)}</p>
+        </div>
+      </div>
+
+      {recent.length === 0 ? (
+        <p className="text-center text-gray-500 text-sm">No idle rooms in the last {RECENT_DAYS} days</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs sm:text-sm text-left text-gray-600">
+            <thead className="text-xs sm:text-sm text-gray-700 uppercase bg-gray-50">
+              <tr>
+                <th scope="col" className="px-4 py-2">Room</th>
+                <th scope="col" className="px-4 py-2">Reason</th>
+                <th scope="col" className="px-4 py-2">Started</th>
+                <th scope="col" className="px-4 py-2">Duration</th>
+                <th scope="col" className="px-4 py-2">Peak</th>
+                <th scope="col" className="px-4 py-2">Wasted</th>
+                <th scope="col" className="px-4 py-2">Cost (₱)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {recent.map((incident) => (
+                <tr key={`${incident.roomKey}_${incident.startKey}`} className="border-b">
+                  <td className="px-4 py-2">
+                    {incident.roomName}
+                    {!incident.endedAt && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full bg-red-100 text-red-700 text-xs">Ongoing</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2">{REASON_LABELS[incident.reason]}</td>
+                  <td className="px-4 py-2">{new Date(incident.startedAt).toLocaleString()}</td>
+                  <td className="px-4 py-2">{formatDuration(incident.lastAt - incident.startedAt)}</td>
+                  <td className="px-4 py-2">{incident.peakPowerW.toFixed(0)} W</td>
+                  <td className="px-4 py-2">{incident.wastedKWh.toFixed(2)} kWh</td>
+                  <td className="px-4 py-2">{incident.wastedCost.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { useEffect, useMemo, useState } from 'react';
+import { collection, doc, getDoc, limit, onSnapshot, query, where } from 'firebase/firestore';
+import { ArrowPathIcon, ExclamationTriangleIcon, UserCircleIcon } from '@heroicons/react/24/solid';
+import { db } from '../firebase';
+import { Seat, SeatLayout } from '../types';
+import { RTDBPresenceFlag, RTDBWeightSensor } from '../types/rtdb';
+import { currentTerm, isUsableSeat, resolveSeatPlan, subscribeToSeatPlan } from '../services/seatPlan';
+
+export interface LiveSeatStudent {
+  rfidUid: string;
+  studentName: string;
+  attendanceStatus: string;
+  assignedSensorId: string;
+}
+
+type LiveSeatStatus = 'present' | 'late' | 'absent' | 'unassigned' | 'anomaly';
+
+const STATUS_STYLES: Record<LiveSeatStatus, { seat: string; label: string }> = {
+  present: { seat: 'bg-green-50 border-green-400 text-green-800', label: 'Present' },
+  late: { seat: 'bg-yellow-50 border-yellow-400 text-yellow-800', label: 'Late' },
+  absent: { seat: 'bg-red-50 border-red-300 text-red-800', label: 'Absent' },
+  unassigned: { seat: 'bg-gray-50 border-gray-200 text-gray-400', label: 'Unassigned' },
+  anomaly: { seat: 'bg-orange-100 border-orange-500 text-orange-800 animate-pulse', label: 'Needs review' },
+};
+
+interface LiveSeatMapProps {
+  roomName: string;
+  // The section's plan for the current term is shown when it has one.
+  sectionId?: string;
+  students: LiveSeatStudent[];
+  // Open presence flags; seats whose student has one are shown as anomalies.
+  flags: RTDBPresenceFlag[];
+  sensors: Record<string, RTDBWeightSensor>;
+  onSeatClick: (rfidUid: string) => void;
+}
+
+export default function LiveSeatMap({ roomName, sectionId, students, flags, sensors, onSeatClick }: LiveSeatMapProps) {
+  const [roomPlan, setRoomPlan] = useState<{ layout: SeatLayout; seats: Seat[] } | null>(null);
+  const [sectionPlan, setSectionPlan] = useState<{ layout: SeatLayout; seats: Seat[] } | null>(null);
+  const [loading, setLoading] = useState(true);
+  // Seats reference students documents; attendance is keyed by RFID card.
+  const [seatStudents, setSeatStudents] = useState<Record<string, { rfidUid: string; fullName: string }>>({});
+
+  useEffect(() => {
+    if (!roomName) {
+      setRoomPlan(null);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const unsubscribe = onSnapshot(
+      query(collection(db, 'rooms'), where('name', '==', roomName), limit(1)),
+      (snapshot) => {
+        setRoomPlan(snapshot.empty ? null : resolveSeatPlan(snapshot.docs[0].data()));
+        setLoading(false);
+      },
+      (error) => {
+        console.error('Error listening to seat plan:', error);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [roomName]);
+
+  useEffect(() => {
+    setSectionPlan(null);
+    if (!sectionId) return;
+
+    const unsubscribe = subscribeToSeatPlan(
+      sectionId,
+      currentTerm(),
+      (saved) => setSectionPlan(saved ? { layout: saved.layout, seats: saved.seats } : null),
+      (error) => console.error('Error listening to section seat plan:', error)
+    );
+    return () => unsubscribe();
+  }, [sectionId]);
+
+  const plan = sectionPlan || roomPlan;
+
+  const assignedIds = useMemo(
+    () => Array.from(new Set((plan?.seats || []).map((seat) => seat.studentId).filter(Boolean) as string[])),
+    [plan]
+  );
+
+  useEffect(() => {
+    const missing = assignedIds.filter((id) => !seatStudents[id]);
+    if (missing.length === 0) return;
+
+    Promise.all(missing.map((id) => getDoc(doc(db, 'students', id))))
+      .then((docs) => {
+        setSeatStudents((prev) => {
+          const next = { ...prev };
+          docs.forEach((studentDoc) => {
+            next[studentDoc.id] = {
+              rfidUid: studentDoc.data()?.rfidUid || '',
+              fullName: studentDoc.data()?.fullName || 'Unknown Student',
+            };
+          });
+          return next;
+        });
+      })
+      .catch((error) => console.error('Error fetching seated students:', error));
+  }, [assignedIds, seatStudents]);
+
+  const studentsByRfid = useMemo(
+    () => Object.fromEntries(students.map((student) => [student.rfidUid, student])),
+    [students]
+  );
+  const flaggedRfids = useMemo(
+    () => new Set(flags.map((flag) => flag.rfidUid).filter(Boolean) as string[]),
+    [flags]
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <ArrowPathIcon className="w-6 h-6 text-indigo-500 animate-spin" />
+        <span className="ml-2 text-gray-600 text-sm">Loading seat map...</span>
+      </div>
+    );
+  }
+
+  if (!plan) {
+    return <p className="text-sm text-gray-500 text-center py-4">No seat plan found for room {roomName}.</p>;
+  }
+
+  const seatStatus = (seat: Seat): LiveSeatStatus => {
+    const rfidUid = seat.studentId ? seatStudents[seat.studentId]?.rfidUid : '';
+    if (!rfidUid) return 'unassigned';
+    if (flaggedRfids.has(rfidUid)) return 'anomaly';
+    const status = studentsByRfid[rfidUid]?.attendanceStatus;
+    return status === 'present' || status === 'late' ? status : 'absent';
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg overflow-hidden">
+      <div
+        className="grid gap-2 p-3 sm:p-4"
+        style={{ gridTemplateColumns: `repeat(${plan.layout.cols}, minmax(0, 1fr))` }}
+      >
+        {plan.seats.map((seat) => {
+          if (!isUsableSeat(seat)) {
+            return (
+              <div
+                key={seat.id}
+                className={`rounded-md ${seat.kind === 'disabled' ? 'bg-gray-200' : ''}`}
+                style={{ gridRowStart: seat.position.row + 1, gridColumnStart: seat.position.col + 1 }}
+              />
+            );
+          }
+          const status = seatStatus(seat);
+          const seated = seat.studentId ? seatStudents[seat.studentId] : undefined;
+          const student = seated ? studentsByRfid[seated.rfidUid] : undefined;
+          const occupied = student ? sensors[student.assignedSensorId]?.occupied : seat.weightSensorStatus;
+          return (
+            <button
+              key={seat.id}
+              type="button"
+              disabled={!seated?.rfidUid}
+              onClick={() => seated?.rfidUid && onSeatClick(seated.rfidUid)}
+              className={`relative p-2 rounded-md border-2 text-left text-xs transition-shadow hover:shadow-md disabled:cursor-default disabled:hover:shadow-none ${STATUS_STYLES[status].seat}`}
+              style={{ gridRowStart: seat.position.row + 1, gridColumnStart: seat.position.col + 1 }}
+              title={seated ? `${seated.fullName} • ${STATUS_STYLES[status].label}` : 'Unassigned'}
+            >
+              <div className="text-[10px] opacity-70">
+                {seat.position.row + 1}-{seat.position.col + 1}
+              </div>
+              <div className="font-medium truncate">{seated?.fullName || '—'}</div>
+              {occupied && <UserCircleIcon className="absolute top-1 right-1 w-3 h-3" />}
+              {status === 'anomaly' && <ExclamationTriangleIcon className="absolute bottom-1 right-1 w-3 h-3" />}
+            </button>
+          );
+        })}
+      </div>
+      <div className="flex flex-wrap gap-3 px-3 sm:px-4 py-2 bg-gray-50 border-t border-gray-200 text-xs text-gray-600">
+        {(Object.keys(STATUS_STYLES) as LiveSeatStatus[]).map((status) => (
+          <div key={status} className="flex items-center">
+            <div className={`w-3 h-3 rounded-full border-2 mr-1.5 ${STATUS_STYLES[status].seat}`}></div>
+            <span>{STATUS_STYLES[status].label}</span>
+          </div>
+        ))}
+        <div className="flex items-center">
+          <UserCircleIcon className="w-3 h-3 mr-1.5" />
+          <span>Seat occupied</span>
+        </div>
+      </div>
+    </div>
+  );
+}
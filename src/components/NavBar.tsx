@@ -1,12 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { AcademicCapIcon, UserIcon, ClockIcon, BookOpenIcon } from '@heroicons/react/24/outline';
+import { AcademicCapIcon, UserIcon, ClockIcon, BookOpenIcon, WrenchScrewdriverIcon } from '@heroicons/react/24/outline';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../Pages/AuthContext';
 import { signOut } from 'firebase/auth';
 import { auth, db } from '../firebase';
 import { collection, query, where, getDocs } from 'firebase/firestore';
 import Swal from 'sweetalert2';
+import { staffLandingPath } from '../services/permissions';
 
 interface Subject {
   id: string;
@@ -68,6 +69,8 @@ const NavBar: React.FC<NavBarProps> = ({ currentTime = new Date(), user, classSt
   const navigate = useNavigate();
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const [instructorFullName, setInstructorFullName] = useState<string>(user.fullName);
+  // Admin pages this instructor's access role or permissions open up
+  const staffPath = staffLandingPath(currentUser);
 
   useEffect(() => {
     const fetchInstructorDetails = async () => {
@@ -246,6 +249,15 @@ const NavBar: React.FC<NavBarProps> = ({ currentTime = new Date(), user, classSt
               exit={{ opacity: 0, y: -10, scale: 0.95 }}
               className="absolute right-2 sm:right-4 top-[4.5rem] sm:top-14 mt-2 w-40 sm:w-48 rounded-xl shadow-xl py-1 bg-gray-800/80 backdrop-blur-lg border border-cyan-800 z-50"
             >
+              {staffPath && (
+                <Link
+                  to={staffPath}
+                  className="flex items-center w-full px-3 sm:px-4 py-1.5 sm:py-2 text-xs sm:text-sm text-cyan-100 hover:bg-gray-700 transition-colors"
+                >
+                  <WrenchScrewdriverIcon className="h-4 w-4 mr-2 text-cyan-400" />
+                  Staff Tools
+                </Link>
+              )}
               <button
                 onClick={handleLogout}
                 className="flex items-center w-full px-3 sm:px-4 py-1.5 sm:py-2 text-xs sm:text-sm text-cyan-100 hover:bg-gray-700 transition-colors"
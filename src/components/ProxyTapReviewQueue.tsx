@@ -0,0 +1,116 @@
+import { useEffect, useMemo, useState } from 'react';
+import Swal from 'sweetalert2';
+import { ShieldExclamationIcon } from '@heroicons/react/24/solid';
+import { useAuth } from '../Pages/AuthContext';
+import { subscribeToProxyTapCases } from '../services/rtdbRepository';
+import { PROXY_PATTERN_LABELS, reviewProxyTapCase } from '../services/proxyTapDetection';
+import { RTDBProxyTapCase } from '../types/rtdb';
+
+interface ProxyTapReviewQueueProps {
+  // Limits the queue to cases from this instructor's sessions; admins leave it unset.
+  instructorUid?: string;
+}
+
+export default function ProxyTapReviewQueue({ instructorUid }: ProxyTapReviewQueueProps) {
+  const { currentUser } = useAuth();
+  const [cases, setCases] = useState<Record<string, RTDBProxyTapCase>>({});
+
+  useEffect(() => {
+    const unsubscribe = subscribeToProxyTapCases(setCases, (error) =>
+      console.error('Error fetching proxy-tap cases:', error)
+    );
+    return () => unsubscribe();
+  }, []);
+
+  const openCases = useMemo(
+    () =>
+      Object.values(cases)
+        .filter(
+          (proxyCase) =>
+            proxyCase.status === 'open' && (!instructorUid || proxyCase.instructorUids.includes(instructorUid))
+        )
+        .sort((a, b) => b.detectedAt - a.detectedAt),
+    [cases, instructorUid]
+  );
+
+  const handleReview = async (proxyCase: RTDBProxyTapCase, decision: 'confirmed' | 'dismissed') => {
+    if (!currentUser) return;
+
+    const { value: note, isConfirmed } = await Swal.fire({
+      title: decision === 'confirmed' ? 'Confirm Proxy Tap' : 'Dismiss Case',
+      input: 'textarea',
+      inputLabel: 'Note',
+      inputPlaceholder:
+        decision === 'confirmed' ? 'What was found and what follow-up was taken' : 'Why this is not a proxy tap',
+      showCancelButton: true,
+      inputValidator: (value) => (!value.trim() ? 'A note is required' : null),
+    });
+    if (!isConfirmed) return;
+
+    try {
+      await reviewProxyTapCase(proxyCase, decision, note, {
+        uid: currentUser.uid,
+        fullName: currentUser.fullName || currentUser.displayName || '',
+        role: currentUser.role || '',
+      });
+      Swal.fire('Saved', `Case ${decision === 'confirmed' ? 'confirmed' : 'dismissed'}.`, 'success');
+    } catch (error) {
+      console.error('Error reviewing proxy-tap case:', error);
+      Swal.fire('Error', 'Failed to save the review.', 'error');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center gap-2">
+        <ShieldExclamationIcon className="w-5 h-5 text-red-500" />
+        Suspected Proxy Taps ({openCases.length})
+      </h2>
+      {openCases.length === 0 ? (
+        <p className="text-center py-4 text-gray-500">No suspicious tap patterns to review.</p>
+      ) : (
+        <div className="space-y-3">
+          {openCases.map((proxyCase) => (
+            <div
+              key={proxyCase.id}
+              className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 border border-red-200 bg-red-50 rounded-lg"
+            >
+              <div>
+                <p className="font-medium text-gray-800">
+                  {PROXY_PATTERN_LABELS[proxyCase.pattern]} &middot; {new Date(proxyCase.detectedAt).toLocaleString()}
+                </p>
+                {proxyCase.pattern === 'tap_burst' && (
+                  <p className="text-sm text-gray-600">
+                    {proxyCase.taps.length} cards tapped, {proxyCase.occupiedSeats ?? 0} seats occupied
+                  </p>
+                )}
+                <ul className="text-sm text-gray-700 mt-1">
+                  {proxyCase.taps.map((tap) => (
+                    <li key={`${tap.rfidUid}-${tap.tappedAt}`}>
+                      {tap.studentName || tap.rfidUid} &middot; Room {tap.roomId || 'Unknown'} &middot;{' '}
+                      {new Date(tap.tappedAt).toLocaleTimeString()}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleReview(proxyCase, 'confirmed')}
+                  className="px-3 py-1.5 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700"
+                >
+                  Confirm
+                </button>
+                <button
+                  onClick={() => handleReview(proxyCase, 'dismissed')}
+                  className="px-3 py-1.5 text-sm bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                >
+                  Dismiss
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { PlusIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { theme } from '../styles/theme';
+import { DeviceCategory, RoomCircuit } from '../types';
+import { DEVICE_CATEGORY_LABELS, LOAD_RELAY_CHANNELS, newCircuit } from '../services/roomCircuits';
+
+interface RoomCircuitsModalProps {
+  isOpen: boolean;
+  roomName: string;
+  circuits: RoomCircuit[];
+  onClose: () => void;
+  onSubmit: (circuits: RoomCircuit[]) => void;
+}
+
+const channelValue = (channel: number | null) => (channel === null ? '' : String(channel));
+const parseChannel = (value: string) => (value === '' ? null : parseInt(value, 10));
+
+// Declares what a room's energy readings are made of: each circuit's rated
+// wattage, the relay that switches it and the PZEM that meters it.
+const RoomCircuitsModal: React.FC<RoomCircuitsModalProps> = ({ isOpen, roomName, circuits, onClose, onSubmit }) => {
+  const [draft, setDraft] = useState<RoomCircuit[]>(circuits);
+
+  useEffect(() => {
+    if (isOpen) setDraft(circuits);
+  }, [isOpen, circuits]);
+
+  const updateCircuit = (id: string, changes: Partial<RoomCircuit>) =>
+    setDraft((current) => current.map((circuit) => (circuit.id === id ? { ...circuit, ...changes } : circuit)));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(draft);
+  };
+
+  if (!isOpen) return null;
+
+  const totalWatts = draft.reduce((total, circuit) => total + (circuit.ratedWatts || 0), 0);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+    >
+      <motion.div
+        initial={{ scale: 0.95 }}
+        animate={{ scale: 1 }}
+        exit={{ scale: 0.95 }}
+        className="bg-white rounded-xl shadow-xl w-full max-w-3xl overflow-hidden"
+      >
+        <div className="flex justify-between items-center p-6 border-b">
+          <h2 className={theme.typography.h3}>Circuits in Room {roomName}</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="grid grid-cols-12 gap-2 text-xs font-medium text-gray-500 uppercase">
+            <span className="col-span-3">Name</span>
+            <span className="col-span-3">Category</span>
+            <span className="col-span-2">Rated (W)</span>
+            <span className="col-span-2">Relay</span>
+            <span className="col-span-1">PZEM</span>
+          </div>
+
+          {draft.map((circuit) => (
+            <div key={circuit.id} className="grid grid-cols-12 gap-2 items-center">
+              <input
+                type="text"
+                value={circuit.name}
+                onChange={(e) => updateCircuit(circuit.id, { name: e.target.value })}
+                className={`${theme.components.input} col-span-3`}
+                required
+              />
+              <select
+                value={circuit.category}
+                onChange={(e) => updateCircuit(circuit.id, { category: e.target.value as DeviceCategory })}
+                className={`${theme.components.input} col-span-3`}
+              >
+                {(Object.keys(DEVICE_CATEGORY_LABELS) as DeviceCategory[]).map((category) => (
+                  <option key={category} value={category}>
+                    {DEVICE_CATEGORY_LABELS[category]}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min="0"
+                value={circuit.ratedWatts || ''}
+                onChange={(e) => updateCircuit(circuit.id, { ratedWatts: parseFloat(e.target.value) || 0 })}
+                className={`${theme.components.input} col-span-2`}
+                required
+              />
+              <select
+                value={channelValue(circuit.relayChannel)}
+                onChange={(e) => updateCircuit(circuit.id, { relayChannel: parseChannel(e.target.value) })}
+                className={`${theme.components.input} col-span-2`}
+              >
+                <option value="">Manual</option>
+                {LOAD_RELAY_CHANNELS.map((channel) => (
+                  <option key={channel} value={channel}>
+                    Relay {channel}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min="1"
+                value={channelValue(circuit.pzemChannel)}
+                onChange={(e) => updateCircuit(circuit.id, { pzemChannel: parseChannel(e.target.value) })}
+                title="Leave empty when no PZEM meters this circuit"
+                className={`${theme.components.input} col-span-1`}
+              />
+              <button
+                type="button"
+                onClick={() => setDraft((current) => current.filter((c) => c.id !== circuit.id))}
+                className="col-span-1 text-red-500 hover:text-red-700 justify-self-center"
+                title="Remove circuit"
+              >
+                <TrashIcon className="w-5 h-5" />
+              </button>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between text-sm">
+            <button
+              type="button"
+              onClick={() => setDraft((current) => [...current, newCircuit()])}
+              className="flex items-center gap-1 text-indigo-600 hover:text-indigo-800"
+            >
+              <PlusIcon className="w-4 h-4" />
+              Add circuit
+            </button>
+            <span className="text-gray-500">Total rated load: {totalWatts} W</span>
+          </div>
+          <p className="text-xs text-gray-400">
+            Relay 1 drives the door lock. The room's measured energy is shared across circuits on PZEM 1 by rated
+            wattage; circuits on other meters, or none, are estimated from their rating.
+          </p>
+
+          <div className="flex justify-end space-x-4 pt-4">
+            <button type="button" onClick={onClose} className={theme.components.button.secondary}>
+              Cancel
+            </button>
+            <button type="submit" className={theme.components.button.primary}>
+              Save Circuits
+            </button>
+          </div>
+        </form>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default RoomCircuitsModal;
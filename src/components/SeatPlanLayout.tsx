@@ -1,18 +1,38 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { collection, doc, getDoc, getDocs, query, updateDoc, where, onSnapshot } from 'firebase/firestore';
+import { collection, doc, getDoc, getDocs, limit, query, where } from 'firebase/firestore';
 import { db } from '../firebase';
 import { useAuth } from '../Pages/AuthContext';
-import { 
-  UserCircleIcon, 
-  CheckCircleIcon, 
-  XCircleIcon, 
+import {
+  XCircleIcon,
   PencilSquareIcon,
   ArrowPathIcon,
   UserPlusIcon,
-  ClockIcon
+  Squares2X2Icon,
+  DocumentDuplicateIcon,
+  BookmarkIcon
 } from '@heroicons/react/24/solid';
 import { toast } from 'react-toastify';
+import Swal from 'sweetalert2';
+import { RoomType, Seat, SeatLayout, SeatPlanTemplate } from '../types';
+import {
+  AutoAssignOrder,
+  TEMPLATE_ROOM_TYPES,
+  applySeatPlanTemplate,
+  autoAssignSeats,
+  copySeatPlanToTerm,
+  currentTerm,
+  cycleSeatKind,
+  getSeatPlanTemplates,
+  isUsableSeat,
+  moveSeatAssignment,
+  resolveSeatPlan,
+  saveSeatPlan,
+  saveSeatPlanTemplate,
+  shiftTerm,
+  subscribeToSeatPlan,
+  termLabel
+} from '../services/seatPlan';
 
 interface Student {
   id: string;
@@ -23,35 +43,36 @@ interface Student {
   yearLevel?: string;
 }
 
-interface Seat {
-  id: string;
-  position: { row: number; col: number };
-  studentId?: string;
-  weightSensorStatus?: boolean;
-  rfidConfirmed?: boolean;
-  lastUpdated?: Date;
-}
-
 interface Room {
   id: string;
-  number: string;
+  name: string;
+  type?: RoomType;
   capacity: number;
-  layout: {
-    rows: number;
-    cols: number;
-  };
+  layout: SeatLayout;
   seats: Seat[];
 }
 
 interface SeatPlanLayoutProps {
+  // Room document id, or the room name that section schedules carry
   roomId: string;
   sectionId: string;
 }
 
+type PlanGrid = { layout: SeatLayout; seats: Seat[] };
+
+// Last term, this term and the next two
+const TERM_CHOICES = [-1, 0, 1, 2].map(offset => shiftTerm(currentTerm(), offset));
+
 const SeatPlanLayout: React.FC<SeatPlanLayoutProps> = ({ roomId, sectionId }) => {
   const [room, setRoom] = useState<Room | null>(null);
   const [students, setStudents] = useState<Student[]>([]);
   const [loading, setLoading] = useState(true);
+  const [term, setTerm] = useState(currentTerm());
+  const [plan, setPlan] = useState<PlanGrid | null>(null);
+  const [planSaved, setPlanSaved] = useState(false);
+  const [templates, setTemplates] = useState<SeatPlanTemplate[]>([]);
+  const [layoutMode, setLayoutMode] = useState(false);
+  const [draggedStudent, setDraggedStudent] = useState<string | null>(null);
   const [selectedSeat, setSelectedSeat] = useState<Seat | null>(null);
   const [selectedStudent, setSelectedStudent] = useState<string>('');
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
@@ -62,38 +83,76 @@ const SeatPlanLayout: React.FC<SeatPlanLayoutProps> = ({ roomId, sectionId }) =>
   useEffect(() => {
     const fetchRoom = async () => {
       try {
-        const roomDoc = await getDoc(doc(db, 'rooms', roomId));
-        if (roomDoc.exists()) {
-          const roomData = roomDoc.data() as Omit<Room, 'id'>;
-          setRoom({
-            id: roomDoc.id,
-            ...roomData,
-            seats: roomData.seats || generateDefaultSeats(roomData.layout.rows, roomData.layout.cols)
-          });
+        let roomDoc = await getDoc(doc(db, 'rooms', roomId));
+        if (!roomDoc.exists()) {
+          const byName = await getDocs(query(collection(db, 'rooms'), where('name', '==', roomId), limit(1)));
+          if (byName.empty) return;
+          roomDoc = byName.docs[0];
         }
+        const roomData = roomDoc.data() as Omit<Room, 'id'>;
+        setRoom({
+          id: roomDoc.id,
+          ...roomData,
+          ...resolveSeatPlan(roomData)
+        });
       } catch (error) {
         console.error('Error fetching room:', error);
         toast.error('Failed to load room data');
       }
     };
 
-    fetchRoom();
+    if (roomId) {
+      fetchRoom();
+    }
   }, [roomId]);
 
+  // Fetch layout templates for this type of room
+  useEffect(() => {
+    if (!room) return;
+
+    getSeatPlanTemplates(room.type || 'classroom')
+      .then(setTemplates)
+      .catch(error => {
+        console.error('Error fetching seat plan templates:', error);
+        toast.error('Failed to load seat plan templates');
+      });
+  }, [room]);
+
+  // Listen to the section's plan for the selected term; until one is saved
+  // the room's own seats are shown
+  useEffect(() => {
+    if (!room || !sectionId) return;
+
+    const unsubscribe = subscribeToSeatPlan(
+      sectionId,
+      term,
+      saved => {
+        setPlanSaved(!!saved);
+        setPlan(saved ? { layout: saved.layout, seats: saved.seats } : { layout: room.layout, seats: room.seats });
+      },
+      error => {
+        console.error('Error listening to seat plan:', error);
+        toast.error('Failed to load seat plan');
+      }
+    );
+
+    return () => unsubscribe();
+  }, [room, sectionId, term]);
+
   // Fetch students in the section
   useEffect(() => {
     const fetchStudents = async () => {
       try {
         setLoading(true);
         const sectionDoc = await getDoc(doc(db, 'sections', sectionId));
-        
+
         if (sectionDoc.exists()) {
           const sectionData = sectionDoc.data();
           const studentIds = sectionData.students || [];
-          
+
           if (studentIds.length > 0) {
             const studentsData: Student[] = [];
-            
+
             for (const studentId of studentIds) {
               const studentDoc = await getDoc(doc(db, 'students', studentId));
               if (studentDoc.exists()) {
@@ -108,7 +167,7 @@ const SeatPlanLayout: React.FC<SeatPlanLayoutProps> = ({ roomId, sectionId }) =>
                 });
               }
             }
-            
+
             setStudents(studentsData);
           }
         }
@@ -125,50 +184,42 @@ const SeatPlanLayout: React.FC<SeatPlanLayoutProps> = ({ roomId, sectionId }) =>
     }
   }, [sectionId]);
 
-  // Listen for real-time weight sensor updates
-  useEffect(() => {
-    if (!roomId) return;
-
-    const unsubscribe = onSnapshot(
-      doc(db, 'rooms', roomId),
-      (snapshot) => {
-        if (snapshot.exists()) {
-          const roomData = snapshot.data() as Omit<Room, 'id'>;
-          setRoom(prev => {
-            if (!prev) return null;
-            return {
-              ...prev,
-              seats: roomData.seats || prev.seats
-            };
-          });
-        }
-      },
-      (error) => {
-        console.error('Error listening to room updates:', error);
-      }
-    );
-
-    return () => unsubscribe();
-  }, [roomId]);
+  // Every edit is saved to the section's plan for the selected term
+  const savePlan = async (next: PlanGrid, successMessage?: string) => {
+    if (!room) return;
 
-  // Generate default seats if none exist
-  const generateDefaultSeats = (rows: number, cols: number): Seat[] => {
-    const seats: Seat[] = [];
-    for (let row = 0; row < rows; row++) {
-      for (let col = 0; col < cols; col++) {
-        seats.push({
-          id: `seat-${row}-${col}`,
-          position: { row, col },
-          weightSensorStatus: false,
-          rfidConfirmed: false
-        });
-      }
+    const previous = plan;
+    setPlan(next);
+    try {
+      await saveSeatPlan({
+        sectionId,
+        roomId: room.id,
+        term,
+        layout: next.layout,
+        seats: next.seats,
+        updatedBy: currentUser?.uid || ''
+      });
+      if (successMessage) toast.success(successMessage);
+    } catch (error) {
+      console.error('Error saving seat plan:', error);
+      toast.error('Failed to save seat plan');
+      setPlan(previous);
     }
-    return seats;
   };
 
-  // Handle seat click to open edit modal
+  const unseatedStudents = useMemo(() => {
+    const seated = new Set((plan?.seats || []).map(seat => seat.studentId).filter(Boolean));
+    return students.filter(student => !seated.has(student.id));
+  }, [plan, students]);
+
+  // Layout mode cycles the cell kind; otherwise open the assignment modal
   const handleSeatClick = (seat: Seat) => {
+    if (!plan) return;
+    if (layoutMode) {
+      savePlan({ ...plan, seats: cycleSeatKind(plan.seats, seat.id) });
+      return;
+    }
+    if (!isUsableSeat(seat)) return;
     setSelectedSeat(seat);
     setSelectedStudent(seat.studentId || '');
     setIsEditModalOpen(true);
@@ -176,35 +227,151 @@ const SeatPlanLayout: React.FC<SeatPlanLayoutProps> = ({ roomId, sectionId }) =>
 
   // Save seat assignment
   const handleSaveSeatAssignment = async () => {
-    if (!room || !selectedSeat) return;
+    if (!plan || !selectedSeat) return;
 
-    try {
-      // Update the seat in the room
-      const updatedSeats = room.seats.map(seat => 
-        seat.id === selectedSeat.id 
-          ? { ...seat, studentId: selectedStudent || undefined }
-          : seat
-      );
-
-      await updateDoc(doc(db, 'rooms', roomId), {
-        seats: updatedSeats
-      });
+    let seats = plan.seats;
+    if (selectedStudent) {
+      seats = moveSeatAssignment(seats, selectedStudent, selectedSeat.id);
+    } else if (selectedSeat.studentId) {
+      seats = moveSeatAssignment(seats, selectedSeat.studentId, null);
+    }
+
+    await savePlan({ ...plan, seats }, 'Seat assignment updated');
+    setIsEditModalOpen(false);
+  };
+
+  // A null seat is the unseated list, which unassigns the student
+  const handleDrop = (seatId: string | null) => {
+    if (!plan || !draggedStudent) return;
+    savePlan({ ...plan, seats: moveSeatAssignment(plan.seats, draggedStudent, seatId) });
+    setDraggedStudent(null);
+  };
+
+  const handleAutoAssign = async (order: AutoAssignOrder) => {
+    if (!plan) return;
 
-      setRoom({
-        ...room,
-        seats: updatedSeats
+    if (plan.seats.some(seat => seat.studentId)) {
+      const result = await Swal.fire({
+        title: 'Replace current assignments?',
+        text: 'Auto-fill clears every seat before seating the section again.',
+        icon: 'warning',
+        showCancelButton: true,
+        confirmButtonText: 'Auto-fill'
       });
+      if (!result.isConfirmed) return;
+    }
+
+    const { seats, unseated } = autoAssignSeats(plan.seats, students, order);
+    await savePlan({ ...plan, seats }, 'Seats assigned');
+    if (unseated.length > 0) {
+      toast.warning(`${unseated.length} student(s) could not be seated; the layout has too few seats`);
+    }
+  };
+
+  const handleApplyTemplate = async (templateId: string) => {
+    const template = templates.find(t => t.id === templateId);
+    if (!template) return;
+
+    const result = await Swal.fire({
+      title: `Apply "${template.name}"?`,
+      text: 'The layout is replaced and every seat assignment is cleared.',
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Apply'
+    });
+    if (!result.isConfirmed) return;
+
+    await savePlan(applySeatPlanTemplate(template), 'Template applied');
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!plan || !room) return;
+
+    const roomType = room.type || 'classroom';
+    const { value } = await Swal.fire({
+      title: 'Save Layout as Template',
+      html: `
+        <input id="template-name" class="swal2-input" placeholder="Template name">
+        <select id="template-room-type" class="swal2-select">
+          ${TEMPLATE_ROOM_TYPES.map(
+            type => `<option value="${type.value}" ${type.value === roomType ? 'selected' : ''}>${type.label}</option>`
+          ).join('')}
+        </select>
+      `,
+      showCancelButton: true,
+      confirmButtonText: 'Save',
+      preConfirm: () => {
+        const name = (document.getElementById('template-name') as HTMLInputElement).value.trim();
+        if (!name) {
+          Swal.showValidationMessage('A template name is required');
+          return false;
+        }
+        return {
+          name,
+          roomType: (document.getElementById('template-room-type') as HTMLSelectElement).value as RoomType
+        };
+      }
+    });
+    if (!value) return;
+
+    try {
+      const template = await saveSeatPlanTemplate(value.name, value.roomType, plan.layout, plan.seats);
+      if (template.roomType === roomType) {
+        setTemplates(prev => [...prev, template]);
+      }
+      toast.success('Template saved');
+    } catch (error) {
+      console.error('Error saving seat plan template:', error);
+      toast.error('Failed to save template');
+    }
+  };
+
+  const copyToTerm = async (target: string, overwrite: boolean) => {
+    await copySeatPlanToTerm(sectionId, term, target, currentUser?.uid || '', overwrite);
+    toast.success(`Seat plan copied to ${termLabel(target)}`);
+  };
 
-      setIsEditModalOpen(false);
-      toast.success('Seat assignment updated');
+  const handleCopyToTerm = async () => {
+    if (!planSaved) {
+      toast.error('Make a change to save this term\'s plan before copying it');
+      return;
+    }
+
+    const { value: target } = await Swal.fire({
+      title: 'Copy Seat Plan',
+      input: 'select',
+      inputLabel: `Copy the ${termLabel(term)} plan to`,
+      inputOptions: Object.fromEntries(
+        TERM_CHOICES.filter(choice => choice !== term).map(choice => [choice, termLabel(choice)])
+      ),
+      showCancelButton: true,
+      confirmButtonText: 'Copy'
+    });
+    if (!target) return;
+
+    try {
+      await copyToTerm(target, false);
     } catch (error) {
-      console.error('Error updating seat assignment:', error);
-      toast.error('Failed to update seat assignment');
+      const result = await Swal.fire({
+        title: 'Replace existing plan?',
+        text: (error as Error).message,
+        icon: 'warning',
+        showCancelButton: true,
+        confirmButtonText: 'Replace'
+      });
+      if (!result.isConfirmed) return;
+
+      try {
+        await copyToTerm(target, true);
+      } catch (overwriteError) {
+        console.error('Error copying seat plan:', overwriteError);
+        toast.error('Failed to copy seat plan');
+      }
     }
   };
 
   // Filter students based on search query
-  const filteredStudents = students.filter(student => 
+  const filteredStudents = students.filter(student =>
     student.fullName.toLowerCase().includes(searchQuery.toLowerCase()) ||
     student.idNumber.toLowerCase().includes(searchQuery.toLowerCase())
   );
@@ -216,8 +383,14 @@ const SeatPlanLayout: React.FC<SeatPlanLayoutProps> = ({ roomId, sectionId }) =>
     return student ? student.fullName : 'Unknown Student';
   };
 
+  const seatClassName = (seat: Seat) => {
+    if (seat.kind === 'aisle') return 'border-dashed border-gray-200 bg-white';
+    if (seat.kind === 'disabled') return 'bg-gray-200 border-gray-300';
+    return seat.studentId ? 'bg-indigo-50 border-indigo-300' : 'bg-gray-50 border-gray-200';
+  };
+
   // Render loading state
-  if (loading || !room) {
+  if (loading || !room || !plan) {
     return (
       <div className="flex items-center justify-center h-64">
         <ArrowPathIcon className="w-8 h-8 text-indigo-500 animate-spin" />
@@ -228,106 +401,184 @@ const SeatPlanLayout: React.FC<SeatPlanLayoutProps> = ({ roomId, sectionId }) =>
 
   return (
     <div className="bg-white rounded-xl shadow-lg overflow-hidden">
-      <div className="p-6 border-b border-gray-200">
-        <div className="flex justify-between items-center">
+      <div className="p-6 border-b border-gray-200 space-y-4">
+        <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-3">
           <h2 className="text-xl font-bold text-gray-800">
-            Room {room.number} Seat Plan
+            Room {room.name} Seat Plan
           </h2>
-          <div className="text-sm text-gray-500">
-            Capacity: {room.capacity} students
+          <div className="flex items-center gap-3 text-sm text-gray-500">
+            <span>{plan.seats.filter(isUsableSeat).length} seats • {students.length} students</span>
+            <select
+              value={term}
+              onChange={(e) => setTerm(e.target.value)}
+              className="border border-gray-300 rounded-lg px-2 py-1"
+            >
+              {TERM_CHOICES.map(choice => (
+                <option key={choice} value={choice}>{termLabel(choice)}</option>
+              ))}
+            </select>
           </div>
         </div>
+
+        {!planSaved && (
+          <p className="text-xs text-amber-600">
+            No plan saved for this term yet; showing the room's default seats. The first change saves a plan for this section.
+          </p>
+        )}
+
+        <div className="flex flex-wrap gap-2 text-sm">
+          <button
+            onClick={() => setLayoutMode(!layoutMode)}
+            className={`flex items-center gap-1 px-3 py-1.5 rounded-lg border ${
+              layoutMode ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            <Squares2X2Icon className="w-4 h-4" />
+            {layoutMode ? 'Done Editing Layout' : 'Edit Layout'}
+          </button>
+          <select
+            value=""
+            onChange={(e) => handleAutoAssign(e.target.value as AutoAssignOrder)}
+            className="border border-gray-300 rounded-lg px-2 py-1.5 text-gray-700"
+          >
+            <option value="" disabled>Auto-fill…</option>
+            <option value="alphabetical">Alphabetical</option>
+            <option value="idNumber">By ID number</option>
+            <option value="random">Random</option>
+          </select>
+          <select
+            value=""
+            onChange={(e) => handleApplyTemplate(e.target.value)}
+            disabled={templates.length === 0}
+            className="border border-gray-300 rounded-lg px-2 py-1.5 text-gray-700 disabled:text-gray-400"
+          >
+            <option value="" disabled>
+              {templates.length === 0 ? 'No templates for this room type' : 'Apply template…'}
+            </option>
+            {templates.map(template => (
+              <option key={template.id} value={template.id}>
+                {template.name} ({template.layout.rows}×{template.layout.cols})
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleSaveTemplate}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            <BookmarkIcon className="w-4 h-4" />
+            Save as Template
+          </button>
+          <button
+            onClick={handleCopyToTerm}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            <DocumentDuplicateIcon className="w-4 h-4" />
+            Copy to Term
+          </button>
+        </div>
       </div>
 
-      {/* Seat Plan Grid */}
-      <div className="p-6">
-        <div 
-          className="grid gap-4"
-          style={{ 
-            gridTemplateColumns: `repeat(${room.layout.cols}, minmax(0, 1fr))`,
-            gridTemplateRows: `repeat(${room.layout.rows}, 1fr)`
-          }}
-        >
-          {room.seats.map((seat) => (
-            <motion.div
-              key={seat.id}
-              initial={{ opacity: 0, scale: 0.9 }}
-              animate={{ opacity: 1, scale: 1 }}
-              transition={{ duration: 0.2 }}
-              className={`
-                relative p-3 rounded-lg border-2 cursor-pointer
-                ${seat.weightSensorStatus ? 'bg-blue-50 border-blue-300' : 'bg-gray-50 border-gray-200'}
-                ${seat.rfidConfirmed ? 'bg-green-50 border-green-300' : ''}
-                hover:shadow-md transition-all duration-200
-              `}
-              onClick={() => handleSeatClick(seat)}
-            >
-              <div className="flex flex-col h-full">
+      <div className="flex flex-col lg:flex-row">
+        {/* Seat Plan Grid */}
+        <div className="p-6 flex-1">
+          {layoutMode && (
+            <p className="text-xs text-gray-500 mb-3">Click a cell to switch it between seat, aisle and disabled.</p>
+          )}
+          <div
+            className="grid gap-4"
+            style={{
+              gridTemplateColumns: `repeat(${plan.layout.cols}, minmax(0, 1fr))`,
+              gridTemplateRows: `repeat(${plan.layout.rows}, 1fr)`
+            }}
+          >
+            {plan.seats.map((seat) => (
+              <motion.div
+                key={seat.id}
+                initial={{ opacity: 0, scale: 0.9 }}
+                animate={{ opacity: 1, scale: 1 }}
+                transition={{ duration: 0.2 }}
+                style={{ gridRowStart: seat.position.row + 1, gridColumnStart: seat.position.col + 1 }}
+                className={`
+                  relative p-3 rounded-lg border-2 min-h-[72px]
+                  ${seatClassName(seat)}
+                  ${layoutMode || isUsableSeat(seat) ? 'cursor-pointer hover:shadow-md' : ''}
+                  transition-all duration-200
+                `}
+                onClick={() => handleSeatClick(seat)}
+                draggable={!layoutMode && !!seat.studentId}
+                onDragStart={() => setDraggedStudent(seat.studentId || null)}
+                onDragOver={(e) => {
+                  if (!layoutMode && isUsableSeat(seat)) e.preventDefault();
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(seat.id);
+                }}
+              >
                 <div className="text-xs text-gray-500 mb-1">
-                  Seat {seat.position.row + 1}-{seat.position.col + 1}
+                  {seat.kind === 'aisle'
+                    ? 'Aisle'
+                    : seat.kind === 'disabled'
+                      ? 'Disabled'
+                      : `Seat ${seat.position.row + 1}-${seat.position.col + 1}`}
                 </div>
-                
-                {seat.studentId ? (
-                  <div className="flex-1 flex flex-col justify-between">
+
+                {isUsableSeat(seat) && (
+                  seat.studentId ? (
                     <div className="font-medium text-sm truncate">
                       {getStudentName(seat.studentId)}
                     </div>
-                    
-                    <div className="mt-2 flex items-center justify-between">
-                      <div className="flex items-center">
-                        {seat.weightSensorStatus ? (
-                          <div className="flex items-center text-blue-600 text-xs">
-                            <UserCircleIcon className="w-3 h-3 mr-1" />
-                            <span>Seated</span>
-                          </div>
-                        ) : (
-                          <div className="flex items-center text-gray-400 text-xs">
-                            <UserCircleIcon className="w-3 h-3 mr-1" />
-                            <span>Empty</span>
-                          </div>
-                        )}
-                      </div>
-                      
-                      {seat.rfidConfirmed ? (
-                        <div className="flex items-center text-green-600 text-xs">
-                          <CheckCircleIcon className="w-3 h-3 mr-1" />
-                          <span>Confirmed</span>
-                        </div>
-                      ) : (
-                        <div className="flex items-center text-gray-400 text-xs">
-                          <XCircleIcon className="w-3 h-3 mr-1" />
-                          <span>Unconfirmed</span>
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                ) : (
-                  <div className="flex-1 flex items-center justify-center">
-                    <button className="text-gray-400 hover:text-indigo-500 transition-colors">
+                  ) : (
+                    <div className="flex items-center justify-center text-gray-400">
                       <UserPlusIcon className="w-6 h-6" />
-                    </button>
-                  </div>
+                    </div>
+                  )
                 )}
-              </div>
-              
-              {seat.lastUpdated && (
-                <div className="absolute bottom-1 right-1 text-xs text-gray-400 flex items-center">
-                  <ClockIcon className="w-3 h-3 mr-1" />
-                  {new Date(seat.lastUpdated).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                </div>
-              )}
-              
-              <button 
-                className="absolute top-1 right-1 text-gray-400 hover:text-indigo-500 transition-colors"
-                onClick={(e) => {
-                  e.stopPropagation();
-                  handleSeatClick(seat);
-                }}
+
+                {isUsableSeat(seat) && !layoutMode && (
+                  <button
+                    className="absolute top-1 right-1 text-gray-400 hover:text-indigo-500 transition-colors"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleSeatClick(seat);
+                    }}
+                  >
+                    <PencilSquareIcon className="w-4 h-4" />
+                  </button>
+                )}
+              </motion.div>
+            ))}
+          </div>
+        </div>
+
+        {/* Unseated students; dropping a seated student here unassigns them */}
+        <div
+          className="lg:w-64 p-6 border-t lg:border-t-0 lg:border-l border-gray-200 bg-gray-50"
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => {
+            e.preventDefault();
+            handleDrop(null);
+          }}
+        >
+          <h3 className="text-sm font-semibold text-gray-700 mb-3">
+            Unseated ({unseatedStudents.length})
+          </h3>
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {unseatedStudents.map(student => (
+              <div
+                key={student.id}
+                draggable
+                onDragStart={() => setDraggedStudent(student.id)}
+                className="p-2 bg-white border border-gray-200 rounded-md text-sm cursor-grab hover:border-indigo-300"
               >
-                <PencilSquareIcon className="w-4 h-4" />
-              </button>
-            </motion.div>
-          ))}
+                <div className="font-medium truncate">{student.fullName}</div>
+                <div className="text-xs text-gray-500">{student.idNumber}</div>
+              </div>
+            ))}
+            {unseatedStudents.length === 0 && (
+              <p className="text-xs text-gray-500">Every student has a seat.</p>
+            )}
+          </div>
         </div>
       </div>
 
@@ -339,12 +590,16 @@ const SeatPlanLayout: React.FC<SeatPlanLayoutProps> = ({ roomId, sectionId }) =>
             <span>Empty</span>
           </div>
           <div className="flex items-center">
-            <div className="w-3 h-3 bg-blue-50 border-2 border-blue-300 rounded-full mr-2"></div>
-            <span>Seated (Weight Detected)</span>
+            <div className="w-3 h-3 bg-indigo-50 border-2 border-indigo-300 rounded-full mr-2"></div>
+            <span>Assigned</span>
           </div>
           <div className="flex items-center">
-            <div className="w-3 h-3 bg-green-50 border-2 border-green-300 rounded-full mr-2"></div>
-            <span>Attendance Confirmed (RFID)</span>
+            <div className="w-3 h-3 bg-white border-2 border-dashed border-gray-300 rounded-full mr-2"></div>
+            <span>Aisle</span>
+          </div>
+          <div className="flex items-center">
+            <div className="w-3 h-3 bg-gray-200 border-2 border-gray-300 rounded-full mr-2"></div>
+            <span>Disabled</span>
           </div>
         </div>
       </div>
@@ -368,7 +623,7 @@ const SeatPlanLayout: React.FC<SeatPlanLayoutProps> = ({ roomId, sectionId }) =>
                 <h2 className="text-xl font-bold text-gray-800">
                   Edit Seat {selectedSeat.position.row + 1}-{selectedSeat.position.col + 1}
                 </h2>
-                <button 
+                <button
                   onClick={() => setIsEditModalOpen(false)}
                   className="text-gray-400 hover:text-gray-600"
                 >
@@ -394,16 +649,16 @@ const SeatPlanLayout: React.FC<SeatPlanLayoutProps> = ({ roomId, sectionId }) =>
 
                 <div className="max-h-60 overflow-y-auto border rounded-lg mb-4">
                   <div className="divide-y divide-gray-200">
-                    <div 
+                    <div
                       className={`p-3 cursor-pointer hover:bg-gray-50 ${!selectedStudent ? 'bg-indigo-50' : ''}`}
                       onClick={() => setSelectedStudent('')}
                     >
                       <div className="font-medium">Unassigned</div>
                       <div className="text-sm text-gray-500">Remove student from seat</div>
                     </div>
-                    
+
                     {filteredStudents.map(student => (
-                      <div 
+                      <div
                         key={student.id}
                         className={`p-3 cursor-pointer hover:bg-gray-50 ${selectedStudent === student.id ? 'bg-indigo-50' : ''}`}
                         onClick={() => setSelectedStudent(student.id)}
@@ -438,4 +693,4 @@ const SeatPlanLayout: React.FC<SeatPlanLayoutProps> = ({ roomId, sectionId }) =>
   );
 };
 
-export default SeatPlanLayout; 
\ No newline at end of file
+export default SeatPlanLayout;
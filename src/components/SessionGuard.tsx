@@ -0,0 +1,142 @@
+import { useEffect, useRef } from 'react';
+import Swal from 'sweetalert2';
+import { useAuth } from '../Pages/AuthContext';
+import { subscribeToUserSession, touchUserSession } from '../services/rtdbRepository';
+import {
+  DEFAULT_SESSION_POLICY,
+  lastActivityAt,
+  loadSessionPolicy,
+  recordActivity,
+  startUserSession,
+} from '../services/userSessions';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'];
+const CHECK_INTERVAL_MS = 5 * 1000;
+// How often lastActiveAt in the sessions list is brought up to date.
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Keeps this browser's entry in the active sessions list, signs out when the
+ * entry is revoked from another device or by an admin, and signs out after
+ * the configured idle time with a warning first. Renders nothing.
+ */
+const SessionGuard = () => {
+  const { currentUser, logout } = useAuth();
+  const uid = currentUser?.uid;
+  const logoutRef = useRef(logout);
+  logoutRef.current = logout;
+
+  useEffect(() => {
+    if (!uid) return;
+    let stopped = false;
+    let warning = false;
+    let sessionId: string | null = null;
+    let lastTouched = Date.now();
+    let lastRecorded = 0;
+    let policy = DEFAULT_SESSION_POLICY;
+    let unsubscribeSession = () => {};
+
+    // A browser reopened long after its last use is treated as idle.
+    if (!lastActivityAt()) recordActivity();
+
+    const signOut = async (reason: string) => {
+      if (stopped) return;
+      stopped = true;
+      if (warning) Swal.close();
+      try {
+        await logoutRef.current();
+        Swal.fire({ icon: 'info', title: 'Signed out', text: reason });
+      } catch (error) {
+        console.error('Error signing out:', error);
+      }
+    };
+
+    const onActivity = () => {
+      // While warned, only the dialog's button counts as coming back.
+      const now = Date.now();
+      if (warning || now - lastRecorded < 1000) return;
+      lastRecorded = now;
+      recordActivity(now);
+    };
+
+    const check = () => {
+      const lastActive = lastActivityAt() || Date.now();
+      const idleFor = Date.now() - lastActive;
+      const timeoutMs = policy.idleTimeoutMinutes * 60 * 1000;
+      const warnAfterMs = timeoutMs - policy.warningSeconds * 1000;
+
+      if (idleFor >= timeoutMs) {
+        signOut(`You were signed out after ${policy.idleTimeoutMinutes} minutes without activity.`);
+        return;
+      }
+      if (idleFor >= warnAfterMs && !warning) {
+        warning = true;
+        Swal.fire({
+          icon: 'warning',
+          title: 'Are you still there?',
+          text: `You will be signed out in ${Math.ceil((timeoutMs - idleFor) / 1000)} seconds.`,
+          timer: timeoutMs - idleFor,
+          timerProgressBar: true,
+          confirmButtonText: 'Stay signed in',
+          allowOutsideClick: false,
+        }).then((result) => {
+          warning = false;
+          if (result.isConfirmed) recordActivity();
+        });
+      } else if (warning && idleFor < warnAfterMs) {
+        // Another tab was used in the meantime.
+        Swal.close();
+      }
+
+      if (sessionId && lastActive - lastTouched >= TOUCH_INTERVAL_MS) {
+        lastTouched = lastActive;
+        touchUserSession(uid, sessionId, lastActive).catch((error) =>
+          console.error('Error updating session activity:', error)
+        );
+      }
+    };
+
+    loadSessionPolicy()
+      .then((loaded) => {
+        policy = loaded;
+      })
+      .catch((error) => console.error('Error loading the session policy:', error));
+
+    startUserSession(uid)
+      .then((id) => {
+        if (stopped) return;
+        sessionId = id;
+        unsubscribeSession = subscribeToUserSession(
+          uid,
+          id,
+          // A missing record is this browser signing out in another tab,
+          // which ends this tab's sign-in as well.
+          (session) => {
+            if (session?.revokedAt) {
+              signOut(
+                !session.revokedBy || session.revokedBy.uid === uid
+                  ? 'This session was signed out from another device.'
+                  : `This session was signed out by ${session.revokedBy.fullName || 'an administrator'}.`
+              );
+            }
+          },
+          (error) => console.error('Error watching this session:', error)
+        );
+      })
+      .catch((error) => console.error('Error starting the session:', error));
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, onActivity, { passive: true }));
+    const timer = setInterval(check, CHECK_INTERVAL_MS);
+
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, onActivity));
+      unsubscribeSession();
+    };
+  }, [uid]);
+
+  return null;
+};
+
+export default SessionGuard;
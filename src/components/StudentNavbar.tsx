@@ -64,8 +64,6 @@ const StudentNavbar: React.FC<StudentNavbarProps> = ({ student }) => {
   const handleLogout = async () => {
     try {
       await logout();
-      localStorage.removeItem('userRole');
-      localStorage.removeItem('userData');
       navigate('/login');
     } catch (error) {
       console.error('Logout failed:', error);
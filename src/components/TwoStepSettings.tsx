@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Swal from 'sweetalert2';
+import { ShieldCheckIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '../Pages/AuthContext';
+import { disableSecondFactor, downloadRecoveryCodes, regenerateRecoveryCodes } from '../services/mfa';
+import { escapeHtml } from '../utils/htmlUtils';
+
+// Staff settings: turn two-step sign-in on, replace recovery codes, and for
+// instructors turn it off again. Admins cannot turn it off.
+const TwoStepSettings: React.FC = () => {
+  const { currentUser, refreshUser } = useAuth();
+  const navigate = useNavigate();
+  const [busy, setBusy] = useState(false);
+  const enabled = currentUser?.secondFactor === 'verified';
+  const isAdmin = currentUser?.role === 'admin';
+  const account = currentUser?.email || '';
+
+  const handleRegenerate = async () => {
+    const result = await Swal.fire({
+      title: 'Replace your recovery codes?',
+      text: 'Your current codes stop working.',
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Replace',
+    });
+    if (!result.isConfirmed) return;
+
+    setBusy(true);
+    try {
+      const codes = await regenerateRecoveryCodes();
+      const saved = await Swal.fire({
+        title: 'New recovery codes',
+        html: `<p class="text-sm mb-3">Each signs you in once. They will not be shown again.</p>
+          <pre class="text-left inline-block">${codes.map(escapeHtml).join('\n')}</pre>`,
+        showCancelButton: true,
+        confirmButtonText: 'Download',
+        cancelButtonText: 'Done',
+      });
+      if (saved.isConfirmed) downloadRecoveryCodes(codes, account);
+    } catch (error) {
+      console.error('Error replacing recovery codes:', error);
+      Swal.fire('Error', error instanceof Error ? error.message : 'Failed to replace the recovery codes.', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    const result = await Swal.fire({
+      title: 'Turn off two-step sign-in?',
+      text: 'Your password alone will sign you in again.',
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Turn off',
+      confirmButtonColor: '#e11d48',
+    });
+    if (!result.isConfirmed) return;
+
+    setBusy(true);
+    try {
+      await disableSecondFactor();
+      await refreshUser();
+    } catch (error) {
+      console.error('Error turning off two-step sign-in:', error);
+      Swal.fire('Error', error instanceof Error ? error.message : 'Failed to turn off two-step sign-in.', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="pt-6 border-t border-blue-100 space-y-4">
+      <div className="flex items-start">
+        <ShieldCheckIcon className={`h-6 w-6 mr-3 ${enabled ? 'text-green-600' : 'text-gray-400'}`} />
+        <div>
+          <h3 className="font-semibold text-blue-800">
+            Two-step sign-in
+            <span
+              className={`ml-2 px-2 py-0.5 rounded-full text-xs ${
+                enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+              }`}
+            >
+              {enabled ? 'On' : 'Off'}
+            </span>
+          </h3>
+          <p className="text-xs text-blue-400">
+            {isAdmin
+              ? 'Required for admin accounts: a code from your authenticator app after your password.'
+              : 'Ask for a code from your authenticator app after your password.'}
+          </p>
+        </div>
+      </div>
+      <div className="flex gap-3">
+        {enabled ? (
+          <>
+            <button
+              onClick={handleRegenerate}
+              disabled={busy}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+            >
+              New Recovery Codes
+            </button>
+            {!isAdmin && (
+              <button
+                onClick={handleDisable}
+                disabled={busy}
+                className="px-4 py-2 text-rose-600 hover:text-rose-700 font-medium disabled:opacity-50"
+              >
+                Turn Off
+              </button>
+            )}
+          </>
+        ) : (
+          <button
+            onClick={() => navigate('/two-step')}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition"
+          >
+            Set Up
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TwoStepSettings;
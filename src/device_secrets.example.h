@@ -0,0 +1,7 @@
+// Copy to device_secrets.h, which git ignores, and fill in the door
+// controller's own account. `npm run set-device` in functions/ gives it the
+// device claim the security rules let through.
+#pragma once
+
+#define DEVICE_EMAIL "door-controller@smartecolock.local"
+#define DEVICE_PASSWORD "set-a-strong-password"
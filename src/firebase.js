@@ -1,10 +1,11 @@
 // firebase.js
 import { initializeApp } from "firebase/app";
 import { getAnalytics } from "firebase/analytics";
-import { getAuth } from 'firebase/auth';
-import { getFirestore, doc, getDoc } from 'firebase/firestore';
-import { getDatabase, ref, onValue, off } from 'firebase/database';
+import { getAuth, connectAuthEmulator } from 'firebase/auth';
+import { getFirestore, doc, getDoc, connectFirestoreEmulator } from 'firebase/firestore';
+import { getDatabase, ref, onValue, off, connectDatabaseEmulator } from 'firebase/database';
 import { getStorage } from 'firebase/storage';
+import { getFunctions, connectFunctionsEmulator } from 'firebase/functions';
 
 
 const firebaseConfig = {
@@ -25,6 +26,16 @@ export const auth = getAuth(app);
 export const storage = getStorage(app);
 export const db = getFirestore(app);
 export const rtdb = getDatabase(app);
+export const functions = getFunctions(app, 'asia-southeast1');
+
+// `firebase emulators:start` from the repo root, then start the app with
+// REACT_APP_USE_EMULATORS=true to run against it.
+if (process.env.REACT_APP_USE_EMULATORS === 'true') {
+  connectAuthEmulator(auth, 'http://localhost:9099');
+  connectFirestoreEmulator(db, 'localhost', 8080);
+  connectDatabaseEmulator(rtdb, 'localhost', 9000);
+  connectFunctionsEmulator(functions, 'localhost', 5001);
+}
 
 export const handleRFIDRegistration = async (uid) => {
   try {
@@ -0,0 +1,170 @@
+import {
+  FinalizedAttendanceStatus,
+  RTDBActor,
+  RTDBAttendanceAppeal,
+  RTDBAttendanceCorrection,
+  RTDBAttendanceRecord,
+  RTDBSessionSummary,
+} from '../types/rtdb';
+import {
+  applyAttendanceCorrection,
+  createAttendanceAppeal,
+  getAttendanceAppeal,
+  getAttendanceRecord,
+  getAttendanceSession,
+  updateAttendanceAppeal,
+} from './rtdbRepository';
+
+export const STATUS_LABELS: Record<FinalizedAttendanceStatus, string> = {
+  present: 'Present',
+  late: 'Late',
+  absent: 'Absent',
+};
+
+const requireReason = (reason: string): string => {
+  const trimmed = reason.trim();
+  if (!trimmed) {
+    throw new Error('A reason is required for every attendance change');
+  }
+  return trimmed;
+};
+
+// A finalized session's summary in step with a corrected record, or undefined
+// when the session has no summary naming the student.
+const summaryWith = async (
+  sessionId: string,
+  rfidUid: string,
+  status: FinalizedAttendanceStatus | null
+): Promise<RTDBSessionSummary | undefined> => {
+  const session = await getAttendanceSession(sessionId);
+  if (!session?.summary || !(rfidUid in session.summary.statuses)) return undefined;
+  const statuses = { ...session.summary.statuses };
+  if (status) {
+    statuses[rfidUid] = status;
+  } else {
+    delete statuses[rfidUid];
+  }
+  const values = Object.values(statuses);
+  return {
+    ...session.summary,
+    present: values.filter((value) => value === 'present').length,
+    late: values.filter((value) => value === 'late').length,
+    absent: values.filter((value) => value === 'absent').length,
+    total: values.length,
+    statuses,
+  };
+};
+
+interface CorrectionParams {
+  rfidUid: string;
+  sessionId: string;
+  reason: string;
+  actor: RTDBActor;
+  appealId?: string;
+}
+
+// Changes a record's status and appends the previous value to its history.
+// Unlike ordinary attendance writes this is allowed on finalized sessions.
+export const correctAttendanceStatus = async ({
+  rfidUid,
+  sessionId,
+  status,
+  reason,
+  actor,
+  appealId,
+}: CorrectionParams & { status: FinalizedAttendanceStatus }): Promise<RTDBAttendanceRecord> => {
+  const trimmedReason = requireReason(reason);
+  const previous = await getAttendanceRecord(rfidUid, sessionId);
+  if (!previous) {
+    throw new Error(`No attendance record for ${rfidUid} in session ${sessionId}`);
+  }
+
+  const next: RTDBAttendanceRecord = {
+    ...previous,
+    attendanceInfo: { ...previous.attendanceInfo, status: STATUS_LABELS[status], action: 'Corrected' },
+  };
+  const correction: RTDBAttendanceCorrection = {
+    action: 'edit',
+    previous,
+    next,
+    reason: trimmedReason,
+    changedBy: actor,
+    changedAt: Date.now(),
+    ...(appealId ? { appealId } : {}),
+  };
+
+  await applyAttendanceCorrection(rfidUid, sessionId, correction, await summaryWith(sessionId, rfidUid, status));
+  return next;
+};
+
+// Removes a record; the removed value stays in the record's history.
+export const deleteAttendanceRecordWithAudit = async ({
+  rfidUid,
+  sessionId,
+  reason,
+  actor,
+}: CorrectionParams): Promise<void> => {
+  const trimmedReason = requireReason(reason);
+  const previous = await getAttendanceRecord(rfidUid, sessionId);
+  if (!previous) {
+    throw new Error(`No attendance record for ${rfidUid} in session ${sessionId}`);
+  }
+
+  await applyAttendanceCorrection(
+    rfidUid,
+    sessionId,
+    {
+      action: 'delete',
+      previous,
+      next: null,
+      reason: trimmedReason,
+      changedBy: actor,
+      changedAt: Date.now(),
+    },
+    await summaryWith(sessionId, rfidUid, null)
+  );
+};
+
+export const submitAttendanceAppeal = async (
+  appeal: Omit<RTDBAttendanceAppeal, 'id' | 'status' | 'createdAt'>
+): Promise<RTDBAttendanceAppeal> =>
+  createAttendanceAppeal({
+    ...appeal,
+    reason: requireReason(appeal.reason),
+    status: 'pending',
+    createdAt: Date.now(),
+  });
+
+// Approving applies the requested status as a correction linked to the appeal.
+export const reviewAttendanceAppeal = async (
+  appealId: string,
+  decision: 'approved' | 'rejected',
+  note: string,
+  actor: RTDBActor
+): Promise<void> => {
+  const appeal = await getAttendanceAppeal(appealId);
+  if (!appeal) {
+    throw new Error(`Appeal ${appealId} not found`);
+  }
+  if (appeal.status !== 'pending') {
+    throw new Error(`Appeal ${appealId} has already been ${appeal.status}`);
+  }
+
+  if (decision === 'approved') {
+    await correctAttendanceStatus({
+      rfidUid: appeal.rfidUid,
+      sessionId: appeal.sessionId,
+      status: appeal.requestedStatus,
+      reason: `Appeal approved: ${appeal.reason}${note.trim() ? ` (${note.trim()})` : ''}`,
+      actor,
+      appealId,
+    });
+  }
+
+  await updateAttendanceAppeal(appealId, {
+    status: decision,
+    reviewedBy: actor,
+    reviewedAt: Date.now(),
+    reviewNote: note.trim(),
+  });
+};
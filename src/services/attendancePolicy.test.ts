@@ -0,0 +1,90 @@
+import { AttendancePolicy } from '../types';
+import {
+  DEFAULT_ATTENDANCE_POLICY,
+  classifyTap,
+  resolveAttendancePolicy,
+  validateAttendancePolicy,
+} from './attendancePolicy';
+
+const MINUTE = 60 * 1000;
+// 2025-03-14 08:00 Philippine time.
+const START = Date.UTC(2025, 2, 14, 0, 0, 0);
+
+const policy: AttendancePolicy = {
+  graceMinutes: 15,
+  lateCutoffMinutes: 10,
+  absentAfterMinutes: 30,
+  earlyLeaveMinutes: 5,
+  minimumAttendedPercent: 50,
+};
+
+describe('classifyTap', () => {
+  it('counts taps before the class as present', () => {
+    expect(classifyTap(START - 20 * MINUTE, START, policy)).toBe('present');
+  });
+
+  it('counts a tap exactly at the late cutoff as present', () => {
+    expect(classifyTap(START + 10 * MINUTE, START, policy)).toBe('present');
+  });
+
+  it('counts a tap just past the late cutoff as late', () => {
+    expect(classifyTap(START + 10 * MINUTE + 1000, START, policy)).toBe('late');
+  });
+
+  it('counts a tap exactly at the absent cutoff as late', () => {
+    expect(classifyTap(START + 30 * MINUTE, START, policy)).toBe('late');
+  });
+
+  it('counts a tap past the absent cutoff as absent', () => {
+    expect(classifyTap(START + 30 * MINUTE + 1000, START, policy)).toBe('absent');
+  });
+
+  it('goes straight from present to absent when both cutoffs are equal', () => {
+    const strict = { ...policy, lateCutoffMinutes: 10, absentAfterMinutes: 10 };
+    expect(classifyTap(START + 10 * MINUTE, START, strict)).toBe('present');
+    expect(classifyTap(START + 11 * MINUTE, START, strict)).toBe('absent');
+  });
+
+  it('does not let the grace period extend the late cutoff', () => {
+    const generous = { ...policy, graceMinutes: 60 };
+    expect(classifyTap(START + 20 * MINUTE, START, generous)).toBe('late');
+  });
+});
+
+describe('resolveAttendancePolicy', () => {
+  it('lets later layers override earlier ones', () => {
+    const resolved = resolveAttendancePolicy({ lateCutoffMinutes: 5 }, { lateCutoffMinutes: 7, graceMinutes: 0 });
+    expect(resolved).toEqual({ ...DEFAULT_ATTENDANCE_POLICY, lateCutoffMinutes: 7, graceMinutes: 0 });
+  });
+
+  it('ignores missing layers, unknown keys and non-numbers', () => {
+    const resolved = resolveAttendancePolicy(undefined, null, {
+      absentAfterMinutes: NaN,
+      lateCutoffMinutes: '20' as unknown as number,
+      unknown: 3,
+    } as Partial<AttendancePolicy>);
+    expect(resolved).toEqual(DEFAULT_ATTENDANCE_POLICY);
+  });
+});
+
+describe('validateAttendancePolicy', () => {
+  it('accepts the defaults', () => {
+    expect(validateAttendancePolicy(DEFAULT_ATTENDANCE_POLICY)).toBeNull();
+  });
+
+  it('rejects negative values', () => {
+    expect(validateAttendancePolicy({ graceMinutes: -1 })).toBe('Policy values cannot be negative');
+  });
+
+  it('rejects a minimum above 100 percent', () => {
+    expect(validateAttendancePolicy({ minimumAttendedPercent: 101 })).toBe(
+      'Minimum attended percentage cannot exceed 100'
+    );
+  });
+
+  it('rejects an absent cutoff before the late cutoff', () => {
+    expect(validateAttendancePolicy({ lateCutoffMinutes: 20, absentAfterMinutes: 10 })).toBe(
+      'Absent cutoff must not be earlier than the late cutoff'
+    );
+  });
+});
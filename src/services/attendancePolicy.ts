@@ -0,0 +1,64 @@
+import { AttendancePolicy } from '../types';
+import { FinalizedAttendanceStatus } from '../types/rtdb';
+
+export const DEFAULT_ATTENDANCE_POLICY: AttendancePolicy = {
+  graceMinutes: 15,
+  lateCutoffMinutes: 15,
+  absentAfterMinutes: 45,
+  earlyLeaveMinutes: 10,
+  minimumAttendedPercent: 0,
+};
+
+export const ATTENDANCE_POLICY_FIELDS: { key: keyof AttendancePolicy; label: string; unit: string }[] = [
+  { key: 'lateCutoffMinutes', label: 'Late after', unit: 'min from start' },
+  { key: 'absentAfterMinutes', label: 'Absent after', unit: 'min from start' },
+  { key: 'earlyLeaveMinutes', label: 'Early leave', unit: 'min before end' },
+  { key: 'graceMinutes', label: 'Grace period', unit: 'min after end' },
+  { key: 'minimumAttendedPercent', label: 'Minimum attended', unit: '% of class' },
+];
+
+// Later layers win; missing or non-numeric fields fall through to the layer below.
+export const resolveAttendancePolicy = (
+  ...overrides: (Partial<AttendancePolicy> | undefined | null)[]
+): AttendancePolicy =>
+  overrides.reduce<AttendancePolicy>((policy, override) => {
+    const next = { ...policy };
+    Object.entries(override || {}).forEach(([key, value]) => {
+      if (key in DEFAULT_ATTENDANCE_POLICY && typeof value === 'number' && !Number.isNaN(value)) {
+        next[key as keyof AttendancePolicy] = value;
+      }
+    });
+    return next;
+  }, DEFAULT_ATTENDANCE_POLICY);
+
+// Returns a message describing the first problem, or null when the policy is usable.
+export const validateAttendancePolicy = (policy: Partial<AttendancePolicy>): string | null => {
+  const invalid = Object.entries(policy).find(([, value]) => typeof value === 'number' && value < 0);
+  if (invalid) return 'Policy values cannot be negative';
+  if (policy.minimumAttendedPercent !== undefined && policy.minimumAttendedPercent > 100) {
+    return 'Minimum attended percentage cannot exceed 100';
+  }
+  if (
+    policy.lateCutoffMinutes !== undefined &&
+    policy.absentAfterMinutes !== undefined &&
+    policy.absentAfterMinutes < policy.lateCutoffMinutes
+  ) {
+    return 'Absent cutoff must not be earlier than the late cutoff';
+  }
+  return null;
+};
+
+const MINUTE = 60 * 1000;
+
+// Classifies a tap-in confirmed on the Take Attendance page against the class
+// start. Door taps are classified by the server when it finalizes the session.
+export const classifyTap = (
+  tapTime: number,
+  scheduledStart: number,
+  policy: AttendancePolicy
+): FinalizedAttendanceStatus => {
+  const minutesLate = (tapTime - scheduledStart) / MINUTE;
+  if (minutesLate > policy.absentAfterMinutes) return 'absent';
+  if (minutesLate > policy.lateCutoffMinutes) return 'late';
+  return 'present';
+};
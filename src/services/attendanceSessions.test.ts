@@ -0,0 +1,153 @@
+import { httpsCallable } from 'firebase/functions';
+import { RTDBAttendanceRecord, RTDBAttendanceSession } from '../types/rtdb';
+import { getAttendanceSession, writeAttendanceRecord } from './rtdbRepository';
+import {
+  SessionLockedError,
+  closeAttendanceSession,
+  firmwareRecordKeys,
+  fromRTDBTimestamp,
+  recordSessionAttendance,
+  resolveCurrentWindow,
+  resolveScheduleWindow,
+  toDateKey,
+  toRTDBTimestamp,
+} from './attendanceSessions';
+
+jest.mock('../firebase', () => ({ functions: {} }));
+jest.mock('firebase/functions', () => {
+  const callable = jest.fn();
+  return { httpsCallable: () => callable };
+});
+jest.mock('./rtdbRepository', () => ({
+  getAttendanceSession: jest.fn(),
+  getSectionSessions: jest.fn(),
+  writeAttendanceRecord: jest.fn(),
+}));
+
+// Local times, so the tests hold in any time zone.
+const START = new Date(2025, 2, 14, 8, 0).getTime();
+const END = new Date(2025, 2, 14, 9, 30).getTime();
+
+const makeSession = (overrides: Partial<RTDBAttendanceSession> = {}): RTDBAttendanceSession => ({
+  id: 'session-1',
+  state: 'open',
+  schedule: {
+    subjectId: 'subject-1',
+    subjectCode: 'IT101',
+    subjectName: 'Programming',
+    sectionId: 'section-1',
+    sectionName: 'BSIT-1A',
+    day: 'Friday',
+    startTime: '08:00',
+    endTime: '09:30',
+  },
+  roomId: 'GLE-201',
+  instructor: { uid: 'instructor-1', fullName: 'Ana Cruz' },
+  roster: {},
+  policy: {
+    graceMinutes: 15,
+    lateCutoffMinutes: 10,
+    absentAfterMinutes: 30,
+    earlyLeaveMinutes: 10,
+    minimumAttendedPercent: 0,
+  },
+  scheduledStart: START,
+  scheduledEnd: END,
+  openedAt: START,
+  ...overrides,
+});
+
+const makeRecord = (status: string, action: string, timeIn: number | null, timeOut = ''): RTDBAttendanceRecord => ({
+  allSchedules: [],
+  attendanceInfo: {
+    action,
+    assignedSensorId: '',
+    date: toDateKey(new Date(START)),
+    sensor: '',
+    sensorConfirmed: true,
+    sessionId: '',
+    status,
+    timeIn: timeIn === null ? '' : toRTDBTimestamp(new Date(timeIn)),
+    timeOut,
+    timestamp: timeIn === null ? '' : toRTDBTimestamp(new Date(timeIn)),
+    weight: 0,
+    weightUnit: 'kg',
+  },
+  personalInfo: {
+    department: 'CCS',
+    email: '',
+    fullName: 'Student',
+    idNumber: '',
+    mobileNumber: '',
+    role: 'student',
+  },
+});
+
+// A small in-memory database behind the mocked repository.
+let sessions: Record<string, RTDBAttendanceSession>;
+let records: Record<string, RTDBAttendanceRecord>;
+
+beforeEach(() => {
+  sessions = {};
+  records = {};
+  (getAttendanceSession as jest.Mock).mockImplementation(async (id: string) => sessions[id] || null);
+  (writeAttendanceRecord as jest.Mock).mockImplementation(
+    async (rfidUid: string, key: string, record: RTDBAttendanceRecord) => {
+      records[`${rfidUid}/${key}`] = record;
+    }
+  );
+});
+
+describe('recordSessionAttendance', () => {
+  it('refuses attendance writes once finalized', async () => {
+    const session = makeSession({ state: 'finalized' });
+    sessions[session.id] = session;
+    await expect(
+      recordSessionAttendance(session.id, 'card-1', makeRecord('Present', 'Confirmed RFID', START))
+    ).rejects.toBeInstanceOf(SessionLockedError);
+    expect(writeAttendanceRecord).not.toHaveBeenCalled();
+  });
+});
+
+describe('schedule windows', () => {
+  it('puts the end of a class crossing midnight on the next day', () => {
+    const window = resolveScheduleWindow(new Date(2025, 2, 14), '22:00', '01:00');
+    expect(window.scheduledStart).toBe(new Date(2025, 2, 14, 22, 0).getTime());
+    expect(window.scheduledEnd).toBe(new Date(2025, 2, 15, 1, 0).getTime());
+  });
+
+  it("finds yesterday's window for a class still running after midnight", () => {
+    const window = resolveCurrentWindow(new Date(2025, 2, 15, 0, 30), '22:00', '01:00');
+    expect(window.scheduledStart).toBe(new Date(2025, 2, 14, 22, 0).getTime());
+  });
+
+  it('round-trips firmware timestamps', () => {
+    const at = new Date(2025, 2, 14, 8, 5, 9);
+    expect(toRTDBTimestamp(at)).toBe('2025_03_14_080509');
+    expect(fromRTDBTimestamp(toRTDBTimestamp(at))).toBe(at.getTime());
+    expect(fromRTDBTimestamp('not a time')).toBeNull();
+  });
+
+  it('lists a firmware key for each day the class spans', () => {
+    expect(firmwareRecordKeys(makeSession())).toEqual(['2025_03_14_IT101_BSIT-1A_GLE-201']);
+    const overnight = makeSession({
+      scheduledStart: new Date(2025, 2, 14, 22, 0).getTime(),
+      scheduledEnd: new Date(2025, 2, 15, 1, 0).getTime(),
+    });
+    expect(firmwareRecordKeys(overnight)).toEqual([
+      '2025_03_14_IT101_BSIT-1A_GLE-201',
+      '2025_03_15_IT101_BSIT-1A_GLE-201',
+    ]);
+  });
+});
+
+describe('closeAttendanceSession', () => {
+  it('has the server finalize the class and returns its summary', async () => {
+    const summary = { present: 1, late: 0, absent: 0, earlyLeave: 0, total: 1, statuses: { 'card-1': 'present' } };
+    const callable = (httpsCallable as unknown as () => jest.Mock)();
+    callable.mockResolvedValue({ data: { state: 'finalized', summary } });
+
+    expect(await closeAttendanceSession('session-1')).toEqual(summary);
+    expect(callable).toHaveBeenCalledWith({ sessionId: 'session-1' });
+  });
+});
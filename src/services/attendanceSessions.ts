@@ -0,0 +1,177 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../firebase';
+import {
+  AttendanceSessionState,
+  FinalizedAttendanceStatus,
+  RTDBAttendanceRecord,
+  RTDBAttendanceSession,
+  RTDBSessionRosterEntry,
+  RTDBSessionSummary,
+} from '../types/rtdb';
+import { getAttendanceSession, getSectionSessions, writeAttendanceRecord } from './rtdbRepository';
+
+// Sessions move from open through grace and closed to finalized on the
+// server (functions/src/attendanceSessions.ts); the web app only closes them,
+// through closeAttendanceSession below.
+
+export class SessionLockedError extends Error {
+  constructor(sessionId: string) {
+    super(`Session ${sessionId} is finalized and can no longer be edited`);
+    this.name = 'SessionLockedError';
+  }
+}
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+// Turns a schedule's HH:mm bounds into absolute times for the class that starts
+// on `date`. A class whose end time is not after its start time runs past
+// midnight, so its end lands on the following day.
+export const resolveScheduleWindow = (
+  date: Date,
+  startTime: string,
+  endTime: string
+): { scheduledStart: number; scheduledEnd: number } => {
+  const start = new Date(date);
+  start.setHours(0, toMinutes(startTime), 0, 0);
+  const end = new Date(date);
+  end.setHours(0, toMinutes(endTime), 0, 0);
+  if (end.getTime() <= start.getTime()) {
+    end.setDate(end.getDate() + 1);
+  }
+  return { scheduledStart: start.getTime(), scheduledEnd: end.getTime() };
+};
+
+// The window of the class running at `now`. A class that started yesterday
+// evening and is still running belongs to yesterday's window.
+export const resolveCurrentWindow = (
+  now: Date,
+  startTime: string,
+  endTime: string
+): { scheduledStart: number; scheduledEnd: number } => {
+  const window = resolveScheduleWindow(now, startTime, endTime);
+  if (window.scheduledStart > now.getTime()) {
+    const yesterday = new Date(now);
+    yesterday.setDate(yesterday.getDate() - 1);
+    const previous = resolveScheduleWindow(yesterday, startTime, endTime);
+    if (previous.scheduledEnd > now.getTime()) {
+      return previous;
+    }
+  }
+  return window;
+};
+
+export const isSessionActive = (session: RTDBAttendanceSession): boolean =>
+  session.state === 'open' || session.state === 'grace';
+
+// Local YYYY_MM_DD, the date prefix of RTDB timestamps.
+export const toDateKey = (date: Date): string =>
+  [
+    date.getFullYear(),
+    (date.getMonth() + 1).toString().padStart(2, '0'),
+    date.getDate().toString().padStart(2, '0'),
+  ].join('_');
+
+// Full YYYY_MM_DD_HHMMSS timestamp as written by the firmware.
+export const toRTDBTimestamp = (date: Date): string =>
+  `${toDateKey(date)}_${[date.getHours(), date.getMinutes(), date.getSeconds()]
+    .map((part) => part.toString().padStart(2, '0'))
+    .join('')}`;
+
+export const fromRTDBTimestamp = (timestamp: string): number | null => {
+  const match = /^(\d{4})_(\d{2})_(\d{2})_(\d{2})(\d{2})(\d{2})?$/.exec(timestamp || '');
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  return new Date(year, month - 1, day, hours, minutes, seconds || 0).getTime();
+};
+
+// Date of the day the session started, used for the `date` field of student
+// records so a class crossing midnight keeps one date.
+export const sessionDateKey = (session: RTDBAttendanceSession): string =>
+  toDateKey(new Date(session.scheduledStart));
+
+// The session a stand-in opened offline resolves to. Sessions themselves
+// are opened by the openAttendanceSessions function as each class starts.
+export interface OpenSessionParams {
+  schedule: RTDBAttendanceSession['schedule'];
+  roomId: string;
+  instructor: RTDBAttendanceSession['instructor'];
+  roster: Record<string, RTDBSessionRosterEntry>;
+}
+
+// The section's active session covering `now`, or null when none has been
+// opened for the class.
+export const findClassSession = async (
+  schedule: Pick<RTDBAttendanceSession['schedule'], 'sectionId' | 'subjectCode'>,
+  now: Date = new Date()
+): Promise<RTDBAttendanceSession | null> =>
+  Object.values(await getSectionSessions(schedule.sectionId)).find(
+    (session) =>
+      isSessionActive(session) &&
+      session.schedule.subjectCode === schedule.subjectCode &&
+      session.scheduledStart <= now.getTime() &&
+      now.getTime() < session.scheduledEnd + session.policy.graceMinutes * 60 * 1000
+  ) || null;
+
+// Writes a student's record for the session unless it has been finalized.
+// Corrections to finalized sessions go through the audited correction flow.
+export const recordSessionAttendance = async (
+  sessionId: string,
+  rfidUid: string,
+  record: RTDBAttendanceRecord
+): Promise<void> => {
+  const session = await getAttendanceSession(sessionId);
+  if (!session) {
+    throw new Error(`Session ${sessionId} not found`);
+  }
+  if (session.state === 'finalized') {
+    throw new SessionLockedError(sessionId);
+  }
+  await writeAttendanceRecord(rfidUid, sessionId, record);
+};
+
+// Key the firmware files a tap under: the tap's date, then the subject code,
+// section and room names of the class running at the time.
+export const firmwareRecordKey = (dateKey: string, session: RTDBAttendanceSession): string =>
+  `${dateKey}_${session.schedule.subjectCode}_${session.schedule.sectionName}_${session.roomId}`;
+
+// Firmware keys a student's tap for the session may be under, one per day the
+// class spans.
+export const firmwareRecordKeys = (session: RTDBAttendanceSession): string[] =>
+  Array.from(
+    new Set([toDateKey(new Date(session.scheduledStart)), toDateKey(new Date(session.scheduledEnd))])
+  ).map((dateKey) => firmwareRecordKey(dateKey, session));
+
+const closeAttendanceSessionCallable = httpsCallable<
+  { sessionId: string },
+  { state: AttendanceSessionState; summary: RTDBSessionSummary | null }
+>(functions, 'closeAttendanceSession');
+
+// Closes the class and has the server finalize it: door taps are classified,
+// students who never tapped are marked Absent and the session is locked.
+// Resolves to the summary the server wrote.
+export const closeAttendanceSession = async (sessionId: string): Promise<RTDBSessionSummary | null> => {
+  const result = await closeAttendanceSessionCallable({ sessionId });
+  return result.data.summary;
+};
+
+// Mirrors `StudentSessionStatus` in functions/src/attendanceSessions.ts.
+export interface StudentSessionStatus {
+  sessionId: string;
+  sectionId: string;
+  subjectCode: string;
+  scheduledStart: number;
+  status: FinalizedAttendanceStatus;
+}
+
+const getMyAttendanceHistoryCallable = httpsCallable<void, { sessions: StudentSessionStatus[] }>(
+  functions,
+  'getMyAttendanceHistory'
+);
+
+// The signed-in student's status in each finalized session of their sections,
+// newest first. Students cannot read the sessions, which hold the whole class.
+export const getMyAttendanceHistory = async (): Promise<StudentSessionStatus[]> =>
+  (await getMyAttendanceHistoryCallable()).data.sessions;
@@ -0,0 +1,37 @@
+import { collection, limit, onSnapshot, orderBy, query } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../firebase';
+import { AuditCategory, AuditChainReport, AuditEntry } from '../types';
+
+export const AUDIT_CATEGORY_LABELS: Record<AuditCategory, string> = {
+  door_access: 'Door Access',
+  rfid_denied: 'Card Denied',
+  tamper: 'Tamper',
+  admin_action: 'Admin Action',
+  auth: 'Sign-in',
+  system: 'System',
+};
+
+export const CHAIN_BREAK_REASONS: Record<NonNullable<AuditChainReport['firstBreak']>['reason'], string> = {
+  missing: 'is missing (deleted)',
+  altered: 'was edited after it was recorded',
+  relinked: 'does not follow the entry before it',
+  truncated: 'and later entries were removed',
+};
+
+const verifyAuditLogCallable = httpsCallable<void, AuditChainReport>(functions, 'verifyAuditLog');
+
+// Newest first; the entry id is the zero-padded sequence number.
+export const subscribeToAuditLog = (
+  count: number,
+  onData: (entries: AuditEntry[]) => void,
+  onError: (error: Error) => void
+) =>
+  onSnapshot(
+    query(collection(db, 'auditLog'), orderBy('seq', 'desc'), limit(count)),
+    (snapshot) => onData(snapshot.docs.map((entry) => entry.data() as AuditEntry)),
+    onError
+  );
+
+// Runs on the server, which reads the whole chain and the head pointer.
+export const verifyAuditLog = async (): Promise<AuditChainReport> => (await verifyAuditLogCallable()).data;
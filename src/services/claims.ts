@@ -0,0 +1,38 @@
+import { User } from 'firebase/auth';
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../firebase';
+import { AccessRole, Permission } from '../types';
+
+// Mirrors `RoleClaims` in functions/src/claims.ts.
+export interface RoleClaims {
+  role: 'admin' | 'instructor' | 'student';
+  accessRole?: AccessRole;
+  permissions?: Permission[];
+  department?: string;
+}
+
+const ROLES: RoleClaims['role'][] = ['admin', 'instructor', 'student'];
+
+const refreshClaimsCallable = httpsCallable<void, { claims: RoleClaims | null }>(functions, 'refreshClaims');
+
+const parseClaims = (claims: Record<string, unknown>): RoleClaims | null =>
+  ROLES.includes(claims.role as RoleClaims['role'])
+    ? {
+        role: claims.role as RoleClaims['role'],
+        accessRole: claims.accessRole as AccessRole | undefined,
+        permissions: Array.isArray(claims.permissions) ? (claims.permissions as Permission[]) : [],
+        department: typeof claims.department === 'string' ? claims.department : undefined,
+      }
+    : null;
+
+/**
+ * Reads the role from the signed ID token, which nothing on the client can
+ * alter. Accounts created before claims existed have the server issue them
+ * once, after which the token is fetched again.
+ */
+export const getRoleClaims = async (user: User, forceRefresh: boolean = false): Promise<RoleClaims | null> => {
+  const claims = parseClaims((await user.getIdTokenResult(forceRefresh)).claims);
+  if (claims) return claims;
+  const { data } = await refreshClaimsCallable();
+  return data.claims ? parseClaims((await user.getIdTokenResult(true)).claims) : null;
+};
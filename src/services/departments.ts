@@ -0,0 +1,24 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../firebase';
+import { AttendanceCounts, DepartmentOverview } from '../types';
+
+const getDepartmentOverviewCallable = httpsCallable<
+  { department?: string; days?: number },
+  { departments: string[]; overview: DepartmentOverview | null }
+>(functions, 'getDepartmentOverview');
+
+// Department heads are always given their own department, whatever is asked
+// for; admins and report viewers get the one they pick, or the first.
+export const fetchDepartmentOverview = async (
+  department: string,
+  days: number
+): Promise<{ departments: string[]; overview: DepartmentOverview | null }> => {
+  const result = await getDepartmentOverviewCallable({ department: department || undefined, days });
+  return result.data;
+};
+
+// Late arrivals still count as attended.
+export const attendanceRate = ({ present, late, absent }: AttendanceCounts): number | null => {
+  const total = present + late + absent;
+  return total > 0 ? Math.round(((present + late) / total) * 100) : null;
+};
@@ -0,0 +1,229 @@
+import { EnergyTariff, RoomCircuit } from '../types';
+import {
+  DEFAULT_ENERGY_TARIFF,
+  DEFAULT_SCALING_FACTOR,
+  accountSession,
+  attributeToCircuits,
+  billEnergy,
+  billSamples,
+  calibrateScalingFactor,
+  counterDeltaKWh,
+  energyByCategory,
+  integrateEnergyKWh,
+  rateAt,
+  scalingFactorFor,
+  summarizeAccounts,
+  validateEnergyTariff,
+} from './energyAccounting';
+
+const MINUTE = 60 * 1000;
+// 2025-03-14 (a Friday) 08:00 Philippine time.
+const FRIDAY_8AM = Date.UTC(2025, 2, 14, 0, 0, 0);
+const SATURDAY_8AM = FRIDAY_8AM + 24 * 60 * MINUTE;
+
+// One sample a minute at a constant draw.
+const steady = (start: number, minutes: number, power: number) =>
+  Array.from({ length: minutes + 1 }, (_, i) => ({ at: start + i * MINUTE, power }));
+
+const flat = (ratePerKWh: number, demandChargePerKW = 0): EnergyTariff => ({
+  ...DEFAULT_ENERGY_TARIFF,
+  ratePerKWh,
+  demandChargePerKW,
+});
+
+const timeOfUse: EnergyTariff = {
+  kind: 'time_of_use',
+  ratePerKWh: 10,
+  periods: [
+    { label: 'Peak', startHour: 8, endHour: 18, ratePerKWh: 15, weekdaysOnly: true },
+    { label: 'Night', startHour: 22, endHour: 6, ratePerKWh: 8, weekdaysOnly: false },
+  ],
+  demandChargePerKW: 0,
+  demandIntervalMinutes: 15,
+};
+
+describe('integrateEnergyKWh', () => {
+  it('integrates a constant draw', () => {
+    expect(integrateEnergyKWh(steady(FRIDAY_8AM, 60, 1000))).toBeCloseTo(1);
+  });
+
+  it('uses trapezoids between samples', () => {
+    const samples = [
+      { at: FRIDAY_8AM, power: 0 },
+      { at: FRIDAY_8AM + 4 * MINUTE, power: 600 },
+    ];
+    expect(integrateEnergyKWh(samples)).toBeCloseTo(0.02);
+  });
+
+  it('sorts samples and skips gaps longer than the limit', () => {
+    const samples = [...steady(FRIDAY_8AM + 120 * MINUTE, 30, 2000), ...steady(FRIDAY_8AM, 30, 2000)];
+    expect(integrateEnergyKWh(samples)).toBeCloseTo(2);
+  });
+
+  it('returns 0 for fewer than two samples', () => {
+    expect(integrateEnergyKWh([])).toBe(0);
+    expect(integrateEnergyKWh([{ at: FRIDAY_8AM, power: 500 }])).toBe(0);
+  });
+});
+
+describe('tariffs', () => {
+  it('charges a flat rate once per kWh, not per hour as well', () => {
+    const bill = billSamples(steady(FRIDAY_8AM, 120, 1000), flat(14));
+    expect(bill.energyKWh).toBeCloseTo(2);
+    expect(bill.energyCost).toBeCloseTo(28);
+    expect(bill.totalCost).toBeCloseTo(28);
+  });
+
+  it('picks the time-of-use rate by local hour and weekday', () => {
+    expect(rateAt(timeOfUse, FRIDAY_8AM)).toBe(15);
+    expect(rateAt(timeOfUse, SATURDAY_8AM)).toBe(10);
+    expect(rateAt(timeOfUse, FRIDAY_8AM + 15 * 60 * MINUTE)).toBe(8);
+    expect(rateAt(timeOfUse, FRIDAY_8AM - 3 * 60 * MINUTE)).toBe(8);
+  });
+
+  it('splits a bill across time-of-use periods', () => {
+    // 07:00 to 09:00 on a Friday: one hour standard, one hour peak.
+    const bill = billSamples(steady(FRIDAY_8AM - 60 * MINUTE, 120, 1000), timeOfUse);
+    expect(bill.byPeriod.Standard.energyKWh).toBeCloseTo(1);
+    expect(bill.byPeriod.Peak.energyKWh).toBeCloseTo(1);
+    expect(bill.energyCost).toBeCloseTo(25);
+  });
+
+  it('charges demand on the highest interval average', () => {
+    const samples = [...steady(FRIDAY_8AM, 15, 1000), ...steady(FRIDAY_8AM + 16 * MINUTE, 15, 3000)];
+    const bill = billSamples(samples, flat(10, 100));
+    expect(bill.peakDemandKW).toBeCloseTo(2.933, 2);
+    expect(bill.demandCharge).toBeCloseTo(bill.peakDemandKW * 100);
+    expect(bill.totalCost).toBeCloseTo(bill.energyCost + bill.demandCharge);
+  });
+
+  it('prices a bare kWh figure without demand', () => {
+    const bill = billEnergy(3, flat(12, 500), FRIDAY_8AM);
+    expect(bill.energyCost).toBeCloseTo(36);
+    expect(bill.demandCharge).toBe(0);
+  });
+
+  it('validates tariffs', () => {
+    expect(validateEnergyTariff(DEFAULT_ENERGY_TARIFF)).toBeNull();
+    expect(validateEnergyTariff(timeOfUse)).toBeNull();
+    expect(validateEnergyTariff(flat(-1))).toMatch(/negative/);
+    expect(validateEnergyTariff({ ...timeOfUse, periods: [] })).toMatch(/at least one/);
+    expect(
+      validateEnergyTariff({ ...timeOfUse, periods: [{ ...timeOfUse.periods[0], startHour: 8, endHour: 8 }] })
+    ).toMatch(/period/);
+  });
+});
+
+describe('scaling', () => {
+  it('applies a room factor to energy and demand', () => {
+    const bill = billSamples(steady(FRIDAY_8AM, 60, 100), flat(10, 50), 20);
+    expect(bill.energyKWh).toBeCloseTo(2);
+    expect(bill.peakDemandKW).toBeCloseTo(2);
+  });
+
+  it('calibrates from a sub-meter reading', () => {
+    expect(calibrateScalingFactor(36, 1.5)).toBeCloseTo(24);
+    expect(() => calibrateScalingFactor(36, 0)).toThrow();
+    expect(() => calibrateScalingFactor(0, 1)).toThrow();
+  });
+
+  it('falls back to the default factor for uncalibrated rooms', () => {
+    expect(scalingFactorFor(undefined)).toBe(DEFAULT_SCALING_FACTOR);
+    expect(scalingFactorFor({ scalingFactor: 0 })).toBe(DEFAULT_SCALING_FACTOR);
+    expect(scalingFactorFor({ scalingFactor: 12.5 })).toBe(12.5);
+  });
+});
+
+describe('accounting', () => {
+  const session = (id: string, roomName: string, instructorName: string, power: number) => ({
+    id,
+    roomName,
+    instructorName,
+    start: FRIDAY_8AM,
+    end: FRIDAY_8AM + 60 * MINUTE,
+    samples: steady(FRIDAY_8AM - 30 * MINUTE, 120, power),
+  });
+
+  it('integrates only the samples inside the session', () => {
+    const account = accountSession(session('a', 'Room 701', 'Cruz', 1000), flat(10), 2);
+    expect(account.source).toBe('samples');
+    expect(account.measuredKWh).toBeCloseTo(1);
+    expect(account.bill.energyKWh).toBeCloseTo(2);
+  });
+
+  it('falls back to the end-of-class counter without samples', () => {
+    const account = accountSession({ ...session('b', 'Room 701', 'Cruz', 0), samples: [], counterKWh: 0.5 }, flat(10), 20);
+    expect(account.source).toBe('counter');
+    expect(account.bill.energyKWh).toBeCloseTo(10);
+    expect(account.bill.energyCost).toBeCloseTo(100);
+  });
+
+  it('takes the counter difference, counting from zero after a restart', () => {
+    expect(counterDeltaKWh(120.4, 121.1)).toBeCloseTo(0.7);
+    expect(counterDeltaKWh(120.4, 0.3)).toBeCloseTo(0.3);
+    expect(counterDeltaKWh(NaN, 121.1)).toBe(0);
+  });
+
+  it('summarizes by room and instructor, charging demand once per group', () => {
+    const tariff = flat(10, 100);
+    const accounts = [
+      accountSession(session('a', 'Room 701', 'Cruz', 1000), tariff, 1),
+      accountSession(session('b', 'Room 701', 'Reyes', 2000), tariff, 1),
+      accountSession(session('c', 'Room 702', 'Cruz', 500), tariff, 1),
+    ];
+    const byRoom = summarizeAccounts(accounts, (account) => account.session.roomName, tariff);
+    expect(byRoom.map((summary) => summary.key)).toEqual(['Room 701', 'Room 702']);
+    expect(byRoom[0].sessions).toBe(2);
+    expect(byRoom[0].energyKWh).toBeCloseTo(3);
+    expect(byRoom[0].peakDemandKW).toBeCloseTo(2);
+    expect(byRoom[0].totalCost).toBeCloseTo(30 + 200);
+
+    const byInstructor = summarizeAccounts(accounts, (account) => account.session.instructorName, tariff);
+    expect(byInstructor.find((summary) => summary.key === 'Cruz')?.energyKWh).toBeCloseTo(1.5);
+  });
+});
+
+describe('circuits', () => {
+  const circuit = (id: string, category: RoomCircuit['category'], ratedWatts: number, pzemChannel: number | null = 1) => ({
+    id,
+    name: id,
+    category,
+    ratedWatts,
+    relayChannel: null,
+    pzemChannel,
+  });
+
+  it('splits the measured energy by rated wattage', () => {
+    const attributed = attributeToCircuits(
+      [circuit('lights', 'lighting', 500), circuit('ac', 'hvac', 1500)],
+      4,
+      2,
+      flat(10),
+      FRIDAY_8AM
+    );
+    expect(attributed.map((item) => item.energyKWh)).toEqual([1, 3]);
+    expect(attributed[1].share).toBeCloseTo(0.75);
+    expect(attributed[1].savingsCost).toBeCloseTo(30);
+    expect(attributed.every((item) => item.source === 'metered')).toBe(true);
+  });
+
+  it('estimates circuits the room meter does not see from their rating', () => {
+    const attributed = attributeToCircuits(
+      [circuit('lights', 'lighting', 500), circuit('pcs', 'computers', 1000, null), circuit('pcs2', 'computers', 500, 2)],
+      1,
+      3,
+      flat(10),
+      FRIDAY_8AM
+    );
+    expect(attributed[0].energyKWh).toBeCloseTo(1);
+    expect(attributed[1]).toMatchObject({ source: 'rated', energyKWh: 3 });
+    expect(attributed[2].energyKWh).toBeCloseTo(1.5);
+    expect(energyByCategory(attributed)).toEqual({ lighting: 1, projection: 0, computers: 4.5, hvac: 0, other: 0 });
+  });
+
+  it('attributes nothing to metered circuits without a rating', () => {
+    const attributed = attributeToCircuits([circuit('spare', 'other', 0)], 2, 1, flat(10), FRIDAY_8AM);
+    expect(attributed[0].energyKWh).toBe(0);
+    expect(attributed[0].share).toBe(0);
+  });
+});
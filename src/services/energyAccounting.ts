@@ -0,0 +1,304 @@
+import { DeviceCategory, EnergyTariff, RoomCircuit, RoomEnergyCalibration, TariffPeriod } from '../types';
+
+// Energy accounting for PZEM readings: integrates power over time, prices the
+// result with the configured tariff and scales the prototype's readings to the
+// room. Pure functions only; loading and saving settings is in energySettings.
+
+export const DEFAULT_ENERGY_TARIFF: EnergyTariff = {
+  kind: 'flat',
+  ratePerKWh: 14,
+  periods: [],
+  demandChargePerKW: 0,
+  demandIntervalMinutes: 15,
+};
+
+// Used for rooms that have not been calibrated yet.
+export const DEFAULT_SCALING_FACTOR = 20;
+
+// Samples further apart than this are not joined; the room was off or the
+// device was offline in between. The firmware samples every minute.
+export const MAX_SAMPLE_GAP_MS = 5 * 60 * 1000;
+
+export const STANDARD_PERIOD_LABEL = 'Standard';
+
+// The room's own PZEM; its readings cover every circuit wired through it.
+export const ROOM_PZEM_CHANNEL = 1;
+
+// Tariff hours are local; the campus and its devices are on Philippine time.
+const LOCAL_UTC_OFFSET_MS = 8 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface PowerSample {
+  at: number; // epoch milliseconds
+  power: number; // watts
+}
+
+export interface EnergyBill {
+  energyKWh: number;
+  energyCost: number;
+  peakDemandKW: number;
+  demandCharge: number;
+  totalCost: number;
+  byPeriod: Record<string, { energyKWh: number; cost: number }>;
+}
+
+export interface EnergySession {
+  id: string;
+  roomName: string;
+  instructorName: string;
+  start: number;
+  end: number;
+  samples: PowerSample[];
+  // Fallback when no samples cover the session: what the kWh counter advanced
+  // over it, from counterDeltaKWh.
+  counterKWh?: number;
+}
+
+export interface SessionAccount {
+  session: EnergySession;
+  source: 'samples' | 'counter' | 'none';
+  measuredKWh: number;
+  scalingFactor: number;
+  bill: EnergyBill;
+}
+
+export interface EnergySummary {
+  key: string;
+  sessions: number;
+  measuredKWh: number;
+  energyKWh: number;
+  energyCost: number;
+  peakDemandKW: number;
+  demandCharge: number;
+  totalCost: number;
+}
+
+export interface CircuitEnergy {
+  circuit: RoomCircuit;
+  energyKWh: number;
+  // 'metered': a share of the room's reading; 'rated': the rating over the
+  // period, for circuits the room's PZEM does not see.
+  source: 'metered' | 'rated';
+  share: number; // of everything attributed, 0 to 1
+  // What switching the circuit off for the period would have saved.
+  savingsCost: number;
+}
+
+interface EnergySegment {
+  at: number; // midpoint, which decides the rate and demand interval
+  kWh: number;
+}
+
+// Trapezoids between neighbouring samples, skipping gaps longer than maxGapMs.
+const energySegments = (samples: PowerSample[], maxGapMs: number): EnergySegment[] => {
+  const sorted = samples.filter((sample) => Number.isFinite(sample.at)).sort((a, b) => a.at - b.at);
+  const segments: EnergySegment[] = [];
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1];
+    const current = sorted[i];
+    const gap = current.at - previous.at;
+    if (gap <= 0 || gap > maxGapMs) continue;
+    const averageWatts = (Math.max(previous.power, 0) + Math.max(current.power, 0)) / 2;
+    segments.push({ at: previous.at + gap / 2, kWh: (averageWatts * gap) / HOUR_MS / 1000 });
+  }
+  return segments;
+};
+
+export const integrateEnergyKWh = (samples: PowerSample[], maxGapMs: number = MAX_SAMPLE_GAP_MS): number =>
+  energySegments(samples, maxGapMs).reduce((total, segment) => total + segment.kWh, 0);
+
+const inPeriod = (period: TariffPeriod, at: number): boolean => {
+  const local = new Date(at + LOCAL_UTC_OFFSET_MS);
+  const hour = local.getUTCHours();
+  const day = local.getUTCDay();
+  if (period.weekdaysOnly && (day === 0 || day === 6)) return false;
+  return period.startHour <= period.endHour
+    ? hour >= period.startHour && hour < period.endHour
+    : hour >= period.startHour || hour < period.endHour;
+};
+
+// The time-of-use period covering a moment; the first match wins. Flat
+// tariffs, and moments outside every period, have none.
+export const tariffPeriodAt = (tariff: EnergyTariff, at: number): TariffPeriod | null =>
+  tariff.kind === 'time_of_use' ? tariff.periods.find((period) => inPeriod(period, at)) || null : null;
+
+export const rateAt = (tariff: EnergyTariff, at: number): number =>
+  tariffPeriodAt(tariff, at)?.ratePerKWh ?? tariff.ratePerKWh;
+
+const billSegments = (segments: EnergySegment[], tariff: EnergyTariff, scalingFactor: number): EnergyBill => {
+  const byPeriod: EnergyBill['byPeriod'] = {};
+  const intervalMs = Math.max(tariff.demandIntervalMinutes, 1) * 60 * 1000;
+  const intervals = new Map<number, number>();
+  let energyKWh = 0;
+  let energyCost = 0;
+
+  segments.forEach((segment) => {
+    const kWh = segment.kWh * scalingFactor;
+    const period = tariffPeriodAt(tariff, segment.at);
+    const rate = period?.ratePerKWh ?? tariff.ratePerKWh;
+    const label = period?.label || STANDARD_PERIOD_LABEL;
+    const share = byPeriod[label] || { energyKWh: 0, cost: 0 };
+    byPeriod[label] = { energyKWh: share.energyKWh + kWh, cost: share.cost + kWh * rate };
+    energyKWh += kWh;
+    energyCost += kWh * rate;
+    const interval = Math.floor(segment.at / intervalMs);
+    intervals.set(interval, (intervals.get(interval) || 0) + kWh);
+  });
+
+  // Demand is the energy in an interval over the interval's full length, as
+  // a utility meter averages it.
+  const peakDemandKW = Math.max(0, ...Array.from(intervals.values()).map((kWh) => kWh / (intervalMs / HOUR_MS)));
+  const demandCharge = peakDemandKW * tariff.demandChargePerKW;
+  return { energyKWh, energyCost, peakDemandKW, demandCharge, totalCost: energyCost + demandCharge, byPeriod };
+};
+
+export const billSamples = (
+  samples: PowerSample[],
+  tariff: EnergyTariff,
+  scalingFactor = 1,
+  maxGapMs: number = MAX_SAMPLE_GAP_MS
+): EnergyBill => billSegments(energySegments(samples, maxGapMs), tariff, scalingFactor);
+
+// Prices a kWh figure with no readings behind it, such as a counter value, at
+// the rate in force at `at`. There is no demand to charge without readings.
+export const billEnergy = (kWh: number, tariff: EnergyTariff, at: number, scalingFactor = 1): EnergyBill =>
+  billSegments(kWh > 0 ? [{ at, kWh }] : [], { ...tariff, demandChargePerKW: 0 }, scalingFactor);
+
+export const scalingFactorFor = (calibration?: Partial<RoomEnergyCalibration> | null): number => {
+  const factor = Number(calibration?.scalingFactor);
+  return Number.isFinite(factor) && factor > 0 ? factor : DEFAULT_SCALING_FACTOR;
+};
+
+// The factor that makes what the PZEM measured match the building sub-meter
+// over the same period.
+export const calibrateScalingFactor = (referenceKWh: number, measuredKWh: number): number => {
+  if (!Number.isFinite(referenceKWh) || referenceKWh <= 0) {
+    throw new Error('The sub-meter reading must be more than 0 kWh');
+  }
+  if (!Number.isFinite(measuredKWh) || measuredKWh <= 0) {
+    throw new Error('The prototype must have measured more than 0 kWh over the same period');
+  }
+  return referenceKWh / measuredKWh;
+};
+
+// Returns a message describing the first problem, or null when the tariff is usable.
+export const validateEnergyTariff = (tariff: EnergyTariff): string | null => {
+  const rates = [tariff.ratePerKWh, tariff.demandChargePerKW, ...tariff.periods.map((period) => period.ratePerKWh)];
+  if (rates.some((rate) => !Number.isFinite(rate) || rate < 0)) return 'Rates cannot be negative';
+  if (!Number.isFinite(tariff.demandIntervalMinutes) || tariff.demandIntervalMinutes < 1) {
+    return 'The demand interval must be at least a minute';
+  }
+  if (tariff.kind === 'time_of_use') {
+    if (tariff.periods.length === 0) return 'Add at least one time-of-use period';
+    const invalidPeriod = tariff.periods.find(
+      (period) =>
+        !period.label.trim() ||
+        !Number.isInteger(period.startHour) ||
+        !Number.isInteger(period.endHour) ||
+        period.startHour < 0 ||
+        period.startHour > 23 ||
+        period.endHour < 0 ||
+        period.endHour > 24 ||
+        period.startHour === period.endHour
+    );
+    if (invalidPeriod) return 'Each period needs a name and different start and end hours between 0 and 24';
+  }
+  return null;
+};
+
+// What the PZEM's cumulative counter advanced between two readings. A reading
+// below the one before means the PZEM restarted, so it counts from zero.
+export const counterDeltaKWh = (startKWh: number, endKWh: number): number => {
+  if (!Number.isFinite(startKWh) || !Number.isFinite(endKWh)) return 0;
+  return endKWh >= startKWh ? endKWh - startKWh : Math.max(endKWh, 0);
+};
+
+// Integrates the samples inside the session; without any, falls back to what
+// the counter advanced over the class.
+export const accountSession = (session: EnergySession, tariff: EnergyTariff, scalingFactor: number): SessionAccount => {
+  const samples = session.samples.filter((sample) => sample.at >= session.start && sample.at <= session.end);
+  const segments = energySegments(samples, MAX_SAMPLE_GAP_MS);
+  if (segments.length > 0) {
+    const bill = billSegments(segments, tariff, scalingFactor);
+    return { session, source: 'samples', measuredKWh: bill.energyKWh / scalingFactor, scalingFactor, bill };
+  }
+  const counterKWh = session.counterKWh || 0;
+  return {
+    session,
+    source: counterKWh > 0 ? 'counter' : 'none',
+    measuredKWh: counterKWh,
+    scalingFactor,
+    bill: billEnergy(counterKWh, tariff, session.end, scalingFactor),
+  };
+};
+
+// Totals per room, instructor or any other key. Demand is charged once per
+// group on its highest session peak, not summed across sessions.
+export const summarizeAccounts = (
+  accounts: SessionAccount[],
+  keyOf: (account: SessionAccount) => string,
+  tariff: EnergyTariff
+): EnergySummary[] => {
+  const groups = new Map<string, EnergySummary>();
+  accounts.forEach((account) => {
+    const key = keyOf(account);
+    const summary = groups.get(key) || {
+      key,
+      sessions: 0,
+      measuredKWh: 0,
+      energyKWh: 0,
+      energyCost: 0,
+      peakDemandKW: 0,
+      demandCharge: 0,
+      totalCost: 0,
+    };
+    summary.sessions += 1;
+    summary.measuredKWh += account.measuredKWh;
+    summary.energyKWh += account.bill.energyKWh;
+    summary.energyCost += account.bill.energyCost;
+    summary.peakDemandKW = Math.max(summary.peakDemandKW, account.bill.peakDemandKW);
+    groups.set(key, summary);
+  });
+  return Array.from(groups.values())
+    .map((summary) => {
+      const demandCharge = summary.peakDemandKW * tariff.demandChargePerKW;
+      return { ...summary, demandCharge, totalCost: summary.energyCost + demandCharge };
+    })
+    .sort((a, b) => b.energyKWh - a.energyKWh);
+};
+
+// Splits the room's measured (scaled) kWh across the circuits its PZEM sees
+// in proportion to their rated wattage. Circuits on other channels, or on
+// none, are estimated from their rating over `hours`.
+export const attributeToCircuits = (
+  circuits: RoomCircuit[],
+  measuredKWh: number,
+  hours: number,
+  tariff: EnergyTariff,
+  at: number,
+  channel: number = ROOM_PZEM_CHANNEL
+): CircuitEnergy[] => {
+  const meteredWatts = circuits
+    .filter((circuit) => circuit.pzemChannel === channel)
+    .reduce((total, circuit) => total + Math.max(circuit.ratedWatts, 0), 0);
+  const attributed = circuits.map((circuit) => {
+    const watts = Math.max(circuit.ratedWatts, 0);
+    if (circuit.pzemChannel === channel) {
+      const energyKWh = meteredWatts > 0 ? (Math.max(measuredKWh, 0) * watts) / meteredWatts : 0;
+      return { circuit, energyKWh, source: 'metered' as const };
+    }
+    return { circuit, energyKWh: (watts * Math.max(hours, 0)) / 1000, source: 'rated' as const };
+  });
+  const total = attributed.reduce((sum, item) => sum + item.energyKWh, 0);
+  return attributed.map((item) => ({
+    ...item,
+    share: total > 0 ? item.energyKWh / total : 0,
+    savingsCost: billEnergy(item.energyKWh, tariff, at).energyCost,
+  }));
+};
+
+export const energyByCategory = (attributed: CircuitEnergy[]): Record<DeviceCategory, number> =>
+  attributed.reduce(
+    (totals, item) => ({ ...totals, [item.circuit.category]: totals[item.circuit.category] + item.energyKWh }),
+    { lighting: 0, projection: 0, computers: 0, hvac: 0, other: 0 }
+  );
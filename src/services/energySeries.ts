@@ -0,0 +1,104 @@
+import { EnergyMetric, RTDBEnergyRollup, RTDBEnergySample } from '../types/rtdb';
+
+export const ENERGY_METRIC_LABELS: Record<EnergyMetric, { label: string; unit: string }> = {
+  power: { label: 'Power', unit: 'W' },
+  voltage: { label: 'Voltage', unit: 'V' },
+  current: { label: 'Current', unit: 'A' },
+  frequency: { label: 'Frequency', unit: 'Hz' },
+  powerFactor: { label: 'Power factor', unit: '' },
+};
+
+// Series keys are on the device's clock, which runs on Philippine time.
+const DEVICE_UTC_OFFSET_MS = 8 * 60 * 60 * 1000;
+
+export interface EnergyPoint extends Record<EnergyMetric, number> {
+  key: string;
+  at: number;
+  // Samples behind the point: one for a raw sample, the bucket's count for a rollup.
+  count: number;
+  // Energy used since the previous point.
+  energyKWh: number;
+  // Lowest and highest power within a rollup bucket; equal for raw samples.
+  powerMin: number;
+  powerMax: number;
+}
+
+export interface EnergyTotals {
+  energyKWh: number;
+  averagePowerW: number;
+  peakPowerW: number;
+  samples: number;
+}
+
+// Mirrors the server: these characters are not allowed in a key.
+export const energyRoomKey = (roomName: string): string => roomName.replace(/[.#$[\]/]/g, '_').trim();
+
+// "YYYYMMDD", "YYYYMMDDHH" or "YYYYMMDDHHMMSS" on the device's clock.
+export const energyKeyToMillis = (key: string): number => {
+  const part = (start: number, end: number) => Number(key.slice(start, end) || 0);
+  return Date.UTC(part(0, 4), part(4, 6) - 1, part(6, 8), part(8, 10), part(10, 12), part(12, 14)) - DEVICE_UTC_OFFSET_MS;
+};
+
+export const energyDayKey = (millis: number): string =>
+  new Date(millis + DEVICE_UTC_OFFSET_MS).toISOString().slice(0, 10).replace(/-/g, '');
+
+// A day's samples in time order. Each one's energy is the rise of the PZEM
+// counter since the one before; a drop means the PZEM was reset or swapped and
+// only starts a new baseline.
+export const samplePoints = (day: string, samples: Record<string, RTDBEnergySample>): EnergyPoint[] => {
+  let previousEnergy: number | null = null;
+  return Object.keys(samples)
+    .sort()
+    .map((time) => {
+      const sample = samples[time];
+      const energyKWh =
+        previousEnergy !== null && sample.energy >= previousEnergy ? sample.energy - previousEnergy : 0;
+      previousEnergy = sample.energy;
+      return {
+        key: `${day}${time}`,
+        at: energyKeyToMillis(`${day}${time}`),
+        count: 1,
+        voltage: sample.voltage,
+        current: sample.current,
+        power: sample.power,
+        frequency: sample.frequency,
+        powerFactor: sample.powerFactor,
+        energyKWh,
+        powerMin: sample.power,
+        powerMax: sample.power,
+      };
+    });
+};
+
+// Rollups in time order, with each metric averaged over its bucket.
+export const rollupPoints = (rollups: Record<string, RTDBEnergyRollup>): EnergyPoint[] =>
+  Object.keys(rollups)
+    .sort()
+    .map((key) => {
+      const rollup = rollups[key];
+      const average = (metric: EnergyMetric) => (rollup.count > 0 ? rollup[metric].sum / rollup.count : 0);
+      return {
+        key,
+        at: energyKeyToMillis(key),
+        count: rollup.count,
+        voltage: average('voltage'),
+        current: average('current'),
+        power: average('power'),
+        frequency: average('frequency'),
+        powerFactor: average('powerFactor'),
+        energyKWh: rollup.energyKWh,
+        powerMin: rollup.power.min,
+        powerMax: rollup.power.max,
+      };
+    });
+
+// Average power is weighted by how many samples each point stands for.
+export const energyTotals = (points: EnergyPoint[]): EnergyTotals => {
+  const samples = points.reduce((total, point) => total + point.count, 0);
+  return {
+    energyKWh: points.reduce((total, point) => total + point.energyKWh, 0),
+    averagePowerW: samples > 0 ? points.reduce((total, point) => total + point.power * point.count, 0) / samples : 0,
+    peakPowerW: points.reduce((peak, point) => Math.max(peak, point.powerMax), 0),
+    samples,
+  };
+};
@@ -0,0 +1,81 @@
+import { collection, doc, getDoc, getDocs, limit, query, setDoc, updateDoc, where } from 'firebase/firestore';
+import { db } from '../firebase';
+import { EnergyTariff, IdleEnergySettings, RoomCircuit, RoomEnergyCalibration } from '../types';
+import { DEFAULT_ENERGY_TARIFF, calibrateScalingFactor, validateEnergyTariff } from './energyAccounting';
+import { defaultCircuitsFor } from './roomCircuits';
+
+const tariffDoc = () => doc(db, 'settings', 'energyTariff');
+
+export const loadEnergyTariff = async (): Promise<EnergyTariff> => {
+  const snapshot = await getDoc(tariffDoc());
+  return { ...DEFAULT_ENERGY_TARIFF, ...(snapshot.exists() ? snapshot.data() : {}) };
+};
+
+export const saveEnergyTariff = async (tariff: EnergyTariff): Promise<void> => {
+  const problem = validateEnergyTariff(tariff);
+  if (problem) throw new Error(problem);
+  await setDoc(tariffDoc(), tariff);
+};
+
+// Matches the defaults the idle-energy functions fall back to.
+export const DEFAULT_IDLE_ENERGY_SETTINGS: IdleEnergySettings = {
+  baselineWatts: 30,
+  alertAfterMinutes: 15,
+};
+
+const idleEnergyDoc = () => doc(db, 'settings', 'idleEnergy');
+
+export const loadIdleEnergySettings = async (): Promise<IdleEnergySettings> => {
+  const snapshot = await getDoc(idleEnergyDoc());
+  return { ...DEFAULT_IDLE_ENERGY_SETTINGS, ...(snapshot.exists() ? snapshot.data() : {}) };
+};
+
+export const saveIdleEnergySettings = async (settings: IdleEnergySettings): Promise<void> => {
+  if (!Number.isFinite(settings.baselineWatts) || settings.baselineWatts < 0) {
+    throw new Error('The baseline cannot be negative');
+  }
+  if (!Number.isInteger(settings.alertAfterMinutes) || settings.alertAfterMinutes < 1) {
+    throw new Error('Alert after at least a minute');
+  }
+  await setDoc(idleEnergyDoc(), settings);
+};
+
+export interface RoomEnergyRecord {
+  roomId: string;
+  calibration: RoomEnergyCalibration | null;
+  circuits: RoomCircuit[];
+  // False when the circuits are defaults guessed from the room's facilities.
+  circuitsDeclared: boolean;
+}
+
+// Energy readings name rooms rather than reference room documents.
+export const fetchRoomEnergyRecord = async (roomName: string): Promise<RoomEnergyRecord | null> => {
+  const snapshot = await getDocs(query(collection(db, 'rooms'), where('name', '==', roomName), limit(1)));
+  const room = snapshot.docs[0];
+  if (!room) return null;
+  const data = room.data();
+  const circuitsDeclared = Array.isArray(data.circuits) && data.circuits.length > 0;
+  return {
+    roomId: room.id,
+    calibration: data.energyCalibration || null,
+    circuits: circuitsDeclared ? data.circuits : defaultCircuitsFor(data.facilities),
+    circuitsDeclared,
+  };
+};
+
+export const saveRoomCalibration = async (
+  roomId: string,
+  referenceKWh: number,
+  measuredKWh: number,
+  calibratedBy: string
+): Promise<RoomEnergyCalibration> => {
+  const calibration: RoomEnergyCalibration = {
+    scalingFactor: calibrateScalingFactor(referenceKWh, measuredKWh),
+    referenceKWh,
+    measuredKWh,
+    calibratedAt: new Date().toISOString(),
+    calibratedBy,
+  };
+  await updateDoc(doc(db, 'rooms', roomId), { energyCalibration: calibration });
+  return calibration;
+};
@@ -0,0 +1,77 @@
+import { User } from 'firebase/auth';
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../firebase';
+import { RoleClaims } from './claims';
+
+/**
+ * Two-step sign-in for staff, verified by the functions in functions/src/mfa.ts:
+ * - 'enroll': an admin who has not set it up yet and must before going on
+ * - 'verify': set up, but this sign-in has not passed the second step
+ * - 'verified': set up and passed
+ * - 'none': not set up and not required
+ */
+export type SecondFactorStatus = 'none' | 'enroll' | 'verify' | 'verified';
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUrl: string;
+}
+
+const startEnrollmentCallable = httpsCallable<void, MfaEnrollment>(functions, 'startMfaEnrollment');
+const confirmEnrollmentCallable = httpsCallable<{ code: string }, { recoveryCodes: string[] }>(
+  functions,
+  'confirmMfaEnrollment'
+);
+const verifyCallable = httpsCallable<{ code: string }, { recoveryCodesLeft: number }>(functions, 'verifyMfa');
+const regenerateCodesCallable = httpsCallable<void, { recoveryCodes: string[] }>(functions, 'regenerateRecoveryCodes');
+const disableCallable = httpsCallable<void, { disabled: boolean }>(functions, 'disableMfa');
+const resetCallable = httpsCallable<{ uid: string }, { reset: boolean }>(functions, 'resetMfa');
+
+// The claims carry the sign-in time that passed; a new sign-in has to pass again.
+export const secondFactorStatus = async (user: User, role: RoleClaims['role']): Promise<SecondFactorStatus> => {
+  const { claims } = await user.getIdTokenResult();
+  if (claims.mfaEnrolled === true) {
+    return Number(claims.mfaAuthTime) === Number(claims.auth_time) ? 'verified' : 'verify';
+  }
+  return role === 'admin' ? 'enroll' : 'none';
+};
+
+export const secondFactorPending = (status?: SecondFactorStatus) => status === 'enroll' || status === 'verify';
+
+export const startMfaEnrollment = async (): Promise<MfaEnrollment> => (await startEnrollmentCallable()).data;
+
+// Returns the recovery codes, which are shown this once.
+export const confirmMfaEnrollment = async (code: string): Promise<string[]> =>
+  (await confirmEnrollmentCallable({ code })).data.recoveryCodes;
+
+// Takes an authenticator code or a recovery code.
+export const verifySecondFactor = async (code: string): Promise<number> =>
+  (await verifyCallable({ code })).data.recoveryCodesLeft;
+
+export const regenerateRecoveryCodes = async (): Promise<string[]> => (await regenerateCodesCallable()).data.recoveryCodes;
+
+export const disableSecondFactor = async (): Promise<void> => {
+  await disableCallable();
+};
+
+export const resetSecondFactor = async (uid: string): Promise<void> => {
+  await resetCallable({ uid });
+};
+
+// Authenticator apps take the key in groups of four.
+export const formatSecret = (secret: string) => secret.match(/.{1,4}/g)?.join(' ') || secret;
+
+export const downloadRecoveryCodes = (codes: string[], account: string) => {
+  const text = [
+    `SmartEcoLock recovery codes for ${account}`,
+    'Each code signs you in once if you lose your authenticator.',
+    '',
+    ...codes,
+  ].join('\n');
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(new Blob([text], { type: 'text/plain;charset=utf-8;' }));
+  link.download = 'smartecolock-recovery-codes.txt';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
@@ -0,0 +1,326 @@
+import { addDoc, getDocs } from 'firebase/firestore';
+import { RTDBAttendanceRecord, RTDBAttendanceSession } from '../types/rtdb';
+import { getAttendanceRecord, getAttendanceSession } from './rtdbRepository';
+import {
+  SessionLockedError,
+  closeAttendanceSession,
+  findClassSession,
+  recordSessionAttendance,
+  toRTDBTimestamp,
+} from './attendanceSessions';
+import {
+  PendingChange,
+  QueuedAction,
+  QueuedAttendanceReport,
+  getPendingChanges,
+  isLocalSessionId,
+  queueChange,
+  queueOpenSession,
+  replayPendingChanges,
+} from './offlineQueue';
+
+jest.mock('../firebase', () => ({ db: {} }));
+jest.mock('firebase/firestore', () => ({
+  addDoc: jest.fn(),
+  collection: jest.fn(),
+  getDocs: jest.fn(),
+  query: jest.fn(),
+  where: jest.fn(),
+  Timestamp: { fromMillis: (millis: number) => ({ millis }) },
+}));
+jest.mock('firebase/functions', () => ({ httpsCallable: () => jest.fn() }));
+jest.mock('./rtdbRepository', () => ({
+  getAttendanceRecord: jest.fn(),
+  getAttendanceSession: jest.fn(),
+  subscribeToConnection: jest.fn(),
+}));
+jest.mock('./attendanceSessions', () => ({
+  ...jest.requireActual('./attendanceSessions'),
+  closeAttendanceSession: jest.fn(),
+  findClassSession: jest.fn(),
+  recordSessionAttendance: jest.fn(),
+}));
+
+// jsdom has no IndexedDB; this covers the part of it the queue uses.
+let stored: Map<number, PendingChange>;
+let nextId: number;
+
+const installIndexedDb = () => {
+  stored = new Map();
+  nextId = 1;
+  const settle = <T>(result: T) => ({ result } as IDBRequest<T>);
+  const store = {
+    getAll: () => settle(Array.from(stored.values()).map((change) => ({ ...change }))),
+    add: (value: Omit<PendingChange, 'id'>) => {
+      const id = nextId++;
+      stored.set(id, { ...value, id });
+      return settle(id);
+    },
+    put: (value: PendingChange) => {
+      stored.set(value.id, { ...value });
+      return settle(value.id);
+    },
+    delete: (id: number) => {
+      stored.delete(id);
+      return settle(undefined);
+    },
+  };
+  const database = {
+    transaction: () => {
+      const transaction: Partial<IDBTransaction> = { objectStore: () => store as unknown as IDBObjectStore };
+      Promise.resolve().then(() => transaction.oncomplete?.call(transaction as IDBTransaction, new Event('complete')));
+      return transaction;
+    },
+    close: () => undefined,
+  };
+  Object.defineProperty(window, 'indexedDB', {
+    configurable: true,
+    value: {
+      open: () => {
+        const request: Partial<IDBOpenDBRequest> = {};
+        Promise.resolve().then(() => {
+          Object.defineProperty(request, 'result', { value: database });
+          request.onsuccess?.call(request as IDBOpenDBRequest, new Event('success'));
+        });
+        return request;
+      },
+    },
+  });
+};
+
+const MINUTE = 60 * 1000;
+// Local times, so the tests hold in any time zone.
+const START = new Date(2025, 2, 14, 8, 0).getTime();
+
+const schedule: RTDBAttendanceSession['schedule'] = {
+  subjectId: 'subject-1',
+  subjectCode: 'IT101',
+  subjectName: 'Programming',
+  sectionId: 'section-1',
+  sectionName: 'BSIT-1A',
+  day: 'Friday',
+  startTime: '08:00',
+  endTime: '09:30',
+};
+
+const session = (state: RTDBAttendanceSession['state'] = 'open'): RTDBAttendanceSession => ({
+  id: 'session-1',
+  state,
+  schedule,
+  roomId: 'GLE-201',
+  instructor: { uid: 'instructor-1', fullName: 'Ana Cruz' },
+  roster: {},
+  policy: {
+    graceMinutes: 15,
+    lateCutoffMinutes: 10,
+    absentAfterMinutes: 30,
+    earlyLeaveMinutes: 10,
+    minimumAttendedPercent: 0,
+  },
+  scheduledStart: START,
+  scheduledEnd: START + 90 * MINUTE,
+  openedAt: START,
+});
+
+const record = (at: number, sessionId = 'session-1'): RTDBAttendanceRecord => ({
+  allSchedules: [],
+  attendanceInfo: {
+    action: 'Confirmed RFID',
+    assignedSensorId: '',
+    date: '2025_03_14',
+    sensor: '',
+    sensorConfirmed: false,
+    sessionId,
+    status: 'Present',
+    timeIn: toRTDBTimestamp(new Date(at)),
+    timeOut: '',
+    timestamp: toRTDBTimestamp(new Date(at)),
+    weight: 0,
+    weightUnit: 'kg',
+  },
+  personalInfo: {
+    department: 'CCS',
+    email: '',
+    fullName: 'Student',
+    idNumber: '',
+    mobileNumber: '',
+    role: 'student',
+  },
+});
+
+const recordAction = (sessionId: string, at = START + 5 * MINUTE, baseline: string | null = null): QueuedAction => ({
+  kind: 'record_attendance',
+  sessionId,
+  rfidUid: 'card-1',
+  studentName: 'Student',
+  record: record(at, sessionId),
+  baseline,
+});
+
+const report: QueuedAttendanceReport = {
+  sectionId: 'section-1',
+  subjectId: 'subject-1',
+  date: '2025-03-14',
+  submittedById: 'instructor-1',
+  rows: [{ studentId: 'card-1', status: 'present', timestamp: START }],
+};
+
+beforeEach(() => {
+  installIndexedDb();
+  (getAttendanceSession as jest.Mock).mockResolvedValue(session());
+  (getAttendanceRecord as jest.Mock).mockResolvedValue(null);
+  (findClassSession as jest.Mock).mockResolvedValue(session());
+  (getDocs as jest.Mock).mockResolvedValue({ empty: true });
+});
+
+describe('queueOpenSession', () => {
+  it('queues the session and hands back a local stand-in', async () => {
+    const params = { schedule, roomId: 'GLE-201', instructor: { uid: 'instructor-1', fullName: 'Ana Cruz' }, roster: {} };
+    const standIn = await queueOpenSession(params, new Date(START + 5 * MINUTE));
+
+    expect(isLocalSessionId(standIn.id)).toBe(true);
+    expect(standIn).toMatchObject({ state: 'open', scheduledStart: START });
+    expect((await getPendingChanges()).map((change) => change.action)).toEqual([
+      { kind: 'open_session', localSessionId: standIn.id, params },
+    ]);
+  });
+});
+
+describe('replayPendingChanges', () => {
+  it('replays in order, moving later changes onto the session found for the class', async () => {
+    await queueChange({
+      kind: 'open_session',
+      localSessionId: 'local_1',
+      params: { schedule, roomId: 'GLE-201', instructor: { uid: 'instructor-1', fullName: 'Ana Cruz' }, roster: {} },
+    });
+    await queueChange(recordAction('local_1'));
+    await queueChange({ kind: 'submit_session', sessionId: 'local_1', report });
+
+    const result = await replayPendingChanges();
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.applied.map((change) => change.action.kind)).toEqual([
+      'open_session',
+      'record_attendance',
+      'submit_session',
+    ]);
+    expect(recordSessionAttendance).toHaveBeenCalledWith(
+      'session-1',
+      'card-1',
+      expect.objectContaining({ attendanceInfo: expect.objectContaining({ sessionId: 'session-1' }) })
+    );
+    expect(addDoc).toHaveBeenCalledWith(undefined, expect.objectContaining({ sessionId: 'session-1' }));
+    expect(closeAttendanceSession).toHaveBeenCalledWith('session-1');
+    expect(await getPendingChanges()).toEqual([]);
+  });
+
+  it('keeps a record that changed on the server while offline, whatever its clock says', async () => {
+    // Written by a device whose clock runs behind the browser's.
+    (getAttendanceRecord as jest.Mock).mockResolvedValue(record(START - 10 * MINUTE));
+    await queueChange(recordAction('session-1'));
+
+    const result = await replayPendingChanges();
+
+    expect(result.conflicts.map((conflict) => conflict.reason)).toEqual(['newer_on_server']);
+    expect(recordSessionAttendance).not.toHaveBeenCalled();
+    expect(await getPendingChanges()).toEqual([]);
+  });
+
+  it('overwrites the record the page had when the change was queued', async () => {
+    const seen = record(START + MINUTE);
+    (getAttendanceRecord as jest.Mock).mockResolvedValue(seen);
+    await queueChange(recordAction('session-1', START + 5 * MINUTE, seen.attendanceInfo.timestamp));
+
+    const result = await replayPendingChanges();
+
+    expect(result.conflicts).toEqual([]);
+    expect(recordSessionAttendance).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops records for a session finalized in the meantime', async () => {
+    // Finalized before the replay, then between the checks and the write.
+    (getAttendanceSession as jest.Mock).mockResolvedValueOnce(session('finalized'));
+    (recordSessionAttendance as jest.Mock).mockRejectedValue(new SessionLockedError('session-1'));
+    await queueChange(recordAction('session-1'));
+    await queueChange(recordAction('session-1'));
+
+    const result = await replayPendingChanges();
+
+    expect(result.conflicts.map((conflict) => conflict.reason)).toEqual(['session_finalized', 'session_finalized']);
+  });
+
+  it('leaves a class the server closed or finalized meanwhile as it is', async () => {
+    (getAttendanceSession as jest.Mock)
+      .mockResolvedValueOnce(session('closed'))
+      .mockResolvedValueOnce(session('finalized'))
+      .mockResolvedValueOnce(session('closed'));
+    await queueChange({ kind: 'submit_session', sessionId: 'session-1', report });
+    await queueChange({ kind: 'submit_session', sessionId: 'session-1', report });
+    await queueChange(recordAction('session-1'));
+
+    const result = await replayPendingChanges();
+
+    expect(result.conflicts.map((conflict) => conflict.reason)).toEqual([
+      'session_closed',
+      'session_finalized',
+      'session_closed',
+    ]);
+    expect(addDoc).not.toHaveBeenCalled();
+    expect(closeAttendanceSession).not.toHaveBeenCalled();
+    expect(recordSessionAttendance).not.toHaveBeenCalled();
+  });
+
+  it('does not submit a class twice', async () => {
+    (getDocs as jest.Mock).mockResolvedValue({ empty: false });
+    await queueChange({ kind: 'submit_session', sessionId: 'session-1', report });
+
+    const result = await replayPendingChanges();
+
+    expect(result.conflicts.map((conflict) => conflict.reason)).toEqual(['already_submitted']);
+    expect(addDoc).not.toHaveBeenCalled();
+    expect(closeAttendanceSession).toHaveBeenCalledWith('session-1');
+  });
+
+  it('reports a class whose session was never opened', async () => {
+    (findClassSession as jest.Mock).mockResolvedValue(null);
+    await queueChange({
+      kind: 'open_session',
+      localSessionId: 'local_1',
+      params: { schedule, roomId: 'GLE-201', instructor: { uid: 'instructor-1', fullName: 'Ana Cruz' }, roster: {} },
+    });
+
+    const result = await replayPendingChanges();
+
+    expect(result.conflicts.map((conflict) => conflict.reason)).toEqual(['session_missing']);
+  });
+
+  it('stops at a failure and leaves the rest queued on the found session', async () => {
+    (recordSessionAttendance as jest.Mock).mockRejectedValue(new Error('offline'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    await queueChange({
+      kind: 'open_session',
+      localSessionId: 'local_1',
+      params: { schedule, roomId: 'GLE-201', instructor: { uid: 'instructor-1', fullName: 'Ana Cruz' }, roster: {} },
+    });
+    await queueChange(recordAction('local_1'));
+    await queueChange({ kind: 'submit_session', sessionId: 'local_1', report });
+
+    const result = await replayPendingChanges();
+
+    expect(result.applied.map((change) => change.action.kind)).toEqual(['open_session']);
+    const remaining = await getPendingChanges();
+    expect(remaining.map((change) => change.action)).toEqual([
+      expect.objectContaining({ kind: 'record_attendance', sessionId: 'session-1' }),
+      expect.objectContaining({ kind: 'submit_session', sessionId: 'session-1' }),
+    ]);
+  });
+
+  it('runs one replay at a time', async () => {
+    await queueChange(recordAction('session-1'));
+
+    const [first, second] = await Promise.all([replayPendingChanges(), replayPendingChanges()]);
+
+    expect(second).toBe(first);
+    expect(recordSessionAttendance).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,309 @@
+import { addDoc, collection, getDocs, query, Timestamp, where } from 'firebase/firestore';
+import { db } from '../firebase';
+import { RTDBAttendanceRecord, RTDBAttendanceSession } from '../types/rtdb';
+import {
+  closeAttendanceSession,
+  findClassSession,
+  isSessionActive,
+  OpenSessionParams,
+  recordSessionAttendance,
+  resolveCurrentWindow,
+  SessionLockedError,
+} from './attendanceSessions';
+import { DEFAULT_ATTENDANCE_POLICY } from './attendancePolicy';
+import { getAttendanceRecord, getAttendanceSession, subscribeToConnection } from './rtdbRepository';
+
+// Sessions first needed while offline get a placeholder id until the queue
+// replays and finds the one the server opened for the class.
+const LOCAL_SESSION_PREFIX = 'local_';
+
+export const isLocalSessionId = (sessionId: string): boolean => sessionId.startsWith(LOCAL_SESSION_PREFIX);
+
+// Rows for Firestore `attendanceRecords`. `timestamp` is kept in milliseconds
+// since IndexedDB cannot store Firestore Timestamps.
+export interface QueuedReportRow extends Record<string, unknown> {
+  timestamp: number;
+}
+
+export interface QueuedAttendanceReport {
+  sectionId: string;
+  subjectId: string;
+  date: string;
+  submittedById: string;
+  rows: QueuedReportRow[];
+}
+
+// `baseline` is the timestamp of the student's record for the session as the
+// page last had it, null when there was none. The record is only written if
+// the server still holds that one.
+export type QueuedAction =
+  | { kind: 'open_session'; localSessionId: string; params: OpenSessionParams }
+  | {
+      kind: 'record_attendance';
+      sessionId: string;
+      rfidUid: string;
+      studentName: string;
+      record: RTDBAttendanceRecord;
+      baseline: string | null;
+    }
+  | { kind: 'submit_session'; sessionId: string; report: QueuedAttendanceReport };
+
+export interface PendingChange {
+  id: number;
+  queuedAt: number;
+  action: QueuedAction;
+}
+
+export type SyncConflictReason =
+  | 'session_closed'
+  | 'session_finalized'
+  | 'session_missing'
+  | 'newer_on_server'
+  | 'already_submitted';
+
+export const SYNC_CONFLICT_LABELS: Record<SyncConflictReason, string> = {
+  session_closed: 'The session was closed before the change reached it',
+  session_finalized: 'The session was finalized before the change reached it',
+  session_missing: 'No session for the class was found',
+  newer_on_server: 'The record changed on the server (e.g. a card tap) while offline',
+  already_submitted: 'Attendance for this class was already submitted',
+};
+
+export interface SyncConflict {
+  change: PendingChange;
+  reason: SyncConflictReason;
+}
+
+export interface ReplayResult {
+  applied: PendingChange[];
+  conflicts: SyncConflict[];
+}
+
+export interface OfflineSyncStatus {
+  online: boolean;
+  syncing: boolean;
+  pending: PendingChange[];
+}
+
+const DB_NAME = 'smart-eco-lock-offline';
+const STORE_NAME = 'pendingChanges';
+
+const openQueueDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openQueueDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    database.close();
+  }
+};
+
+// Pages showing the pending count are told whenever the queue changes.
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach((listener) => listener());
+
+// Oldest first, the order they are replayed in.
+export const getPendingChanges = async (): Promise<PendingChange[]> => {
+  const changes = await withStore<PendingChange[]>('readonly', (store) => store.getAll());
+  return changes.sort((a, b) => a.id - b.id);
+};
+
+export const queueChange = async (action: QueuedAction): Promise<void> => {
+  await withStore('readwrite', (store) => store.add({ queuedAt: Date.now(), action }));
+  notify();
+};
+
+const removeChange = (id: number) => withStore('readwrite', (store) => store.delete(id));
+
+const rewriteChange = (change: PendingChange) => withStore('readwrite', (store) => store.put(change));
+
+// Queues the session and returns a stand-in carrying the default policy. The
+// real session, with the subject's policy, replaces it once the queue replays.
+export const queueOpenSession = async (
+  params: OpenSessionParams,
+  now: Date = new Date()
+): Promise<RTDBAttendanceSession> => {
+  const localSessionId = `${LOCAL_SESSION_PREFIX}${now.getTime()}`;
+  await queueChange({ kind: 'open_session', localSessionId, params });
+  return {
+    id: localSessionId,
+    state: 'open',
+    ...params,
+    policy: DEFAULT_ATTENDANCE_POLICY,
+    ...resolveCurrentWindow(now, params.schedule.startTime, params.schedule.endTime),
+    openedAt: now.getTime(),
+  };
+};
+
+const withSessionId = (action: QueuedAction, sessionIds: Record<string, string>): QueuedAction => {
+  if (action.kind === 'open_session' || !sessionIds[action.sessionId]) return action;
+  const sessionId = sessionIds[action.sessionId];
+  return action.kind === 'record_attendance'
+    ? {
+        ...action,
+        sessionId,
+        record: { ...action.record, attendanceInfo: { ...action.record.attendanceInfo, sessionId } },
+      }
+    : {
+        ...action,
+        sessionId,
+        report: { ...action.report, rows: action.report.rows.map((row) => ({ ...row, sessionId })) },
+      };
+};
+
+const submitReport = async (report: QueuedAttendanceReport): Promise<boolean> => {
+  const existing = await getDocs(
+    query(
+      collection(db, 'attendanceRecords'),
+      where('sectionId', '==', report.sectionId),
+      where('subjectId', '==', report.subjectId),
+      where('date', '==', report.date),
+      where('submittedBy.id', '==', report.submittedById)
+    )
+  );
+  if (!existing.empty) return false;
+  await Promise.all(
+    report.rows.map((row) =>
+      addDoc(collection(db, 'attendanceRecords'), { ...row, timestamp: Timestamp.fromMillis(row.timestamp) })
+    )
+  );
+  return true;
+};
+
+// Applies one change, returning the conflict that stopped it if any. Nothing
+// reaches a session the server has closed or finalized meanwhile, and a record
+// only overwrites the server's if that is still the one the page had, so a
+// change made elsewhere while the instructor was offline is kept.
+const applyChange = async (
+  { action, queuedAt }: PendingChange,
+  sessionIds: Record<string, string>
+): Promise<SyncConflictReason | null> => {
+  if (action.kind === 'open_session') {
+    // Looked up as of when it was queued, so a replay after class still
+    // finds that class's session.
+    const session = await findClassSession(action.params.schedule, new Date(queuedAt));
+    if (!session) return 'session_missing';
+    sessionIds[action.localSessionId] = session.id;
+    return null;
+  }
+
+  const session = await getAttendanceSession(action.sessionId);
+  if (!session) return 'session_missing';
+  if (!isSessionActive(session)) return session.state === 'finalized' ? 'session_finalized' : 'session_closed';
+
+  if (action.kind === 'record_attendance') {
+    const current = await getAttendanceRecord(action.rfidUid, action.sessionId);
+    if ((current?.attendanceInfo.timestamp || null) !== (action.baseline ?? null)) return 'newer_on_server';
+    try {
+      await recordSessionAttendance(action.sessionId, action.rfidUid, action.record);
+    } catch (error) {
+      if (error instanceof SessionLockedError) return 'session_finalized';
+      throw error;
+    }
+    return null;
+  }
+
+  const submitted = await submitReport(action.report);
+  await closeAttendanceSession(action.sessionId);
+  return submitted ? null : 'already_submitted';
+};
+
+let replaying: Promise<ReplayResult> | null = null;
+
+// Replays queued changes in order. Conflicting changes are dropped and
+// reported; any other failure, usually the connection dropping again, stops
+// the replay and leaves the rest queued for next time.
+export const replayPendingChanges = (): Promise<ReplayResult> => {
+  if (replaying) return replaying;
+
+  const run = async (): Promise<ReplayResult> => {
+    const result: ReplayResult = { applied: [], conflicts: [] };
+    const sessionIds: Record<string, string> = {};
+    for (const queued of await getPendingChanges()) {
+      const change = { ...queued, action: withSessionId(queued.action, sessionIds) };
+      try {
+        const conflict = await applyChange(change, sessionIds);
+        if (conflict) {
+          result.conflicts.push({ change, reason: conflict });
+        } else {
+          result.applied.push(change);
+        }
+        await removeChange(change.id);
+      } catch (error) {
+        console.error('Error replaying queued change:', error);
+        // Later changes must still find the session opened by this replay.
+        if (Object.keys(sessionIds).length > 0) {
+          const remaining = (await getPendingChanges()).filter((pending) => pending.id >= change.id);
+          await Promise.all(
+            remaining.map((pending) => rewriteChange({ ...pending, action: withSessionId(pending.action, sessionIds) }))
+          );
+        }
+        break;
+      }
+    }
+    notify();
+    return result;
+  };
+
+  replaying = run().finally(() => {
+    replaying = null;
+  });
+  return replaying;
+};
+
+// Follows the connection and replays the queue whenever it comes back,
+// reporting the queue's state to `onStatus`. Run by Take Attendance.
+export const startOfflineSync = (
+  onStatus: (status: OfflineSyncStatus) => void,
+  onReplayed: (result: ReplayResult) => void
+): (() => void) => {
+  let status: OfflineSyncStatus = { online: navigator.onLine, syncing: false, pending: [] };
+  const publish = (changes: Partial<OfflineSyncStatus>) => {
+    status = { ...status, ...changes };
+    onStatus(status);
+  };
+
+  const refresh = () => {
+    getPendingChanges()
+      .then((pending) => publish({ pending }))
+      .catch((error) => console.error('Error reading queued changes:', error));
+  };
+
+  const replay = () => {
+    publish({ syncing: true });
+    replayPendingChanges()
+      .then((result) => {
+        if (result.applied.length > 0 || result.conflicts.length > 0) onReplayed(result);
+      })
+      .catch((error) => console.error('Error replaying queued changes:', error))
+      .finally(() => publish({ syncing: false }));
+  };
+
+  listeners.add(refresh);
+  refresh();
+  const unsubscribe = subscribeToConnection((connected) => {
+    publish({ online: connected });
+    if (connected) replay();
+  });
+  return () => {
+    listeners.delete(refresh);
+    unsubscribe();
+  };
+};
@@ -0,0 +1,103 @@
+import { doc, updateDoc } from 'firebase/firestore';
+import { db } from '../firebase';
+import { AccessRole, Permission, UserAccess } from '../types';
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  manage_users: 'Manage users',
+  approve_registrations: 'Approve registrations',
+  manage_roster: 'Import student rosters',
+  manage_schedules: 'Manage subjects, sections and schedules',
+  manage_rooms: 'Manage rooms and seat plans',
+  manage_rfid_cards: 'Manage RFID cards',
+  edit_attendance: 'Edit attendance',
+  view_reports: 'View reports and insights',
+  view_energy: 'View energy usage',
+  view_security_logs: 'View security logs',
+  resolve_tamper_alerts: 'Resolve tamper alerts',
+};
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSION_LABELS) as Permission[];
+
+export const ACCESS_ROLE_LABELS: Record<AccessRole, string> = {
+  department_head: 'Department Head',
+  facilities_staff: 'Facilities Staff',
+  registrar: 'Registrar',
+};
+
+// Keep in step with ACCESS_ROLE_PERMISSIONS in functions/src/access.ts, which
+// mirrors them to the database for the security rules.
+export const ACCESS_ROLE_PERMISSIONS: Record<AccessRole, Permission[]> = {
+  department_head: ['manage_schedules', 'edit_attendance', 'view_reports', 'view_energy'],
+  facilities_staff: ['manage_rooms', 'view_energy', 'view_security_logs', 'resolve_tamper_alerts'],
+  registrar: ['approve_registrations', 'manage_roster', 'manage_rfid_cards', 'view_reports'],
+};
+
+// Permissions from these roles only reach the holder's own department. The
+// server serves that department's data; the global admin pages stay closed.
+export const DEPARTMENT_SCOPED_ROLES: AccessRole[] = ['department_head'];
+
+interface AccessHolder extends UserAccess {
+  role?: string;
+}
+
+export const isDepartmentScoped = (user: AccessHolder | null | undefined): boolean =>
+  Boolean(user && user.role !== 'admin' && user.accessRole && DEPARTMENT_SCOPED_ROLES.includes(user.accessRole));
+
+export const effectivePermissions = (user: AccessHolder | null | undefined): Permission[] => {
+  if (!user) return [];
+  if (user.role === 'admin') return ALL_PERMISSIONS;
+  const fromRole = user.accessRole ? ACCESS_ROLE_PERMISSIONS[user.accessRole] || [] : [];
+  return Array.from(new Set([...fromRole, ...(user.permissions || [])]));
+};
+
+// Permissions that hold across every department.
+export const globalPermissions = (user: AccessHolder | null | undefined): Permission[] =>
+  isDepartmentScoped(user) ? user?.permissions || [] : effectivePermissions(user);
+
+export const hasPermission = (user: AccessHolder | null | undefined, permission: Permission): boolean =>
+  effectivePermissions(user).includes(permission);
+
+// Admin pages open to non-admins holding the permission. Pages missing here,
+// such as the dashboard and settings, stay admin-only.
+export const ADMIN_ROUTE_PERMISSIONS: Record<string, Permission> = {
+  '/admin/users': 'manage_users',
+  '/admin/registrations': 'approve_registrations',
+  '/admin/roster-import': 'manage_roster',
+  '/admin/schedules': 'manage_schedules',
+  '/admin/subjects-management': 'manage_schedules',
+  '/admin/sections': 'manage_schedules',
+  '/admin/rooms': 'manage_rooms',
+  '/admin/rfid-cards': 'manage_rfid_cards',
+  '/admin/insights': 'view_reports',
+  '/admin/energyusage': 'view_energy',
+  '/admin/security-logs': 'view_security_logs',
+  '/admin/tamper-incidents': 'resolve_tamper_alerts',
+  '/admin/department': 'view_reports',
+};
+
+// The only admin page whose data the server scopes to a department.
+export const DEPARTMENT_OVERVIEW_PATH = '/admin/department';
+
+export const canAccessPath = (user: AccessHolder | null | undefined, path: string): boolean => {
+  if (user?.role === 'admin') return true;
+  const permission = ADMIN_ROUTE_PERMISSIONS[path];
+  if (!permission) return false;
+  return path === DEPARTMENT_OVERVIEW_PATH
+    ? hasPermission(user, permission)
+    : globalPermissions(user).includes(permission);
+};
+
+// First admin page a non-admin may open, if any.
+export const staffLandingPath = (user: AccessHolder | null | undefined): string | null =>
+  Object.keys(ADMIN_ROUTE_PERMISSIONS).find((path) => canAccessPath(user, path)) || null;
+
+export const updateUserAccess = async (
+  collectionName: 'users' | 'teachers',
+  id: string,
+  access: Required<UserAccess>
+): Promise<void> => {
+  await updateDoc(doc(db, collectionName, id), {
+    accessRole: access.accessRole,
+    permissions: access.permissions,
+  });
+};
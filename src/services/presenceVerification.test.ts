@@ -0,0 +1,158 @@
+import { RTDBAttendanceSession, RTDBPresenceFlag, RTDBWeightSensor } from '../types/rtdb';
+import { createPresenceFlag, updateAttendanceInfo, updatePresenceFlag } from './rtdbRepository';
+import { correctAttendanceStatus } from './attendanceCorrections';
+import {
+  PRESENCE_WINDOW_MS,
+  PresenceTap,
+  evaluatePresence,
+  resolvePresenceFlag,
+  syncPresenceVerification,
+} from './presenceVerification';
+
+jest.mock('./rtdbRepository', () => ({
+  createPresenceFlag: jest.fn(),
+  updateAttendanceInfo: jest.fn(),
+  updatePresenceFlag: jest.fn(),
+}));
+jest.mock('./attendanceCorrections', () => ({
+  correctAttendanceStatus: jest.fn(),
+}));
+
+const SECOND = 1000;
+const TAPPED_AT = Date.UTC(2025, 2, 14, 0, 5, 0);
+const AFTER_WINDOW = TAPPED_AT + PRESENCE_WINDOW_MS + SECOND;
+
+const tap = (rfidUid: string, sensorId: string, overrides: Partial<PresenceTap> = {}): PresenceTap => ({
+  rfidUid,
+  studentName: rfidUid,
+  sensorId,
+  tappedAt: TAPPED_AT,
+  sensorConfirmed: false,
+  ...overrides,
+});
+
+const sensor = (occupied: boolean, updatedAt: number): RTDBWeightSensor => ({
+  occupied,
+  weight: occupied ? 55 : 0,
+  weightUnit: 'kg',
+  updatedAt,
+});
+
+describe('evaluatePresence', () => {
+  it('verifies a tap whose seat turned occupied within the window', () => {
+    const sensors = { 1: sensor(true, TAPPED_AT + PRESENCE_WINDOW_MS) };
+    expect(evaluatePresence([tap('a', '1')], sensors, AFTER_WINDOW)).toEqual({ verified: ['a'], anomalies: [] });
+  });
+
+  it('waits out the window before flagging an empty seat', () => {
+    const sensors = { 1: sensor(false, TAPPED_AT - 10 * SECOND) };
+    expect(evaluatePresence([tap('a', '1')], sensors, TAPPED_AT + PRESENCE_WINDOW_MS).anomalies).toEqual([]);
+    expect(evaluatePresence([tap('a', '1')], sensors, AFTER_WINDOW).anomalies).toEqual([
+      { id: 'tap_a', type: 'tap_without_occupancy', sensorId: '1', rfidUid: 'a', studentName: 'a' },
+    ]);
+  });
+
+  it('skips taps without a seat, or whose seat has never reported', () => {
+    expect(evaluatePresence([tap('a', ''), tap('b', '9')], {}, AFTER_WINDOW)).toEqual({ verified: [], anomalies: [] });
+  });
+
+  it('reports a seat taken long before the tap as an occupancy without a tap', () => {
+    const takenAt = TAPPED_AT - PRESENCE_WINDOW_MS - SECOND;
+    const sensors = { 1: sensor(true, takenAt) };
+    expect(evaluatePresence([tap('a', '1')], sensors, AFTER_WINDOW).anomalies).toEqual([
+      { id: `occupancy_1_${takenAt}`, type: 'occupancy_without_tap', sensorId: '1', rfidUid: 'a', studentName: 'a' },
+    ]);
+  });
+
+  it('flags an occupied seat nobody tapped for, once the window has passed', () => {
+    const sensors = { 2: sensor(true, TAPPED_AT) };
+    expect(evaluatePresence([], sensors, TAPPED_AT + PRESENCE_WINDOW_MS).anomalies).toEqual([]);
+    expect(evaluatePresence([], sensors, AFTER_WINDOW).anomalies).toEqual([
+      { id: `occupancy_2_${TAPPED_AT}`, type: 'occupancy_without_tap', sensorId: '2' },
+    ]);
+  });
+});
+
+describe('syncPresenceVerification', () => {
+  const session = { id: 'session-1', state: 'open' } as RTDBAttendanceSession;
+  const sensors = { 1: sensor(true, TAPPED_AT), 2: sensor(false, TAPPED_AT) };
+  const taps = [tap('a', '1'), tap('b', '1', { sensorConfirmed: true }), tap('c', '2')];
+
+  it('confirms unconfirmed verified taps and raises new flags only', async () => {
+    const known = { tap_x: {} as RTDBPresenceFlag };
+    await syncPresenceVerification(session, taps, sensors, known, AFTER_WINDOW);
+
+    expect(updateAttendanceInfo).toHaveBeenCalledTimes(1);
+    expect(updateAttendanceInfo).toHaveBeenCalledWith('a', 'session-1', { sensorConfirmed: true });
+    expect(createPresenceFlag).toHaveBeenCalledTimes(1);
+    expect(createPresenceFlag).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'tap_c', sessionId: 'session-1', detectedAt: AFTER_WINDOW, status: 'open' })
+    );
+  });
+
+  it('does not raise a flag twice', async () => {
+    await syncPresenceVerification(session, taps, sensors, { tap_c: {} as RTDBPresenceFlag }, AFTER_WINDOW);
+    expect(createPresenceFlag).not.toHaveBeenCalled();
+  });
+
+  it('only evaluates a finalized session', async () => {
+    const evaluation = await syncPresenceVerification(
+      { ...session, state: 'finalized' },
+      taps,
+      sensors,
+      {},
+      AFTER_WINDOW
+    );
+    expect(evaluation.verified).toEqual(['a', 'b']);
+    expect(updateAttendanceInfo).not.toHaveBeenCalled();
+    expect(createPresenceFlag).not.toHaveBeenCalled();
+  });
+});
+
+describe('resolvePresenceFlag', () => {
+  const actor = { uid: 'instructor-1', fullName: 'Ana Cruz', role: 'instructor' };
+  const flag: RTDBPresenceFlag = {
+    id: 'tap_a',
+    sessionId: 'session-1',
+    type: 'tap_without_occupancy',
+    sensorId: '1',
+    rfidUid: 'a',
+    detectedAt: TAPPED_AT,
+    status: 'open',
+  };
+
+  it('confirms the student present', async () => {
+    await resolvePresenceFlag(flag, 'confirmed_present', ' Seat sensor loose ', actor);
+    expect(updateAttendanceInfo).toHaveBeenCalledWith('a', 'session-1', { sensorConfirmed: true });
+    expect(updatePresenceFlag).toHaveBeenCalledWith(
+      'session-1',
+      'tap_a',
+      expect.objectContaining({ status: 'resolved', resolution: 'confirmed_present', resolutionNote: 'Seat sensor loose' })
+    );
+  });
+
+  it('marks the student absent through a correction', async () => {
+    await resolvePresenceFlag(flag, 'marked_absent', 'Not in the room', actor);
+    expect(correctAttendanceStatus).toHaveBeenCalledWith({
+      rfidUid: 'a',
+      sessionId: 'session-1',
+      status: 'absent',
+      reason: 'Not in the room',
+      actor,
+    });
+  });
+
+  it('cannot mark absent a flag tied to no student', async () => {
+    const { rfidUid, ...seatOnly } = flag;
+    await expect(resolvePresenceFlag(seatOnly, 'marked_absent', 'Empty', actor)).rejects.toThrow(
+      'Only flags tied to a student can be marked absent'
+    );
+    expect(updatePresenceFlag).not.toHaveBeenCalled();
+  });
+
+  it('refuses to resolve a flag twice', async () => {
+    await expect(resolvePresenceFlag({ ...flag, status: 'resolved' }, 'dismissed', '', actor)).rejects.toThrow(
+      'Presence flag tap_a is already resolved'
+    );
+  });
+});
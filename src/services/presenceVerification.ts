@@ -0,0 +1,160 @@
+import {
+  PresenceAnomalyType,
+  PresenceFlagResolution,
+  RTDBActor,
+  RTDBAttendanceSession,
+  RTDBPresenceFlag,
+  RTDBWeightSensor,
+} from '../types/rtdb';
+import { createPresenceFlag, updateAttendanceInfo, updatePresenceFlag } from './rtdbRepository';
+import { correctAttendanceStatus } from './attendanceCorrections';
+
+// How far apart an RFID tap and the seat sensor turning occupied may be for
+// the two to count as the same arrival.
+export const PRESENCE_WINDOW_MS = 2 * 60 * 1000;
+
+export const PRESENCE_ANOMALY_LABELS: Record<PresenceAnomalyType, string> = {
+  tap_without_occupancy: 'Tapped but seat empty',
+  occupancy_without_tap: 'Seat occupied without tap',
+};
+
+export interface PresenceTap {
+  rfidUid: string;
+  studentName: string;
+  // The seat sensor the student is assigned to.
+  sensorId: string;
+  tappedAt: number;
+  sensorConfirmed: boolean;
+}
+
+export interface PresenceAnomaly {
+  id: string;
+  type: PresenceAnomalyType;
+  sensorId: string;
+  rfidUid?: string;
+  studentName?: string;
+}
+
+export interface PresenceEvaluation {
+  verified: string[];
+  anomalies: PresenceAnomaly[];
+}
+
+const agrees = (sensor: RTDBWeightSensor | undefined, tappedAt: number, windowMs: number): boolean =>
+  !!sensor?.occupied && Math.abs(sensor.updatedAt - tappedAt) <= windowMs;
+
+// Cross-checks taps against seat sensors. Neither side is flagged until the
+// window has passed, so the other side has time to arrive.
+export const evaluatePresence = (
+  taps: PresenceTap[],
+  sensors: Record<string, RTDBWeightSensor>,
+  now: number,
+  windowMs: number = PRESENCE_WINDOW_MS
+): PresenceEvaluation => {
+  const verified: string[] = [];
+  const anomalies: PresenceAnomaly[] = [];
+
+  taps.forEach((tap) => {
+    // Taps with no assigned seat, or a seat that has never reported, cannot be checked.
+    const sensor = tap.sensorId ? sensors[tap.sensorId] : undefined;
+    if (!sensor) return;
+    if (agrees(sensor, tap.tappedAt, windowMs)) {
+      verified.push(tap.rfidUid);
+      return;
+    }
+    // A seat taken well before the tap is reported as an unmatched occupancy instead.
+    const occupiedBeforeTap = sensor.occupied && sensor.updatedAt < tap.tappedAt;
+    if (!occupiedBeforeTap && now - tap.tappedAt > windowMs) {
+      anomalies.push({
+        id: `tap_${tap.rfidUid}`,
+        type: 'tap_without_occupancy',
+        sensorId: tap.sensorId,
+        rfidUid: tap.rfidUid,
+        studentName: tap.studentName,
+      });
+    }
+  });
+
+  Object.entries(sensors).forEach(([sensorId, sensor]) => {
+    if (!sensor.occupied || now - sensor.updatedAt <= windowMs) return;
+    const seatTaps = taps.filter((tap) => tap.sensorId === sensorId);
+    if (seatTaps.some((tap) => agrees(sensor, tap.tappedAt, windowMs))) return;
+    const assigned = seatTaps[0];
+    anomalies.push({
+      // Each time the seat is taken is a separate occupancy.
+      id: `occupancy_${sensorId}_${sensor.updatedAt}`,
+      type: 'occupancy_without_tap',
+      sensorId,
+      ...(assigned ? { rfidUid: assigned.rfidUid, studentName: assigned.studentName } : {}),
+    });
+  });
+
+  return { verified, anomalies };
+};
+
+// Marks verified records as sensor-confirmed and raises flags for anomalies
+// not already in `knownFlags`.
+export const syncPresenceVerification = async (
+  session: RTDBAttendanceSession,
+  taps: PresenceTap[],
+  sensors: Record<string, RTDBWeightSensor>,
+  knownFlags: Record<string, RTDBPresenceFlag> = {},
+  now: number = Date.now()
+): Promise<PresenceEvaluation> => {
+  const evaluation = evaluatePresence(taps, sensors, now);
+  if (session.state === 'finalized') return evaluation;
+
+  const unconfirmed = new Set(taps.filter((tap) => !tap.sensorConfirmed).map((tap) => tap.rfidUid));
+  await Promise.all(
+    evaluation.verified
+      .filter((rfidUid) => unconfirmed.has(rfidUid))
+      .map((rfidUid) => updateAttendanceInfo(rfidUid, session.id, { sensorConfirmed: true }))
+  );
+
+  await Promise.all(
+    evaluation.anomalies
+      .filter((anomaly) => !knownFlags[anomaly.id])
+      .map((anomaly) =>
+        createPresenceFlag({ ...anomaly, sessionId: session.id, detectedAt: now, status: 'open' })
+      )
+  );
+
+  return evaluation;
+};
+
+// Applies the instructor's decision. Marking absent goes through the audited
+// correction path, so the note doubles as the correction reason.
+export const resolvePresenceFlag = async (
+  flag: RTDBPresenceFlag,
+  resolution: PresenceFlagResolution,
+  note: string,
+  actor: RTDBActor
+): Promise<void> => {
+  if (flag.status === 'resolved') {
+    throw new Error(`Presence flag ${flag.id} is already resolved`);
+  }
+
+  if (resolution === 'confirmed_present' && flag.rfidUid) {
+    await updateAttendanceInfo(flag.rfidUid, flag.sessionId, { sensorConfirmed: true });
+  }
+  if (resolution === 'marked_absent') {
+    if (!flag.rfidUid) {
+      throw new Error('Only flags tied to a student can be marked absent');
+    }
+    await correctAttendanceStatus({
+      rfidUid: flag.rfidUid,
+      sessionId: flag.sessionId,
+      status: 'absent',
+      reason: note,
+      actor,
+    });
+  }
+
+  await updatePresenceFlag(flag.sessionId, flag.id, {
+    status: 'resolved',
+    resolution,
+    resolutionNote: note.trim(),
+    resolvedBy: actor,
+    resolvedAt: Date.now(),
+  });
+};
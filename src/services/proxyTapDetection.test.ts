@@ -0,0 +1,293 @@
+import { RTDBAttendanceRecord, RTDBAttendanceSession, RTDBProxyTapCase, RTDBStudent } from '../types/rtdb';
+import { updateProxyTapCase } from './rtdbRepository';
+import { firmwareRecordKey, toDateKey, toRTDBTimestamp } from './attendanceSessions';
+import {
+  BURST_GAP_MS,
+  MIN_ROOM_TRANSIT_MS,
+  ProxyTap,
+  collectTaps,
+  detectProxyTaps,
+  findImpossibleTravel,
+  findTapBursts,
+  reviewProxyTapCase,
+  scheduledRoomAt,
+} from './proxyTapDetection';
+import { PRESENCE_WINDOW_MS } from './presenceVerification';
+
+jest.mock('../firebase', () => ({ functions: {} }));
+jest.mock('firebase/functions', () => ({ httpsCallable: () => jest.fn() }));
+jest.mock('./rtdbRepository', () => ({
+  updateProxyTapCase: jest.fn(),
+}));
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+// Local times, so the tests hold in any time zone. 2025-03-14 is a Friday.
+const START = new Date(2025, 2, 14, 8, 0).getTime();
+const END = new Date(2025, 2, 14, 9, 30).getTime();
+const LATER = END + MINUTE;
+
+const tap = (rfidUid: string, tappedAt: number, overrides: Partial<ProxyTap> = {}): ProxyTap => ({
+  rfidUid,
+  studentName: rfidUid,
+  sessionId: 'session-1',
+  roomId: 'GLE-201',
+  tappedAt,
+  instructorUid: 'instructor-1',
+  ...overrides,
+});
+
+const makeSession = (overrides: Partial<RTDBAttendanceSession> = {}): RTDBAttendanceSession => ({
+  id: 'session-1',
+  state: 'open',
+  schedule: {
+    subjectId: 'subject-1',
+    subjectCode: 'IT101',
+    subjectName: 'Programming',
+    sectionId: 'section-1',
+    sectionName: 'BSIT-1A',
+    day: 'Friday',
+    startTime: '08:00',
+    endTime: '09:30',
+  },
+  roomId: 'GLE-201',
+  instructor: { uid: 'instructor-1', fullName: 'Ana Cruz' },
+  roster: {},
+  policy: {
+    graceMinutes: 15,
+    lateCutoffMinutes: 10,
+    absentAfterMinutes: 30,
+    earlyLeaveMinutes: 10,
+    minimumAttendedPercent: 0,
+  },
+  scheduledStart: START,
+  scheduledEnd: END,
+  openedAt: START,
+  ...overrides,
+});
+
+const makeRecord = (status: string, tappedAt: number, sessionId = ''): RTDBAttendanceRecord => ({
+  allSchedules: [
+    { day: 'Friday', startTime: '10:00', endTime: '11:30', roomName: 'GLE-305', section: 'BSIT-1A', subjectCode: 'IT102' },
+  ],
+  attendanceInfo: {
+    action: 'Confirmed',
+    assignedSensorId: '',
+    date: toDateKey(new Date(tappedAt)),
+    sensor: '',
+    sensorConfirmed: true,
+    sessionId,
+    status,
+    timeIn: toRTDBTimestamp(new Date(tappedAt)),
+    timeOut: '',
+    timestamp: toRTDBTimestamp(new Date(tappedAt)),
+    weight: 0,
+    weightUnit: 'kg',
+  },
+  personalInfo: {
+    department: 'CCS',
+    email: '',
+    fullName: 'Student',
+    idNumber: '',
+    mobileNumber: '',
+    role: 'student',
+  },
+});
+
+const sensor = (occupied: boolean, updatedAt: number) => ({ occupied, weight: 0, weightUnit: 'kg', updatedAt });
+
+describe('collectTaps', () => {
+  const session = makeSession();
+  const sessions = { [session.id]: session };
+  const doorKey = firmwareRecordKey('2025_03_14', session);
+
+  it('takes the room and instructor of the session a door tap was filed under', () => {
+    const students: Record<string, RTDBStudent> = {
+      'card-1': { Attendance: { [doorKey]: makeRecord('Present', START + MINUTE) } },
+    };
+    expect(collectTaps(students, sessions, START - MINUTE)).toEqual([
+      {
+        rfidUid: 'card-1',
+        studentName: 'Student',
+        sessionId: session.id,
+        roomId: 'GLE-201',
+        tappedAt: START + MINUTE,
+        instructorUid: 'instructor-1',
+      },
+    ]);
+  });
+
+  it("finds a class crossing midnight's session from the next day's key", () => {
+    const overnight = makeSession({
+      scheduledStart: new Date(2025, 2, 14, 22, 0).getTime(),
+      scheduledEnd: new Date(2025, 2, 15, 1, 0).getTime(),
+    });
+    const tappedAt = new Date(2025, 2, 15, 0, 10).getTime();
+    const nextDayKey = firmwareRecordKey('2025_03_15', overnight);
+    const students: Record<string, RTDBStudent> = {
+      'card-1': { Attendance: { [nextDayKey]: makeRecord('Present', tappedAt) } },
+    };
+    const [collected] = collectTaps(students, { [overnight.id]: overnight }, START);
+    expect(collected).toMatchObject({ sessionId: overnight.id, roomId: 'GLE-201', instructorUid: 'instructor-1' });
+  });
+
+  it('splits a firmware key two meetings share by the time of the tap', () => {
+    const second = makeSession({ id: 'session-2', scheduledStart: START + 240 * MINUTE, scheduledEnd: END + 240 * MINUTE });
+    const both = { [session.id]: session, [second.id]: second };
+    const tapAt = (tappedAt: number) => {
+      const students = { 'card-1': { Attendance: { [doorKey]: makeRecord('Present', tappedAt) } } };
+      return collectTaps(students, both, START - 60 * MINUTE)[0].sessionId;
+    };
+
+    expect(tapAt(START - 5 * MINUTE)).toBe('session-1');
+    expect(tapAt(START + 10 * MINUTE)).toBe('session-1');
+    expect(tapAt(END + 30 * MINUTE)).toBe('session-2');
+    expect(tapAt(END + 250 * MINUTE)).toBe('session-2');
+  });
+
+  it('counts a door tap the session finalized once', () => {
+    const students: Record<string, RTDBStudent> = {
+      'card-1': {
+        Attendance: {
+          [doorKey]: makeRecord('Present', START + MINUTE),
+          [session.id]: makeRecord('Present', START + MINUTE, session.id),
+        },
+      },
+    };
+    expect(collectTaps(students, sessions, START - MINUTE)).toHaveLength(1);
+  });
+
+  it("falls back to the room of the student's scheduled class", () => {
+    const tappedAt = new Date(2025, 2, 14, 10, 15).getTime();
+    const students: Record<string, RTDBStudent> = {
+      'card-1': { Attendance: { '2025_03_14_IT102_BSIT-1A_GLE-305': makeRecord('Present', tappedAt) } },
+    };
+    const [collected] = collectTaps(students, sessions, START);
+    expect(collected).toMatchObject({ sessionId: '2025_03_14_IT102_BSIT-1A_GLE-305', roomId: 'GLE-305' });
+    expect(collected.instructorUid).toBe('');
+  });
+
+  it('skips absences, old taps and taps no room can be found for', () => {
+    const students: Record<string, RTDBStudent> = {
+      absent: { Attendance: { [session.id]: makeRecord('Absent', START + MINUTE) } },
+      old: { Attendance: { [session.id]: makeRecord('Present', START - 2 * MINUTE) } },
+      // Saturday, with nothing scheduled.
+      unscheduled: { Attendance: { other: makeRecord('Present', START + 24 * 60 * MINUTE) } },
+    };
+    expect(collectTaps(students, sessions, START - MINUTE)).toEqual([]);
+  });
+});
+
+describe('scheduledRoomAt', () => {
+  const schedules = [
+    { day: 'Friday', startTime: '08:00', endTime: '09:30', roomName: 'GLE-201', section: 'BSIT-1A', subjectCode: 'IT101' },
+  ];
+
+  it('includes both ends of the class', () => {
+    expect(scheduledRoomAt(schedules, START)).toBe('GLE-201');
+    expect(scheduledRoomAt(schedules, END)).toBe('GLE-201');
+    expect(scheduledRoomAt(schedules, END + MINUTE)).toBe('');
+  });
+});
+
+describe('findTapBursts', () => {
+  it('groups taps no further apart than the gap', () => {
+    const taps = [tap('a', START), tap('b', START + BURST_GAP_MS), tap('c', START + 2 * BURST_GAP_MS + 1)];
+    expect(findTapBursts(taps, LATER).map((burst) => burst.map((t) => t.rfidUid))).toEqual([['a', 'b']]);
+  });
+
+  it('keeps sessions apart', () => {
+    const taps = [tap('a', START), tap('b', START + SECOND, { sessionId: 'session-2' })];
+    expect(findTapBursts(taps, LATER)).toEqual([]);
+  });
+
+  it('waits for the seats to report', () => {
+    const taps = [tap('a', START), tap('b', START + SECOND)];
+    expect(findTapBursts(taps, START + SECOND + PRESENCE_WINDOW_MS)).toEqual([]);
+    expect(findTapBursts(taps, START + SECOND + PRESENCE_WINDOW_MS + 1)).toHaveLength(1);
+  });
+});
+
+describe('findImpossibleTravel', () => {
+  it('pairs taps in different rooms closer together than the walk between them', () => {
+    const taps = [tap('a', START), tap('a', START + MIN_ROOM_TRANSIT_MS - 1, { roomId: 'GLE-305' })];
+    expect(findImpossibleTravel(taps)).toHaveLength(1);
+  });
+
+  it('allows enough time to walk, and repeat taps in one room', () => {
+    const taps = [
+      tap('a', START),
+      tap('a', START + SECOND),
+      tap('a', START + SECOND + MIN_ROOM_TRANSIT_MS, { roomId: 'GLE-305' }),
+    ];
+    expect(findImpossibleTravel(taps)).toEqual([]);
+  });
+});
+
+describe('detectProxyTaps', () => {
+  const burst = [tap('a', START), tap('b', START + SECOND), tap('c', START + 2 * SECOND)];
+
+  it('raises a burst with fewer seats taken than cards tapped', () => {
+    const sensors = { 'GLE-201': { 1: sensor(true, START + 30 * SECOND), 2: sensor(false, START) } };
+    const [candidate] = detectProxyTaps(burst, sensors, LATER);
+    expect(candidate).toMatchObject({
+      id: `burst_session-1_${START}`,
+      pattern: 'tap_burst',
+      occupiedSeats: 1,
+      instructorUids: ['instructor-1'],
+    });
+    expect(candidate.taps).toHaveLength(3);
+    expect(candidate.taps[0]).not.toHaveProperty('instructorUid');
+  });
+
+  it('leaves a burst alone when every card found a seat', () => {
+    const sensors = {
+      'GLE-201': {
+        1: sensor(true, START + 10 * SECOND),
+        2: sensor(true, START + 20 * SECOND),
+        3: sensor(true, START + 30 * SECOND),
+      },
+    };
+    expect(detectProxyTaps(burst, sensors, LATER)).toEqual([]);
+  });
+
+  it('ignores seats that changed outside the window and rooms without sensors', () => {
+    const stale = { 'GLE-201': { 1: sensor(true, START - PRESENCE_WINDOW_MS - 1) } };
+    expect(detectProxyTaps(burst, stale, LATER)[0].occupiedSeats).toBe(0);
+    expect(detectProxyTaps(burst, {}, LATER)).toEqual([]);
+  });
+
+  it('raises impossible travel to the instructors it knows of', () => {
+    const taps = [tap('a', START, { instructorUid: '' }), tap('a', START + MINUTE, { roomId: 'GLE-305' })];
+    expect(detectProxyTaps(taps, {}, LATER)).toEqual([
+      expect.objectContaining({ id: `travel_a_${START}`, pattern: 'impossible_travel', instructorUids: ['instructor-1'] }),
+    ]);
+  });
+});
+
+describe('reviewProxyTapCase', () => {
+  const actor = { uid: 'instructor-1', fullName: 'Ana Cruz', role: 'instructor' };
+  const proxyCase: RTDBProxyTapCase = {
+    id: 'case-1',
+    pattern: 'tap_burst',
+    taps: [],
+    instructorUids: ['instructor-1'],
+    detectedAt: START,
+    status: 'open',
+  };
+
+  it('records the decision', async () => {
+    await reviewProxyTapCase(proxyCase, 'confirmed', '  Seen on camera ', actor);
+    expect(updateProxyTapCase).toHaveBeenCalledWith(
+      'case-1',
+      expect.objectContaining({ status: 'confirmed', reviewedBy: actor, reviewNote: 'Seen on camera' })
+    );
+  });
+
+  it('refuses to review a case twice', async () => {
+    await expect(reviewProxyTapCase({ ...proxyCase, status: 'dismissed' }, 'confirmed', '', actor)).rejects.toThrow(
+      'Case case-1 has already been dismissed'
+    );
+    expect(updateProxyTapCase).not.toHaveBeenCalled();
+  });
+});
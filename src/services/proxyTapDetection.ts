@@ -0,0 +1,208 @@
+import {
+  RTDBActor,
+  RTDBAttendanceSession,
+  RTDBProxyTapCase,
+  RTDBProxyTapEvidence,
+  RTDBScheduleEntry,
+  RTDBStudent,
+  RTDBWeightSensor,
+} from '../types/rtdb';
+import { updateProxyTapCase } from './rtdbRepository';
+import { firmwareRecordKeys, fromRTDBTimestamp } from './attendanceSessions';
+import { PRESENCE_WINDOW_MS } from './presenceVerification';
+
+// Taps in one session this close together are treated as one burst.
+export const BURST_GAP_MS = 10 * 1000;
+// Nobody can tap out of one room and into another faster than this.
+export const MIN_ROOM_TRANSIT_MS = 3 * 60 * 1000;
+// Only recent taps are scanned; older cases would already have been raised.
+export const PROXY_SCAN_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+export const PROXY_PATTERN_LABELS: Record<RTDBProxyTapCase['pattern'], string> = {
+  tap_burst: 'Several cards, too few seats',
+  impossible_travel: 'Same card in two rooms',
+};
+
+export interface ProxyTap extends RTDBProxyTapEvidence {
+  instructorUid: string;
+}
+
+export type ProxyTapCandidate = Omit<RTDBProxyTapCase, 'detectedAt' | 'status'>;
+
+// The detection below runs on the server, in scanProxyTaps
+// (functions/src/proxyTaps.ts), which keeps a copy of it.
+
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// The room of the class running at `at` in the student's schedules.
+export const scheduledRoomAt = (schedules: RTDBScheduleEntry[], at: number): string => {
+  const date = new Date(at);
+  const day = DAYS[date.getDay()];
+  const time = `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+  const schedule = schedules.find(
+    (candidate) => candidate.day === day && candidate.startTime <= time && time <= candidate.endTime
+  );
+  return schedule?.roomName || '';
+};
+
+// Sessions sharing a firmware key (two meetings of a class on one day, or
+// sections with the same name) split its taps by time: a tap is for the one
+// running when it was made, else the next one to start, else the last one.
+const sessionForTap = (candidates: RTDBAttendanceSession[], tappedAt: number): RTDBAttendanceSession | undefined => {
+  const sorted = [...candidates].sort((a, b) => a.scheduledStart - b.scheduledStart);
+  const running = sorted.filter((session) => session.scheduledStart <= tappedAt && tappedAt < session.scheduledEnd).pop();
+  return running || sorted.find((session) => session.scheduledStart > tappedAt) || sorted[sorted.length - 1];
+};
+
+// Flattens student records into taps. The room and instructor come from the
+// record's session: the one it names, or the one its firmware key and time
+// point to. Door taps no session covers take the room of the class the
+// student was scheduled for, with no instructor.
+export const collectTaps = (
+  students: Record<string, RTDBStudent>,
+  sessions: Record<string, RTDBAttendanceSession>,
+  since: number
+): ProxyTap[] => {
+  const byFirmwareKey: Record<string, RTDBAttendanceSession[]> = {};
+  Object.values(sessions).forEach((session) =>
+    firmwareRecordKeys(session).forEach((key) => {
+      (byFirmwareKey[key] = byFirmwareKey[key] || []).push(session);
+    })
+  );
+
+  const taps: ProxyTap[] = [];
+  Object.entries(students).forEach(([rfidUid, student]) => {
+    Object.entries(student.Attendance || {}).forEach(([key, record]) => {
+      if (record.attendanceInfo.status.toLowerCase() === 'absent') return;
+      const tappedAt = fromRTDBTimestamp(record.attendanceInfo.timeIn || record.attendanceInfo.timestamp);
+      if (tappedAt === null || tappedAt < since) return;
+      const session =
+        sessions[record.attendanceInfo.sessionId] ||
+        sessions[key] ||
+        (byFirmwareKey[key] ? sessionForTap(byFirmwareKey[key], tappedAt) : undefined);
+      // A finalized session keeps its own copy of the door tap.
+      if (session && key !== session.id && student.Attendance?.[session.id]) return;
+      const roomId = session ? session.roomId : scheduledRoomAt(record.allSchedules, tappedAt);
+      if (!roomId) return;
+      taps.push({
+        rfidUid,
+        studentName: record.personalInfo.fullName,
+        sessionId: session ? session.id : key,
+        roomId,
+        tappedAt,
+        instructorUid: session ? session.instructor.uid : '',
+      });
+    });
+  });
+  return taps;
+};
+
+// Groups of two or more taps in the same session, each within BURST_GAP_MS of
+// the previous. Bursts are only returned once the seats have had time to report.
+export const findTapBursts = (taps: ProxyTap[], now: number): ProxyTap[][] => {
+  const bySession: Record<string, ProxyTap[]> = {};
+  taps.forEach((tap) => {
+    (bySession[tap.sessionId] = bySession[tap.sessionId] || []).push(tap);
+  });
+
+  const bursts: ProxyTap[][] = [];
+  Object.values(bySession).forEach((sessionTaps) => {
+    const sorted = [...sessionTaps].sort((a, b) => a.tappedAt - b.tappedAt);
+    let current: ProxyTap[] = [];
+    sorted.forEach((tap) => {
+      if (current.length > 0 && tap.tappedAt - current[current.length - 1].tappedAt > BURST_GAP_MS) {
+        if (current.length > 1) bursts.push(current);
+        current = [];
+      }
+      current.push(tap);
+    });
+    if (current.length > 1) bursts.push(current);
+  });
+  return bursts.filter((burst) => now - burst[burst.length - 1].tappedAt > PRESENCE_WINDOW_MS);
+};
+
+// Pairs of taps by one card in different rooms closer together than MIN_ROOM_TRANSIT_MS.
+export const findImpossibleTravel = (taps: ProxyTap[]): ProxyTap[][] => {
+  const byCard: Record<string, ProxyTap[]> = {};
+  taps.forEach((tap) => {
+    (byCard[tap.rfidUid] = byCard[tap.rfidUid] || []).push(tap);
+  });
+
+  const pairs: ProxyTap[][] = [];
+  Object.values(byCard).forEach((cardTaps) => {
+    const sorted = [...cardTaps].sort((a, b) => a.tappedAt - b.tappedAt);
+    for (let i = 1; i < sorted.length; i++) {
+      const [previous, next] = [sorted[i - 1], sorted[i]];
+      if (
+        previous.roomId &&
+        next.roomId &&
+        previous.roomId !== next.roomId &&
+        next.tappedAt - previous.tappedAt < MIN_ROOM_TRANSIT_MS
+      ) {
+        pairs.push([previous, next]);
+      }
+    }
+  });
+  return pairs;
+};
+
+const toCandidate = (
+  id: string,
+  pattern: RTDBProxyTapCase['pattern'],
+  taps: ProxyTap[],
+  extra: Partial<ProxyTapCandidate> = {}
+): ProxyTapCandidate => ({
+  id,
+  pattern,
+  taps: taps.map(({ instructorUid, ...evidence }) => evidence),
+  instructorUids: Array.from(new Set(taps.map((tap) => tap.instructorUid).filter(Boolean))),
+  ...extra,
+});
+
+// A burst is suspicious when fewer seats became occupied around it than cards
+// were tapped. Rooms without seat sensors are skipped rather than guessed at.
+export const detectProxyTaps = (
+  taps: ProxyTap[],
+  sensorsByRoom: Record<string, Record<string, RTDBWeightSensor>>,
+  now: number
+): ProxyTapCandidate[] => {
+  const candidates: ProxyTapCandidate[] = [];
+
+  findTapBursts(taps, now).forEach((burst) => {
+    const sensors = Object.values(sensorsByRoom[burst[0].roomId] || {});
+    if (sensors.length === 0) return;
+    const from = burst[0].tappedAt - PRESENCE_WINDOW_MS;
+    const to = burst[burst.length - 1].tappedAt + PRESENCE_WINDOW_MS;
+    const occupiedSeats = sensors.filter(
+      (sensor) => sensor.occupied && sensor.updatedAt >= from && sensor.updatedAt <= to
+    ).length;
+    if (occupiedSeats < burst.length) {
+      candidates.push(
+        toCandidate(`burst_${burst[0].sessionId}_${burst[0].tappedAt}`, 'tap_burst', burst, { occupiedSeats })
+      );
+    }
+  });
+
+  findImpossibleTravel(taps).forEach((pair) => {
+    candidates.push(toCandidate(`travel_${pair[0].rfidUid}_${pair[0].tappedAt}`, 'impossible_travel', pair));
+  });
+
+  return candidates;
+};
+
+export const reviewProxyTapCase = async (
+  proxyCase: RTDBProxyTapCase,
+  decision: 'confirmed' | 'dismissed',
+  note: string,
+  actor: RTDBActor
+): Promise<void> => {
+  if (proxyCase.status !== 'open') {
+    throw new Error(`Case ${proxyCase.id} has already been ${proxyCase.status}`);
+  }
+  await updateProxyTapCase(proxyCase.id, {
+    status: decision,
+    reviewedBy: actor,
+    reviewedAt: Date.now(),
+    reviewNote: note.trim(),
+  });
+};
@@ -0,0 +1,57 @@
+import { httpsCallable } from 'firebase/functions';
+import { collection, onSnapshot, orderBy, query } from 'firebase/firestore';
+import { db, functions } from '../firebase';
+import { Registration } from '../types';
+
+// Mirrors `RegistrationRequest` in functions/src/registration.ts.
+export interface RegistrationRequest {
+  email: string;
+  password: string;
+  fullName: string;
+  idNumber: string;
+  department: string;
+  role: Registration['role'];
+  mobileNumber: string;
+  rfidUid: string;
+}
+
+const registerAccountCallable = httpsCallable<RegistrationRequest, { uid: string }>(functions, 'registerAccount');
+const reviewRegistrationCallable = httpsCallable<
+  { uid: string; decision: 'approve' | 'reject'; reason?: string },
+  { status: Registration['status'] }
+>(functions, 'reviewRegistration');
+
+const getRegistrationStatusCallable = httpsCallable<
+  { idNumber: string },
+  { status: Extract<Registration['status'], 'pending' | 'rejected'> | null }
+>(functions, 'getRegistrationStatus');
+
+// Runs server-side so the account, application and card hold are written
+// together or not at all. The account stays disabled until approved.
+export const registerAccount = async (request: RegistrationRequest): Promise<string> => {
+  const result = await registerAccountCallable(request);
+  return result.data.uid;
+};
+
+// Whether an ID number has an application still pending or turned down, for
+// the sign-in page, which cannot read applications.
+export const getRegistrationStatus = async (idNumber: string) =>
+  (await getRegistrationStatusCallable({ idNumber })).data.status;
+
+export const approveRegistration = async (uid: string): Promise<void> => {
+  await reviewRegistrationCallable({ uid, decision: 'approve' });
+};
+
+export const rejectRegistration = async (uid: string, reason: string): Promise<void> => {
+  await reviewRegistrationCallable({ uid, decision: 'reject', reason });
+};
+
+export const subscribeToRegistrations = (
+  onData: (registrations: Registration[]) => void,
+  onError: (error: Error) => void
+): (() => void) =>
+  onSnapshot(
+    query(collection(db, 'registrations'), orderBy('createdAt', 'desc')),
+    (snapshot) => onData(snapshot.docs.map((registration) => registration.data() as Registration)),
+    onError
+  );
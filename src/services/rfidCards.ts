@@ -0,0 +1,234 @@
+import { collection, doc, getDoc, getDocs, query, updateDoc, where, writeBatch } from 'firebase/firestore';
+import { db } from '../firebase';
+import { RFIDCardEventType, RFIDCardStatus, RTDBActor, RTDBRfidCard } from '../types/rtdb';
+import {
+  getRfidCard,
+  issueRfidCardRecord,
+  replaceRfidCardRecord,
+  retireRfidCardRecord,
+} from './rtdbRepository';
+import { toRTDBTimestamp } from './attendanceSessions';
+
+export const CARD_STATUS_LABELS: Record<RFIDCardStatus, string> = {
+  pending: 'Awaiting approval',
+  active: 'Active',
+  lost: 'Lost',
+  revoked: 'Revoked',
+  replaced: 'Replaced',
+  expired: 'Expired',
+};
+
+export const CARD_EVENT_LABELS: Record<RFIDCardEventType, string> = {
+  assigned: 'Assigned',
+  issued_temporary: 'Issued as temporary card',
+  reported_lost: 'Reported lost',
+  revoked: 'Revoked',
+  replaced: 'Replaced',
+  expired: 'Expired',
+};
+
+// Firestore collection holding the profile of a card's holder; its `rfidUid`
+// is what the firmware matches taps against.
+const HOLDER_COLLECTIONS: Record<string, string> = {
+  student: 'students',
+  instructor: 'teachers',
+  admin: 'users',
+};
+
+const setHolderCard = async (card: RTDBRfidCard, fromUid: string, toUid: string): Promise<void> => {
+  const collectionName = HOLDER_COLLECTIONS[card.role];
+  if (!card.uid || !collectionName) return;
+  const holderRef = doc(db, collectionName, card.uid);
+  const holder = await getDoc(holderRef);
+  // Only the card the holder currently uses is touched; a stale card being
+  // retired must not clear a newer one.
+  if (holder.exists() && holder.data().rfidUid === fromUid) {
+    await updateDoc(holderRef, { rfidUid: toUid });
+  }
+};
+
+// Firestore batches take at most 500 writes.
+const REPORTS_PER_BATCH = 500;
+
+// Submitted attendance reports name students by card.
+const moveAttendanceReports = async (fromUid: string, toUid: string): Promise<void> => {
+  const reports = await getDocs(query(collection(db, 'attendanceRecords'), where('studentId', '==', fromUid)));
+  for (let start = 0; start < reports.docs.length; start += REPORTS_PER_BATCH) {
+    const batch = writeBatch(db);
+    reports.docs.slice(start, start + REPORTS_PER_BATCH).forEach((report) => {
+      batch.update(report.ref, { studentId: toUid });
+    });
+    await batch.commit();
+  }
+};
+
+const assertActive = (cardUid: string, card: RTDBRfidCard) => {
+  if (card.status !== 'active') {
+    throw new Error(`Card ${cardUid} is already ${CARD_STATUS_LABELS[card.status].toLowerCase()}`);
+  }
+};
+
+// Reported lost or revoked outright; either way the card stops opening doors
+// and the holder is left without one until a replacement is bound.
+export const revokeCard = async (
+  cardUid: string,
+  card: RTDBRfidCard,
+  reason: 'lost' | 'revoked',
+  note: string,
+  actor: RTDBActor
+): Promise<void> => {
+  assertActive(cardUid, card);
+  await retireRfidCardRecord(
+    cardUid,
+    reason,
+    {
+      type: reason === 'lost' ? 'reported_lost' : 'revoked',
+      at: Date.now(),
+      by: actor,
+      holderUid: card.uid,
+      holderRole: card.role,
+      holderName: card.holderName,
+      note: note.trim(),
+    },
+    Date.now()
+  );
+  await setHolderCard(card, cardUid, '');
+};
+
+// Binds `newUid` to the holder of `oldUid`. The old card may already be
+// revoked or lost; a replaced card cannot be replaced twice.
+export const replaceCard = async (
+  oldUid: string,
+  card: RTDBRfidCard,
+  newUid: string,
+  note: string,
+  actor: RTDBActor
+): Promise<void> => {
+  if (card.status === 'replaced') {
+    throw new Error(`Card ${oldUid} was already replaced by ${card.replacedBy}`);
+  }
+  if (card.kind === 'temporary') {
+    throw new Error('Temporary cards are not replaced; issue a new one instead');
+  }
+  if (oldUid === newUid) {
+    throw new Error('The replacement must be a different card');
+  }
+  if (await getRfidCard(newUid)) {
+    throw new Error(`Card ${newUid} is already assigned`);
+  }
+
+  const now = Date.now();
+  const event = {
+    at: now,
+    by: actor,
+    holderUid: card.uid,
+    holderRole: card.role,
+    holderName: card.holderName,
+    note: note.trim(),
+  };
+  await replaceRfidCardRecord(
+    oldUid,
+    newUid,
+    {
+      uid: card.uid,
+      role: card.role,
+      timestamp: now,
+      status: 'active',
+      kind: 'permanent',
+      ...(card.holderName ? { holderName: card.holderName } : {}),
+      replaces: oldUid,
+      updatedAt: now,
+    },
+    {
+      old: { ...event, type: 'replaced', relatedCard: newUid },
+      new: { ...event, type: 'assigned', relatedCard: oldUid },
+    },
+    toRTDBTimestamp(new Date(now))
+  );
+  // A card that was revoked first already cleared the holder's card.
+  await setHolderCard(card, card.status === 'active' ? oldUid : '', newUid);
+  if (card.role === 'student') await moveAttendanceReports(oldUid, newUid);
+};
+
+// Binds a fresh card to a student who has none, e.g. while pairing an
+// imported roster.
+export const assignStudentCard = async (
+  cardUid: string,
+  student: { id: string; fullName: string },
+  note: string,
+  actor: RTDBActor
+): Promise<void> => {
+  if (await getRfidCard(cardUid)) {
+    throw new Error(`Card ${cardUid} is already assigned`);
+  }
+  const now = Date.now();
+  await issueRfidCardRecord(
+    cardUid,
+    {
+      uid: student.id,
+      role: 'student',
+      timestamp: now,
+      status: 'active',
+      kind: 'permanent',
+      holderName: student.fullName,
+      updatedAt: now,
+    },
+    {
+      type: 'assigned',
+      at: now,
+      by: actor,
+      holderUid: student.id,
+      holderRole: 'student',
+      holderName: student.fullName,
+      note,
+    },
+    toRTDBTimestamp(new Date(now))
+  );
+  await updateDoc(doc(db, 'students', student.id), { rfidUid: cardUid });
+};
+
+export interface TemporaryCardRequest {
+  cardUid: string;
+  holderName: string;
+  purpose: string;
+  expiresAt: number;
+}
+
+// Visitor and stand-in cards belong to nobody's account; they are admitted
+// until `expiresAt` and then expired on the server (functions/src/rfidCards.ts).
+export const issueTemporaryCard = async (
+  { cardUid, holderName, purpose, expiresAt }: TemporaryCardRequest,
+  actor: RTDBActor
+): Promise<void> => {
+  const now = Date.now();
+  if (expiresAt <= now) {
+    throw new Error('The expiry must be in the future');
+  }
+  if (await getRfidCard(cardUid)) {
+    throw new Error(`Card ${cardUid} is already assigned`);
+  }
+  await issueRfidCardRecord(
+    cardUid,
+    {
+      uid: '',
+      role: 'visitor',
+      timestamp: now,
+      status: 'active',
+      kind: 'temporary',
+      holderName: holderName.trim(),
+      purpose: purpose.trim(),
+      expiresAt,
+      updatedAt: now,
+    },
+    {
+      type: 'issued_temporary',
+      at: now,
+      by: actor,
+      holderUid: '',
+      holderRole: 'visitor',
+      holderName: holderName.trim(),
+      note: purpose.trim(),
+    },
+    toRTDBTimestamp(new Date(now))
+  );
+};
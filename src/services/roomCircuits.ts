@@ -0,0 +1,73 @@
+import { doc, updateDoc } from 'firebase/firestore';
+import { db } from '../firebase';
+import { DeviceCategory, RoomCircuit } from '../types';
+import { ROOM_PZEM_CHANNEL } from './energyAccounting';
+
+export const DEVICE_CATEGORY_LABELS: Record<DeviceCategory, string> = {
+  lighting: 'Lighting',
+  projection: 'Projection',
+  computers: 'Computers',
+  hvac: 'HVAC',
+  other: 'Other',
+};
+
+// Relays the controller can switch loads with; relay 1 drives the door lock.
+export const LOAD_RELAY_CHANNELS = [2, 3, 4];
+
+interface RoomFacilities {
+  hasProjector: boolean;
+  hasAC: boolean;
+  hasComputers: boolean;
+  hasWifi: boolean;
+}
+
+export const newCircuit = (category: DeviceCategory = 'other', ratedWatts = 0): RoomCircuit => ({
+  id: `circuit-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name: DEVICE_CATEGORY_LABELS[category],
+  category,
+  ratedWatts,
+  relayChannel: null,
+  pzemChannel: ROOM_PZEM_CHANNEL,
+});
+
+// A starting point for rooms that have not declared their circuits, from the
+// facilities they list. Ratings are typical for a classroom, not measured.
+export const defaultCircuitsFor = (facilities?: Partial<RoomFacilities>): RoomCircuit[] => {
+  const circuits: RoomCircuit[] = [{ ...newCircuit('lighting', 400), id: 'lighting', relayChannel: 2 }];
+  if (facilities?.hasProjector) {
+    circuits.push({ ...newCircuit('projection', 300), id: 'projection', name: 'Projector', relayChannel: 3 });
+  }
+  if (facilities?.hasAC) {
+    circuits.push({ ...newCircuit('hvac', 1500), id: 'hvac', name: 'Air Conditioning', relayChannel: 4 });
+  }
+  if (facilities?.hasComputers) {
+    circuits.push({ ...newCircuit('computers', 2000), id: 'computers' });
+  }
+  if (facilities?.hasWifi) {
+    circuits.push({ ...newCircuit('other', 20), id: 'network', name: 'Network' });
+  }
+  return circuits;
+};
+
+// Returns a message describing the first problem, or null when the circuits are usable.
+export const validateRoomCircuits = (circuits: RoomCircuit[]): string | null => {
+  if (circuits.some((circuit) => !circuit.name.trim())) return 'Every circuit needs a name';
+  if (circuits.some((circuit) => !Number.isFinite(circuit.ratedWatts) || circuit.ratedWatts < 0)) {
+    return 'Rated wattage cannot be negative';
+  }
+  const relays = circuits.map((circuit) => circuit.relayChannel).filter((relay): relay is number => relay !== null);
+  if (relays.some((relay) => !LOAD_RELAY_CHANNELS.includes(relay))) {
+    return `Loads can only be on relays ${LOAD_RELAY_CHANNELS.join(', ')}`;
+  }
+  const meters = circuits.map((circuit) => circuit.pzemChannel).filter((meter): meter is number => meter !== null);
+  if (meters.some((meter) => !Number.isInteger(meter) || meter < 1)) {
+    return 'PZEM channels start at 1';
+  }
+  return null;
+};
+
+export const saveRoomCircuits = async (roomId: string, circuits: RoomCircuit[]): Promise<void> => {
+  const problem = validateRoomCircuits(circuits);
+  if (problem) throw new Error(problem);
+  await updateDoc(doc(db, 'rooms', roomId), { circuits });
+};
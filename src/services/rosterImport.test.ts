@@ -0,0 +1,161 @@
+import { arrayRemove, arrayUnion, writeBatch } from 'firebase/firestore';
+import { readSpreadsheet } from '../utils/importUtils';
+import {
+  RosterRow,
+  RosterSection,
+  RosterStudent,
+  applyRosterImport,
+  parseRosterFile,
+  planRosterImport,
+} from './rosterImport';
+
+jest.mock('../firebase', () => ({ db: {} }));
+jest.mock('firebase/firestore', () => ({
+  arrayRemove: jest.fn(),
+  arrayUnion: jest.fn(),
+  collection: jest.fn(),
+  doc: jest.fn(),
+  getDocs: jest.fn(),
+  writeBatch: jest.fn(),
+}));
+jest.mock('../utils/importUtils', () => ({
+  readSpreadsheet: jest.fn(),
+}));
+
+const file = new File([''], 'roster.csv');
+
+const row = (line: number, overrides: Partial<RosterRow> = {}): RosterRow => ({
+  line,
+  idNumber: `2025-000${line}`,
+  fullName: `Student ${line}`,
+  department: 'CCS',
+  yearLevel: '1',
+  section: 'BSIT-1A',
+  ...overrides,
+});
+
+const sections: RosterSection[] = [
+  { id: 'section-a', name: 'BSIT-1A', code: 'IT1A' },
+  { id: 'section-b', name: 'BSIT-1B', code: 'IT1B' },
+];
+
+const student = (overrides: Partial<RosterStudent> = {}): RosterStudent => ({
+  id: 'student-2',
+  idNumber: '2025-0002',
+  fullName: 'Student 2',
+  department: 'CCS',
+  yearLevel: '1',
+  section: 'BSIT-1A',
+  sectionId: 'section-a',
+  rfidUid: 'card-2',
+  ...overrides,
+});
+
+describe('parseRosterFile', () => {
+  it('matches registrar column names in any order and case', async () => {
+    (readSpreadsheet as jest.Mock).mockResolvedValue([
+      ['Block', 'Student_Name', 'Course', 'ID No.', 'Year'],
+      ['BSIT-1A', 'Ana Cruz', 'CCS', '2025-0001', '1'],
+      ['BSIT-1B', 'Ben Reyes', 'CCS', '2025-0002'],
+    ]);
+    expect(await parseRosterFile(file)).toEqual([
+      { line: 2, idNumber: '2025-0001', fullName: 'Ana Cruz', department: 'CCS', yearLevel: '1', section: 'BSIT-1A' },
+      { line: 3, idNumber: '2025-0002', fullName: 'Ben Reyes', department: 'CCS', yearLevel: '', section: 'BSIT-1B' },
+    ]);
+  });
+
+  it('names the columns it could not find', async () => {
+    (readSpreadsheet as jest.Mock).mockResolvedValue([['Name', 'Section', 'Course']]);
+    await expect(parseRosterFile(file)).rejects.toThrow('Missing columns: id number, year level');
+  });
+
+  it('rejects an empty file', async () => {
+    (readSpreadsheet as jest.Mock).mockResolvedValue([]);
+    await expect(parseRosterFile(file)).rejects.toThrow('The file is empty');
+  });
+});
+
+describe('planRosterImport', () => {
+  it('creates new students and leaves matching ones unchanged', () => {
+    const plan = planRosterImport([row(1), row(2)], [student()], sections);
+    expect(plan.map((entry) => entry.action)).toEqual(['create', 'unchanged']);
+    expect(plan[0].section).toBe(sections[0]);
+  });
+
+  it('lists the fields an update changes and the section the student leaves', () => {
+    const [entry] = planRosterImport([row(2, { yearLevel: '2', section: 'it1b' })], [student()], sections);
+    expect(entry).toMatchObject({ action: 'update', changes: ['year level', 'section'], previousSectionId: 'section-a' });
+  });
+
+  it('treats differences in case and spacing of the name as the same student', () => {
+    const [entry] = planRosterImport([row(2, { fullName: ' student  2 ' })], [student()], sections);
+    expect(entry).toMatchObject({ action: 'update', changes: ['name'] });
+  });
+
+  it('does not remove a student from a section that no longer exists', () => {
+    const [entry] = planRosterImport([row(2, { section: 'BSIT-1B' })], [student({ sectionId: 'gone' })], sections);
+    expect(entry.previousSectionId).toBeUndefined();
+  });
+
+  it('flags rows that cannot be imported', () => {
+    const plan = planRosterImport(
+      [
+        row(1, { fullName: '' }),
+        row(2, { fullName: 'Someone Else' }),
+        row(3, { section: 'BSCS-4Z' }),
+        row(4),
+        row(5, { idNumber: '2025-0004' }),
+      ],
+      [student()],
+      sections
+    );
+    expect(plan.map((entry) => entry.reason)).toEqual([
+      'ID number and name are required',
+      'ID number belongs to Student 2',
+      'Unknown section "BSCS-4Z"',
+      undefined,
+      'Duplicate of line 4',
+    ]);
+    expect(plan[1].existing).toEqual(student());
+  });
+});
+
+describe('applyRosterImport', () => {
+  const batch = { set: jest.fn(), update: jest.fn(), commit: jest.fn() };
+
+  beforeEach(() => {
+    const { doc, collection } = jest.requireMock('firebase/firestore');
+    (doc as jest.Mock).mockImplementation((_parent: unknown, path?: string, id?: string) => ({ id: id || 'new-id', path }));
+    (collection as jest.Mock).mockReturnValue({});
+    (writeBatch as jest.Mock).mockReturnValue(batch);
+    (arrayUnion as jest.Mock).mockImplementation((name: string) => ({ union: name }));
+    (arrayRemove as jest.Mock).mockImplementation((name: string) => ({ remove: name }));
+  });
+
+  it('writes creates and updates, moves section membership and skips conflicts', async () => {
+    const plan = planRosterImport(
+      [row(1), row(2, { section: 'BSIT-1B' }), row(3, { fullName: '' })],
+      [student()],
+      sections
+    );
+
+    const imported = await applyRosterImport(plan);
+
+    expect(imported).toEqual([
+      { id: 'new-id', fullName: 'Student 1', rfidUid: '' },
+      { id: 'student-2', fullName: 'Student 2', rfidUid: 'card-2' },
+    ]);
+    expect(batch.set).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'new-id' }),
+      expect.objectContaining({ idNumber: '2025-0001', role: 'student', sectionId: 'section-a' })
+    );
+    expect(batch.update).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'student-2' }),
+      expect.objectContaining({ section: 'BSIT-1B', sectionId: 'section-b' })
+    );
+    expect(batch.update).toHaveBeenCalledWith({ id: 'section-a', path: 'sections' }, { students: { union: 'Student 1' } });
+    expect(batch.update).toHaveBeenCalledWith({ id: 'section-b', path: 'sections' }, { students: { union: 'Student 2' } });
+    expect(batch.update).toHaveBeenCalledWith({ id: 'section-a', path: 'sections' }, { students: { remove: 'Student 2' } });
+    expect(batch.commit).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,206 @@
+import { arrayRemove, arrayUnion, collection, doc, getDocs, writeBatch } from 'firebase/firestore';
+import { db } from '../firebase';
+import { readSpreadsheet } from '../utils/importUtils';
+
+export interface RosterRow {
+  line: number; // 1-based line in the file, for error messages
+  idNumber: string;
+  fullName: string;
+  department: string;
+  yearLevel: string;
+  section: string;
+}
+
+export interface RosterStudent {
+  id: string;
+  idNumber: string;
+  fullName: string;
+  department: string;
+  yearLevel: string;
+  section: string;
+  sectionId: string;
+  rfidUid: string;
+}
+
+export interface RosterSection {
+  id: string;
+  name: string;
+  code: string;
+}
+
+export type RosterAction = 'create' | 'update' | 'unchanged' | 'conflict';
+
+export interface RosterPlanEntry {
+  row: RosterRow;
+  action: RosterAction;
+  existing?: RosterStudent;
+  section?: RosterSection;
+  previousSectionId?: string; // section the student leaves, when it still exists
+  changes: string[]; // fields an update would change
+  reason?: string; // why a conflict cannot be imported
+}
+
+// Registrar exports name their columns differently; matched case-insensitively.
+const COLUMN_ALIASES: Record<Exclude<keyof RosterRow, 'line'>, string[]> = {
+  idNumber: ['id number', 'id no', 'id', 'student id', 'student number', 'idnumber'],
+  fullName: ['name', 'full name', 'student name', 'fullname'],
+  department: ['department', 'course', 'program'],
+  yearLevel: ['year level', 'year', 'yearlevel'],
+  section: ['section', 'section name', 'block'],
+};
+
+const normalize = (value: string) => value.toLowerCase().replace(/[_.]/g, ' ').replace(/\s+/g, ' ').trim();
+
+export const parseRosterFile = async (file: File): Promise<RosterRow[]> => {
+  const [header, ...rows] = await readSpreadsheet(file);
+  if (!header) throw new Error('The file is empty');
+
+  const headings = header.map(normalize);
+  const columns = Object.fromEntries(
+    Object.entries(COLUMN_ALIASES).map(([field, aliases]) => [field, headings.findIndex((h) => aliases.includes(h))])
+  ) as Record<keyof typeof COLUMN_ALIASES, number>;
+  const missing = Object.entries(columns)
+    .filter(([, index]) => index === -1)
+    .map(([field]) => COLUMN_ALIASES[field as keyof typeof COLUMN_ALIASES][0]);
+  if (missing.length > 0) {
+    throw new Error(`Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`);
+  }
+
+  return rows.map((cells, index) => ({
+    line: index + 2,
+    idNumber: cells[columns.idNumber] || '',
+    fullName: cells[columns.fullName] || '',
+    department: cells[columns.department] || '',
+    yearLevel: cells[columns.yearLevel] || '',
+    section: cells[columns.section] || '',
+  }));
+};
+
+export const fetchRosterContext = async (): Promise<{ students: RosterStudent[]; sections: RosterSection[] }> => {
+  const [studentsSnapshot, sectionsSnapshot] = await Promise.all([
+    getDocs(collection(db, 'students')),
+    getDocs(collection(db, 'sections')),
+  ]);
+  return {
+    students: studentsSnapshot.docs.map((student) => ({
+      id: student.id,
+      idNumber: student.data().idNumber || '',
+      fullName: student.data().fullName || '',
+      department: student.data().department || '',
+      yearLevel: student.data().yearLevel || '',
+      section: student.data().section || '',
+      sectionId: student.data().sectionId || '',
+      rfidUid: student.data().rfidUid || '',
+    })),
+    sections: sectionsSnapshot.docs.map((section) => ({
+      id: section.id,
+      name: section.data().name || '',
+      code: section.data().code || '',
+    })),
+  };
+};
+
+const namesMatch = (a: string, b: string) => normalize(a) === normalize(b);
+
+/**
+ * Decides what importing each row would do. An ID number that already
+ * belongs to a differently named student is a conflict rather than an
+ * update, since it usually means a typo in one of the two.
+ */
+export const planRosterImport = (
+  rows: RosterRow[],
+  students: RosterStudent[],
+  sections: RosterSection[]
+): RosterPlanEntry[] => {
+  const byIdNumber = new Map(students.map((student) => [student.idNumber, student]));
+  const seen = new Map<string, number>();
+
+  return rows.map((row): RosterPlanEntry => {
+    const conflict = (reason: string): RosterPlanEntry => ({ row, action: 'conflict', changes: [], reason });
+
+    if (!row.idNumber || !row.fullName) return conflict('ID number and name are required');
+    if (seen.has(row.idNumber)) return conflict(`Duplicate of line ${seen.get(row.idNumber)}`);
+    seen.set(row.idNumber, row.line);
+
+    const section = sections.find((s) => namesMatch(s.name, row.section) || (s.code && namesMatch(s.code, row.section)));
+    if (row.section && !section) return conflict(`Unknown section "${row.section}"`);
+
+    const existing = byIdNumber.get(row.idNumber);
+    if (!existing) return { row, action: 'create', section, changes: [] };
+    if (!namesMatch(existing.fullName, row.fullName)) {
+      return { ...conflict(`ID number belongs to ${existing.fullName}`), existing };
+    }
+
+    const changes = [
+      existing.fullName !== row.fullName && 'name',
+      existing.department !== row.department && 'department',
+      existing.yearLevel !== row.yearLevel && 'year level',
+      section && existing.sectionId !== section.id && 'section',
+    ].filter((change): change is string => Boolean(change));
+    const previousSectionId =
+      section && existing.sectionId !== section.id && sections.some((s) => s.id === existing.sectionId)
+        ? existing.sectionId
+        : undefined;
+    return { row, action: changes.length > 0 ? 'update' : 'unchanged', existing, section, previousSectionId, changes };
+  });
+};
+
+export interface ImportedStudent {
+  id: string;
+  fullName: string;
+  rfidUid: string;
+}
+
+// Firestore caps a batch at 500 writes; each row takes up to three.
+const ROWS_PER_BATCH = 150;
+
+/**
+ * Writes the creates and updates of a plan and keeps each section's
+ * `students` list in step. Returns every imported student in file order,
+ * ready for card pairing. Conflicts are skipped.
+ */
+export const applyRosterImport = async (plan: RosterPlanEntry[]): Promise<ImportedStudent[]> => {
+  const imported: ImportedStudent[] = [];
+  const now = new Date().toISOString();
+
+  for (let start = 0; start < plan.length; start += ROWS_PER_BATCH) {
+    const batch = writeBatch(db);
+    plan.slice(start, start + ROWS_PER_BATCH).forEach(({ row, action, existing, section, previousSectionId }) => {
+      if (action === 'conflict') return;
+
+      const studentRef = existing ? doc(db, 'students', existing.id) : doc(collection(db, 'students'));
+      const sectionFields = section ? { section: section.name, sectionId: section.id } : {};
+      if (action === 'create') {
+        batch.set(studentRef, {
+          fullName: row.fullName,
+          idNumber: row.idNumber,
+          department: row.department,
+          yearLevel: row.yearLevel,
+          role: 'student',
+          rfidUid: '',
+          ...sectionFields,
+          createdAt: now,
+          importedAt: now,
+        });
+      } else if (action === 'update') {
+        batch.update(studentRef, {
+          fullName: row.fullName,
+          department: row.department,
+          yearLevel: row.yearLevel,
+          ...sectionFields,
+          importedAt: now,
+        });
+      }
+
+      if (section && existing?.sectionId !== section.id) {
+        batch.update(doc(db, 'sections', section.id), { students: arrayUnion(row.fullName) });
+        if (existing && previousSectionId) {
+          batch.update(doc(db, 'sections', previousSectionId), { students: arrayRemove(existing.fullName) });
+        }
+      }
+      imported.push({ id: studentRef.id, fullName: row.fullName, rfidUid: existing?.rfidUid || '' });
+    });
+    await batch.commit();
+  }
+  return imported;
+};
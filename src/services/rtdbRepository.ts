@@ -0,0 +1,1132 @@
+import {
+  ref,
+  onValue,
+  get,
+  set,
+  update,
+  push,
+  remove,
+  query,
+  orderByChild,
+  orderByKey,
+  equalTo,
+  startAt,
+  endAt,
+  runTransaction,
+} from 'firebase/database';
+import { ValidateFunction } from 'ajv';
+import { rtdb } from '../firebase';
+import {
+  RTDBAdminPZEMReading,
+  RTDBAttendanceAppeal,
+  RTDBAttendanceCorrection,
+  RTDBAttendanceRecord,
+  RTDBAttendanceSession,
+  RTDBClassStatus,
+  RTDBEnergyRollup,
+  RTDBEnergyRoom,
+  RTDBEnergySample,
+  RTDBIdleEnergyIncident,
+  RTDBInstructor,
+  RTDBPresenceFlag,
+  RTDBProxyTapCase,
+  RTDBRfidCard,
+  RTDBRfidCardEvent,
+  RTDBSessionSummary,
+  RTDBStudent,
+  RTDBTamperAlert,
+  RTDBTamperIncident,
+  RTDBUserSession,
+  RTDBWeightSensor,
+} from '../types/rtdb';
+import {
+  formatSchemaErrors,
+  validateAdminPZEMReading,
+  validateAttendanceAppeal,
+  validateAttendanceCorrection,
+  validateAttendanceRecord,
+  validateAttendanceSession,
+  validateClassStatus,
+  validateEnergyRollup,
+  validateEnergyRoom,
+  validateEnergySample,
+  validateIdleEnergyIncident,
+  validateLegacyAttendanceRecord,
+  validatePresenceFlag,
+  validateProxyTapCase,
+  validateRfidCard,
+  validateRfidCardEvent,
+  validateTamperAlert,
+  validateTamperIncident,
+  validateUserSession,
+  validateWeightSensor,
+} from './rtdbSchemas';
+
+// Thrown when a node in the Realtime Database does not match the shape the
+// dashboard expects, e.g. after a firmware change renamed a field.
+export class RTDBSchemaError extends Error {
+  path: string;
+
+  constructor(path: string, details: string) {
+    super(`Unexpected data at ${path}: ${details}`);
+    this.name = 'RTDBSchemaError';
+    this.path = path;
+  }
+}
+
+type Unsubscribe = () => void;
+type ErrorHandler = (error: Error) => void;
+export type EnergyResolution = 'hourly' | 'daily';
+
+export const rtdbPaths = {
+  students: () => '/Students',
+  student: (rfidUid: string) => `/Students/${rfidUid}`,
+  attendance: (rfidUid: string, sessionId: string) => `/Students/${rfidUid}/Attendance/${sessionId}`,
+  lastSession: (rfidUid: string) => `/Students/${rfidUid}/lastSession`,
+  instructors: () => '/Instructors',
+  instructor: (instructorUid: string) => `/Instructors/${instructorUid}`,
+  classStatus: (instructorUid: string) => `/Instructors/${instructorUid}/ClassStatus`,
+  tamperAlerts: () => '/Alerts/Tamper',
+  tamperAlert: (alertId: string) => `/Alerts/Tamper/${alertId}`,
+  tamperIncidents: () => '/TamperIncidents',
+  tamperIncident: (incidentId: string) => `/TamperIncidents/${incidentId}`,
+  adminPZEM: () => '/AdminPZEM',
+  energyRooms: () => '/EnergyRooms',
+  energyRoom: (roomKey: string) => `/EnergyRooms/${roomKey}`,
+  energySamples: (roomKey: string, day: string) => `/EnergySeries/${roomKey}/samples/${day}`,
+  energyRollups: (roomKey: string, resolution: EnergyResolution) => `/EnergySeries/${roomKey}/${resolution}`,
+  idleEnergy: () => '/IdleEnergy',
+  attendanceSessions: () => '/AttendanceSessions',
+  attendanceSession: (sessionId: string) => `/AttendanceSessions/${sessionId}`,
+  attendanceCorrections: () => '/AttendanceCorrections',
+  studentCorrections: (rfidUid: string) => `/AttendanceCorrections/${rfidUid}`,
+  recordCorrections: (rfidUid: string, sessionId: string) => `/AttendanceCorrections/${rfidUid}/${sessionId}`,
+  attendanceAppeals: () => '/AttendanceAppeals',
+  attendanceAppeal: (appealId: string) => `/AttendanceAppeals/${appealId}`,
+  weightSensors: (roomId: string) => `/WeightSensors/${roomId}`,
+  presenceFlags: (sessionId: string) => `/PresenceFlags/${sessionId}`,
+  presenceFlag: (sessionId: string, flagId: string) => `/PresenceFlags/${sessionId}/${flagId}`,
+  proxyTapCases: () => '/ProxyTapCases',
+  proxyTapCase: (caseId: string) => `/ProxyTapCases/${caseId}`,
+  rfidCards: () => '/rfid',
+  rfidCard: (cardUid: string) => `/rfid/${cardUid}`,
+  rfidCardHistory: (cardUid: string) => `/RFIDCardHistory/${cardUid}`,
+  registeredUid: (cardUid: string) => `/RegisteredUIDs/${cardUid}`,
+  unregisteredUids: () => '/Unregistered',
+  unregisteredUid: (cardUid: string) => `/Unregistered/${cardUid}`,
+  claimsRefresh: (authUid: string) => `/ClaimsRefresh/${authUid}`,
+  userSessions: (authUid: string) => `/UserSessions/${authUid}`,
+  userSession: (authUid: string, sessionId: string) => `/UserSessions/${authUid}/${sessionId}`,
+};
+
+// Schema problems inside a subscribed tree are logged and the offending node
+// skipped; a single bad node should not blank every page. Listener failures
+// (permissions, network) still go to the subscriber's error handler.
+const reportSchemaError = (error: RTDBSchemaError) => {
+  console.error(error.message);
+};
+
+const check = <T>(validate: ValidateFunction<T>, path: string, data: unknown): T => {
+  if (!validate(data)) {
+    throw new RTDBSchemaError(path, formatSchemaErrors(validate.errors));
+  }
+  return data;
+};
+
+const normalizeAttendanceRecord = (path: string, raw: any): RTDBAttendanceRecord => {
+  if (raw && typeof raw === 'object' && !('attendanceInfo' in raw) && 'Status' in raw) {
+    const legacy = check(validateLegacyAttendanceRecord, path, raw);
+    return {
+      allSchedules: legacy.schedules,
+      attendanceInfo: {
+        action: legacy.Action,
+        assignedSensorId: legacy.assignedSensorId,
+        date: legacy.date,
+        sensor: legacy.Sensor,
+        sensorConfirmed: legacy.sensorConfirmed,
+        sessionId: legacy.sessionId,
+        status: legacy.Status,
+        timeIn: legacy['Time In'],
+        timeOut: legacy['Time Out'],
+        timestamp: legacy.timestamp,
+        weight: legacy.weight,
+        weightUnit: legacy.weightUnit,
+      },
+      personalInfo: {
+        department: legacy.department,
+        email: legacy.email,
+        fullName: legacy.fullName,
+        idNumber: legacy.idNumber,
+        mobileNumber: legacy.mobileNumber,
+        role: legacy.role,
+      },
+    };
+  }
+  return check(validateAttendanceRecord, path, raw);
+};
+
+const normalizeClassStatus = (path: string, raw: unknown): RTDBClassStatus => {
+  const status = check(validateClassStatus, path, raw);
+  const roomName = status.schedule?.roomName as unknown;
+  if (status.schedule && typeof roomName === 'string') {
+    status.schedule.roomName = { name: roomName };
+  }
+  return status;
+};
+
+const normalizeTamperAlert = (path: string, raw: unknown): RTDBTamperAlert => {
+  const alert = check(validateTamperAlert, path, raw);
+  // The firmware writes resolverName/resolvedBy, older dashboard code reads
+  // resolvedByFullName/resolvedByUID; keep both populated.
+  return {
+    ...alert,
+    resolvedByFullName: alert.resolvedByFullName || alert.resolverName || undefined,
+    resolvedByUID: alert.resolvedByUID || alert.resolvedBy || undefined,
+  };
+};
+
+const normalizeStudent = (rfidUid: string, raw: any): RTDBStudent => {
+  const student: RTDBStudent = {
+    Profile: raw?.Profile,
+    lastSession: raw?.lastSession,
+  };
+  if (raw?.Attendance) {
+    student.Attendance = {};
+    Object.entries(raw.Attendance).forEach(([sessionId, record]) => {
+      try {
+        student.Attendance![sessionId] = normalizeAttendanceRecord(rtdbPaths.attendance(rfidUid, sessionId), record);
+      } catch (error) {
+        if (!(error instanceof RTDBSchemaError)) throw error;
+        reportSchemaError(error);
+      }
+    });
+  }
+  return student;
+};
+
+const normalizeInstructor = (uid: string, raw: any): RTDBInstructor => {
+  const instructor: RTDBInstructor = {
+    Profile: raw?.Profile,
+    AccessLogs: raw?.AccessLogs,
+  };
+  try {
+    if (raw?.ClassStatus) {
+      instructor.ClassStatus = normalizeClassStatus(rtdbPaths.classStatus(uid), raw.ClassStatus);
+    }
+  } catch (error) {
+    if (!(error instanceof RTDBSchemaError)) throw error;
+    reportSchemaError(error);
+  }
+  if (raw?.ClassHistory) {
+    instructor.ClassHistory = {};
+    Object.entries(raw.ClassHistory).forEach(([key, entry]) => {
+      try {
+        instructor.ClassHistory![key] = normalizeClassStatus(`/Instructors/${uid}/ClassHistory/${key}`, entry);
+      } catch (error) {
+        if (!(error instanceof RTDBSchemaError)) throw error;
+        reportSchemaError(error);
+      }
+    });
+  }
+  return instructor;
+};
+
+// Connection
+
+// Follows the client's connection to the database, which drops with the
+// campus Wi-Fi even when the browser still reports being online.
+export const subscribeToConnection = (onChange: (connected: boolean) => void): Unsubscribe =>
+  onValue(ref(rtdb, '.info/connected'), (snapshot) => onChange(snapshot.val() === true));
+
+// Claims
+
+// Bumped by the functions whenever an account's custom claims change; the
+// value is the server time of the change.
+export const subscribeToClaimsRefresh = (
+  authUid: string,
+  onChange: (changedAt: number | null) => void,
+  onError?: ErrorHandler
+): Unsubscribe =>
+  onValue(
+    ref(rtdb, rtdbPaths.claimsRefresh(authUid)),
+    (snapshot) => onChange(typeof snapshot.val() === 'number' ? snapshot.val() : null),
+    (error) => onError?.(error)
+  );
+
+// User sessions
+
+export const subscribeToUserSessions = (
+  authUid: string,
+  onData: (sessions: Record<string, RTDBUserSession>) => void,
+  onError?: ErrorHandler
+): Unsubscribe =>
+  onValue(
+    ref(rtdb, rtdbPaths.userSessions(authUid)),
+    (snapshot) => {
+      const sessions: Record<string, RTDBUserSession> = {};
+      Object.entries(snapshot.val() || {}).forEach(([sessionId, raw]) => {
+        try {
+          sessions[sessionId] = check(validateUserSession, rtdbPaths.userSession(authUid, sessionId), raw);
+        } catch (error) {
+          if (!(error instanceof RTDBSchemaError)) throw error;
+          reportSchemaError(error);
+        }
+      });
+      onData(sessions);
+    },
+    (error) => onError?.(error)
+  );
+
+// Null once the session has been signed out or removed.
+export const subscribeToUserSession = (
+  authUid: string,
+  sessionId: string,
+  onData: (session: RTDBUserSession | null) => void,
+  onError?: ErrorHandler
+): Unsubscribe =>
+  onValue(
+    ref(rtdb, rtdbPaths.userSession(authUid, sessionId)),
+    (snapshot) => {
+      const path = rtdbPaths.userSession(authUid, sessionId);
+      onData(snapshot.exists() ? check(validateUserSession, path, snapshot.val()) : null);
+    },
+    (error) => onError?.(error)
+  );
+
+export const getUserSession = async (authUid: string, sessionId: string): Promise<RTDBUserSession | null> => {
+  const path = rtdbPaths.userSession(authUid, sessionId);
+  const snapshot = await get(ref(rtdb, path));
+  return snapshot.exists() ? check(validateUserSession, path, snapshot.val()) : null;
+};
+
+export const createUserSession = async (authUid: string, session: RTDBUserSession): Promise<string> => {
+  const sessionRef = push(ref(rtdb, rtdbPaths.userSessions(authUid)));
+  await set(sessionRef, check(validateUserSession, rtdbPaths.userSession(authUid, sessionRef.key as string), session));
+  return sessionRef.key as string;
+};
+
+export const touchUserSession = async (authUid: string, sessionId: string, lastActiveAt: number): Promise<void> => {
+  await update(ref(rtdb, rtdbPaths.userSession(authUid, sessionId)), { lastActiveAt });
+};
+
+// Only the owner revokes this way; admins go through revokeUserSessions, which
+// also records who did it.
+export const revokeUserSessionRecord = async (authUid: string, sessionId: string, revokedAt: number): Promise<void> => {
+  await update(ref(rtdb, rtdbPaths.userSession(authUid, sessionId)), { revokedAt });
+};
+
+export const removeUserSession = async (authUid: string, sessionId: string): Promise<void> => {
+  await remove(ref(rtdb, rtdbPaths.userSession(authUid, sessionId)));
+};
+
+// Students
+
+export const getStudent = async (rfidUid: string): Promise<RTDBStudent | null> => {
+  const snapshot = await get(ref(rtdb, rtdbPaths.student(rfidUid)));
+  return snapshot.exists() ? normalizeStudent(rfidUid, snapshot.val()) : null;
+};
+
+export const subscribeToStudents = (
+  onData: (students: Record<string, RTDBStudent>) => void,
+  onError?: ErrorHandler
+): Unsubscribe =>
+  onValue(
+    ref(rtdb, rtdbPaths.students()),
+    (snapshot) => {
+      const students: Record<string, RTDBStudent> = {};
+      Object.entries(snapshot.val() || {}).forEach(([rfidUid, raw]) => {
+        students[rfidUid] = normalizeStudent(rfidUid, raw);
+      });
+      onData(students);
+    },
+    (error) => onError?.(error)
+  );
+
+export const getAttendanceRecord = async (
+  rfidUid: string,
+  sessionId: string
+): Promise<RTDBAttendanceRecord | null> => {
+  const path = rtdbPaths.attendance(rfidUid, sessionId);
+  const snapshot = await get(ref(rtdb, path));
+  return snapshot.exists() ? normalizeAttendanceRecord(path, snapshot.val()) : null;
+};
+
+// Validates before writing so the dashboard never stores a record its own
+// readers would reject. Corrections to past sessions pass `markLastSession`
+// false so the student's current session pointer is left alone.
+export const writeAttendanceRecord = async (
+  rfidUid: string,
+  sessionId: string,
+  record: RTDBAttendanceRecord,
+  markLastSession: boolean = true
+): Promise<void> => {
+  const path = rtdbPaths.attendance(rfidUid, sessionId);
+  const validated = check(validateAttendanceRecord, path, record);
+  await set(ref(rtdb, path), validated);
+  if (markLastSession) {
+    await set(ref(rtdb, rtdbPaths.lastSession(rfidUid)), sessionId);
+  }
+};
+
+export const updateAttendanceInfo = async (
+  rfidUid: string,
+  sessionId: string,
+  changes: Partial<RTDBAttendanceRecord['attendanceInfo']>
+): Promise<void> => {
+  await update(ref(rtdb, `${rtdbPaths.attendance(rfidUid, sessionId)}/attendanceInfo`), changes);
+};
+
+// Instructors
+
+export const subscribeToInstructors = (
+  onData: (instructors: Record<string, RTDBInstructor>) => void,
+  onError?: ErrorHandler
+): Unsubscribe =>
+  onValue(
+    ref(rtdb, rtdbPaths.instructors()),
+    (snapshot) => {
+      const instructors: Record<string, RTDBInstructor> = {};
+      Object.entries(snapshot.val() || {}).forEach(([uid, raw]) => {
+        instructors[uid] = normalizeInstructor(uid, raw);
+      });
+      onData(instructors);
+    },
+    (error) => onError?.(error)
+  );
+
+export const getClassStatus = async (instructorUid: string): Promise<RTDBClassStatus | null> => {
+  const path = rtdbPaths.classStatus(instructorUid);
+  const snapshot = await get(ref(rtdb, path));
+  return snapshot.exists() ? normalizeClassStatus(path, snapshot.val()) : null;
+};
+
+export const subscribeToClassStatus = (
+  instructorUid: string,
+  onData: (status: RTDBClassStatus | null) => void,
+  onError?: ErrorHandler
+): Unsubscribe => {
+  const path = rtdbPaths.classStatus(instructorUid);
+  return onValue(
+    ref(rtdb, path),
+    (snapshot) => {
+      if (!snapshot.exists()) {
+        onData(null);
+        return;
+      }
+      try {
+        onData(normalizeClassStatus(path, snapshot.val()));
+      } catch (error) {
+        if (!(error instanceof RTDBSchemaError)) throw error;
+        reportSchemaError(error);
+        onData(null);
+      }
+    },
+    (error) => onError?.(error)
+  );
+};
+
+// Tamper alerts
+
+export const subscribeToTamperAlerts = (
+  onData: (alerts: Record<string, RTDBTamperAlert>) => void,
+  onError?: ErrorHandler
+): Unsubscribe =>
+  onValue(
+    ref(rtdb, rtdbPaths.tamperAlerts()),
+    (snapshot) => {
+      const alerts: Record<string, RTDBTamperAlert> = {};
+      Object.entries(snapshot.val() || {}).forEach(([alertId, raw]) => {
+        try {
+          alerts[alertId] = normalizeTamperAlert(rtdbPaths.tamperAlert(alertId), raw);
+        } catch (error) {
+          if (!(error instanceof RTDBSchemaError)) throw error;
+          reportSchemaError(error);
+        }
+      });
+      onData(alerts);
+    },
+    (error) => onError?.(error)
+  );
+
+export const updateTamperAlert = async (alertId: string, changes: Partial<RTDBTamperAlert>): Promise<void> => {
+  await update(ref(rtdb, rtdbPaths.tamperAlert(alertId)), changes);
+};
+
+// Tamper incidents, changed only through the tamperIncidents callables
+
+export const subscribeToTamperIncidents = (
+  onData: (incidents: Record<string, RTDBTamperIncident>) => void,
+  onError?: ErrorHandler
+): Unsubscribe =>
+  onValue(
+    ref(rtdb, rtdbPaths.tamperIncidents()),
+    (snapshot) => {
+      const incidents: Record<string, RTDBTamperIncident> = {};
+      Object.entries(snapshot.val() || {}).forEach(([incidentId, raw]) => {
+        try {
+          incidents[incidentId] = check(validateTamperIncident, rtdbPaths.tamperIncident(incidentId), raw);
+        } catch (error) {
+          if (!(error instanceof RTDBSchemaError)) throw error;
+          reportSchemaError(error);
+        }
+      });
+      onData(incidents);
+    },
+    (error) => onError?.(error)
+  );
+
+// Admin PZEM readings
+
+export const subscribeToAdminPZEM = (
+  onData: (readings: Record<string, Record<string, RTDBAdminPZEMReading>>) => void,
+  onError?: ErrorHandler
+): Unsubscribe =>
+  onValue(
+    ref(rtdb, rtdbPaths.adminPZEM()),
+    (snapshot) => {
+      const readings: Record<string, Record<string, RTDBAdminPZEMReading>> = {};
+      Object.entries(snapshot.val() || {}).forEach(([uid, entries]) => {
+        readings[uid] = {};
+        Object.entries((entries as Record<string, unknown>) || {}).forEach(([key, raw]) => {
+          try {
+            readings[uid][key] = check(validateAdminPZEMReading, `${rtdbPaths.adminPZEM()}/${uid}/${key}`, raw);
+          } catch (error) {
+            if (!(error instanceof RTDBSchemaError)) throw error;
+            reportSchemaError(error);
+          }
+        });
+      });
+      onData(readings);
+    },
+    (error) => onError?.(error)
+  );
+
+// Energy time series
+
+const checkEach = <T>(validate: ValidateFunction<T>, basePath: string, raw: unknown): Record<string, T> => {
+  const nodes: Record<string, T> = {};
+  Object.entries((raw as Record<string, unknown>) || {}).forEach(([key, value]) => {
+    try {
+      nodes[key] = check(validate, `${basePath}/${key}`, value);
+    } catch (error) {
+      if (!(error instanceof RTDBSchemaError)) throw error;
+      reportSchemaError(error);
+    }
+  });
+  return nodes;
+};
+
+export const subscribeToEnergyRooms = (
+  onData: (rooms: Record<string, RTDBEnergyRoom>) => void,
+  onError?: ErrorHandler
+): Unsubscribe =>
+  onValue(
+    ref(rtdb, rtdbPaths.energyRooms()),
+    (snapshot) => onData(checkEach(validateEnergyRoom, rtdbPaths.energyRooms(), snapshot.val())),
+    (error) => onError?.(error)
+  );
+
+// One day's raw samples, keyed by HHMMSS.
+export const subscribeToEnergySamples = (
+  roomKey: string,
+  day: string,
+  onData: (samples: Record<string, RTDBEnergySample>) => void,
+  onError?: ErrorHandler
+): Unsubscribe =>
+  onValue(
+    ref(rtdb, rtdbPaths.energySamples(roomKey, day)),
+    (snapshot) => onData(checkEach(validateEnergySample, rtdbPaths.energySamples(roomKey, day), snapshot.val())),
+    (error) => onError?.(error)
+  );
+
+// Rollups whose keys fall between startKey and endKey inclusive.
+export const subscribeToEnergyRollups = (
+  roomKey: string,
+  resolution: EnergyResolution,
+  startKey: string,
+  endKey: string,
+  onData: (rollups: Record<string, RTDBEnergyRollup>) => void,
+  onError?: ErrorHandler
+): Unsubscribe => {
+  const path = rtdbPaths.energyRollups(roomKey, resolution);
+  return onValue(
+    query(ref(rtdb, path), orderByKey(), startAt(startKey), endAt(endKey)),
+    (snapshot) => onData(checkEach(validateEnergyRollup, path, snapshot.val())),
+    (error) => onError?.(error)
+  );
+};
+
+// Every room's ongoing idle-energy incident and its past ones, newest first.
+export const subscribeToIdleEnergy = (
+  onData: (incidents: RTDBIdleEnergyIncident[]) => void,
+  onError?: ErrorHandler
+): Unsubscribe =>
+  onValue(
+    ref(rtdb, rtdbPaths.idleEnergy()),
+    (snapshot) => {
+      const incidents: RTDBIdleEnergyIncident[] = [];
+      const rooms = (snapshot.val() as Record<string, { open?: unknown; history?: unknown }>) || {};
+      Object.entries(rooms).forEach(([roomKey, room]) => {
+        const basePath = `${rtdbPaths.idleEnergy()}/${roomKey}`;
+        const open = room?.open ? { open: room.open } : {};
+        incidents.push(...Object.values(checkEach(validateIdleEnergyIncident, basePath, open)));
+        incidents.push(...Object.values(checkEach(validateIdleEnergyIncident, `${basePath}/history`, room?.history)));
+      });
+      onData(incidents.sort((a, b) => b.startedAt - a.startedAt));
+    },
+    (error) => onError?.(error)
+  );
+
+// Attendance sessions
+
+const normalizeSessions = (raw: Record<string, unknown> | null): Record<string, RTDBAttendanceSession> => {
+  const sessions: Record<string, RTDBAttendanceSession> = {};
+  Object.entries(raw || {}).forEach(([sessionId, value]) => {
+    try {
+      sessions[sessionId] = check(validateAttendanceSession, rtdbPaths.attendanceSession(sessionId), value);
+    } catch (error) {
+      if (!(error instanceof RTDBSchemaError)) throw error;
+      reportSchemaError(error);
+    }
+  });
+  return sessions;
+};
+
+export const getAttendanceSession = async (sessionId: string): Promise<RTDBAttendanceSession | null> => {
+  const path = rtdbPaths.attendanceSession(sessionId);
+  const snapshot = await get(ref(rtdb, path));
+  return snapshot.exists() ? check(validateAttendanceSession, path, snapshot.val()) : null;
+};
+
+export const getSectionSessions = async (sectionId: string): Promise<Record<string, RTDBAttendanceSession>> => {
+  const snapshot = await get(
+    query(ref(rtdb, rtdbPaths.attendanceSessions()), orderByChild('schedule/sectionId'), equalTo(sectionId))
+  );
+  return normalizeSessions(snapshot.val());
+};
+
+export const subscribeToAttendanceSessions = (
+  onData: (sessions: Record<string, RTDBAttendanceSession>) => void,
+  onError?: ErrorHandler
+): Unsubscribe =>
+  onValue(
+    ref(rtdb, rtdbPaths.attendanceSessions()),
+    (snapshot) => onData(normalizeSessions(snapshot.val())),
+    (error) => onError?.(error)
+  );
+
+export const subscribeToSectionSessions = (
+  sectionId: string,
+  onData: (sessions: Record<string, RTDBAttendanceSession>) => void,
+  onError?: ErrorHandler
+): Unsubscribe =>
+  onValue(
+    query(ref(rtdb, rtdbPaths.attendanceSessions()), orderByChild('schedule/sectionId'), equalTo(sectionId)),
+    (snapshot) => onData(normalizeSessions(snapshot.val())),
+    (error) => onError?.(error)
+  );
+
+// Attendance corrections and appeals
+
+// Applies a correction in one update: the record's new value (null removes
+// it), the entry appended to its history and, when given, the session's summary.
+export const applyAttendanceCorrection = async (
+  rfidUid: string,
+  sessionId: string,
+  correction: RTDBAttendanceCorrection,
+  summary?: RTDBSessionSummary
+): Promise<void> => {
+  const recordPath = rtdbPaths.attendance(rfidUid, sessionId);
+  const correctionRef = push(ref(rtdb, rtdbPaths.recordCorrections(rfidUid, sessionId)));
+  const correctionPath = `${rtdbPaths.recordCorrections(rfidUid, sessionId)}/${correctionRef.key}`;
+  const updates: Record<string, unknown> = {
+    [recordPath]: correction.next ? check(validateAttendanceRecord, recordPath, correction.next) : null,
+    [correctionPath]: check(validateAttendanceCorrection, correctionPath, correction),
+  };
+  if (summary) {
+    updates[`${rtdbPaths.attendanceSession(sessionId)}/summary`] = summary;
+  }
+  await update(ref(rtdb), updates);
+};
+
+// One student's corrections keyed by sessionId, then correction id.
+const normalizeStudentCorrections = (
+  rfidUid: string,
+  raw: Record<string, unknown> | null
+): Record<string, Record<string, RTDBAttendanceCorrection>> => {
+  const corrections: Record<string, Record<string, RTDBAttendanceCorrection>> = {};
+  Object.entries(raw || {}).forEach(([sessionId, entries]) => {
+    Object.entries(entries as Record<string, unknown>).forEach(([correctionId, value]) => {
+      const path = `${rtdbPaths.recordCorrections(rfidUid, sessionId)}/${correctionId}`;
+      try {
+        corrections[sessionId] = corrections[sessionId] || {};
+        corrections[sessionId][correctionId] = check(validateAttendanceCorrection, path, value);
+      } catch (error) {
+        if (!(error instanceof RTDBSchemaError)) throw error;
+        reportSchemaError(error);
+      }
+    });
+  });
+  return corrections;
+};
+
+// Corrections keyed by rfidUid, then sessionId, then correction id.
+export const subscribeToAttendanceCorrections = (
+  onData: (corrections: Record<string, Record<string, Record<string, RTDBAttendanceCorrection>>>) => void,
+  onError?: ErrorHandler
+): Unsubscribe =>
+  onValue(
+    ref(rtdb, rtdbPaths.attendanceCorrections()),
+    (snapshot) => {
+      const corrections: Record<string, Record<string, Record<string, RTDBAttendanceCorrection>>> = {};
+      Object.entries(snapshot.val() || {}).forEach(([rfidUid, sessions]) => {
+        corrections[rfidUid] = normalizeStudentCorrections(rfidUid, sessions as Record<string, unknown>);
+      });
+      onData(corrections);
+    },
+    (error) => onError?.(error)
+  );
+
+export const subscribeToStudentCorrections = (
+  rfidUid: string,
+  onData: (corrections: Record<string, Record<string, RTDBAttendanceCorrection>>) => void,
+  onError?: ErrorHandler
+): Unsubscribe =>
+  onValue(
+    ref(rtdb, rtdbPaths.studentCorrections(rfidUid)),
+    (snapshot) => onData(normalizeStudentCorrections(rfidUid, snapshot.val())),
+    (error) => onError?.(error)
+  );
+
+export const createAttendanceAppeal = async (
+  appeal: Omit<RTDBAttendanceAppeal, 'id'>
+): Promise<RTDBAttendanceAppeal> => {
+  const appealRef = push(ref(rtdb, rtdbPaths.attendanceAppeals()));
+  const id = appealRef.key as string;
+  const validated = check(validateAttendanceAppeal, rtdbPaths.attendanceAppeal(id), { ...appeal, id });
+  await set(appealRef, validated);
+  return validated;
+};
+
+export const getAttendanceAppeal = async (appealId: string): Promise<RTDBAttendanceAppeal | null> => {
+  const path = rtdbPaths.attendanceAppeal(appealId);
+  const snapshot = await get(ref(rtdb, path));
+  return snapshot.exists() ? check(validateAttendanceAppeal, path, snapshot.val()) : null;
+};
+
+const normalizeAppeals = (raw: Record<string, unknown> | null): Record<string, RTDBAttendanceAppeal> => {
+  const appeals: Record<string, RTDBAttendanceAppeal> = {};
+  Object.entries(raw || {}).forEach(([appealId, value]) => {
+    try {
+      appeals[appealId] = check(validateAttendanceAppeal, rtdbPaths.attendanceAppeal(appealId), value);
+    } catch (error) {
+      if (!(error instanceof RTDBSchemaError)) throw error;
+      reportSchemaError(error);
+    }
+  });
+  return appeals;
+};
+
+export const subscribeToAttendanceAppeals = (
+  onData: (appeals: Record<string, RTDBAttendanceAppeal>) => void,
+  onError?: ErrorHandler
+): Unsubscribe =>
+  onValue(
+    ref(rtdb, rtdbPaths.attendanceAppeals()),
+    (snapshot) => onData(normalizeAppeals(snapshot.val())),
+    (error) => onError?.(error)
+  );
+
+export const subscribeToStudentAppeals = (
+  rfidUid: string,
+  onData: (appeals: Record<string, RTDBAttendanceAppeal>) => void,
+  onError?: ErrorHandler
+): Unsubscribe =>
+  onValue(
+    query(ref(rtdb, rtdbPaths.attendanceAppeals()), orderByChild('rfidUid'), equalTo(rfidUid)),
+    (snapshot) => onData(normalizeAppeals(snapshot.val())),
+    (error) => onError?.(error)
+  );
+
+export const updateAttendanceAppeal = async (
+  appealId: string,
+  changes: Partial<Omit<RTDBAttendanceAppeal, 'id'>>
+): Promise<void> => {
+  await update(ref(rtdb, rtdbPaths.attendanceAppeal(appealId)), changes);
+};
+
+// Weight sensors and presence flags
+
+const normalizeWeightSensors = (
+  roomId: string,
+  raw: Record<string, unknown> | null
+): Record<string, RTDBWeightSensor> => {
+  const sensors: Record<string, RTDBWeightSensor> = {};
+  Object.entries(raw || {}).forEach(([sensorId, value]) => {
+    try {
+      sensors[sensorId] = check(validateWeightSensor, `${rtdbPaths.weightSensors(roomId)}/${sensorId}`, value);
+    } catch (error) {
+      if (!(error instanceof RTDBSchemaError)) throw error;
+      reportSchemaError(error);
+    }
+  });
+  return sensors;
+};
+
+export const getWeightSensors = async (roomId: string): Promise<Record<string, RTDBWeightSensor>> => {
+  const snapshot = await get(ref(rtdb, rtdbPaths.weightSensors(roomId)));
+  return normalizeWeightSensors(roomId, snapshot.val());
+};
+
+export const subscribeToWeightSensors = (
+  roomId: string,
+  onData: (sensors: Record<string, RTDBWeightSensor>) => void,
+  onError?: ErrorHandler
+): Unsubscribe =>
+  onValue(
+    ref(rtdb, rtdbPaths.weightSensors(roomId)),
+    (snapshot) => onData(normalizeWeightSensors(roomId, snapshot.val())),
+    (error) => onError?.(error)
+  );
+
+export const subscribeToPresenceFlags = (
+  sessionId: string,
+  onData: (flags: Record<string, RTDBPresenceFlag>) => void,
+  onError?: ErrorHandler
+): Unsubscribe =>
+  onValue(
+    ref(rtdb, rtdbPaths.presenceFlags(sessionId)),
+    (snapshot) => {
+      const flags: Record<string, RTDBPresenceFlag> = {};
+      Object.entries(snapshot.val() || {}).forEach(([flagId, value]) => {
+        try {
+          flags[flagId] = check(validatePresenceFlag, rtdbPaths.presenceFlag(sessionId, flagId), value);
+        } catch (error) {
+          if (!(error instanceof RTDBSchemaError)) throw error;
+          reportSchemaError(error);
+        }
+      });
+      onData(flags);
+    },
+    (error) => onError?.(error)
+  );
+
+// Flag ids are deterministic, so a flag raised by one client is not raised
+// again by another. Resolves to false when the flag already exists.
+export const createPresenceFlag = async (flag: RTDBPresenceFlag): Promise<boolean> => {
+  const path = rtdbPaths.presenceFlag(flag.sessionId, flag.id);
+  const validated = check(validatePresenceFlag, path, flag);
+  const result = await runTransaction(ref(rtdb, path), (current) => (current === null ? validated : undefined));
+  return result.committed;
+};
+
+export const updatePresenceFlag = async (
+  sessionId: string,
+  flagId: string,
+  changes: Partial<Omit<RTDBPresenceFlag, 'id' | 'sessionId'>>
+): Promise<void> => {
+  await update(ref(rtdb, rtdbPaths.presenceFlag(sessionId, flagId)), changes);
+};
+
+// Proxy-tap review cases
+
+// Like presence flags, case ids are deterministic; resolves to false when the
+// case has already been raised.
+export const subscribeToProxyTapCases = (
+  onData: (cases: Record<string, RTDBProxyTapCase>) => void,
+  onError?: ErrorHandler
+): Unsubscribe =>
+  onValue(
+    ref(rtdb, rtdbPaths.proxyTapCases()),
+    (snapshot) => {
+      const cases: Record<string, RTDBProxyTapCase> = {};
+      Object.entries(snapshot.val() || {}).forEach(([caseId, value]) => {
+        try {
+          cases[caseId] = check(validateProxyTapCase, rtdbPaths.proxyTapCase(caseId), value);
+        } catch (error) {
+          if (!(error instanceof RTDBSchemaError)) throw error;
+          reportSchemaError(error);
+        }
+      });
+      onData(cases);
+    },
+    (error) => onError?.(error)
+  );
+
+export const updateProxyTapCase = async (
+  caseId: string,
+  changes: Partial<Omit<RTDBProxyTapCase, 'id'>>
+): Promise<void> => {
+  await update(ref(rtdb, rtdbPaths.proxyTapCase(caseId)), changes);
+};
+
+// RFID cards
+//
+// Card changes touch several trees at once: the card itself, its history, the
+// /RegisteredUIDs list and, for replacements, the student's attendance. The
+// firmware admits cards its Firestore caches do not name, such as temporary
+// cards and fresh replacements, only while they are listed there (see
+// isRegisteredUID in src/code_fixed.ino). Each change is one multi-path
+// update so a failure leaves every tree as it was.
+
+const cardEventUpdate = (cardUid: string, event: RTDBRfidCardEvent): Record<string, RTDBRfidCardEvent> => {
+  const eventId = push(ref(rtdb, rtdbPaths.rfidCardHistory(cardUid))).key as string;
+  const path = `${rtdbPaths.rfidCardHistory(cardUid)}/${eventId}`;
+  // Optional fields left undefined would make the whole update throw.
+  return { [path]: check(validateRfidCardEvent, path, JSON.parse(JSON.stringify(event))) };
+};
+
+export const subscribeToRfidCards = (
+  onData: (cards: Record<string, RTDBRfidCard>) => void,
+  onError?: ErrorHandler
+): Unsubscribe =>
+  onValue(
+    ref(rtdb, rtdbPaths.rfidCards()),
+    (snapshot) => {
+      const cards: Record<string, RTDBRfidCard> = {};
+      Object.entries(snapshot.val() || {}).forEach(([cardUid, value]) => {
+        try {
+          cards[cardUid] = check(validateRfidCard, rtdbPaths.rfidCard(cardUid), value);
+        } catch (error) {
+          if (!(error instanceof RTDBSchemaError)) throw error;
+          reportSchemaError(error);
+        }
+      });
+      onData(cards);
+    },
+    (error) => onError?.(error)
+  );
+
+export const getRfidCard = async (cardUid: string): Promise<RTDBRfidCard | null> => {
+  const path = rtdbPaths.rfidCard(cardUid);
+  const snapshot = await get(ref(rtdb, path));
+  return snapshot.exists() ? check(validateRfidCard, path, snapshot.val()) : null;
+};
+
+export const subscribeToRfidCardHistory = (
+  cardUid: string,
+  onData: (events: Record<string, RTDBRfidCardEvent>) => void,
+  onError?: ErrorHandler
+): Unsubscribe =>
+  onValue(
+    ref(rtdb, rtdbPaths.rfidCardHistory(cardUid)),
+    (snapshot) => {
+      const events: Record<string, RTDBRfidCardEvent> = {};
+      Object.entries(snapshot.val() || {}).forEach(([eventId, value]) => {
+        try {
+          events[eventId] = check(validateRfidCardEvent, `${rtdbPaths.rfidCardHistory(cardUid)}/${eventId}`, value);
+        } catch (error) {
+          if (!(error instanceof RTDBSchemaError)) throw error;
+          reportSchemaError(error);
+        }
+      });
+      onData(events);
+    },
+    (error) => onError?.(error)
+  );
+
+// UIDs the readers have seen but nobody has been given yet.
+export const subscribeToUnregisteredUids = (onData: (uids: string[]) => void, onError?: ErrorHandler): Unsubscribe =>
+  onValue(
+    ref(rtdb, rtdbPaths.unregisteredUids()),
+    (snapshot) => onData(Object.keys(snapshot.val() || {})),
+    (error) => onError?.(error)
+  );
+
+// Gives out a card that has no record yet and lets the readers admit it.
+export const issueRfidCardRecord = async (
+  cardUid: string,
+  card: RTDBRfidCard,
+  event: RTDBRfidCardEvent,
+  registeredAt: string
+): Promise<void> => {
+  const path = rtdbPaths.rfidCard(cardUid);
+  await update(ref(rtdb), {
+    [path]: check(validateRfidCard, path, card),
+    [rtdbPaths.registeredUid(cardUid)]: registeredAt,
+    [rtdbPaths.unregisteredUid(cardUid)]: null,
+    ...cardEventUpdate(cardUid, event),
+  });
+};
+
+// Takes a card out of service; the readers stop admitting it.
+export const retireRfidCardRecord = async (
+  cardUid: string,
+  status: RTDBRfidCard['status'],
+  event: RTDBRfidCardEvent,
+  now: number
+): Promise<void> => {
+  await update(ref(rtdb), {
+    [`${rtdbPaths.rfidCard(cardUid)}/status`]: status,
+    [`${rtdbPaths.rfidCard(cardUid)}/updatedAt`]: now,
+    [rtdbPaths.registeredUid(cardUid)]: null,
+    ...cardEventUpdate(cardUid, event),
+  });
+};
+
+// Validated entries of a snapshot; malformed ones are reported and skipped.
+const checkEntries = <T>(
+  validate: ValidateFunction<T>,
+  pathOf: (key: string) => string,
+  raw: Record<string, unknown> | null
+): Record<string, T> => {
+  const entries: Record<string, T> = {};
+  Object.entries(raw || {}).forEach(([key, value]) => {
+    try {
+      entries[key] = check(validate, pathOf(key), value);
+    } catch (error) {
+      if (!(error instanceof RTDBSchemaError)) throw error;
+      reportSchemaError(error);
+    }
+  });
+  return entries;
+};
+
+// Proxy-tap cases whose id starts with `prefix`; see raiseCase in
+// functions/src/proxyTaps.ts for how ids are built.
+const proxyTapCasesStartingWith = async (prefix: string): Promise<Record<string, RTDBProxyTapCase>> => {
+  const snapshot = await get(
+    query(ref(rtdb, rtdbPaths.proxyTapCases()), orderByKey(), startAt(prefix), endAt(`${prefix}\uf8ff`))
+  );
+  return checkEntries(validateProxyTapCase, rtdbPaths.proxyTapCase, snapshot.val());
+};
+
+// Moves what references a student's card to `newUid`: their place in session
+// rosters and summaries, their appeals, presence flags and proxy-tap evidence.
+// Only sessions that can name the student are read: those they have a record
+// in (`recordKeys`, the keys under their Attendance) and those not finalized
+// yet; then the flags and burst cases of those sessions and the student's own
+// travel cases.
+const studentReferenceUpdates = async (
+  oldUid: string,
+  newUid: string,
+  recordKeys: string[]
+): Promise<Record<string, unknown>> => {
+  const sessionsRef = ref(rtdb, rtdbPaths.attendanceSessions());
+  const [appeals, ...unfinished] = await Promise.all([
+    get(query(ref(rtdb, rtdbPaths.attendanceAppeals()), orderByChild('rfidUid'), equalTo(oldUid))),
+    ...(['open', 'grace', 'closed'] as const).map((state) =>
+      get(query(sessionsRef, orderByChild('state'), equalTo(state)))
+    ),
+  ]);
+  const sessions: Record<string, RTDBAttendanceSession> = Object.assign(
+    {},
+    ...unfinished.map((snapshot) => normalizeSessions(snapshot.val()))
+  );
+  // Firmware keys among the record keys simply find no session.
+  const recorded = await Promise.all(
+    recordKeys.filter((sessionId) => !sessions[sessionId]).map((sessionId) => getAttendanceSession(sessionId))
+  );
+  recorded.forEach((session) => {
+    if (session) sessions[session.id] = session;
+  });
+  const sessionIds = Object.keys(sessions);
+
+  const [flagsBySession, caseGroups] = await Promise.all([
+    Promise.all(
+      sessionIds.map(async (sessionId) => {
+        const snapshot = await get(ref(rtdb, rtdbPaths.presenceFlags(sessionId)));
+        return checkEntries<RTDBPresenceFlag>(
+          validatePresenceFlag,
+          (flagId) => rtdbPaths.presenceFlag(sessionId, flagId),
+          snapshot.val()
+        );
+      })
+    ),
+    Promise.all(
+      [`travel_${oldUid}_`, ...sessionIds.map((sessionId) => `burst_${sessionId}_`)].map(proxyTapCasesStartingWith)
+    ),
+  ]);
+  const updates: Record<string, unknown> = {};
+
+  Object.entries(sessions).forEach(([sessionId, session]) => {
+    const path = rtdbPaths.attendanceSession(sessionId);
+    if (session.roster?.[oldUid]) {
+      updates[`${path}/roster/${newUid}`] = session.roster[oldUid];
+      updates[`${path}/roster/${oldUid}`] = null;
+    }
+    if (session.summary?.statuses[oldUid]) {
+      updates[`${path}/summary/statuses/${newUid}`] = session.summary.statuses[oldUid];
+      updates[`${path}/summary/statuses/${oldUid}`] = null;
+    }
+  });
+  Object.keys(appeals.val() || {}).forEach((appealId) => {
+    updates[`${rtdbPaths.attendanceAppeal(appealId)}/rfidUid`] = newUid;
+  });
+  flagsBySession.forEach((flags) =>
+    Object.values(flags).forEach((flag) => {
+      if (flag.rfidUid === oldUid) updates[`${rtdbPaths.presenceFlag(flag.sessionId, flag.id)}/rfidUid`] = newUid;
+    })
+  );
+  caseGroups.forEach((cases) =>
+    Object.entries(cases).forEach(([caseId, proxyCase]) =>
+      proxyCase.taps.forEach((tap, index) => {
+        if (tap.rfidUid === oldUid) updates[`${rtdbPaths.proxyTapCase(caseId)}/taps/${index}/rfidUid`] = newUid;
+      })
+    )
+  );
+  return updates;
+};
+
+// Retires `oldUid` in favour of `newUid` in one update. A student's attendance
+// history, corrections and the records that reference them follow them, as
+// does an instructor's door profile, so their records stay under the card they use.
+export const replaceRfidCardRecord = async (
+  oldUid: string,
+  newUid: string,
+  newCard: RTDBRfidCard,
+  events: { old: RTDBRfidCardEvent; new: RTDBRfidCardEvent },
+  registeredAt: string
+): Promise<void> => {
+  const updates: Record<string, unknown> = {
+    [`${rtdbPaths.rfidCard(oldUid)}/status`]: 'replaced',
+    [`${rtdbPaths.rfidCard(oldUid)}/replacedBy`]: newUid,
+    [`${rtdbPaths.rfidCard(oldUid)}/updatedAt`]: newCard.updatedAt,
+    [rtdbPaths.registeredUid(oldUid)]: null,
+    [rtdbPaths.rfidCard(newUid)]: check(validateRfidCard, rtdbPaths.rfidCard(newUid), newCard),
+    [rtdbPaths.registeredUid(newUid)]: registeredAt,
+    [rtdbPaths.unregisteredUid(newUid)]: null,
+    ...cardEventUpdate(oldUid, events.old),
+    ...cardEventUpdate(newUid, events.new),
+  };
+
+  if (newCard.role === 'student') {
+    const [student, corrections, existing] = await Promise.all([
+      get(ref(rtdb, rtdbPaths.student(oldUid))),
+      get(ref(rtdb, rtdbPaths.studentCorrections(oldUid))),
+      get(ref(rtdb, rtdbPaths.student(newUid))),
+    ]);
+    if (existing.exists()) {
+      throw new Error(`Card ${newUid} already has student records`);
+    }
+    const references = await studentReferenceUpdates(oldUid, newUid, Object.keys(student.val()?.Attendance || {}));
+    if (student.exists()) {
+      updates[rtdbPaths.student(newUid)] = student.val();
+      updates[rtdbPaths.student(oldUid)] = null;
+    }
+    // Correction history is append-only, so it is copied entry by entry and
+    // the old card's copy stays where it is.
+    Object.entries<Record<string, unknown>>(corrections.val() || {}).forEach(([sessionId, entries]) =>
+      Object.entries(entries || {}).forEach(([correctionId, correction]) => {
+        updates[`${rtdbPaths.recordCorrections(newUid, sessionId)}/${correctionId}`] = correction;
+      })
+    );
+    Object.assign(updates, references);
+  }
+
+  if (newCard.role === 'instructor') {
+    const [instructor, existing] = await Promise.all([
+      get(ref(rtdb, rtdbPaths.instructor(oldUid))),
+      get(ref(rtdb, rtdbPaths.instructor(newUid))),
+    ]);
+    if (existing.exists()) {
+      throw new Error(`Card ${newUid} already has instructor records`);
+    }
+    if (instructor.exists()) {
+      updates[rtdbPaths.instructor(newUid)] = instructor.val();
+      updates[rtdbPaths.instructor(oldUid)] = null;
+    }
+  }
+
+  await update(ref(rtdb), updates);
+};
@@ -0,0 +1,559 @@
+import Ajv, { ErrorObject } from 'ajv';
+import {
+  RTDBAdminPZEMReading,
+  RTDBAttendanceAppeal,
+  RTDBAttendanceCorrection,
+  RTDBAttendanceRecord,
+  RTDBAttendanceSession,
+  RTDBClassStatus,
+  RTDBEnergyRollup,
+  RTDBEnergyRoom,
+  RTDBEnergySample,
+  RTDBIdleEnergyIncident,
+  RTDBPresenceFlag,
+  RTDBProxyTapCase,
+  RTDBPzemReading,
+  RTDBRfidCard,
+  RTDBRfidCardEvent,
+  RTDBTamperAlert,
+  RTDBTamperIncident,
+  RTDBUserSession,
+  RTDBWeightSensor,
+} from '../types/rtdb';
+import { DEFAULT_ATTENDANCE_POLICY } from './attendancePolicy';
+
+// The firmware writes numbers as formatted strings in some places and as raw
+// numbers in others, so types are coerced and missing optional fields defaulted
+// rather than rejected. Missing required fields are what we want to catch.
+const ajv = new Ajv({ allErrors: true, coerceTypes: true, useDefaults: true, strict: false });
+
+const optionalString = { type: 'string', default: '' };
+
+const scheduleEntrySchema = {
+  type: 'object',
+  required: ['day', 'startTime', 'endTime', 'section', 'subjectCode'],
+  properties: {
+    day: { type: 'string' },
+    startTime: { type: 'string' },
+    endTime: { type: 'string' },
+    instructorName: optionalString,
+    roomName: optionalString,
+    section: { type: 'string' },
+    sectionId: optionalString,
+    subject: optionalString,
+    subjectCode: { type: 'string' },
+  },
+};
+
+const pzemReadingSchema = {
+  type: 'object',
+  required: ['voltage', 'current', 'power', 'energy', 'timestamp'],
+  properties: {
+    voltage: { type: 'string' },
+    current: { type: 'string' },
+    power: { type: 'string' },
+    energy: { type: 'string' },
+    frequency: { type: 'string', default: '0' },
+    powerFactor: { type: 'string', default: '0' },
+    timestamp: { type: 'string' },
+    action: { type: 'string' },
+    calculatedEnergy: { type: 'string' },
+    sessionDuration: { type: 'string' },
+    startEnergy: { type: 'string' },
+    startTimestamp: { type: 'string' },
+  },
+};
+
+const attendanceRecordSchema = {
+  type: 'object',
+  required: ['attendanceInfo', 'personalInfo'],
+  properties: {
+    allSchedules: { type: 'array', items: scheduleEntrySchema, default: [] },
+    attendanceInfo: {
+      type: 'object',
+      required: ['status', 'timestamp'],
+      properties: {
+        action: optionalString,
+        assignedSensorId: { type: ['string', 'number'], default: '' },
+        date: optionalString,
+        sensor: optionalString,
+        sensorConfirmed: { type: 'boolean', default: false },
+        sessionId: optionalString,
+        status: { type: 'string' },
+        timeIn: optionalString,
+        timeOut: optionalString,
+        timestamp: { type: 'string' },
+        weight: { type: 'number', default: 0 },
+        weightUnit: { type: 'string', default: 'kg' },
+      },
+    },
+    personalInfo: {
+      type: 'object',
+      required: ['fullName'],
+      properties: {
+        department: optionalString,
+        email: optionalString,
+        fullName: { type: 'string' },
+        idNumber: optionalString,
+        mobileNumber: optionalString,
+        role: { type: 'string', default: 'student' },
+      },
+    },
+  },
+};
+
+// Older firmware builds write the attendance fields flat on the session node.
+const legacyAttendanceRecordSchema = {
+  type: 'object',
+  required: ['Status', 'timestamp', 'fullName'],
+  properties: {
+    Action: optionalString,
+    Status: { type: 'string' },
+    'Time In': optionalString,
+    'Time Out': optionalString,
+    Sensor: optionalString,
+    assignedSensorId: { type: ['string', 'number'], default: '' },
+    date: optionalString,
+    sessionId: optionalString,
+    timestamp: { type: 'string' },
+    sensorConfirmed: { type: 'boolean', default: false },
+    weight: { type: 'number', default: 0 },
+    weightUnit: { type: 'string', default: 'kg' },
+    department: optionalString,
+    email: optionalString,
+    fullName: { type: 'string' },
+    idNumber: optionalString,
+    mobileNumber: optionalString,
+    role: { type: 'string', default: 'student' },
+    schedules: { type: 'array', items: scheduleEntrySchema, default: [] },
+  },
+};
+
+const classStatusSchema = {
+  type: 'object',
+  required: ['Status'],
+  properties: {
+    Status: { type: 'string' },
+    dateTime: optionalString,
+    schedule: {
+      type: 'object',
+      required: ['day', 'startTime', 'endTime', 'section', 'subjectCode', 'roomName'],
+      properties: {
+        day: { type: 'string' },
+        startTime: { type: 'string' },
+        endTime: { type: 'string' },
+        section: { type: 'string' },
+        subject: optionalString,
+        subjectCode: { type: 'string' },
+        roomName: {
+          anyOf: [
+            { type: 'string' },
+            {
+              type: 'object',
+              required: ['name'],
+              properties: { name: { type: 'string' }, pzem: pzemReadingSchema },
+            },
+          ],
+        },
+      },
+    },
+  },
+};
+
+const tamperAlertSchema = {
+  type: 'object',
+  required: ['startTime', 'status'],
+  properties: {
+    startTime: { type: 'string' },
+    status: { type: 'string' },
+    endTime: { type: 'string' },
+    detectedAt: { type: 'string' },
+    deviceId: { type: 'string' },
+    alertType: { type: 'string' },
+    resolvedBy: { type: 'string' },
+    resolverName: { type: 'string' },
+    resolverRole: { type: 'string' },
+    resolutionTime: { type: 'string' },
+    resolvedByFullName: { type: 'string' },
+    resolvedByUID: { type: 'string' },
+  },
+};
+
+const adminPZEMReadingSchema = {
+  type: 'object',
+  required: ['Current', 'Energy', 'Power', 'Voltage', 'timestamp', 'roomDetails'],
+  properties: {
+    Current: { type: 'string' },
+    Energy: { type: 'string' },
+    Frequency: { type: 'string', default: '0' },
+    Power: { type: 'string' },
+    PowerFactor: { type: 'string', default: '0' },
+    Voltage: { type: 'string' },
+    timestamp: { type: 'string' },
+    roomDetails: {
+      type: 'object',
+      required: ['name'],
+      properties: {
+        building: optionalString,
+        floor: optionalString,
+        name: { type: 'string' },
+        status: optionalString,
+        type: optionalString,
+      },
+    },
+  },
+};
+
+const energyMetricStatsSchema = {
+  type: 'object',
+  required: ['min', 'max', 'sum'],
+  properties: {
+    min: { type: 'number' },
+    max: { type: 'number' },
+    sum: { type: 'number' },
+  },
+};
+
+const energySampleSchema = {
+  type: 'object',
+  required: ['voltage', 'current', 'power', 'energy'],
+  properties: {
+    voltage: { type: 'number' },
+    current: { type: 'number' },
+    power: { type: 'number' },
+    energy: { type: 'number' },
+    frequency: { type: 'number', default: 0 },
+    powerFactor: { type: 'number', default: 0 },
+    room: optionalString,
+    source: optionalString,
+  },
+};
+
+const energyRollupSchema = {
+  type: 'object',
+  required: ['count', 'energyKWh', 'voltage', 'current', 'power', 'frequency', 'powerFactor'],
+  properties: {
+    count: { type: 'number' },
+    energyKWh: { type: 'number' },
+    voltage: energyMetricStatsSchema,
+    current: energyMetricStatsSchema,
+    power: energyMetricStatsSchema,
+    frequency: energyMetricStatsSchema,
+    powerFactor: energyMetricStatsSchema,
+  },
+};
+
+const energyRoomSchema = {
+  type: 'object',
+  required: ['name'],
+  properties: {
+    name: { type: 'string' },
+    lastSampleKey: optionalString,
+  },
+};
+
+const idleEnergyIncidentSchema = {
+  type: 'object',
+  required: ['roomKey', 'roomName', 'reason', 'startKey', 'startedAt', 'lastAt', 'wastedKWh', 'wastedCost'],
+  properties: {
+    roomKey: { type: 'string' },
+    roomName: { type: 'string' },
+    reason: { type: 'string', enum: ['after_class', 'outside_schedule', 'room_empty'] },
+    startKey: { type: 'string' },
+    startedAt: { type: 'number' },
+    lastAt: { type: 'number' },
+    lastPowerW: { type: 'number', default: 0 },
+    peakPowerW: { type: 'number', default: 0 },
+    measuredKWh: { type: 'number', default: 0 },
+    measuredCost: { type: 'number', default: 0 },
+    scalingFactor: { type: 'number', default: 1 },
+    wastedKWh: { type: 'number' },
+    wastedCost: { type: 'number' },
+    alertedAt: { type: 'number' },
+    endedAt: { type: 'number' },
+  },
+};
+
+const attendanceSessionSchema = {
+  type: 'object',
+  required: ['id', 'state', 'schedule', 'instructor', 'scheduledStart', 'scheduledEnd', 'openedAt'],
+  properties: {
+    id: { type: 'string' },
+    state: { type: 'string', enum: ['open', 'grace', 'closed', 'finalized'] },
+    schedule: {
+      type: 'object',
+      required: ['subjectCode', 'sectionId', 'sectionName', 'startTime', 'endTime'],
+      properties: {
+        subjectId: optionalString,
+        subjectCode: { type: 'string' },
+        subjectName: optionalString,
+        sectionId: { type: 'string' },
+        sectionName: { type: 'string' },
+        day: optionalString,
+        startTime: { type: 'string' },
+        endTime: { type: 'string' },
+      },
+    },
+    roomId: optionalString,
+    instructor: {
+      type: 'object',
+      required: ['uid'],
+      properties: { uid: { type: 'string' }, fullName: optionalString },
+    },
+    // RTDB drops empty objects, so an empty roster comes back missing.
+    roster: {
+      type: 'object',
+      default: {},
+      additionalProperties: {
+        type: 'object',
+        properties: { studentName: optionalString, idNumber: optionalString },
+      },
+    },
+    // Sessions opened before policies existed get the defaults.
+    policy: {
+      type: 'object',
+      default: {},
+      properties: Object.fromEntries(
+        Object.entries(DEFAULT_ATTENDANCE_POLICY).map(([key, value]) => [key, { type: 'number', default: value }])
+      ),
+    },
+    scheduledStart: { type: 'number' },
+    scheduledEnd: { type: 'number' },
+    openedAt: { type: 'number' },
+    closedAt: { type: 'number' },
+    finalizedAt: { type: 'number' },
+    summary: {
+      type: 'object',
+      required: ['present', 'late', 'absent', 'total'],
+      properties: {
+        present: { type: 'number' },
+        late: { type: 'number' },
+        absent: { type: 'number' },
+        earlyLeave: { type: 'number', default: 0 },
+        total: { type: 'number' },
+        statuses: {
+          type: 'object',
+          default: {},
+          additionalProperties: { type: 'string', enum: ['present', 'late', 'absent'] },
+        },
+      },
+    },
+  },
+};
+
+const actorSchema = {
+  type: 'object',
+  required: ['uid'],
+  properties: { uid: { type: 'string' }, fullName: optionalString, role: optionalString },
+};
+
+const attendanceCorrectionSchema = {
+  type: 'object',
+  required: ['action', 'reason', 'changedBy', 'changedAt'],
+  properties: {
+    action: { type: 'string', enum: ['edit', 'delete'] },
+    // RTDB drops nulls, so a missing side reads back as null.
+    previous: { anyOf: [attendanceRecordSchema, { type: 'null' }], default: null },
+    next: { anyOf: [attendanceRecordSchema, { type: 'null' }], default: null },
+    reason: { type: 'string' },
+    changedBy: actorSchema,
+    changedAt: { type: 'number' },
+    appealId: { type: 'string' },
+  },
+};
+
+const attendanceAppealSchema = {
+  type: 'object',
+  required: ['id', 'rfidUid', 'sessionId', 'requestedStatus', 'reason', 'status', 'createdAt'],
+  properties: {
+    id: { type: 'string' },
+    rfidUid: { type: 'string' },
+    sessionId: { type: 'string' },
+    studentUid: optionalString,
+    studentName: optionalString,
+    sectionId: optionalString,
+    subjectCode: optionalString,
+    currentStatus: optionalString,
+    requestedStatus: { type: 'string', enum: ['present', 'late', 'absent'] },
+    reason: { type: 'string' },
+    status: { type: 'string', enum: ['pending', 'approved', 'rejected'] },
+    createdAt: { type: 'number' },
+    reviewedBy: actorSchema,
+    reviewedAt: { type: 'number' },
+    reviewNote: { type: 'string' },
+  },
+};
+
+const weightSensorSchema = {
+  type: 'object',
+  required: ['occupied', 'updatedAt'],
+  properties: {
+    occupied: { type: 'boolean' },
+    weight: { type: 'number', default: 0 },
+    weightUnit: { type: 'string', default: 'kg' },
+    updatedAt: { type: 'number' },
+  },
+};
+
+const presenceFlagSchema = {
+  type: 'object',
+  required: ['id', 'sessionId', 'type', 'sensorId', 'detectedAt', 'status'],
+  properties: {
+    id: { type: 'string' },
+    sessionId: { type: 'string' },
+    type: { type: 'string', enum: ['tap_without_occupancy', 'occupancy_without_tap'] },
+    sensorId: { type: 'string' },
+    rfidUid: { type: 'string' },
+    studentName: { type: 'string' },
+    detectedAt: { type: 'number' },
+    status: { type: 'string', enum: ['open', 'resolved'] },
+    resolution: { type: 'string', enum: ['confirmed_present', 'marked_absent', 'dismissed'] },
+    resolutionNote: { type: 'string' },
+    resolvedBy: actorSchema,
+    resolvedAt: { type: 'number' },
+  },
+};
+
+const tamperIncidentSchema = {
+  type: 'object',
+  required: ['id', 'detectedAt', 'status'],
+  properties: {
+    id: { type: 'string' },
+    sources: { type: 'array', items: { type: 'string' }, default: [] },
+    detectedAt: { type: 'number' },
+    openedAt: { type: 'number' },
+    deviceId: { type: 'string' },
+    roomId: { type: 'string' },
+    roomName: { type: 'string' },
+    status: { type: 'string', enum: ['open', 'acknowledged', 'closed'] },
+    acknowledgedBy: actorSchema,
+    acknowledgedAt: { type: 'number' },
+    assignee: actorSchema,
+    escalatedAt: { type: 'number' },
+    alarmClearedAt: { type: 'number' },
+    closedBy: actorSchema,
+    closedAt: { type: 'number' },
+    rootCause: {
+      type: 'string',
+      enum: ['forced_entry', 'vandalism', 'accidental', 'maintenance', 'hardware_fault', 'false_alarm', 'other'],
+    },
+    resolution: { type: 'string' },
+    activity: {
+      type: 'object',
+      additionalProperties: {
+        type: 'object',
+        required: ['type', 'at'],
+        properties: {
+          type: { type: 'string' },
+          at: { type: 'number' },
+          by: actorSchema,
+          text: { type: 'string' },
+          photoUrls: { type: 'array', items: { type: 'string' } },
+        },
+      },
+    },
+  },
+};
+
+const proxyTapCaseSchema = {
+  type: 'object',
+  required: ['id', 'pattern', 'taps', 'detectedAt', 'status'],
+  properties: {
+    id: { type: 'string' },
+    pattern: { type: 'string', enum: ['tap_burst', 'impossible_travel'] },
+    taps: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['rfidUid', 'sessionId', 'tappedAt'],
+        properties: {
+          rfidUid: { type: 'string' },
+          studentName: optionalString,
+          sessionId: { type: 'string' },
+          roomId: optionalString,
+          tappedAt: { type: 'number' },
+        },
+      },
+    },
+    occupiedSeats: { type: 'number' },
+    instructorUids: { type: 'array', items: { type: 'string' }, default: [] },
+    detectedAt: { type: 'number' },
+    status: { type: 'string', enum: ['open', 'confirmed', 'dismissed'] },
+    reviewedBy: actorSchema,
+    reviewedAt: { type: 'number' },
+    reviewNote: { type: 'string' },
+  },
+};
+
+const rfidCardSchema = {
+  type: 'object',
+  required: ['uid', 'role'],
+  properties: {
+    uid: { type: 'string' },
+    role: { type: 'string' },
+    timestamp: { type: 'number' },
+    status: { type: 'string', enum: ['pending', 'active', 'lost', 'revoked', 'replaced', 'expired'], default: 'active' },
+    kind: { type: 'string', enum: ['permanent', 'temporary'], default: 'permanent' },
+    holderName: { type: 'string' },
+    purpose: { type: 'string' },
+    expiresAt: { type: 'number' },
+    replaces: { type: 'string' },
+    replacedBy: { type: 'string' },
+    updatedAt: { type: 'number' },
+  },
+};
+
+const rfidCardEventSchema = {
+  type: 'object',
+  required: ['type', 'at', 'holderUid', 'holderRole'],
+  properties: {
+    type: {
+      type: 'string',
+      enum: ['assigned', 'issued_temporary', 'reported_lost', 'revoked', 'replaced', 'expired'],
+    },
+    at: { type: 'number' },
+    by: actorSchema,
+    holderUid: { type: 'string' },
+    holderRole: { type: 'string' },
+    holderName: { type: 'string' },
+    relatedCard: { type: 'string' },
+    note: { type: 'string' },
+  },
+};
+
+const userSessionSchema = {
+  type: 'object',
+  required: ['startedAt', 'lastActiveAt', 'device'],
+  properties: {
+    startedAt: { type: 'number' },
+    lastActiveAt: { type: 'number' },
+    device: { type: 'string' },
+    userAgent: optionalString,
+    revokedAt: { type: 'number' },
+    revokedBy: actorSchema,
+  },
+};
+
+export const validateAttendanceRecord = ajv.compile<RTDBAttendanceRecord>(attendanceRecordSchema);
+export const validateLegacyAttendanceRecord = ajv.compile<Record<string, any>>(legacyAttendanceRecordSchema);
+export const validateAttendanceSession = ajv.compile<RTDBAttendanceSession>(attendanceSessionSchema);
+export const validateAttendanceCorrection = ajv.compile<RTDBAttendanceCorrection>(attendanceCorrectionSchema);
+export const validateAttendanceAppeal = ajv.compile<RTDBAttendanceAppeal>(attendanceAppealSchema);
+export const validateWeightSensor = ajv.compile<RTDBWeightSensor>(weightSensorSchema);
+export const validatePresenceFlag = ajv.compile<RTDBPresenceFlag>(presenceFlagSchema);
+export const validateProxyTapCase = ajv.compile<RTDBProxyTapCase>(proxyTapCaseSchema);
+export const validateRfidCard = ajv.compile<RTDBRfidCard>(rfidCardSchema);
+export const validateRfidCardEvent = ajv.compile<RTDBRfidCardEvent>(rfidCardEventSchema);
+export const validateClassStatus = ajv.compile<RTDBClassStatus>(classStatusSchema);
+export const validatePzemReading = ajv.compile<RTDBPzemReading>(pzemReadingSchema);
+export const validateTamperAlert = ajv.compile<RTDBTamperAlert>(tamperAlertSchema);
+export const validateTamperIncident = ajv.compile<RTDBTamperIncident>(tamperIncidentSchema);
+export const validateAdminPZEMReading = ajv.compile<RTDBAdminPZEMReading>(adminPZEMReadingSchema);
+export const validateEnergySample = ajv.compile<RTDBEnergySample>(energySampleSchema);
+export const validateEnergyRollup = ajv.compile<RTDBEnergyRollup>(energyRollupSchema);
+export const validateEnergyRoom = ajv.compile<RTDBEnergyRoom>(energyRoomSchema);
+export const validateIdleEnergyIncident = ajv.compile<RTDBIdleEnergyIncident>(idleEnergyIncidentSchema);
+export const validateUserSession = ajv.compile<RTDBUserSession>(userSessionSchema);
+
+export const formatSchemaErrors = (errors: ErrorObject[] | null | undefined): string =>
+  (errors || []).map((error) => `${error.instancePath || '/'} ${error.message}`).join('; ');
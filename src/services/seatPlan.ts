@@ -0,0 +1,230 @@
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  query,
+  setDoc,
+  where,
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import { RoomType, Seat, SeatKind, SeatLayout, SeatPlan, SeatPlanTemplate } from '../types';
+
+// Used to size a grid for rooms that only record a capacity.
+export const DEFAULT_SEAT_COLUMNS = 6;
+
+export const SEAT_KINDS: SeatKind[] = ['seat', 'aisle', 'disabled'];
+
+export const TEMPLATE_ROOM_TYPES: { value: RoomType; label: string }[] = [
+  { value: 'classroom', label: 'Classroom' },
+  { value: 'laboratory', label: 'Laboratory' },
+  { value: 'lecture_hall', label: 'Lecture Hall' },
+];
+
+export const isUsableSeat = (seat: Seat): boolean => (seat.kind || 'seat') === 'seat';
+
+export const generateDefaultSeats = (rows: number, cols: number): Seat[] => {
+  const seats: Seat[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      seats.push({
+        id: `seat-${row}-${col}`,
+        position: { row, col },
+        weightSensorStatus: false,
+        rfidConfirmed: false,
+      });
+    }
+  }
+  return seats;
+};
+
+// Rooms added from the Rooms page have a capacity but no layout yet.
+export const resolveSeatPlan = (room: {
+  layout?: SeatLayout;
+  seats?: Seat[];
+  capacity?: number;
+}): { layout: SeatLayout; seats: Seat[] } => {
+  const layout = room.layout || {
+    rows: Math.max(1, Math.ceil((room.capacity || DEFAULT_SEAT_COLUMNS) / DEFAULT_SEAT_COLUMNS)),
+    cols: DEFAULT_SEAT_COLUMNS,
+  };
+  return { layout, seats: room.seats || generateDefaultSeats(layout.rows, layout.cols) };
+};
+
+// Terms are keyed `{startYear}-{endYear}-{1|2|S}`: first semester from August,
+// second from January, summer in June and July.
+export const currentTerm = (date: Date = new Date()): string => {
+  const year = date.getFullYear();
+  const month = date.getMonth();
+  if (month >= 7) return `${year}-${year + 1}-1`;
+  if (month <= 4) return `${year - 1}-${year}-2`;
+  return `${year - 1}-${year}-S`;
+};
+
+const TERM_ORDER = ['1', '2', 'S'];
+
+export const shiftTerm = (term: string, offset: number): string => {
+  const [start, , part] = term.split('-');
+  const index = Number(start) * TERM_ORDER.length + TERM_ORDER.indexOf(part) + offset;
+  const startYear = Math.floor(index / TERM_ORDER.length);
+  return `${startYear}-${startYear + 1}-${TERM_ORDER[index % TERM_ORDER.length]}`;
+};
+
+export const termLabel = (term: string): string => {
+  const [start, end, part] = term.split('-');
+  const name = part === '1' ? '1st Semester' : part === '2' ? '2nd Semester' : 'Summer';
+  return `AY ${start}-${end} ${name}`;
+};
+
+const seatPlanRef = (sectionId: string, term: string) => doc(db, 'seatPlans', `${sectionId}_${term}`);
+
+export const getSeatPlan = async (sectionId: string, term: string): Promise<SeatPlan | null> => {
+  const snapshot = await getDoc(seatPlanRef(sectionId, term));
+  return snapshot.exists() ? (snapshot.data() as SeatPlan) : null;
+};
+
+export const subscribeToSeatPlan = (
+  sectionId: string,
+  term: string,
+  onData: (plan: SeatPlan | null) => void,
+  onError?: (error: Error) => void
+) =>
+  onSnapshot(
+    seatPlanRef(sectionId, term),
+    (snapshot) => onData(snapshot.exists() ? (snapshot.data() as SeatPlan) : null),
+    (error) => onError?.(error)
+  );
+
+// Firestore rejects undefined fields, so optional seat fields are dropped.
+const cleanSeats = (seats: Seat[]): Seat[] =>
+  seats.map((seat) => JSON.parse(JSON.stringify(seat)) as Seat);
+
+export const saveSeatPlan = async (plan: Omit<SeatPlan, 'updatedAt'>): Promise<SeatPlan> => {
+  const saved: SeatPlan = { ...plan, seats: cleanSeats(plan.seats), updatedAt: new Date().toISOString() };
+  await setDoc(seatPlanRef(plan.sectionId, plan.term), saved);
+  return saved;
+};
+
+// Copies the plan as is. Refuses to replace an existing plan unless told to,
+// so a term's adjustments are not lost by accident.
+export const copySeatPlanToTerm = async (
+  sectionId: string,
+  fromTerm: string,
+  toTerm: string,
+  updatedBy: string,
+  overwrite: boolean = false
+): Promise<SeatPlan> => {
+  const source = await getSeatPlan(sectionId, fromTerm);
+  if (!source) {
+    throw new Error(`No seat plan saved for ${termLabel(fromTerm)}`);
+  }
+  if (!overwrite && (await getSeatPlan(sectionId, toTerm))) {
+    throw new Error(`A seat plan already exists for ${termLabel(toTerm)}`);
+  }
+  return saveSeatPlan({ ...source, term: toTerm, updatedBy });
+};
+
+export const getSeatPlanTemplates = async (roomType?: RoomType): Promise<SeatPlanTemplate[]> => {
+  const templatesRef = collection(db, 'seatPlanTemplates');
+  const snapshot = await getDocs(roomType ? query(templatesRef, where('roomType', '==', roomType)) : templatesRef);
+  return snapshot.docs.map((d) => ({ id: d.id, ...d.data() } as SeatPlanTemplate));
+};
+
+export const saveSeatPlanTemplate = async (
+  name: string,
+  roomType: RoomType,
+  layout: SeatLayout,
+  seats: Seat[]
+): Promise<SeatPlanTemplate> => {
+  const template = {
+    name: name.trim(),
+    roomType,
+    layout,
+    seats: cleanSeats(seats.map(({ id, position, kind }) => ({ id, position, kind: kind || 'seat' }))),
+    createdAt: new Date().toISOString(),
+  };
+  const ref = await addDoc(collection(db, 'seatPlanTemplates'), template);
+  return { id: ref.id, ...template };
+};
+
+export const deleteSeatPlanTemplate = async (templateId: string): Promise<void> => {
+  await deleteDoc(doc(db, 'seatPlanTemplates', templateId));
+};
+
+// Seats from a template start empty; assignments are per section.
+export const applySeatPlanTemplate = (template: SeatPlanTemplate): { layout: SeatLayout; seats: Seat[] } => ({
+  layout: template.layout,
+  seats: template.seats.map(({ id, position, kind }) => ({ id, position, kind: kind || 'seat' })),
+});
+
+export const cycleSeatKind = (seats: Seat[], seatId: string): Seat[] =>
+  seats.map((seat) => {
+    if (seat.id !== seatId) return seat;
+    const kind = SEAT_KINDS[(SEAT_KINDS.indexOf(seat.kind || 'seat') + 1) % SEAT_KINDS.length];
+    // A cell that stops being a seat gives up its student.
+    const { studentId, ...rest } = seat;
+    return { ...rest, kind };
+  });
+
+// Puts `studentId` on `toSeatId`, swapping with whoever sat there. A null
+// target unassigns the student.
+export const moveSeatAssignment = (seats: Seat[], studentId: string, toSeatId: string | null): Seat[] => {
+  const from = seats.find((seat) => seat.studentId === studentId);
+  const to = toSeatId ? seats.find((seat) => seat.id === toSeatId) : undefined;
+  if (to && !isUsableSeat(to)) return seats;
+
+  return seats.map((seat) => {
+    if (to && seat.id === to.id) return { ...seat, studentId };
+    if (from && seat.id === from.id) {
+      const { studentId: moved, ...rest } = seat;
+      return to?.studentId ? { ...rest, studentId: to.studentId } : rest;
+    }
+    return seat;
+  });
+};
+
+export type AutoAssignOrder = 'alphabetical' | 'idNumber' | 'random';
+
+export interface SeatableStudent {
+  id: string;
+  fullName: string;
+  idNumber: string;
+}
+
+// Clears every assignment and fills usable seats front row first, left to
+// right. Students beyond the seat count are returned unseated.
+export const autoAssignSeats = (
+  seats: Seat[],
+  students: SeatableStudent[],
+  order: AutoAssignOrder,
+  random: () => number = Math.random
+): { seats: Seat[]; unseated: SeatableStudent[] } => {
+  const ordered = [...students];
+  if (order === 'alphabetical') {
+    ordered.sort((a, b) => a.fullName.localeCompare(b.fullName));
+  } else if (order === 'idNumber') {
+    ordered.sort((a, b) => a.idNumber.localeCompare(b.idNumber, undefined, { numeric: true }));
+  } else {
+    for (let i = ordered.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [ordered[i], ordered[j]] = [ordered[j], ordered[i]];
+    }
+  }
+
+  const usable = seats
+    .filter(isUsableSeat)
+    .sort((a, b) => a.position.row - b.position.row || a.position.col - b.position.col);
+  const assignments = new Map(usable.slice(0, ordered.length).map((seat, index) => [seat.id, ordered[index].id]));
+
+  return {
+    seats: seats.map((seat) => {
+      const { studentId, ...rest } = seat;
+      const assigned = assignments.get(seat.id);
+      return assigned ? { ...rest, studentId: assigned } : rest;
+    }),
+    unseated: ordered.slice(usable.length),
+  };
+};
@@ -0,0 +1,150 @@
+import { collection, doc, getDoc, getDocs, setDoc } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { getDownloadURL, ref, uploadBytes } from 'firebase/storage';
+import { db, functions, storage } from '../firebase';
+import { UserAccess } from '../types';
+import { RTDBActor, RTDBTamperIncident, TamperIncidentStatus, TamperRootCause } from '../types/rtdb';
+import { globalPermissions } from './permissions';
+
+export const ROOT_CAUSE_LABELS: Record<TamperRootCause, string> = {
+  forced_entry: 'Forced entry attempt',
+  vandalism: 'Vandalism',
+  accidental: 'Accidental knock',
+  maintenance: 'Maintenance work',
+  hardware_fault: 'Sensor or wiring fault',
+  false_alarm: 'False alarm',
+  other: 'Other',
+};
+
+export const INCIDENT_STATUS_LABELS: Record<TamperIncidentStatus, string> = {
+  open: 'Open',
+  acknowledged: 'Acknowledged',
+  closed: 'Closed',
+};
+
+// A room with this many incidents in the window is flagged as repeated tampering.
+export const REPEAT_INCIDENT_THRESHOLD = 3;
+export const REPEAT_INCIDENT_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Stored at settings/tamperIncidents and read by the escalation function.
+export interface TamperIncidentPolicy {
+  escalateAfterMinutes: number;
+}
+
+export const DEFAULT_TAMPER_INCIDENT_POLICY: TamperIncidentPolicy = {
+  escalateAfterMinutes: 15,
+};
+
+const acknowledgeCallable = httpsCallable<{ incidentId: string }, { status: string }>(
+  functions,
+  'acknowledgeTamperIncident'
+);
+const assignCallable = httpsCallable<{ incidentId: string; assigneeUid: string }, { assignee: RTDBActor }>(
+  functions,
+  'assignTamperIncident'
+);
+const addNoteCallable = httpsCallable<{ incidentId: string; text: string; photoUrls: string[] }, { added: boolean }>(
+  functions,
+  'addTamperIncidentNote'
+);
+const setRoomCallable = httpsCallable<{ incidentId: string; roomId: string }, { roomId: string; roomName: string }>(
+  functions,
+  'setTamperIncidentRoom'
+);
+const closeCallable = httpsCallable<
+  { incidentId: string; rootCause: TamperRootCause; resolution: string },
+  { status: string }
+>(functions, 'closeTamperIncident');
+
+const policyDoc = () => doc(db, 'settings', 'tamperIncidents');
+
+export const loadTamperIncidentPolicy = async (): Promise<TamperIncidentPolicy> => {
+  const snapshot = await getDoc(policyDoc());
+  return { ...DEFAULT_TAMPER_INCIDENT_POLICY, ...(snapshot.exists() ? snapshot.data() : {}) };
+};
+
+export const saveTamperIncidentPolicy = async (policy: TamperIncidentPolicy): Promise<void> => {
+  if (!Number.isFinite(policy.escalateAfterMinutes) || policy.escalateAfterMinutes < 1) {
+    throw new Error('Escalation must wait at least a minute');
+  }
+  await setDoc(policyDoc(), policy);
+};
+
+export const acknowledgeTamperIncident = async (incidentId: string): Promise<void> => {
+  await acknowledgeCallable({ incidentId });
+};
+
+export const assignTamperIncident = async (incidentId: string, assigneeUid: string): Promise<RTDBActor> =>
+  (await assignCallable({ incidentId, assigneeUid })).data.assignee;
+
+export const setTamperIncidentRoom = async (incidentId: string, roomId: string): Promise<void> => {
+  await setRoomCallable({ incidentId, roomId });
+};
+
+export const closeTamperIncident = async (
+  incidentId: string,
+  rootCause: TamperRootCause,
+  resolution: string
+): Promise<void> => {
+  await closeCallable({ incidentId, rootCause, resolution });
+};
+
+// Photos go to Storage first; the note carries their download URLs.
+export const addTamperIncidentNote = async (incidentId: string, text: string, photos: File[]): Promise<void> => {
+  const photoUrls = await Promise.all(
+    photos.map(async (photo) => {
+      const photoRef = ref(storage, `tamper-incidents/${incidentId}/${Date.now()}-${photo.name}`);
+      await uploadBytes(photoRef, photo);
+      return getDownloadURL(photoRef);
+    })
+  );
+  await addNoteCallable({ incidentId, text, photoUrls });
+};
+
+// Admins and staff who hold resolve_tamper_alerts, the people an incident can
+// be assigned to. The server checks the choice again.
+export const fetchTamperResponders = async (): Promise<RTDBActor[]> => {
+  const [admins, teachers] = await Promise.all([getDocs(collection(db, 'users')), getDocs(collection(db, 'teachers'))]);
+  return [...admins.docs, ...teachers.docs]
+    .map((profile) => ({ id: profile.id, ...profile.data() }) as UserAccess & { id: string; [key: string]: any })
+    .filter((profile) => globalPermissions(profile).includes('resolve_tamper_alerts'))
+    .map((profile) => ({ uid: profile.uid || profile.id, fullName: profile.fullName || '', role: profile.role || '' }))
+    .sort((a, b) => a.fullName.localeCompare(b.fullName));
+};
+
+export interface RoomTamperTimeline {
+  roomId: string;
+  roomName: string;
+  incidents: RTDBTamperIncident[];
+  recentCount: number;
+  repeated: boolean;
+}
+
+// Groups incidents by room, newest first, so repeated tampering on one door
+// stands out. Incidents not yet placed in a room are grouped together.
+export const roomTamperTimelines = (
+  incidents: RTDBTamperIncident[],
+  now: number = Date.now()
+): RoomTamperTimeline[] => {
+  const byRoom = new Map<string, RoomTamperTimeline>();
+  incidents.forEach((incident) => {
+    const roomId = incident.roomId || '';
+    const timeline = byRoom.get(roomId) || {
+      roomId,
+      roomName: incident.roomName || (roomId ? roomId : 'Room not set'),
+      incidents: [],
+      recentCount: 0,
+      repeated: false,
+    };
+    timeline.incidents.push(incident);
+    if (now - incident.detectedAt <= REPEAT_INCIDENT_WINDOW_MS) timeline.recentCount += 1;
+    byRoom.set(roomId, timeline);
+  });
+  return Array.from(byRoom.values())
+    .map((timeline) => ({
+      ...timeline,
+      incidents: timeline.incidents.sort((a, b) => b.detectedAt - a.detectedAt),
+      repeated: Boolean(timeline.roomId) && timeline.recentCount >= REPEAT_INCIDENT_THRESHOLD,
+    }))
+    .sort((a, b) => b.recentCount - a.recentCount || b.incidents.length - a.incidents.length);
+};
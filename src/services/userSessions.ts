@@ -0,0 +1,128 @@
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../firebase';
+import {
+  createUserSession,
+  getUserSession,
+  removeUserSession,
+  revokeUserSessionRecord,
+  touchUserSession,
+} from './rtdbRepository';
+
+// Stored at settings/sessions. Lab and faculty-room PCs are shared, so an
+// idle browser signs itself out after a warning.
+export interface SessionPolicy {
+  idleTimeoutMinutes: number;
+  warningSeconds: number;
+}
+
+export const DEFAULT_SESSION_POLICY: SessionPolicy = {
+  idleTimeoutMinutes: 30,
+  warningSeconds: 60,
+};
+
+const policyDoc = () => doc(db, 'settings', 'sessions');
+
+export const loadSessionPolicy = async (): Promise<SessionPolicy> => {
+  const snapshot = await getDoc(policyDoc());
+  return { ...DEFAULT_SESSION_POLICY, ...(snapshot.exists() ? snapshot.data() : {}) };
+};
+
+export const saveSessionPolicy = async (policy: SessionPolicy): Promise<void> => {
+  if (policy.idleTimeoutMinutes < 1 || policy.warningSeconds < 10) {
+    throw new Error('The timeout must be at least a minute and the warning at least 10 seconds');
+  }
+  if (policy.warningSeconds >= policy.idleTimeoutMinutes * 60) {
+    throw new Error('The warning must be shorter than the timeout');
+  }
+  await setDoc(policyDoc(), policy);
+};
+
+export const describeDevice = (userAgent: string): string => {
+  const browser = /Edg\//.test(userAgent)
+    ? 'Edge'
+    : /OPR\//.test(userAgent)
+    ? 'Opera'
+    : /Chrome\//.test(userAgent)
+    ? 'Chrome'
+    : /Firefox\//.test(userAgent)
+    ? 'Firefox'
+    : /Safari\//.test(userAgent)
+    ? 'Safari'
+    : 'Browser';
+  const os = /Windows/.test(userAgent)
+    ? 'Windows'
+    : /Android/.test(userAgent)
+    ? 'Android'
+    : /iPhone|iPad/.test(userAgent)
+    ? 'iOS'
+    : /Mac OS X/.test(userAgent)
+    ? 'macOS'
+    : /Linux/.test(userAgent)
+    ? 'Linux'
+    : 'unknown OS';
+  return `${browser} on ${os}`;
+};
+
+// "<authUid>:<sessionId>" of this browser's session, so a reload or a second
+// tab carries on with it instead of listing a new one.
+const SESSION_KEY = 'authSession';
+
+export const currentSessionId = (authUid: string): string | null => {
+  const [uid, sessionId] = (localStorage.getItem(SESSION_KEY) || '').split(':');
+  return uid === authUid && sessionId ? sessionId : null;
+};
+
+export const startUserSession = async (authUid: string): Promise<string> => {
+  const now = Date.now();
+  const existingId = currentSessionId(authUid);
+  if (existingId) {
+    const existing = await getUserSession(authUid, existingId);
+    if (existing && !existing.revokedAt) {
+      await touchUserSession(authUid, existingId, now);
+      return existingId;
+    }
+  }
+  const sessionId = await createUserSession(authUid, {
+    startedAt: now,
+    lastActiveAt: now,
+    device: describeDevice(navigator.userAgent),
+    userAgent: navigator.userAgent,
+  });
+  localStorage.setItem(SESSION_KEY, `${authUid}:${sessionId}`);
+  return sessionId;
+};
+
+// Last input in any tab of this browser, so a busy tab keeps an idle one
+// signed in.
+const ACTIVITY_KEY = 'lastActivityAt';
+
+export const recordActivity = (at: number = Date.now()): void => {
+  localStorage.setItem(ACTIVITY_KEY, String(at));
+};
+
+export const lastActivityAt = (): number | null => Number(localStorage.getItem(ACTIVITY_KEY)) || null;
+
+// Called before signing out, while the record may still be written.
+export const endUserSession = async (authUid: string): Promise<void> => {
+  const sessionId = currentSessionId(authUid);
+  localStorage.removeItem(SESSION_KEY);
+  localStorage.removeItem(ACTIVITY_KEY);
+  if (sessionId) {
+    await removeUserSession(authUid, sessionId);
+  }
+};
+
+export const signOutSession = (authUid: string, sessionId: string): Promise<void> =>
+  revokeUserSessionRecord(authUid, sessionId, Date.now());
+
+const revokeUserSessionsCallable = httpsCallable<{ uid?: string; email?: string }, { revoked: number }>(
+  functions,
+  'revokeUserSessions'
+);
+
+// Admin only. Resolves to the number of sessions that were open.
+export const revokeAllSessions = async (user: { uid?: string; email?: string }): Promise<number> => {
+  const result = await revokeUserSessionsCallable({ uid: user.uid, email: user.email });
+  return result.data.revoked;
+};
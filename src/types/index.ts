@@ -93,3 +93,218 @@ export interface SettingsSection {
 export interface DepartmentSubjects {
   [department: string]: Subject[];
 }
+
+// Stored as `attendancePolicy` on subject documents. Section documents may carry
+// a partial override of the same shape. All durations are in minutes.
+export interface AttendancePolicy {
+  graceMinutes: number; // after the scheduled end, before the session closes
+  lateCutoffMinutes: number; // taps later than this after start are Late
+  absentAfterMinutes: number; // taps later than this after start count as Absent
+  earlyLeaveMinutes: number; // time-out earlier than this before end is an early leave
+  minimumAttendedPercent: number; // below this share of the class, a tap counts as Absent
+}
+
+export type RoomType = 'classroom' | 'laboratory' | 'lecture_hall' | 'conference_room' | 'faculty_room';
+
+export interface SeatLayout {
+  rows: number;
+  cols: number;
+}
+
+// Aisles and disabled cells keep their place in the grid but never take a student.
+export type SeatKind = 'seat' | 'aisle' | 'disabled';
+
+export interface Seat {
+  id: string;
+  position: { row: number; col: number };
+  kind?: SeatKind; // missing on older plans, meaning 'seat'
+  studentId?: string; // students document id
+  weightSensorStatus?: boolean;
+  rfidConfirmed?: boolean;
+  lastUpdated?: Date;
+}
+
+// Stored in `seatPlans/{sectionId}_{term}`. Rooms may still carry a legacy
+// `layout` and `seats` shared by every section, used until a plan is saved.
+export interface SeatPlan {
+  sectionId: string;
+  roomId: string;
+  term: string;
+  layout: SeatLayout;
+  seats: Seat[];
+  updatedAt: string;
+  updatedBy: string;
+}
+
+// Stored in `seatPlanTemplates`; seats carry kinds only, never students.
+export interface SeatPlanTemplate {
+  id: string;
+  name: string;
+  roomType: RoomType;
+  layout: SeatLayout;
+  seats: Seat[];
+  createdAt: string;
+}
+
+export type RegistrationStatus = 'pending' | 'approved' | 'rejected';
+
+// Stored in `registrations/{uid}`. The applicant's Auth account stays disabled
+// and their card stays pending until an admin approves; only then is the
+// profile written to `users`, `teachers` or `students`.
+export interface Registration {
+  uid: string;
+  fullName: string;
+  email: string;
+  idNumber: string;
+  department: string;
+  role: 'admin' | 'instructor' | 'student';
+  mobileNumber: string;
+  rfidUid: string;
+  status: RegistrationStatus;
+  createdAt: string;
+  reviewedAt?: string;
+  reviewedBy?: { uid: string; fullName: string };
+  rejectionReason?: string;
+}
+
+// Named capabilities beyond the base role. Admins hold every permission;
+// other accounts get them from an access role and/or individually.
+export type Permission =
+  | 'manage_users'
+  | 'approve_registrations'
+  | 'manage_roster'
+  | 'manage_schedules'
+  | 'manage_rooms'
+  | 'manage_rfid_cards'
+  | 'edit_attendance'
+  | 'view_reports'
+  | 'view_energy'
+  | 'view_security_logs'
+  | 'resolve_tamper_alerts';
+
+export type AccessRole = 'department_head' | 'facilities_staff' | 'registrar';
+
+// Stored on `users` and `teachers` profiles.
+export interface UserAccess {
+  accessRole?: AccessRole | null;
+  permissions?: Permission[];
+}
+
+export interface AttendanceCounts {
+  present: number;
+  late: number;
+  absent: number;
+}
+
+// Returned by the `getDepartmentOverview` function, which reads with admin
+// privileges on behalf of department heads. Energy is in kWh and covers the
+// sessions held since `since` (YYYY_MM_DD).
+export interface DepartmentOverview {
+  department: string;
+  since: string;
+  instructors: (AttendanceCounts & { id: string; fullName: string; email: string; sessions: number; energyKWh: number })[];
+  schedules: {
+    instructorId: string;
+    instructorName: string;
+    subject: string;
+    section: string;
+    day: string;
+    startTime: string;
+    endTime: string;
+    roomName: string;
+  }[];
+  rooms: {
+    name: string;
+    building: string;
+    floor: string;
+    status: string;
+    scheduledClasses: number;
+    sessions: number;
+    energyKWh: number;
+  }[];
+  subjects: (AttendanceCounts & { subjectCode: string; sessions: number })[];
+  attendance: AttendanceCounts;
+  energyKWh: number;
+}
+
+export type AuditCategory = 'door_access' | 'rfid_denied' | 'tamper' | 'admin_action' | 'auth' | 'system';
+export type AuditOutcome = 'success' | 'warning' | 'failure';
+
+// Stored in `auditLog/{seq}` by the audit functions, which normalize door
+// access, card, tamper, admin and sign-in events into one stream. Each entry
+// hashes its own fields plus the previous entry's hash.
+export interface AuditEntry {
+  seq: number;
+  category: AuditCategory;
+  action: string;
+  outcome: AuditOutcome;
+  occurredAt: number;
+  recordedAt: number;
+  actor: { type: 'user' | 'card' | 'device' | 'system'; id: string; name?: string; role?: string };
+  target?: { type: string; id: string; name?: string };
+  room?: string;
+  summary: string;
+  source: string;
+  details?: Record<string, unknown>;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditChainReport {
+  checked: number;
+  headSeq: number;
+  firstBreak: { seq: number; reason: 'missing' | 'altered' | 'relinked' | 'truncated' } | null;
+}
+
+export type TariffKind = 'flat' | 'time_of_use';
+
+// A time-of-use band in local hours; endHour is exclusive and may wrap past
+// midnight (22 to 6).
+export interface TariffPeriod {
+  label: string;
+  startHour: number;
+  endHour: number;
+  ratePerKWh: number;
+  weekdaysOnly: boolean;
+}
+
+// Stored at `settings/energyTariff`. Rates are in pesos.
+export interface EnergyTariff {
+  kind: TariffKind;
+  ratePerKWh: number; // the flat rate, and the rate outside every time-of-use period
+  periods: TariffPeriod[];
+  demandChargePerKW: number; // charged on the highest average demand in the bill
+  demandIntervalMinutes: number;
+}
+
+// Stored as `energyCalibration` on room documents. The prototype's PZEM sees a
+// fraction of the room's load; the factor scales its readings to the room.
+export interface RoomEnergyCalibration {
+  scalingFactor: number;
+  referenceKWh: number; // from the building sub-meter over the calibration period
+  measuredKWh: number; // what the PZEM recorded over the same period
+  calibratedAt: string;
+  calibratedBy: string;
+}
+
+export type DeviceCategory = 'lighting' | 'projection' | 'computers' | 'hvac' | 'other';
+
+// A switched load in a room, stored in the `circuits` array on room documents.
+// relayChannel is the controller relay that switches it (2 to 4; relay 1 is the
+// door), pzemChannel the PZEM meter that sees it. Either is null when the
+// circuit is not switched or not metered.
+export interface RoomCircuit {
+  id: string;
+  name: string;
+  category: DeviceCategory;
+  ratedWatts: number;
+  relayChannel: number | null;
+  pzemChannel: number | null;
+}
+
+// Stored at `settings/idleEnergy`. A room drawing more than baselineWatts (as
+// its PZEM reads it) while idle for alertAfterMinutes alerts facilities staff.
+export interface IdleEnergySettings {
+  baselineWatts: number;
+  alertAfterMinutes: number;
+}
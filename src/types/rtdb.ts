@@ -0,0 +1,446 @@
+import { AttendancePolicy } from './index';
+
+// Shapes of the Realtime Database trees shared by the firmware and the dashboard.
+// Every field the firmware writes as a formatted string (PZEM values, timestamps)
+// stays a string here; parsing happens at the point of display or computation.
+
+export interface RTDBScheduleEntry {
+  day: string;
+  startTime: string;
+  endTime: string;
+  instructorName?: string;
+  roomName?: string;
+  section: string;
+  sectionId?: string;
+  subject?: string;
+  subjectCode: string;
+}
+
+export interface RTDBAttendanceInfo {
+  action: string;
+  assignedSensorId: string | number;
+  date: string;
+  sensor: string;
+  sensorConfirmed: boolean;
+  sessionId: string;
+  status: string;
+  timeIn: string;
+  timeOut: string;
+  timestamp: string;
+  weight: number;
+  weightUnit: string;
+}
+
+export interface RTDBPersonalInfo {
+  department: string;
+  email: string;
+  fullName: string;
+  idNumber: string;
+  mobileNumber: string;
+  role: string;
+}
+
+// Record stored at /Students/{rfidUid}/Attendance/{sessionId}
+export interface RTDBAttendanceRecord {
+  allSchedules: RTDBScheduleEntry[];
+  attendanceInfo: RTDBAttendanceInfo;
+  personalInfo: RTDBPersonalInfo;
+}
+
+export interface RTDBStudentProfile {
+  fullName: string;
+  email?: string;
+  idNumber?: string;
+  department?: string;
+  mobileNumber?: string;
+  role?: string;
+  schedules?: RTDBScheduleEntry[];
+  [key: string]: any;
+}
+
+export interface RTDBStudent {
+  Profile?: RTDBStudentProfile;
+  Attendance?: Record<string, RTDBAttendanceRecord>;
+  lastSession?: string;
+}
+
+export interface RTDBPzemReading {
+  voltage: string;
+  current: string;
+  power: string;
+  energy: string;
+  frequency: string;
+  powerFactor: string;
+  timestamp: string;
+  action?: string;
+  calculatedEnergy?: string;
+  sessionDuration?: string;
+  // Counter reading and time when the class started, on end-of-class readings.
+  startEnergy?: string;
+  startTimestamp?: string;
+}
+
+export interface RTDBClassSchedule {
+  day: string;
+  startTime: string;
+  endTime: string;
+  section: string;
+  subject: string;
+  subjectCode: string;
+  roomName: {
+    name: string;
+    pzem?: RTDBPzemReading;
+  };
+}
+
+// Record stored at /Instructors/{uid}/ClassStatus
+export interface RTDBClassStatus {
+  Status: string;
+  dateTime: string;
+  schedule?: RTDBClassSchedule;
+}
+
+export interface RTDBInstructorProfile {
+  fullName: string;
+  email?: string;
+  department?: string;
+  idNumber?: string;
+  mobileNumber?: string;
+  role?: string;
+  createdAt?: string;
+}
+
+export interface RTDBInstructor {
+  Profile?: RTDBInstructorProfile;
+  ClassStatus?: RTDBClassStatus;
+  ClassHistory?: Record<string, RTDBClassStatus>;
+  AccessLogs?: Record<string, { action: string; status: string; timestamp: string }>;
+}
+
+// Record stored at /Alerts/Tamper/{alertId}
+export interface RTDBTamperAlert {
+  startTime: string;
+  status: string;
+  endTime?: string;
+  detectedAt?: string;
+  deviceId?: string;
+  alertType?: string;
+  resolvedBy?: string;
+  resolverName?: string;
+  resolverRole?: string;
+  resolutionTime?: string;
+  resolvedByFullName?: string;
+  resolvedByUID?: string;
+}
+
+export type TamperRootCause =
+  | 'forced_entry'
+  | 'vandalism'
+  | 'accidental'
+  | 'maintenance'
+  | 'hardware_fault'
+  | 'false_alarm'
+  | 'other';
+
+export type TamperIncidentStatus = 'open' | 'acknowledged' | 'closed';
+
+export interface TamperIncidentActivity {
+  type: 'detected' | 'acknowledged' | 'assigned' | 'room_set' | 'note' | 'escalated' | 'alarm_cleared' | 'closed';
+  at: number;
+  by?: RTDBActor;
+  text?: string;
+  photoUrls?: string[];
+}
+
+// Record stored at /TamperIncidents/{incidentId}, written only by the
+// functions in functions/src/tamperIncidents.ts. The id is the device's start
+// time, shared by an alert and its offline log copy; `sources` lists both.
+export interface RTDBTamperIncident {
+  id: string;
+  sources: string[];
+  detectedAt: number;
+  openedAt: number;
+  deviceId?: string;
+  roomId?: string;
+  roomName?: string;
+  status: TamperIncidentStatus;
+  acknowledgedBy?: RTDBActor;
+  acknowledgedAt?: number;
+  assignee?: RTDBActor;
+  escalatedAt?: number;
+  // The firmware's alarm was stopped at the door; the incident stays open.
+  alarmClearedAt?: number;
+  closedBy?: RTDBActor;
+  closedAt?: number;
+  rootCause?: TamperRootCause;
+  resolution?: string;
+  activity?: Record<string, TamperIncidentActivity>;
+}
+
+// Record stored at /AdminPZEM/{uid}/{timestamp}
+export interface RTDBAdminPZEMReading {
+  Current: string;
+  Energy: string;
+  Frequency: string;
+  Power: string;
+  PowerFactor: string;
+  Voltage: string;
+  timestamp: string;
+  roomDetails: {
+    building: string;
+    floor: string;
+    name: string;
+    status: string;
+    type: string;
+  };
+}
+
+export type EnergyMetric = 'voltage' | 'current' | 'power' | 'frequency' | 'powerFactor';
+
+// Record stored at /EnergySeries/{roomKey}/samples/{YYYYMMDD}/{HHMMSS}
+export interface RTDBEnergySample extends Record<EnergyMetric, number> {
+  // The PZEM's cumulative kWh counter, which restarts when the device boots.
+  energy: number;
+  room: string;
+  source: string;
+}
+
+export interface RTDBEnergyMetricStats {
+  min: number;
+  max: number;
+  sum: number;
+}
+
+// Record stored at /EnergySeries/{roomKey}/hourly/{YYYYMMDDHH} and
+// /EnergySeries/{roomKey}/daily/{YYYYMMDD}
+export interface RTDBEnergyRollup extends Record<EnergyMetric, RTDBEnergyMetricStats> {
+  count: number;
+  energyKWh: number;
+}
+
+// Record stored at /EnergyRooms/{roomKey}
+export interface RTDBEnergyRoom {
+  name: string;
+  lastSampleKey: string;
+}
+
+export type IdleEnergyReason = 'after_class' | 'outside_schedule' | 'room_empty';
+
+// Record stored at /IdleEnergy/{roomKey}/open while a room draws power with
+// nobody using it, and at /IdleEnergy/{roomKey}/history/{startKey} after.
+export interface RTDBIdleEnergyIncident {
+  roomKey: string;
+  roomName: string;
+  reason: IdleEnergyReason;
+  startKey: string;
+  startedAt: number;
+  lastAt: number;
+  lastPowerW: number;
+  peakPowerW: number;
+  // As the prototype's PZEM measured it; the wasted figures are scaled to the room.
+  measuredKWh: number;
+  measuredCost: number;
+  scalingFactor: number;
+  wastedKWh: number;
+  wastedCost: number;
+  alertedAt?: number;
+  endedAt?: number;
+}
+
+export type AttendanceSessionState = 'open' | 'grace' | 'closed' | 'finalized';
+
+export interface RTDBSessionRosterEntry {
+  studentName: string;
+  idNumber: string;
+}
+
+export type FinalizedAttendanceStatus = 'present' | 'late' | 'absent';
+
+// Written once when a session is finalized; per-student outcomes are keyed by rfidUid.
+export interface RTDBSessionSummary {
+  present: number;
+  late: number;
+  absent: number;
+  earlyLeave: number;
+  total: number;
+  statuses: Record<string, FinalizedAttendanceStatus>;
+}
+
+// Record stored at /AttendanceSessions/{sessionId}, under a push id. Student
+// attendance records reference it through attendanceInfo.sessionId; door taps
+// the firmware files under YYYY_MM_DD_subjectCode_section_room are matched to
+// it through /AttendanceSessionIndex/{firmwareKey}/{sessionId}.
+export interface RTDBAttendanceSession {
+  id: string;
+  state: AttendanceSessionState;
+  schedule: {
+    subjectId: string;
+    subjectCode: string;
+    subjectName: string;
+    sectionId: string;
+    sectionName: string;
+    day: string;
+    startTime: string;
+    endTime: string;
+  };
+  roomId: string;
+  instructor: {
+    uid: string;
+    fullName: string;
+  };
+  roster: Record<string, RTDBSessionRosterEntry>;
+  // Effective policy when the session opened, so every client classifies alike.
+  policy: AttendancePolicy;
+  scheduledStart: number;
+  scheduledEnd: number;
+  openedAt: number;
+  closedAt?: number;
+  finalizedAt?: number;
+  summary?: RTDBSessionSummary;
+}
+
+export interface RTDBActor {
+  uid: string;
+  fullName: string;
+  role: string;
+}
+
+// Record stored at /AttendanceCorrections/{rfidUid}/{sessionId}/{correctionId}.
+// Entries are only ever appended; `previous` is the record as it was before the
+// change and `next` is null when the record was deleted.
+export interface RTDBAttendanceCorrection {
+  action: 'edit' | 'delete';
+  previous: RTDBAttendanceRecord | null;
+  next: RTDBAttendanceRecord | null;
+  reason: string;
+  changedBy: RTDBActor;
+  changedAt: number;
+  appealId?: string;
+}
+
+export type AttendanceAppealStatus = 'pending' | 'approved' | 'rejected';
+
+// Record stored at /AttendanceAppeals/{appealId}
+export interface RTDBAttendanceAppeal {
+  id: string;
+  rfidUid: string;
+  sessionId: string;
+  studentUid: string;
+  studentName: string;
+  sectionId: string;
+  subjectCode: string;
+  currentStatus: string;
+  requestedStatus: FinalizedAttendanceStatus;
+  reason: string;
+  status: AttendanceAppealStatus;
+  createdAt: number;
+  reviewedBy?: RTDBActor;
+  reviewedAt?: number;
+  reviewNote?: string;
+}
+
+// Record stored at /WeightSensors/{roomId}/{sensorId}, keyed by the same id
+// the firmware writes to attendanceInfo.assignedSensorId.
+export interface RTDBWeightSensor {
+  occupied: boolean;
+  weight: number;
+  weightUnit: string;
+  // When `occupied` last changed.
+  updatedAt: number;
+}
+
+export type PresenceAnomalyType = 'tap_without_occupancy' | 'occupancy_without_tap';
+
+export type PresenceFlagResolution = 'confirmed_present' | 'marked_absent' | 'dismissed';
+
+// Record stored at /PresenceFlags/{sessionId}/{flagId}
+export interface RTDBPresenceFlag {
+  id: string;
+  sessionId: string;
+  type: PresenceAnomalyType;
+  sensorId: string;
+  // Set when the flag can be tied to a student: the tapping student, or the
+  // student whose record names the occupied sensor.
+  rfidUid?: string;
+  studentName?: string;
+  detectedAt: number;
+  status: 'open' | 'resolved';
+  resolution?: PresenceFlagResolution;
+  resolutionNote?: string;
+  resolvedBy?: RTDBActor;
+  resolvedAt?: number;
+}
+
+export type ProxyTapPattern = 'tap_burst' | 'impossible_travel';
+
+export interface RTDBProxyTapEvidence {
+  rfidUid: string;
+  studentName: string;
+  sessionId: string;
+  roomId: string;
+  tappedAt: number;
+}
+
+// Record stored at /ProxyTapCases/{caseId}
+export interface RTDBProxyTapCase {
+  id: string;
+  pattern: ProxyTapPattern;
+  taps: RTDBProxyTapEvidence[];
+  // For bursts: seats that became occupied around the taps.
+  occupiedSeats?: number;
+  // Instructors of the sessions involved, who see the case in their queue.
+  instructorUids: string[];
+  detectedAt: number;
+  status: 'open' | 'confirmed' | 'dismissed';
+  reviewedBy?: RTDBActor;
+  reviewedAt?: number;
+  reviewNote?: string;
+}
+
+// 'pending' cards are held for a registration awaiting admin approval.
+export type RFIDCardStatus = 'pending' | 'active' | 'lost' | 'revoked' | 'replaced' | 'expired';
+
+// Record stored at /rfid/{cardUid}. Cards bound before the console carry only
+// `uid`, `role` and `timestamp` and default to active and permanent.
+export interface RTDBRfidCard {
+  uid: string; // holder's auth uid, empty for visitor cards
+  role: string;
+  timestamp?: number;
+  status: RFIDCardStatus;
+  kind: 'permanent' | 'temporary';
+  holderName?: string;
+  // Temporary cards only.
+  purpose?: string;
+  expiresAt?: number;
+  replaces?: string;
+  replacedBy?: string;
+  updatedAt?: number;
+}
+
+export type RFIDCardEventType = 'assigned' | 'issued_temporary' | 'reported_lost' | 'revoked' | 'replaced' | 'expired';
+
+// Record stored at /RFIDCardHistory/{cardUid}/{eventId}. Entries are only ever
+// appended. `by` is missing on events raised by the expiry sweep.
+export interface RTDBRfidCardEvent {
+  type: RFIDCardEventType;
+  at: number;
+  by?: RTDBActor;
+  holderUid: string;
+  holderRole: string;
+  holderName?: string;
+  // The other card in a replacement.
+  relatedCard?: string;
+  note?: string;
+}
+
+// Record stored at /UserSessions/{authUid}/{sessionId}, one per signed-in
+// browser. Removed on sign-out; `revokedAt` tells the browser to sign out.
+export interface RTDBUserSession {
+  startedAt: number;
+  lastActiveAt: number;
+  device: string;
+  userAgent?: string;
+  revokedAt?: number;
+  // Set when an admin revoked it; the owner revoking their own session leaves it out.
+  revokedBy?: RTDBActor;
+}
@@ -0,0 +1,3 @@
+// For values interpolated into SweetAlert `html` content.
+export const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
@@ -0,0 +1,55 @@
+import readXlsxFile from 'read-excel-file';
+
+// RFC 4180 CSV: quoted fields may hold commas, newlines and doubled quotes.
+export const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+// Reads the first sheet of an .xlsx file, or a .csv file, as rows of trimmed text.
+export const readSpreadsheet = async (file: File): Promise<string[][]> => {
+  if (/\.xlsx$/i.test(file.name)) {
+    const rows = await readXlsxFile(file);
+    return rows
+      .map((cells) => cells.map((cell) => (cell === null || cell === undefined ? '' : String(cell).trim())))
+      .filter((cells) => cells.some(Boolean));
+  }
+  if (/\.csv$/i.test(file.name)) {
+    return parseCSV(await file.text()).map((cells) => cells.map((cell) => cell.trim()));
+  }
+  throw new Error('Only .csv and .xlsx files are supported');
+};